@@ -42,7 +42,7 @@ create table if not exists wallet_transactions (
   user_id uuid references auth.users(id) on delete cascade default auth.uid(),
   device_id uuid references devices(id) on delete set null,
   ts timestamptz not null,
-  type text check (type in ('earn','spend','adjust')) not null,
+  type text check (type in ('earn','spend','adjust','reversal')) not null,
   amount integer not null,
   meta jsonb default '{}'::jsonb
 );
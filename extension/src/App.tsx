@@ -1,12 +1,16 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import './App.css';
 import { useExtensionTheme } from './theme';
+import { describeOfflineWalletReconciliation, offlineWalletNeedsAttention } from '../../src/shared/offlineWalletJournal';
+import type { OfflineWalletReconciliation } from '../../src/shared/types';
 
 type ConnectionState = {
   desktopConnected: boolean;
+  desktopPaired?: boolean;
   lastSync: number;
   lastFrivolityAt: number | null;
   rotMode?: { enabled: boolean; startedAt: number | null };
+  walletReconciliation?: OfflineWalletReconciliation | null;
   sessions: Record<string, {
     domain: string;
     mode: 'metered' | 'pack' | 'emergency' | 'store';
@@ -139,6 +143,8 @@ function App() {
   const [priceInput, setPriceInput] = useState(12);
   const [rotEnabled, setRotEnabled] = useState(false);
   const [rotBusy, setRotBusy] = useState(false);
+  const [pairingCode, setPairingCode] = useState('');
+  const [pairingBusy, setPairingBusy] = useState(false);
 
   const refreshState = useCallback(async () => {
     const tab = await getActiveTabInfo();
@@ -190,6 +196,27 @@ function App() {
     }
   }, [rotBusy, rotEnabled]);
 
+  const pairDesktop = useCallback(async () => {
+    if (pairingBusy) return;
+    setPairingBusy(true);
+    try {
+      const result = await chrome.runtime.sendMessage({ type: 'PAIR_DESKTOP', payload: { code: pairingCode } }) as { success?: boolean; error?: string } | undefined;
+      if (!result?.success) throw new Error(result?.error ?? 'Pairing failed');
+      setPairingCode('');
+      setNotice({ kind: 'success', text: 'Paired with the desktop app.' });
+      await refreshState();
+    } catch (error) {
+      setNotice({ kind: 'error', text: (error as Error).message });
+    } finally {
+      setPairingBusy(false);
+    }
+  }, [pairingBusy, pairingCode, refreshState]);
+
+  const dismissWalletReconciliation = useCallback(async () => {
+    await chrome.runtime.sendMessage({ type: 'DISMISS_WALLET_RECONCILIATION' });
+    await refreshState();
+  }, [refreshState]);
+
   const openPomodoroView = useCallback(async () => {
     try {
       setWorking(true);
@@ -275,6 +302,7 @@ function App() {
     : null;
 
   const lastFrivolityAt = connection?.lastFrivolityAt ?? null;
+  const walletReconciliation = connection?.walletReconciliation ?? null;
   const lastFrivolityAgeMs = lastFrivolityAt ? Math.max(0, now - lastFrivolityAt) : null;
   const streakTargetMs = 72 * 60 * 60 * 1000;
   const streakProgress = lastFrivolityAgeMs ? Math.min(1, lastFrivolityAgeMs / streakTargetMs) : 0;
@@ -392,7 +420,7 @@ function App() {
           <h1>Current tab</h1>
         </div>
         <div className={`status-pill ${connection?.desktopConnected ? 'on' : 'off'}`}>
-          {connection?.desktopConnected ? 'Desktop linked' : 'Offline'}
+          {connection?.desktopConnected ? 'Desktop linked' : connection?.desktopPaired === false ? 'Not paired' : 'Offline'}
         </div>
       </header>
 
@@ -410,6 +438,34 @@ function App() {
         </div>
       )}
 
+      {offlineWalletNeedsAttention(walletReconciliation) && (
+        <section className="card">
+          <p className="eyebrow">Offline spending reconciled</p>
+          <p className="subtle">{describeOfflineWalletReconciliation(walletReconciliation)}.</p>
+          <div className="pill-row">
+            <span className="pill ghost">Balance {walletReconciliation.balance} f-coins</span>
+            <button onClick={() => void dismissWalletReconciliation()}>Dismiss</button>
+          </div>
+        </section>
+      )}
+
+      {connection && connection.desktopPaired === false && (
+        <section className="card">
+          <p className="eyebrow">Pair with desktop</p>
+          <p className="subtle">Open Settings → Sync &amp; Profile in the desktop app, create a pairing code, and enter it here.</p>
+          <div className="pill-row">
+            <input
+              value={pairingCode}
+              onChange={(event) => setPairingCode(event.target.value)}
+              placeholder="ABCD2345"
+            />
+            <button className="primary" onClick={() => void pairDesktop()} disabled={pairingBusy || !pairingCode.trim()}>
+              Pair
+            </button>
+          </div>
+        </section>
+      )}
+
       {activeTab ? (
         <section className="card page-card">
           <div className="section-heading">
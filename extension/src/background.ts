@@ -1,17 +1,37 @@
-import { storage, type DailyOnboardingState, type LibraryItem, type LibraryPurpose, type PendingActivityEvent, type PomodoroSession, type PaywallSession, type ReflectionSlideshowSettings, type WritingHudSession } from './storage';
-import { CONTEXT_MENU_IDS, DEFAULT_UNLOCK_PRICE, DESKTOP_API_URL, DESKTOP_WS_URL, NOTIFICATION_ICON } from './constants';
+import { storage, type DailyOnboardingState, type LibraryItem, type LibraryPurpose, type PendingActivityEvent, type PomodoroSession, type PaywallSession, type PendingWalletTransaction, type ReflectionSlideshowSettings, type WritingHudSession } from './storage';
+import { CONTEXT_MENU_IDS, DEFAULT_UNLOCK_PRICE, DESKTOP_API_URL, NOTIFICATION_ICON } from './constants';
+import { clearDesktopPairing, desktopFetch, getDesktopPairing, getDesktopWsUrl, pairWithDesktop, signWithPairing } from './desktopPairing';
 import {
     getPomodoroSiteBlockReason,
     isPomodoroSiteAllowed,
     normalizePomodoroDomain,
     parsePomodoroSiteTarget
 } from '../../src/shared/pomodoroMatcher';
+import { isPomodoroEnforced, pomodoroPhaseProgress, pomodoroPhaseRemainingMs } from '../../src/shared/pomodoroPlan';
 import { createEmergencyCommandHandlers } from './background/emergencyCommands';
-import { createPaywallSessionCommandHandlers } from './background/paywallSessionCommands';
+import { createPaywallSessionCommandHandlers, type PaywallQuotes } from './background/paywallSessionCommands';
 import { createExtensionSessionTickerController } from './background/sessionTicker';
+import { createOfflineWalletQueue } from './background/offlineWalletQueue';
 import { evaluatePaywallAccess } from '../../src/shared/paywallAccessPolicy';
 import { parseExtensionSyncEnvelope } from '../../src/shared/extensionSyncContract';
-import type { EmergencyPolicyId, GuardrailColorFilter } from '../../src/shared/types';
+import { getEmergencyPolicyConfig } from '../../src/shared/emergencyPolicy';
+import { METERED_PREMIUM_MULTIPLIER, type PaywallQuote } from '../../src/shared/paywallPricing';
+import {
+    describeOfflineWalletReconciliation,
+    mergeOfflineWalletReconciliations,
+    offlineWalletNeedsAttention,
+    offlineWalletSigningPayload
+} from '../../src/shared/offlineWalletJournal';
+import {
+    WS_PROTOCOL_VERSION,
+    clientMessageSupported,
+    createWsProtocolStats,
+    parseServerMessage,
+    recordWsParseResult,
+    type WsClientMessage,
+    type WsServerMessage
+} from '../../src/shared/wsProtocol';
+import type { EmergencyPolicyId, GuardrailColorFilter, OfflineWalletReconciliation } from '../../src/shared/types';
 import { getWritingTargetIdentity, matchesWritingTargetUrl, type WritingTargetKind } from './writing/targetAdapters';
 
 type IdleState = 'active' | 'idle' | 'locked';
@@ -20,8 +40,14 @@ type IntervalHandle = ReturnType<typeof setInterval>;
 
 const POMODORO_STALE_MS = 45_000;
 const DAILY_START_HOUR = 4;
+// Close code the desktop uses when this extension's pairing is revoked.
+const DESKTOP_PAIRING_REVOKED_CODE = 4401;
 
 let ws: WebSocket | null = null;
+/** Agreed in the `hello` exchange; stays null with older desktops that never answer it. */
+let desktopProtocolVersion: number | null = null;
+const desktopProtocolStats = createWsProtocolStats();
+let desktopConnectPending = false;
 let reconnectTimer: TimeoutHandle | null = null;
 let heartbeatTimer: IntervalHandle | null = null;
 let devSimulateDesktopDisconnect = false;
@@ -100,12 +126,6 @@ type TabPeekState = {
 
 const tabPeekState = new Map<number, TabPeekState>();
 const PEEK_NEW_PAGE_WINDOW_MS = 5000;
-const METERED_PREMIUM_MULTIPLIER = 3.5;
-const COLOR_FILTER_PRICE_MULTIPLIER: Record<GuardrailColorFilter, number> = {
-    'full-color': 1,
-    greyscale: 0.55,
-    redscale: 0.7
-};
 const EXTENSION_HEARTBEAT_INTERVAL_MS = 20_000;
 const DESKTOP_AUTHORITY_STALE_MS = 45_000;
 const HOMEBASE_EXIT_FADE_MS = 1400;
@@ -364,10 +384,6 @@ function normalizeGuardrailColorFilter(value: unknown): GuardrailColorFilter {
         : 'full-color';
 }
 
-function getColorFilterPriceMultiplier(mode: GuardrailColorFilter): number {
-    return COLOR_FILTER_PRICE_MULTIPLIER[mode] ?? 1;
-}
-
 const IS_DEV_BUILD = (() => {
     try {
         return !chrome.runtime.getManifest().update_url;
@@ -549,7 +565,7 @@ async function flushBehaviorEvents() {
         while (behaviorEventQueue.length > 0) {
             const batch = behaviorEventQueue.slice(0, BEHAVIOR_EVENT_FLUSH_BATCH);
             try {
-                const response = await fetch(`${DESKTOP_API_URL}/analytics/behavior-events`, {
+                const response = await desktopFetch(`${DESKTOP_API_URL}/analytics/behavior-events`, {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({ events: batch }),
@@ -628,14 +644,18 @@ function createSyncId() {
 }
 
 // Queue offline usage deltas so the desktop app can ingest them when it reconnects.
+// Entries are signed with the pairing's journal key as they are recorded; the
+// key never goes out with a request, so holding the bearer token is not enough
+// to add entries to this extension's journal.
 async function queueWalletTransaction(payload: { type: 'earn' | 'spend' | 'adjust'; amount: number; meta?: Record<string, unknown>; ts?: string; syncId?: string }) {
-    await storage.queueWalletTransaction({
+    const entry: PendingWalletTransaction = {
         syncId: payload.syncId ?? createSyncId(),
         ts: payload.ts ?? new Date().toISOString(),
         type: payload.type,
         amount: payload.amount,
         meta: payload.meta
-    });
+    };
+    await storage.queueWalletTransaction({ ...entry, ...(await signWithPairing(offlineWalletSigningPayload(entry))) });
     schedulePendingUsageFlush();
 }
 
@@ -653,11 +673,9 @@ async function queueConsumptionEvent(payload: { kind: string; title?: string | n
 }
 
 async function emitPomodoroBlock(payload: { target: string; kind: 'app' | 'site'; reason: 'not-allowlisted' | 'override-expired' | 'unknown-session' | 'verification-failed'; remainingMs?: number; mode: 'strict' | 'soft' }) {
-    const message = { type: 'pomodoro:block', payload };
     if (ws && ws.readyState === WebSocket.OPEN) {
         try {
-            ws.send(JSON.stringify(message));
-            return;
+            if (sendDesktopMessage({ type: 'pomodoro:block', payload })) return;
         } catch {
             // fallthrough to queue
         }
@@ -741,17 +759,33 @@ chrome.notifications?.onClosed?.addListener((notificationId) => {
 // ============================================================================
 
 function tryConnectToDesktop() {
-    if (ws) return;
+    if (ws || desktopConnectPending) return;
     if (devSimulateDesktopDisconnect) {
         console.log('Dev mode: desktop WS simulation enabled, skipping connect');
         return;
     }
 
+    desktopConnectPending = true;
+    void getDesktopWsUrl().then((url) => {
+        desktopConnectPending = false;
+        if (ws) return;
+        if (!url) {
+            console.log('Desktop app not paired; enter the pairing code from desktop Settings in the popup');
+            scheduleReconnect();
+            return;
+        }
+        openDesktopSocket(url);
+    });
+}
+
+function openDesktopSocket(url: string) {
     console.log('Attempting to connect to desktop app...');
-    ws = new WebSocket(DESKTOP_WS_URL);
+    ws = new WebSocket(url);
 
     ws.onopen = async () => {
         console.log('✅ Connected to desktop app');
+        desktopProtocolVersion = null;
+        sendDesktopMessage({ type: 'hello', payload: { protocolVersion: WS_PROTOCOL_VERSION, client: 'extension' } });
         lastDesktopAuthorityAt = Date.now();
         if (reconnectTimer) {
             clearTimeout(reconnectTimer);
@@ -760,7 +794,9 @@ function tryConnectToDesktop() {
         sendDesktopHeartbeat();
         startHeartbeatTimer();
         // Sync data from desktop
+        const pomodoroBefore = await storage.getPomodoroSession();
         await syncFromDesktop();
+        await reconcilePomodoroAfterSync(pomodoroBefore);
         await syncPendingLibraryItems();
         await syncPendingCategorisation();
         await syncPendingDailyOnboarding();
@@ -770,10 +806,14 @@ function tryConnectToDesktop() {
         await flushBehaviorEvents();
     };
 
-    ws.onclose = () => {
+    ws.onclose = (event) => {
         console.log('❌ Disconnected from desktop app (extension will work offline)');
+        if (event.code === DESKTOP_PAIRING_REVOKED_CODE) {
+            void clearDesktopPairing();
+        }
         stopHeartbeatTimer();
         lastDesktopAuthorityAt = 0;
+        desktopProtocolVersion = null;
         ws = null;
         scheduleReconnect();
     };
@@ -794,24 +834,39 @@ function tryConnectToDesktop() {
     };
 
     ws.onmessage = (event) => {
+        lastDesktopAuthorityAt = Date.now();
+        const result = parseServerMessage(event.data);
+        const count = recordWsParseResult(desktopProtocolStats, result);
+        if (!result.ok) {
+            console.warn('[desktop-ws] dropped message', { reason: result.reason, type: result.type, error: result.error, count });
+            return;
+        }
         try {
-            lastDesktopAuthorityAt = Date.now();
-            const data = JSON.parse(event.data);
-            handleDesktopMessage(data);
+            handleDesktopMessage(result.message);
         } catch (e) {
-            console.error('Failed to parse desktop message', e);
+            console.error('Failed to handle desktop message', result.message.type, e);
         }
     };
 }
 
+/**
+ * Sends a message to the desktop if the socket is open and the negotiated
+ * protocol knows its type. Returns false when nothing was sent.
+ */
+function sendDesktopMessage(message: WsClientMessage) {
+    if (!ws || ws.readyState !== WebSocket.OPEN) return false;
+    if (message.type !== 'hello' && !clientMessageSupported(message.type, desktopProtocolVersion ?? 0)) return false;
+    ws.send(JSON.stringify(message));
+    return true;
+}
+
 function sendDesktopHeartbeat() {
-    if (!ws || ws.readyState !== WebSocket.OPEN) return;
-    ws.send(JSON.stringify({
+    sendDesktopMessage({
         type: 'extension:heartbeat',
         payload: {
             timestamp: Date.now()
         }
-    }));
+    });
 }
 
 function startHeartbeatTimer() {
@@ -868,7 +923,7 @@ function logSessionDrift(
 async function syncFromDesktop() {
     try {
         const before = devLogSessionDrift ? await storage.getAllSessions() : null;
-        const response = await fetch(`${DESKTOP_API_URL}/extension/state`, { cache: 'no-store' });
+        const response = await desktopFetch(`${DESKTOP_API_URL}/extension/state`, { cache: 'no-store' });
         if (response.ok) {
             const raw = await response.json();
             const parsed = parseExtensionSyncEnvelope(raw);
@@ -888,6 +943,17 @@ async function syncFromDesktop() {
     }
 }
 
+/**
+ * The desktop app may have restarted while we were disconnected, restoring or
+ * closing the pomodoro we were enforcing. Re-check the open tab if so.
+ */
+async function reconcilePomodoroAfterSync(before: PomodoroSession | null) {
+    const after = await storage.getPomodoroSession();
+    if (before?.id === after?.id && before?.state === after?.state) return;
+    console.log('[pomodoro] session changed while disconnected', { before: before?.state ?? null, after: after?.state ?? null });
+    await reevaluateActivePomodoroTab('desktop-resync');
+}
+
 async function maybeRefreshSessionConsistency(domain: string, source: string) {
     if (!ws || ws.readyState !== WebSocket.OPEN) return;
     const prefix = source.split(':')[0] ?? '';
@@ -904,13 +970,18 @@ async function maybeRefreshSessionConsistency(domain: string, source: string) {
     await syncFromDesktop().catch(() => { });
 }
 
-function handleDesktopMessage(data: any) {
+function handleDesktopMessage(data: WsServerMessage) {
     // console.log('Received from desktop:', data.type);
 
-    if (data.type === 'wallet') {
-        storage.updateFromDesktop({ wallet: data.payload });
+    if (data.type === 'hello') {
+        desktopProtocolVersion = data.payload.protocolVersion;
+        console.log(`[desktop-ws] speaking protocol v${desktopProtocolVersion} (desktop v${data.payload.serverProtocolVersion}, extension v${WS_PROTOCOL_VERSION})`);
+    } else if (data.type === 'error') {
+        console.warn('[desktop-ws] desktop reported an error:', data.payload.message);
+    } else if (data.type === 'wallet') {
+        storage.updateFromDesktop({ wallet: data.payload } as Record<string, unknown>);
     } else if (data.type === 'market-update') {
-        storage.updateFromDesktop({ marketRates: data.payload });
+        storage.updateFromDesktop({ marketRates: data.payload } as Record<string, unknown>);
     } else if (data.type === 'library-sync') {
         const items = Array.isArray(data.payload?.items) ? data.payload.items : data.payload;
         if (Array.isArray(items)) {
@@ -1054,10 +1125,28 @@ function handleDesktopMessage(data: any) {
             title: 'Emergency access reminder',
             message: `Emergency mode is still active for ${domain}. Is this still an emergency?${justification ? ` Reason: ${justification}.` : ''}`
         });
-    } else if (data.type === 'pomodoro-start' && data.payload) {
+    } else if (data.type === 'budget-warning' && data.payload) {
+        const { budgetId, target, period, threshold, exhausted, escalation } = data.payload as {
+            budgetId: number;
+            target: string;
+            period: 'day' | 'week';
+            threshold: number;
+            exhausted: boolean;
+            escalation: 'warn' | 'surcharge' | 'block';
+        };
+        const consequence = !exhausted || escalation === 'warn'
+            ? ''
+            : escalation === 'block' ? ' New sessions are blocked.' : ' Prices are raised until the budget resets.';
+        chrome.notifications?.create(`tws-budget-${budgetId}-${Date.now()}`, {
+            type: 'basic',
+            iconUrl: 'icons/icon128.png',
+            title: exhausted ? 'Budget used up' : 'Budget warning',
+            message: `You've used ${Math.round(threshold * 100)}% of your ${period === 'day' ? 'daily' : 'weekly'} ${target} budget.${consequence}`
+        });
+    } else if ((data.type === 'pomodoro-start' || data.type === 'pomodoro-phase') && data.payload) {
         const session = data.payload as PomodoroSession;
         storage.setPomodoroSession({ ...session, lastUpdated: Date.now() }).catch(() => { });
-        void reevaluateActivePomodoroTab('pomodoro-start');
+        void reevaluateActivePomodoroTab(data.type);
     } else if (data.type === 'pomodoro-tick' && data.payload) {
         const session = data.payload as PomodoroSession;
         storage.updatePomodoroSession({
@@ -1188,7 +1277,7 @@ async function checkAndBlockUrl(tabId: number, urlString: string, source: string
         // console.log(`🔍 Checking ${domain} (source: ${source})`);
 
         const pomodoroSession = await storage.getPomodoroSession();
-        if (pomodoroSession && pomodoroSession.state === 'active') {
+        if (pomodoroSession && isPomodoroEnforced(pomodoroSession)) {
             const stale = pomodoroSession.lastUpdated && Date.now() - pomodoroSession.lastUpdated > POMODORO_STALE_MS;
             const allowed = isPomodoroAllowed(pomodoroSession, urlString);
             if (!allowed) {
@@ -1197,7 +1286,7 @@ async function checkAndBlockUrl(tabId: number, urlString: string, source: string
                     target: domain,
                     kind: 'site',
                     reason,
-                    remainingMs: pomodoroSession.remainingMs,
+                    remainingMs: pomodoroPhaseRemainingMs(pomodoroSession),
                     mode: pomodoroSession.mode
                 });
                 if (tabId != null) {
@@ -1206,10 +1295,12 @@ async function checkAndBlockUrl(tabId: number, urlString: string, source: string
                     if (changed) {
                         await showPomodoroBlockScreen(tabId, {
                             domain,
-                            remainingMs: pomodoroSession.remainingMs,
+                            remainingMs: pomodoroPhaseRemainingMs(pomodoroSession),
                             mode: pomodoroSession.mode,
                             softUnlockMs: pomodoroSession.temporaryUnlockSec * 1000,
-                            reason
+                            reason,
+                            plan: pomodoroSession.plan ?? null,
+                            phaseProgress: pomodoroPhaseProgress(pomodoroSession)
                         });
                         await notifyPomodoroBlock(domain, pomodoroSession.mode, reason);
                     }
@@ -1427,8 +1518,7 @@ async function findTabIdForDomain(domain: string): Promise<number | null> {
 function emitActivity(event: PendingActivityEvent) {
     if (ws && ws.readyState === WebSocket.OPEN) {
         try {
-            ws.send(JSON.stringify(event));
-            return;
+            if (sendDesktopMessage(event)) return;
         } catch (error) {
             console.warn('Failed to send activity over WS, queueing locally', error);
         }
@@ -1445,7 +1535,7 @@ async function flushPendingActivity() {
         for (const event of pending) {
             if (!ws || ws.readyState !== WebSocket.OPEN) break;
             try {
-                ws.send(JSON.stringify(event));
+                if (!sendDesktopMessage(event)) break;
                 sent += 1;
             } catch {
                 break;
@@ -1469,7 +1559,7 @@ async function flushPendingPomodoroBlocks() {
         for (const event of pending) {
             if (!ws || ws.readyState !== WebSocket.OPEN) break;
             try {
-                ws.send(JSON.stringify({ type: 'pomodoro:block', payload: event }));
+                if (!sendDesktopMessage({ type: 'pomodoro:block', payload: event })) break;
                 sent += 1;
             } catch {
                 break;
@@ -1490,31 +1580,61 @@ function schedulePendingUsageFlush(delayMs = 2000) {
     }, delayMs);
 }
 
+const offlineWalletQueue = createOfflineWalletQueue({
+    storage,
+    currentSignerId: async () => (await getDesktopPairing())?.client.id ?? null,
+    sign: signWithPairing
+});
+
+function notifyWalletReconciliation(report: OfflineWalletReconciliation) {
+    if (!offlineWalletNeedsAttention(report)) return;
+    chrome.notifications?.create(`tws-wallet-reconcile-${Date.now()}`, {
+        type: 'basic',
+        iconUrl: 'icons/icon128.png',
+        title: 'Offline spending reconciled',
+        message: `${describeOfflineWalletReconciliation(report)}. Balance is now ${report.balance} f-coins.`
+    });
+}
+
 async function flushPendingUsage() {
     // Send queued wallet + consumption events to desktop for reconciliation.
     let synced = false;
+    let reconciliation: OfflineWalletReconciliation | null = null;
     while (true) {
-        const transactions = await storage.getPendingWalletTransactions(PENDING_USAGE_FLUSH_LIMIT);
+        const transactions = await offlineWalletQueue.signPending(await storage.getPendingWalletTransactions(PENDING_USAGE_FLUSH_LIMIT));
         const consumption = await storage.getPendingConsumptionEvents(PENDING_USAGE_FLUSH_LIMIT);
         if (!transactions.length && !consumption.length) break;
 
         try {
-            const response = await fetch(`${DESKTOP_API_URL}/extension/ingest`, {
+            const response = await desktopFetch(`${DESKTOP_API_URL}/extension/ingest`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ transactions, consumption }),
                 cache: 'no-store',
             });
             if (!response.ok) throw new Error('Failed to ingest pending usage');
-            await storage.clearPendingWalletTransactions(transactions.map((entry) => entry.syncId));
+            const result = await response.json().catch(() => null) as { reconciliation?: OfflineWalletReconciliation } | null;
+            const settled = await offlineWalletQueue.settle(transactions, result?.reconciliation ?? null);
             await storage.clearPendingConsumptionEvents(consumption.map((entry) => entry.syncId));
+            if (transactions.length && settled.report) {
+                reconciliation = mergeOfflineWalletReconciliations(reconciliation, settled.report);
+            }
             synced = true;
+            if (settled.retrying === transactions.length && !consumption.length) {
+                // Rejected even when signed with the current pairing; leave them for the next flush.
+                console.warn(`Desktop rejected ${settled.retrying} offline wallet entries; will retry`);
+                break;
+            }
         } catch (error) {
             console.warn('Failed to sync pending usage', error);
-            return;
+            break;
         }
     }
 
+    if (reconciliation) {
+        await storage.setLastWalletReconciliation(reconciliation);
+        notifyWalletReconciliation(reconciliation);
+    }
     if (synced) {
         await syncFromDesktop();
     }
@@ -1690,7 +1810,15 @@ async function showEmergencyIntentCheck(tabId: number | null | undefined, payloa
 
 async function showPomodoroBlockScreen(
     tabId: number,
-    payload: { domain: string; remainingMs?: number; mode: 'strict' | 'soft'; softUnlockMs?: number; reason?: string }
+    payload: {
+        domain: string;
+        remainingMs?: number;
+        mode: 'strict' | 'soft';
+        softUnlockMs?: number;
+        reason?: string;
+        plan?: PomodoroSession['plan'];
+        phaseProgress?: number;
+    }
 ) {
     await ensureContentScript(tabId);
     try {
@@ -1823,7 +1951,7 @@ async function getFocusRescueTarget(currentDomain: string): Promise<{ label: str
     const candidates: string[] = [];
 
     const pomodoroSession = await storage.getPomodoroSession();
-    if (pomodoroSession && pomodoroSession.state === 'active') {
+    if (pomodoroSession && isPomodoroEnforced(pomodoroSession)) {
         for (const entry of pomodoroSession.allowlist) {
             if (entry.kind !== 'site') continue;
             candidates.push(entry.value);
@@ -1961,17 +2089,58 @@ async function notifyPomodoroBlock(domain: string, mode: PomodoroSession['mode']
     }
 }
 
+// Challenges are generated and checked by the desktop, so there is no offline fallback.
+async function postChallenge(path: '/paywall/challenge' | '/paywall/challenge-pass', payload: Record<string, unknown>) {
+    try {
+        const response = await desktopFetch(`${DESKTOP_API_URL}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+            cache: 'no-store',
+        });
+        const body = await response.json().catch(() => null) as Record<string, unknown> | null;
+        if (!response.ok) {
+            return { ok: false as const, error: typeof body?.error === 'string' ? body.error : 'Challenge unlock needs the desktop app' };
+        }
+        return { ok: true as const, body };
+    } catch {
+        return { ok: false as const, error: 'Challenge unlock needs the desktop app' };
+    }
+}
+
+async function handleIssueChallenge(payload: { domain?: string }) {
+    const result = await postChallenge('/paywall/challenge', { domain: payload?.domain });
+    return result.ok ? { success: true, challenge: result.body } : { success: false, error: result.error };
+}
+
+async function handleStartChallengePass(payload: { domain?: string; challengeId?: string; entries?: Array<Array<number | null>> }) {
+    const result = await postChallenge('/paywall/challenge-pass', {
+        domain: payload?.domain,
+        challengeId: payload?.challengeId,
+        entries: payload?.entries
+    });
+    if (!result.ok) return { success: false, error: result.error };
+    const session = result.body as unknown as PaywallSession;
+    await storage.updateFromDesktop({ sessions: { [session.domain]: session } as any });
+    return { success: true, session };
+}
+
 async function preferDesktopPurchase(
     path: '/paywall/packs' | '/paywall/metered',
     payload: Record<string, unknown>
-): Promise<{ ok: true; session: unknown } | { ok: false; error: string }> {
+): Promise<{ ok: true; session: unknown } | { ok: false; error: string; quote?: PaywallQuote }> {
     try {
-        const response = await fetch(`${DESKTOP_API_URL}${path}`, {
+        const response = await desktopFetch(`${DESKTOP_API_URL}${path}`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(payload),
             cache: 'no-store',
         });
+        if (response.status === 409) {
+            // The price moved since the overlay quoted it; hand the new quote back instead of buying offline.
+            const body = await response.json() as { error?: string; quote?: PaywallQuote };
+            return { ok: false as const, error: body.error ?? 'Price changed', quote: body.quote };
+        }
         if (!response.ok) throw new Error('desktop unreachable');
         const session = await response.json();
         await storage.updateFromDesktop({
@@ -1987,6 +2156,21 @@ async function preferDesktopPurchase(
     }
 }
 
+async function fetchDesktopPaywallQuotes(payload: Record<string, unknown>): Promise<PaywallQuotes | null> {
+    try {
+        const response = await desktopFetch(`${DESKTOP_API_URL}/paywall/quote`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+            cache: 'no-store',
+        });
+        if (!response.ok) return null;
+        return await response.json() as PaywallQuotes;
+    } catch {
+        return null;
+    }
+}
+
 async function waitForLocalEmergencySession(domain: string, timeoutMs = 1800): Promise<PaywallSession | null> {
     const deadline = Date.now() + timeoutMs;
     while (Date.now() < deadline) {
@@ -2000,7 +2184,7 @@ async function waitForLocalEmergencySession(domain: string, timeoutMs = 1800): P
 }
 
 async function fetchDesktopPaywallStatusSession(domain: string): Promise<Partial<PaywallSession> | null> {
-    const response = await fetch(`${DESKTOP_API_URL}/paywall/status?domain=${encodeURIComponent(domain)}`, { cache: 'no-store' });
+    const response = await desktopFetch(`${DESKTOP_API_URL}/paywall/status?domain=${encodeURIComponent(domain)}`, { cache: 'no-store' });
     if (!response.ok) return null;
     const payload = await response.json() as { session?: Partial<PaywallSession> | null };
     if (!payload?.session || typeof payload.session !== 'object') return null;
@@ -2037,7 +2221,7 @@ async function preferDesktopEmergency(payload: { domain: string; justification:
     }
 
     try {
-        const response = await fetch(`${DESKTOP_API_URL}/paywall/emergency`, {
+        const response = await desktopFetch(`${DESKTOP_API_URL}/paywall/emergency`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(payload),
@@ -2063,7 +2247,7 @@ async function preferDesktopEmergency(payload: { domain: string; justification:
 
 async function preferDesktopConstrainEmergency(payload: { domain: string; durationSeconds?: number }) {
     try {
-        const response = await fetch(`${DESKTOP_API_URL}/paywall/emergency/constrain`, {
+        const response = await desktopFetch(`${DESKTOP_API_URL}/paywall/emergency/constrain`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(payload),
@@ -2089,7 +2273,7 @@ async function preferDesktopConstrainEmergency(payload: { domain: string; durati
 
 async function preferDesktopEnd(domain: string) {
     try {
-        const response = await fetch(`${DESKTOP_API_URL}/paywall/end`, {
+        const response = await desktopFetch(`${DESKTOP_API_URL}/paywall/end`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ domain }),
@@ -2105,19 +2289,18 @@ async function preferDesktopEnd(domain: string) {
 }
 
 function sendDesktopWsEvent(type: string, payload: unknown) {
-    if (!ws || ws.readyState !== WebSocket.OPEN) return false;
-    ws.send(JSON.stringify({ type, payload }));
-    return true;
+    return sendDesktopMessage({ type, payload } as WsClientMessage);
 }
 
 const paywallSessionCommands = createPaywallSessionCommandHandlers({
     storage,
     preferDesktopPurchase,
+    fetchDesktopQuotes: fetchDesktopPaywallQuotes,
     preferDesktopEnd,
     sendWsEvent: sendDesktopWsEvent,
     postStartStoreFallback: async (payload) => {
         try {
-            const response = await fetch(`${DESKTOP_API_URL}/paywall/start-store-fallback`, {
+            const response = await desktopFetch(`${DESKTOP_API_URL}/paywall/start-store-fallback`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify(payload),
@@ -2133,8 +2316,6 @@ const paywallSessionCommands = createPaywallSessionCommandHandlers({
     queueConsumptionEvent,
     baseUrl,
     normalizeGuardrailColorFilter,
-    getColorFilterPriceMultiplier,
-    meteredPremiumMultiplier: METERED_PREMIUM_MULTIPLIER,
     getActiveHttpTab,
     matchesSessionDomain,
     transitionTabToHomebase: async (tabId, domain, reason) => {
@@ -2159,7 +2340,7 @@ const emergencyCommands = createEmergencyCommandHandlers({
         return sendDesktopWsEvent('paywall:emergency-review', { outcome, domain });
     },
     sendEmergencyReviewToDesktop: async (outcome) => {
-        await fetch(`${DESKTOP_API_URL}/paywall/emergency-review`, {
+        await desktopFetch(`${DESKTOP_API_URL}/paywall/emergency-review`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ outcome }),
@@ -2238,10 +2419,16 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             return true;
         case 'GET_CONNECTION':
             return respondAsync(sendResponse, () => handleGetConnection());
+        case 'PAIR_DESKTOP':
+            return respondAsync(sendResponse, () => handlePairDesktop(payload));
+        case 'DISMISS_WALLET_RECONCILIATION':
+            return respondAsync(sendResponse, () => handleDismissWalletReconciliation());
         case 'GET_FRIENDS':
             return respondAsync(sendResponse, () => handleGetFriends());
         case 'GET_TROPHIES':
             return respondAsync(sendResponse, () => handleGetTrophies());
+        case 'GET_MARKET_PRICING':
+            return respondAsync(sendResponse, () => handleGetMarketPricing(payload));
         case 'GET_FRIEND_TIMELINE':
             return respondAsync(sendResponse, () => handleGetFriendTimeline(payload));
         case 'PAGE_HEARTBEAT':
@@ -2292,6 +2479,8 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             return respondAsync(sendResponse, () => handleBuyPack(payload));
         case 'START_METERED':
             return respondAsync(sendResponse, () => handleStartMetered(payload));
+        case 'GET_PAYWALL_QUOTE':
+            return respondAsync(sendResponse, () => handleGetPaywallQuote(payload));
         case 'PAUSE_SESSION':
             return respondAsync(sendResponse, () => handlePauseSession(payload));
         case 'RESUME_SESSION':
@@ -2302,9 +2491,10 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             return respondAsync(sendResponse, () => handleStartEmergency(payload, sender));
         case 'EMERGENCY_INTENT_DECISION':
             return respondAsync(sendResponse, () => handleEmergencyIntentDecision(payload, sender));
+        case 'ISSUE_CHALLENGE':
+            return respondAsync(sendResponse, () => handleIssueChallenge(payload));
         case 'START_CHALLENGE_PASS':
-            sendResponse({ success: false, error: 'Challenge unlock is temporarily unavailable.' });
-            return true;
+            return respondAsync(sendResponse, () => handleStartChallengePass(payload));
         case 'START_STORE_SESSION':
             return respondAsync(sendResponse, () => handleStartStoreSession(payload));
         case 'EMERGENCY_REVIEW':
@@ -2422,7 +2612,7 @@ async function handleOpenDesktopAction(payload: { kind: 'deeplink' | 'file'; url
     }
 
     try {
-        const response = await fetch(`${DESKTOP_API_URL}/actions/open`, {
+        const response = await desktopFetch(`${DESKTOP_API_URL}/actions/open`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(payload),
@@ -2442,7 +2632,7 @@ async function handleOpenDesktopView(payload: { view?: string }) {
     try {
         const view = String(payload?.view ?? '').trim();
         if (!view) return { success: false, error: 'Missing view' };
-        const response = await fetch(`${DESKTOP_API_URL}/ui/navigate`, {
+        const response = await desktopFetch(`${DESKTOP_API_URL}/ui/navigate`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ view }),
@@ -2467,9 +2657,7 @@ async function handlePomodoroOverrideRequest(payload: { target?: string }) {
         const fromActiveTab = parseDomainFromUrl(activeTab?.url ?? null);
         const domain = fromUrl ?? fromSiteTarget ?? fromActiveTab;
         if (!domain) return { success: false, error: 'No active URL' };
-        const message = { type: 'pomodoro:grant-override', payload: { kind: 'site', target: domain } };
-        if (ws && ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify(message));
+        if (sendDesktopMessage({ type: 'pomodoro:grant-override', payload: { kind: 'site', target: domain } })) {
             return { success: true };
         }
         return { success: false, error: 'Desktop not connected' };
@@ -2886,7 +3074,7 @@ async function findLibraryItem(url: string) {
     if (cached) return cached;
 
     try {
-        const response = await fetch(`${DESKTOP_API_URL}/library/check?url=${encodeURIComponent(url)}`, { cache: 'no-store' });
+        const response = await desktopFetch(`${DESKTOP_API_URL}/library/check?url=${encodeURIComponent(url)}`, { cache: 'no-store' });
         if (response.ok) {
             const data = await response.json();
             return data?.item ?? null;
@@ -2899,7 +3087,7 @@ async function findLibraryItem(url: string) {
 
 async function findLibraryItemOnDesktop(url: string) {
     try {
-        const response = await fetch(`${DESKTOP_API_URL}/library/check?url=${encodeURIComponent(url)}`, { cache: 'no-store' });
+        const response = await desktopFetch(`${DESKTOP_API_URL}/library/check?url=${encodeURIComponent(url)}`, { cache: 'no-store' });
         if (!response.ok) return null;
         const data = await response.json();
         return data?.item ?? null;
@@ -2909,7 +3097,7 @@ async function findLibraryItemOnDesktop(url: string) {
 }
 
 async function addLibraryItemToDesktop(payload: { url: string; purpose: LibraryPurpose; price?: number | null; title?: string | null; note?: string | null; consumedAt?: string | null; isPublic?: boolean | null }) {
-    const response = await fetch(`${DESKTOP_API_URL}/library`, {
+    const response = await desktopFetch(`${DESKTOP_API_URL}/library`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -2938,7 +3126,7 @@ async function addLibraryItemToDesktop(payload: { url: string; purpose: LibraryP
 }
 
 async function updateLibraryItemOnDesktop(id: number, payload: { purpose?: LibraryPurpose; price?: number | null; title?: string | null; note?: string | null; consumedAt?: string | null; isPublic?: boolean | null }) {
-    const response = await fetch(`${DESKTOP_API_URL}/library/${id}`, {
+    const response = await desktopFetch(`${DESKTOP_API_URL}/library/${id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -3046,7 +3234,7 @@ function dedupeDomains(items: string[]) {
 }
 
 async function updateCategorisationOnDesktop(payload: CategorisationPayload) {
-    const response = await fetch(`${DESKTOP_API_URL}/settings/categorisation`, {
+    const response = await desktopFetch(`${DESKTOP_API_URL}/settings/categorisation`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -3154,7 +3342,7 @@ async function handleSetDomainCategory(payload: { domain?: string; category?: 'p
 }
 
 async function updateIdleThresholdOnDesktop(threshold: number) {
-    await fetch(`${DESKTOP_API_URL}/settings/idle-threshold`, {
+    await desktopFetch(`${DESKTOP_API_URL}/settings/idle-threshold`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ threshold }),
@@ -3163,7 +3351,7 @@ async function updateIdleThresholdOnDesktop(threshold: number) {
 }
 
 async function updateContinuityWindowOnDesktop(seconds: number) {
-    await fetch(`${DESKTOP_API_URL}/settings/continuity-window`, {
+    await desktopFetch(`${DESKTOP_API_URL}/settings/continuity-window`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ seconds }),
@@ -3172,7 +3360,7 @@ async function updateContinuityWindowOnDesktop(seconds: number) {
 }
 
 async function updateProductivityGoalOnDesktop(hours: number) {
-    await fetch(`${DESKTOP_API_URL}/settings/productivity-goal-hours`, {
+    await desktopFetch(`${DESKTOP_API_URL}/settings/productivity-goal-hours`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ hours }),
@@ -3181,7 +3369,7 @@ async function updateProductivityGoalOnDesktop(hours: number) {
 }
 
 async function updateCameraModeOnDesktop(enabled: boolean) {
-    const response = await fetch(`${DESKTOP_API_URL}/settings/camera-mode`, {
+    const response = await desktopFetch(`${DESKTOP_API_URL}/settings/camera-mode`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ enabled: Boolean(enabled) }),
@@ -3193,7 +3381,7 @@ async function updateCameraModeOnDesktop(enabled: boolean) {
 }
 
 async function updateGuardrailColorFilterOnDesktop(mode: GuardrailColorFilter) {
-    await fetch(`${DESKTOP_API_URL}/settings/guardrail-color-filter`, {
+    await desktopFetch(`${DESKTOP_API_URL}/settings/guardrail-color-filter`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ mode }),
@@ -3202,7 +3390,7 @@ async function updateGuardrailColorFilterOnDesktop(mode: GuardrailColorFilter) {
 }
 
 async function updateAlwaysGreyscaleOnDesktop(enabled: boolean) {
-    await fetch(`${DESKTOP_API_URL}/settings/always-greyscale`, {
+    await desktopFetch(`${DESKTOP_API_URL}/settings/always-greyscale`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ enabled: Boolean(enabled) }),
@@ -3211,7 +3399,7 @@ async function updateAlwaysGreyscaleOnDesktop(enabled: boolean) {
 }
 
 async function updateEmergencyPolicyOnDesktop(policy: EmergencyPolicyId) {
-    await fetch(`${DESKTOP_API_URL}/settings/emergency-policy`, {
+    await desktopFetch(`${DESKTOP_API_URL}/settings/emergency-policy`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ policy }),
@@ -3220,7 +3408,7 @@ async function updateEmergencyPolicyOnDesktop(policy: EmergencyPolicyId) {
 }
 
 async function updateDailyOnboardingOnDesktop(patch: any) {
-    const response = await fetch(`${DESKTOP_API_URL}/settings/daily-onboarding`, {
+    const response = await desktopFetch(`${DESKTOP_API_URL}/settings/daily-onboarding`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(patch),
@@ -3364,7 +3552,7 @@ async function fetchAnkiStatusFromDesktop(payload?: { deckId?: number | null; li
             query.set('limit', String(Math.max(1, Math.min(200, Math.round(payload.limit)))));
         }
         const suffix = query.toString() ? `?${query.toString()}` : '';
-        const response = await fetch(`${DESKTOP_API_URL}/anki/status${suffix}`, { cache: 'no-store' });
+        const response = await desktopFetch(`${DESKTOP_API_URL}/anki/status${suffix}`, { cache: 'no-store' });
         if (!response.ok) throw new Error(`Anki status unavailable (${response.status})`);
         const data = await response.json() as Partial<AnkiStatusPayload>;
         return {
@@ -3418,7 +3606,7 @@ async function handleGetStatus(payload: { domain: string; url?: string }) {
 
     let readingItems: any[] = [];
     try {
-        const response = await fetch(`${DESKTOP_API_URL}/integrations/reading?limit=12`, { cache: 'no-store' });
+        const response = await desktopFetch(`${DESKTOP_API_URL}/integrations/reading?limit=12`, { cache: 'no-store' });
         if (response.ok) {
             const data = (await response.json()) as { items?: any[] };
             if (Array.isArray(data.items)) readingItems = data.items;
@@ -3441,6 +3629,11 @@ async function handleGetStatus(payload: { domain: string; url?: string }) {
         desktopConnected: ws?.readyState === WebSocket.OPEN,
         rotMode: state.rotMode,
         emergencyPolicy: state.settings.emergencyPolicy ?? 'balanced',
+        emergencyPolicyConfig: getEmergencyPolicyConfig(
+            state.settings.emergencyPolicy ?? 'balanced',
+            state.settings.customEmergencyPolicies ?? [],
+            { domain: payload.domain }
+        ),
         discouragementEnabled: state.settings.discouragementEnabled ?? true,
         spendGuardEnabled: state.settings.spendGuardEnabled ?? true,
         domainCategory,
@@ -3501,7 +3694,7 @@ async function handleGetReflectionPhotos(payload: { lookbackDays?: number; maxPh
             query.set('days', String(normalized.lookbackDays));
         }
         query.set('limit', String(normalized.allPhotos ? 5000 : normalized.maxPhotos));
-        const response = await fetch(`${DESKTOP_API_URL}/camera/photos?${query.toString()}`, { cache: 'no-store' });
+        const response = await desktopFetch(`${DESKTOP_API_URL}/camera/photos?${query.toString()}`, { cache: 'no-store' });
         if (!response.ok) {
             throw new Error(`Desktop camera feed unavailable (${response.status})`);
         }
@@ -3515,7 +3708,7 @@ async function handleGetReflectionPhotos(payload: { lookbackDays?: number; maxPh
 
 async function handleGetFriends() {
     try {
-        const response = await fetch(`${DESKTOP_API_URL}/friends?hours=24`, { cache: 'no-store' });
+        const response = await desktopFetch(`${DESKTOP_API_URL}/friends?hours=24`, { cache: 'no-store' });
         if (!response.ok) throw new Error('Desktop unavailable');
         const data = await response.json();
         return {
@@ -3535,8 +3728,8 @@ async function handleGetFriends() {
 async function handleGetTrophies() {
     try {
         const [listRes, profileRes] = await Promise.all([
-            fetch(`${DESKTOP_API_URL}/trophies`, { cache: 'no-store' }),
-            fetch(`${DESKTOP_API_URL}/trophies/profile`, { cache: 'no-store' })
+            desktopFetch(`${DESKTOP_API_URL}/trophies`, { cache: 'no-store' }),
+            desktopFetch(`${DESKTOP_API_URL}/trophies/profile`, { cache: 'no-store' })
         ]);
         if (!listRes.ok || !profileRes.ok) throw new Error('Desktop unavailable');
         const trophies = await listRes.json();
@@ -3547,6 +3740,18 @@ async function handleGetTrophies() {
     }
 }
 
+async function handleGetMarketPricing(payload: { domain?: string }) {
+    try {
+        const domain = typeof payload?.domain === 'string' ? payload.domain.trim() : '';
+        if (!domain) throw new Error('Missing domain');
+        const response = await desktopFetch(`${DESKTOP_API_URL}/market/pricing/${encodeURIComponent(domain)}`, { cache: 'no-store' });
+        if (!response.ok) throw new Error('Desktop unavailable');
+        return { success: true, pricing: await response.json() };
+    } catch (error) {
+        return { success: false, error: (error as Error).message, pricing: null };
+    }
+}
+
 async function handleGetWritingRedirects(payload: { domain?: string; limit?: number }) {
     try {
         const domain = typeof payload?.domain === 'string' ? payload.domain.trim() : '';
@@ -3554,7 +3759,7 @@ async function handleGetWritingRedirects(payload: { domain?: string; limit?: num
         const limit = Number.isFinite(rawLimit) ? Math.max(1, Math.min(8, Math.round(rawLimit))) : 4;
         const query = new URLSearchParams({ limit: String(limit) });
         if (domain) query.set('domain', domain);
-        const response = await fetch(`${DESKTOP_API_URL}/writing/redirect-suggestions?${query.toString()}`, { cache: 'no-store' });
+        const response = await desktopFetch(`${DESKTOP_API_URL}/writing/redirect-suggestions?${query.toString()}`, { cache: 'no-store' });
         if (!response.ok) throw new Error('Desktop unavailable');
         const data = await response.json();
         return { success: true, data };
@@ -3580,7 +3785,7 @@ async function handleGetAnkiAnalytics(payload: { days?: number }) {
         const rawDays = Number(payload?.days);
         const days = Number.isFinite(rawDays) ? Math.max(1, Math.min(365, Math.round(rawDays))) : 30;
         const query = new URLSearchParams({ days: String(days) });
-        const response = await fetch(`${DESKTOP_API_URL}/anki/analytics?${query.toString()}`, { cache: 'no-store' });
+        const response = await desktopFetch(`${DESKTOP_API_URL}/anki/analytics?${query.toString()}`, { cache: 'no-store' });
         if (!response.ok) {
             const body = await response.json().catch(() => null) as { error?: string } | null;
             throw new Error(body?.error ?? `Anki analytics unavailable (${response.status})`);
@@ -3604,7 +3809,7 @@ async function handleGetZoteroAnalytics(payload: { days?: number; limit?: number
             limit: String(limit),
             sync: sync ? '1' : '0'
         });
-        const response = await fetch(`${DESKTOP_API_URL}/integrations/zotero/analytics?${query.toString()}`, { cache: 'no-store' });
+        const response = await desktopFetch(`${DESKTOP_API_URL}/integrations/zotero/analytics?${query.toString()}`, { cache: 'no-store' });
         if (!response.ok) {
             const body = await response.json().catch(() => null) as { error?: string } | null;
             throw new Error(body?.error ?? `Zotero analytics unavailable (${response.status})`);
@@ -3618,7 +3823,7 @@ async function handleGetZoteroAnalytics(payload: { days?: number; limit?: number
 
 async function handlePickAnkiDeck() {
     try {
-        const response = await fetch(`${DESKTOP_API_URL}/anki/pick-file`, {
+        const response = await desktopFetch(`${DESKTOP_API_URL}/anki/pick-file`, {
             method: 'POST',
             cache: 'no-store'
         });
@@ -3638,7 +3843,7 @@ async function handleImportAnkiDeck(payload: { path?: string }) {
     try {
         const filePath = typeof payload?.path === 'string' ? payload.path.trim() : '';
         if (!filePath) throw new Error('Deck path is required');
-        const response = await fetch(`${DESKTOP_API_URL}/anki/import-file`, {
+        const response = await desktopFetch(`${DESKTOP_API_URL}/anki/import-file`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             cache: 'no-store',
@@ -3662,7 +3867,7 @@ async function handleReviewAnkiCard(payload: { cardId?: number; rating?: string;
         const rating = typeof payload?.rating === 'string' ? payload.rating : '';
         if (!Number.isFinite(cardId) || cardId <= 0) throw new Error('Invalid card id');
         if (!['again', 'hard', 'good', 'easy'].includes(rating)) throw new Error('Invalid review rating');
-        const response = await fetch(`${DESKTOP_API_URL}/anki/review`, {
+        const response = await desktopFetch(`${DESKTOP_API_URL}/anki/review`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             cache: 'no-store',
@@ -3692,7 +3897,7 @@ async function handleStartAnkiUnlock(payload: { domain?: string; minutes?: numbe
         const requiredReviews = Number.isFinite(payload?.requiredReviews as number)
             ? Math.max(1, Math.min(50, Math.round(payload?.requiredReviews as number)))
             : 6;
-        const response = await fetch(`${DESKTOP_API_URL}/anki/unlock`, {
+        const response = await desktopFetch(`${DESKTOP_API_URL}/anki/unlock`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             cache: 'no-store',
@@ -3718,7 +3923,7 @@ async function handleStartAnkiUnlock(payload: { domain?: string; minutes?: numbe
 async function handleGetFriendTimeline(payload: { userId: string; hours?: number }) {
     try {
         const hours = payload?.hours ?? 24;
-        const response = await fetch(`${DESKTOP_API_URL}/friends/${encodeURIComponent(payload.userId)}?hours=${hours}`, { cache: 'no-store' });
+        const response = await desktopFetch(`${DESKTOP_API_URL}/friends/${encodeURIComponent(payload.userId)}?hours=${hours}`, { cache: 'no-store' });
         if (!response.ok) throw new Error('Desktop unavailable');
         const data = await response.json();
         return { success: true, timeline: data };
@@ -3804,15 +4009,40 @@ async function handleGetConnection() {
     const sessions = await storage.getAllSessions();
     const lastFrivolityAt = await storage.getLastFrivolityAt();
     const rotMode = await storage.getRotMode();
+    const pairing = await getDesktopPairing();
+    const walletReconciliation = await storage.getLastWalletReconciliation();
     return {
         desktopConnected: ws?.readyState === WebSocket.OPEN,
+        desktopPaired: Boolean(pairing),
         lastSync,
         sessions,
         lastFrivolityAt,
-        rotMode
+        rotMode,
+        walletReconciliation
     };
 }
 
+async function handleDismissWalletReconciliation() {
+    await storage.setLastWalletReconciliation(null);
+    return { success: true };
+}
+
+async function handlePairDesktop(payload: { code?: string }) {
+    const code = typeof payload?.code === 'string' ? payload.code.trim() : '';
+    if (!code) return { success: false, error: 'Enter the pairing code shown in the desktop app' };
+    try {
+        await pairWithDesktop(code);
+    } catch (error) {
+        return { success: false, error: (error as Error).message };
+    }
+    if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+    }
+    tryConnectToDesktop();
+    return { success: true };
+}
+
 async function handleOpenUrl(payload: { url: string; roulette?: { title?: string; libraryId?: number; readingId?: string } }, sender: chrome.runtime.MessageSender) {
     const url = typeof payload?.url === 'string' ? payload.url.trim() : '';
     if (!url) return { success: false, error: 'Missing URL' };
@@ -3851,7 +4081,7 @@ async function handleOpenUrl(payload: { url: string; roulette?: { title?: string
 
 async function postWritingHudProgressToDesktop(session: WritingHudSession, payload: WritingHudProgressPayload) {
     try {
-        await fetch(`${DESKTOP_API_URL}/analytics/writing/sessions/${encodeURIComponent(session.sessionId)}/progress`, {
+        await desktopFetch(`${DESKTOP_API_URL}/analytics/writing/sessions/${encodeURIComponent(session.sessionId)}/progress`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             cache: 'no-store',
@@ -3881,7 +4111,7 @@ async function postWritingHudProgressToDesktop(session: WritingHudSession, paylo
 
 async function postWritingHudEndToDesktop(session: WritingHudSession) {
     try {
-        await fetch(`${DESKTOP_API_URL}/analytics/writing/sessions/${encodeURIComponent(session.sessionId)}/end`, {
+        await desktopFetch(`${DESKTOP_API_URL}/analytics/writing/sessions/${encodeURIComponent(session.sessionId)}/end`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             cache: 'no-store',
@@ -3944,7 +4174,7 @@ async function handleOpenWritingTarget(payload: OpenWritingTargetPayload, sender
     const startedAtIso = new Date().toISOString();
 
     try {
-        const startResponse = await fetch(`${DESKTOP_API_URL}/analytics/writing/sessions/start`, {
+        const startResponse = await desktopFetch(`${DESKTOP_API_URL}/analytics/writing/sessions/start`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             cache: 'no-store',
@@ -4122,7 +4352,7 @@ async function handleOpenApp(payload: { app: string }) {
     if (!app) return { success: false, error: 'Missing app name' };
 
     try {
-        const response = await fetch(`${DESKTOP_API_URL}/actions/open`, {
+        const response = await desktopFetch(`${DESKTOP_API_URL}/actions/open`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ kind: 'app', app }),
@@ -4171,14 +4401,18 @@ async function handleMarkReadingConsumed(payload: { id?: string; consumed?: bool
     return { success: true };
 }
 
-async function handleBuyPack(payload: { domain: string; minutes: number; colorFilter?: GuardrailColorFilter }) {
+async function handleBuyPack(payload: { domain: string; minutes: number; colorFilter?: GuardrailColorFilter; quoteId?: string }) {
     return paywallSessionCommands.buyPack(payload);
 }
 
-async function handleStartMetered(payload: { domain: string; colorFilter?: GuardrailColorFilter }) {
+async function handleStartMetered(payload: { domain: string; colorFilter?: GuardrailColorFilter; quoteId?: string }) {
     return paywallSessionCommands.startMetered(payload);
 }
 
+async function handleGetPaywallQuote(payload: { domain: string; minutes?: number[]; colorFilter?: GuardrailColorFilter }) {
+    return paywallSessionCommands.quote(payload);
+}
+
 async function handlePauseSession(payload: { domain: string }) {
     return paywallSessionCommands.pauseSession(payload);
 }
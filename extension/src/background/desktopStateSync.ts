@@ -1,5 +1,6 @@
 import type { PaywallSession } from '../storage';
 import { parseExtensionSyncEnvelope } from '../../../src/shared/extensionSyncContract';
+import { desktopFetch } from '../desktopPairing';
 
 type DesktopSyncStorage = {
   getAllSessions(): Promise<Record<string, PaywallSession>>;
@@ -51,7 +52,7 @@ export function createDesktopStateSyncController(
   async function syncFromDesktop() {
     try {
       const before = deps.getDevLogSessionDrift() ? await deps.storage.getAllSessions() : null;
-      const response = await fetch(`${deps.desktopApiUrl}/extension/state`, { cache: 'no-store' });
+      const response = await desktopFetch(`${deps.desktopApiUrl}/extension/state`, { cache: 'no-store' });
       if (response.ok) {
         const raw = await response.json();
         const parsed = parseExtensionSyncEnvelope(raw);
@@ -1,7 +1,7 @@
 import { getEmergencyPolicyConfig } from '../../../src/shared/emergencyPolicy';
 import { evaluateEmergencyStart, usageForDay } from '../../../src/shared/emergencyUsage';
 import { DAY_START_HOUR, getLocalDayStartMs } from '../../../src/shared/time';
-import type { EmergencyPolicyId } from '../../../src/shared/types';
+import type { CustomEmergencyPolicy, EmergencyPolicyId } from '../../../src/shared/types';
 import type { PaywallSession } from '../storage';
 
 type StartEmergencyPayload = { domain: string; justification: string; url?: string };
@@ -9,7 +9,7 @@ type IntentDecisionPayload = { domain?: string; outcome?: 'intentional' | 'accid
 type EmergencyReviewPayload = { outcome: 'kept' | 'not-kept'; domain?: string };
 
 type EmergencyStorage = {
-  getState(): Promise<{ settings?: { emergencyPolicy?: EmergencyPolicyId } }>;
+  getState(): Promise<{ settings?: { emergencyPolicy?: EmergencyPolicyId; customEmergencyPolicies?: CustomEmergencyPolicy[] } }>;
   getEmergencyUsage(): Promise<{ day: string; tokensUsed: number; cooldownUntil: number | null }>;
   setEmergencyUsage(value: { day: string; tokensUsed: number; cooldownUntil: number | null }): Promise<void>;
   setSession(domain: string, session: PaywallSession): Promise<void>;
@@ -85,10 +85,10 @@ export function createEmergencyCommandHandlers(deps: CreateEmergencyCommandsDeps
 
     const state = await deps.storage.getState();
     const policyId = (state.settings?.emergencyPolicy ?? 'balanced') as EmergencyPolicyId;
-    const policy = getEmergencyPolicyConfig(policyId);
+    const now = Date.now();
+    const policy = getEmergencyPolicyConfig(policyId, state.settings?.customEmergencyPolicies ?? [], { domain: payload.domain, at: now });
     if (policy.id === 'off') return { success: false, error: 'Emergency access is disabled in Settings.' };
 
-    const now = Date.now();
     const today = dayKeyForMs(now);
     const usage = usageForDay(await deps.storage.getEmergencyUsage(), today);
     const usageDecision = evaluateEmergencyStart(now, usage, policy);
@@ -106,11 +106,12 @@ export function createEmergencyCommandHandlers(deps: CreateEmergencyCommandsDeps
       allowedUrl = normalized;
     }
 
+    const durationSeconds = policy.autoExpire && policy.durationSeconds > 0 ? policy.durationSeconds : null;
     const session: PaywallSession = {
       domain: payload.domain,
       mode: 'emergency',
       ratePerMin: 0,
-      remainingSeconds: Number.POSITIVE_INFINITY,
+      remainingSeconds: durationSeconds ?? Number.POSITIVE_INFINITY,
       startedAt: now,
       lastTick: now,
       paused: false,
@@ -132,7 +133,7 @@ export function createEmergencyCommandHandlers(deps: CreateEmergencyCommandsDeps
       meta: {
         justification: payload.justification,
         policy: policy.id,
-        durationSeconds: null
+        durationSeconds
       }
     });
     await deps.showEmergencyIntentCheck(sender?.tab?.id, {
@@ -0,0 +1,64 @@
+import { offlineWalletSigningPayload } from '../../../src/shared/offlineWalletJournal';
+import type { OfflineWalletReconciliation } from '../../../src/shared/types';
+import type { PendingWalletTransaction } from '../storage';
+
+type OfflineWalletStorage = {
+  replacePendingWalletTransactions(entries: PendingWalletTransaction[]): Promise<void>;
+  clearPendingWalletTransactions(syncIds: string[]): Promise<void>;
+};
+
+type JournalSignature = { signature: string; signedBy: number };
+
+type CreateOfflineWalletQueueDeps = {
+  storage: OfflineWalletStorage;
+  /** Id of the paired client whose journal key signs new entries, or null while unpaired. */
+  currentSignerId: () => Promise<number | null>;
+  sign: (payload: string) => Promise<JournalSignature | null>;
+};
+
+export function createOfflineWalletQueue({ storage, currentSignerId, sign }: CreateOfflineWalletQueueDeps) {
+  /**
+   * Signs entries recorded before the extension was paired and re-signs those
+   * signed under an earlier pairing, whose key the desktop no longer checks.
+   */
+  async function signPending(transactions: PendingWalletTransaction[]) {
+    const signerId = await currentSignerId();
+    if (signerId === null) return transactions;
+    const stale = transactions.filter((entry) => !entry.signature || entry.signedBy !== signerId);
+    const signed: PendingWalletTransaction[] = [];
+    for (const entry of stale) {
+      const result = await sign(offlineWalletSigningPayload(entry));
+      if (result) signed.push({ ...entry, ...result });
+    }
+    if (!signed.length) return transactions;
+    await storage.replacePendingWalletTransactions(signed);
+    const bySyncId = new Map(signed.map((entry) => [entry.syncId, entry]));
+    return transactions.map((entry) => bySyncId.get(entry.syncId) ?? entry);
+  }
+
+  /**
+   * Drops what the desktop replayed from the queue. Entries it rejected stay
+   * queued with their signature cleared, so the next flush signs them with the
+   * current pairing and retries; the returned report leaves them out.
+   */
+  async function settle(transactions: PendingWalletTransaction[], report: OfflineWalletReconciliation | null) {
+    const rejected = new Set(
+      (report?.outcomes ?? []).filter((outcome) => outcome.status === 'rejected').map((outcome) => outcome.syncId)
+    );
+    await storage.clearPendingWalletTransactions(transactions.filter((entry) => !rejected.has(entry.syncId)).map((entry) => entry.syncId));
+    const retry = transactions
+      .filter((entry) => rejected.has(entry.syncId))
+      .map((entry) => ({ ...entry, signature: undefined, signedBy: undefined }));
+    if (retry.length) await storage.replacePendingWalletTransactions(retry);
+    return {
+      retrying: retry.length,
+      report: report && {
+        ...report,
+        outcomes: report.outcomes.filter((outcome) => outcome.status !== 'rejected'),
+        rejected: 0
+      }
+    };
+  }
+
+  return { signPending, settle };
+}
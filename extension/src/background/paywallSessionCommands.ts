@@ -1,8 +1,18 @@
 import type { GuardrailColorFilter } from '../../../src/shared/types';
+import {
+  colorFilterPriceMultiplier,
+  packChainMultiplier,
+  quoteMetered,
+  quotePack,
+  type PaywallMeteredQuote,
+  type PaywallPackQuote,
+  type PaywallQuote
+} from '../../../src/shared/paywallPricing';
 import type { MarketRate, PaywallSession } from '../storage';
 
-type BuyPackPayload = { domain: string; minutes: number; colorFilter?: GuardrailColorFilter };
-type StartMeteredPayload = { domain: string; colorFilter?: GuardrailColorFilter };
+type BuyPackPayload = { domain: string; minutes: number; colorFilter?: GuardrailColorFilter; quoteId?: string };
+type StartMeteredPayload = { domain: string; colorFilter?: GuardrailColorFilter; quoteId?: string };
+type QuotePayload = { domain: string; minutes?: number[]; colorFilter?: GuardrailColorFilter };
 type StartStorePayload = { domain: string; price: number; url?: string };
 type SessionControlPayload = { domain: string };
 
@@ -18,10 +28,14 @@ type PaywallStorage = {
   earnCoins(amount: number): Promise<number>;
 };
 
+export type PaywallQuotes = { metered: PaywallMeteredQuote; packs: PaywallPackQuote[] };
+
+// `quote` is set when the desktop refused because the price moved; that must
+// not fall back to an offline purchase at a price the user never saw.
 type PreferDesktopPurchase = (
   path: '/paywall/packs' | '/paywall/metered',
   payload: Record<string, unknown>
-) => Promise<{ ok: true; session: unknown } | { ok: false; error: string }>;
+) => Promise<{ ok: true; session: unknown } | { ok: false; error: string; quote?: PaywallQuote }>;
 
 type QueueWalletTransaction = (payload: {
   type: 'earn' | 'spend' | 'adjust';
@@ -45,6 +59,7 @@ type CreatePaywallSessionCommandDeps = {
   storage: PaywallStorage;
   preferDesktopPurchase: PreferDesktopPurchase;
   preferDesktopEnd: (domain: string) => Promise<{ ok: boolean; error?: string }>;
+  fetchDesktopQuotes: (payload: QuotePayload) => Promise<PaywallQuotes | null>;
   sendWsEvent: (type: string, payload: unknown) => boolean;
   postStartStoreFallback: (payload: StartStorePayload) => Promise<boolean>;
   syncFromDesktop: () => Promise<void>;
@@ -52,18 +67,15 @@ type CreatePaywallSessionCommandDeps = {
   queueConsumptionEvent: QueueConsumptionEvent;
   baseUrl: (urlString: string) => string | null;
   normalizeGuardrailColorFilter: (value: unknown) => GuardrailColorFilter;
-  getColorFilterPriceMultiplier: (mode: GuardrailColorFilter) => number;
-  meteredPremiumMultiplier: number;
   getActiveHttpTab: () => Promise<chrome.tabs.Tab | null>;
   matchesSessionDomain: (actualDomain: string | null | undefined, sessionDomain: string | null | undefined) => boolean;
   transitionTabToHomebase: (tabId: number, domain: string, reason?: string) => Promise<void>;
 };
 
-function packChainMultiplier(chainCount: number) {
-  if (!Number.isFinite(chainCount) || chainCount <= 0) return 1;
-  if (chainCount === 1) return 1.35;
-  if (chainCount === 2) return 1.75;
-  return 2.35;
+const QUOTE_CHANGED_ERROR = 'The price changed since it was quoted; review the new quote and try again';
+
+function sessionChainCount(session: PaywallSession | null) {
+  return session?.mode === 'pack' ? (session.packChainCount ?? 1) : 0;
 }
 
 function estimatePackRefund(session: PaywallSession) {
@@ -151,19 +163,46 @@ export function createPaywallSessionCommandHandlers(deps: CreatePaywallSessionCo
     }
   }
 
+  /** Itemized prices from the desktop, or from the cached market rate while it is unreachable. */
+  async function quote(payload: QuotePayload) {
+    const colorFilter = await resolveColorFilter(deps, payload.colorFilter);
+    const desktopQuotes = await deps.fetchDesktopQuotes({ ...payload, colorFilter });
+    if (desktopQuotes) {
+      return { success: true, source: 'desktop' as const, ...desktopQuotes };
+    }
+
+    const rate = await deps.storage.getMarketRate(payload.domain);
+    if (!rate) {
+      return { success: false, error: 'No rate configured for this domain' };
+    }
+    const chainCount = sessionChainCount(await deps.storage.getSession(payload.domain));
+    const minutes = payload.minutes?.length ? payload.minutes : rate.packs.map((pack) => pack.minutes);
+    return {
+      success: true,
+      source: 'offline' as const,
+      metered: quoteMetered({ domain: payload.domain, rate, colorFilter }),
+      packs: [...new Set(minutes.map((value) => Math.max(1, Math.round(value))))].map((value) =>
+        quotePack({ domain: payload.domain, minutes: value, rate, chainCount, colorFilter })
+      )
+    };
+  }
+
   async function buyPack(payload: BuyPackPayload) {
     const safeMinutes = Math.max(1, Math.round(Number(payload.minutes)));
     const colorFilter = await resolveColorFilter(deps, payload.colorFilter);
-    const colorMultiplier = deps.getColorFilterPriceMultiplier(colorFilter);
 
     const desktopResult = await deps.preferDesktopPurchase('/paywall/packs', {
       domain: payload.domain,
       minutes: safeMinutes,
-      colorFilter
+      colorFilter,
+      quoteId: payload.quoteId
     });
     if (desktopResult.ok) {
       return { success: true, session: desktopResult.session };
     }
+    if (desktopResult.quote) {
+      return { success: false, error: desktopResult.error, quote: desktopResult.quote };
+    }
 
     const rate = await deps.storage.getMarketRate(payload.domain);
     if (!rate) {
@@ -171,11 +210,17 @@ export function createPaywallSessionCommandHandlers(deps: CreatePaywallSessionCo
     }
 
     const existing = await deps.storage.getSession(payload.domain);
-    const pack = rate.packs.find((candidate) => candidate.minutes === safeMinutes);
-    const basePrice = pack ? pack.price : Math.max(1, Math.round(safeMinutes * rate.ratePerMin));
-    const chainCount = existing?.mode === 'pack' ? (existing.packChainCount ?? 1) : 0;
+    const chainCount = sessionChainCount(existing);
+    const packQuote = quotePack({ domain: payload.domain, minutes: safeMinutes, rate, chainCount, colorFilter });
+    // A desktop quote may include demand pricing the offline copy cannot see;
+    // rather than guess, the user confirms the offline price.
+    if (payload.quoteId && payload.quoteId !== packQuote.quoteId) {
+      return { success: false, error: QUOTE_CHANGED_ERROR, quote: packQuote };
+    }
+    const basePrice = packQuote.lines[0].value;
     const chainMultiplier = packChainMultiplier(chainCount);
-    const chargedPrice = Math.max(1, Math.round(basePrice * chainMultiplier * colorMultiplier));
+    const colorMultiplier = colorFilterPriceMultiplier(colorFilter);
+    const chargedPrice = packQuote.price;
     const purchasedSeconds = safeMinutes * 60;
     const now = Date.now();
 
@@ -198,7 +243,7 @@ export function createPaywallSessionCommandHandlers(deps: CreatePaywallSessionCo
       });
 
       const existingPack = existing?.mode === 'pack' ? existing : null;
-      const effectiveRatePerMin = rate.ratePerMin * colorMultiplier;
+      const effectiveRatePerMin = packQuote.effectiveRatePerMin;
       const session: PaywallSession = existingPack
         ? {
             ...existingPack,
@@ -257,27 +302,35 @@ export function createPaywallSessionCommandHandlers(deps: CreatePaywallSessionCo
 
   async function startMetered(payload: StartMeteredPayload) {
     const colorFilter = await resolveColorFilter(deps, payload.colorFilter);
-    const colorMultiplier = deps.getColorFilterPriceMultiplier(colorFilter);
     const desktopResult = await deps.preferDesktopPurchase('/paywall/metered', {
       domain: payload.domain,
-      colorFilter
+      colorFilter,
+      quoteId: payload.quoteId
     });
     if (desktopResult.ok) {
       return { success: true, session: desktopResult.session };
     }
+    if (desktopResult.quote) {
+      return { success: false, error: desktopResult.error, quote: desktopResult.quote };
+    }
 
     const rate = await deps.storage.getMarketRate(payload.domain);
     if (!rate) {
       return { success: false, error: 'No rate configured for this domain' };
     }
 
-    const meteredMultiplier = deps.meteredPremiumMultiplier * colorMultiplier;
+    const meteredQuote = quoteMetered({ domain: payload.domain, rate, colorFilter });
+    if (payload.quoteId && payload.quoteId !== meteredQuote.quoteId) {
+      return { success: false, error: QUOTE_CHANGED_ERROR, quote: meteredQuote };
+    }
+    const colorMultiplier = colorFilterPriceMultiplier(colorFilter);
+    const meteredMultiplier = meteredQuote.meteredMultiplier;
     const now = Date.now();
     const session: PaywallSession = {
       domain: payload.domain,
       mode: 'metered',
       colorFilter,
-      ratePerMin: rate.ratePerMin * meteredMultiplier,
+      ratePerMin: meteredQuote.ratePerMin,
       remainingSeconds: Infinity,
       startedAt: now,
       paused: false,
@@ -372,6 +425,7 @@ export function createPaywallSessionCommandHandlers(deps: CreatePaywallSessionCo
 
   return {
     startStoreSession,
+    quote,
     buyPack,
     startMetered,
     pauseSession,
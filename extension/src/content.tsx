@@ -7,6 +7,10 @@ import WritingHud from './writing/WritingHud';
 import DailyOnboardingOverlay from './onboarding/DailyOnboardingOverlay';
 import styles from './paywall/paywall.css?inline';
 import { isPomodoroSiteAllowed } from '../../src/shared/pomodoroMatcher';
+import { isPomodoroEnforced } from '../../src/shared/pomodoroPlan';
+import type { EmergencyPolicyConfig } from '../../src/shared/emergencyPolicy';
+import type { EmergencyPolicyId } from '../../src/shared/types';
+import type { PomodoroPlanProgress } from '../../src/shared/types';
 import { getWritingTargetIdentity, matchesWritingTargetUrl, type WritingTargetKind } from './writing/targetAdapters';
 
 type BlockMessage = {
@@ -27,6 +31,8 @@ type PomodoroBlockMessage = {
     mode: 'strict' | 'soft';
     softUnlockMs?: number;
     reason?: string;
+    plan?: PomodoroPlanProgress | null;
+    phaseProgress?: number;
   };
 };
 
@@ -159,7 +165,8 @@ type StatusResponse = {
   lastSync: number | null;
   desktopConnected: boolean;
   domainCategory?: 'productive' | 'neutral' | 'frivolous' | 'draining' | null;
-  emergencyPolicy?: 'off' | 'gentle' | 'balanced' | 'strict';
+  emergencyPolicy?: EmergencyPolicyId;
+  emergencyPolicyConfig?: EmergencyPolicyConfig;
   discouragementEnabled?: boolean;
   spendGuardEnabled?: boolean;
   rotMode?: { enabled: boolean; startedAt: number | null };
@@ -174,7 +181,7 @@ type StatusResponse = {
     idleThreshold?: number;
     continuityWindowSeconds?: number;
     productivityGoalHours?: number;
-    emergencyPolicy?: 'off' | 'gentle' | 'balanced' | 'strict';
+    emergencyPolicy?: EmergencyPolicyId;
     discouragementIntervalMinutes?: number;
     cameraModeEnabled?: boolean;
     guardrailColorFilter?: 'full-color' | 'greyscale' | 'redscale';
@@ -268,6 +275,7 @@ type ContentSyncState = {
       overrides: Array<{ id: string; kind: 'app' | 'site'; target: string; grantedAt: string; expiresAt: string; durationSec: number }>;
       remainingMs: number;
       breakRemainingMs?: number | null;
+      plan?: PomodoroPlanProgress | null;
     } | null;
   };
   writingHud?: {
@@ -661,13 +669,9 @@ async function syncHudWithState() {
     const pomodoroSession = state.pomodoro?.session ?? null;
     const pomodoroAllowedOnUrl = Boolean(
       pomodoroSession &&
-      (pomodoroSession.state === 'break' ||
-        (pomodoroSession.state === 'active' &&
-          isPomodoroSiteAllowed(
-            pomodoroSession.allowlist,
-            pomodoroSession.overrides,
-            window.location.href
-          )))
+      (isPomodoroEnforced(pomodoroSession)
+        ? isPomodoroSiteAllowed(pomodoroSession.allowlist, pomodoroSession.overrides, window.location.href)
+        : pomodoroSession.state === 'break')
     );
     if (pomodoroSession && pomodoroAllowedOnUrl && domain) {
       mountPomodoroHud(domain, pomodoroSession);
@@ -1216,6 +1220,8 @@ function mountPomodoroOverlay(payload: PomodoroBlockMessage['payload']) {
       mode={payload.mode}
       softUnlockMs={payload.softUnlockMs}
       reason={payload.reason}
+      plan={payload.plan}
+      phaseProgress={payload.phaseProgress}
       onRequestOverride={async () => {
         const response = await chrome.runtime.sendMessage({ type: 'REQUEST_POMODORO_OVERRIDE', payload: { target: payload.domain } }) as { success?: boolean; error?: string } | undefined;
         if (!response?.success) {
@@ -1,6 +1,7 @@
 // Desktop app synchronization module
 import { storage } from './storage';
-import { DESKTOP_API_URL, DESKTOP_WS_URL } from './constants';
+import { DESKTOP_API_URL } from './constants';
+import { desktopFetch, getDesktopWsUrl } from './desktopPairing';
 import { parseExtensionSyncEnvelope } from '../../src/shared/extensionSyncContract';
 
 type TimeoutHandle = ReturnType<typeof setTimeout>;
@@ -35,9 +36,19 @@ export function sendToDesktop(payload: Record<string, unknown>): boolean {
 
 export function tryConnectToDesktop() {
     if (ws) return;
+    void getDesktopWsUrl().then((url) => {
+        if (ws) return;
+        if (!url) {
+            scheduleReconnect();
+            return;
+        }
+        openDesktopSocket(url);
+    });
+}
 
+function openDesktopSocket(url: string) {
     console.log('Attempting to connect to desktop app...');
-    ws = new WebSocket(DESKTOP_WS_URL);
+    ws = new WebSocket(url);
 
     ws.onopen = async () => {
         console.log('✅ Connected to desktop app');
@@ -84,7 +95,7 @@ function scheduleReconnect() {
 
 export async function syncFromDesktop(): Promise<boolean> {
     try {
-        const response = await fetch(`${DESKTOP_API_URL}/extension/state`, { cache: 'no-store' });
+        const response = await desktopFetch(`${DESKTOP_API_URL}/extension/state`, { cache: 'no-store' });
         if (response.ok) {
             const raw = await response.json();
             const parsed = parseExtensionSyncEnvelope(raw);
@@ -106,7 +117,7 @@ export async function preferDesktopPurchase(
     payload: Record<string, unknown>
 ): Promise<{ ok: boolean; session?: any; error?: string }> {
     try {
-        const response = await fetch(`${DESKTOP_API_URL}${path}`, {
+        const response = await desktopFetch(`${DESKTOP_API_URL}${path}`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(payload),
@@ -136,7 +147,7 @@ export async function preferDesktopEmergency(
     payload: { domain: string; justification: string; url?: string }
 ): Promise<{ ok: boolean; session?: any; error?: string; canFallback?: boolean }> {
     try {
-        const response = await fetch(`${DESKTOP_API_URL}/paywall/emergency`, {
+        const response = await desktopFetch(`${DESKTOP_API_URL}/paywall/emergency`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(payload),
@@ -168,7 +179,7 @@ export async function preferDesktopEmergency(
 
 export async function preferDesktopEnd(domain: string): Promise<{ ok: boolean; error?: string }> {
     try {
-        const response = await fetch(`${DESKTOP_API_URL}/paywall/end`, {
+        const response = await desktopFetch(`${DESKTOP_API_URL}/paywall/end`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ domain }),
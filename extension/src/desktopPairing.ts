@@ -0,0 +1,89 @@
+// Desktop pairing: the token that authorizes this extension against the local API.
+import { DESKTOP_API_URL, DESKTOP_WS_URL } from './constants';
+import type { PairedClient, PairingExchangeResult } from '../../src/shared/types';
+
+const STORAGE_KEY = 'desktopPairing';
+
+export type DesktopPairing = {
+    token: string;
+    /** Signs the offline wallet journal; the desktop hands it over only at pairing. */
+    journalKey: string;
+    client: PairedClient;
+    pairedAt: number;
+};
+
+let cached: DesktopPairing | null | undefined;
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'local' || !(STORAGE_KEY in changes)) return;
+    cached = (changes[STORAGE_KEY].newValue as DesktopPairing | undefined) ?? null;
+});
+
+export async function getDesktopPairing(): Promise<DesktopPairing | null> {
+    if (cached === undefined) {
+        const result = await chrome.storage.local.get(STORAGE_KEY);
+        cached = (result[STORAGE_KEY] as DesktopPairing | undefined) ?? null;
+    }
+    return cached;
+}
+
+export async function clearDesktopPairing() {
+    cached = null;
+    await chrome.storage.local.remove(STORAGE_KEY);
+}
+
+/** Trades the one-time code shown in the desktop Settings for a stored token. */
+export async function pairWithDesktop(code: string): Promise<DesktopPairing> {
+    const response = await fetch(`${DESKTOP_API_URL}/pairing/exchange`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code, name: `Browser extension (${navigator.userAgent.includes('Firefox') ? 'Firefox' : 'Chrome'})` })
+    });
+    const payload = await response.json().catch(() => null) as (PairingExchangeResult & { error?: string }) | null;
+    if (!response.ok || !payload?.token) {
+        throw new Error(payload?.error ?? `Pairing failed (${response.status})`);
+    }
+    const pairing: DesktopPairing = { token: payload.token, journalKey: payload.journalKey, client: payload.client, pairedAt: Date.now() };
+    cached = pairing;
+    await chrome.storage.local.set({ [STORAGE_KEY]: pairing });
+    return pairing;
+}
+
+/**
+ * `fetch` against the desktop API with the pairing token attached. A 401 means
+ * the token was revoked (or the desktop database was reset), so the stale
+ * pairing is dropped and the popup prompts for a new code.
+ */
+export async function desktopFetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const pairing = await getDesktopPairing();
+    const headers = new Headers(init.headers);
+    if (pairing) headers.set('Authorization', `Bearer ${pairing.token}`);
+    const response = await fetch(url, { ...init, headers });
+    if (response.status === 401 && pairing) {
+        await clearDesktopPairing();
+    }
+    return response;
+}
+
+/** Websocket URL carrying the token, or null while unpaired. */
+export async function getDesktopWsUrl(): Promise<string | null> {
+    const pairing = await getDesktopPairing();
+    return pairing ? `${DESKTOP_WS_URL}?token=${encodeURIComponent(pairing.token)}` : null;
+}
+
+/**
+ * Hex HMAC-SHA256 of `payload` keyed by the pairing's journal key, with the
+ * paired client it belongs to, or null while unpaired. Unlike the bearer token
+ * the key is never sent, so a captured request cannot sign new entries.
+ */
+export async function signWithPairing(payload: string): Promise<{ signature: string; signedBy: number } | null> {
+    const pairing = await getDesktopPairing();
+    if (!pairing?.journalKey) return null;
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(pairing.journalKey), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+    return {
+        signature: Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join(''),
+        signedBy: pairing.client.id
+    };
+}
@@ -1,5 +1,6 @@
 import { Component, Suspense, lazy, useCallback, useEffect, useMemo, useRef, useState, type ErrorInfo, type ReactNode } from 'react';
 import { DESKTOP_API_URL } from '../constants';
+import { desktopFetch, getDesktopPairing } from '../desktopPairing';
 import {
   addLocalReaderBooks,
   deleteLocalReaderBook,
@@ -327,7 +328,7 @@ const DEFAULT_HOME_PREFS: HomePrefs = {
 };
 
 async function fetchJson<T>(path: string, init?: RequestInit): Promise<T> {
-  const response = await fetch(`${DESKTOP_API_URL}${path}`, {
+  const response = await desktopFetch(`${DESKTOP_API_URL}${path}`, {
     ...init,
     cache: 'no-store',
     headers: {
@@ -476,6 +477,7 @@ export function NewTabApp() {
   const [homePrefs, setHomePrefs] = useState<HomePrefs>(loadHomePrefs);
   const [entryTransitionMs] = useState<number>(() => readEntryTransitionMs());
   const [entryTransitionActive, setEntryTransitionActive] = useState(() => readEntryTransitionMs() > 0);
+  const [apiToken, setApiToken] = useState<string | null>(null);
 
   const [statsView, setStatsView] = useState<StatsView>('focus');
   const [query, setQuery] = useState('');
@@ -822,6 +824,12 @@ export function NewTabApp() {
     void loadData();
   }, [loadData]);
 
+  useEffect(() => {
+    getDesktopPairing()
+      .then((pairing) => setApiToken(pairing?.token ?? null))
+      .catch(() => { });
+  }, []);
+
   useEffect(() => {
     if (!entryTransitionActive || entryTransitionMs <= 0) return undefined;
     const timer = window.setTimeout(() => {
@@ -1566,7 +1574,7 @@ export function NewTabApp() {
         >
           <section className="newtab-row">
             <Suspense fallback={<article className="newtab-card tall">Loading writing studio…</article>}>
-              <WritingStudioPanel apiBase={DESKTOP_API_URL} surface="extension-newtab" variant="extension" />
+              <WritingStudioPanel apiBase={DESKTOP_API_URL} apiToken={apiToken} surface="extension-newtab" variant="extension" />
             </Suspense>
           </section>
         </SectionErrorBoundary>
@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import type { EmergencyPolicyId } from '../../../src/shared/types';
 
 type DailyOnboardingState = {
   completedDay: string | null;
@@ -13,7 +14,7 @@ type StatusResponse = {
     idleThreshold?: number;
     continuityWindowSeconds?: number;
     productivityGoalHours?: number;
-    emergencyPolicy?: 'off' | 'gentle' | 'balanced' | 'strict';
+    emergencyPolicy?: EmergencyPolicyId;
   };
   dailyOnboarding?: DailyOnboardingState | null;
 };
@@ -43,7 +44,7 @@ export default function DailyOnboardingOverlay({ domain, status, forced, onClose
   const [goalHours, setGoalHours] = useState(status.settings?.productivityGoalHours ?? 2);
   const [idleThreshold, setIdleThreshold] = useState(status.settings?.idleThreshold ?? 15);
   const [continuityWindow, setContinuityWindow] = useState(status.settings?.continuityWindowSeconds ?? 120);
-  const [emergencyPolicy, setEmergencyPolicy] = useState<'off' | 'gentle' | 'balanced' | 'strict'>(status.settings?.emergencyPolicy ?? 'balanced');
+  const [emergencyPolicy, setEmergencyPolicy] = useState<EmergencyPolicyId>(status.settings?.emergencyPolicy ?? 'balanced');
   const [note, setNote] = useState('');
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -164,6 +165,9 @@ export default function DailyOnboardingOverlay({ domain, status, forced, onClose
                   <option value="gentle">Gentle</option>
                   <option value="balanced">Balanced</option>
                   <option value="strict">Strict</option>
+                  {status.settings?.emergencyPolicy?.startsWith('custom:') && (
+                    <option value={status.settings.emergencyPolicy}>Custom (current)</option>
+                  )}
                 </select>
               </label>
             </div>
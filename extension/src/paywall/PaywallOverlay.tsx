@@ -1,7 +1,18 @@
 import { useEffect, useMemo, useRef, useState, type CSSProperties } from 'react';
 import ReflectionSlideshow from './ReflectionSlideshow';
 import { useExtensionTheme } from '../theme';
-import { getEmergencyPolicyConfig } from '../../../src/shared/emergencyPolicy';
+import { getEmergencyPolicyConfig, type EmergencyPolicyConfig } from '../../../src/shared/emergencyPolicy';
+import {
+  METERED_PREMIUM_MULTIPLIER,
+  colorFilterPriceMultiplier,
+  formatQuoteLineValue,
+  packChainMultiplier,
+  quotePack,
+  type PaywallMeteredQuote,
+  type PaywallPackQuote,
+  type PaywallQuote
+} from '../../../src/shared/paywallPricing';
+import type { EmergencyPolicyId, MarketPricing } from '../../../src/shared/types';
 
 type LinkPreview = {
   url: string;
@@ -276,7 +287,9 @@ type StatusResponse = {
   lastSync: number | null;
   desktopConnected: boolean;
   domainCategory?: 'productive' | 'neutral' | 'frivolous' | 'draining' | null;
-  emergencyPolicy?: 'off' | 'gentle' | 'balanced' | 'strict';
+  emergencyPolicy?: EmergencyPolicyId;
+  /** The policy's rules as they apply to this domain right now. */
+  emergencyPolicyConfig?: EmergencyPolicyConfig;
   discouragementEnabled?: boolean;
   spendGuardEnabled?: boolean;
   rotMode?: { enabled: boolean; startedAt: number | null };
@@ -291,7 +304,7 @@ type StatusResponse = {
     idleThreshold?: number;
     continuityWindowSeconds?: number;
     productivityGoalHours?: number;
-    emergencyPolicy?: 'off' | 'gentle' | 'balanced' | 'strict';
+    emergencyPolicy?: EmergencyPolicyId;
     discouragementIntervalMinutes?: number;
     cameraModeEnabled?: boolean;
     guardrailColorFilter?: 'full-color' | 'greyscale' | 'redscale';
@@ -436,17 +449,9 @@ type Props = {
   onClose(): void;
 };
 type GuardrailColorFilter = 'full-color' | 'greyscale' | 'redscale';
-const COLOR_FILTER_PRICE_MULTIPLIER: Record<GuardrailColorFilter, number> = {
-  'full-color': 1,
-  greyscale: 0.55,
-  redscale: 0.7
-};
-
-function getColorFilterPriceMultiplier(filter: GuardrailColorFilter) {
-  return COLOR_FILTER_PRICE_MULTIPLIER[filter] ?? 1;
-}
-
-const METERED_PREMIUM_MULTIPLIER = 3.5;
+const QUICK_PACK_MINUTES = [5, 10];
+// Demand eases and the hour changes underneath an open overlay; requote so the ids stay current.
+const QUOTE_REFRESH_MS = 60_000;
 const EMERGENCY_REFLECTION_GATE_MS = 10_000;
 
 type Suggestion =
@@ -601,13 +606,6 @@ function formatClock(seconds: number) {
   return `${m}:${s.toString().padStart(2, '0')}`;
 }
 
-function packChainMultiplier(chainCount: number) {
-  if (chainCount <= 0) return 1;
-  if (chainCount === 1) return 1.35;
-  if (chainCount === 2) return 1.75;
-  return 2.35;
-}
-
 function formatDuration(ms: number) {
   const totalMinutes = Math.max(0, Math.floor(ms / 60000));
   const days = Math.floor(totalMinutes / (60 * 24));
@@ -883,6 +881,49 @@ const DASH_SCENES = [
 
 type DashboardScene = (typeof DASH_SCENES)[number]['id'];
 
+/** The itemized lines behind a quoted price, in the order they multiply. */
+function QuoteBreakdown({ quote }: { quote: PaywallQuote }) {
+  return (
+    <ul className="tws-quote-lines">
+      {quote.lines.map((line) => (
+        <li key={line.kind}>
+          <span>{line.label}</span>
+          <span>{formatQuoteLineValue(line)}</span>
+        </li>
+      ))}
+      <li className="tws-quote-total">
+        <span>{quote.kind === 'pack' ? 'Total' : 'Per minute'}</span>
+        <strong>{quote.kind === 'pack' ? `${quote.price} f-coins` : formatCoins(quote.ratePerMin)}</strong>
+      </li>
+    </ul>
+  );
+}
+
+/** How the demand premium decays over the next 48h without another purchase. */
+function DemandPriceCurve({ pricing }: { pricing: MarketPricing }) {
+  const { curve, quote } = pricing;
+  if (curve.length < 2) return null;
+  const width = 220;
+  const height = 48;
+  const max = Math.max(...curve.map((point) => point.ratePerMin), quote.baseRatePerMin * 1.1);
+  const lastHour = curve[curve.length - 1].offsetHours;
+  const points = curve
+    .map((point) => `${((point.offsetHours / lastHour) * width).toFixed(1)},${(height - (point.ratePerMin / max) * height).toFixed(1)}`)
+    .join(' ');
+  const baseY = height - (quote.baseRatePerMin / max) * height;
+  return (
+    <div className="tws-rail-row tws-demand-curve">
+      <svg viewBox={`0 0 ${width} ${height}`} width="100%" height={height} preserveAspectRatio="none" aria-label="Projected rate over the next 48 hours">
+        <line x1={0} x2={width} y1={baseY} y2={baseY} stroke="currentColor" strokeOpacity={0.3} strokeDasharray="4 4" />
+        <polyline points={points} fill="none" stroke="currentColor" strokeWidth={2} />
+      </svg>
+      <span className="tws-subtle">
+        {Math.round(quote.dayMinutes)} min bought today · eases back to {formatCoins(quote.baseRatePerMin)}/min as you stay away
+      </span>
+    </div>
+  );
+}
+
 export default function PaywallOverlay({ domain, status, reason, peek, onClose }: Props) {
   const theme = useExtensionTheme();
   const [selectedMinutes, setSelectedMinutes] = useState(15);
@@ -986,6 +1027,9 @@ export default function PaywallOverlay({ domain, status, reason, peek, onClose }
   const [zoteroAnalytics, setZoteroAnalytics] = useState<ZoteroAnalyticsPayload>(() => emptyZoteroAnalytics());
   const [zoteroAnalyticsBusy, setZoteroAnalyticsBusy] = useState(false);
   const [zoteroInsightsOpen, setZoteroInsightsOpen] = useState(false);
+  const [marketPricing, setMarketPricing] = useState<MarketPricing | null>(null);
+  const [quotes, setQuotes] = useState<{ metered: PaywallMeteredQuote; packs: PaywallPackQuote[] } | null>(null);
+  const [quoteRevision, setQuoteRevision] = useState(0);
 
   const sessionMeteredMultiplier = status.session?.meteredMultiplier ?? METERED_PREMIUM_MULTIPLIER;
   const baseRatePerMin = status.rate?.ratePerMin
@@ -993,8 +1037,10 @@ export default function PaywallOverlay({ domain, status, reason, peek, onClose }
       ? status.session.ratePerMin / Math.max(1, sessionMeteredMultiplier)
       : status.session?.ratePerMin ?? 1);
   const effectiveColorFilter: GuardrailColorFilter = alwaysGreyscale ? 'greyscale' : guardrailColorFilter;
-  const ratePerMin = baseRatePerMin * getColorFilterPriceMultiplier(effectiveColorFilter);
-  const meteredRatePerMin = ratePerMin * METERED_PREMIUM_MULTIPLIER;
+  const demandMultiplier = marketPricing?.quote.multiplier ?? 1;
+  const ratePerMin = baseRatePerMin * demandMultiplier * colorFilterPriceMultiplier(effectiveColorFilter);
+  const meteredRatePerMin = quotes?.metered.ratePerMin ?? ratePerMin * METERED_PREMIUM_MULTIPLIER;
+  const sessionChainCount = status.session?.mode === 'pack' ? (status.session.packChainCount ?? 1) : 0;
   const emergencyPolicy = status.emergencyPolicy ?? 'balanced';
   const peekAllowed = Boolean(peek?.allowed);
   const isFrivolousDomain = status.domainCategory === 'frivolous';
@@ -1033,7 +1079,10 @@ export default function PaywallOverlay({ domain, status, reason, peek, onClose }
     }
   }, [dashScene]);
 
-  const emergencyPolicyConfig = useMemo(() => getEmergencyPolicyConfig(emergencyPolicy), [emergencyPolicy]);
+  const emergencyPolicyConfig = useMemo(
+    () => status.emergencyPolicyConfig ?? getEmergencyPolicyConfig(emergencyPolicy),
+    [emergencyPolicy, status.emergencyPolicyConfig]
+  );
 
   const faviconUrl = (url: string) => `chrome://favicon2/?size=64&url=${encodeURIComponent(url)}`;
 
@@ -1245,6 +1294,49 @@ export default function PaywallOverlay({ domain, status, reason, peek, onClose }
     return () => window.clearInterval(id);
   }, [status.desktopConnected]);
 
+  useEffect(() => {
+    if (!status.desktopConnected) {
+      setMarketPricing(null);
+      return;
+    }
+    let cancelled = false;
+    chrome.runtime
+      .sendMessage({ type: 'GET_MARKET_PRICING', payload: { domain } })
+      .then((response: { success: boolean; pricing: MarketPricing | null }) => {
+        if (!cancelled) setMarketPricing(response?.success ? response.pricing : null);
+      })
+      .catch(() => {
+        if (!cancelled) setMarketPricing(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [domain, status.desktopConnected]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refreshQuotes = () => {
+      chrome.runtime
+        .sendMessage({
+          type: 'GET_PAYWALL_QUOTE',
+          payload: { domain, minutes: QUICK_PACK_MINUTES, colorFilter: effectiveColorFilter }
+        })
+        .then((response: { success: boolean; metered?: PaywallMeteredQuote; packs?: PaywallPackQuote[] }) => {
+          if (cancelled) return;
+          setQuotes(response?.success && response.metered ? { metered: response.metered, packs: response.packs ?? [] } : null);
+        })
+        .catch(() => {
+          if (!cancelled) setQuotes(null);
+        });
+    };
+    refreshQuotes();
+    const id = window.setInterval(refreshQuotes, QUOTE_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(id);
+    };
+  }, [domain, effectiveColorFilter, sessionChainCount, status.desktopConnected, quoteRevision]);
+
   useEffect(() => {
     if (!status.desktopConnected) {
       setTrophies([]);
@@ -2031,24 +2123,20 @@ export default function PaywallOverlay({ domain, status, reason, peek, onClose }
     }
   };
 
-  const quickPacks = useMemo(() => {
-    const colorMultiplier = getColorFilterPriceMultiplier(effectiveColorFilter);
-    const base = [
-      { minutes: 5, price: Math.max(1, Math.round(5 * baseRatePerMin)) },
-      { minutes: 10, price: Math.max(1, Math.round(10 * baseRatePerMin)) }
-    ];
-    if (!status.rate?.packs?.length) return base;
-    const priceByMinutes = new Map<number, number>();
-    for (const pack of status.rate.packs) {
-      priceByMinutes.set(pack.minutes, pack.price);
-    }
-    const chainCount = status.session?.mode === 'pack' ? (status.session.packChainCount ?? 1) : 0;
-    const multiplier = packChainMultiplier(chainCount);
-    return base.map((p) => ({
-      minutes: p.minutes,
-      price: Math.max(1, Math.round((priceByMinutes.get(p.minutes) ?? p.price) * multiplier * colorMultiplier))
-    }));
-  }, [baseRatePerMin, effectiveColorFilter, status.rate?.packs, status.session?.mode, status.session?.packChainCount]);
+  // Until the background answers, estimate with the same pricing module. The
+  // estimate's quote id only matches offline; the desktop answers it with its own quote.
+  const quickPacks = useMemo<PaywallPackQuote[]>(() => {
+    if (quotes?.packs.length) return quotes.packs;
+    const rate = { ratePerMin: baseRatePerMin, packs: status.rate?.packs };
+    return QUICK_PACK_MINUTES.map((minutes) =>
+      quotePack({ domain, minutes, rate, chainCount: sessionChainCount, colorFilter: effectiveColorFilter, demandMultiplier })
+    );
+  }, [quotes, baseRatePerMin, demandMultiplier, domain, effectiveColorFilter, sessionChainCount, status.rate?.packs]);
+
+  // A refused purchase carries the new price; requote so the breakdown shows it.
+  const rejectStaleQuote = (result: { quote?: PaywallQuote } | undefined) => {
+    if (result?.quote) setQuoteRevision((value) => value + 1);
+  };
 
   const handleBuyPack = async (minutesOverride?: number) => {
     if (isProcessing) return;
@@ -2056,11 +2144,15 @@ export default function PaywallOverlay({ domain, status, reason, peek, onClose }
     setError(null);
     try {
       const minutes = minutesOverride ?? selectedMinutes;
+      const quote = quickPacks.find((pack) => pack.minutes === minutes);
       const result = await chrome.runtime.sendMessage({
         type: 'BUY_PACK',
-        payload: { domain, minutes, colorFilter: effectiveColorFilter }
+        payload: { domain, minutes, colorFilter: effectiveColorFilter, quoteId: quote?.quoteId }
       });
-      if (!result?.success) throw new Error(result?.error ? String(result.error) : 'Failed to start session');
+      if (!result?.success) {
+        rejectStaleQuote(result);
+        throw new Error(result?.error ? String(result.error) : 'Failed to start session');
+      }
       onClose();
     } catch (e) {
       setError((e as Error).message);
@@ -2074,8 +2166,14 @@ export default function PaywallOverlay({ domain, status, reason, peek, onClose }
     setIsProcessing(true);
     setError(null);
     try {
-      const result = await chrome.runtime.sendMessage({ type: 'START_METERED', payload: { domain, colorFilter: effectiveColorFilter } });
-      if (!result?.success) throw new Error(result?.error ? String(result.error) : 'Failed to start metered');
+      const result = await chrome.runtime.sendMessage({
+        type: 'START_METERED',
+        payload: { domain, colorFilter: effectiveColorFilter, quoteId: quotes?.metered.quoteId }
+      });
+      if (!result?.success) {
+        rejectStaleQuote(result);
+        throw new Error(result?.error ? String(result.error) : 'Failed to start metered');
+      }
       onClose();
     } catch (e) {
       setError((e as Error).message);
@@ -2300,9 +2398,12 @@ export default function PaywallOverlay({ domain, status, reason, peek, onClose }
                 {emergencyPolicyConfig.id !== 'off' && (
                   <>
                     {' '}
-                    • no auto-expiry
+                    {emergencyPolicyConfig.autoExpire
+                      ? `• ends after ${Math.max(1, Math.round(emergencyPolicyConfig.durationSeconds / 60))}m`
+                      : '• no auto-expiry'}
                     {typeof emergencyPolicyConfig.tokensPerDay === 'number' ? ` • ${emergencyPolicyConfig.tokensPerDay}/day` : ' • unlimited/day'}
                     {emergencyPolicyConfig.cooldownSeconds > 0 ? ` • ${Math.round(emergencyPolicyConfig.cooldownSeconds / 60)}m cooldown` : ''}
+                    {emergencyPolicyConfig.urlLocked ? ' • this exact URL only' : ''}
                     {emergencyPolicyConfig.debtCoins > 0 ? ` • ${emergencyPolicyConfig.debtCoins} coin debt` : ''}
                   </>
                 )}
@@ -4381,6 +4482,13 @@ export default function PaywallOverlay({ domain, status, reason, peek, onClose }
                       <span className="tws-rail-label">Metered</span>
                       <strong>{formatCoins(meteredRatePerMin)} f-coins/min</strong>
                     </div>
+                    {marketPricing && demandMultiplier > 1 && (
+                      <div className="tws-rail-row">
+                        <span className="tws-rail-label">Demand</span>
+                        <strong>×{demandMultiplier.toFixed(2)}</strong>
+                      </div>
+                    )}
+                    {marketPricing && demandMultiplier > 1 && <DemandPriceCurve pricing={marketPricing} />}
                   </div>
                 </section>
               </div>
@@ -4982,6 +5090,14 @@ export default function PaywallOverlay({ domain, status, reason, peek, onClose }
                         );
                       })}
                     </div>
+                    {quickPacks.length > 0 && (
+                      <details className="tws-quote-details">
+                        <summary>Price breakdown</summary>
+                        {quickPacks.map((pack) => (
+                          <QuoteBreakdown key={pack.minutes} quote={pack} />
+                        ))}
+                      </details>
+                    )}
                   </section>
 
                   {proceedOpen && cameraModeEnabled && reflectionSlideshowEnabled && (
@@ -5019,6 +5135,12 @@ export default function PaywallOverlay({ domain, status, reason, peek, onClose }
                       Proceed metered
                     </button>
                   </div>
+                  {quotes && (
+                    <details className="tws-quote-details">
+                      <summary>Price breakdown</summary>
+                      <QuoteBreakdown quote={quotes.metered} />
+                    </details>
+                  )}
                 </section>
 
                 <div className="tws-emergency-link">
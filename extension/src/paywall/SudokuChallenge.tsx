@@ -1,94 +1,86 @@
 import { useEffect, useMemo, useState } from 'react';
 
 type SudokuUnlockPayload = {
-  correctSquares: number;
-  requiredSquares: number;
+  entries: number[][];
+  filledSquares: number;
   elapsedSeconds: number;
 };
 
 interface SudokuChallengeProps {
   title: string;
   subtitle?: string;
-  requiredCorrect?: number;
+  /** Server-issued grid with 0 for blanks; the solution never reaches the extension. */
+  puzzle: number[][];
+  requiredCorrect: number;
   unlockLabel: string;
   disabled?: boolean;
   puzzleKey?: string;
   onUnlock(payload: SudokuUnlockPayload): Promise<void> | void;
 }
 
-const HARD_PUZZLE = [
-  [8, 0, 0, 0, 0, 0, 0, 0, 0],
-  [0, 0, 3, 6, 0, 0, 0, 0, 0],
-  [0, 7, 0, 0, 9, 0, 2, 0, 0],
-  [0, 5, 0, 0, 0, 7, 0, 0, 0],
-  [0, 0, 0, 0, 4, 5, 7, 0, 0],
-  [0, 0, 0, 1, 0, 0, 0, 3, 0],
-  [0, 0, 1, 0, 0, 0, 0, 6, 8],
-  [0, 0, 8, 5, 0, 0, 0, 1, 0],
-  [0, 9, 0, 0, 0, 0, 4, 0, 0]
-] as const;
-
-const HARD_SOLUTION = [
-  [8, 1, 2, 7, 5, 3, 6, 4, 9],
-  [9, 4, 3, 6, 8, 2, 1, 7, 5],
-  [6, 7, 5, 4, 9, 1, 2, 8, 3],
-  [1, 5, 4, 2, 3, 7, 8, 9, 6],
-  [3, 6, 9, 8, 4, 5, 7, 2, 1],
-  [2, 8, 7, 1, 6, 9, 5, 3, 4],
-  [5, 2, 1, 9, 7, 4, 3, 6, 8],
-  [4, 3, 8, 5, 2, 6, 9, 1, 7],
-  [7, 9, 6, 3, 1, 8, 4, 5, 2]
-] as const;
-
-const BLANK_CELLS = HARD_PUZZLE.flatMap((row, rowIndex) =>
-  row.flatMap((value, colIndex) => (value === 0 ? [{ row: rowIndex, col: colIndex }] : []))
-);
+function createEmptyEntries(puzzle: number[][]) {
+  return puzzle.map((row) => row.map((value) => (value === 0 ? '' : String(value))));
+}
 
-function createEmptyEntries() {
-  return HARD_PUZZLE.map((row) => row.map((value) => (value === 0 ? '' : String(value))));
+/** A square conflicts when its digit repeats in its row, column or box. */
+function hasConflict(entries: string[][], rowIndex: number, colIndex: number) {
+  const value = entries[rowIndex][colIndex];
+  if (!value) return false;
+  const boxRow = rowIndex - (rowIndex % 3);
+  const boxCol = colIndex - (colIndex % 3);
+  for (let i = 0; i < 9; i += 1) {
+    if (i !== colIndex && entries[rowIndex][i] === value) return true;
+    if (i !== rowIndex && entries[i][colIndex] === value) return true;
+    const r = boxRow + Math.floor(i / 3);
+    const c = boxCol + (i % 3);
+    if ((r !== rowIndex || c !== colIndex) && entries[r][c] === value) return true;
+  }
+  return false;
 }
 
 export default function SudokuChallenge({
   title,
   subtitle,
-  requiredCorrect = 12,
+  puzzle,
+  requiredCorrect,
   unlockLabel,
   disabled = false,
   puzzleKey,
   onUnlock
 }: SudokuChallengeProps) {
-  const [entries, setEntries] = useState<string[][]>(() => createEmptyEntries());
+  const [entries, setEntries] = useState<string[][]>(() => createEmptyEntries(puzzle));
   const [startedAt, setStartedAt] = useState(() => Date.now());
   const [unlocking, setUnlocking] = useState(false);
   const [unlockError, setUnlockError] = useState<string | null>(null);
 
+  const blankCells = useMemo(
+    () => puzzle.flatMap((row, rowIndex) => row.flatMap((value, colIndex) => (value === 0 ? [{ row: rowIndex, col: colIndex }] : []))),
+    [puzzle]
+  );
+
   const requiredSquares = useMemo(
-    () => Math.max(1, Math.min(BLANK_CELLS.length, Math.round(requiredCorrect))),
-    [requiredCorrect]
+    () => Math.max(1, Math.min(blankCells.length, Math.round(requiredCorrect))),
+    [blankCells.length, requiredCorrect]
   );
 
-  const correctSquares = useMemo(
-    () =>
-      BLANK_CELLS.reduce((count, cell) => {
-        const value = entries[cell.row]?.[cell.col];
-        if (!value) return count;
-        return Number(value) === HARD_SOLUTION[cell.row][cell.col] ? count + 1 : count;
-      }, 0),
-    [entries]
+  // The desktop checks answers; locally we can only count filled squares without conflicts.
+  const filledSquares = useMemo(
+    () => blankCells.filter((cell) => entries[cell.row]?.[cell.col] && !hasConflict(entries, cell.row, cell.col)).length,
+    [blankCells, entries]
   );
 
-  const solvedEnough = correctSquares >= requiredSquares;
-  const progressPercent = Math.min(100, (correctSquares / requiredSquares) * 100);
+  const solvedEnough = filledSquares >= requiredSquares;
+  const progressPercent = Math.min(100, (filledSquares / requiredSquares) * 100);
 
   useEffect(() => {
-    setEntries(createEmptyEntries());
+    setEntries(createEmptyEntries(puzzle));
     setStartedAt(Date.now());
     setUnlockError(null);
     setUnlocking(false);
-  }, [puzzleKey]);
+  }, [puzzle, puzzleKey]);
 
   const updateEntry = (rowIndex: number, colIndex: number, rawValue: string) => {
-    if (HARD_PUZZLE[rowIndex][colIndex] !== 0 || disabled || unlocking) return;
+    if (puzzle[rowIndex][colIndex] !== 0 || disabled || unlocking) return;
     const value = rawValue.replace(/[^1-9]/g, '').slice(-1);
     setEntries((prev) => {
       const next = prev.map((row) => [...row]);
@@ -98,7 +90,7 @@ export default function SudokuChallenge({
   };
 
   const reset = () => {
-    setEntries(createEmptyEntries());
+    setEntries(createEmptyEntries(puzzle));
     setStartedAt(Date.now());
     setUnlockError(null);
   };
@@ -109,8 +101,8 @@ export default function SudokuChallenge({
     setUnlockError(null);
     try {
       await onUnlock({
-        correctSquares,
-        requiredSquares,
+        entries: entries.map((row) => row.map((value) => Number(value) || 0)),
+        filledSquares,
         elapsedSeconds: Math.max(1, Math.round((Date.now() - startedAt) / 1000))
       });
     } catch (error) {
@@ -128,7 +120,7 @@ export default function SudokuChallenge({
       </div>
       <div className="tws-sudoku-progress-row">
         <span>
-          Correct squares: {correctSquares}/{requiredSquares}
+          Filled squares: {filledSquares}/{requiredSquares}
         </span>
         <span>{progressPercent.toFixed(0)}%</span>
       </div>
@@ -136,17 +128,15 @@ export default function SudokuChallenge({
         <span style={{ width: `${progressPercent}%` }} />
       </div>
       <div className="tws-sudoku-grid" role="group" aria-label="Sudoku challenge">
-        {HARD_PUZZLE.map((row, rowIndex) =>
+        {puzzle.map((row, rowIndex) =>
           row.map((value, colIndex) => {
             const fixed = value !== 0;
             const currentValue = fixed ? String(value) : entries[rowIndex][colIndex];
             const hasValue = currentValue.length > 0;
-            const correct = !fixed && hasValue && Number(currentValue) === HARD_SOLUTION[rowIndex][colIndex];
-            const incorrect = !fixed && hasValue && !correct;
+            const incorrect = !fixed && hasValue && hasConflict(entries, rowIndex, colIndex);
             const className = [
               'tws-sudoku-cell',
               fixed ? 'is-fixed' : '',
-              correct ? 'is-correct' : '',
               incorrect ? 'is-incorrect' : ''
             ]
               .filter(Boolean)
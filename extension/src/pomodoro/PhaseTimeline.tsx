@@ -0,0 +1,75 @@
+import type { PomodoroPhaseKind, PomodoroPlanProgress } from '../../../src/shared/types';
+import { POMODORO_PHASE_LABELS, describePomodoroPhase } from '../../../src/shared/pomodoroPlan';
+
+type Props = {
+    plan: PomodoroPlanProgress;
+    /** How far through the current phase we are, 0–1. */
+    currentProgress: number;
+};
+
+const PHASE_COLORS: Record<PomodoroPhaseKind, string> = {
+    focus: '#6c7bff',
+    'short-break': '#19c7ff',
+    'long-break': '#5fd39a'
+};
+
+export default function PhaseTimeline({ plan, currentProgress }: Props) {
+    const label = describePomodoroPhase(plan);
+    return (
+        <div style={styles.wrapper}>
+            <div style={styles.track}>
+                {plan.phases.map((phase) => {
+                    const fill = phase.index < plan.currentIndex
+                        ? 1
+                        : phase.index === plan.currentIndex
+                            ? Math.min(1, Math.max(0, currentProgress))
+                            : 0;
+                    return (
+                        <span
+                            key={phase.index}
+                            title={`${POMODORO_PHASE_LABELS[phase.kind]} · ${Math.round(phase.durationSec / 60)}m${phase.skipped ? ' (skipped)' : ''}`}
+                            style={{
+                                ...styles.segment,
+                                flexGrow: phase.durationSec,
+                                outline: phase.index === plan.currentIndex ? '1px solid rgba(255,255,255,0.7)' : 'none'
+                            }}
+                        >
+                            <span style={{ ...styles.fill, width: `${fill * 100}%`, background: PHASE_COLORS[phase.kind] }} />
+                        </span>
+                    );
+                })}
+            </div>
+            {label && <span style={styles.label}>{label}</span>}
+        </div>
+    );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+    wrapper: {
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 6
+    },
+    track: {
+        display: 'flex',
+        gap: 3,
+        width: '100%',
+        height: 8
+    },
+    segment: {
+        position: 'relative',
+        flexBasis: 0,
+        borderRadius: 999,
+        overflow: 'hidden',
+        background: 'rgba(255,255,255,0.12)'
+    },
+    fill: {
+        position: 'absolute',
+        inset: 0,
+        right: 'auto'
+    },
+    label: {
+        fontSize: 12,
+        color: 'rgba(255,255,255,0.7)'
+    }
+};
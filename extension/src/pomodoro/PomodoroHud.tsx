@@ -1,4 +1,7 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
+import type { PomodoroPlanProgress } from '../../../src/shared/types';
+import { POMODORO_PHASE_LABELS, currentPomodoroPhase, pomodoroPhaseProgress } from '../../../src/shared/pomodoroPlan';
+import PhaseTimeline from './PhaseTimeline';
 
 type PomodoroSession = {
   id: string;
@@ -8,6 +11,7 @@ type PomodoroSession = {
   remainingMs: number;
   breakRemainingMs?: number | null;
   mode: 'strict' | 'soft';
+  plan?: PomodoroPlanProgress | null;
 };
 
 type InteractionKind = 'keys' | 'clicks' | 'scroll';
@@ -119,7 +123,10 @@ export default function PomodoroHud({ domain, session }: Props) {
     ? Math.max(0, Math.round((session.breakRemainingMs ?? 0) / 1000))
     : 0;
   const timerSeconds = session.state === 'break' ? breakRemainingSeconds : focusRemainingSeconds;
-  const timerLabel = session.state === 'break' ? 'break remaining' : 'focus remaining';
+  const phase = currentPomodoroPhase(session.plan);
+  const timerLabel = session.state === 'break'
+    ? `${(phase ? POMODORO_PHASE_LABELS[phase.kind] : 'break').toLowerCase()} remaining`
+    : 'focus remaining';
 
   const timerTier = useMemo<TimerTier>(() => {
     if (session.state === 'break') return 'safe';
@@ -166,7 +173,9 @@ export default function PomodoroHud({ domain, session }: Props) {
         <div className="tws-glance-top">
           <span className="tws-glance-domain">{domain}</span>
           <span className={`tws-pomo-chip tws-pomo-state-${session.state}`}>
-            {session.state === 'break' ? 'break' : `focus · ${session.mode}`}
+            {session.state === 'break'
+              ? (phase ? POMODORO_PHASE_LABELS[phase.kind] : 'break').toLowerCase()
+              : phase ? `focus ${phase.cycle}/${session.plan?.cycles} · ${session.mode}` : `focus · ${session.mode}`}
           </span>
         </div>
 
@@ -190,6 +199,8 @@ export default function PomodoroHud({ domain, session }: Props) {
           </span>
         </div>
 
+        {session.plan && <PhaseTimeline plan={session.plan} currentProgress={pomodoroPhaseProgress(session)} />}
+
         <div className="tws-pomo-analytics-card">
           <p>session analytics</p>
           <div className="tws-pomo-analytics-grid">
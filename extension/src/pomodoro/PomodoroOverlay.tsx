@@ -1,4 +1,6 @@
 import { useMemo, useState } from 'react';
+import type { PomodoroPlanProgress } from '../../../src/shared/types';
+import PhaseTimeline from './PhaseTimeline';
 
 type Props = {
     domain: string;
@@ -6,6 +8,9 @@ type Props = {
     mode: 'strict' | 'soft';
     softUnlockMs?: number;
     reason?: string;
+    plan?: PomodoroPlanProgress | null;
+    /** How far through the current plan phase we are, 0–1. */
+    phaseProgress?: number;
     onRequestOverride?: () => Promise<void>;
     onBackToFocus?: () => void;
 };
@@ -18,7 +23,7 @@ function formatRemaining(ms?: number) {
     return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
 }
 
-export default function PomodoroOverlay({ domain, remainingMs, mode, softUnlockMs, reason, onRequestOverride, onBackToFocus }: Props) {
+export default function PomodoroOverlay({ domain, remainingMs, mode, softUnlockMs, reason, plan, phaseProgress, onRequestOverride, onBackToFocus }: Props) {
     const [status, setStatus] = useState<'idle' | 'pending' | 'done' | 'error'>('idle');
     const [error, setError] = useState<string | null>(null);
     const formatted = useMemo(() => formatRemaining(remainingMs), [remainingMs]);
@@ -57,6 +62,11 @@ export default function PomodoroOverlay({ domain, remainingMs, mode, softUnlockM
                         : `Need ${domain}? Request a short unlock with a clear reason.`}
                 </p>
                 <p style={styles.reason}>{reasonMessage}</p>
+                {plan && (
+                    <div style={styles.timeline}>
+                        <PhaseTimeline plan={plan} currentProgress={phaseProgress ?? 0} />
+                    </div>
+                )}
                 <div style={styles.actions}>
                     {mode === 'soft' && (
                         <button style={{ ...styles.button, ...styles.primary }} disabled={status === 'pending'} onClick={handleRequest}>
@@ -141,6 +151,9 @@ const styles: Record<string, React.CSSProperties> = {
         color: 'rgba(255,255,255,0.6)',
         fontSize: 13
     },
+    timeline: {
+        margin: '0 0 16px'
+    },
     actions: {
         display: 'flex',
         flexDirection: 'column',
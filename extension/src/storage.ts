@@ -3,12 +3,20 @@
  * Uses chrome.storage.local to persist state
  */
 import { DAY_START_HOUR, getLocalDayStartMs } from '../../src/shared/time';
+import type {
+    CustomEmergencyPolicy,
+    EmergencyPolicyId,
+    OfflineWalletReconciliation,
+    PomodoroPlanProgress
+} from '../../src/shared/types';
+import { isEmergencyPresetId } from '../../src/shared/emergencyPolicy';
 
 export interface MarketRate {
     domain: string;
     ratePerMin: number;
     packs: Array<{ minutes: number; price: number }>;
     hourlyModifiers?: number[];
+    weekdayModifiers?: number[][] | null;
 }
 
 export type LibraryPurpose = 'replace' | 'allow' | 'temptation' | 'productive';
@@ -46,6 +54,10 @@ export type PendingWalletTransaction = {
     type: 'earn' | 'spend' | 'adjust';
     amount: number;
     meta?: Record<string, unknown>;
+    /** HMAC over the entry keyed by the pairing's journal key; see `offlineWalletSigningPayload`. */
+    signature?: string;
+    /** Paired client whose journal key made `signature`; a re-pair makes it stale. */
+    signedBy?: number;
 };
 
 export type PendingConsumptionEvent = {
@@ -125,8 +137,9 @@ export type PomodoroSession = {
     overrides: PomodoroOverride[];
     remainingMs: number;
     presetId?: string | null;
-    completedReason?: 'completed' | 'canceled' | 'expired';
+    completedReason?: 'completed' | 'canceled' | 'expired' | 'interrupted';
     breakRemainingMs?: number | null;
+    plan?: PomodoroPlanProgress | null;
     lastUpdated?: number;
 };
 
@@ -206,7 +219,8 @@ export interface ExtensionState {
         neutralDomains: string[];
         drainingDomains?: string[];
         idleThreshold: number;
-        emergencyPolicy?: 'off' | 'gentle' | 'balanced' | 'strict';
+        emergencyPolicy?: EmergencyPolicyId;
+        customEmergencyPolicies?: CustomEmergencyPolicy[];
         economyExchangeRate?: number;
         journal?: { url: string | null; minutes: number };
         peekEnabled?: boolean;
@@ -242,6 +256,8 @@ export interface ExtensionState {
     libraryItems: LibraryItem[];
     pendingLibrarySync: Record<string, PendingLibrarySync>;
     pendingWalletTransactions: PendingWalletTransaction[];
+    /** What the desktop did with the last replayed offline journal. */
+    lastWalletReconciliation?: OfflineWalletReconciliation | null;
     pendingConsumptionEvents: PendingConsumptionEvent[];
     pendingActivityEvents: PendingActivityEvent[];
     nextLibraryTempId: number;
@@ -381,6 +397,7 @@ const DEFAULT_STATE: ExtensionState = {
     libraryItems: [],
     pendingLibrarySync: {},
     pendingWalletTransactions: [],
+    lastWalletReconciliation: null,
     pendingConsumptionEvents: [],
     pendingActivityEvents: [],
     nextLibraryTempId: -1,
@@ -860,6 +877,9 @@ class ExtensionStorage {
         if (!Array.isArray(this.state.pendingWalletTransactions)) {
             this.state.pendingWalletTransactions = [];
         }
+        if (this.state.lastWalletReconciliation === undefined) {
+            this.state.lastWalletReconciliation = null;
+        }
         if (!Array.isArray(this.state.pendingConsumptionEvents)) {
             this.state.pendingConsumptionEvents = [];
         }
@@ -1113,9 +1133,10 @@ class ExtensionStorage {
         return this.state!.settings.emergencyPolicy ?? 'balanced';
     }
 
-    async setEmergencyPolicy(value: 'off' | 'gentle' | 'balanced' | 'strict') {
+    async setEmergencyPolicy(value: EmergencyPolicyId) {
         await this.ensureReady();
-        if (value !== 'off' && value !== 'gentle' && value !== 'balanced' && value !== 'strict') return;
+        const custom = this.state!.settings.customEmergencyPolicies ?? [];
+        if (!isEmergencyPresetId(value) && !custom.some((policy) => policy.id === value)) return;
         this.state!.settings.emergencyPolicy = value;
         await this.save();
     }
@@ -1641,6 +1662,25 @@ class ExtensionStorage {
         await this.save();
     }
 
+    /** Swaps in re-signed or retried entries by sync id; see `createOfflineWalletQueue`. */
+    async replacePendingWalletTransactions(entries: PendingWalletTransaction[]): Promise<void> {
+        await this.ensureReady();
+        const bySyncId = new Map(entries.map((entry) => [entry.syncId, entry]));
+        this.state!.pendingWalletTransactions = (this.state!.pendingWalletTransactions ?? []).map((entry) => bySyncId.get(entry.syncId) ?? entry);
+        await this.save();
+    }
+
+    async getLastWalletReconciliation(): Promise<OfflineWalletReconciliation | null> {
+        await this.ensureReady();
+        return this.state!.lastWalletReconciliation ?? null;
+    }
+
+    async setLastWalletReconciliation(value: OfflineWalletReconciliation | null): Promise<void> {
+        await this.ensureReady();
+        this.state!.lastWalletReconciliation = value;
+        await this.save();
+    }
+
     async queueConsumptionEvent(payload: PendingConsumptionEvent): Promise<void> {
         await this.ensureReady();
         this.state!.pendingConsumptionEvents = this.trimQueue(
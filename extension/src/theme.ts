@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { applyAppTheme, DEFAULT_APP_THEME, normalizeAppTheme } from '../../src/shared/theme';
 import type { AppTheme } from '../../src/shared/types';
 import { DESKTOP_API_URL } from './constants';
+import { desktopFetch } from './desktopPairing';
 
 type StoredExtensionState = {
   settings?: {
@@ -38,7 +39,7 @@ export function useExtensionTheme() {
 
   useEffect(() => {
     let cancelled = false;
-    fetch(`${DESKTOP_API_URL}/settings/theme`, { cache: 'no-store' })
+    desktopFetch(`${DESKTOP_API_URL}/settings/theme`, { cache: 'no-store' })
       .then(async (response) => {
         if (!response.ok) throw new Error('Theme unavailable');
         return response.json() as Promise<{ theme?: string }>;
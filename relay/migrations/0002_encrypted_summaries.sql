@@ -0,0 +1,15 @@
+-- Relay v2: summaries become client-encrypted. Plaintext v1 rows cannot be
+-- converted server-side, so they are dropped; clients republish on their next cycle.
+DROP TABLE IF EXISTS summaries;
+
+CREATE TABLE summaries (
+  user_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  nonce TEXT NOT NULL,
+  ciphertext TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (user_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_summaries_user_date ON summaries(user_id, date);
@@ -1,4 +1,5 @@
 -- Users are identified by user_id and protected by publish/read key hashes.
+-- Clients register a read token derived from their read key, never the key itself.
 CREATE TABLE IF NOT EXISTS users (
   user_id TEXT PRIMARY KEY,
   publish_hash TEXT NOT NULL,
@@ -6,14 +7,16 @@ CREATE TABLE IF NOT EXISTS users (
   created_at TEXT NOT NULL
 );
 
--- Daily summaries (YYYY-MM-DD). We keep history so friends can show trends later.
+-- Daily summaries (YYYY-MM-DD), stored as client-encrypted ciphertext. The relay
+-- only sees the user id, date and timestamps. We keep history so friends can show trends later.
 CREATE TABLE IF NOT EXISTS summaries (
   user_id TEXT NOT NULL,
   date TEXT NOT NULL,
-  payload_json TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  nonce TEXT NOT NULL,
+  ciphertext TEXT NOT NULL,
   updated_at TEXT NOT NULL,
   PRIMARY KEY (user_id, date)
 );
 
 CREATE INDEX IF NOT EXISTS idx_summaries_user_date ON summaries(user_id, date);
-
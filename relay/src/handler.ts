@@ -0,0 +1,279 @@
+/**
+ * The subset of the D1 binding the relay uses. Cloudflare's `D1Database`
+ * satisfies it, and `local.ts` implements it over better-sqlite3.
+ */
+export interface RelayStatement {
+  bind(...values: unknown[]): RelayStatement;
+  first<T = Record<string, unknown>>(): Promise<T | null>;
+  all<T = Record<string, unknown>>(): Promise<{ results: T[] }>;
+  run(): Promise<unknown>;
+}
+
+export interface RelayDatabase {
+  prepare(sql: string): RelayStatement;
+}
+
+export interface Env {
+  DB: RelayDatabase;
+}
+
+/** Summary format version. v2 summaries are AES-256-GCM ciphertext the relay cannot read. */
+export const SUMMARY_VERSION = 2;
+
+/** Summaries older than this are never served, and are pruned when their owner next publishes. */
+export const RETENTION_DAYS = 90;
+const MAX_PAGE_SIZE = 31;
+
+type JsonValue = null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue };
+
+function json(body: unknown, init: ResponseInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set('content-type', 'application/json; charset=utf-8');
+  headers.set('access-control-allow-origin', '*');
+  headers.set('access-control-allow-headers', 'content-type, authorization');
+  headers.set('access-control-allow-methods', 'GET,POST,PUT,OPTIONS');
+  return new Response(JSON.stringify(body), { ...init, headers });
+}
+
+function badRequest(message: string) {
+  return json({ error: message }, { status: 400 });
+}
+
+function unauthorized(message = 'Unauthorized') {
+  return json({ error: message }, { status: 401 });
+}
+
+function conflict(message: string) {
+  return json({ error: message }, { status: 409 });
+}
+
+function getBearer(req: Request) {
+  const header = req.headers.get('authorization') ?? '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match?.[1]?.trim() ?? null;
+}
+
+function getReadKey(req: Request, url: URL) {
+  return getBearer(req) ?? url.searchParams.get('key');
+}
+
+async function sha256Hex(input: string) {
+  const bytes = new TextEncoder().encode(input);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function isIsoDate(date: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date);
+}
+
+/** `YYYY-MM-DD` shifted by whole days (UTC arithmetic; the dates are opaque labels). */
+function shiftIsoDate(date: string, days: number) {
+  const shifted = new Date(Date.parse(`${date}T00:00:00Z`) + days * 86_400_000);
+  return shifted.toISOString().slice(0, 10);
+}
+
+function retentionCutoff() {
+  return shiftIsoDate(new Date().toISOString().slice(0, 10), -RETENTION_DAYS);
+}
+
+function isBase64Url(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && /^[A-Za-z0-9_-]+$/.test(value);
+}
+
+type SummaryRow = { date: string; version: number; nonce: string; ciphertext: string; updated_at: string };
+
+function toSummary(row: SummaryRow) {
+  return {
+    date: row.date,
+    version: row.version,
+    nonce: row.nonce,
+    ciphertext: row.ciphertext,
+    updatedAt: row.updated_at
+  };
+}
+
+async function readJson<T extends JsonValue>(req: Request): Promise<T> {
+  const text = await req.text();
+  if (!text) throw new Error('Missing JSON body');
+  return JSON.parse(text) as T;
+}
+
+async function requireUser(env: Env, userId: string) {
+  const row = await env.DB.prepare('SELECT user_id, publish_hash, read_hash FROM users WHERE user_id = ?')
+    .bind(userId)
+    .first<{ user_id: string; publish_hash: string; read_hash: string }>();
+  return row ?? null;
+}
+
+export async function handleRelayRequest(req: Request, env: Env): Promise<Response> {
+  if (req.method === 'OPTIONS') return json({ ok: true });
+
+  const url = new URL(req.url);
+  const path = url.pathname;
+
+  // POST /v1/register
+  if (req.method === 'POST' && path === '/v1/register') {
+    try {
+      const body = await readJson<{ userId: string; publishKey: string; readKey: string }>(req);
+      const userId = String(body.userId ?? '').trim();
+      const publishKey = String(body.publishKey ?? '').trim();
+      const readKey = String(body.readKey ?? '').trim();
+      if (!userId) return badRequest('userId is required');
+      if (publishKey.length < 16) return badRequest('publishKey too short');
+      if (readKey.length < 16) return badRequest('readKey too short');
+
+      const publishHash = await sha256Hex(publishKey);
+      const readHash = await sha256Hex(readKey);
+      const now = new Date().toISOString();
+
+      const existing = await requireUser(env, userId);
+      if (existing) {
+        if (existing.publish_hash !== publishHash) {
+          return conflict('userId already registered');
+        }
+        // The owner may rotate the read token (e.g. when upgrading to v2 summaries).
+        if (existing.read_hash !== readHash) {
+          await env.DB.prepare('UPDATE users SET read_hash = ? WHERE user_id = ?').bind(readHash, userId).run();
+        }
+        return json({ ok: true, userId });
+      }
+
+      await env.DB.prepare('INSERT INTO users(user_id, publish_hash, read_hash, created_at) VALUES (?, ?, ?, ?)')
+        .bind(userId, publishHash, readHash, now)
+        .run();
+
+      return json({ ok: true, userId });
+    } catch (err) {
+      return badRequest((err as Error).message);
+    }
+  }
+
+  // PUT /v1/u/:userId/summary
+  const putMatch = path.match(/^\/v1\/u\/([^/]+)\/summary$/);
+  if (req.method === 'PUT' && putMatch) {
+    const userId = decodeURIComponent(putMatch[1]);
+    const bearer = getBearer(req);
+    if (!bearer) return unauthorized('Missing bearer token');
+
+    const user = await requireUser(env, userId);
+    if (!user) return unauthorized('Unknown user');
+
+    const bearerHash = await sha256Hex(bearer);
+    if (bearerHash !== user.publish_hash) return unauthorized();
+
+    try {
+      const body = await readJson<{ date: string; version: number; nonce: string; ciphertext: string; payload?: JsonValue }>(req);
+      const date = String(body.date ?? '').trim();
+      if (!isIsoDate(date)) return badRequest('date must be YYYY-MM-DD');
+      if (body.payload !== undefined) return badRequest('Plaintext summaries are no longer accepted; publish an encrypted v2 summary');
+      if (body.version !== SUMMARY_VERSION) return badRequest(`version must be ${SUMMARY_VERSION}`);
+      if (!isBase64Url(body.nonce) || !isBase64Url(body.ciphertext)) return badRequest('nonce and ciphertext must be base64url');
+      const now = new Date().toISOString();
+
+      await env.DB.prepare(
+        'INSERT INTO summaries(user_id, date, version, nonce, ciphertext, updated_at) VALUES (?, ?, ?, ?, ?, ?) ' +
+        'ON CONFLICT(user_id, date) DO UPDATE SET version = excluded.version, nonce = excluded.nonce, ciphertext = excluded.ciphertext, updated_at = excluded.updated_at'
+      )
+        .bind(userId, date, body.version, body.nonce, body.ciphertext, now)
+        .run();
+      await env.DB.prepare('DELETE FROM summaries WHERE user_id = ? AND date < ?').bind(userId, retentionCutoff()).run();
+
+      return json({ ok: true, userId, date, updatedAt: now });
+    } catch (err) {
+      return badRequest((err as Error).message);
+    }
+  }
+
+  // GET /v1/u/:userId/latest
+  const latestMatch = path.match(/^\/v1\/u\/([^/]+)\/latest$/);
+  if (req.method === 'GET' && latestMatch) {
+    const userId = decodeURIComponent(latestMatch[1]);
+    const readKey = getReadKey(req, url);
+    if (!readKey) return unauthorized('Missing read key');
+
+    const user = await requireUser(env, userId);
+    if (!user) return unauthorized('Unknown user');
+
+    const readHash = await sha256Hex(readKey);
+    if (readHash !== user.read_hash) return unauthorized();
+
+    const row = await env.DB.prepare(
+      'SELECT date, version, nonce, ciphertext, updated_at FROM summaries WHERE user_id = ? AND date >= ? ORDER BY date DESC LIMIT 1'
+    )
+      .bind(userId, retentionCutoff())
+      .first<SummaryRow>();
+
+    if (!row) return json({ userId, summary: null });
+    return json({ userId, summary: toSummary(row) });
+  }
+
+  // GET /v1/u/:userId/summaries?from=&to=&cursor=&limit=
+  const rangeMatch = path.match(/^\/v1\/u\/([^/]+)\/summaries$/);
+  if (req.method === 'GET' && rangeMatch) {
+    const userId = decodeURIComponent(rangeMatch[1]);
+    const readKey = getReadKey(req, url);
+    if (!readKey) return unauthorized('Missing read key');
+
+    const user = await requireUser(env, userId);
+    if (!user) return unauthorized('Unknown user');
+
+    const readHash = await sha256Hex(readKey);
+    if (readHash !== user.read_hash) return unauthorized();
+
+    const today = new Date().toISOString().slice(0, 10);
+    const to = String(url.searchParams.get('to') ?? today).trim();
+    const requestedFrom = String(url.searchParams.get('from') ?? shiftIsoDate(to, -29)).trim();
+    if (!isIsoDate(to) || !isIsoDate(requestedFrom)) return badRequest('from and to must be YYYY-MM-DD');
+    if (requestedFrom > to) return badRequest('from must not be after to');
+    const cutoff = retentionCutoff();
+    const from = requestedFrom < cutoff ? cutoff : requestedFrom;
+
+    // Pages are ascending by date; the cursor is the last date already returned.
+    const cursor = url.searchParams.get('cursor');
+    if (cursor !== null && !isIsoDate(cursor)) return badRequest('cursor must be YYYY-MM-DD');
+    const limitParam = Number(url.searchParams.get('limit') ?? MAX_PAGE_SIZE);
+    const limit = Number.isFinite(limitParam) ? Math.max(1, Math.min(MAX_PAGE_SIZE, Math.floor(limitParam))) : MAX_PAGE_SIZE;
+    const after = cursor && cursor >= from ? cursor : null;
+
+    const { results } = await env.DB.prepare(
+      'SELECT date, version, nonce, ciphertext, updated_at FROM summaries ' +
+      'WHERE user_id = ? AND date >= ? AND date <= ? AND (? IS NULL OR date > ?) ORDER BY date ASC LIMIT ?'
+    )
+      .bind(userId, from, to, after, after, limit + 1)
+      .all<SummaryRow>();
+
+    const page = results.slice(0, limit);
+    const nextCursor = results.length > limit ? page[page.length - 1].date : null;
+    return json({ userId, from, to, retentionDays: RETENTION_DAYS, summaries: page.map(toSummary), nextCursor });
+  }
+
+  // GET /v1/u/:userId/summary?date=
+  const getMatch = path.match(/^\/v1\/u\/([^/]+)\/summary$/);
+  if (req.method === 'GET' && getMatch) {
+    const userId = decodeURIComponent(getMatch[1]);
+    const readKey = getReadKey(req, url);
+    if (!readKey) return unauthorized('Missing read key');
+
+    const user = await requireUser(env, userId);
+    if (!user) return unauthorized('Unknown user');
+
+    const readHash = await sha256Hex(readKey);
+    if (readHash !== user.read_hash) return unauthorized();
+
+    const date = String(url.searchParams.get('date') ?? '').trim();
+    if (!date || !isIsoDate(date)) return badRequest('date must be YYYY-MM-DD');
+    if (date < retentionCutoff()) return json({ userId, summary: null });
+
+    const row = await env.DB.prepare(
+      'SELECT date, version, nonce, ciphertext, updated_at FROM summaries WHERE user_id = ? AND date = ? LIMIT 1'
+    )
+      .bind(userId, date)
+      .first<SummaryRow>();
+
+    if (!row) return json({ userId, summary: null });
+    return json({ userId, summary: toSummary(row) });
+  }
+
+  return json({ error: 'Not found' }, { status: 404 });
+}
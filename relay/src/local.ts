@@ -0,0 +1,101 @@
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import DatabaseDriver from 'better-sqlite3';
+import { handleRelayRequest, type RelayDatabase, type RelayStatement } from './handler';
+
+/**
+ * Offline stand-in for the Cloudflare relay: the same request handler served
+ * by node:http, with better-sqlite3 behind a D1-shaped adapter. Used by tests
+ * and for local development without a Cloudflare account.
+ */
+
+const SCHEMA_PATH = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'schema.sql');
+
+function createStatement(driver: DatabaseDriver.Database, sql: string, values: unknown[] = []): RelayStatement {
+  return {
+    bind: (...next: unknown[]) => createStatement(driver, sql, next),
+    first: <T>() => Promise.resolve((driver.prepare(sql).get(...values) as T | undefined) ?? null),
+    all: <T>() => Promise.resolve({ results: driver.prepare(sql).all(...values) as T[] }),
+    run: () => Promise.resolve(driver.prepare(sql).run(...values))
+  };
+}
+
+export function createLocalRelayDatabase(filePath = ':memory:'): RelayDatabase & { close(): void } {
+  const driver = new DatabaseDriver(filePath);
+  driver.exec(fs.readFileSync(SCHEMA_PATH, 'utf8'));
+  return {
+    prepare: (sql: string) => createStatement(driver, sql),
+    close: () => driver.close()
+  };
+}
+
+async function toRequest(req: http.IncomingMessage, origin: string) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(req.headers)) {
+    if (typeof value === 'string') headers.set(key, value);
+  }
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD' && chunks.length > 0;
+  return new Request(new URL(req.url ?? '/', origin), {
+    method: req.method,
+    headers,
+    body: hasBody ? Buffer.concat(chunks) : undefined
+  });
+}
+
+export type LocalRelay = {
+  url: string;
+  db: RelayDatabase;
+  close(): Promise<void>;
+};
+
+export function startLocalRelay(options: { port?: number; host?: string; filePath?: string } = {}): Promise<LocalRelay> {
+  const host = options.host ?? '127.0.0.1';
+  const db = createLocalRelayDatabase(options.filePath);
+  const server = http.createServer((req, res) => {
+    const origin = `http://${req.headers.host ?? host}`;
+    toRequest(req, origin)
+      .then((request) => handleRelayRequest(request, { DB: db }))
+      .then(async (response) => {
+        const headers: Record<string, string> = {};
+        response.headers.forEach((value, key) => {
+          headers[key] = value;
+        });
+        res.writeHead(response.status, headers);
+        res.end(Buffer.from(await response.arrayBuffer()));
+      })
+      .catch((error: unknown) => {
+        res.writeHead(500, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ error: (error as Error).message }));
+      });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, host, () => {
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : options.port ?? 0;
+      resolve({
+        url: `http://${host}:${port}`,
+        db,
+        close: () =>
+          new Promise<void>((done) => {
+            server.close(() => {
+              db.close();
+              done();
+            });
+          })
+      });
+    });
+  });
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.PORT ?? 8787);
+  void startLocalRelay({ port, filePath: process.env.RELAY_DB ?? ':memory:' }).then((relay) => {
+    console.log(`Local relay listening on ${relay.url}`);
+  });
+}
@@ -1,4 +1,4 @@
-import type { ActivityCategory, CategorisationConfig } from '@shared/types';
+import type { ActivityCategory, ActivityRuleIdleMode, CategorisationConfig } from '@shared/types';
 import { DEFAULT_CATEGORISATION, DEFAULT_IDLE_THRESHOLD_SECONDS } from './defaults';
 import type { ActivityEvent } from './activity-tracker';
 import { canonicalizeDomain } from '@shared/domainCanonicalization';
@@ -9,6 +9,18 @@ export type ClassifiedActivity = ActivityEvent & {
   idleThresholdSeconds: number;
   suppressContext?: boolean;
   continuityApplied?: boolean;
+  ruleId?: number;
+};
+
+/**
+ * What `resolveOverride` may return: a bare category, or a rule outcome that
+ * can also suppress context or force idle handling either way.
+ */
+export type ClassifierOverride = {
+  category?: ActivityCategory | null;
+  suppressContext?: boolean;
+  idle?: ActivityRuleIdleMode | null;
+  ruleId?: number;
 };
 
 export class ActivityClassifier {
@@ -16,7 +28,9 @@ export class ActivityClassifier {
     private readonly getConfig: () => CategorisationConfig,
     private readonly getIdleThreshold: () => number,
     private readonly getFrivolousIdleThreshold: () => number,
-    private readonly resolveOverride?: (event: ActivityEvent & { idleSeconds?: number }) => ActivityCategory | null,
+    private readonly resolveOverride?: (
+      event: ActivityEvent & { idleSeconds?: number }
+    ) => ActivityCategory | ClassifierOverride | null,
     private readonly shouldSuppressContext?: (event: ActivityEvent & { idleSeconds?: number }) => boolean
   ) { }
 
@@ -26,17 +40,19 @@ export class ActivityClassifier {
     const domain = event.domain?.toLowerCase() ?? null;
     const appName = event.appName;
 
-    const override = this.resolveOverride ? this.resolveOverride(event) : null;
-    const suppressContext = this.shouldSuppressContext ? this.shouldSuppressContext(event) : false;
-    const category = suppressContext ? 'neutral' : (override ?? this.resolveCategory(domain, appName ?? '', config));
+    const resolved = this.resolveOverride ? this.resolveOverride(event) : null;
+    const override: ClassifierOverride = typeof resolved === 'string' ? { category: resolved } : (resolved ?? {});
+    const suppressContext =
+      Boolean(override.suppressContext) || (this.shouldSuppressContext ? this.shouldSuppressContext(event) : false);
+    const category = suppressContext ? 'neutral' : (override.category ?? this.resolveCategory(domain, appName ?? '', config));
     const baseThreshold = Math.max(1, this.getIdleThreshold() ?? DEFAULT_IDLE_THRESHOLD_SECONDS);
     const frivolousThreshold = Math.max(1, this.getFrivolousIdleThreshold() ?? DEFAULT_IDLE_THRESHOLD_SECONDS);
     const idleThreshold = category === 'frivolity' ? frivolousThreshold : baseThreshold;
 
     const idleSeconds = Math.max(0, Math.round(event.idleSeconds ?? 0));
     const isLiveSession = this.isLiveSessionContext(event);
-    const effectiveIdleThreshold = isLiveSession ? Number.MAX_SAFE_INTEGER : idleThreshold;
-    const isIdle = idleSeconds >= effectiveIdleThreshold;
+    const effectiveIdleThreshold = isLiveSession || override.idle === 'active' ? Number.MAX_SAFE_INTEGER : idleThreshold;
+    const isIdle = override.idle === 'idle' || idleSeconds >= effectiveIdleThreshold;
 
     return {
       ...event,
@@ -45,7 +61,8 @@ export class ActivityClassifier {
       appName,
       isIdle,
       idleThresholdSeconds: effectiveIdleThreshold,
-      suppressContext
+      suppressContext,
+      ...(override.ruleId != null ? { ruleId: override.ruleId } : {})
     };
   }
 
@@ -3,6 +3,7 @@ import type { EconomyEngine } from './economy';
 import type { ActivityTracker } from './activity-tracker';
 import type { ClassifiedActivity } from './activityClassifier';
 import { ActivityClassifier } from './activityClassifier';
+import type { ActivitySource } from './activitySources';
 import { logger } from '@shared/logger';
 
 export type ActivityOrigin = 'system' | 'extension';
@@ -15,6 +16,8 @@ export class ActivityPipeline {
   private lastForeground: { appName: string; domain: string | null; ts: number } | null = null;
   private lastProductiveAt: number | null = null;
   private static readonly DEFAULT_MAX_EXTENSION_EVENT_AGE_MS = 30_000;
+  private readonly sources = new Map<string, ActivitySource>();
+  private sourcesStarted = false;
 
   constructor(
     private readonly tracker: ActivityTracker,
@@ -26,6 +29,59 @@ export class ActivityPipeline {
     private readonly maxExtensionEventAgeMs = ActivityPipeline.DEFAULT_MAX_EXTENSION_EVENT_AGE_MS
   ) { }
 
+  /**
+   * Registers an activity source. Sources registered after `startSources()`
+   * start immediately; re-registering an id replaces the previous source.
+   */
+  async registerSource(source: ActivitySource) {
+    const existing = this.sources.get(source.id);
+    if (existing) {
+      await this.unregisterSource(source.id);
+    }
+    this.sources.set(source.id, source);
+    if (this.sourcesStarted) {
+      await this.startSource(source);
+    }
+  }
+
+  async unregisterSource(id: string) {
+    const source = this.sources.get(id);
+    if (!source) return;
+    this.sources.delete(id);
+    await source.stop();
+  }
+
+  listSources() {
+    return Array.from(this.sources.values()).map((source) => ({ id: source.id, origin: source.origin }));
+  }
+
+  async startSources() {
+    if (this.sourcesStarted) return;
+    this.sourcesStarted = true;
+    for (const source of this.sources.values()) {
+      await this.startSource(source);
+    }
+  }
+
+  async stopSources() {
+    this.sourcesStarted = false;
+    for (const source of this.sources.values()) {
+      try {
+        await source.stop();
+      } catch (error) {
+        logger.warn(`Failed to stop activity source ${source.id}`, error);
+      }
+    }
+  }
+
+  private async startSource(source: ActivitySource) {
+    try {
+      await source.start((event) => this.handle(event, source.origin));
+    } catch (error) {
+      logger.error(`Failed to start activity source ${source.id}`, error);
+    }
+  }
+
   handle(event: ActivityEvent & { idleSeconds?: number }, origin: ActivityOrigin = 'system') {
     if (origin === 'system') {
       this.lastForeground = {
@@ -0,0 +1,240 @@
+import { EventEmitter } from 'node:events';
+import type { Statement } from 'better-sqlite3';
+import type { Database } from './storage';
+import type {
+  ActivityCategory,
+  ActivityRule,
+  ActivityRuleAction,
+  ActivityRuleContext,
+  ActivityRuleInput,
+  ActivityRuleMatch,
+  ActivityRuleTestResult
+} from '@shared/types';
+import {
+  compileTitlePattern,
+  describeActivityRuleAction,
+  evaluateActivityRules,
+  parseTimeOfDay,
+  sortActivityRules,
+  type ActivityRuleEvaluation
+} from '@shared/activityRules';
+import { canonicalizeDomain } from '@shared/domainCanonicalization';
+
+type ActivityRuleRow = {
+  id: number;
+  name: string;
+  enabled: number;
+  priority: number;
+  match_json: string;
+  action_json: string;
+  created_at: string;
+  updated_at: string;
+};
+
+/** Live state the rule context is filled from when a caller does not supply it. */
+export type ActivityRuleLiveState = {
+  pomodoroActive: () => boolean;
+  writingProjectId: (atMs: number) => number | null;
+};
+
+const RULE_COLUMNS = 'id, name, enabled, priority, match_json, action_json, created_at, updated_at';
+const CATEGORIES: ActivityCategory[] = ['productive', 'neutral', 'frivolity', 'draining'];
+
+function parseJson<T>(raw: string, fallback: T): T {
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function rowToRule(row: ActivityRuleRow): ActivityRule {
+  return {
+    id: row.id,
+    name: row.name,
+    enabled: row.enabled === 1,
+    priority: row.priority,
+    match: parseJson<ActivityRuleMatch>(row.match_json, {}),
+    action: parseJson<ActivityRuleAction>(row.action_json, {}),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function normaliseMatch(raw: ActivityRuleMatch): ActivityRuleMatch {
+  const match: ActivityRuleMatch = {};
+  if (raw.domain?.trim()) {
+    const domain = canonicalizeDomain(raw.domain);
+    if (!domain) throw new Error(`Invalid rule domain "${raw.domain}"`);
+    match.domain = domain;
+  }
+  if (raw.app?.trim()) match.app = raw.app.trim();
+  if (raw.titlePattern?.trim()) {
+    const pattern = raw.titlePattern.trim();
+    if (!compileTitlePattern(pattern)) throw new Error(`Invalid title pattern /${pattern}/`);
+    match.titlePattern = pattern;
+  }
+  if (raw.weekdays?.length) {
+    const days = Array.from(new Set(raw.weekdays.map((day) => Math.round(day)))).sort((a, b) => a - b);
+    if (days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new Error('Rule weekdays must be between 0 (Sunday) and 6 (Saturday)');
+    }
+    match.weekdays = days;
+  }
+  for (const key of ['startTime', 'endTime'] as const) {
+    const value = raw[key]?.trim();
+    if (!value) continue;
+    if (parseTimeOfDay(value) == null) throw new Error(`Invalid ${key} "${value}", expected HH:MM`);
+    match[key] = value;
+  }
+  if (typeof raw.pomodoroActive === 'boolean') match.pomodoroActive = raw.pomodoroActive;
+  if (typeof raw.writingActive === 'boolean') match.writingActive = raw.writingActive;
+  if (raw.writingProjectId != null) {
+    if (!Number.isInteger(raw.writingProjectId) || raw.writingProjectId <= 0) {
+      throw new Error('Invalid writing project id');
+    }
+    match.writingProjectId = raw.writingProjectId;
+  }
+  return match;
+}
+
+function normaliseAction(raw: ActivityRuleAction): ActivityRuleAction {
+  const action: ActivityRuleAction = {};
+  if (raw.category) {
+    if (!CATEGORIES.includes(raw.category)) throw new Error(`Rules cannot assign category "${raw.category}"`);
+    action.category = raw.category;
+  }
+  if (raw.suppressContext) action.suppressContext = true;
+  if (raw.idle === 'idle' || raw.idle === 'active') action.idle = raw.idle;
+  if (!action.category && !action.suppressContext && !action.idle) {
+    throw new Error('Rule must assign a category, suppress context, or change idle handling');
+  }
+  return action;
+}
+
+/**
+ * User-editable classification rules consulted by the classifier before the
+ * static categorisation lists. Rules are cached in memory and reloaded on
+ * every write, since `evaluate` runs for each activity sample.
+ */
+export class ActivityRuleService extends EventEmitter {
+  private db = this.database.connection;
+  private listStmt: Statement;
+  private getStmt: Statement;
+  private insertStmt: Statement;
+  private updateStmt: Statement;
+  private deleteStmt: Statement;
+  private cache: ActivityRule[] | null = null;
+
+  constructor(
+    private database: Database,
+    private live: ActivityRuleLiveState = { pomodoroActive: () => false, writingProjectId: () => null },
+    private now: () => number = Date.now
+  ) {
+    super();
+    this.listStmt = this.db.prepare(`SELECT ${RULE_COLUMNS} FROM activity_rules`);
+    this.getStmt = this.db.prepare(`SELECT ${RULE_COLUMNS} FROM activity_rules WHERE id = ?`);
+    this.insertStmt = this.db.prepare(
+      'INSERT INTO activity_rules(name, enabled, priority, match_json, action_json, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    );
+    this.updateStmt = this.db.prepare(
+      'UPDATE activity_rules SET name = ?, enabled = ?, priority = ?, match_json = ?, action_json = ?, updated_at = ? WHERE id = ?'
+    );
+    this.deleteStmt = this.db.prepare('DELETE FROM activity_rules WHERE id = ?');
+  }
+
+  list(): ActivityRule[] {
+    if (!this.cache) {
+      const rows = this.listStmt.all() as ActivityRuleRow[];
+      this.cache = sortActivityRules(rows.map(rowToRule));
+    }
+    return this.cache;
+  }
+
+  get(id: number): ActivityRule | null {
+    const row = this.getStmt.get(id) as ActivityRuleRow | undefined;
+    return row ? rowToRule(row) : null;
+  }
+
+  create(input: ActivityRuleInput): ActivityRule {
+    const name = input.name?.trim();
+    if (!name) throw new Error('Rule needs a name');
+    const match = normaliseMatch(input.match ?? {});
+    const action = normaliseAction(input.action ?? {});
+    const ts = new Date(this.now()).toISOString();
+    const result = this.insertStmt.run(
+      name,
+      input.enabled === false ? 0 : 1,
+      Math.round(input.priority ?? 0),
+      JSON.stringify(match),
+      JSON.stringify(action),
+      ts,
+      ts
+    );
+    return this.changed(Number(result.lastInsertRowid));
+  }
+
+  update(id: number, patch: Partial<ActivityRuleInput>): ActivityRule {
+    const existing = this.get(id);
+    if (!existing) throw new Error(`Activity rule ${id} not found`);
+    const name = patch.name !== undefined ? patch.name.trim() : existing.name;
+    if (!name) throw new Error('Rule needs a name');
+    const match = normaliseMatch(patch.match ?? existing.match);
+    const action = normaliseAction(patch.action ?? existing.action);
+    const enabled = patch.enabled ?? existing.enabled;
+    const priority = Math.round(patch.priority ?? existing.priority);
+    this.updateStmt.run(
+      name,
+      enabled ? 1 : 0,
+      priority,
+      JSON.stringify(match),
+      JSON.stringify(action),
+      new Date(this.now()).toISOString(),
+      id
+    );
+    return this.changed(id);
+  }
+
+  remove(id: number) {
+    const result = this.deleteStmt.run(id);
+    if (result.changes === 0) throw new Error(`Activity rule ${id} not found`);
+    this.cache = null;
+    this.emit('update', this.list());
+  }
+
+  /** Completes a partial context from the clock and the live pomodoro and writing state. */
+  resolveContext(partial: Partial<ActivityRuleContext> = {}): ActivityRuleContext {
+    const at = partial.at ?? new Date(this.now()).toISOString();
+    return {
+      at,
+      domain: partial.domain?.toLowerCase() ?? null,
+      appName: partial.appName ?? null,
+      windowTitle: partial.windowTitle ?? null,
+      pomodoroActive: partial.pomodoroActive ?? this.live.pomodoroActive(),
+      writingProjectId: partial.writingProjectId !== undefined ? partial.writingProjectId : this.live.writingProjectId(Date.parse(at))
+    };
+  }
+
+  evaluate(context: ActivityRuleContext): ActivityRuleEvaluation {
+    return evaluateActivityRules(this.list(), context);
+  }
+
+  /** Runs the rules against a context and explains which rule fired and why. */
+  test(partial: Partial<ActivityRuleContext> = {}): ActivityRuleTestResult {
+    const context = this.resolveContext(partial);
+    const { rule, trace } = this.evaluate(context);
+    const explanation = rule
+      ? `Rule "${rule.name}" fired: ${describeActivityRuleAction(rule.action)}.`
+      : trace.length
+        ? 'No rule matched; the static categorisation lists apply.'
+        : 'No rules are defined; the static categorisation lists apply.';
+    return { context, rule, action: rule?.action ?? null, explanation, trace };
+  }
+
+  private changed(id: number) {
+    this.cache = null;
+    const rule = this.get(id) as ActivityRule;
+    this.emit('update', this.list());
+    return rule;
+  }
+}
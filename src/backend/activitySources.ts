@@ -0,0 +1,217 @@
+import { readFile } from 'node:fs/promises';
+import type { ActivityEvent } from './activity-tracker';
+import type { ActivityOrigin } from './activityPipeline';
+import type { EconomyClock } from './economy';
+import { createUrlWatcher, type UrlWatcherOptions } from './urlWatcher';
+import { logger } from '@shared/logger';
+
+export type SourcedActivityEvent = ActivityEvent & { idleSeconds?: number };
+
+/**
+ * Anything that produces foreground activity: the OS watcher, the browser
+ * extension feed, or a recorded day being replayed. Sources are registered with
+ * the ActivityPipeline, which owns their lifecycle and routes every event
+ * through classification and the economy.
+ */
+export interface ActivitySource {
+  readonly id: string;
+  readonly origin: ActivityOrigin;
+  start(emit: (event: SourcedActivityEvent) => void): void | Promise<void>;
+  stop(): void | Promise<void>;
+}
+
+/** Wraps the platform URL watcher (osascript / PowerShell / Linux probe). */
+export function createUrlWatcherSource(options: Omit<UrlWatcherOptions, 'onActivity'> = {}): ActivitySource {
+  let watcher: ReturnType<typeof createUrlWatcher> | null = null;
+  return {
+    id: 'system-watcher',
+    origin: 'system',
+    start(emit) {
+      watcher?.stop();
+      watcher = createUrlWatcher({ ...options, onActivity: emit });
+    },
+    stop() {
+      watcher?.stop();
+      watcher = null;
+    }
+  };
+}
+
+/**
+ * A source that is fed from outside, e.g. activity messages arriving over the
+ * extension websocket. Events pushed while stopped are dropped.
+ */
+export class PushActivitySource implements ActivitySource {
+  private emit: ((event: SourcedActivityEvent) => void) | null = null;
+
+  constructor(
+    readonly id: string,
+    readonly origin: ActivityOrigin
+  ) { }
+
+  start(emit: (event: SourcedActivityEvent) => void) {
+    this.emit = emit;
+  }
+
+  stop() {
+    this.emit = null;
+  }
+
+  push(event: SourcedActivityEvent) {
+    if (!this.emit) {
+      logger.warn(`Dropping activity pushed to stopped source ${this.id}`);
+      return;
+    }
+    this.emit(event);
+  }
+}
+
+type RecordedActivityEvent = Omit<SourcedActivityEvent, 'timestamp'> & { timestamp: string | number };
+
+/**
+ * Parses a JSONL recording of ActivityEvents (one JSON object per line with an
+ * ISO or epoch-ms `timestamp`). Malformed lines are skipped with a warning so a
+ * partially corrupted capture still replays.
+ */
+export function parseActivityJsonl(text: string): SourcedActivityEvent[] {
+  const events: SourcedActivityEvent[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    try {
+      const raw = JSON.parse(trimmed) as Partial<RecordedActivityEvent>;
+      const timestamp = new Date(raw.timestamp ?? Number.NaN);
+      if (!Number.isFinite(timestamp.getTime())) throw new Error('missing timestamp');
+      if (typeof raw.appName !== 'string') throw new Error('missing appName');
+      events.push({
+        timestamp,
+        source: raw.source === 'url' ? 'url' : 'app',
+        appName: raw.appName,
+        bundleId: raw.bundleId ?? null,
+        windowTitle: raw.windowTitle ?? null,
+        url: raw.url ?? null,
+        domain: raw.domain ?? null,
+        idleSeconds: typeof raw.idleSeconds === 'number' ? raw.idleSeconds : 0
+      });
+    } catch (error) {
+      logger.warn(`Skipping activity replay line ${index + 1}: ${(error as Error).message}`);
+    }
+  });
+  return events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+export type ReplayScheduler = {
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+  setInterval: (callback: () => void, ms: number) => unknown;
+  clearInterval: (handle: unknown) => void;
+};
+
+export type JsonlReplaySourceOptions = {
+  /** Path to a JSONL recording; ignored when `events` is given. */
+  path?: string;
+  events?: SourcedActivityEvent[];
+  /** Playback speed; 60 plays an hour of recording per minute. */
+  speed?: number;
+  origin?: ActivityOrigin;
+  /**
+   * Stamp events with the replay clock at emission time (default) so freshness
+   * checks in the pipeline and economy treat them as live.
+   */
+  rebaseTimestamps?: boolean;
+  scheduler?: ReplayScheduler;
+  onEnd?: () => void;
+};
+
+const defaultScheduler: ReplayScheduler = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as NodeJS.Timeout),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (handle) => clearInterval(handle as NodeJS.Timeout)
+};
+
+/**
+ * Replays a recorded day of activity at accelerated speed. Used to reproduce
+ * earn/spend bugs and to drive end-to-end economy tests without a desktop.
+ * Hand `clock` to `EconomyEngine.useClock` so earning and spending run at the
+ * same speed as the recording.
+ */
+export class JsonlReplaySource implements ActivitySource {
+  readonly id: string;
+  readonly origin: ActivityOrigin;
+  private readonly speed: number;
+  private readonly scheduler: ReplayScheduler;
+  private timer: unknown = null;
+  private running = false;
+  private emitted = 0;
+  private readonly startedAt = Date.now();
+  /** Virtual time: starts at construction and runs `speed` times faster than the wall clock. */
+  readonly clock: EconomyClock;
+
+  constructor(private readonly options: JsonlReplaySourceOptions) {
+    this.id = options.path ? `replay:${options.path}` : 'replay';
+    this.origin = options.origin ?? 'system';
+    this.speed = Math.max(0.001, options.speed ?? 1);
+    this.scheduler = options.scheduler ?? defaultScheduler;
+    this.clock = {
+      now: () => this.startedAt + (Date.now() - this.startedAt) * this.speed,
+      setInterval: (callback, ms) => this.scheduler.setInterval(callback, ms / this.speed),
+      clearInterval: (handle) => this.scheduler.clearInterval(handle)
+    };
+  }
+
+  get progress() {
+    return { emitted: this.emitted, running: this.running };
+  }
+
+  async start(emit: (event: SourcedActivityEvent) => void) {
+    const events = this.options.events ?? parseActivityJsonl(await readFile(this.requirePath(), 'utf8'));
+    this.running = true;
+    this.emitted = 0;
+    logger.info(`Replaying ${events.length} activity event(s) at ${this.speed}x`);
+
+    const finish = () => {
+      this.running = false;
+      this.timer = null;
+      this.options.onEnd?.();
+    };
+
+    const playFrom = (index: number) => {
+      if (!this.running) return;
+      const event = events[index];
+      const rebase = this.options.rebaseTimestamps ?? true;
+      emit(rebase ? { ...event, timestamp: new Date(this.clock.now()) } : event);
+      this.emitted += 1;
+
+      const next = events[index + 1];
+      if (!next) {
+        finish();
+        return;
+      }
+      const gapMs = Math.max(0, next.timestamp.getTime() - event.timestamp.getTime());
+      this.timer = this.scheduler.setTimeout(() => playFrom(index + 1), gapMs / this.speed);
+    };
+
+    if (!events.length) {
+      finish();
+      return;
+    }
+
+    playFrom(0);
+  }
+
+  stop() {
+    this.running = false;
+    if (this.timer != null) {
+      this.scheduler.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private requirePath() {
+    if (!this.options.path) {
+      throw new Error('JsonlReplaySource needs either events or a path');
+    }
+    return this.options.path;
+  }
+}
@@ -18,6 +18,8 @@ import type {
     BehaviorEpisodeTimeBin,
     BehavioralPattern,
     BehaviorEvent,
+    ChallengeOutcome,
+    ChallengeStats,
     EngagementLevel,
     EngagementMetrics,
     FocusTrend,
@@ -195,6 +197,7 @@ export class AnalyticsService {
     private readingDailyRollupsInRangeStmt: Statement;
     private writingHourlyRollupsInRangeStmt: Statement;
     private writingDailyRollupsInRangeStmt: Statement;
+    private challengeAttemptsInRangeStmt: Statement;
 
     constructor(database: Database, getExcludedKeywords?: () => string[]) {
         this.db = database.connection;
@@ -322,6 +325,12 @@ export class AnalyticsService {
       FROM writing_daily_rollups
       WHERE day >= ? AND day <= ?
     `);
+
+        this.challengeAttemptsInRangeStmt = this.db.prepare(`
+      SELECT domain, difficulty, outcome, elapsed_seconds as elapsedSeconds
+      FROM challenge_attempts
+      WHERE issued_at >= ?
+    `);
     }
 
     private clipActivity(activity: ActivityRow, rangeStartMs: number, rangeEndMs: number) {
@@ -924,6 +933,54 @@ export class AnalyticsService {
         };
     }
 
+    /**
+     * Paywall challenge history: how often free passes are requested, how
+     * often they are earned, and how long solving takes at each difficulty.
+     */
+    getChallengeStats(days: number = 30): ChallengeStats {
+        const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+        const rows = this.challengeAttemptsInRangeStmt.all(since) as Array<{
+            domain: string;
+            difficulty: number;
+            outcome: ChallengeOutcome;
+            elapsedSeconds: number | null;
+        }>;
+
+        const count = (outcome: ChallengeOutcome) => rows.filter((row) => row.outcome === outcome).length;
+        const passed = rows.filter((row) => row.outcome === 'passed');
+        const failed = count('failed');
+        const expired = count('expired');
+        const finished = passed.length + failed + expired;
+
+        const byDifficulty = new Map<number, { difficulty: number; issued: number; passed: number }>();
+        const passesByDomain = new Map<string, number>();
+        for (const row of rows) {
+            const bucket = byDifficulty.get(row.difficulty) ?? { difficulty: row.difficulty, issued: 0, passed: 0 };
+            bucket.issued += 1;
+            if (row.outcome === 'passed') {
+                bucket.passed += 1;
+                passesByDomain.set(row.domain, (passesByDomain.get(row.domain) ?? 0) + 1);
+            }
+            byDifficulty.set(row.difficulty, bucket);
+        }
+
+        const solveTimes = passed.map((row) => row.elapsedSeconds ?? 0);
+        return {
+            periodDays: days,
+            issued: rows.length,
+            passed: passed.length,
+            failed,
+            expired,
+            passRate: finished > 0 ? passed.length / finished : 0,
+            avgSolveSeconds: solveTimes.length ? Math.round(solveTimes.reduce((sum, value) => sum + value, 0) / solveTimes.length) : null,
+            byDifficulty: [...byDifficulty.values()].sort((a, b) => a.difficulty - b.difficulty),
+            topDomains: [...passesByDomain.entries()]
+                .map(([domain, count]) => ({ domain, passed: count }))
+                .sort((a, b) => b.passed - a.passed)
+                .slice(0, 5)
+        };
+    }
+
     /**
      * Get trend data
      */
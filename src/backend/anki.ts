@@ -8,13 +8,29 @@ import DatabaseDriver from 'better-sqlite3';
 import type { Statement } from 'better-sqlite3';
 import type { Database } from './storage';
 import type { WalletManager } from './wallet';
+import { writeAnkiCollection, writeZip, type AnkiPackageCard, type AnkiPackageReview } from './ankiPackage';
 import { getLocalDayStartMs } from '@shared/time';
 import { logger } from '@shared/logger';
+import {
+  fsrsInitialState,
+  fsrsInterval,
+  fsrsNextState,
+  fsrsRetrievability,
+  fsrsStateFromSm2,
+  normalizeFsrsParameters,
+  optimizeFsrsParameters,
+  type FsrsParameters,
+  type FsrsRating,
+  type FsrsReviewHistory,
+  type FsrsState
+} from './fsrs';
 
 const execFileAsync = promisify(execFile);
 
 export type AnkiReviewRating = 'again' | 'hard' | 'good' | 'easy';
 
+export type AnkiScheduler = 'sm2' | 'fsrs';
+
 export type AnkiDeckSummary = {
   id: number;
   name: string;
@@ -24,6 +40,9 @@ export type AnkiDeckSummary = {
   reviewedToday: number;
   lastImportedAt: string | null;
   lastReviewedAt: string | null;
+  scheduler: AnkiScheduler;
+  desiredRetention: number;
+  fsrsOptimizedAt: string | null;
 };
 
 export type AnkiCard = {
@@ -41,6 +60,8 @@ export type AnkiCard = {
   lapses: number;
   suspended: boolean;
   lastReviewedAt: string | null;
+  stability: number | null;
+  difficulty: number | null;
 };
 
 export type AnkiStatus = {
@@ -54,13 +75,31 @@ export type AnkiStatus = {
   unlocksAvailable: number;
 };
 
+/**
+ * `replace` lets the package overwrite scheduling of cards already here;
+ * `merge` only refreshes their content, keeps local scheduling and adds
+ * review history the app has not seen yet.
+ */
+export type AnkiImportMode = 'replace' | 'merge';
+
 export type AnkiImportResult = {
   packagePath: string;
   importedAt: string;
+  mode: AnkiImportMode;
   decksImported: number;
   cardsImported: number;
   cardsUpdated: number;
   cardsSkipped: number;
+  reviewsImported: number;
+};
+
+export type AnkiExportResult = {
+  deckId: number;
+  deckName: string;
+  packagePath: string;
+  exportedAt: string;
+  cardsExported: number;
+  reviewsExported: number;
 };
 
 export type AnkiReviewResult = {
@@ -72,10 +111,22 @@ export type AnkiReviewResult = {
   easeFactor: number;
   repetitions: number;
   lapses: number;
+  scheduler: AnkiScheduler;
+  stability: number;
+  difficulty: number;
   rewardCoins: number;
   walletBalance: number | null;
 };
 
+export type AnkiFsrsOptimizeResult = {
+  deckIds: number[];
+  optimizedAt: string;
+  reviewsUsed: number;
+  logLossBefore: number;
+  logLossAfter: number;
+  parameters: number[];
+};
+
 export type AnkiAnalyticsRiskLevel = 'info' | 'warning';
 
 export type AnkiAnalyticsRisk = {
@@ -117,6 +168,14 @@ export type AnkiAnalyticsDeckPoint = {
   dueNow: number;
   reviews: number;
   retention: number | null;
+  scheduler: AnkiScheduler;
+  predictedRetention: number | null;
+};
+
+export type AnkiAnalyticsForecastPoint = {
+  day: string;
+  due: number;
+  estimatedMinutes: number;
 };
 
 export type AnkiAnalytics = {
@@ -142,6 +201,8 @@ export type AnkiAnalytics = {
     reviewMinutes: number;
     currentStreakDays: number;
     availableUnlockReviews: number;
+    /** Mean recall probability of learned cards right now, from their FSRS memory state. */
+    predictedRetention: number | null;
   };
   ratings: {
     again: number;
@@ -158,6 +219,8 @@ export type AnkiAnalytics = {
     cells: AnkiAnalyticsHeatmapCell[];
   };
   decks: AnkiAnalyticsDeckPoint[];
+  /** Cards coming due per day over the next 30 days; overdue cards count toward today. */
+  forecast: AnkiAnalyticsForecastPoint[];
   risks: AnkiAnalyticsRisk[];
   encouragement: string[];
 };
@@ -176,6 +239,45 @@ type SourceCardRow = {
   flds: string;
   tags: string | null;
   mid: number | null;
+  data: string | null;
+};
+
+type SourceReviewRow = {
+  id: number;
+  cid: number;
+  ease: number;
+  ivl: number;
+  last_ivl: number;
+  factor: number;
+  time: number;
+};
+
+type ExportCardRow = {
+  id: number;
+  source_card_id: string | null;
+  fingerprint: string;
+  front: string;
+  back: string;
+  tags: string | null;
+  due_at: string;
+  interval_days: number;
+  ease_factor: number;
+  repetitions: number;
+  lapses: number;
+  suspended: number;
+  stability: number | null;
+  difficulty: number | null;
+  updated_at: string;
+};
+
+type ExportReviewRow = {
+  card_id: number;
+  reviewed_at: string;
+  rating: AnkiReviewRating;
+  response_ms: number | null;
+  before_interval_days: number | null;
+  after_interval_days: number | null;
+  after_ease_factor: number | null;
 };
 
 type DeckRow = {
@@ -187,6 +289,9 @@ type DeckRow = {
   reviewed_today: number;
   last_imported_at: string | null;
   last_reviewed_at: string | null;
+  scheduler: AnkiScheduler;
+  desired_retention: number;
+  fsrs_optimized_at: string | null;
 };
 
 type CardRow = {
@@ -204,6 +309,37 @@ type CardRow = {
   lapses: number;
   suspended: number;
   last_reviewed_at: string | null;
+  stability: number | null;
+  difficulty: number | null;
+};
+
+type ReviewCardRow = CardRow & {
+  scheduler: AnkiScheduler;
+  desired_retention: number;
+  fsrs_params_json: string | null;
+};
+
+type CardMemoryRow = {
+  deck_id: number;
+  due_at: string;
+  interval_days: number;
+  ease_factor: number;
+  stability: number | null;
+  difficulty: number | null;
+  last_reviewed_at: string | null;
+};
+
+type ForecastRow = {
+  day: string;
+  due: number;
+};
+
+type FsrsHistoryRow = {
+  card_id: number;
+  reviewed_at: string;
+  rating: AnkiReviewRating;
+  before_interval_days: number | null;
+  before_ease_factor: number | null;
 };
 
 type ExistingCardRow = {
@@ -262,6 +398,7 @@ type DeckAnalyticsRow = {
   due_now: number;
   reviews_window: number;
   success_window: number;
+  scheduler: AnkiScheduler;
 };
 
 type SourceCollectionState = {
@@ -286,6 +423,21 @@ const REVIEW_REWARD_COINS: Record<AnkiReviewRating, number> = {
   good: 2,
   easy: 3
 };
+const FSRS_GRADES: Record<AnkiReviewRating, FsrsRating> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4
+};
+const EASE_RATINGS: Record<number, AnkiReviewRating> = {
+  1: 'again',
+  2: 'hard',
+  3: 'good',
+  4: 'easy'
+};
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const FORECAST_DAYS = 30;
+const FALLBACK_RESPONSE_MS = 8000;
 
 function decodeHtmlEntities(value: string) {
   return value
@@ -441,6 +593,100 @@ function reviewNextState(input: {
   };
 }
 
+function parseFsrsParameters(raw: string | null): FsrsParameters {
+  if (!raw) return normalizeFsrsParameters(null);
+  try {
+    return normalizeFsrsParameters(JSON.parse(raw));
+  } catch {
+    return normalizeFsrsParameters(null);
+  }
+}
+
+/**
+ * When the card was last reviewed. Imported cards have no local review yet, so
+ * assume the previous review was one interval before the current due date.
+ */
+function lastReviewMs(card: Pick<CardMemoryRow, 'due_at' | 'interval_days' | 'last_reviewed_at'>) {
+  const reviewed = card.last_reviewed_at ? Date.parse(card.last_reviewed_at) : NaN;
+  if (Number.isFinite(reviewed)) return reviewed;
+  return Date.parse(card.due_at) - Math.max(0, card.interval_days) * DAY_MS;
+}
+
+/** Stored FSRS state, or one seeded from SM-2 fields for cards reviewed before FSRS tracking existed. */
+function currentMemoryState(card: Pick<CardMemoryRow, 'stability' | 'difficulty' | 'interval_days' | 'ease_factor'>): FsrsState | null {
+  if (card.stability != null && card.difficulty != null) {
+    return { stability: card.stability, difficulty: card.difficulty };
+  }
+  if (card.interval_days > 0) return fsrsStateFromSm2(card.interval_days, card.ease_factor);
+  return null;
+}
+
+function reviewNextMemoryState(card: ReviewCardRow, rating: AnkiReviewRating, parameters: FsrsParameters, nowMs: number) {
+  const grade = FSRS_GRADES[rating];
+  const state = currentMemoryState(card);
+  if (!state) return fsrsInitialState(parameters, grade);
+  const elapsedDays = Math.max(0, (nowMs - lastReviewMs(card)) / DAY_MS);
+  return fsrsNextState(parameters, state, elapsedDays, grade);
+}
+
+function reviewNextFsrsState(input: {
+  rating: AnkiReviewRating;
+  memory: FsrsState;
+  desiredRetention: number;
+  repetitions: number;
+  lapses: number;
+  easeFactor: number;
+  nowMs: number;
+}) {
+  if (input.rating === 'again') {
+    return {
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: Math.max(0, Math.round(input.lapses)) + 1,
+      easeFactor: safeEaseFactor(input.easeFactor),
+      dueAt: toIso(input.nowMs + RELEARN_DELAY_MS)
+    };
+  }
+  const intervalDays = fsrsInterval(input.memory.stability, input.desiredRetention);
+  return {
+    intervalDays,
+    repetitions: Math.max(0, Math.round(input.repetitions)) + 1,
+    lapses: Math.max(0, Math.round(input.lapses)),
+    easeFactor: safeEaseFactor(input.easeFactor),
+    dueAt: toIso(input.nowMs + intervalDays * DAY_MS)
+  };
+}
+
+/** FSRS memory state Anki keeps in the card `data` JSON, if any. */
+function parseCardMemory(raw: string | null): FsrsState | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as { s?: unknown; d?: unknown };
+    const stability = Number(parsed?.s);
+    const difficulty = Number(parsed?.d);
+    if (!Number.isFinite(stability) || stability <= 0 || !Number.isFinite(difficulty)) return null;
+    return { stability, difficulty };
+  } catch {
+    return null;
+  }
+}
+
+/** Maps a local card onto Anki's type/queue/due triple, the inverse of `deriveImportedDueAt`. */
+function toAnkiSchedule(card: ExportCardRow, collectionCreatedAtSec: number, newPosition: number) {
+  const dueMs = Date.parse(card.due_at);
+  const reviewDay = Math.max(1, Math.round((dueMs / 1000 - collectionCreatedAtSec) / 86400));
+  if (card.suspended) {
+    return card.interval_days > 0
+      ? { type: 2, queue: -1, due: reviewDay } as const
+      : { type: 0, queue: -1, due: newPosition } as const;
+  }
+  if (card.repetitions <= 0 && card.interval_days <= 0) return { type: 0, queue: 0, due: newPosition } as const;
+  if (card.interval_days <= 0) {
+    return { type: card.lapses > 0 ? 3 : 1, queue: 1, due: Math.floor(dueMs / 1000) } as const;
+  }
+  return { type: 2, queue: 2, due: reviewDay } as const;
+}
+
 function fingerprintForCard(deckName: string, sourceCardId: number, front: string, back: string, ord: number) {
   const basis = sourceCardId > 0
     ? `card:${sourceCardId}`
@@ -628,6 +874,14 @@ export class AnkiService {
   private findCardByFingerprintStmt: Statement;
   private insertCardStmt: Statement;
   private updateCardFromImportStmt: Statement;
+  private findCardBySourceIdStmt: Statement;
+  private updateCardContentStmt: Statement;
+  private findReviewStmt: Statement;
+  private insertImportedReviewStmt: Statement;
+  private getDeckForExportStmt: Statement;
+  private exportCardsStmt: Statement;
+  private exportReviewsStmt: Statement;
+  private setCardSourceIdStmt: Statement;
   private getCardForReviewStmt: Statement;
   private updateCardAfterReviewStmt: Statement;
   private insertReviewStmt: Statement;
@@ -640,6 +894,12 @@ export class AnkiService {
   private analyticsRetentionStmt: Statement;
   private analyticsCardSnapshotStmt: Statement;
   private analyticsDecksStmt: Statement;
+  private analyticsMemoryStmt: Statement;
+  private analyticsForecastStmt: Statement;
+  private getDeckFsrsStmt: Statement;
+  private updateDeckSchedulerStmt: Statement;
+  private updateDeckFsrsParamsStmt: Statement;
+  private fsrsHistoryStmt: Statement;
 
   constructor(private database: Database, private wallet?: WalletManager) {
     this.getDeckByNameStmt = this.db.prepare('SELECT id FROM anki_decks WHERE name = ?');
@@ -652,6 +912,7 @@ export class AnkiService {
     this.listDecksStmt = this.db.prepare(
       `SELECT d.id, d.name, d.source_path,
               d.last_imported_at, d.last_reviewed_at,
+              d.scheduler, d.desired_retention, d.fsrs_optimized_at,
               (SELECT COUNT(1) FROM anki_cards c WHERE c.deck_id = d.id AND c.suspended = 0) AS card_count,
               (SELECT COUNT(1) FROM anki_cards c WHERE c.deck_id = d.id AND c.suspended = 0 AND c.due_at <= ?) AS due_count,
               (SELECT COUNT(1) FROM anki_reviews r WHERE r.deck_id = d.id AND r.reviewed_at >= ?) AS reviewed_today
@@ -660,7 +921,8 @@ export class AnkiService {
     );
     this.listDueCardsStmt = this.db.prepare(
       `SELECT c.id, c.deck_id, d.name AS deck_name, c.front, c.back, c.tags, c.note_type,
-              c.due_at, c.interval_days, c.ease_factor, c.repetitions, c.lapses, c.suspended, c.last_reviewed_at
+              c.due_at, c.interval_days, c.ease_factor, c.repetitions, c.lapses, c.suspended, c.last_reviewed_at,
+              c.stability, c.difficulty
        FROM anki_cards c
        JOIN anki_decks d ON d.id = c.deck_id
        WHERE c.suspended = 0
@@ -691,26 +953,64 @@ export class AnkiService {
       `INSERT INTO anki_cards(
          deck_id, source_card_id, fingerprint, front, back, tags, note_type,
          due_at, interval_days, ease_factor, repetitions, lapses, suspended,
-         created_at, updated_at
-       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+         stability, difficulty, created_at, updated_at
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     );
     this.updateCardFromImportStmt = this.db.prepare(
       `UPDATE anki_cards
        SET source_card_id = ?, front = ?, back = ?, tags = ?, note_type = ?,
            due_at = ?, interval_days = ?, ease_factor = ?, repetitions = ?, lapses = ?,
-           suspended = ?, updated_at = ?
+           suspended = ?, stability = ?, difficulty = ?, updated_at = ?
+       WHERE id = ?`
+    );
+    this.findCardBySourceIdStmt = this.db.prepare(
+      'SELECT id FROM anki_cards WHERE deck_id = ? AND source_card_id = ?'
+    );
+    this.updateCardContentStmt = this.db.prepare(
+      `UPDATE anki_cards
+       SET source_card_id = ?, front = ?, back = ?, tags = ?, note_type = ?, updated_at = ?
        WHERE id = ?`
     );
+    this.findReviewStmt = this.db.prepare('SELECT 1 FROM anki_reviews WHERE card_id = ? AND reviewed_at = ?');
+    // Imported history never counts toward paywall unlocks or coin rewards.
+    this.insertImportedReviewStmt = this.db.prepare(
+      `INSERT INTO anki_reviews(
+         card_id, deck_id, reviewed_at, rating, response_ms,
+         before_interval_days, after_interval_days, after_ease_factor,
+         reward_coins, unlock_consumed
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, 1)`
+    );
+    this.getDeckForExportStmt = this.db.prepare(
+      'SELECT id, name, created_at, scheduler, desired_retention FROM anki_decks WHERE id = ?'
+    );
+    this.exportCardsStmt = this.db.prepare(
+      `SELECT id, source_card_id, fingerprint, front, back, tags, due_at, interval_days, ease_factor,
+              repetitions, lapses, suspended, stability, difficulty, updated_at
+       FROM anki_cards
+       WHERE deck_id = ?
+       ORDER BY id ASC`
+    );
+    this.exportReviewsStmt = this.db.prepare(
+      `SELECT r.card_id, r.reviewed_at, r.rating, r.response_ms,
+              r.before_interval_days, r.after_interval_days, r.after_ease_factor
+       FROM anki_reviews r
+       JOIN anki_cards c ON c.id = r.card_id
+       WHERE c.deck_id = ?
+       ORDER BY r.reviewed_at ASC, r.id ASC`
+    );
+    this.setCardSourceIdStmt = this.db.prepare('UPDATE anki_cards SET source_card_id = ? WHERE id = ?');
     this.getCardForReviewStmt = this.db.prepare(
       `SELECT c.id, c.deck_id, d.name AS deck_name, c.front, c.back, c.tags, c.note_type,
-              c.due_at, c.interval_days, c.ease_factor, c.repetitions, c.lapses, c.suspended, c.last_reviewed_at
+              c.due_at, c.interval_days, c.ease_factor, c.repetitions, c.lapses, c.suspended, c.last_reviewed_at,
+              c.stability, c.difficulty, d.scheduler, d.desired_retention, d.fsrs_params_json
        FROM anki_cards c
        JOIN anki_decks d ON d.id = c.deck_id
        WHERE c.id = ?`
     );
     this.updateCardAfterReviewStmt = this.db.prepare(
       `UPDATE anki_cards
-       SET due_at = ?, interval_days = ?, ease_factor = ?, repetitions = ?, lapses = ?, last_reviewed_at = ?, updated_at = ?
+       SET due_at = ?, interval_days = ?, ease_factor = ?, repetitions = ?, lapses = ?,
+           stability = ?, difficulty = ?, last_reviewed_at = ?, updated_at = ?
        WHERE id = ?`
     );
     this.insertReviewStmt = this.db.prepare(
@@ -797,7 +1097,7 @@ export class AnkiService {
        FROM anki_cards`
     );
     this.analyticsDecksStmt = this.db.prepare(
-      `SELECT d.id, d.name,
+      `SELECT d.id, d.name, d.scheduler,
               COUNT(c.id) AS cards_total,
               SUM(CASE WHEN c.suspended = 0 AND c.due_at <= ? THEN 1 ELSE 0 END) AS due_now,
               COALESCE(rw.reviews, 0) AS reviews_window,
@@ -815,6 +1115,30 @@ export class AnkiService {
        GROUP BY d.id, d.name
        ORDER BY due_now DESC, reviews_window DESC, d.name COLLATE NOCASE ASC`
     );
+    this.analyticsMemoryStmt = this.db.prepare(
+      `SELECT deck_id, due_at, interval_days, ease_factor, stability, difficulty, last_reviewed_at
+       FROM anki_cards
+       WHERE suspended = 0 AND repetitions > 0`
+    );
+    this.analyticsForecastStmt = this.db.prepare(
+      `SELECT date(due_at, 'localtime') AS day, COUNT(1) AS due
+       FROM anki_cards
+       WHERE suspended = 0 AND due_at < ?
+       GROUP BY date(due_at, 'localtime')`
+    );
+    this.getDeckFsrsStmt = this.db.prepare('SELECT id, fsrs_params_json FROM anki_decks WHERE id = ?');
+    this.updateDeckSchedulerStmt = this.db.prepare(
+      'UPDATE anki_decks SET scheduler = ?, desired_retention = ?, updated_at = ? WHERE id = ?'
+    );
+    this.updateDeckFsrsParamsStmt = this.db.prepare(
+      'UPDATE anki_decks SET fsrs_params_json = ?, fsrs_optimized_at = ?, updated_at = ? WHERE id = ?'
+    );
+    this.fsrsHistoryStmt = this.db.prepare(
+      `SELECT card_id, reviewed_at, rating, before_interval_days, before_ease_factor
+       FROM anki_reviews
+       WHERE (? IS NULL OR deck_id = ?)
+       ORDER BY card_id ASC, reviewed_at ASC, id ASC`
+    );
   }
 
   private rowToDeck(row: DeckRow): AnkiDeckSummary {
@@ -826,7 +1150,10 @@ export class AnkiService {
       dueCount: row.due_count,
       reviewedToday: row.reviewed_today,
       lastImportedAt: row.last_imported_at,
-      lastReviewedAt: row.last_reviewed_at
+      lastReviewedAt: row.last_reviewed_at,
+      scheduler: row.scheduler,
+      desiredRetention: row.desired_retention,
+      fsrsOptimizedAt: row.fsrs_optimized_at
     };
   }
 
@@ -845,7 +1172,9 @@ export class AnkiService {
       repetitions: row.repetitions,
       lapses: row.lapses,
       suspended: Boolean(row.suspended),
-      lastReviewedAt: row.last_reviewed_at
+      lastReviewedAt: row.last_reviewed_at,
+      stability: row.stability == null ? null : roundPositive(row.stability, 3),
+      difficulty: row.difficulty == null ? null : roundPositive(row.difficulty, 3)
     };
   }
 
@@ -885,7 +1214,8 @@ export class AnkiService {
     return { deckNames, createdAtSec };
   }
 
-  async importDeckPackage(rawPackagePath: string): Promise<AnkiImportResult> {
+  async importDeckPackage(rawPackagePath: string, options?: { mode?: AnkiImportMode }): Promise<AnkiImportResult> {
+    const mode: AnkiImportMode = options?.mode === 'merge' ? 'merge' : 'replace';
     const packagePath = path.resolve(String(rawPackagePath ?? '').trim());
     if (!packagePath) throw new Error('Deck path is required.');
 
@@ -935,15 +1265,23 @@ export class AnkiService {
                 c.type AS card_type,
                 n.flds AS flds,
                 n.tags AS tags,
-                n.mid AS mid
+                n.mid AS mid,
+                c.data AS data
          FROM cards c
          JOIN notes n ON n.id = c.nid`
       ).all() as SourceCardRow[];
+      const sourceReviews = mode === 'merge'
+        ? sourceDb.prepare(
+          'SELECT id, cid, ease, ivl, lastIvl AS last_ivl, factor, time FROM revlog ORDER BY id ASC'
+        ).all() as SourceReviewRow[]
+        : [];
 
       const deckIdMap = new Map<string, number>();
+      const localCards = new Map<number, { id: number; deckId: number }>();
       let cardsImported = 0;
       let cardsUpdated = 0;
       let cardsSkipped = 0;
+      let reviewsImported = 0;
 
       this.database.transaction(() => {
         for (const row of sourceCards) {
@@ -963,7 +1301,10 @@ export class AnkiService {
 
           const sourceCardId = Number.isFinite(row.card_id) ? Math.round(row.card_id) : 0;
           const fingerprint = fingerprintForCard(deckName, sourceCardId, front, back, row.ord ?? 0);
-          const existing = this.findCardByFingerprintStmt.get(deckId, fingerprint) as ExistingCardRow | undefined;
+          // Cards first created here get their Anki id on export, so a round trip matches on it.
+          const existing = (this.findCardByFingerprintStmt.get(deckId, fingerprint)
+            ?? (sourceCardId > 0 ? this.findCardBySourceIdStmt.get(deckId, String(sourceCardId)) : undefined)) as ExistingCardRow | undefined;
+          const memory = parseCardMemory(row.data);
           const now = importedAt;
           const tagsRaw = parseTags(row.tags).join(' ');
           const noteType = row.mid == null ? null : String(row.mid);
@@ -982,6 +1323,21 @@ export class AnkiService {
             collectionCreatedAtSec: sourceCollectionState.createdAtSec
           });
 
+          if (existing && mode === 'merge') {
+            this.updateCardContentStmt.run(
+              sourceCardId > 0 ? String(sourceCardId) : null,
+              front,
+              back,
+              tagsRaw || null,
+              noteType,
+              now,
+              existing.id
+            );
+            localCards.set(sourceCardId, { id: existing.id, deckId });
+            cardsUpdated += 1;
+            continue;
+          }
+
           if (existing) {
             this.updateCardFromImportStmt.run(
               sourceCardId > 0 ? String(sourceCardId) : null,
@@ -995,6 +1351,8 @@ export class AnkiService {
               rawReps,
               rawLapses,
               suspended,
+              memory?.stability ?? null,
+              memory?.difficulty ?? null,
               now,
               existing.id
             );
@@ -1002,7 +1360,7 @@ export class AnkiService {
             continue;
           }
 
-          this.insertCardStmt.run(
+          const inserted = this.insertCardStmt.run(
             deckId,
             sourceCardId > 0 ? String(sourceCardId) : null,
             fingerprint,
@@ -1016,29 +1374,55 @@ export class AnkiService {
             rawReps,
             rawLapses,
             suspended,
+            memory?.stability ?? null,
+            memory?.difficulty ?? null,
             now,
             now
           );
+          localCards.set(sourceCardId, { id: Number(inserted.lastInsertRowid), deckId });
           cardsImported += 1;
         }
+
+        for (const review of sourceReviews) {
+          const card = localCards.get(review.cid);
+          const rating = EASE_RATINGS[review.ease];
+          if (!card || !rating || !isReasonableDueMs(review.id)) continue;
+          const reviewedAt = toIso(review.id);
+          if (this.findReviewStmt.get(card.id, reviewedAt)) continue;
+          this.insertImportedReviewStmt.run(
+            card.id,
+            card.deckId,
+            reviewedAt,
+            rating,
+            review.time > 0 ? review.time : null,
+            Math.max(0, review.last_ivl),
+            Math.max(0, review.ivl),
+            review.factor > 0 ? review.factor / 1000 : null
+          );
+          reviewsImported += 1;
+        }
       });
 
       const decksImported = deckIdMap.size;
       logger.info('Imported Anki package', {
         packagePath,
+        mode,
         decksImported,
         cardsImported,
         cardsUpdated,
-        cardsSkipped
+        cardsSkipped,
+        reviewsImported
       });
 
       return {
         packagePath,
         importedAt,
+        mode,
         decksImported,
         cardsImported,
         cardsUpdated,
-        cardsSkipped
+        cardsSkipped,
+        reviewsImported
       };
     } finally {
       try {
@@ -1050,6 +1434,143 @@ export class AnkiService {
     }
   }
 
+  /**
+   * Writes one deck, with its review log, as a legacy `.apkg` at `outputPath`
+   * (or a temp file). Cards that did not come from Anki get a card id here and
+   * keep it, so importing the package again matches them instead of adding
+   * duplicates.
+   */
+  async exportDeckPackage(deckId: number, outputPath?: string | null): Promise<AnkiExportResult> {
+    const deck = this.getDeckForExportStmt.get(deckId) as
+      | { id: number; name: string; created_at: string; scheduler: AnkiScheduler; desired_retention: number }
+      | undefined;
+    if (!deck) throw new Error('Deck not found.');
+
+    const exportedAtMs = Date.now();
+    const exportedAt = toIso(exportedAtMs);
+    const safeName = deck.name.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'deck';
+    const packagePath = outputPath?.trim()
+      ? path.resolve(outputPath.trim())
+      : path.join(os.tmpdir(), `${safeName}-${exportedAt.replace(/[:.]/g, '-')}.apkg`);
+    if (path.extname(packagePath).toLowerCase() !== '.apkg') {
+      throw new Error('Export path must end in .apkg.');
+    }
+
+    const cards = this.exportCardsStmt.all(deckId) as ExportCardRow[];
+    const reviews = this.exportReviewsStmt.all(deckId) as ExportReviewRow[];
+
+    const ankiIds = new Map<number, number>();
+    const assignedIds: Array<[number, number]> = [];
+    const takenIds = new Set<number>();
+    for (const card of cards) {
+      const sourceId = Number(card.source_card_id);
+      if (Number.isSafeInteger(sourceId) && sourceId > 0 && !takenIds.has(sourceId)) {
+        ankiIds.set(card.id, sourceId);
+        takenIds.add(sourceId);
+      }
+    }
+    let nextId = exportedAtMs;
+    for (const card of cards) {
+      if (ankiIds.has(card.id)) continue;
+      while (takenIds.has(nextId)) nextId += 1;
+      ankiIds.set(card.id, nextId);
+      takenIds.add(nextId);
+      assignedIds.push([card.id, nextId]);
+    }
+
+    // Review-queue due dates are stored as days since the collection was created.
+    const earliestMs = Math.min(
+      Date.parse(deck.created_at) || exportedAtMs,
+      ...cards.map((card) => Date.parse(card.due_at)).filter((value) => Number.isFinite(value))
+    );
+    const collectionCreatedAtSec = Math.floor(getLocalDayStartMs(earliestMs, 0) / 1000) - 86400;
+
+    const packageCards: AnkiPackageCard[] = cards.map((card, index) => {
+      const ankiId = ankiIds.get(card.id) as number;
+      const schedule = toAnkiSchedule(card, collectionCreatedAtSec, index + 1);
+      const memory = card.stability != null && card.difficulty != null
+        ? {
+          s: roundPositive(card.stability, 3),
+          d: roundPositive(card.difficulty, 3),
+          dr: deck.scheduler === 'fsrs' ? deck.desired_retention : undefined
+        }
+        : null;
+      return {
+        id: ankiId,
+        noteId: ankiId,
+        guid: card.fingerprint.slice(0, 16),
+        front: card.front,
+        back: card.back,
+        tags: parseTags(card.tags),
+        ...schedule,
+        intervalDays: Math.max(0, card.interval_days),
+        factor: Math.round(safeEaseFactor(card.ease_factor) * 1000),
+        reps: card.repetitions,
+        lapses: card.lapses,
+        modifiedSec: Math.floor((Date.parse(card.updated_at) || exportedAtMs) / 1000),
+        data: memory ? JSON.stringify(memory) : ''
+      };
+    });
+
+    const reviewIds = new Set<number>();
+    const packageReviews: AnkiPackageReview[] = [];
+    for (const review of reviews) {
+      const cardId = ankiIds.get(review.card_id);
+      let id = Date.parse(review.reviewed_at);
+      if (cardId == null || !Number.isFinite(id)) continue;
+      while (reviewIds.has(id)) id += 1;
+      reviewIds.add(id);
+      const before = Math.max(0, review.before_interval_days ?? 0);
+      const after = Math.max(0, review.after_interval_days ?? 0);
+      packageReviews.push({
+        id,
+        cardId,
+        ease: FSRS_GRADES[review.rating],
+        // Anki stores learning steps as negative seconds.
+        interval: after > 0 ? after : -Math.round(RELEARN_DELAY_MS / 1000),
+        lastInterval: before,
+        factor: review.after_ease_factor ? Math.round(review.after_ease_factor * 1000) : 0,
+        timeMs: Math.min(60000, Math.max(0, review.response_ms ?? 0)),
+        type: before > 0 ? (review.rating === 'again' ? 2 : 1) : 0
+      });
+    }
+
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tws-anki-export-'));
+    try {
+      const collectionPath = path.join(tempDir, 'collection.anki2');
+      writeAnkiCollection(collectionPath, {
+        deckId: Number.isFinite(Date.parse(deck.created_at)) ? Date.parse(deck.created_at) : deck.id,
+        deckName: deck.name,
+        createdAtSec: collectionCreatedAtSec,
+        cards: packageCards,
+        reviews: packageReviews
+      }, Math.floor(exportedAtMs / 1000));
+      await fs.mkdir(path.dirname(packagePath), { recursive: true });
+      await writeZip(packagePath, [
+        { name: 'collection.anki2', data: await fs.readFile(collectionPath) },
+        { name: 'media', data: Buffer.from('{}') }
+      ]);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true }).catch(() => { });
+    }
+
+    this.database.transaction(() => {
+      for (const [cardId, ankiId] of assignedIds) {
+        this.setCardSourceIdStmt.run(String(ankiId), cardId);
+      }
+    });
+    logger.info('Exported Anki package', { deckId, packagePath, cards: packageCards.length, reviews: packageReviews.length });
+
+    return {
+      deckId,
+      deckName: deck.name,
+      packagePath,
+      exportedAt,
+      cardsExported: packageCards.length,
+      reviewsExported: packageReviews.length
+    };
+  }
+
   listDecks() {
     const nowIso = new Date().toISOString();
     const todayStart = dayStartIso();
@@ -1220,15 +1741,48 @@ export class AnkiService {
       currentStreakDays += 1;
     }
 
+    const recallTotal = { sum: 0, count: 0 };
+    const recallByDeck = new Map<number, { sum: number; count: number }>();
+    for (const card of this.analyticsMemoryStmt.all() as CardMemoryRow[]) {
+      const state = currentMemoryState(card);
+      if (!state) continue;
+      const recall = fsrsRetrievability((nowMs - lastReviewMs(card)) / DAY_MS, state.stability);
+      if (!Number.isFinite(recall)) continue;
+      const deckRecall = recallByDeck.get(card.deck_id) ?? { sum: 0, count: 0 };
+      deckRecall.sum += recall;
+      deckRecall.count += 1;
+      recallByDeck.set(card.deck_id, deckRecall);
+      recallTotal.sum += recall;
+      recallTotal.count += 1;
+    }
+    const predictedRetention = ratio(recallTotal.sum, recallTotal.count);
+
     const decks: AnkiAnalyticsDeckPoint[] = deckRows.map((row) => ({
       id: row.id,
       name: row.name,
       cardsTotal: Math.max(0, row.cards_total ?? 0),
       dueNow: Math.max(0, row.due_now ?? 0),
       reviews: Math.max(0, row.reviews_window ?? 0),
-      retention: ratio(Math.max(0, row.success_window ?? 0), Math.max(0, row.reviews_window ?? 0))
+      retention: ratio(Math.max(0, row.success_window ?? 0), Math.max(0, row.reviews_window ?? 0)),
+      scheduler: row.scheduler,
+      predictedRetention: ratio(recallByDeck.get(row.id)?.sum ?? 0, recallByDeck.get(row.id)?.count ?? 0)
     }));
 
+    const todayKey = localDayKey(nowMs, 0);
+    const forecastEndIso = toIso(getLocalDayStartMs(nowMs, 0) + FORECAST_DAYS * DAY_MS);
+    const dueByDay = new Map<string, number>();
+    for (const row of this.analyticsForecastStmt.all(forecastEndIso) as ForecastRow[]) {
+      const day = row.day < todayKey ? todayKey : row.day;
+      dueByDay.set(day, (dueByDay.get(day) ?? 0) + Math.max(0, row.due ?? 0));
+    }
+    const msPerReview = averageResponseMs ?? FALLBACK_RESPONSE_MS;
+    const forecast: AnkiAnalyticsForecastPoint[] = [];
+    for (let index = 0; index < FORECAST_DAYS; index += 1) {
+      const day = localDayKey(nowMs, index);
+      const due = dueByDay.get(day) ?? 0;
+      forecast.push({ day, due, estimatedMinutes: roundPositive((due * msPerReview) / 60000, 1) });
+    }
+
     const availableUnlockReviews = Math.max(0, (this.availableUnlockReviewsStmt.get() as { count: number } | undefined)?.count ?? 0);
     const risks: AnkiAnalyticsRisk[] = [];
     const againRate = totalReviews > 0 ? (ratingsRow.again_count ?? 0) / totalReviews : 0;
@@ -1259,6 +1813,14 @@ export class AnkiService {
         detail: 'Due cards are building up. A short daily catch-up block will keep intervals stable.'
       });
     }
+    if (recallTotal.count >= 20 && (predictedRetention ?? 1) < 0.8) {
+      risks.push({
+        id: 'predicted-retention',
+        level: 'warning',
+        title: 'Memory Fading',
+        detail: 'Predicted recall across learned cards is below 80%. Clearing due cards now is cheaper than relearning later.'
+      });
+    }
     if (currentStreakDays === 0 && windowDays >= 7) {
       risks.push({
         id: 'consistency',
@@ -1314,7 +1876,8 @@ export class AnkiService {
         averageResponseMs,
         reviewMinutes: roundPositive(reviewMinutes, 1),
         currentStreakDays,
-        availableUnlockReviews
+        availableUnlockReviews,
+        predictedRetention
       },
       ratings: {
         again: Math.max(0, ratingsRow.again_count ?? 0),
@@ -1331,6 +1894,7 @@ export class AnkiService {
         cells: heatmapCells
       },
       decks,
+      forecast,
       risks,
       encouragement
     };
@@ -1343,19 +1907,31 @@ export class AnkiService {
       throw new Error('Invalid rating.');
     }
 
-    const row = this.getCardForReviewStmt.get(cardId) as CardRow | undefined;
+    const row = this.getCardForReviewStmt.get(cardId) as ReviewCardRow | undefined;
     if (!row) throw new Error('Card not found.');
 
     const nowMs = Date.now();
     const nowIso = toIso(nowMs);
-    const next = reviewNextState({
-      rating: input.rating,
-      intervalDays: row.interval_days,
-      repetitions: row.repetitions,
-      lapses: row.lapses,
-      easeFactor: row.ease_factor,
-      nowMs
-    });
+    // Memory state is tracked on every deck so switching a deck to FSRS starts from real history.
+    const memory = reviewNextMemoryState(row, input.rating, parseFsrsParameters(row.fsrs_params_json), nowMs);
+    const next = row.scheduler === 'fsrs'
+      ? reviewNextFsrsState({
+        rating: input.rating,
+        memory,
+        desiredRetention: row.desired_retention,
+        repetitions: row.repetitions,
+        lapses: row.lapses,
+        easeFactor: row.ease_factor,
+        nowMs
+      })
+      : reviewNextState({
+        rating: input.rating,
+        intervalDays: row.interval_days,
+        repetitions: row.repetitions,
+        lapses: row.lapses,
+        easeFactor: row.ease_factor,
+        nowMs
+      });
 
     const responseMs = Number.isFinite(input.responseMs) ? Math.max(50, Math.round(input.responseMs as number)) : null;
     const rewardCoins = REVIEW_REWARD_COINS[input.rating] ?? 0;
@@ -1367,6 +1943,8 @@ export class AnkiService {
         next.easeFactor,
         next.repetitions,
         next.lapses,
+        memory.stability,
+        memory.difficulty,
         nowIso,
         nowIso,
         cardId
@@ -1413,11 +1991,70 @@ export class AnkiService {
       easeFactor: next.easeFactor,
       repetitions: next.repetitions,
       lapses: next.lapses,
+      scheduler: row.scheduler,
+      stability: roundPositive(memory.stability, 3),
+      difficulty: roundPositive(memory.difficulty, 3),
       rewardCoins,
       walletBalance
     };
   }
 
+  setDeckScheduler(deckId: number, input: { scheduler?: AnkiScheduler; desiredRetention?: number }): AnkiDeckSummary {
+    const current = this.listDecks().find((deck) => deck.id === deckId);
+    if (!current) throw new Error('Deck not found.');
+    const scheduler = input.scheduler ?? current.scheduler;
+    if (scheduler !== 'sm2' && scheduler !== 'fsrs') throw new Error('Invalid scheduler.');
+    const desiredRetention = input.desiredRetention ?? current.desiredRetention;
+    if (!Number.isFinite(desiredRetention) || desiredRetention < 0.7 || desiredRetention > 0.99) {
+      throw new Error('Desired retention must be between 0.70 and 0.99.');
+    }
+    this.updateDeckSchedulerStmt.run(scheduler, desiredRetention, new Date().toISOString(), deckId);
+    return this.listDecks().find((deck) => deck.id === deckId) ?? current;
+  }
+
+  /**
+   * Fits FSRS parameters to the local review log — one deck's reviews, or all
+   * of them when no deck is given — and stores them on the deck (or every
+   * deck). Due dates are left alone; the new parameters apply from each card's
+   * next review.
+   */
+  optimizeFsrs(options?: { deckId?: number | null }): AnkiFsrsOptimizeResult {
+    const deckId = options?.deckId ?? null;
+    let initial: FsrsParameters | undefined;
+    if (deckId != null) {
+      const deck = this.getDeckFsrsStmt.get(deckId) as { id: number; fsrs_params_json: string | null } | undefined;
+      if (!deck) throw new Error('Deck not found.');
+      initial = parseFsrsParameters(deck.fsrs_params_json);
+    }
+
+    const histories = new Map<number, FsrsReviewHistory>();
+    for (const review of this.fsrsHistoryStmt.all(deckId, deckId) as FsrsHistoryRow[]) {
+      const reviewedAtMs = Date.parse(review.reviewed_at);
+      if (!Number.isFinite(reviewedAtMs) || !(review.rating in FSRS_GRADES)) continue;
+      let history = histories.get(review.card_id);
+      if (!history) {
+        history = [];
+        histories.set(review.card_id, history);
+      }
+      history.push({
+        reviewedAtMs,
+        rating: FSRS_GRADES[review.rating],
+        priorIntervalDays: history.length === 0 ? review.before_interval_days : null,
+        priorEaseFactor: history.length === 0 ? review.before_ease_factor : null
+      });
+    }
+
+    const result = optimizeFsrsParameters(Array.from(histories.values()), initial);
+    const optimizedAt = new Date().toISOString();
+    const deckIds = deckId != null ? [deckId] : this.listDecks().map((deck) => deck.id);
+    this.database.transaction(() => {
+      for (const id of deckIds) {
+        this.updateDeckFsrsParamsStmt.run(JSON.stringify(result.parameters), optimizedAt, optimizedAt, id);
+      }
+    });
+    return { deckIds, optimizedAt, ...result };
+  }
+
   consumeUnlockReviews(requiredReviews = DEFAULT_UNLOCK_THRESHOLD) {
     const required = clampPositiveInt(requiredReviews, DEFAULT_UNLOCK_THRESHOLD);
     let consumedCount = 0;
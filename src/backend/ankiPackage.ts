@@ -0,0 +1,303 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import zlib from 'node:zlib';
+import DatabaseDriver from 'better-sqlite3';
+
+/**
+ * Writer for legacy (schema 11) Anki packages: a zip holding
+ * `collection.anki2` and an empty `media` map. Desktop Anki and AnkiDroid
+ * both import this format, and so does `AnkiService.importDeckPackage`.
+ */
+
+export type AnkiPackageCard = {
+  id: number;
+  noteId: number;
+  guid: string;
+  front: string;
+  back: string;
+  tags: string[];
+  /** Anki card type: 0 new, 1 learning, 2 review, 3 relearning. */
+  type: 0 | 1 | 2 | 3;
+  /** Anki queue: -1 suspended, 0 new, 1 learning, 2 review. */
+  queue: -1 | 0 | 1 | 2;
+  /** New: position; learning: epoch seconds; review: days since `crt`. */
+  due: number;
+  intervalDays: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+  modifiedSec: number;
+  /** Card `data` JSON; Anki keeps FSRS memory state here as `{ s, d, dr }`. */
+  data: string;
+};
+
+export type AnkiPackageReview = {
+  id: number;
+  cardId: number;
+  ease: 1 | 2 | 3 | 4;
+  interval: number;
+  lastInterval: number;
+  factor: number;
+  timeMs: number;
+  type: 0 | 1 | 2 | 3;
+};
+
+export type AnkiPackageContents = {
+  deckId: number;
+  deckName: string;
+  createdAtSec: number;
+  cards: AnkiPackageCard[];
+  reviews: AnkiPackageReview[];
+};
+
+export const TWS_MODEL_ID = 1704067200000;
+
+const COLLECTION_SCHEMA = `
+  CREATE TABLE col (
+    id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null,
+    dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null,
+    decks text not null, dconf text not null, tags text not null
+  );
+  CREATE TABLE notes (
+    id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null,
+    tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null,
+    data text not null
+  );
+  CREATE TABLE cards (
+    id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null,
+    usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null,
+    factor integer not null, reps integer not null, lapses integer not null, left integer not null,
+    odue integer not null, odid integer not null, flags integer not null, data text not null
+  );
+  CREATE TABLE revlog (
+    id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null,
+    lastIvl integer not null, factor integer not null, time integer not null, type integer not null
+  );
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn on notes (usn);
+  CREATE INDEX ix_cards_usn on cards (usn);
+  CREATE INDEX ix_revlog_usn on revlog (usn);
+  CREATE INDEX ix_cards_nid on cards (nid);
+  CREATE INDEX ix_cards_sched on cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid on revlog (cid);
+  CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+function escapeField(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br>');
+}
+
+function checksum(field: string) {
+  return parseInt(crypto.createHash('sha1').update(field).digest('hex').slice(0, 8), 16);
+}
+
+function buildCollectionJson(contents: AnkiPackageContents, nowSec: number) {
+  const nowMs = nowSec * 1000;
+  const defaultDeck = {
+    id: 1,
+    name: 'Default',
+    desc: '',
+    conf: 1,
+    dyn: 0,
+    collapsed: false,
+    extendNew: 10,
+    extendRev: 50,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+    mod: nowSec,
+    usn: -1
+  };
+  const decks = {
+    '1': defaultDeck,
+    [String(contents.deckId)]: { ...defaultDeck, id: contents.deckId, name: contents.deckName }
+  };
+  const models = {
+    [String(TWS_MODEL_ID)]: {
+      id: TWS_MODEL_ID,
+      name: 'TimeWellSpent Basic',
+      type: 0,
+      mod: nowSec,
+      usn: -1,
+      sortf: 0,
+      did: contents.deckId,
+      tmpls: [
+        {
+          name: 'Card 1',
+          ord: 0,
+          qfmt: '{{Front}}',
+          afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}',
+          bqfmt: '',
+          bafmt: '',
+          did: null,
+          bfont: '',
+          bsize: 0
+        }
+      ],
+      flds: ['Front', 'Back'].map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+      css: '.card {\n  font-family: arial;\n  font-size: 20px;\n  text-align: center;\n  color: black;\n  background-color: white;\n}\n',
+      latexPre:
+        '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+      latexPost: '\\end{document}',
+      latexsvg: false,
+      req: [[0, 'any', [0]]],
+      tags: [],
+      vers: []
+    }
+  };
+  const dconf = {
+    '1': {
+      id: 1,
+      name: 'Default',
+      mod: 0,
+      usn: 0,
+      maxTaken: 60,
+      autoplay: true,
+      timer: 0,
+      replayq: true,
+      dyn: false,
+      new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+      lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 },
+      rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, bury: false, hardFactor: 1.2 }
+    }
+  };
+  const conf = {
+    activeDecks: [contents.deckId],
+    curDeck: contents.deckId,
+    newSpread: 0,
+    collapseTime: 1200,
+    timeLim: 0,
+    estTimes: true,
+    dueCounts: true,
+    curModel: TWS_MODEL_ID,
+    nextPos: contents.cards.filter((card) => card.type === 0).length + 1,
+    sortType: 'noteFld',
+    sortBackwards: false,
+    addToCur: true,
+    schedVer: 2
+  };
+  return { conf, models, decks, dconf, nowMs };
+}
+
+/** Writes `collection.anki2` for one deck at `dbPath`. */
+export function writeAnkiCollection(dbPath: string, contents: AnkiPackageContents, nowSec = Math.floor(Date.now() / 1000)) {
+  const db = new DatabaseDriver(dbPath);
+  try {
+    db.exec(COLLECTION_SCHEMA);
+    const json = buildCollectionJson(contents, nowSec);
+    db.prepare('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)').run(
+      contents.createdAtSec,
+      json.nowMs,
+      json.nowMs,
+      JSON.stringify(json.conf),
+      JSON.stringify(json.models),
+      JSON.stringify(json.decks),
+      JSON.stringify(json.dconf),
+      '{}'
+    );
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, ?)');
+    const insertReview = db.prepare('INSERT INTO revlog VALUES (?, ?, -1, ?, ?, ?, ?, ?, ?)');
+    db.transaction(() => {
+      for (const card of contents.cards) {
+        const tags = card.tags.length ? ` ${card.tags.join(' ')} ` : '';
+        const front = escapeField(card.front);
+        insertNote.run(card.noteId, card.guid, TWS_MODEL_ID, card.modifiedSec, tags, `${front}\u001f${escapeField(card.back)}`, card.front, checksum(card.front));
+        insertCard.run(
+          card.id,
+          card.noteId,
+          contents.deckId,
+          card.modifiedSec,
+          card.type,
+          card.queue,
+          card.due,
+          card.intervalDays,
+          card.factor,
+          card.reps,
+          card.lapses,
+          card.data
+        );
+      }
+      for (const review of contents.reviews) {
+        insertReview.run(review.id, review.cardId, review.ease, review.interval, review.lastInterval, review.factor, review.timeMs, review.type);
+      }
+    })();
+  } finally {
+    db.close();
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+/** Minimal deflate zip writer; packages stay far below the 4 GiB zip64 limit. */
+export async function writeZip(outputPath: string, entries: Array<{ name: string; data: Buffer }>, modified = new Date()) {
+  const { time, day } = dosDateTime(modified);
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const compressed = zlib.deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(day, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    locals.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(day, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+  await fs.writeFile(outputPath, Buffer.concat([...locals, ...centrals, end]));
+}
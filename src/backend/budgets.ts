@@ -1,38 +1,273 @@
+import { EventEmitter } from 'node:events';
 import type { Statement } from 'better-sqlite3';
 import type { Database } from './storage';
-import type { Budget } from '@shared/types';
+import type {
+  ActivityCategory,
+  Budget,
+  BudgetInput,
+  BudgetStatus,
+  BudgetWarning,
+  CategorisationConfig
+} from '@shared/types';
+import { DAY_START_HOUR, getLocalDayStartMs } from '@shared/time';
+import { canonicalizeDomain, isSameDomainOrSubdomain } from '@shared/domainCanonicalization';
 
-export class BudgetService {
+/** Fractions of a budget at which a warning is emitted, once per period. */
+export const BUDGET_WARNING_THRESHOLDS = [0.5, 0.8, 1] as const;
+
+export const BUDGET_GROUPS = ['productive', 'neutral', 'frivolity', 'draining'] as const satisfies ReadonlyArray<keyof CategorisationConfig>;
+export type BudgetGroup = (typeof BUDGET_GROUPS)[number];
+
+/** Budgets only count time the classifier marked as frivolity or draining. */
+const BUDGETED_CATEGORIES: ActivityCategory[] = ['frivolity', 'draining'];
+
+// Cached statuses back the paywall's per-tick escalation checks.
+const STATUS_TTL_MS = 30_000;
+
+/** Whether a domain/app belongs to a CategorisationConfig group. */
+export type BudgetGroupMatcher = (domain: string | null, appName: string, group: BudgetGroup) => boolean;
+
+/** The category the activity classifier gives `domain` now, overrides and activity rules included. */
+export type BudgetDomainClassifier = (domain: string) => ActivityCategory | null;
+
+export type BudgetEscalationDecision =
+  | { action: 'none' }
+  | { action: 'surcharge'; multiplier: number; budgetIds: number[] }
+  | { action: 'block'; budgetIds: number[]; reason: string };
+
+type UsageRow = {
+  domain: string | null;
+  appName: string | null;
+  category: ActivityCategory;
+  seconds: number;
+};
+
+function isBudgetGroup(value: string): value is BudgetGroup {
+  return (BUDGET_GROUPS as readonly string[]).includes(value);
+}
+
+export class BudgetService extends EventEmitter {
   private db = this.database.connection;
   private listStmt: Statement;
   private insertStmt: Statement;
   private deleteStmt: Statement;
+  private usageStmt: Statement;
+  private statuses: BudgetStatus[] | null = null;
+  private statusesAt = 0;
+  private warned = new Map<number, { periodStart: string; thresholds: Set<number> }>();
 
-  constructor(private database: Database) {
+  constructor(
+    private database: Database,
+    private matchesGroup: BudgetGroupMatcher = () => false,
+    private classifyDomain: BudgetDomainClassifier = () => null,
+    private now: () => number = Date.now
+  ) {
+    super();
     this.listStmt = this.db.prepare(
-      'SELECT id, period, category, seconds_budgeted as secondsBudgeted FROM budgets ORDER BY id ASC'
+      `SELECT id, period, category, seconds_budgeted as secondsBudgeted, target_kind as targetKind,
+        escalation, surcharge_multiplier as surchargeMultiplier
+       FROM budgets ORDER BY id ASC`
     );
     this.insertStmt = this.db.prepare(
-      'INSERT INTO budgets(period, category, seconds_budgeted) VALUES (?, ?, ?)'
+      'INSERT INTO budgets(period, category, seconds_budgeted, target_kind, escalation, surcharge_multiplier) VALUES (?, ?, ?, ?, ?, ?)'
     );
     this.deleteStmt = this.db.prepare('DELETE FROM budgets WHERE id = ?');
+    this.usageStmt = this.db.prepare(
+      `SELECT domain, app_name as appName, category, COALESCE(SUM(seconds_active), 0) as seconds
+       FROM activities
+       WHERE started_at >= ? AND category IN (${BUDGETED_CATEGORIES.map(() => '?').join(', ')})
+       GROUP BY domain, app_name, category`
+    );
   }
 
   list(): Budget[] {
     return this.listStmt.all() as Budget[];
   }
 
-  add(payload: { period: 'day' | 'week'; category: string; secondsBudgeted: number }): Budget {
-    const result = this.insertStmt.run(payload.period, payload.category, payload.secondsBudgeted);
+  add(payload: BudgetInput): Budget {
+    const targetKind = payload.targetKind ?? 'category';
+    const category = this.normalizeTarget(targetKind, payload.category);
+    const escalation = payload.escalation ?? 'warn';
+    const surchargeMultiplier = payload.surchargeMultiplier ?? 1.5;
+    if (!Number.isFinite(payload.secondsBudgeted) || payload.secondsBudgeted <= 0) {
+      throw new Error('Budget must allow a positive number of seconds');
+    }
+    if (!Number.isFinite(surchargeMultiplier) || surchargeMultiplier < 1) {
+      throw new Error('Surcharge multiplier must be at least 1');
+    }
+    const secondsBudgeted = Math.round(payload.secondsBudgeted);
+    const result = this.insertStmt.run(payload.period, category, secondsBudgeted, targetKind, escalation, surchargeMultiplier);
+    this.invalidate();
     return {
       id: Number(result.lastInsertRowid),
       period: payload.period,
-      category: payload.category,
-      secondsBudgeted: payload.secondsBudgeted
+      targetKind,
+      category,
+      secondsBudgeted,
+      escalation,
+      surchargeMultiplier
     };
   }
 
   remove(id: number) {
     this.deleteStmt.run(id);
+    this.warned.delete(id);
+    this.invalidate();
+  }
+
+  /** Drops cached usage, e.g. after categorisation settings change. */
+  invalidate() {
+    this.statuses = null;
+  }
+
+  /** Current usage of every budget in its running day/week. */
+  status(): BudgetStatus[] {
+    if (!this.statuses || this.now() - this.statusesAt > STATUS_TTL_MS) {
+      this.statuses = this.computeStatuses();
+      this.statusesAt = this.now();
+    }
+    return this.statuses.map((entry) => ({ ...entry, budget: { ...entry.budget } }));
+  }
+
+  /**
+   * Recomputes usage and emits a `warning` event for each threshold crossed
+   * since the last evaluation. Called from the backend housekeeping loop.
+   */
+  evaluate(): BudgetStatus[] {
+    this.invalidate();
+    const statuses = this.status();
+    for (const entry of statuses) {
+      const { budget } = entry;
+      let record = this.warned.get(budget.id);
+      if (!record || record.periodStart !== entry.periodStart) {
+        record = { periodStart: entry.periodStart, thresholds: new Set() };
+        this.warned.set(budget.id, record);
+      }
+      const crossed = BUDGET_WARNING_THRESHOLDS.filter((threshold) => entry.ratio >= threshold && !record.thresholds.has(threshold));
+      if (!crossed.length) continue;
+      crossed.forEach((threshold) => record.thresholds.add(threshold));
+      // Only the highest newly-crossed threshold is worth telling the user about.
+      const threshold = crossed[crossed.length - 1];
+      const warning: BudgetWarning = {
+        budgetId: budget.id,
+        period: budget.period,
+        targetKind: budget.targetKind,
+        target: budget.category,
+        threshold,
+        usedSeconds: entry.usedSeconds,
+        secondsBudgeted: budget.secondsBudgeted,
+        escalation: budget.escalation,
+        exhausted: entry.state === 'exhausted'
+      };
+      this.emit('warning', warning);
+    }
+    return statuses;
+  }
+
+  /**
+   * How the paywall should treat a purchase on `domain`: exhausted budgets
+   * covering it either block outright or apply their largest surcharge.
+   */
+  getEscalation(domain: string): BudgetEscalationDecision {
+    const exhausted = this.status().filter(
+      (entry) => entry.state === 'exhausted' && entry.budget.escalation !== 'warn' && this.coversDomain(entry.budget, domain)
+    );
+    if (!exhausted.length) return { action: 'none' };
+    const blocking = exhausted.filter((entry) => entry.budget.escalation === 'block');
+    if (blocking.length) {
+      const first = blocking[0].budget;
+      return {
+        action: 'block',
+        budgetIds: blocking.map((entry) => entry.budget.id),
+        reason: `${first.period === 'day' ? 'Daily' : 'Weekly'} budget for ${first.category} is used up`
+      };
+    }
+    return {
+      action: 'surcharge',
+      multiplier: Math.max(...exhausted.map((entry) => entry.budget.surchargeMultiplier)),
+      budgetIds: exhausted.map((entry) => entry.budget.id)
+    };
+  }
+
+  private computeStatuses(): BudgetStatus[] {
+    const budgets = this.list();
+    if (!budgets.length) return [];
+    const now = this.now();
+    const starts = {
+      day: new Date(getLocalDayStartMs(now, DAY_START_HOUR)).toISOString(),
+      week: new Date(this.weekStartMs(now)).toISOString()
+    };
+    const usage = new Map<string, UsageRow[]>();
+    const usageFor = (periodStart: string) => {
+      let rows = usage.get(periodStart);
+      if (!rows) {
+        rows = this.usageStmt.all(periodStart, ...BUDGETED_CATEGORIES) as UsageRow[];
+        usage.set(periodStart, rows);
+      }
+      return rows;
+    };
+
+    return budgets.map((budget) => {
+      const periodStart = starts[budget.period];
+      const usedSeconds = usageFor(periodStart)
+        .filter((row) => this.coversUsage(budget, row))
+        .reduce((sum, row) => sum + row.seconds, 0);
+      const ratio = budget.secondsBudgeted > 0 ? usedSeconds / budget.secondsBudgeted : 0;
+      const state: BudgetStatus['state'] = ratio >= 1 ? 'exhausted' : ratio >= BUDGET_WARNING_THRESHOLDS[0] ? 'warning' : 'ok';
+      return {
+        budget,
+        periodStart,
+        usedSeconds,
+        remainingSeconds: Math.max(0, budget.secondsBudgeted - usedSeconds),
+        ratio,
+        state
+      };
+    });
+  }
+
+  // Weeks start on Monday at the configured day-start hour.
+  private weekStartMs(now: number) {
+    const start = new Date(getLocalDayStartMs(now, DAY_START_HOUR));
+    const daysSinceMonday = (start.getDay() + 6) % 7;
+    start.setDate(start.getDate() - daysSinceMonday);
+    return start.getTime();
+  }
+
+  private coversUsage(budget: Budget, row: UsageRow) {
+    switch (budget.targetKind) {
+      case 'domain':
+        return Boolean(row.domain && isSameDomainOrSubdomain(row.domain, budget.category));
+      case 'group':
+        return isBudgetGroup(budget.category) && this.matchesGroup(row.domain, row.appName ?? '', budget.category);
+      default:
+        return row.category === budget.category;
+    }
+  }
+
+  private coversDomain(budget: Budget, domain: string) {
+    const normalized = canonicalizeDomain(domain) ?? domain.trim().toLowerCase();
+    switch (budget.targetKind) {
+      case 'domain':
+        return isSameDomainOrSubdomain(normalized, budget.category);
+      case 'group':
+        return isBudgetGroup(budget.category) && this.matchesGroup(normalized, normalized, budget.category);
+      default:
+        // Usage counts the category the classifier recorded, so purchases go through the same classifier.
+        return this.classifyDomain(normalized) === budget.category;
+    }
+  }
+
+  private normalizeTarget(kind: Budget['targetKind'], value: string) {
+    const trimmed = (value ?? '').trim();
+    if (!trimmed) throw new Error('Budget target is required');
+    if (kind === 'domain') {
+      const domain = canonicalizeDomain(trimmed);
+      if (!domain) throw new Error(`Invalid budget domain: ${trimmed}`);
+      return domain;
+    }
+    if (kind === 'group' && !isBudgetGroup(trimmed)) {
+      throw new Error(`Unknown categorisation group: ${trimmed}`);
+    }
+    return kind === 'group' ? trimmed : trimmed.toLowerCase();
   }
 }
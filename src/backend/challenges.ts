@@ -0,0 +1,276 @@
+import crypto from 'node:crypto';
+import type { Statement } from 'better-sqlite3';
+import type { Database } from './storage';
+import type { ChallengeKind, ChallengeOutcome, ChallengeResult, ChallengeSubmission, IssuedChallenge } from '@shared/types';
+import { DAY_START_HOUR, getLocalDayStartMs } from '@shared/time';
+import { logger } from '@shared/logger';
+
+type ChallengeRow = {
+  id: string;
+  kind: ChallengeKind;
+  domain: string;
+  difficulty: number;
+  seed: number;
+  required_correct: number;
+  pass_seconds: number;
+  issued_at: string;
+  expires_at: string;
+  outcome: ChallengeOutcome;
+};
+
+type ChallengeLevel = { blanks: number; requiredCorrect: number; passSeconds: number };
+
+export const CHALLENGE_TTL_MS = 15 * 60_000;
+export const DAILY_CHALLENGE_QUOTA = 3;
+/** Each pass earned today moves the next challenge one level up: more blanks, more to solve, a shorter pass. */
+export const CHALLENGE_LEVELS: ChallengeLevel[] = [
+  { blanks: 46, requiredCorrect: 12, passSeconds: 12 * 60 },
+  { blanks: 52, requiredCorrect: 18, passSeconds: 9 * 60 },
+  { blanks: 56, requiredCorrect: 24, passSeconds: 6 * 60 }
+];
+// Nobody reads a grid and types a correct digit faster than this; quicker submissions are scripted.
+const MIN_SECONDS_PER_SQUARE = 2;
+
+const CHALLENGE_COLUMNS = 'id, kind, domain, difficulty, seed, required_correct, pass_seconds, issued_at, expires_at, outcome';
+
+/** mulberry32: small, fast and good enough to shuffle a grid. */
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(values: T[], random: () => number) {
+  const next = [...values];
+  for (let i = next.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [next[i], next[j]] = [next[j], next[i]];
+  }
+  return next;
+}
+
+/**
+ * Builds a solved grid from the canonical pattern by relabelling digits and
+ * shuffling rows within bands, columns within stacks, bands and stacks (all
+ * of which preserve validity), then blanks `blanks` squares. The same seed
+ * always yields the same puzzle, so only the seed is stored.
+ */
+export function generateSudoku(seed: number, blanks: number) {
+  const random = seededRandom(seed);
+  const digits = shuffle([1, 2, 3, 4, 5, 6, 7, 8, 9], random);
+  const order = () => shuffle([0, 1, 2], random).flatMap((band) => shuffle([0, 1, 2], random).map((line) => band * 3 + line));
+  const rows = order();
+  const cols = order();
+  const solution = rows.map((row) => cols.map((col) => digits[(row * 3 + Math.floor(row / 3) + col) % 9]));
+  const hidden = new Set(shuffle([...Array(81).keys()], random).slice(0, blanks));
+  const puzzle = solution.map((line, row) => line.map((value, col) => (hidden.has(row * 9 + col) ? 0 : value)));
+  return { puzzle, solution };
+}
+
+/**
+ * Backtracking solve (fewest candidates first) of `grid`, where 0 is blank.
+ * Returns one full completion, or null when the filled squares clash or
+ * cannot all be kept.
+ */
+export function completeSudoku(grid: number[][]): number[][] | null {
+  const cells = grid.flat();
+  const rows = new Array<number>(9).fill(0);
+  const cols = new Array<number>(9).fill(0);
+  const boxes = new Array<number>(9).fill(0);
+  const boxOf = (index: number) => Math.floor(index / 27) * 3 + Math.floor((index % 9) / 3);
+  for (let index = 0; index < 81; index += 1) {
+    if (!cells[index]) continue;
+    const bit = 1 << cells[index];
+    const [row, col, box] = [Math.floor(index / 9), index % 9, boxOf(index)];
+    if ((rows[row] | cols[col] | boxes[box]) & bit) return null;
+    rows[row] |= bit;
+    cols[col] |= bit;
+    boxes[box] |= bit;
+  }
+
+  const solve = (): boolean => {
+    let best = -1;
+    let bestCandidates: number[] = [];
+    for (let index = 0; index < 81; index += 1) {
+      if (cells[index]) continue;
+      const used = rows[Math.floor(index / 9)] | cols[index % 9] | boxes[boxOf(index)];
+      const candidates = [1, 2, 3, 4, 5, 6, 7, 8, 9].filter((digit) => !(used & (1 << digit)));
+      if (best === -1 || candidates.length < bestCandidates.length) {
+        best = index;
+        bestCandidates = candidates;
+        if (candidates.length <= 1) break;
+      }
+    }
+    if (best === -1) return true;
+    const [row, col, box] = [Math.floor(best / 9), best % 9, boxOf(best)];
+    for (const digit of bestCandidates) {
+      const bit = 1 << digit;
+      cells[best] = digit;
+      rows[row] |= bit;
+      cols[col] |= bit;
+      boxes[box] |= bit;
+      if (solve()) return true;
+      rows[row] &= ~bit;
+      cols[col] &= ~bit;
+      boxes[box] &= ~bit;
+    }
+    cells[best] = 0;
+    return false;
+  };
+
+  return solve() ? Array.from({ length: 9 }, (_, row) => cells.slice(row * 9, row * 9 + 9)) : null;
+}
+
+/**
+ * Counts the blanks a submission fills correctly. When every entry can be
+ * kept in one full completion of the puzzle, that completion is the answer,
+ * so a different valid solution scores in full; otherwise entries are checked
+ * against the generated `solution`. A submission that changes a given scores
+ * nothing.
+ */
+export function scoreSudoku(puzzle: number[][], solution: number[][], entries: ChallengeSubmission['entries'] | undefined) {
+  const entryAt = (row: number, col: number) => Number(entries?.[row]?.[col] ?? 0);
+  if (puzzle.some((line, row) => line.some((given, col) => given !== 0 && entryAt(row, col) !== 0 && entryAt(row, col) !== given))) {
+    return 0;
+  }
+  const grid = puzzle.map((line, row) =>
+    line.map((given, col) => {
+      if (given) return given;
+      const entry = entryAt(row, col);
+      return Number.isInteger(entry) && entry >= 1 && entry <= 9 ? entry : 0;
+    })
+  );
+  const answer = completeSudoku(grid) ?? solution;
+  let correct = 0;
+  for (let r = 0; r < 9; r += 1) {
+    for (let c = 0; c < 9; c += 1) {
+      if (puzzle[r][c] === 0 && grid[r][c] !== 0 && grid[r][c] === answer[r][c]) correct += 1;
+    }
+  }
+  return correct;
+}
+
+/**
+ * Issues paywall challenges and verifies their solutions. The client only ever
+ * sees the puzzle and a signed id; passes are granted from what the server
+ * checks, not from what the client claims, and every attempt is kept in
+ * `challenge_attempts` for analytics.
+ */
+export class ChallengeService {
+  private db = this.database.connection;
+  private secret: string;
+  private insertStmt: Statement;
+  private getStmt: Statement;
+  private finishStmt: Statement;
+  private passedSinceStmt: Statement;
+  private expireOpenStmt: Statement;
+
+  constructor(private database: Database, options: { secret: string }) {
+    this.secret = options.secret;
+    this.insertStmt = this.db.prepare(
+      `INSERT INTO challenge_attempts(id, kind, domain, difficulty, seed, required_correct, pass_seconds, issued_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    this.getStmt = this.db.prepare(`SELECT ${CHALLENGE_COLUMNS} FROM challenge_attempts WHERE id = ?`);
+    this.finishStmt = this.db.prepare(
+      "UPDATE challenge_attempts SET outcome = ?, submitted_at = ?, correct_squares = ?, elapsed_seconds = ? WHERE id = ? AND outcome = 'issued'"
+    );
+    this.passedSinceStmt = this.db.prepare("SELECT COUNT(*) as count FROM challenge_attempts WHERE outcome = 'passed' AND issued_at >= ?");
+    this.expireOpenStmt = this.db.prepare(
+      "UPDATE challenge_attempts SET outcome = 'expired' WHERE outcome = 'issued' AND (expires_at <= ? OR domain = ?)"
+    );
+  }
+
+  private sign(id: string) {
+    return crypto.createHmac('sha256', this.secret).update(id).digest('base64url');
+  }
+
+  private passedToday() {
+    const dayStart = new Date(getLocalDayStartMs(Date.now(), DAY_START_HOUR)).toISOString();
+    return (this.passedSinceStmt.get(dayStart) as { count: number }).count;
+  }
+
+  /** Issues a new puzzle for `domain`. Any open challenge for the same domain is dropped. */
+  issue(domain: string, kind: ChallengeKind = 'sudoku'): IssuedChallenge {
+    const passed = this.passedToday();
+    if (passed >= DAILY_CHALLENGE_QUOTA) {
+      throw new Error(`Daily challenge limit reached (${DAILY_CHALLENGE_QUOTA} passes); try again tomorrow`);
+    }
+    const now = Date.now();
+    this.expireOpenStmt.run(new Date(now).toISOString(), domain);
+
+    const difficulty = Math.min(passed, CHALLENGE_LEVELS.length - 1);
+    const level = CHALLENGE_LEVELS[difficulty];
+    const id = crypto.randomUUID();
+    const seed = crypto.randomBytes(4).readUInt32LE(0);
+    const issuedAt = new Date(now).toISOString();
+    const expiresAt = new Date(now + CHALLENGE_TTL_MS).toISOString();
+    this.insertStmt.run(id, kind, domain, difficulty, seed, level.requiredCorrect, level.passSeconds, issuedAt, expiresAt);
+
+    return {
+      challengeId: `${id}.${this.sign(id)}`,
+      kind,
+      domain,
+      difficulty,
+      puzzle: generateSudoku(seed, level.blanks).puzzle,
+      requiredCorrect: level.requiredCorrect,
+      passSeconds: level.passSeconds,
+      issuedAt,
+      expiresAt,
+      remainingToday: DAILY_CHALLENGE_QUOTA - passed
+    };
+  }
+
+  /**
+   * Checks a submission against the stored puzzle. Each challenge takes one
+   * submission: a wrong or suspiciously quick answer is recorded as failed and
+   * a new challenge has to be requested. Forged, reused or expired ids throw.
+   */
+  submit(domain: string, submission: ChallengeSubmission): ChallengeResult {
+    const [id, signature] = String(submission.challengeId ?? '').split('.');
+    const expected = id ? this.sign(id) : '';
+    if (!id || !signature || signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      throw new Error('Invalid challenge');
+    }
+    const row = this.getStmt.get(id) as ChallengeRow | undefined;
+    if (!row || row.domain !== domain) throw new Error('Invalid challenge');
+    if (row.outcome === 'expired') throw new Error('Challenge expired; request a new one');
+    if (row.outcome !== 'issued') throw new Error('Challenge was already used');
+
+    const now = Date.now();
+    const submittedAt = new Date(now).toISOString();
+    if (now > Date.parse(row.expires_at)) {
+      this.finishStmt.run('expired', submittedAt, null, null, id);
+      throw new Error('Challenge expired; request a new one');
+    }
+
+    const { puzzle, solution } = generateSudoku(row.seed, CHALLENGE_LEVELS[row.difficulty]?.blanks ?? CHALLENGE_LEVELS[0].blanks);
+    const correctSquares = scoreSudoku(puzzle, solution, submission.entries);
+    const elapsedSeconds = Math.max(0, Math.round((now - Date.parse(row.issued_at)) / 1000));
+    const reason = correctSquares < row.required_correct
+      ? 'too-few-correct'
+      : elapsedSeconds < row.required_correct * MIN_SECONDS_PER_SQUARE
+        ? 'too-fast'
+        : undefined;
+    const passed = !reason;
+    this.finishStmt.run(passed ? 'passed' : 'failed', submittedAt, correctSquares, elapsedSeconds, id);
+    if (reason === 'too-fast') {
+      logger.warn(`Rejected challenge ${id} for ${domain}: solved ${correctSquares} squares in ${elapsedSeconds}s`);
+    }
+
+    return {
+      challengeId: submission.challengeId,
+      passed,
+      correctSquares,
+      requiredCorrect: row.required_correct,
+      elapsedSeconds,
+      passSeconds: row.pass_seconds,
+      ...(reason ? { reason } : {})
+    };
+  }
+}
@@ -4,6 +4,7 @@ import type { WalletManager } from './wallet';
 import type { MarketService } from './market';
 import type { PaywallManager } from './paywall';
 import { logger } from '@shared/logger';
+import { colorFilterPriceMultiplier, quoteMetered, quotePack, type PaywallQuote } from '@shared/paywallPricing';
 import type { ClassifiedActivity } from './activityClassifier';
 
 export type EconomyRateGetters = {
@@ -20,22 +21,26 @@ const DEFAULT_RATES: EconomyRateGetters = {
   getDrainingRatePerMin: () => 1,
   getSpendIntervalSeconds: () => 15
 };
-const METERED_PREMIUM_MULTIPLIER = 3.5;
-const COLOR_FILTER_PRICE_MULTIPLIER: Record<GuardrailColorFilter, number> = {
-  'full-color': 1,
-  greyscale: 0.55,
-  redscale: 0.7
+
+/** Where the engine reads the time and schedules its earn/spend ticks; an activity replay supplies its own. */
+export type EconomyClock = {
+  now: () => number;
+  setInterval: (callback: () => void, ms: number) => unknown;
+  clearInterval: (handle: unknown) => void;
 };
 
-function getColorFilterPriceMultiplier(filter: GuardrailColorFilter): number {
-  return COLOR_FILTER_PRICE_MULTIPLIER[filter] ?? 1;
-}
+const SYSTEM_CLOCK: EconomyClock = {
+  now: () => Date.now(),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (handle) => clearInterval(handle as NodeJS.Timeout)
+};
 
-function packChainMultiplier(chainCount: number) {
-  if (chainCount <= 0) return 1;
-  if (chainCount === 1) return 1.35;
-  if (chainCount === 2) return 1.75;
-  return 2.35;
+/** Thrown when a purchase names a quote that no longer matches the current price. */
+export class QuoteMismatchError extends Error {
+  constructor(readonly quote: PaywallQuote, message = 'The price changed since it was quoted; review the new quote and try again') {
+    super(message);
+    this.name = 'QuoteMismatchError';
+  }
 }
 
 export type EconomyState = {
@@ -56,9 +61,10 @@ export class EconomyEngine extends EventEmitter {
     lastUpdated: null,
     neutralClockedIn: false
   };
-  private earnTimer: NodeJS.Timeout;
-  private spendTimer: NodeJS.Timeout;
-  private spendTimerIntervalMs: number;
+  private clock = SYSTEM_CLOCK;
+  private earnTimer: unknown = null;
+  private spendTimer: unknown = null;
+  private spendTimerIntervalMs = 0;
   private rates: EconomyRateGetters;
   private drainingRemainder = 0;
   private lastSpendTickAt: number | null = null;
@@ -72,9 +78,7 @@ export class EconomyEngine extends EventEmitter {
   ) {
     super();
     this.rates = rates ?? DEFAULT_RATES;
-    this.earnTimer = setInterval(() => this.tickEarn(), 60_000);
-    this.spendTimerIntervalMs = this.rates.getSpendIntervalSeconds() * 1000;
-    this.spendTimer = setInterval(() => this.tickSpend(), this.spendTimerIntervalMs);
+    this.startTimers();
 
     this.paywall.on('session-ended', (payload) => {
       this.emit('paywall-session-ended', payload);
@@ -96,9 +100,23 @@ export class EconomyEngine extends EventEmitter {
     });
   }
 
+  private startTimers() {
+    this.earnTimer = this.clock.setInterval(() => this.tickEarn(), 60_000);
+    this.spendTimerIntervalMs = this.rates.getSpendIntervalSeconds() * 1000;
+    this.spendTimer = this.clock.setInterval(() => this.tickSpend(), this.spendTimerIntervalMs);
+  }
+
   destroy() {
-    clearInterval(this.earnTimer);
-    clearInterval(this.spendTimer);
+    this.clock.clearInterval(this.earnTimer);
+    this.clock.clearInterval(this.spendTimer);
+  }
+
+  /** Moves earning, spending and staleness checks onto `clock`, e.g. a sped-up replay's virtual time. */
+  useClock(clock: EconomyClock) {
+    this.destroy();
+    this.clock = clock;
+    this.lastSpendTickAt = null;
+    this.startTimers();
   }
 
   setNeutralClockedIn(enabled: boolean) {
@@ -128,7 +146,7 @@ export class EconomyEngine extends EventEmitter {
       activeDomain: domain,
       activeApp: app,
       activeUrl: url,
-      lastUpdated: Date.now()
+      lastUpdated: this.clock.now()
     };
 
     if (!idle && category === 'frivolity') {
@@ -147,7 +165,7 @@ export class EconomyEngine extends EventEmitter {
     if (!this.state.activeCategory || this.state.activeCategory === 'idle') return;
     if (this.state.activeCategory === 'frivolity' || this.state.activeCategory === 'draining') return; // never earn while on spendy or draining domains
     if (this.state.activeCategory === 'neutral' && !this.state.neutralClockedIn) return;
-    if (!this.state.lastUpdated || Date.now() - this.state.lastUpdated > 60_000 * 5) {
+    if (!this.state.lastUpdated || this.clock.now() - this.state.lastUpdated > 60_000 * 5) {
       return; // stale
     }
 
@@ -158,8 +176,7 @@ export class EconomyEngine extends EventEmitter {
     if (identifier) {
       const marketRate = this.market.getRate(identifier);
       if (marketRate) {
-        const currentHour = new Date().getHours();
-        const modifier = marketRate.hourlyModifiers[currentHour] ?? 1;
+        const modifier = this.market.getModifier(marketRate, new Date(this.clock.now()));
         rate = marketRate.ratePerMin * modifier;
       }
     }
@@ -181,7 +198,7 @@ export class EconomyEngine extends EventEmitter {
 
   private tickSpend() {
     this.ensureSpendTimerInterval();
-    const now = Date.now();
+    const now = this.clock.now();
     const configuredIntervalSec = this.rates.getSpendIntervalSeconds();
     const elapsedSec = this.lastSpendTickAt == null ? configuredIntervalSec : Math.max(1, Math.floor((now - this.lastSpendTickAt) / 1000));
     this.lastSpendTickAt = now;
@@ -223,9 +240,9 @@ export class EconomyEngine extends EventEmitter {
   private ensureSpendTimerInterval() {
     const nextIntervalMs = Math.max(1_000, Math.round(this.rates.getSpendIntervalSeconds() * 1000));
     if (nextIntervalMs === this.spendTimerIntervalMs) return;
-    clearInterval(this.spendTimer);
+    this.clock.clearInterval(this.spendTimer);
     this.spendTimerIntervalMs = nextIntervalMs;
-    this.spendTimer = setInterval(() => this.tickSpend(), this.spendTimerIntervalMs);
+    this.spendTimer = this.clock.setInterval(() => this.tickSpend(), this.spendTimerIntervalMs);
   }
 
   private ensureRate(domain: string): MarketRate {
@@ -251,13 +268,47 @@ export class EconomyEngine extends EventEmitter {
     return this.state;
   }
 
-  startPayAsYouGo(domain: string, options?: { colorFilter?: GuardrailColorFilter }) {
+  private demandMultiplier(rate: MarketRate) {
+    if (!rate.dynamicPricing?.enabled) return 1;
+    return this.market.quoteDynamicRate(rate).multiplier;
+  }
+
+  quoteMetered(domain: string, options?: { colorFilter?: GuardrailColorFilter }) {
     const rate = this.ensureRate(domain);
-    const colorFilter = options?.colorFilter ?? 'full-color';
-    const colorMultiplier = getColorFilterPriceMultiplier(colorFilter);
-    const meteredMultiplier = METERED_PREMIUM_MULTIPLIER * colorMultiplier;
-    const effectiveRate = rate.ratePerMin * meteredMultiplier;
-    const session = this.paywall.startMetered(domain, effectiveRate, meteredMultiplier, colorFilter);
+    return quoteMetered({
+      domain,
+      rate,
+      colorFilter: options?.colorFilter,
+      hourlyModifier: this.market.getModifier(rate),
+      demandMultiplier: this.demandMultiplier(rate),
+      budgetMultiplier: this.paywall.getBudgetSurcharge(domain)
+    });
+  }
+
+  quotePack(domain: string, minutes: number, options?: { colorFilter?: GuardrailColorFilter }) {
+    const rate = this.ensureRate(domain);
+    const current = this.paywall.getSession(domain);
+    return quotePack({
+      domain,
+      minutes,
+      rate,
+      chainCount: current?.mode === 'pack' ? (current.packChainCount ?? 1) : 0,
+      colorFilter: options?.colorFilter,
+      demandMultiplier: this.demandMultiplier(rate),
+      budgetMultiplier: this.paywall.getBudgetSurcharge(domain)
+    });
+  }
+
+  /** Purchases must name the quote the user saw; either refusal carries the current quote. */
+  private requireQuote<T extends PaywallQuote>(quote: T, quoteId?: string) {
+    if (!quoteId) throw new QuoteMismatchError(quote, 'A quote id is required; review the quote and try again');
+    if (quoteId !== quote.quoteId) throw new QuoteMismatchError(quote);
+    return quote;
+  }
+
+  startPayAsYouGo(domain: string, options?: { colorFilter?: GuardrailColorFilter; quoteId?: string }) {
+    const quote = this.requireQuote(this.quoteMetered(domain, options), options?.quoteId);
+    const session = this.paywall.startMetered(domain, quote.ratePerMin, quote.meteredMultiplier, quote.colorFilter);
     return session;
   }
 
@@ -267,30 +318,23 @@ export class EconomyEngine extends EventEmitter {
     return session;
   }
 
-  buyPack(domain: string, minutes: number, options?: { colorFilter?: GuardrailColorFilter }) {
-    const safeMinutes = Math.max(1, Math.round(minutes));
-    const rate = this.ensureRate(domain);
-    const colorFilter = options?.colorFilter ?? 'full-color';
-    const colorMultiplier = getColorFilterPriceMultiplier(colorFilter);
-    const pack = rate.packs.find((p) => p.minutes === safeMinutes);
-    const basePrice = pack ? pack.price : Math.max(1, Math.round(safeMinutes * rate.ratePerMin));
-    const current = this.paywall.getSession(domain);
-    const chainCount = current?.mode === 'pack' ? (current.packChainCount ?? 1) : 0;
-    const multiplier = packChainMultiplier(chainCount);
-    const effectiveRatePerMin = rate.ratePerMin * colorMultiplier;
-    const price = Math.max(1, Math.round(basePrice * multiplier * colorMultiplier));
-    if (!pack) {
-      logger.info(`Creating ad-hoc pack for ${domain} (${safeMinutes} minutes @ ${price} coins, chain x${multiplier})`);
+  /** Charges exactly what `quotePack` returns, and refuses if `quoteId` is no longer the price the user saw. */
+  buyPack(domain: string, minutes: number, options?: { colorFilter?: GuardrailColorFilter; quoteId?: string }) {
+    const quote = this.requireQuote(this.quotePack(domain, minutes, options), options?.quoteId);
+    if (!this.ensureRate(domain).packs.some((pack) => pack.minutes === quote.minutes)) {
+      logger.info(`Creating ad-hoc pack for ${domain} (${quote.minutes} minutes @ ${quote.price} coins)`);
     }
-    return this.paywall.buyPack(domain, safeMinutes, price, { colorFilter, effectiveRatePerMin });
+    return this.paywall.buyPack(domain, quote.minutes, quote.price, {
+      colorFilter: quote.colorFilter,
+      effectiveRatePerMin: quote.effectiveRatePerMin
+    });
   }
 
   grantStudyPack(domain: string, minutes: number, options?: { colorFilter?: GuardrailColorFilter }) {
     const safeMinutes = Math.max(1, Math.round(minutes));
     const rate = this.ensureRate(domain);
     const colorFilter = options?.colorFilter ?? 'full-color';
-    const colorMultiplier = getColorFilterPriceMultiplier(colorFilter);
-    const effectiveRatePerMin = rate.ratePerMin * colorMultiplier;
+    const effectiveRatePerMin = rate.ratePerMin * colorFilterPriceMultiplier(colorFilter);
     return this.paywall.grantPack(domain, safeMinutes, { colorFilter, effectiveRatePerMin });
   }
 
@@ -25,12 +25,12 @@ export class EmergencyService {
 
   start(domain: string, justification: string, options?: { url?: string }) {
     const policyId = this.settings.getEmergencyPolicy();
-    const policy = getEmergencyPolicyConfig(policyId);
+    const now = Date.now();
+    const policy = getEmergencyPolicyConfig(policyId, this.settings.getCustomEmergencyPolicies(), { domain, at: now });
     if (policy.id === 'off') {
       throw new Error('Emergency access is disabled in Settings.');
     }
 
-    const now = Date.now();
     const today = dayKeyForMs(now);
     const usage = usageForDay(this.settings.getEmergencyUsageState(), today);
     const decision = evaluateEmergencyStart(now, usage, policy);
@@ -61,9 +61,11 @@ export class EmergencyService {
       allowedUrl = normalizedUrl;
     }
 
-    logger.info('Starting emergency session', { domain, policy: policy.id, allowedUrl });
+    const durationSeconds = policy.autoExpire && policy.durationSeconds > 0 ? policy.durationSeconds : undefined;
+    logger.info('Starting emergency session', { domain, policy: policy.id, allowedUrl, durationSeconds });
     const session = this.paywall.startEmergency(domain, justification, {
-      allowedUrl: allowedUrl ?? undefined
+      allowedUrl: allowedUrl ?? undefined,
+      durationSeconds
     });
     this.consumption.record({
       kind: 'emergency-session',
@@ -72,7 +74,7 @@ export class EmergencyService {
       domain,
       meta: {
         policy: policy.id,
-        durationSeconds: null,
+        durationSeconds: durationSeconds ?? null,
         justification
       }
     });
@@ -1,12 +1,17 @@
-import type { EmergencyPolicyId } from '@shared/types';
+import type { CustomEmergencyPolicy, EmergencyPolicyId } from '@shared/types';
 import { normalizeOriginPathUrl } from '@shared/domainCanonicalization';
 import {
   getEmergencyPolicyConfig as getSharedEmergencyPolicyConfig,
-  type EmergencyPolicyConfig
+  type EmergencyPolicyConfig,
+  type EmergencyPolicyContext
 } from '@shared/emergencyPolicy';
 
-export function getEmergencyPolicyConfig(id: EmergencyPolicyId): EmergencyPolicyConfig {
-  return getSharedEmergencyPolicyConfig(id);
+export function getEmergencyPolicyConfig(
+  id: EmergencyPolicyId,
+  customPolicies: CustomEmergencyPolicy[] = [],
+  context: EmergencyPolicyContext = {}
+): EmergencyPolicyConfig {
+  return getSharedEmergencyPolicyConfig(id, customPolicies, context);
 }
 
 export function normaliseBaseUrl(url: string): string | null {
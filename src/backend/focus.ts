@@ -2,11 +2,29 @@ import { EventEmitter } from 'node:events';
 import type { Statement } from 'better-sqlite3';
 import type { Database } from './storage';
 import type { WalletManager } from './wallet';
-import type { FocusSession } from '@shared/types';
+import type { ActivityCategory, FocusSession, FocusVerification } from '@shared/types';
+import { overlapMs } from './activityTime';
 
-const FOCUS_BASE_RATE_PER_MIN = 4; // base payout per minute
+const FOCUS_BASE_RATE_PER_MIN = 4; // base payout per productive minute
 const FOCUS_COMPLETION_MULTIPLIER = 1.2;
 
+/** How much a second of each category counts towards the payout. */
+const FOCUS_CATEGORY_WEIGHTS: Record<ActivityCategory, number> = {
+  productive: 1,
+  neutral: 0.5,
+  frivolity: -0.25,
+  draining: -0.25,
+  emergency: 0
+};
+
+type FocusActivityRow = {
+  started_at: string;
+  ended_at: string | null;
+  category: ActivityCategory | null;
+  seconds_active: number | null;
+  idle_seconds: number | null;
+};
+
 type FocusSessionState = {
   id: number;
   startedAt: Date;
@@ -19,6 +37,7 @@ export class FocusService extends EventEmitter {
   private db = this.database.connection;
   private insertStmt: Statement;
   private updateStmt: Statement;
+  private activityStmt: Statement;
   private current: FocusSessionState | null = null;
 
   constructor(private database: Database, private wallet: WalletManager) {
@@ -29,6 +48,10 @@ export class FocusService extends EventEmitter {
     this.updateStmt = this.db.prepare(
       'UPDATE focus_sessions SET ended_at = ?, completed = ?, multiplier = ? WHERE id = ?'
     );
+    this.activityStmt = this.db.prepare(
+      `SELECT started_at, ended_at, category, seconds_active, idle_seconds
+       FROM activities WHERE started_at <= ? AND (ended_at IS NULL OR ended_at >= ?)`
+    );
   }
 
   startSession(durationSec: number): FocusSession {
@@ -83,18 +106,27 @@ export class FocusService extends EventEmitter {
     clearInterval(this.current.timer);
 
     const endedAt = new Date();
-    const multiplier = completed ? FOCUS_COMPLETION_MULTIPLIER : 1;
+    const verification = this.verify(this.current.startedAt.getTime(), endedAt.getTime(), completed);
+    // Relative to a fully productive run of the planned length, so payout = planned minutes × rate × multiplier.
+    const multiplier = Math.round(((verification.creditedSeconds * verification.completionBonus) / this.current.durationSec) * 1000) / 1000;
     this.updateStmt.run(endedAt.toISOString(), completed ? 1 : 0, multiplier, this.current.id);
 
-    const baseReward = Math.round((this.current.durationSec / 60) * FOCUS_BASE_RATE_PER_MIN);
-    const payout = completed ? Math.round(baseReward * multiplier) : Math.round(baseReward / 2);
-    if (payout > 0) {
-      this.wallet.earn(payout, {
-        type: 'focus-session',
-        completed,
-        durationSec: this.current.durationSec,
-        multiplier
-      });
+    const meta = {
+      type: 'focus-session',
+      completed,
+      durationSec: this.current.durationSec,
+      multiplier,
+      verification
+    };
+    if (verification.payout > 0) {
+      this.wallet.earn(verification.payout, meta);
+    } else if (verification.payout < 0) {
+      // Penalties never push the wallet below zero.
+      const penalty = Math.min(-verification.payout, this.wallet.getSnapshot().balance);
+      verification.payout = -penalty;
+      if (penalty > 0) {
+        this.wallet.adjust(-penalty, meta);
+      }
     }
 
     const session: FocusSession = {
@@ -103,7 +135,8 @@ export class FocusService extends EventEmitter {
       endedAt: endedAt.toISOString(),
       durationSec: this.current.durationSec,
       completed,
-      multiplier
+      multiplier,
+      verification
     };
 
     this.emit('stop', session);
@@ -112,6 +145,51 @@ export class FocusService extends EventEmitter {
     return session;
   }
 
+  /**
+   * Weighs the activity recorded between `startMs` and `endMs` by category.
+   * Rows straddling the window are clipped to their overlapping share, and
+   * overlapping sources are scaled down so the total never exceeds the window.
+   */
+  private verify(startMs: number, endMs: number, completed: boolean): FocusVerification {
+    const windowSeconds = Math.max(0, (endMs - startMs) / 1000);
+    const rows = this.activityStmt.all(new Date(endMs).toISOString(), new Date(startMs).toISOString()) as FocusActivityRow[];
+    const active = new Map<ActivityCategory, number>();
+    let idle = 0;
+    for (const row of rows) {
+      const rowStartMs = Date.parse(row.started_at);
+      const activeSeconds = Math.max(0, row.seconds_active ?? 0);
+      const idleSeconds = Math.max(0, row.idle_seconds ?? 0);
+      if (!Number.isFinite(rowStartMs) || activeSeconds + idleSeconds <= 0) continue;
+      const parsedEnd = row.ended_at ? Date.parse(row.ended_at) : NaN;
+      const rowEndMs = Number.isFinite(parsedEnd) ? parsedEnd : rowStartMs + (activeSeconds + idleSeconds) * 1000;
+      const clipRatio = Math.min(1, overlapMs(rowStartMs, rowEndMs, startMs, endMs) / Math.max(1, rowEndMs - rowStartMs));
+      if (clipRatio <= 0) continue;
+      const category = row.category ?? 'neutral';
+      active.set(category, (active.get(category) ?? 0) + activeSeconds * clipRatio);
+      idle += idleSeconds * clipRatio;
+    }
+
+    const tracked = [...active.values()].reduce((sum, seconds) => sum + seconds, 0) + idle;
+    const scale = tracked > windowSeconds && tracked > 0 ? windowSeconds / tracked : 1;
+    const seconds = (category: ActivityCategory) => (active.get(category) ?? 0) * scale;
+    const creditedSeconds = (Object.keys(FOCUS_CATEGORY_WEIGHTS) as ActivityCategory[]).reduce(
+      (sum, category) => sum + seconds(category) * FOCUS_CATEGORY_WEIGHTS[category],
+      0
+    );
+    // The completion bonus rewards finishing; it never amplifies a penalty.
+    const completionBonus = completed && creditedSeconds > 0 ? FOCUS_COMPLETION_MULTIPLIER : 1;
+    return {
+      productiveSeconds: Math.round(seconds('productive')),
+      neutralSeconds: Math.round(seconds('neutral')),
+      frivolitySeconds: Math.round(seconds('frivolity') + seconds('draining') + seconds('emergency')),
+      idleSeconds: Math.round(idle * scale),
+      untrackedSeconds: Math.round(Math.max(0, windowSeconds - tracked * scale)),
+      creditedSeconds: Math.round(creditedSeconds),
+      completionBonus,
+      payout: Math.round((creditedSeconds / 60) * FOCUS_BASE_RATE_PER_MIN * completionBonus)
+    };
+  }
+
   getCurrent() {
     return this.current;
   }
@@ -1,9 +1,12 @@
 import crypto from 'node:crypto';
 import { EventEmitter } from 'node:events';
+import type { Statement } from 'better-sqlite3';
 import type { AnalyticsService } from './analytics';
 import type { SettingsService } from './settings';
-import type { FriendEntry, FriendFeedSummary, FriendIdentity } from '@shared/types';
+import type { Database } from './storage';
+import type { FriendEntry, FriendFeedSummary, FriendHistoryPoint, FriendIdentity } from '@shared/types';
 import { logger } from '@shared/logger';
+import { RELAY_SUMMARY_VERSION, decryptSummary, deriveRelayReadToken, encryptSummary, type EncryptedSummary } from './relayCrypto';
 
 function randomToken(bytes = 24) {
   return crypto.randomBytes(bytes).toString('base64url');
@@ -33,14 +36,37 @@ function normaliseRelayUrl(raw: string) {
   return url.toString().replace(/\/+$/, '');
 }
 
+type RelaySummaryEnvelope = EncryptedSummary & { date: string; updatedAt: string };
+
+type RelayErrorBody = { error?: unknown };
+
+/** The relay explains failures as `{ error }`; anything else falls back to `action` and the status. */
+async function relayError(res: Response, action: string) {
+  const body = (await res.json().catch(() => null)) as RelayErrorBody | null;
+  return new Error(body?.error ? String(body.error) : `${action} (${res.status})`);
+}
+
+const HISTORY_DAYS = 30;
+
 export class FriendsService extends EventEmitter {
   private publishTimer: NodeJS.Timeout | null = null;
+  private db = this.database.connection;
+  private upsertHistoryStmt: Statement;
+  private historyStmt: Statement;
 
   constructor(
     private settings: SettingsService,
-    private analytics: AnalyticsService
+    private analytics: AnalyticsService,
+    private database: Database
   ) {
     super();
+    this.upsertHistoryStmt = this.db.prepare(
+      'INSERT INTO friend_summary_history(user_id, date, updated_at, payload_json, fetched_at) VALUES (?, ?, ?, ?, ?) ' +
+      'ON CONFLICT(user_id, date) DO UPDATE SET updated_at = excluded.updated_at, payload_json = excluded.payload_json, fetched_at = excluded.fetched_at'
+    );
+    this.historyStmt = this.db.prepare(
+      'SELECT date, updated_at as updatedAt, payload_json as payloadJson FROM friend_summary_history WHERE user_id = ? AND date >= ? ORDER BY date ASC'
+    );
   }
 
   getIdentity(): FriendIdentity | null {
@@ -101,8 +127,12 @@ export class FriendsService extends EventEmitter {
   }
 
   removeFriend(id: string) {
+    const removed = this.settings.listFriends().find((f) => f.id === id);
     const next = this.settings.listFriends().filter((f) => f.id !== id);
     this.settings.setFriendsList(next);
+    if (removed && !next.some((f) => f.userId === removed.userId)) {
+      this.db.prepare('DELETE FROM friend_summary_history WHERE user_id = ?').run(removed.userId);
+    }
   }
 
   private ensurePublisher() {
@@ -127,17 +157,29 @@ export class FriendsService extends EventEmitter {
     const res = await fetch(url, {
       method: 'POST',
       headers: { 'content-type': 'application/json' },
-      body: JSON.stringify({ userId: ident.userId, publishKey: ident.publishKey, readKey: ident.readKey })
+      // The relay only learns a token derived from the read key, never the key that decrypts summaries.
+      body: JSON.stringify({
+        userId: ident.userId,
+        publishKey: ident.publishKey,
+        readKey: deriveRelayReadToken(ident.readKey, ident.userId)
+      })
     });
     if (!res.ok) {
-      const body = await res.json().catch(() => null);
-      throw new Error(body?.error ? String(body.error) : `Register failed (${res.status})`);
+      throw await relayError(res, 'Register failed');
+    }
+    if (ident.relayVersion !== RELAY_SUMMARY_VERSION) {
+      this.settings.setFriendsIdentity({ ...ident, relayVersion: RELAY_SUMMARY_VERSION });
     }
   }
 
   async publishNow() {
-    const ident = this.settings.getFriendsIdentity();
+    let ident = this.settings.getFriendsIdentity();
     if (!ident) throw new Error('Friends Feed not enabled');
+    if (ident.relayVersion !== RELAY_SUMMARY_VERSION) {
+      // Identities created before v2 registered the raw read key; swap it for the derived token.
+      await this.register(ident);
+      ident = { ...ident, relayVersion: RELAY_SUMMARY_VERSION };
+    }
 
     // We publish rolling 1-day aggregates for v0.
     const overview = this.analytics.getOverview(1);
@@ -159,11 +201,10 @@ export class FriendsService extends EventEmitter {
         'content-type': 'application/json',
         authorization: `Bearer ${ident.publishKey}`
       },
-      body: JSON.stringify({ date, payload })
+      body: JSON.stringify({ date, ...encryptSummary(ident.readKey, ident.userId, date, payload) })
     });
     if (!res.ok) {
-      const body = await res.json().catch(() => null);
-      throw new Error(body?.error ? String(body.error) : `Publish failed (${res.status})`);
+      throw await relayError(res, 'Publish failed');
     }
 
     const publishedAt = new Date().toISOString();
@@ -183,22 +224,24 @@ export class FriendsService extends EventEmitter {
     const updates = await Promise.allSettled(
       friends.map(async (friend) => {
         const url = `${ident.relayUrl}/v1/u/${encodeURIComponent(friend.userId)}/latest`;
-        const res = await fetch(url, { headers: { authorization: `Bearer ${friend.readKey}` } });
+        const res = await fetch(url, {
+          headers: { authorization: `Bearer ${deriveRelayReadToken(friend.readKey, friend.userId)}` }
+        });
         if (!res.ok) {
-          const body = await res.json().catch(() => null);
-          throw new Error(body?.error ? String(body.error) : `Fetch failed (${res.status})`);
+          throw await relayError(res, 'Fetch failed');
         }
-        const body = await res.json().catch(() => null) as any;
+        const body = await res.json().catch(() => null) as { summary?: RelaySummaryEnvelope | null } | null;
         if (!body?.summary) {
           cache[friend.userId] = null;
           return;
         }
+        const date = String(body.summary.date);
         const summary: FriendFeedSummary = {
           userId: friend.userId,
           name: friend.name,
-          date: String(body.summary.date),
+          date,
           updatedAt: String(body.summary.updatedAt),
-          payload: body.summary.payload
+          payload: decryptSummary<FriendFeedSummary['payload']>(friend.readKey, friend.userId, date, body.summary)
         };
         cache[friend.userId] = summary;
       })
@@ -213,4 +256,59 @@ export class FriendsService extends EventEmitter {
     this.emit('updated', cache);
     return cache;
   }
+
+  /**
+   * Pulls a friend's last `days` of summaries from the relay range endpoint,
+   * following pagination, and stores the decrypted payloads in the local cache.
+   */
+  async syncHistory(userId: string, days = HISTORY_DAYS) {
+    const ident = this.settings.getFriendsIdentity();
+    if (!ident) throw new Error('Friends Feed not enabled');
+    const friend = this.settings.listFriends().find((f) => f.userId === userId);
+    if (!friend) throw new Error('Unknown friend');
+
+    const to = localDateString();
+    const from = localDateString(new Date(Date.now() - (Math.max(1, days) - 1) * 86_400_000));
+    const token = deriveRelayReadToken(friend.readKey, friend.userId);
+    const fetchedAt = new Date().toISOString();
+    let cursor: string | null = null;
+    let stored = 0;
+    do {
+      const params = new URLSearchParams({ from, to });
+      if (cursor) params.set('cursor', cursor);
+      const res = await fetch(`${ident.relayUrl}/v1/u/${encodeURIComponent(friend.userId)}/summaries?${params.toString()}`, {
+        headers: { authorization: `Bearer ${token}` }
+      });
+      if (!res.ok) {
+        throw await relayError(res, 'History fetch failed');
+      }
+      const body = await res.json() as { summaries: RelaySummaryEnvelope[]; nextCursor: string | null };
+      this.db.transaction(() => {
+        for (const summary of body.summaries) {
+          const payload = decryptSummary<FriendFeedSummary['payload']>(friend.readKey, friend.userId, summary.date, summary);
+          this.upsertHistoryStmt.run(friend.userId, summary.date, summary.updatedAt, JSON.stringify(payload), fetchedAt);
+          stored += 1;
+        }
+      })();
+      cursor = body.nextCursor;
+    } while (cursor);
+
+    logger.info('Friends history synced', friend.userId, stored);
+    return this.getHistory(userId, days);
+  }
+
+  getHistory(userId: string, days = HISTORY_DAYS): FriendHistoryPoint[] {
+    const since = localDateString(new Date(Date.now() - (Math.max(1, days) - 1) * 86_400_000));
+    const rows = this.historyStmt.all(userId, since) as Array<{ date: string; updatedAt: string; payloadJson: string }>;
+    return rows.map((row) => {
+      const payload = JSON.parse(row.payloadJson) as Partial<FriendFeedSummary['payload']>;
+      return {
+        date: row.date,
+        updatedAt: row.updatedAt,
+        deepWorkSeconds: payload.deepWorkSeconds ?? 0,
+        productivityScore: payload.productivityScore ?? 0,
+        totalActiveHours: payload.totalActiveHours ?? 0
+      };
+    });
+  }
 }
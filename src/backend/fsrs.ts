@@ -0,0 +1,257 @@
+/**
+ * FSRS (Free Spaced Repetition Scheduler, v5 formulas).
+ *
+ * Each card carries a memory state: stability (days until recall probability
+ * drops to 90%) and difficulty (1–10). A review updates both from the rating
+ * and the recall probability at the time of review, and the next interval is
+ * the time until recall probability falls to the deck's desired retention.
+ */
+
+export type FsrsRating = 1 | 2 | 3 | 4;
+
+export type FsrsState = {
+  stability: number;
+  difficulty: number;
+};
+
+export type FsrsParameters = number[];
+
+/** One card's review history, oldest first, as replayed by the optimizer. */
+export type FsrsReviewHistory = Array<{
+  reviewedAtMs: number;
+  rating: FsrsRating;
+  /** SM-2 state before the first replayed review, for cards imported mid-schedule. */
+  priorIntervalDays?: number | null;
+  priorEaseFactor?: number | null;
+}>;
+
+export type FsrsOptimizeResult = {
+  parameters: FsrsParameters;
+  reviewsUsed: number;
+  logLossBefore: number;
+  logLossAfter: number;
+};
+
+export const DEFAULT_FSRS_PARAMETERS: FsrsParameters = [
+  0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575, 0.1192, 1.01925, 1.9395, 0.11, 0.29605,
+  2.2698, 0.2315, 2.9898, 0.51655, 0.6621
+];
+
+// Keeps the optimizer inside ranges where the formulas stay well behaved.
+const PARAMETER_BOUNDS: Array<[number, number]> = [
+  [0.01, 100],
+  [0.01, 100],
+  [0.01, 100],
+  [0.01, 100],
+  [1, 10],
+  [0.001, 4],
+  [0.001, 4],
+  [0.001, 0.75],
+  [0, 4.5],
+  [0, 0.8],
+  [0.001, 3.5],
+  [0.001, 5],
+  [0.001, 0.25],
+  [0.001, 0.9],
+  [0, 4],
+  [0, 1],
+  [1, 6],
+  [0, 2],
+  [0, 2]
+];
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_STABILITY = 0.01;
+export const MAX_INTERVAL_DAYS = 36500;
+export const MIN_OPTIMIZE_REVIEWS = 50;
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+function clampDifficulty(value: number) {
+  return clamp(value, 1, 10);
+}
+
+export function normalizeFsrsParameters(raw: unknown): FsrsParameters {
+  if (!Array.isArray(raw) || raw.length !== DEFAULT_FSRS_PARAMETERS.length) return [...DEFAULT_FSRS_PARAMETERS];
+  return raw.map((value, index) => {
+    const parsed = Number(value);
+    const [min, max] = PARAMETER_BOUNDS[index];
+    return Number.isFinite(parsed) ? clamp(parsed, min, max) : DEFAULT_FSRS_PARAMETERS[index];
+  });
+}
+
+export function fsrsRetrievability(elapsedDays: number, stability: number) {
+  return Math.pow(1 + (FACTOR * Math.max(0, elapsedDays)) / Math.max(MIN_STABILITY, stability), DECAY);
+}
+
+/** Days until recall probability falls to `desiredRetention`. */
+export function fsrsInterval(stability: number, desiredRetention: number) {
+  const retention = clamp(desiredRetention, 0.7, 0.99);
+  const days = (stability / FACTOR) * (Math.pow(retention, 1 / DECAY) - 1);
+  return clamp(Math.round(days), 1, MAX_INTERVAL_DAYS);
+}
+
+function initialDifficulty(w: FsrsParameters, rating: FsrsRating) {
+  return w[4] - Math.exp(w[5] * (rating - 1)) + 1;
+}
+
+export function fsrsInitialState(w: FsrsParameters, rating: FsrsRating): FsrsState {
+  return {
+    stability: Math.max(MIN_STABILITY, w[rating - 1]),
+    difficulty: clampDifficulty(initialDifficulty(w, rating))
+  };
+}
+
+/**
+ * Seeds a memory state for a card that was scheduled by SM-2 (or imported
+ * from Anki) before its deck switched to FSRS: the current interval stands in
+ * for stability and the ease factor maps onto difficulty.
+ */
+export function fsrsStateFromSm2(intervalDays: number, easeFactor: number): FsrsState {
+  const ease = clamp(Number.isFinite(easeFactor) ? easeFactor : 2.5, 1.3, 3.5);
+  return {
+    stability: Math.max(MIN_STABILITY, intervalDays),
+    difficulty: clampDifficulty(10 - ((ease - 1.3) / (3.5 - 1.3)) * 9)
+  };
+}
+
+function nextDifficulty(w: FsrsParameters, difficulty: number, rating: FsrsRating) {
+  const delta = -w[6] * (rating - 3);
+  const damped = difficulty + (delta * (10 - difficulty)) / 9;
+  return clampDifficulty(w[7] * initialDifficulty(w, 4) + (1 - w[7]) * damped);
+}
+
+function recallStability(w: FsrsParameters, state: FsrsState, retrievability: number, rating: FsrsRating) {
+  const hardPenalty = rating === 2 ? w[15] : 1;
+  const easyBonus = rating === 4 ? w[16] : 1;
+  return (
+    state.stability *
+    (1 +
+      Math.exp(w[8]) *
+        (11 - state.difficulty) *
+        Math.pow(state.stability, -w[9]) *
+        (Math.exp(w[10] * (1 - retrievability)) - 1) *
+        hardPenalty *
+        easyBonus)
+  );
+}
+
+function forgetStability(w: FsrsParameters, state: FsrsState, retrievability: number) {
+  const next =
+    w[11] *
+    Math.pow(state.difficulty, -w[12]) *
+    (Math.pow(state.stability + 1, w[13]) - 1) *
+    Math.exp(w[14] * (1 - retrievability));
+  return Math.min(next, state.stability);
+}
+
+function shortTermStability(w: FsrsParameters, state: FsrsState, rating: FsrsRating) {
+  return state.stability * Math.exp(w[17] * (rating - 3 + w[18]));
+}
+
+/** Memory state after reviewing a card `elapsedDays` after its previous review. */
+export function fsrsNextState(w: FsrsParameters, state: FsrsState, elapsedDays: number, rating: FsrsRating): FsrsState {
+  let stability: number;
+  if (elapsedDays < 1) {
+    stability = shortTermStability(w, state, rating);
+  } else {
+    const retrievability = fsrsRetrievability(elapsedDays, state.stability);
+    stability = rating === 1 ? forgetStability(w, state, retrievability) : recallStability(w, state, retrievability, rating);
+  }
+  return {
+    stability: clamp(stability, MIN_STABILITY, MAX_INTERVAL_DAYS),
+    difficulty: nextDifficulty(w, state.difficulty, rating)
+  };
+}
+
+/**
+ * Mean log loss of recall predictions over the histories. Same-day repeats
+ * update the state but are not scored, since FSRS does not predict recall
+ * within a day.
+ */
+function logLoss(w: FsrsParameters, histories: FsrsReviewHistory[]) {
+  let loss = 0;
+  let count = 0;
+  for (const history of histories) {
+    let state: FsrsState | null = null;
+    let previousMs = 0;
+    for (const review of history) {
+      if (!state) {
+        if (!review.priorIntervalDays || review.priorIntervalDays <= 0) {
+          state = fsrsInitialState(w, review.rating);
+          previousMs = review.reviewedAtMs;
+          continue;
+        }
+        // Imported mid-schedule: assume the previous review was one interval ago.
+        state = fsrsStateFromSm2(review.priorIntervalDays, review.priorEaseFactor ?? 2.5);
+        previousMs = review.reviewedAtMs - review.priorIntervalDays * DAY_MS;
+      }
+      const elapsedDays = (review.reviewedAtMs - previousMs) / DAY_MS;
+      if (elapsedDays >= 1) {
+        const predicted = clamp(fsrsRetrievability(elapsedDays, state.stability), 1e-4, 1 - 1e-4);
+        loss -= review.rating === 1 ? Math.log(1 - predicted) : Math.log(predicted);
+        count += 1;
+      }
+      state = fsrsNextState(w, state, elapsedDays, review.rating);
+      previousMs = review.reviewedAtMs;
+    }
+  }
+  return { loss: count ? loss / count : 0, count };
+}
+
+export function countFsrsTrainingReviews(histories: FsrsReviewHistory[]) {
+  return logLoss(DEFAULT_FSRS_PARAMETERS, histories).count;
+}
+
+/**
+ * Fits parameters to the user's own history by coordinate search on log loss,
+ * starting from `initial`. Deterministic and dependency free; a few thousand
+ * reviews fit in well under a second.
+ */
+export function optimizeFsrsParameters(
+  histories: FsrsReviewHistory[],
+  initial: FsrsParameters = DEFAULT_FSRS_PARAMETERS,
+  maxPasses = 40
+): FsrsOptimizeResult {
+  let best = normalizeFsrsParameters(initial);
+  const start = logLoss(best, histories);
+  if (start.count < MIN_OPTIMIZE_REVIEWS) {
+    throw new Error(`Need at least ${MIN_OPTIMIZE_REVIEWS} spaced reviews to optimize FSRS (have ${start.count}).`);
+  }
+  let bestLoss = start.loss;
+  const steps = PARAMETER_BOUNDS.map(([min, max]) => (max - min) / 20);
+
+  for (let pass = 0; pass < maxPasses; pass += 1) {
+    let improved = false;
+    for (let index = 0; index < best.length; index += 1) {
+      const [min, max] = PARAMETER_BOUNDS[index];
+      for (const direction of [1, -1]) {
+        const candidate = [...best];
+        candidate[index] = clamp(best[index] + direction * steps[index], min, max);
+        if (candidate[index] === best[index]) continue;
+        const { loss } = logLoss(candidate, histories);
+        if (loss < bestLoss - 1e-9) {
+          best = candidate;
+          bestLoss = loss;
+          improved = true;
+          break;
+        }
+      }
+    }
+    if (!improved) {
+      for (let index = 0; index < steps.length; index += 1) steps[index] /= 2;
+      if (steps.every((step, index) => step < (PARAMETER_BOUNDS[index][1] - PARAMETER_BOUNDS[index][0]) / 5000)) break;
+    }
+  }
+
+  return {
+    parameters: best.map((value) => Number(value.toFixed(5))),
+    reviewsUsed: start.count,
+    logLossBefore: Number(start.loss.toFixed(5)),
+    logLossAfter: Number(bestLoss.toFixed(5))
+  };
+}
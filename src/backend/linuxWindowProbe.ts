@@ -0,0 +1,382 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { logger } from '@shared/logger';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Runs a command and resolves with its stdout. Injected so the probe can be
+ * exercised against recorded command output instead of a live desktop.
+ */
+export type LinuxCommandRunner = (command: string, args: string[], timeoutMs?: number) => Promise<string>;
+
+export type LinuxSessionKind = 'x11' | 'sway' | 'gnome' | 'kde' | 'unknown';
+
+export type LinuxActiveWindow = {
+  appName: string;
+  windowTitle: string;
+  idleSeconds: number;
+  bundleId?: string;
+};
+
+export type LinuxWindowProbe = {
+  session: LinuxSessionKind;
+  getActiveWindow(): Promise<LinuxActiveWindow | null>;
+  getIdleSeconds(): Promise<number>;
+  closeActiveTab(appName: string): Promise<void>;
+};
+
+export type LinuxWindowProbeOptions = {
+  run?: LinuxCommandRunner;
+  env?: NodeJS.ProcessEnv;
+};
+
+const DEFAULT_TIMEOUT_MS = 1000;
+const LOCKED_IDLE_SECONDS = 60 * 60;
+
+const defaultRunner: LinuxCommandRunner = async (command, args, timeoutMs = DEFAULT_TIMEOUT_MS) => {
+  const { stdout } = await execFileAsync(command, args, { timeout: timeoutMs });
+  return stdout;
+};
+
+// WM_CLASS / app_id values mapped to the display names the macOS watcher
+// reports, so browser detection downstream keeps working unchanged.
+const LINUX_APP_NAMES: Record<string, string> = {
+  'google-chrome': 'Google Chrome',
+  'google-chrome-beta': 'Google Chrome',
+  'google-chrome-unstable': 'Google Chrome',
+  chromium: 'Chromium',
+  'chromium-browser': 'Chromium',
+  'brave-browser': 'Brave Browser',
+  'microsoft-edge': 'Microsoft Edge',
+  'microsoft-edge-beta': 'Microsoft Edge',
+  firefox: 'Firefox',
+  'firefox-esr': 'Firefox',
+  'org.mozilla.firefox': 'Firefox',
+  navigator: 'Firefox',
+  librewolf: 'LibreWolf',
+  vivaldi: 'Vivaldi',
+  'vivaldi-stable': 'Vivaldi',
+  code: 'Visual Studio Code',
+  'code-oss': 'Visual Studio Code',
+  'org.gnome.terminal': 'Terminal',
+  'gnome-terminal-server': 'Terminal',
+  'org.kde.konsole': 'Konsole',
+  konsole: 'Konsole'
+};
+
+const LINUX_BROWSER_HINTS = ['chrome', 'chromium', 'firefox', 'brave', 'edge', 'vivaldi', 'librewolf'];
+
+/** Resolves a friendly application name from a WM_CLASS/app_id value. */
+export function normaliseLinuxAppName(raw: string | null | undefined): string {
+  const value = (raw ?? '').trim();
+  if (!value) return '';
+  return LINUX_APP_NAMES[value.toLowerCase()] ?? value;
+}
+
+export function isLinuxBrowser(appName: string) {
+  const lower = appName.toLowerCase();
+  return LINUX_BROWSER_HINTS.some((hint) => lower.includes(hint));
+}
+
+export function detectLinuxSession(env: NodeJS.ProcessEnv): LinuxSessionKind {
+  const desktop = (env.XDG_CURRENT_DESKTOP ?? env.DESKTOP_SESSION ?? '').toLowerCase();
+  const sessionType = (env.XDG_SESSION_TYPE ?? '').toLowerCase();
+  const wayland = sessionType === 'wayland' || Boolean(env.WAYLAND_DISPLAY);
+
+  if (env.SWAYSOCK || desktop.includes('sway')) return 'sway';
+  if (wayland && desktop.includes('gnome')) return 'gnome';
+  if (wayland && (desktop.includes('kde') || desktop.includes('plasma'))) return 'kde';
+  if (env.DISPLAY) return 'x11';
+  return 'unknown';
+}
+
+// --- Output parsers (pure, covered by recorded fixtures) ---
+
+/** `xprop -root _NET_ACTIVE_WINDOW` → `_NET_ACTIVE_WINDOW(WINDOW): window id # 0x3a00007` */
+export function parseXpropActiveWindowId(stdout: string): string | null {
+  const match = stdout.match(/window id #\s*(0x[0-9a-f]+)/i);
+  if (!match) return null;
+  return /^0x0+$/i.test(match[1]) ? null : match[1];
+}
+
+/** Parses `xprop -id <id> WM_CLASS _NET_WM_NAME WM_NAME _NET_WM_PID`. */
+export function parseXpropWindowProperties(stdout: string) {
+  const readString = (name: string) => {
+    const line = stdout.split('\n').find((entry) => entry.startsWith(`${name}(`));
+    if (!line || line.includes('not found')) return null;
+    const values = [...line.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map((m) => m[1].replace(/\\(.)/g, '$1'));
+    return values.length ? values : null;
+  };
+  const wmClass = readString('WM_CLASS');
+  const title = readString('_NET_WM_NAME') ?? readString('WM_NAME');
+  const pidLine = stdout.split('\n').find((entry) => entry.startsWith('_NET_WM_PID('));
+  const pidMatch = pidLine?.match(/=\s*(\d+)/);
+  return {
+    // WM_CLASS is "instance", "class"; the class part is the stable one.
+    wmClass: wmClass ? wmClass[wmClass.length - 1] : null,
+    title: title ? title[0] : '',
+    pid: pidMatch ? Number(pidMatch[1]) : null
+  };
+}
+
+type SwayNode = {
+  focused?: boolean;
+  name?: string | null;
+  app_id?: string | null;
+  pid?: number;
+  window_properties?: { class?: string; instance?: string; title?: string };
+  nodes?: SwayNode[];
+  floating_nodes?: SwayNode[];
+};
+
+/** Walks `swaymsg -t get_tree -r` output for the focused leaf. */
+export function parseSwayTree(stdout: string): { appName: string; windowTitle: string } | null {
+  let root: SwayNode;
+  try {
+    root = JSON.parse(stdout) as SwayNode;
+  } catch {
+    return null;
+  }
+  const stack: SwayNode[] = [root];
+  while (stack.length) {
+    const node = stack.pop()!;
+    if (node.focused && (node.app_id || node.window_properties)) {
+      const rawName = node.app_id ?? node.window_properties?.class ?? node.window_properties?.instance ?? '';
+      return {
+        appName: normaliseLinuxAppName(rawName),
+        windowTitle: node.name ?? node.window_properties?.title ?? ''
+      };
+    }
+    stack.push(...(node.nodes ?? []), ...(node.floating_nodes ?? []));
+  }
+  return null;
+}
+
+/**
+ * Extracts the payload of a `gdbus call` reply. gdbus prints GVariant text such
+ * as `('{"wm_class":"firefox"}',)` or `(uint64 5321,)`.
+ */
+export function parseGdbusReply(stdout: string): string | null {
+  const trimmed = stdout.trim();
+  const stringMatch = trimmed.match(/^\((?:true,\s*)?'((?:[^'\\]|\\.)*)',?\)$/s);
+  if (stringMatch) return stringMatch[1].replace(/\\(.)/g, '$1');
+  const numberMatch = trimmed.match(/^\((?:u?int(?:32|64)\s+)?(\d+),?\)$/);
+  if (numberMatch) return numberMatch[1];
+  const boolMatch = trimmed.match(/^\((true|false),?\)$/);
+  if (boolMatch) return boolMatch[1];
+  return null;
+}
+
+type GnomeWindowEntry = { wm_class?: string; wm_class_instance?: string; title?: string; focus?: boolean; in_current_workspace?: boolean };
+
+/** Parses the JSON returned by the GNOME "Window Calls" extension `List` method. */
+export function parseGnomeWindowList(payload: string): { appName: string; windowTitle: string } | null {
+  let windows: GnomeWindowEntry[];
+  try {
+    windows = JSON.parse(payload) as GnomeWindowEntry[];
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(windows)) return null;
+  const focused = windows.find((entry) => entry.focus);
+  if (!focused) return null;
+  return {
+    appName: normaliseLinuxAppName(focused.wm_class ?? focused.wm_class_instance ?? ''),
+    windowTitle: focused.title ?? ''
+  };
+}
+
+// --- Probe ---
+
+export function createLinuxWindowProbe(options: LinuxWindowProbeOptions = {}): LinuxWindowProbe {
+  const run = options.run ?? defaultRunner;
+  const env = options.env ?? process.env;
+  const session = detectLinuxSession(env);
+  const missingTools = new Set<string>();
+
+  const tryRun = async (command: string, args: string[], timeoutMs?: number) => {
+    if (missingTools.has(command)) return null;
+    try {
+      return await run(command, args, timeoutMs);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+        logger.warn(`Linux window probe: ${command} is not installed; skipping`);
+        missingTools.add(command);
+      }
+      return null;
+    }
+  };
+
+  const gdbusCall = (dest: string, objectPath: string, method: string, args: string[] = []) =>
+    tryRun('gdbus', ['call', '--session', '--dest', dest, '--object-path', objectPath, '--method', method, ...args]);
+
+  async function getX11Window() {
+    const rootOut = await tryRun('xprop', ['-root', '_NET_ACTIVE_WINDOW']);
+    const windowId = rootOut ? parseXpropActiveWindowId(rootOut) : null;
+    if (!windowId) return null;
+    const propsOut = await tryRun('xprop', ['-id', windowId, 'WM_CLASS', '_NET_WM_NAME', 'WM_NAME', '_NET_WM_PID']);
+    if (!propsOut) return null;
+    const props = parseXpropWindowProperties(propsOut);
+    if (!props.wmClass) return null;
+    return { appName: normaliseLinuxAppName(props.wmClass), windowTitle: props.title };
+  }
+
+  async function getSwayWindow() {
+    const tree = await tryRun('swaymsg', ['-t', 'get_tree', '-r']);
+    return tree ? parseSwayTree(tree) : null;
+  }
+
+  async function getGnomeWindow() {
+    // Mutter does not expose the focused window over D-Bus on its own; the
+    // widely packaged "Window Calls" extension publishes it as JSON.
+    const reply = await gdbusCall(
+      'org.gnome.Shell',
+      '/org/gnome/Shell/Extensions/Windows',
+      'org.gnome.Shell.Extensions.Windows.List'
+    );
+    const payload = reply ? parseGdbusReply(reply) : null;
+    const fromExtension = payload ? parseGnomeWindowList(payload) : null;
+    if (fromExtension) return fromExtension;
+    // XWayland clients are still visible through the X11 properties.
+    return env.DISPLAY ? getX11Window() : null;
+  }
+
+  async function getKdeWindow() {
+    // kdotool drives KWin's scripting D-Bus interface, which is the only
+    // supported way to read the active window on Plasma Wayland.
+    const id = (await tryRun('kdotool', ['getactivewindow']))?.trim();
+    if (id) {
+      const [className, title] = await Promise.all([
+        tryRun('kdotool', ['getwindowclassname', id]),
+        tryRun('kdotool', ['getwindowname', id])
+      ]);
+      if (className?.trim()) {
+        return { appName: normaliseLinuxAppName(className.trim()), windowTitle: title?.trim() ?? '' };
+      }
+    }
+    return env.DISPLAY ? getX11Window() : null;
+  }
+
+  type IdleSource = 'mutter' | 'screensaver' | 'xprintidle';
+  let idleSource: IdleSource | null = null;
+  // The spec says GetSessionIdleTime answers in seconds, but Plasma's
+  // implementation answers in milliseconds, on X11 as well as Wayland.
+  const desktop = (env.XDG_CURRENT_DESKTOP ?? env.DESKTOP_SESSION ?? '').toLowerCase();
+  const screensaverMillis = desktop.includes('kde') || desktop.includes('plasma') || env.KDE_FULL_SESSION === 'true';
+
+  async function readIdleSource(source: IdleSource): Promise<number | null> {
+    if (source === 'mutter') {
+      const reply = await gdbusCall(
+        'org.gnome.Mutter.IdleMonitor',
+        '/org/gnome/Mutter/IdleMonitor/Core',
+        'org.gnome.Mutter.IdleMonitor.GetIdletime'
+      );
+      const millis = reply ? Number(parseGdbusReply(reply)) : Number.NaN;
+      return Number.isFinite(millis) ? Math.floor(millis / 1000) : null;
+    }
+    if (source === 'screensaver') {
+      const reply = await gdbusCall(
+        'org.freedesktop.ScreenSaver',
+        '/org/freedesktop/ScreenSaver',
+        'org.freedesktop.ScreenSaver.GetSessionIdleTime'
+      );
+      const idle = reply ? Number(parseGdbusReply(reply)) : Number.NaN;
+      if (!Number.isFinite(idle)) return null;
+      return screensaverMillis ? Math.floor(idle / 1000) : idle;
+    }
+    if (!env.DISPLAY) return null;
+    const stdout = await tryRun('xprintidle', []);
+    const millis = stdout ? Number(stdout.trim()) : Number.NaN;
+    return Number.isFinite(millis) ? Math.floor(millis / 1000) : null;
+  }
+
+  async function getIdleSeconds() {
+    // Remember the first source that answers so each poll spawns one process.
+    if (idleSource) {
+      const cached = await readIdleSource(idleSource);
+      if (cached != null) return cached;
+      idleSource = null;
+    }
+    for (const source of ['mutter', 'screensaver', 'xprintidle'] as const) {
+      if (source === 'mutter' && session !== 'gnome') continue;
+      const value = await readIdleSource(source);
+      if (value != null) {
+        idleSource = source;
+        return value;
+      }
+    }
+
+    // A locked screen is idle even when no idle counter is available.
+    const activeReply = await gdbusCall(
+      'org.freedesktop.ScreenSaver',
+      '/org/freedesktop/ScreenSaver',
+      'org.freedesktop.ScreenSaver.GetActive'
+    );
+    if (activeReply && parseGdbusReply(activeReply) === 'true') {
+      return LOCKED_IDLE_SECONDS;
+    }
+    return 0;
+  }
+
+  async function getActiveWindow(): Promise<LinuxActiveWindow | null> {
+    let win: { appName: string; windowTitle: string } | null = null;
+    switch (session) {
+      case 'sway':
+        win = await getSwayWindow();
+        break;
+      case 'gnome':
+        win = await getGnomeWindow();
+        break;
+      case 'kde':
+        win = await getKdeWindow();
+        break;
+      case 'x11':
+        win = await getX11Window();
+        break;
+      default:
+        return null;
+    }
+    if (!win || !win.appName) return null;
+    const idleSeconds = await getIdleSeconds();
+    return { ...win, idleSeconds };
+  }
+
+  async function closeActiveTab(appName: string) {
+    const browser = isLinuxBrowser(appName);
+    try {
+      if (session === 'sway') {
+        if (browser) {
+          await run('wtype', ['-M', 'ctrl', 'w', '-m', 'ctrl'], 2000);
+        } else {
+          await run('swaymsg', ['kill'], 2000);
+        }
+        return;
+      }
+      if (session === 'gnome' || session === 'kde') {
+        if (!browser) {
+          logger.info(`Not closing ${appName}: closing non-browser windows is unsupported on Wayland`);
+          return;
+        }
+        // ydotool goes through uinput, so it works regardless of compositor.
+        // 29 = KEY_LEFTCTRL, 17 = KEY_W.
+        await run('ydotool', ['key', '29:1', '17:1', '17:0', '29:0'], 2000);
+        return;
+      }
+      if (browser) {
+        await run('xdotool', ['key', '--clearmodifiers', 'ctrl+w'], 2000);
+      } else {
+        await run('wmctrl', ['-c', ':ACTIVE:'], 2000);
+      }
+    } catch (error) {
+      logger.warn('Failed to close tab on Linux', appName, error);
+    }
+  }
+
+  return {
+    session,
+    getActiveWindow,
+    getIdleSeconds,
+    closeActiveTab
+  };
+}
@@ -1,23 +1,112 @@
 import { EventEmitter } from 'node:events';
 import type { Statement } from 'better-sqlite3';
-import type { MarketRate } from '@shared/types';
+import type {
+  DynamicPricingQuote,
+  MarketCalendarOverride,
+  MarketCalendarOverrideInput,
+  MarketPricing,
+  MarketRate
+} from '@shared/types';
 import type { Database } from './storage';
 import { DEFAULT_MARKET_RATES } from './defaults';
 import { canonicalizeDomain } from '@shared/domainCanonicalization';
+import {
+  evaluateDynamicPricing,
+  normalizeDynamicPricing,
+  projectDynamicPriceCurve,
+  type DemandPurchase
+} from '@shared/dynamicPricing';
+import {
+  isDateKey,
+  normalizeHourlyModifiers,
+  normalizeWeekdayModifiers,
+  resolveMarketModifier,
+  toLocalDateKey
+} from '@shared/marketSchedule';
+
+type MarketRateRow = {
+  domain: string;
+  rate_per_min: number;
+  packs_json: string;
+  hourly_modifiers_json: string;
+  weekday_modifiers_json: string | null;
+  dynamic_pricing_json: string | null;
+};
+
+type CalendarOverrideRow = {
+  id: number;
+  label: string;
+  start_date: string;
+  end_date: string;
+  domain: string | null;
+  hourly_modifiers_json: string;
+  created_at: string;
+};
+
+const RATE_COLUMNS = 'domain, rate_per_min, packs_json, hourly_modifiers_json, weekday_modifiers_json, dynamic_pricing_json';
+
+const DEMAND_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+function rowToRate(row: MarketRateRow): MarketRate {
+  return {
+    domain: row.domain,
+    ratePerMin: row.rate_per_min,
+    packs: JSON.parse(row.packs_json),
+    hourlyModifiers: (row.hourly_modifiers_json ? JSON.parse(row.hourly_modifiers_json) : null) ?? Array(24).fill(1),
+    weekdayModifiers: row.weekday_modifiers_json ? normalizeWeekdayModifiers(JSON.parse(row.weekday_modifiers_json)) : null,
+    dynamicPricing: row.dynamic_pricing_json ? normalizeDynamicPricing(JSON.parse(row.dynamic_pricing_json) as unknown) : null
+  };
+}
+
+function rowToCalendarOverride(row: CalendarOverrideRow): MarketCalendarOverride {
+  return {
+    id: row.id,
+    label: row.label,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    domain: row.domain,
+    hourlyModifiers: normalizeHourlyModifiers(JSON.parse(row.hourly_modifiers_json)),
+    createdAt: row.created_at
+  };
+}
 
 export class MarketService extends EventEmitter {
   private db = this.database.connection;
   private upsertStmt: Statement;
   private listStmt: Statement;
   private getStmt: Statement;
+  private demandStmt: Statement;
+  private listCalendarStmt: Statement;
+  private activeCalendarStmt: Statement;
+  private insertCalendarStmt: Statement;
+  private deleteCalendarStmt: Statement;
 
   constructor(private database: Database) {
     super();
     this.upsertStmt = this.db.prepare(
-      'INSERT INTO market_rates(domain, rate_per_min, packs_json, hourly_modifiers_json) VALUES (?, ?, ?, ?) ON CONFLICT(domain) DO UPDATE SET rate_per_min=excluded.rate_per_min, packs_json=excluded.packs_json, hourly_modifiers_json=excluded.hourly_modifiers_json'
+      `INSERT INTO market_rates(${RATE_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?) ON CONFLICT(domain) DO UPDATE SET rate_per_min=excluded.rate_per_min, packs_json=excluded.packs_json, hourly_modifiers_json=excluded.hourly_modifiers_json, weekday_modifiers_json=excluded.weekday_modifiers_json, dynamic_pricing_json=excluded.dynamic_pricing_json`
     );
-    this.listStmt = this.db.prepare('SELECT domain, rate_per_min, packs_json, hourly_modifiers_json FROM market_rates ORDER BY domain ASC');
-    this.getStmt = this.db.prepare('SELECT domain, rate_per_min, packs_json, hourly_modifiers_json FROM market_rates WHERE domain = ?');
+    this.listStmt = this.db.prepare(`SELECT ${RATE_COLUMNS} FROM market_rates ORDER BY domain ASC`);
+    this.getStmt = this.db.prepare(`SELECT ${RATE_COLUMNS} FROM market_rates WHERE domain = ?`);
+    // Pack purchases record their minutes; metered ticks record the seconds they covered.
+    this.demandStmt = this.db.prepare(
+      `SELECT ts,
+        COALESCE(json_extract(meta, '$.minutes'), json_extract(meta, '$.intervalSeconds') / 60.0, 0) as minutes
+       FROM transactions
+       WHERE type = 'spend' AND ts >= ?
+         AND json_extract(meta, '$.type') IN ('frivolity-pack', 'frivolity-metered')
+         AND json_extract(meta, '$.domain') = ?`
+    );
+    this.listCalendarStmt = this.db.prepare(
+      'SELECT id, label, start_date, end_date, domain, hourly_modifiers_json, created_at FROM market_calendar_overrides ORDER BY start_date ASC, id ASC'
+    );
+    this.activeCalendarStmt = this.db.prepare(
+      'SELECT id, label, start_date, end_date, domain, hourly_modifiers_json, created_at FROM market_calendar_overrides WHERE start_date <= ? AND end_date >= ? AND (domain IS NULL OR domain = ?)'
+    );
+    this.insertCalendarStmt = this.db.prepare(
+      'INSERT INTO market_calendar_overrides(label, start_date, end_date, domain, hourly_modifiers_json, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    this.deleteCalendarStmt = this.db.prepare('DELETE FROM market_calendar_overrides WHERE id = ?');
 
     this.seedDefaults();
   }
@@ -27,7 +116,7 @@ export class MarketService extends EventEmitter {
     if (rows.length > 0) return;
     const tx = this.db.transaction((rates: MarketRate[]) => {
       for (const rate of rates) {
-        this.upsertStmt.run(rate.domain, rate.ratePerMin, JSON.stringify(rate.packs), JSON.stringify(rate.hourlyModifiers));
+        this.upsertStmt.run(rate.domain, rate.ratePerMin, JSON.stringify(rate.packs), JSON.stringify(rate.hourlyModifiers), null, null);
       }
     });
     tx(DEFAULT_MARKET_RATES);
@@ -38,24 +127,23 @@ export class MarketService extends EventEmitter {
   }
 
   listRates(): MarketRate[] {
-    const rows = this.listStmt.all() as Array<{
-      domain: string;
-      rate_per_min: number;
-      packs_json: string;
-      hourly_modifiers_json: string;
-    }>;
-    return rows.map((row) => ({
-      domain: row.domain,
-      ratePerMin: row.rate_per_min,
-      packs: JSON.parse(row.packs_json),
-      hourlyModifiers: (row.hourly_modifiers_json ? JSON.parse(row.hourly_modifiers_json) : null) ?? Array(24).fill(1)
-    }));
+    const rows = this.listStmt.all() as MarketRateRow[];
+    return rows.map(rowToRate);
   }
 
   upsertRate(rate: MarketRate) {
     const domain = this.normalizeRateDomain(rate.domain);
-    const normalized: MarketRate = { ...rate, domain };
-    this.upsertStmt.run(domain, normalized.ratePerMin, JSON.stringify(normalized.packs), JSON.stringify(normalized.hourlyModifiers));
+    const dynamicPricing = rate.dynamicPricing ? normalizeDynamicPricing(rate.dynamicPricing) : null;
+    const weekdayModifiers = rate.weekdayModifiers ? normalizeWeekdayModifiers(rate.weekdayModifiers) : null;
+    const normalized: MarketRate = { ...rate, domain, weekdayModifiers, dynamicPricing };
+    this.upsertStmt.run(
+      domain,
+      normalized.ratePerMin,
+      JSON.stringify(normalized.packs),
+      JSON.stringify(normalized.hourlyModifiers),
+      weekdayModifiers ? JSON.stringify(weekdayModifiers) : null,
+      dynamicPricing ? JSON.stringify(dynamicPricing) : null
+    );
     this.emit('update', normalized);
   }
 
@@ -68,17 +156,82 @@ export class MarketService extends EventEmitter {
   getRate(domain: string): MarketRate | null {
     const canonical = canonicalizeDomain(domain ?? '');
     const lookups = [domain, canonical].filter((value, idx, arr): value is string => Boolean(value) && arr.indexOf(value) === idx);
-    let row: { rate_per_min: number; packs_json: string; hourly_modifiers_json: string; domain: string } | undefined;
+    let row: MarketRateRow | undefined;
     for (const lookup of lookups) {
-      row = this.getStmt.get(lookup) as { rate_per_min: number; packs_json: string; hourly_modifiers_json: string; domain: string } | undefined;
+      row = this.getStmt.get(lookup) as MarketRateRow | undefined;
       if (row) break;
     }
     if (!row) return null;
+    return rowToRate(row);
+  }
+
+  /** Minutes bought on a domain (packs and metered time) over the trailing week. */
+  getDemand(domain: string, now = Date.now()): DemandPurchase[] {
+    const rows = this.demandStmt.all(new Date(now - DEMAND_WINDOW_MS).toISOString(), this.normalizeRateDomain(domain)) as Array<{
+      ts: string;
+      minutes: number;
+    }>;
+    return rows.map((row) => ({ at: Date.parse(row.ts), minutes: Number(row.minutes) || 0 }));
+  }
+
+  /** Demand-adjusted price for a rate; a no-op quote unless dynamic pricing is enabled. */
+  quoteDynamicRate(rate: MarketRate, now = Date.now()): DynamicPricingQuote {
+    const purchases = rate.dynamicPricing?.enabled ? this.getDemand(rate.domain, now) : [];
+    return evaluateDynamicPricing(rate.ratePerMin, purchases, now, rate.dynamicPricing);
+  }
+
+  getPricing(domain: string, now = Date.now()): MarketPricing | null {
+    const rate = this.getRate(domain);
+    if (!rate) return null;
+    const purchases = this.getDemand(rate.domain, now);
     return {
-      domain: row.domain,
-      ratePerMin: row.rate_per_min,
-      packs: JSON.parse(row.packs_json),
-      hourlyModifiers: (row.hourly_modifiers_json ? JSON.parse(row.hourly_modifiers_json) : null) ?? Array(24).fill(1)
+      domain: rate.domain,
+      quote: evaluateDynamicPricing(rate.ratePerMin, purchases, now, rate.dynamicPricing),
+      curve: projectDynamicPriceCurve(rate.ratePerMin, purchases, now, rate.dynamicPricing)
     };
   }
+
+  listCalendarOverrides(): MarketCalendarOverride[] {
+    const rows = this.listCalendarStmt.all() as CalendarOverrideRow[];
+    return rows.map(rowToCalendarOverride);
+  }
+
+  addCalendarOverride(input: MarketCalendarOverrideInput): MarketCalendarOverride {
+    const label = input.label?.trim();
+    if (!label) throw new Error('Calendar override needs a label');
+    if (!isDateKey(input.startDate) || !isDateKey(input.endDate)) {
+      throw new Error('Calendar override dates must be YYYY-MM-DD');
+    }
+    if (input.endDate < input.startDate) throw new Error('Calendar override ends before it starts');
+    const domain = input.domain?.trim() ? this.normalizeRateDomain(input.domain) : null;
+    const hourlyModifiers = normalizeHourlyModifiers(input.hourlyModifiers);
+    const createdAt = new Date().toISOString();
+    const result = this.insertCalendarStmt.run(label, input.startDate, input.endDate, domain, JSON.stringify(hourlyModifiers), createdAt);
+    const override: MarketCalendarOverride = {
+      id: Number(result.lastInsertRowid),
+      label,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      domain,
+      hourlyModifiers,
+      createdAt
+    };
+    this.emit('calendar-update', { override });
+    return override;
+  }
+
+  removeCalendarOverride(id: number) {
+    this.deleteCalendarStmt.run(id);
+    this.emit('calendar-update', { id, deleted: true });
+  }
+
+  /**
+   * Price multiplier for a rate at `at`, resolved from calendar overrides, the
+   * weekday matrix and the flat hourly curve, in that order.
+   */
+  getModifier(rate: MarketRate, at = new Date()): number {
+    const dateKey = toLocalDateKey(at);
+    const rows = this.activeCalendarStmt.all(dateKey, dateKey, rate.domain) as CalendarOverrideRow[];
+    return resolveMarketModifier(rate, rows.map(rowToCalendarOverride), at);
+  }
 }
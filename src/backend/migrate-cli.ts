@@ -0,0 +1,88 @@
+/**
+ * Schema migration command line: `pnpm db:migrate <command> [--db <path>]`.
+ *
+ *   status             list migrations and when each was applied
+ *   dry-run            apply pending migrations in a transaction, then roll back
+ *   verify             integrity check plus comparison against a fresh schema
+ *   up                 apply pending migrations (after a backup copy)
+ *   rollback <version> revert applied migrations newer than <version>
+ *
+ * Close the desktop app first; the CLI opens the same database file.
+ */
+import path from 'node:path';
+import { getAppDataPath } from '@shared/platform';
+import { Database } from './storage';
+import type { MigrationStatus } from './migrations';
+
+function formatStatus(entry: MigrationStatus) {
+  const state = entry.appliedAt ? `applied ${entry.appliedAt}` : 'pending';
+  return `  ${String(entry.version).padStart(3)}  ${entry.name.padEnd(32)} ${state}${entry.reversible ? '' : ' (irreversible)'}`;
+}
+
+function main(argv: string[]) {
+  const dbFlag = argv.indexOf('--db');
+  const filePath = dbFlag >= 0 ? argv[dbFlag + 1] : path.join(getAppDataPath(), 'TimeWellSpent', 'timewellspent.db');
+  const args = argv.filter((_arg, index) => dbFlag < 0 || (index !== dbFlag && index !== dbFlag + 1));
+  const [command = 'status', target] = args;
+
+  const database = new Database({ filePath, migrate: false });
+  const migrator = database.migrations;
+  try {
+    switch (command) {
+      case 'status': {
+        console.log(`Schema version ${migrator.currentVersion()} of ${migrator.latestVersion}`);
+        migrator.status().forEach((entry) => console.log(formatStatus(entry)));
+        return 0;
+      }
+      case 'dry-run': {
+        const result = migrator.dryRun();
+        result.applied.forEach((entry) => console.log(formatStatus(entry)));
+        if (result.error) {
+          console.error(`Dry run failed after ${result.applied.length} migration(s): ${result.error}`);
+          return 1;
+        }
+        console.log(`Dry run OK: ${result.applied.length} pending migration(s) apply cleanly; nothing was written.`);
+        return 0;
+      }
+      case 'verify': {
+        const report = migrator.verify();
+        console.log(`Schema version ${report.currentVersion} of ${report.latestVersion}`);
+        if (report.pending.length) console.log(`Pending: ${report.pending.join(', ')}`);
+        if (report.unknown.length) console.log(`Applied by a newer build: ${report.unknown.join(', ')}`);
+        report.integrity.forEach((message) => console.log(`Integrity: ${message}`));
+        report.schemaDrift.forEach((message) => console.log(`Drift: ${message}`));
+        console.log(report.ok ? 'Verify OK' : 'Verify found problems');
+        return report.ok ? 0 : 1;
+      }
+      case 'up': {
+        const result = migrator.migrate();
+        result.applied.forEach((entry) => console.log(formatStatus(entry)));
+        if (result.backupPath) console.log(`Backup: ${result.backupPath}`);
+        console.log(`Schema version ${result.fromVersion} -> ${result.toVersion}`);
+        return 0;
+      }
+      case 'rollback': {
+        const version = Number(target);
+        if (!Number.isInteger(version) || version < 0) {
+          console.error('Usage: rollback <version>');
+          return 1;
+        }
+        const result = migrator.rollback(version);
+        result.applied.forEach((entry) => console.log(`  reverted ${entry.version} ${entry.name}`));
+        if (result.backupPath) console.log(`Backup: ${result.backupPath}`);
+        console.log(`Schema version ${result.fromVersion} -> ${result.toVersion}`);
+        return 0;
+      }
+      default:
+        console.error(`Unknown command "${command}". Use status, dry-run, verify, up or rollback <version>.`);
+        return 1;
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  } finally {
+    void database.close();
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,1256 @@
+import { randomUUID } from 'node:crypto';
+import DatabaseDriver, { type Database as BetterSqlite3Database } from 'better-sqlite3';
+import { logger } from '@shared/logger';
+
+/**
+ * A numbered schema change. `up` runs inside a transaction together with the
+ * bookkeeping row, so a failure leaves the database at the previous version.
+ * `down` is omitted when a change cannot be undone without losing data.
+ */
+export type Migration = {
+  version: number;
+  name: string;
+  up: (db: BetterSqlite3Database) => void;
+  down?: (db: BetterSqlite3Database) => void;
+};
+
+export type MigrationStatus = {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+  reversible: boolean;
+};
+
+export type MigrationRunResult = {
+  fromVersion: number;
+  toVersion: number;
+  applied: MigrationStatus[];
+  backupPath: string | null;
+};
+
+export type MigrationDryRunResult = {
+  fromVersion: number;
+  applied: MigrationStatus[];
+  error: string | null;
+};
+
+export type MigrationVerifyReport = {
+  ok: boolean;
+  currentVersion: number;
+  latestVersion: number;
+  pending: number[];
+  unknown: number[];
+  integrity: string[];
+  schemaDrift: string[];
+};
+
+/**
+ * Schema as of the first versioned release. Tables that existed before
+ * versioning also pick up their later columns through the numbered migrations
+ * below, which is why those columns are not all listed here. New schema
+ * changes belong in a new migration rather than in this block.
+ */
+const BASELINE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS activities (
+    id INTEGER PRIMARY KEY,
+    started_at TEXT NOT NULL,
+    ended_at TEXT,
+    source TEXT CHECK(source IN ('app','url')) NOT NULL,
+    app_name TEXT,
+    bundle_id TEXT,
+    window_title TEXT,
+    url TEXT,
+    domain TEXT,
+    category TEXT,
+    seconds_active INTEGER DEFAULT 0,
+    idle_seconds INTEGER DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS focus_sessions (
+    id INTEGER PRIMARY KEY,
+    started_at TEXT NOT NULL,
+    ended_at TEXT,
+    duration_sec INTEGER NOT NULL,
+    completed INTEGER DEFAULT 0,
+    multiplier REAL DEFAULT 1.0
+  );
+
+  CREATE TABLE IF NOT EXISTS pomodoro_sessions (
+    id TEXT PRIMARY KEY,
+    mode TEXT CHECK(mode IN ('strict','soft')) NOT NULL,
+    state TEXT CHECK(state IN ('active','paused','break','ended')) NOT NULL,
+    started_at TEXT NOT NULL,
+    ended_at TEXT,
+    planned_duration_sec INTEGER NOT NULL,
+    break_duration_sec INTEGER NOT NULL DEFAULT 0,
+    temporary_unlock_sec INTEGER NOT NULL DEFAULT 300,
+    allowlist_json TEXT NOT NULL,
+    overrides_json TEXT NOT NULL DEFAULT '[]',
+    preset_id TEXT,
+    completed_reason TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS pomodoro_block_events (
+    id INTEGER PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    occurred_at TEXT NOT NULL,
+    target TEXT NOT NULL,
+    target_type TEXT CHECK(target_type IN ('app','site')) NOT NULL,
+    reason TEXT NOT NULL,
+    remaining_ms INTEGER,
+    mode TEXT CHECK(mode IN ('strict','soft')) NOT NULL,
+    meta TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS intentions (
+    id INTEGER PRIMARY KEY,
+    date TEXT NOT NULL,
+    text TEXT NOT NULL,
+    completed INTEGER DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS budgets (
+    id INTEGER PRIMARY KEY,
+    period TEXT CHECK(period IN ('day','week')) NOT NULL,
+    category TEXT NOT NULL,
+    seconds_budgeted INTEGER NOT NULL,
+    target_kind TEXT CHECK(target_kind IN ('category','domain','group')) NOT NULL DEFAULT 'category',
+    escalation TEXT CHECK(escalation IN ('warn','surcharge','block')) NOT NULL DEFAULT 'warn',
+    surcharge_multiplier REAL NOT NULL DEFAULT 1.5
+  );
+
+  CREATE TABLE IF NOT EXISTS wallet (
+    id INTEGER PRIMARY KEY CHECK(id = 1),
+    balance INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS transactions (
+    id INTEGER PRIMARY KEY,
+    ts TEXT NOT NULL,
+    type TEXT CHECK(type IN ('earn','spend','adjust','reversal','opening')) NOT NULL,
+    amount INTEGER NOT NULL,
+    meta TEXT,
+    sync_id TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS market_rates (
+    domain TEXT PRIMARY KEY,
+    rate_per_min REAL NOT NULL,
+    packs_json TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS friend_summary_history (
+    user_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    payload_json TEXT NOT NULL,
+    fetched_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, date)
+  );
+
+  CREATE TABLE IF NOT EXISTS savings_goals (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    target_coins INTEGER NOT NULL,
+    escrowed_coins INTEGER NOT NULL DEFAULT 0,
+    release_at TEXT,
+    status TEXT NOT NULL DEFAULT 'active',
+    release_reason TEXT,
+    created_at TEXT NOT NULL,
+    released_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS savings_goal_entries (
+    id INTEGER PRIMARY KEY,
+    goal_id INTEGER NOT NULL,
+    ts TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    amount INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_savings_goal_entries_goal ON savings_goal_entries(goal_id);
+
+  CREATE TABLE IF NOT EXISTS market_calendar_overrides (
+    id INTEGER PRIMARY KEY,
+    label TEXT NOT NULL,
+    start_date TEXT NOT NULL,
+    end_date TEXT NOT NULL,
+    domain TEXT,
+    hourly_modifiers_json TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_market_calendar_overrides_dates ON market_calendar_overrides(start_date, end_date);
+
+  CREATE TABLE IF NOT EXISTS activity_rules (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    priority INTEGER NOT NULL DEFAULT 0,
+    match_json TEXT NOT NULL,
+    action_json TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS paired_clients (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    scopes_json TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL,
+    last_seen_at TEXT,
+    revoked_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS library_items (
+    id INTEGER PRIMARY KEY,
+    kind TEXT CHECK(kind IN ('url','app')) NOT NULL,
+    url TEXT UNIQUE,
+    app TEXT,
+    domain TEXT NOT NULL,
+    title TEXT,
+    note TEXT,
+    bucket TEXT CHECK(bucket IN ('attractor','productive','frivolous')) NOT NULL,
+    purpose TEXT NOT NULL DEFAULT 'allow',
+    price INTEGER,
+    is_public INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT,
+    last_used_at TEXT,
+    consumed_at TEXT,
+    deleted_at TEXT,
+    sync_id TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS camera_photos (
+    id TEXT PRIMARY KEY,
+    captured_at TEXT NOT NULL,
+    file_path TEXT NOT NULL,
+    file_url TEXT NOT NULL,
+    subject TEXT,
+    session_id INTEGER,
+    domain TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS consumption_log (
+    id INTEGER PRIMARY KEY,
+    occurred_at TEXT NOT NULL,
+    day TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    title TEXT,
+    url TEXT,
+    domain TEXT,
+    meta TEXT,
+    sync_id TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS activity_rollups (
+    id INTEGER PRIMARY KEY,
+    device_id TEXT NOT NULL,
+    hour_start TEXT NOT NULL,
+    productive INTEGER NOT NULL,
+    neutral INTEGER NOT NULL,
+    frivolity INTEGER NOT NULL,
+    draining INTEGER NOT NULL DEFAULT 0,
+    emergency INTEGER NOT NULL DEFAULT 0,
+    idle INTEGER NOT NULL,
+    updated_at TEXT NOT NULL,
+    UNIQUE(device_id, hour_start)
+  );
+
+  CREATE TABLE IF NOT EXISTS trophies (
+    id TEXT PRIMARY KEY,
+    earned_at TEXT NOT NULL,
+    meta TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_activities_started_at ON activities(started_at);
+  CREATE INDEX IF NOT EXISTS idx_activities_domain ON activities(domain);
+  CREATE INDEX IF NOT EXISTS idx_transactions_ts ON transactions(ts);
+  CREATE INDEX IF NOT EXISTS idx_library_items_bucket ON library_items(bucket);
+  CREATE INDEX IF NOT EXISTS idx_library_items_domain ON library_items(domain);
+  CREATE INDEX IF NOT EXISTS idx_camera_photos_captured_at ON camera_photos(captured_at);
+  CREATE INDEX IF NOT EXISTS idx_camera_photos_session ON camera_photos(session_id);
+  CREATE INDEX IF NOT EXISTS idx_camera_photos_domain ON camera_photos(domain);
+  CREATE INDEX IF NOT EXISTS idx_consumption_log_day ON consumption_log(day);
+  CREATE INDEX IF NOT EXISTS idx_activity_rollups_device ON activity_rollups(device_id);
+  CREATE INDEX IF NOT EXISTS idx_activity_rollups_hour ON activity_rollups(hour_start);
+  CREATE INDEX IF NOT EXISTS idx_trophies_earned_at ON trophies(earned_at);
+  CREATE INDEX IF NOT EXISTS idx_pomodoro_block_session ON pomodoro_block_events(session_id);
+  CREATE INDEX IF NOT EXISTS idx_pomodoro_sessions_state ON pomodoro_sessions(state);
+
+  -- Granular behavioral events captured by extension
+  CREATE TABLE IF NOT EXISTS behavior_events (
+    id INTEGER PRIMARY KEY,
+    timestamp TEXT NOT NULL,
+    session_id INTEGER,
+    domain TEXT NOT NULL,
+    event_type TEXT CHECK(event_type IN 
+      ('scroll', 'click', 'keystroke', 'focus', 'blur', 'idle_start', 'idle_end', 'visibility')) NOT NULL,
+    value_int INTEGER,
+    value_float REAL,
+    metadata TEXT
+  );
+
+  -- Aggregated session analytics (computed periodically)
+  CREATE TABLE IF NOT EXISTS session_analytics (
+    id INTEGER PRIMARY KEY,
+    activity_id INTEGER UNIQUE,
+    domain TEXT NOT NULL,
+    date TEXT NOT NULL,
+    hour_of_day INTEGER DEFAULT 0,
+    total_scroll_depth INTEGER DEFAULT 0,
+    avg_scroll_velocity REAL DEFAULT 0,
+    total_clicks INTEGER DEFAULT 0,
+    total_keystrokes INTEGER DEFAULT 0,
+    fixation_seconds INTEGER DEFAULT 0,
+    quality_score REAL DEFAULT 0,
+    engagement_level TEXT CHECK(engagement_level IN 
+      ('low', 'passive', 'moderate', 'high', 'intense'))
+  );
+
+  -- Behavioral patterns (what leads to what)
+  CREATE TABLE IF NOT EXISTS behavioral_patterns (
+    id INTEGER PRIMARY KEY,
+    computed_at TEXT NOT NULL,
+    from_category TEXT,
+    from_domain TEXT,
+    to_category TEXT,
+    to_domain TEXT,
+    transition_count INTEGER DEFAULT 0,
+    avg_duration_before REAL,
+    correlation_strength REAL,
+    time_of_day_bucket INTEGER
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_behavior_events_ts ON behavior_events(timestamp);
+  CREATE INDEX IF NOT EXISTS idx_behavior_events_domain ON behavior_events(domain);
+  CREATE INDEX IF NOT EXISTS idx_behavior_events_session ON behavior_events(session_id);
+  CREATE INDEX IF NOT EXISTS idx_session_analytics_date ON session_analytics(date);
+  CREATE INDEX IF NOT EXISTS idx_session_analytics_domain ON session_analytics(domain);
+  CREATE INDEX IF NOT EXISTS idx_behavioral_patterns_computed ON behavioral_patterns(computed_at);
+
+  -- Literary analytics (reading sessions / progress / rollups)
+  CREATE TABLE IF NOT EXISTS reading_sessions (
+    session_id TEXT PRIMARY KEY,
+    doc_key TEXT NOT NULL,
+    title TEXT NOT NULL,
+    file_name TEXT,
+    format TEXT NOT NULL,
+    source_surface TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    ended_at TEXT,
+    last_event_at TEXT,
+    current_page INTEGER,
+    total_pages INTEGER,
+    progress REAL,
+    active_seconds_total INTEGER NOT NULL DEFAULT 0,
+    focused_seconds_total INTEGER NOT NULL DEFAULT 0,
+    pages_read_total INTEGER NOT NULL DEFAULT 0,
+    words_read_total INTEGER NOT NULL DEFAULT 0,
+    estimated_total_words INTEGER,
+    location_label TEXT,
+    meta TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS reading_progress_events (
+    id INTEGER PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    doc_key TEXT NOT NULL,
+    title TEXT NOT NULL,
+    format TEXT NOT NULL,
+    source_surface TEXT NOT NULL,
+    occurred_at TEXT NOT NULL,
+    current_page INTEGER,
+    total_pages INTEGER,
+    progress REAL,
+    active_seconds_total INTEGER NOT NULL DEFAULT 0,
+    focused_seconds_total INTEGER NOT NULL DEFAULT 0,
+    pages_read_total INTEGER NOT NULL DEFAULT 0,
+    words_read_total INTEGER NOT NULL DEFAULT 0,
+    estimated_total_words INTEGER,
+    location_label TEXT,
+    meta TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS reading_daily_rollups (
+    day TEXT PRIMARY KEY,
+    active_seconds INTEGER NOT NULL DEFAULT 0,
+    focused_seconds INTEGER NOT NULL DEFAULT 0,
+    pages_read INTEGER NOT NULL DEFAULT 0,
+    words_read INTEGER NOT NULL DEFAULT 0,
+    sessions INTEGER NOT NULL DEFAULT 0,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS reading_hourly_rollups (
+    hour_start TEXT PRIMARY KEY,
+    active_seconds INTEGER NOT NULL DEFAULT 0,
+    focused_seconds INTEGER NOT NULL DEFAULT 0,
+    pages_read INTEGER NOT NULL DEFAULT 0,
+    words_read INTEGER NOT NULL DEFAULT 0,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS reading_daily_doc_touches (
+    day TEXT NOT NULL,
+    doc_key TEXT NOT NULL,
+    first_seen_at TEXT NOT NULL,
+    PRIMARY KEY (day, doc_key)
+  );
+
+  CREATE TABLE IF NOT EXISTS reading_annotations (
+    id INTEGER PRIMARY KEY,
+    doc_key TEXT NOT NULL,
+    title TEXT NOT NULL,
+    kind TEXT CHECK(kind IN ('highlight','note')) NOT NULL,
+    session_id TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    current_page INTEGER,
+    total_pages INTEGER,
+    progress REAL,
+    location_label TEXT,
+    selected_text TEXT,
+    note_text TEXT,
+    meta TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS zotero_progress_state (
+    item_key TEXT PRIMARY KEY,
+    attachment_key TEXT,
+    doc_key TEXT NOT NULL,
+    title TEXT NOT NULL,
+    subtitle TEXT,
+    collection_path TEXT,
+    source_path TEXT,
+    total_pages INTEGER,
+    current_page INTEGER,
+    progress REAL,
+    last_seen_at TEXT NOT NULL,
+    last_progress_change_at TEXT,
+    pages_advanced_total INTEGER NOT NULL DEFAULT 0,
+    checkpoints_count INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS zotero_progress_events (
+    id INTEGER PRIMARY KEY,
+    item_key TEXT NOT NULL,
+    attachment_key TEXT,
+    doc_key TEXT NOT NULL,
+    title TEXT NOT NULL,
+    subtitle TEXT,
+    collection_path TEXT,
+    source_path TEXT,
+    observed_at TEXT NOT NULL,
+    day TEXT NOT NULL,
+    total_pages INTEGER,
+    current_page INTEGER,
+    progress REAL,
+    delta_progress REAL NOT NULL DEFAULT 0,
+    delta_pages INTEGER NOT NULL DEFAULT 0,
+    progressed INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_reading_sessions_started_at ON reading_sessions(started_at);
+  CREATE INDEX IF NOT EXISTS idx_reading_sessions_doc_key ON reading_sessions(doc_key);
+  CREATE INDEX IF NOT EXISTS idx_reading_sessions_last_event_at ON reading_sessions(last_event_at);
+  CREATE INDEX IF NOT EXISTS idx_reading_progress_events_occurred_at ON reading_progress_events(occurred_at);
+  CREATE INDEX IF NOT EXISTS idx_reading_progress_events_session_id ON reading_progress_events(session_id);
+  CREATE INDEX IF NOT EXISTS idx_reading_progress_events_doc_key ON reading_progress_events(doc_key);
+  CREATE INDEX IF NOT EXISTS idx_reading_daily_doc_touches_day ON reading_daily_doc_touches(day);
+  CREATE INDEX IF NOT EXISTS idx_reading_annotations_doc_key ON reading_annotations(doc_key);
+  CREATE INDEX IF NOT EXISTS idx_reading_annotations_created_at ON reading_annotations(created_at);
+  CREATE INDEX IF NOT EXISTS idx_reading_annotations_kind ON reading_annotations(kind);
+  CREATE INDEX IF NOT EXISTS idx_zotero_progress_state_last_seen ON zotero_progress_state(last_seen_at);
+  CREATE INDEX IF NOT EXISTS idx_zotero_progress_state_progress ON zotero_progress_state(progress);
+  CREATE INDEX IF NOT EXISTS idx_zotero_progress_events_observed_at ON zotero_progress_events(observed_at);
+  CREATE INDEX IF NOT EXISTS idx_zotero_progress_events_day ON zotero_progress_events(day);
+  CREATE INDEX IF NOT EXISTS idx_zotero_progress_events_item_key ON zotero_progress_events(item_key);
+  CREATE INDEX IF NOT EXISTS idx_zotero_progress_events_progressed ON zotero_progress_events(progressed);
+
+  -- Writing studio analytics (projects / sessions / rollups)
+  CREATE TABLE IF NOT EXISTS writing_projects (
+    id INTEGER PRIMARY KEY,
+    project_key TEXT NOT NULL UNIQUE,
+    title TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    target_kind TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'active',
+    target_url TEXT,
+    target_id TEXT,
+    word_target INTEGER,
+    current_word_count INTEGER NOT NULL DEFAULT 0,
+    total_keystrokes INTEGER NOT NULL DEFAULT 0,
+    total_words_added INTEGER NOT NULL DEFAULT 0,
+    total_words_deleted INTEGER NOT NULL DEFAULT 0,
+    total_net_words INTEGER NOT NULL DEFAULT 0,
+    session_count INTEGER NOT NULL DEFAULT 0,
+    body_text TEXT,
+    reentry_note TEXT,
+    prompt_text TEXT,
+    last_touched_at TEXT,
+    last_session_started_at TEXT,
+    last_session_ended_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    meta TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS writing_sessions (
+    session_id TEXT PRIMARY KEY,
+    project_id INTEGER NOT NULL,
+    project_key TEXT NOT NULL,
+    title TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    target_kind TEXT NOT NULL,
+    source_surface TEXT NOT NULL,
+    sprint_minutes INTEGER,
+    started_at TEXT NOT NULL,
+    ended_at TEXT,
+    last_event_at TEXT,
+    active_seconds_total INTEGER NOT NULL DEFAULT 0,
+    focused_seconds_total INTEGER NOT NULL DEFAULT 0,
+    keystrokes_total INTEGER NOT NULL DEFAULT 0,
+    words_added_total INTEGER NOT NULL DEFAULT 0,
+    words_deleted_total INTEGER NOT NULL DEFAULT 0,
+    net_words_total INTEGER NOT NULL DEFAULT 0,
+    current_word_count INTEGER NOT NULL DEFAULT 0,
+    body_text_length INTEGER,
+    location_label TEXT,
+    meta TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS writing_progress_events (
+    id INTEGER PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    project_id INTEGER NOT NULL,
+    project_key TEXT NOT NULL,
+    title TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    target_kind TEXT NOT NULL,
+    source_surface TEXT NOT NULL,
+    occurred_at TEXT NOT NULL,
+    active_seconds_total INTEGER NOT NULL DEFAULT 0,
+    focused_seconds_total INTEGER NOT NULL DEFAULT 0,
+    keystrokes_total INTEGER NOT NULL DEFAULT 0,
+    words_added_total INTEGER NOT NULL DEFAULT 0,
+    words_deleted_total INTEGER NOT NULL DEFAULT 0,
+    net_words_total INTEGER NOT NULL DEFAULT 0,
+    current_word_count INTEGER NOT NULL DEFAULT 0,
+    body_text_length INTEGER,
+    location_label TEXT,
+    meta TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS writing_daily_rollups (
+    day TEXT PRIMARY KEY,
+    active_seconds INTEGER NOT NULL DEFAULT 0,
+    focused_seconds INTEGER NOT NULL DEFAULT 0,
+    keystrokes INTEGER NOT NULL DEFAULT 0,
+    words_added INTEGER NOT NULL DEFAULT 0,
+    words_deleted INTEGER NOT NULL DEFAULT 0,
+    net_words INTEGER NOT NULL DEFAULT 0,
+    sessions INTEGER NOT NULL DEFAULT 0,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS writing_hourly_rollups (
+    hour_start TEXT PRIMARY KEY,
+    active_seconds INTEGER NOT NULL DEFAULT 0,
+    focused_seconds INTEGER NOT NULL DEFAULT 0,
+    keystrokes INTEGER NOT NULL DEFAULT 0,
+    words_added INTEGER NOT NULL DEFAULT 0,
+    words_deleted INTEGER NOT NULL DEFAULT 0,
+    net_words INTEGER NOT NULL DEFAULT 0,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS writing_daily_project_touches (
+    day TEXT NOT NULL,
+    project_id INTEGER NOT NULL,
+    first_seen_at TEXT NOT NULL,
+    PRIMARY KEY (day, project_id)
+  );
+
+  -- Anki-inspired spaced repetition (local deck imports + review history)
+  CREATE TABLE IF NOT EXISTS anki_decks (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    source_path TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    last_imported_at TEXT,
+    last_reviewed_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS anki_cards (
+    id INTEGER PRIMARY KEY,
+    deck_id INTEGER NOT NULL,
+    source_card_id TEXT,
+    fingerprint TEXT NOT NULL,
+    front TEXT NOT NULL,
+    back TEXT NOT NULL,
+    tags TEXT,
+    note_type TEXT,
+    due_at TEXT NOT NULL,
+    interval_days INTEGER NOT NULL DEFAULT 0,
+    ease_factor REAL NOT NULL DEFAULT 2.5,
+    repetitions INTEGER NOT NULL DEFAULT 0,
+    lapses INTEGER NOT NULL DEFAULT 0,
+    suspended INTEGER NOT NULL DEFAULT 0,
+    last_reviewed_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    UNIQUE(deck_id, fingerprint)
+  );
+
+  CREATE TABLE IF NOT EXISTS anki_reviews (
+    id INTEGER PRIMARY KEY,
+    card_id INTEGER NOT NULL,
+    deck_id INTEGER NOT NULL,
+    reviewed_at TEXT NOT NULL,
+    rating TEXT NOT NULL,
+    response_ms INTEGER,
+    before_due_at TEXT,
+    after_due_at TEXT,
+    before_interval_days INTEGER,
+    after_interval_days INTEGER,
+    before_ease_factor REAL,
+    after_ease_factor REAL,
+    reward_coins INTEGER NOT NULL DEFAULT 0,
+    unlock_consumed INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_writing_projects_kind ON writing_projects(kind);
+  CREATE INDEX IF NOT EXISTS idx_writing_projects_status ON writing_projects(status);
+  CREATE INDEX IF NOT EXISTS idx_writing_projects_last_touched ON writing_projects(last_touched_at);
+  CREATE INDEX IF NOT EXISTS idx_writing_sessions_started_at ON writing_sessions(started_at);
+  CREATE INDEX IF NOT EXISTS idx_writing_sessions_project_id ON writing_sessions(project_id);
+  CREATE INDEX IF NOT EXISTS idx_writing_sessions_last_event_at ON writing_sessions(last_event_at);
+  CREATE INDEX IF NOT EXISTS idx_writing_progress_events_occurred_at ON writing_progress_events(occurred_at);
+  CREATE INDEX IF NOT EXISTS idx_writing_progress_events_session_id ON writing_progress_events(session_id);
+  CREATE INDEX IF NOT EXISTS idx_writing_daily_project_touches_day ON writing_daily_project_touches(day);
+  CREATE INDEX IF NOT EXISTS idx_anki_decks_name ON anki_decks(name);
+  CREATE INDEX IF NOT EXISTS idx_anki_cards_deck_due ON anki_cards(deck_id, due_at);
+  CREATE INDEX IF NOT EXISTS idx_anki_cards_due ON anki_cards(due_at);
+  CREATE INDEX IF NOT EXISTS idx_anki_reviews_card ON anki_reviews(card_id);
+  CREATE INDEX IF NOT EXISTS idx_anki_reviews_deck ON anki_reviews(deck_id);
+  CREATE INDEX IF NOT EXISTS idx_anki_reviews_reviewed_at ON anki_reviews(reviewed_at);
+`;
+
+function columnNames(db: BetterSqlite3Database, table: string) {
+  return new Set((db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map((c) => c.name));
+}
+
+function addColumn(db: BetterSqlite3Database, table: string, column: string, definition: string) {
+  if (columnNames(db, table).has(column)) return false;
+  logger.info(`Migrating database: Adding ${column} to ${table}`);
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+}
+
+function dropColumn(db: BetterSqlite3Database, table: string, column: string) {
+  if (!columnNames(db, table).has(column)) return;
+  logger.info(`Migrating database: Dropping ${column} from ${table}`);
+  db.exec(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline-schema',
+    up: (db) => {
+      db.exec(BASELINE_SCHEMA);
+      if (!db.prepare('SELECT balance FROM wallet WHERE id = 1').get()) {
+        db.prepare('INSERT INTO wallet(id, balance) VALUES (1, 50)').run();
+      }
+    }
+  },
+  {
+    version: 2,
+    name: 'market-rate-modifiers',
+    up: (db) => {
+      addColumn(db, 'market_rates', 'hourly_modifiers_json', "TEXT DEFAULT '[]'");
+      addColumn(db, 'market_rates', 'weekday_modifiers_json', 'TEXT');
+      addColumn(db, 'market_rates', 'dynamic_pricing_json', 'TEXT');
+    },
+    down: (db) => {
+      dropColumn(db, 'market_rates', 'dynamic_pricing_json');
+      dropColumn(db, 'market_rates', 'weekday_modifiers_json');
+      dropColumn(db, 'market_rates', 'hourly_modifiers_json');
+    }
+  },
+  {
+    version: 3,
+    name: 'library-item-purpose-and-sync',
+    up: (db) => {
+      if (addColumn(db, 'library_items', 'purpose', "TEXT DEFAULT 'allow'")) {
+        // Backfill purpose from legacy bucket values
+        db.exec(`
+          UPDATE library_items
+          SET purpose = CASE bucket
+            WHEN 'attractor' THEN 'replace'
+            WHEN 'productive' THEN 'allow'
+            WHEN 'frivolous' THEN 'temptation'
+            ELSE 'allow'
+          END
+        `);
+      }
+      addColumn(db, 'library_items', 'price', 'INTEGER');
+      addColumn(db, 'library_items', 'is_public', 'INTEGER NOT NULL DEFAULT 0');
+      addColumn(db, 'library_items', 'consumed_at', 'TEXT');
+      addColumn(db, 'library_items', 'updated_at', 'TEXT');
+      addColumn(db, 'library_items', 'deleted_at', 'TEXT');
+      addColumn(db, 'library_items', 'sync_id', 'TEXT');
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_library_items_purpose ON library_items(purpose);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_library_items_sync_id ON library_items(sync_id);
+        UPDATE library_items SET updated_at = created_at WHERE updated_at IS NULL;
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP INDEX IF EXISTS idx_library_items_purpose;
+        DROP INDEX IF EXISTS idx_library_items_sync_id;
+      `);
+      for (const column of ['sync_id', 'deleted_at', 'updated_at', 'consumed_at', 'is_public', 'price', 'purpose']) {
+        dropColumn(db, 'library_items', column);
+      }
+    }
+  },
+  {
+    version: 4,
+    name: 'transaction-sync-ids',
+    up: (db) => {
+      addColumn(db, 'transactions', 'sync_id', 'TEXT');
+      db.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_sync_id ON transactions(sync_id)');
+    },
+    down: (db) => {
+      db.exec('DROP INDEX IF EXISTS idx_transactions_sync_id');
+      dropColumn(db, 'transactions', 'sync_id');
+    }
+  },
+  {
+    version: 5,
+    name: 'wallet-ledger',
+    // Moves the wallet to a ledger-first model: widens the transaction types to
+    // include reversal/opening entries, makes ledger rows immutable, and records
+    // the pre-ledger balance as an opening entry so the log sums to the balance.
+    up: (db) => {
+      const txTable = db
+        .prepare("SELECT sql FROM sqlite_master WHERE type='table' AND name='transactions'")
+        .get() as { sql: string } | undefined;
+      if (txTable && !txTable.sql.includes("'reversal'")) {
+        logger.info('Migrating database: Allowing reversal/opening wallet transactions');
+        db.exec(`
+          CREATE TABLE transactions_ledger (
+            id INTEGER PRIMARY KEY,
+            ts TEXT NOT NULL,
+            type TEXT CHECK(type IN ('earn','spend','adjust','reversal','opening')) NOT NULL,
+            amount INTEGER NOT NULL,
+            meta TEXT,
+            sync_id TEXT
+          );
+          INSERT INTO transactions_ledger(id, ts, type, amount, meta, sync_id)
+            SELECT id, ts, type, amount, meta, sync_id FROM transactions;
+          DROP TABLE transactions;
+          ALTER TABLE transactions_ledger RENAME TO transactions;
+          CREATE INDEX IF NOT EXISTS idx_transactions_ts ON transactions(ts);
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_sync_id ON transactions(sync_id);
+        `);
+      }
+
+      // Only a missing sync_id may be filled in after the fact.
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS trg_transactions_immutable
+        BEFORE UPDATE OF ts, type, amount, meta ON transactions
+        BEGIN
+          SELECT RAISE(ABORT, 'wallet transactions are immutable; append a reversal instead');
+        END;
+        CREATE TRIGGER IF NOT EXISTS trg_transactions_sync_id_once
+        BEFORE UPDATE OF sync_id ON transactions
+        WHEN OLD.sync_id IS NOT NULL
+        BEGIN
+          SELECT RAISE(ABORT, 'wallet transaction sync_id is immutable');
+        END;
+      `);
+
+      const hasOpening = db.prepare("SELECT 1 FROM transactions WHERE type = 'opening' LIMIT 1").get();
+      if (!hasOpening) {
+        const cached = (db.prepare('SELECT balance FROM wallet WHERE id = 1').get() as { balance: number } | undefined)?.balance ?? 0;
+        const ledger = (db
+          .prepare("SELECT COALESCE(SUM(CASE type WHEN 'spend' THEN -amount ELSE amount END), 0) as balance FROM transactions")
+          .get() as { balance: number }).balance;
+        logger.info(`Migrating database: Opening wallet ledger with ${cached - ledger} coin(s)`);
+        db
+          .prepare("INSERT INTO transactions(ts, type, amount, meta, sync_id) VALUES (?, 'opening', ?, ?, ?)")
+          .run(new Date(0).toISOString(), cached - ledger, JSON.stringify({ cachedBalance: cached, ledgerBalance: ledger }), randomUUID());
+      }
+    }
+  },
+  {
+    version: 6,
+    name: 'consumption-sync-ids',
+    up: (db) => {
+      addColumn(db, 'consumption_log', 'sync_id', 'TEXT');
+      db.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_consumption_log_sync_id ON consumption_log(sync_id)');
+    },
+    down: (db) => {
+      db.exec('DROP INDEX IF EXISTS idx_consumption_log_sync_id');
+      dropColumn(db, 'consumption_log', 'sync_id');
+    }
+  },
+  {
+    version: 7,
+    name: 'merge-store-items',
+    // Legacy store_items become priced allow-items in the library.
+    up: (db) => {
+      const storeTable = db
+        .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='store_items'")
+        .get() as { name: string } | undefined;
+      if (!storeTable) return;
+      logger.info('Migrating database: Merging store_items into library_items');
+      try {
+        db.exec(`
+          INSERT OR IGNORE INTO library_items(
+            kind, url, app, domain, title, note, bucket, purpose, price, created_at, updated_at, last_used_at
+          )
+          SELECT
+            'url' as kind,
+            url,
+            NULL as app,
+            domain,
+            title,
+            NULL as note,
+            'productive' as bucket,
+            'allow' as purpose,
+            price,
+            created_at,
+            created_at as updated_at,
+            last_used_at
+          FROM store_items
+        `);
+      } catch (error) {
+        logger.warn('Failed to migrate store_items into library_items', error);
+      }
+    }
+  },
+  {
+    version: 8,
+    name: 'activity-rollup-flags',
+    up: (db) => {
+      addColumn(db, 'activity_rollups', 'draining', 'INTEGER NOT NULL DEFAULT 0');
+      addColumn(db, 'activity_rollups', 'emergency', 'INTEGER NOT NULL DEFAULT 0');
+    },
+    down: (db) => {
+      dropColumn(db, 'activity_rollups', 'emergency');
+      dropColumn(db, 'activity_rollups', 'draining');
+    }
+  },
+  {
+    version: 9,
+    name: 'budget-targets',
+    up: (db) => {
+      addColumn(db, 'budgets', 'target_kind', "TEXT CHECK(target_kind IN ('category','domain','group')) NOT NULL DEFAULT 'category'");
+      addColumn(db, 'budgets', 'escalation', "TEXT CHECK(escalation IN ('warn','surcharge','block')) NOT NULL DEFAULT 'warn'");
+      addColumn(db, 'budgets', 'surcharge_multiplier', 'REAL NOT NULL DEFAULT 1.5');
+    },
+    down: (db) => {
+      dropColumn(db, 'budgets', 'surcharge_multiplier');
+      dropColumn(db, 'budgets', 'escalation');
+      dropColumn(db, 'budgets', 'target_kind');
+    }
+  },
+  {
+    version: 10,
+    name: 'anki-unlock-consumed',
+    up: (db) => {
+      addColumn(db, 'anki_reviews', 'unlock_consumed', 'INTEGER NOT NULL DEFAULT 0');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_anki_reviews_unlock_consumed ON anki_reviews(unlock_consumed)');
+    },
+    down: (db) => {
+      db.exec('DROP INDEX IF EXISTS idx_anki_reviews_unlock_consumed');
+      dropColumn(db, 'anki_reviews', 'unlock_consumed');
+    }
+  },
+  {
+    version: 11,
+    name: 'custom-trophies',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS custom_trophies (
+          id INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT NOT NULL DEFAULT '',
+          emoji TEXT NOT NULL,
+          rule_json TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DELETE FROM trophies WHERE id LIKE 'custom:%';
+        DROP TABLE IF EXISTS custom_trophies;
+      `);
+    }
+  },
+  {
+    version: 12,
+    name: 'anki-fsrs',
+    up: (db) => {
+      addColumn(db, 'anki_decks', 'scheduler', "TEXT NOT NULL DEFAULT 'sm2' CHECK(scheduler IN ('sm2','fsrs'))");
+      addColumn(db, 'anki_decks', 'desired_retention', 'REAL NOT NULL DEFAULT 0.9');
+      addColumn(db, 'anki_decks', 'fsrs_params_json', 'TEXT');
+      addColumn(db, 'anki_decks', 'fsrs_optimized_at', 'TEXT');
+      addColumn(db, 'anki_cards', 'stability', 'REAL');
+      addColumn(db, 'anki_cards', 'difficulty', 'REAL');
+    },
+    down: (db) => {
+      dropColumn(db, 'anki_cards', 'difficulty');
+      dropColumn(db, 'anki_cards', 'stability');
+      dropColumn(db, 'anki_decks', 'fsrs_optimized_at');
+      dropColumn(db, 'anki_decks', 'fsrs_params_json');
+      dropColumn(db, 'anki_decks', 'desired_retention');
+      dropColumn(db, 'anki_decks', 'scheduler');
+    }
+  },
+  {
+    version: 13,
+    name: 'pomodoro-plans',
+    up: (db) => {
+      addColumn(db, 'pomodoro_sessions', 'plan_json', 'TEXT');
+    },
+    down: (db) => {
+      dropColumn(db, 'pomodoro_sessions', 'plan_json');
+    }
+  },
+  {
+    version: 14,
+    name: 'pomodoro-runtime-state',
+    up: (db) => {
+      addColumn(db, 'pomodoro_sessions', 'elapsed_ms', 'INTEGER NOT NULL DEFAULT 0');
+      addColumn(db, 'pomodoro_sessions', 'resumed_at', 'TEXT');
+      addColumn(db, 'pomodoro_sessions', 'break_ends_at', 'TEXT');
+      addColumn(db, 'pomodoro_sessions', 'checkpoint_at', 'TEXT');
+    },
+    down: (db) => {
+      dropColumn(db, 'pomodoro_sessions', 'checkpoint_at');
+      dropColumn(db, 'pomodoro_sessions', 'break_ends_at');
+      dropColumn(db, 'pomodoro_sessions', 'resumed_at');
+      dropColumn(db, 'pomodoro_sessions', 'elapsed_ms');
+    }
+  },
+  {
+    version: 15,
+    name: 'challenge-history',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS challenge_attempts (
+          id TEXT PRIMARY KEY,
+          kind TEXT NOT NULL CHECK(kind IN ('sudoku')),
+          domain TEXT NOT NULL,
+          difficulty INTEGER NOT NULL,
+          seed INTEGER NOT NULL,
+          required_correct INTEGER NOT NULL,
+          pass_seconds INTEGER NOT NULL,
+          issued_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          outcome TEXT NOT NULL DEFAULT 'issued' CHECK(outcome IN ('issued','passed','failed','expired')),
+          submitted_at TEXT,
+          correct_squares INTEGER,
+          elapsed_seconds INTEGER
+        );
+        CREATE INDEX IF NOT EXISTS idx_challenge_attempts_issued ON challenge_attempts(issued_at);
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP INDEX IF EXISTS idx_challenge_attempts_issued;
+        DROP TABLE IF EXISTS challenge_attempts;
+      `);
+    }
+  },
+  {
+    version: 16,
+    name: 'paywall-sessions',
+    up: (db) => {
+      // remaining_seconds is NULL for open-ended (metered, store, untimed emergency) sessions.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS paywall_sessions (
+          domain TEXT PRIMARY KEY,
+          mode TEXT NOT NULL CHECK(mode IN ('metered','pack','emergency','store')),
+          color_filter TEXT,
+          rate_per_min REAL NOT NULL,
+          remaining_seconds REAL,
+          last_tick INTEGER NOT NULL,
+          started_at INTEGER,
+          paused INTEGER NOT NULL DEFAULT 0,
+          manual_paused INTEGER NOT NULL DEFAULT 0,
+          purchase_price INTEGER,
+          purchased_seconds INTEGER,
+          spend_remainder REAL,
+          pack_chain_count INTEGER,
+          metered_multiplier REAL,
+          justification TEXT,
+          last_reminder INTEGER,
+          allowed_url TEXT,
+          updated_at TEXT NOT NULL
+        );
+      `);
+    },
+    down: (db) => {
+      db.exec('DROP TABLE IF EXISTS paywall_sessions;');
+    }
+  },
+  {
+    version: 17,
+    name: 'paywall-diagnostics',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS paywall_diagnostics (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          ts INTEGER NOT NULL,
+          event TEXT NOT NULL,
+          domain TEXT NOT NULL,
+          mode TEXT,
+          reason TEXT,
+          remaining_seconds REAL,
+          paused INTEGER,
+          interval_seconds REAL,
+          active_domain TEXT,
+          active_url TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_paywall_diagnostics_ts ON paywall_diagnostics(ts);
+        CREATE INDEX IF NOT EXISTS idx_paywall_diagnostics_domain_ts ON paywall_diagnostics(domain, ts);
+      `);
+    },
+    down: (db) => {
+      db.exec(`
+        DROP INDEX IF EXISTS idx_paywall_diagnostics_domain_ts;
+        DROP INDEX IF EXISTS idx_paywall_diagnostics_ts;
+        DROP TABLE IF EXISTS paywall_diagnostics;
+      `);
+    }
+  },
+  {
+    version: 18,
+    name: 'pairing-journal-keys',
+    up: (db) => {
+      addColumn(db, 'paired_clients', 'journal_key', 'TEXT');
+    },
+    down: (db) => {
+      dropColumn(db, 'paired_clients', 'journal_key');
+    }
+  }
+];
+
+type AppliedRow = { version: number; name: string; applied_at: string };
+
+type SchemaShape = Map<string, Set<string>>;
+
+function readSchemaShape(db: BetterSqlite3Database): SchemaShape {
+  const shape: SchemaShape = new Map();
+  const objects = db
+    .prepare("SELECT type, name FROM sqlite_master WHERE type IN ('table','index','trigger') AND name NOT LIKE 'sqlite_%' ORDER BY name")
+    .all() as Array<{ type: string; name: string }>;
+  for (const object of objects) {
+    shape.set(`${object.type} ${object.name}`, object.type === 'table' ? columnNames(db, object.name) : new Set());
+  }
+  return shape;
+}
+
+/**
+ * Applies, inspects and reverts the numbered migrations. Applied versions are
+ * recorded in `schema_migrations`; databases from before versioning have no
+ * rows there and run every migration, which is safe because each one checks
+ * for the columns and tables it adds.
+ */
+export class SchemaMigrator {
+  private readonly migrations: Migration[];
+
+  constructor(
+    private db: BetterSqlite3Database,
+    private filePath: string | null,
+    migrations: Migration[] = MIGRATIONS,
+    private now: () => number = Date.now
+  ) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      );
+    `);
+  }
+
+  get latestVersion() {
+    return this.migrations.at(-1)?.version ?? 0;
+  }
+
+  currentVersion() {
+    return (this.db.prepare('SELECT COALESCE(MAX(version), 0) as version FROM schema_migrations').get() as { version: number }).version;
+  }
+
+  status(): MigrationStatus[] {
+    const applied = new Map(this.appliedRows().map((row) => [row.version, row]));
+    return this.migrations.map((migration) => this.toStatus(migration, applied.get(migration.version)?.applied_at ?? null));
+  }
+
+  pending(): MigrationStatus[] {
+    return this.status().filter((entry) => entry.appliedAt === null);
+  }
+
+  /** Applies every pending migration, backing the file up first when it already holds data. */
+  migrate(): MigrationRunResult {
+    this.assertKnownVersions();
+    const fromVersion = this.currentVersion();
+    const pending = this.migrations.filter((migration) => !this.isApplied(migration.version));
+    const backupPath = pending.length ? this.backup(`v${fromVersion}`) : null;
+    const applied = pending.map((migration) => this.apply(migration));
+    return { fromVersion, toVersion: this.currentVersion(), applied, backupPath };
+  }
+
+  /** Runs the pending migrations and rolls all of them back, reporting the first failure. */
+  dryRun(): MigrationDryRunResult {
+    this.assertKnownVersions();
+    const fromVersion = this.currentVersion();
+    const applied: MigrationStatus[] = [];
+    const rollback = new Error('dry run');
+    try {
+      this.db.transaction(() => {
+        for (const migration of this.migrations) {
+          if (this.isApplied(migration.version)) continue;
+          applied.push(this.apply(migration));
+        }
+        throw rollback;
+      })();
+    } catch (error) {
+      if (error !== rollback) {
+        return { fromVersion, applied, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+    return { fromVersion, applied, error: null };
+  }
+
+  /** Reverts applied migrations newer than `targetVersion`, newest first. */
+  rollback(targetVersion: number): MigrationRunResult {
+    const fromVersion = this.currentVersion();
+    const toRevert = this.migrations
+      .filter((migration) => migration.version > targetVersion && this.isApplied(migration.version))
+      .reverse();
+    const blocked = toRevert.find((migration) => !migration.down);
+    if (blocked) {
+      throw new Error(`Migration ${blocked.version} (${blocked.name}) cannot be reverted`);
+    }
+    const backupPath = toRevert.length ? this.backup(`v${fromVersion}-rollback`) : null;
+    const reverted = toRevert.map((migration) => {
+      logger.info(`Reverting database migration ${migration.version} (${migration.name})`);
+      this.db.transaction(() => {
+        migration.down?.(this.db);
+        this.db.prepare('DELETE FROM schema_migrations WHERE version = ?').run(migration.version);
+      })();
+      return this.toStatus(migration, null);
+    });
+    return { fromVersion, toVersion: this.currentVersion(), applied: reverted, backupPath };
+  }
+
+  /**
+   * Checks SQLite integrity and compares the live schema with a scratch
+   * database built from the migrations, so a hand-edited or half-upgraded file
+   * shows up as drift.
+   */
+  verify(): MigrationVerifyReport {
+    const known = new Set(this.migrations.map((migration) => migration.version));
+    const appliedVersions = this.appliedRows().map((row) => row.version);
+    const integrity = (this.db.pragma('integrity_check') as Array<{ integrity_check: string }>)
+      .map((row) => row.integrity_check)
+      .filter((message) => message !== 'ok');
+    const foreignKeys = this.db.pragma('foreign_key_check') as Array<{ table: string; parent: string }>;
+    integrity.push(...foreignKeys.map((row) => `foreign key from ${row.table} to ${row.parent} is broken`));
+
+    const scratch = new DatabaseDriver(':memory:');
+    let expected: SchemaShape;
+    try {
+      new SchemaMigrator(scratch, null, this.migrations, this.now).migrate();
+      expected = readSchemaShape(scratch);
+    } finally {
+      scratch.close();
+    }
+    const actual = readSchemaShape(this.db);
+    const schemaDrift: string[] = [];
+    for (const [key, columns] of expected) {
+      const live = actual.get(key);
+      if (!live) {
+        schemaDrift.push(`missing ${key}`);
+        continue;
+      }
+      const missing = [...columns].filter((column) => !live.has(column));
+      if (missing.length) schemaDrift.push(`${key} is missing column(s) ${missing.join(', ')}`);
+    }
+
+    const pending = this.migrations.filter((migration) => !appliedVersions.includes(migration.version)).map((m) => m.version);
+    const unknown = appliedVersions.filter((version) => !known.has(version));
+    return {
+      ok: !pending.length && !unknown.length && !integrity.length && !schemaDrift.length,
+      currentVersion: this.currentVersion(),
+      latestVersion: this.latestVersion,
+      pending,
+      unknown,
+      integrity,
+      schemaDrift
+    };
+  }
+
+  private apply(migration: Migration): MigrationStatus {
+    const appliedAt = new Date(this.now()).toISOString();
+    this.db.transaction(() => {
+      migration.up(this.db);
+      this.db
+        .prepare('INSERT INTO schema_migrations(version, name, applied_at) VALUES (?, ?, ?)')
+        .run(migration.version, migration.name, appliedAt);
+    })();
+    return this.toStatus(migration, appliedAt);
+  }
+
+  /** Snapshot via VACUUM INTO, which is consistent even with WAL pages outstanding. */
+  private backup(label: string) {
+    if (!this.filePath) return null;
+    const hasData = this.db
+      .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name NOT IN ('schema_migrations') AND name NOT LIKE 'sqlite_%' LIMIT 1")
+      .get();
+    if (!hasData) return null;
+    const stamp = new Date(this.now()).toISOString().replace(/[:.]/g, '-');
+    const backupPath = `${this.filePath}.${label}-${stamp}.bak`;
+    this.db.prepare('VACUUM INTO ?').run(backupPath);
+    logger.info(`Backed up database to ${backupPath} before migrating`);
+    return backupPath;
+  }
+
+  private assertKnownVersions() {
+    const current = this.currentVersion();
+    if (current > this.latestVersion) {
+      throw new Error(
+        `Database schema version ${current} is newer than this app supports (${this.latestVersion}); update the app instead of opening it with an older build`
+      );
+    }
+  }
+
+  private appliedRows() {
+    return this.db.prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version').all() as AppliedRow[];
+  }
+
+  private isApplied(version: number) {
+    return Boolean(this.db.prepare('SELECT 1 FROM schema_migrations WHERE version = ?').get(version));
+  }
+
+  private toStatus(migration: Migration, appliedAt: string | null): MigrationStatus {
+    return { version: migration.version, name: migration.name, appliedAt, reversible: Boolean(migration.down) };
+  }
+}
@@ -0,0 +1,191 @@
+import crypto from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import type { Statement } from 'better-sqlite3';
+import type { Database } from './storage';
+import type { PairedClient, PairingCode, PairingExchangeResult, PairingScope } from '@shared/types';
+import { logger } from '@shared/logger';
+
+type PairedClientRow = {
+  id: number;
+  name: string;
+  scopes_json: string;
+  created_at: string;
+  last_seen_at: string | null;
+  revoked_at: string | null;
+};
+
+type PendingCode = {
+  hash: string;
+  scopes: PairingScope[];
+  expiresAt: number;
+};
+
+export const PAIRING_SCOPES: PairingScope[] = ['read', 'write', 'events'];
+/** Id of the synthetic client the desktop token authenticates as. */
+export const DESKTOP_CLIENT_ID = 0;
+
+const CLIENT_COLUMNS = 'id, name, scopes_json, created_at, last_seen_at, revoked_at';
+// Crockford-style alphabet: no 0/O or 1/I/L to misread off the screen.
+const CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CODE_LENGTH = 8;
+const CODE_TTL_MS = 5 * 60_000;
+const MAX_FAILED_EXCHANGES = 5;
+const LAST_SEEN_THROTTLE_MS = 60_000;
+
+function hashSecret(value: string) {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function normaliseScopes(scopes?: PairingScope[] | null): PairingScope[] {
+  const requested = scopes?.length ? scopes : PAIRING_SCOPES;
+  const unknown = requested.filter((scope) => !PAIRING_SCOPES.includes(scope));
+  if (unknown.length) throw new Error(`Unknown pairing scope ${unknown.join(', ')}`);
+  return PAIRING_SCOPES.filter((scope) => requested.includes(scope));
+}
+
+function rowToClient(row: PairedClientRow): PairedClient {
+  let scopes: PairingScope[] = [];
+  try {
+    scopes = normaliseScopes(JSON.parse(row.scopes_json) as PairingScope[]);
+  } catch {
+    scopes = [];
+  }
+  return {
+    id: row.id,
+    name: row.name,
+    scopes,
+    createdAt: row.created_at,
+    lastSeenAt: row.last_seen_at,
+    revokedAt: row.revoked_at
+  };
+}
+
+/**
+ * Pairs local clients (the browser extension, the web homepage) with the
+ * backend. The desktop shows a short-lived one-time code; a client trades it
+ * for a bearer token that every HTTP request and websocket must present.
+ * Only SHA-256 hashes of codes and tokens are kept. Each client also gets a
+ * journal key for signing its offline wallet journal; that one is kept as is
+ * because the desktop verifies with it. The desktop renderer uses a
+ * per-process token that is never persisted or listed.
+ */
+export class PairingService extends EventEmitter {
+  private db = this.database.connection;
+  private listStmt: Statement;
+  private getStmt: Statement;
+  private byTokenStmt: Statement;
+  private insertStmt: Statement;
+  private touchStmt: Statement;
+  private revokeStmt: Statement;
+  private journalKeyStmt: Statement;
+  private pending: PendingCode[] = [];
+  private failedExchanges = 0;
+  private readonly desktopToken = crypto.randomBytes(32).toString('base64url');
+  private lastSeenWrites = new Map<number, number>();
+
+  constructor(private database: Database, private now: () => number = Date.now) {
+    super();
+    this.listStmt = this.db.prepare(`SELECT ${CLIENT_COLUMNS} FROM paired_clients ORDER BY revoked_at IS NOT NULL, created_at DESC`);
+    this.getStmt = this.db.prepare(`SELECT ${CLIENT_COLUMNS} FROM paired_clients WHERE id = ?`);
+    this.byTokenStmt = this.db.prepare(
+      `SELECT ${CLIENT_COLUMNS} FROM paired_clients WHERE token_hash = ? AND revoked_at IS NULL`
+    );
+    this.insertStmt = this.db.prepare(
+      'INSERT INTO paired_clients(name, scopes_json, token_hash, journal_key, created_at) VALUES (?, ?, ?, ?, ?)'
+    );
+    this.touchStmt = this.db.prepare('UPDATE paired_clients SET last_seen_at = ? WHERE id = ?');
+    this.revokeStmt = this.db.prepare('UPDATE paired_clients SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL');
+    this.journalKeyStmt = this.db.prepare('SELECT journal_key FROM paired_clients WHERE id = ? AND revoked_at IS NULL');
+  }
+
+  /** Issues a one-time code; any code issued earlier stops working. */
+  createCode(scopes?: PairingScope[] | null): PairingCode {
+    const normalised = normaliseScopes(scopes);
+    const bytes = crypto.randomBytes(CODE_LENGTH);
+    const code = Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+    const expiresAt = this.now() + CODE_TTL_MS;
+    this.pending = [{ hash: hashSecret(code), scopes: normalised, expiresAt }];
+    this.failedExchanges = 0;
+    return { code, scopes: normalised, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  exchange(code: string, name: string): PairingExchangeResult {
+    const now = this.now();
+    this.pending = this.pending.filter((entry) => entry.expiresAt > now);
+    const hash = hashSecret(code.trim().toUpperCase().replace(/[\s-]/g, ''));
+    const match = this.pending.find((entry) =>
+      crypto.timingSafeEqual(Buffer.from(entry.hash, 'hex'), Buffer.from(hash, 'hex'))
+    );
+    if (!match) {
+      this.failedExchanges += 1;
+      if (this.failedExchanges >= MAX_FAILED_EXCHANGES) {
+        // Too many guesses: burn the outstanding code so it cannot be brute-forced.
+        this.pending = [];
+        logger.warn('Pairing code invalidated after repeated failed attempts');
+      }
+      throw new Error('Invalid or expired pairing code');
+    }
+    this.pending = this.pending.filter((entry) => entry !== match);
+    const clientName = name.trim() || 'Unnamed client';
+    const token = crypto.randomBytes(32).toString('base64url');
+    const journalKey = crypto.randomBytes(32).toString('base64url');
+    const result = this.insertStmt.run(
+      clientName,
+      JSON.stringify(match.scopes),
+      hashSecret(token),
+      journalKey,
+      new Date(now).toISOString()
+    );
+    const client = this.get(Number(result.lastInsertRowid)) as PairedClient;
+    logger.info(`Paired local client "${client.name}" (${client.scopes.join(', ')})`);
+    this.emit('update', this.listClients());
+    return { token, journalKey, client };
+  }
+
+  /** Resolves a bearer token to its client; the desktop token maps to a synthetic client with every scope. */
+  authenticate(token: string | null | undefined): PairedClient | null {
+    if (!token) return null;
+    if (token.length === this.desktopToken.length && crypto.timingSafeEqual(Buffer.from(token), Buffer.from(this.desktopToken))) {
+      return { id: DESKTOP_CLIENT_ID, name: 'Desktop app', scopes: PAIRING_SCOPES, createdAt: '', lastSeenAt: null, revokedAt: null };
+    }
+    const row = this.byTokenStmt.get(hashSecret(token)) as PairedClientRow | undefined;
+    if (!row) return null;
+    const now = this.now();
+    if (now - (this.lastSeenWrites.get(row.id) ?? 0) >= LAST_SEEN_THROTTLE_MS) {
+      this.lastSeenWrites.set(row.id, now);
+      this.touchStmt.run(new Date(now).toISOString(), row.id);
+    }
+    return rowToClient(row);
+  }
+
+  /** Key the client's offline wallet journal is signed with; null for revoked or unknown clients and the desktop. */
+  getJournalKey(clientId: number): string | null {
+    const row = this.journalKeyStmt.get(clientId) as { journal_key: string | null } | undefined;
+    return row?.journal_key ?? null;
+  }
+
+  getDesktopToken() {
+    return this.desktopToken;
+  }
+
+  get(id: number): PairedClient | null {
+    const row = this.getStmt.get(id) as PairedClientRow | undefined;
+    return row ? rowToClient(row) : null;
+  }
+
+  listClients(): PairedClient[] {
+    return (this.listStmt.all() as PairedClientRow[]).map(rowToClient);
+  }
+
+  revoke(id: number): PairedClient {
+    const client = this.get(id);
+    if (!client) throw new Error(`Paired client ${id} not found`);
+    if (!client.revokedAt) {
+      this.revokeStmt.run(new Date(this.now()).toISOString(), id);
+      logger.info(`Revoked pairing for "${client.name}"`);
+      this.emit('revoke', id);
+      this.emit('update', this.listClients());
+    }
+    return this.get(id) as PairedClient;
+  }
+}
@@ -1,7 +1,9 @@
 import { EventEmitter } from 'node:events';
 import type { MarketService } from './market';
 import type { WalletManager } from './wallet';
-import type { GuardrailColorFilter } from '@shared/types';
+import type { BudgetEscalationDecision } from './budgets';
+import type { PaywallSessionStore } from './paywallSessions';
+import type { GuardrailColorFilter, PaywallDiagnosticEvent, PaywallDowntimePolicy } from '@shared/types';
 import { logger } from '@shared/logger';
 import { reducePaywallSessionLifecycle } from '@shared/paywallSessionLifecycle';
 import { canonicalizeDomain, isSameDomainOrSubdomain, normalizeOriginPathUrl } from '@shared/domainCanonicalization';
@@ -27,25 +29,6 @@ export type PaywallSession = {
   allowedUrl?: string;
 };
 
-export type PaywallDiagnosticEvent = {
-  ts: number;
-  event:
-    | 'session-started'
-    | 'session-ended'
-    | 'session-paused'
-    | 'session-resumed'
-    | 'session-tick'
-    | 'session-ignored-inactive';
-  domain: string;
-  mode?: PaywallSession['mode'];
-  reason?: string;
-  remainingSeconds?: number | null;
-  paused?: boolean;
-  intervalSeconds?: number;
-  activeDomain?: string | null;
-  activeUrl?: string | null;
-};
-
 function normaliseBaseUrl(url: string): string | null {
   return normalizeOriginPathUrl(url);
 }
@@ -69,12 +52,36 @@ export class PaywallManager extends EventEmitter {
   private diagnostics: PaywallDiagnosticEvent[] = [];
   private readonly diagnosticsLimit = 500;
 
-  constructor(private wallet: WalletManager, private market: MarketService) {
+  constructor(
+    private wallet: WalletManager,
+    private market: MarketService,
+    private getBudgetEscalation: (domain: string) => BudgetEscalationDecision = () => ({ action: 'none' }),
+    private store: PaywallSessionStore | null = null
+  ) {
     super();
   }
 
+  /** Surcharge an exhausted budget adds to new purchases (1 when none); quotes itemize it. */
+  getBudgetSurcharge(domain: string) {
+    const decision = this.getBudgetEscalation(this.normalizeSessionKey(domain));
+    return decision.action === 'surcharge' ? decision.multiplier : 1;
+  }
+
+  /**
+   * Refuses a new purchase when a budget blocks the domain. Otherwise returns
+   * the surcharge multiplier, which the quoted price already includes.
+   */
+  private requireBudgetAllowance(domain: string) {
+    const decision = this.getBudgetEscalation(domain);
+    if (decision.action === 'block') {
+      throw new Error(decision.reason);
+    }
+    return decision.action === 'surcharge' ? decision.multiplier : 1;
+  }
+
   private recordDiagnostic(event: PaywallDiagnosticEvent) {
     this.diagnostics.push(event);
+    this.emit('diagnostic', event);
     if (this.diagnostics.length > this.diagnosticsLimit) {
       this.diagnostics.splice(0, this.diagnostics.length - this.diagnosticsLimit);
     }
@@ -96,9 +103,15 @@ export class PaywallManager extends EventEmitter {
     const key = this.normalizeSessionKey(domain);
     const next: PaywallSession = { ...session, domain: key };
     this.sessions.set(key, next);
+    this.store?.save([next]);
     return next;
   }
 
+  private deleteSession(key: string) {
+    this.sessions.delete(key);
+    this.store?.delete(key);
+  }
+
   getSession(domain: string) {
     const entry = this.getSessionEntry(domain);
     if (!entry) return null;
@@ -159,7 +172,7 @@ export class PaywallManager extends EventEmitter {
   clearSession(domain: string) {
     const entry = this.getSessionEntry(domain);
     if (!entry) return;
-    this.sessions.delete(entry.key);
+    this.deleteSession(entry.key);
   }
 
   expireAllSessions(reason = 'day-rollover', options?: { refundUnusedPacks?: boolean }) {
@@ -209,6 +222,11 @@ export class PaywallManager extends EventEmitter {
 
   startMetered(domain: string, ratePerMin?: number, meteredMultiplier = 1, colorFilter: GuardrailColorFilter = 'full-color') {
     const sessionDomain = this.normalizeSessionKey(domain);
+    this.requireBudgetAllowance(sessionDomain);
+    // Coins escrowed in savings goals cannot fund metered time.
+    if (this.wallet.getSpendableBalance() <= 0) {
+      throw new Error('Insufficient funds: no spendable coins outside savings goals');
+    }
     const rate = this.ensureRate(sessionDomain);
     const effectiveRate = Number.isFinite(ratePerMin as number) ? Number(ratePerMin) : rate.ratePerMin;
     const session: PaywallSession = {
@@ -277,7 +295,8 @@ export class PaywallManager extends EventEmitter {
     const rate = this.ensureRate(sessionDomain);
     const now = Date.now();
     const existing = this.getSessionEntry(sessionDomain)?.session;
-    this.wallet.spend(price, { type: 'frivolity-pack', domain: sessionDomain, minutes });
+    const budgetMultiplier = this.requireBudgetAllowance(sessionDomain);
+    this.wallet.spend(price, { type: 'frivolity-pack', domain: sessionDomain, minutes, budgetMultiplier });
     this.emit('wallet-update', this.wallet.getSnapshot());
     const purchasedSeconds = minutes * 60;
     const existingPack = existing?.mode === 'pack' ? existing : null;
@@ -391,6 +410,7 @@ export class PaywallManager extends EventEmitter {
     const session = entry.session;
     Object.assign(session, reducePaywallSessionLifecycle(session, { type: 'pause' }));
     session.manualPaused = true;
+    this.store?.save([session]);
     this.recordDiagnostic({
       ts: Date.now(),
       event: 'session-paused',
@@ -409,6 +429,7 @@ export class PaywallManager extends EventEmitter {
     const session = entry.session;
     Object.assign(session, reducePaywallSessionLifecycle(session, { type: 'resume' }));
     session.manualPaused = false;
+    this.store?.save([session]);
     this.recordDiagnostic({
       ts: Date.now(),
       event: 'session-resumed',
@@ -440,6 +461,7 @@ export class PaywallManager extends EventEmitter {
         } as Partial<PaywallSession>
       })
     );
+    this.store?.save([session]);
     this.recordDiagnostic({
       ts: now,
       event: 'session-tick',
@@ -476,7 +498,7 @@ export class PaywallManager extends EventEmitter {
 
     const endedAt = Date.now();
     const durationSeconds = session.startedAt ? Math.round((endedAt - session.startedAt) / 1000) : null;
-    this.sessions.delete(key);
+    this.deleteSession(key);
     this.recordDiagnostic({
       ts: endedAt,
       event: 'session-ended',
@@ -492,9 +514,16 @@ export class PaywallManager extends EventEmitter {
 
   tick(intervalSeconds: number, activeDomain?: string | null, activeUrl?: string | null, reminderIntervalSeconds: number = 300) {
     const now = Date.now();
-    const currentHour = new Date().getHours();
 
     for (const session of [...this.sessions.values()]) {
+      const budget = session.mode === 'emergency' || session.mode === 'store'
+        ? { action: 'none' as const }
+        : this.getBudgetEscalation(session.domain);
+      if (budget.action === 'block') {
+        this.endSession(session.domain, 'budget-exhausted', { refundUnused: true });
+        continue;
+      }
+
       // Emergency sessions should not flap in and out of paused state when
       // activity samples briefly lose browser URL/domain context.
       const keepEmergencyActive = session.mode === 'emergency' && !session.manualPaused && !session.allowedUrl;
@@ -593,7 +622,7 @@ export class PaywallManager extends EventEmitter {
           });
           this.emit('session-tick', session);
           if (session.remainingSeconds <= 0) {
-            this.sessions.delete(session.domain);
+            this.deleteSession(session.domain);
             const durationSeconds = session.startedAt ? Math.round((now - session.startedAt) / 1000) : null;
             this.recordDiagnostic({
               ts: now,
@@ -613,9 +642,11 @@ export class PaywallManager extends EventEmitter {
         let currentRate = session.ratePerMin;
         const marketRate = this.market.getRate(session.domain);
         if (marketRate) {
-          const modifier = marketRate.hourlyModifiers?.[currentHour] ?? 1;
+          const modifier = this.market.getModifier(marketRate, new Date(now));
           const meteredMultiplier = session.meteredMultiplier ?? 1;
-          currentRate = marketRate.ratePerMin * modifier * meteredMultiplier;
+          const budgetMultiplier = budget.action === 'surcharge' ? budget.multiplier : 1;
+          const demandMultiplier = marketRate.dynamicPricing?.enabled ? this.market.quoteDynamicRate(marketRate, now).multiplier : 1;
+          currentRate = marketRate.ratePerMin * modifier * meteredMultiplier * budgetMultiplier * demandMultiplier;
         }
         if (session.ratePerMin !== currentRate) {
           session.ratePerMin = currentRate;
@@ -653,7 +684,7 @@ export class PaywallManager extends EventEmitter {
           });
         } catch (error) {
           logger.warn('Metered session ended due to insufficient funds', session.domain);
-          this.sessions.delete(session.domain);
+          this.deleteSession(session.domain);
           const durationSeconds = session.startedAt ? Math.round((now - session.startedAt) / 1000) : null;
           this.recordDiagnostic({
             ts: now,
@@ -685,7 +716,7 @@ export class PaywallManager extends EventEmitter {
         this.emit('session-tick', session);
 
         if (session.remainingSeconds <= 0) {
-          this.sessions.delete(session.domain);
+          this.deleteSession(session.domain);
           const durationSeconds = session.startedAt ? Math.round((now - session.startedAt) / 1000) : null;
           this.recordDiagnostic({
             ts: now,
@@ -700,5 +731,52 @@ export class PaywallManager extends EventEmitter {
         }
       }
     }
+
+    // One write per tick covers every countdown, pause and resume above.
+    this.store?.save([...this.sessions.values()]);
+  }
+
+  /**
+   * Reloads the sessions a previous run left behind. `policy` decides what the
+   * time the app spent closed costs: `freeze` restores them untouched,
+   * `count-down` takes the downtime off timed passes (ending any that ran
+   * out), and `refund` ends packs with their unused coins returned.
+   */
+  restoreSessions(policy: PaywallDowntimePolicy = 'freeze') {
+    if (!this.store) return [];
+    const now = Date.now();
+    const restored: PaywallSession[] = [];
+    for (const { session: saved, savedAt } of this.store.list()) {
+      const downtimeSeconds = Math.max(0, Math.floor((now - savedAt) / 1000));
+      const session = policy === 'count-down' && Number.isFinite(saved.remainingSeconds)
+        ? reducePaywallSessionLifecycle(saved, { type: 'tick-countdown', now, intervalSeconds: downtimeSeconds, clampRemainingToZero: true })
+        : reducePaywallSessionLifecycle(saved, { type: 'touch', now });
+      this.sessions.set(session.domain, session);
+
+      if (policy === 'refund' && session.mode === 'pack') {
+        this.endSession(session.domain, 'downtime-refund', { refundUnused: true });
+        continue;
+      }
+      if (session.remainingSeconds <= 0) {
+        this.endSession(session.domain, 'expired-offline');
+        continue;
+      }
+
+      this.store.save([session]);
+      this.recordDiagnostic({
+        ts: now,
+        event: 'session-started',
+        domain: session.domain,
+        mode: session.mode,
+        remainingSeconds: Number.isFinite(session.remainingSeconds) ? session.remainingSeconds : null,
+        paused: Boolean(session.paused),
+        reason: `restored-${policy}`
+      });
+      restored.push({ ...session });
+    }
+    if (restored.length > 0) {
+      logger.info(`Restored ${restored.length} paywall session(s) after restart (${policy})`);
+    }
+    return restored;
   }
 }
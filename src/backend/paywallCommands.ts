@@ -5,14 +5,10 @@ import type { MarketService } from './market';
 import type { EmergencyService } from './emergency';
 import type { SettingsService } from './settings';
 import type { ConsumptionLogService } from './consumption';
-import type { GuardrailColorFilter } from '@shared/types';
+import type { ChallengeService } from './challenges';
+import type { ChallengeSubmission, GuardrailColorFilter } from '@shared/types';
 import { canonicalizeDomain } from '@shared/domainCanonicalization';
 
-type StartChallengePassOptions = {
-  durationSeconds?: number;
-  solvedSquares?: number;
-};
-
 export type PaywallCommandContext = {
   economy: EconomyEngine;
   paywall: PaywallManager;
@@ -21,6 +17,7 @@ export type PaywallCommandContext = {
   emergency: EmergencyService;
   settings: SettingsService;
   consumption: ConsumptionLogService;
+  challenges: ChallengeService;
 };
 
 export class PaywallCommandService {
@@ -47,14 +44,29 @@ export class PaywallCommandService {
     return preferred;
   }
 
-  startMetered(domain: string, preferredColorFilter?: string) {
+  startMetered(domain: string, preferredColorFilter?: string, quoteId?: string) {
     const target = this.requireDomain(domain);
-    return this.ctx.economy.startPayAsYouGo(target, { colorFilter: this.resolveColorFilter(preferredColorFilter) });
+    return this.ctx.economy.startPayAsYouGo(target, { colorFilter: this.resolveColorFilter(preferredColorFilter), quoteId });
   }
 
-  buyPack(domain: string, minutes: number, preferredColorFilter?: string) {
+  buyPack(domain: string, minutes: number, preferredColorFilter?: string, quoteId?: string) {
     const target = this.requireDomain(domain);
-    return this.ctx.economy.buyPack(target, minutes, { colorFilter: this.resolveColorFilter(preferredColorFilter) });
+    return this.ctx.economy.buyPack(target, minutes, { colorFilter: this.resolveColorFilter(preferredColorFilter), quoteId });
+  }
+
+  /** Itemized prices for the metered option and each requested pack length, under the filter a purchase would use. */
+  quote(domain: string, options: { minutes?: number[]; colorFilter?: string } = {}) {
+    const target = this.requireDomain(domain);
+    const colorFilter = this.resolveColorFilter(options.colorFilter);
+    // Quoting metered first makes sure the domain has a rate to list packs from.
+    const metered = this.ctx.economy.quoteMetered(target, { colorFilter });
+    const minutes = options.minutes?.length ? options.minutes : this.ctx.market.getRate(target)?.packs.map((pack) => pack.minutes) ?? [];
+    return {
+      metered,
+      packs: [...new Set(minutes.map((value) => Math.max(1, Math.round(value))))].map((value) =>
+        this.ctx.economy.quotePack(target, value, { colorFilter })
+      )
+    };
   }
 
   startEmergency(domain: string, justification: string, options?: { url?: string }) {
@@ -117,23 +129,33 @@ export class PaywallCommandService {
     this.ctx.paywall.resume(target);
   }
 
-  startChallengePass(domain: string, options: StartChallengePassOptions = {}) {
+  issueChallenge(domain: string) {
     const target = this.requireDomain(domain);
-    const durationSeconds = Number.isFinite(options.durationSeconds)
-      ? Math.max(60, Math.min(3600, Math.round(options.durationSeconds as number)))
-      : 12 * 60;
-    const solvedSquares = Number.isFinite(options.solvedSquares)
-      ? Math.max(1, Math.round(options.solvedSquares as number))
-      : null;
-    const session = this.ctx.paywall.startEmergency(target, 'Sudoku challenge unlock', { durationSeconds });
+    return this.ctx.challenges.issue(target);
+  }
+
+  /** Grants a pass only for a server-issued challenge the server has checked; its length comes from the challenge. */
+  startChallengePass(domain: string, submission: ChallengeSubmission) {
+    const target = this.requireDomain(domain);
+    const result = this.ctx.challenges.submit(target, submission);
+    if (!result.passed) {
+      throw new Error(
+        result.reason === 'too-fast'
+          ? 'Challenge solved too quickly to verify; request a new one'
+          : `Only ${result.correctSquares} of ${result.requiredCorrect} squares were correct; request a new challenge`
+      );
+    }
+    const session = this.ctx.paywall.startEmergency(target, 'Sudoku challenge unlock', { durationSeconds: result.passSeconds });
     this.ctx.consumption.record({
       kind: 'emergency-session',
       title: target,
       domain: target,
       meta: {
         source: 'sudoku-challenge',
-        durationSeconds,
-        solvedSquares
+        challengeId: result.challengeId,
+        durationSeconds: result.passSeconds,
+        solvedSquares: result.correctSquares,
+        elapsedSeconds: result.elapsedSeconds
       }
     });
     return session;
@@ -0,0 +1,118 @@
+import type { Statement } from 'better-sqlite3';
+import type { Database } from './storage';
+import type { PaywallDiagnosticEvent, PaywallDiagnosticsQuery } from '@shared/types';
+import { canonicalizeDomain } from '@shared/domainCanonicalization';
+
+type PaywallDiagnosticRow = {
+  ts: number;
+  event: PaywallDiagnosticEvent['event'];
+  domain: string;
+  mode: PaywallDiagnosticEvent['mode'] | null;
+  reason: string | null;
+  remaining_seconds: number | null;
+  paused: number | null;
+  interval_seconds: number | null;
+  active_domain: string | null;
+  active_url: string | null;
+};
+
+export const DIAGNOSTICS_RETENTION_DAYS = 14;
+export const DIAGNOSTICS_MAX_ROWS = 50_000;
+// Pruning is a couple of indexed deletes; doing it every few hundred inserts keeps ticks cheap.
+const PRUNE_EVERY = 500;
+const DEFAULT_QUERY_LIMIT = 500;
+const MAX_QUERY_LIMIT = 5000;
+
+const DIAGNOSTIC_COLUMNS = 'ts, event, domain, mode, reason, remaining_seconds, paused, interval_seconds, active_domain, active_url';
+
+function rowToEvent(row: PaywallDiagnosticRow): PaywallDiagnosticEvent {
+  const event: PaywallDiagnosticEvent = { ts: row.ts, event: row.event, domain: row.domain, remainingSeconds: row.remaining_seconds };
+  if (row.mode) event.mode = row.mode;
+  if (row.reason) event.reason = row.reason;
+  if (row.paused !== null) event.paused = Boolean(row.paused);
+  if (row.interval_seconds !== null) event.intervalSeconds = row.interval_seconds;
+  if (row.active_domain !== null) event.activeDomain = row.active_domain;
+  if (row.active_url !== null) event.activeUrl = row.active_url;
+  return event;
+}
+
+/**
+ * Durable copy of `PaywallManager`'s diagnostic events, so "why did my pack
+ * end?" can still be answered after a restart. Rows older than
+ * `DIAGNOSTICS_RETENTION_DAYS` are dropped, and the table never grows past
+ * `DIAGNOSTICS_MAX_ROWS`.
+ */
+export class PaywallDiagnosticsLog {
+  private db = this.database.connection;
+  private insertStmt: Statement;
+  private pruneAgeStmt: Statement;
+  private pruneOverflowStmt: Statement;
+  private clearStmt: Statement;
+  private insertsSincePrune = 0;
+
+  constructor(private database: Database) {
+    this.insertStmt = this.db.prepare(
+      `INSERT INTO paywall_diagnostics(${DIAGNOSTIC_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    this.pruneAgeStmt = this.db.prepare('DELETE FROM paywall_diagnostics WHERE ts < ?');
+    this.pruneOverflowStmt = this.db.prepare(
+      'DELETE FROM paywall_diagnostics WHERE id <= (SELECT id FROM paywall_diagnostics ORDER BY id DESC LIMIT 1 OFFSET ?)'
+    );
+    this.clearStmt = this.db.prepare('DELETE FROM paywall_diagnostics');
+    this.prune();
+  }
+
+  record(event: PaywallDiagnosticEvent) {
+    this.insertStmt.run(
+      event.ts,
+      event.event,
+      event.domain,
+      event.mode ?? null,
+      event.reason ?? null,
+      event.remainingSeconds ?? null,
+      event.paused === undefined ? null : event.paused ? 1 : 0,
+      event.intervalSeconds ?? null,
+      event.activeDomain ?? null,
+      event.activeUrl ?? null
+    );
+    this.insertsSincePrune += 1;
+    if (this.insertsSincePrune >= PRUNE_EVERY) this.prune();
+  }
+
+  /** The newest `limit` events matching the filters, oldest first. */
+  query(query: PaywallDiagnosticsQuery = {}): PaywallDiagnosticEvent[] {
+    const clauses: string[] = [];
+    const params: Array<string | number> = [];
+    if (query.domain) {
+      clauses.push('domain = ?');
+      params.push(canonicalizeDomain(query.domain) ?? query.domain.trim().toLowerCase());
+    }
+    if (Number.isFinite(query.since)) {
+      clauses.push('ts >= ?');
+      params.push(Number(query.since));
+    }
+    if (Number.isFinite(query.until)) {
+      clauses.push('ts <= ?');
+      params.push(Number(query.until));
+    }
+    const limit = Number.isFinite(query.limit)
+      ? Math.max(1, Math.min(MAX_QUERY_LIMIT, Math.round(Number(query.limit))))
+      : DEFAULT_QUERY_LIMIT;
+    const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT ${DIAGNOSTIC_COLUMNS} FROM paywall_diagnostics ${where} ORDER BY ts DESC, id DESC LIMIT ?`)
+      .all(...params, limit) as PaywallDiagnosticRow[];
+    return rows.reverse().map(rowToEvent);
+  }
+
+  prune(now = Date.now()) {
+    this.insertsSincePrune = 0;
+    const aged = this.pruneAgeStmt.run(now - DIAGNOSTICS_RETENTION_DAYS * 24 * 60 * 60 * 1000).changes;
+    const overflow = this.pruneOverflowStmt.run(DIAGNOSTICS_MAX_ROWS).changes;
+    return aged + overflow;
+  }
+
+  clear() {
+    this.clearStmt.run();
+  }
+}
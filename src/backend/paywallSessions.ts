@@ -0,0 +1,134 @@
+import type { Statement } from 'better-sqlite3';
+import type { Database } from './storage';
+import type { PaywallSession } from './paywall';
+
+type PaywallSessionRow = {
+  domain: string;
+  mode: PaywallSession['mode'];
+  color_filter: PaywallSession['colorFilter'] | null;
+  rate_per_min: number;
+  remaining_seconds: number | null;
+  last_tick: number;
+  started_at: number | null;
+  paused: number;
+  manual_paused: number;
+  purchase_price: number | null;
+  purchased_seconds: number | null;
+  spend_remainder: number | null;
+  pack_chain_count: number | null;
+  metered_multiplier: number | null;
+  justification: string | null;
+  last_reminder: number | null;
+  allowed_url: string | null;
+  updated_at: string;
+};
+
+export type StoredPaywallSession = {
+  session: PaywallSession;
+  /** When the running app last wrote the row, i.e. the last moment it was tracking the session. */
+  savedAt: number;
+};
+
+const SESSION_COLUMNS = [
+  'domain',
+  'mode',
+  'color_filter',
+  'rate_per_min',
+  'remaining_seconds',
+  'last_tick',
+  'started_at',
+  'paused',
+  'manual_paused',
+  'purchase_price',
+  'purchased_seconds',
+  'spend_remainder',
+  'pack_chain_count',
+  'metered_multiplier',
+  'justification',
+  'last_reminder',
+  'allowed_url'
+];
+
+function rowToSession(row: PaywallSessionRow): PaywallSession {
+  const session: PaywallSession = {
+    domain: row.domain,
+    mode: row.mode,
+    ratePerMin: row.rate_per_min,
+    remainingSeconds: row.remaining_seconds ?? Infinity,
+    lastTick: row.last_tick,
+    paused: Boolean(row.paused),
+    manualPaused: Boolean(row.manual_paused)
+  };
+  if (row.color_filter) session.colorFilter = row.color_filter;
+  if (row.started_at != null) session.startedAt = row.started_at;
+  if (row.purchase_price != null) session.purchasePrice = row.purchase_price;
+  if (row.purchased_seconds != null) session.purchasedSeconds = row.purchased_seconds;
+  if (row.spend_remainder != null) session.spendRemainder = row.spend_remainder;
+  if (row.pack_chain_count != null) session.packChainCount = row.pack_chain_count;
+  if (row.metered_multiplier != null) session.meteredMultiplier = row.metered_multiplier;
+  if (row.justification != null) session.justification = row.justification;
+  if (row.last_reminder != null) session.lastReminder = row.last_reminder;
+  if (row.allowed_url) session.allowedUrl = row.allowed_url;
+  return session;
+}
+
+/**
+ * Write-through copy of `PaywallManager`'s live sessions, one row per domain,
+ * so a restart can pick them back up. Rows are replaced wholesale on every
+ * save; the manager owns all the lifecycle rules.
+ */
+export class PaywallSessionStore {
+  private db = this.database.connection;
+  private listStmt: Statement;
+  private upsertStmt: Statement;
+  private deleteStmt: Statement;
+
+  constructor(private database: Database) {
+    this.listStmt = this.db.prepare(`SELECT ${SESSION_COLUMNS.join(', ')}, updated_at FROM paywall_sessions ORDER BY started_at ASC`);
+    this.upsertStmt = this.db.prepare(
+      `INSERT OR REPLACE INTO paywall_sessions(${SESSION_COLUMNS.join(', ')}, updated_at)
+       VALUES (${SESSION_COLUMNS.map(() => '?').join(', ')}, ?)`
+    );
+    this.deleteStmt = this.db.prepare('DELETE FROM paywall_sessions WHERE domain = ?');
+  }
+
+  list(): StoredPaywallSession[] {
+    return (this.listStmt.all() as PaywallSessionRow[]).map((row) => ({
+      session: rowToSession(row),
+      savedAt: Date.parse(row.updated_at)
+    }));
+  }
+
+  save(sessions: PaywallSession[]) {
+    if (sessions.length === 0) return;
+    const updatedAt = new Date().toISOString();
+    this.db.transaction(() => {
+      for (const session of sessions) {
+        this.upsertStmt.run(
+          session.domain,
+          session.mode,
+          session.colorFilter ?? null,
+          session.ratePerMin,
+          Number.isFinite(session.remainingSeconds) ? session.remainingSeconds : null,
+          session.lastTick,
+          session.startedAt ?? null,
+          session.paused ? 1 : 0,
+          session.manualPaused ? 1 : 0,
+          session.purchasePrice ?? null,
+          session.purchasedSeconds ?? null,
+          session.spendRemainder ?? null,
+          session.packChainCount ?? null,
+          session.meteredMultiplier ?? null,
+          session.justification ?? null,
+          session.lastReminder ?? null,
+          session.allowedUrl ?? null,
+          updatedAt
+        );
+      }
+    })();
+  }
+
+  delete(domain: string) {
+    this.deleteStmt.run(domain);
+  }
+}
@@ -5,17 +5,24 @@ import type { Database } from './storage';
 import type {
   PomodoroAllowlistEntry,
   PomodoroBlockEvent,
+  PomodoroCompletedReason,
   PomodoroMode,
   PomodoroOverride,
+  PomodoroPhase,
+  PomodoroPlanProgress,
   PomodoroSession,
   PomodoroSessionConfig,
   PomodoroSessionState,
   PomodoroSessionSummary
 } from '@shared/types';
 import { logger } from '@shared/logger';
+import { POMODORO_PHASE_LABELS, buildPomodoroPhases, validatePomodoroPlan } from '@shared/pomodoroPlan';
 
 const DEFAULT_BREAK_DURATION_SEC = 5 * 60;
 const DEFAULT_TEMPORARY_UNLOCK_SEC = 5 * 60;
+const CHECKPOINT_INTERVAL_MS = 15_000;
+/** Paused sessions left longer than this are closed instead of restored after a restart. */
+const PAUSED_RESTORE_LIMIT_MS = 12 * 60 * 60 * 1000;
 
 type ActivePomodoro = PomodoroSession & {
   timer: NodeJS.Timeout | null;
@@ -24,6 +31,24 @@ type ActivePomodoro = PomodoroSession & {
   breakEndsAt?: number | null;
 };
 
+type PomodoroSessionRow = {
+  id: string;
+  mode: PomodoroMode;
+  state: PomodoroSessionState;
+  started_at: string;
+  planned_duration_sec: number;
+  break_duration_sec: number;
+  temporary_unlock_sec: number;
+  allowlist_json: string;
+  overrides_json: string;
+  preset_id?: string | null;
+  plan_json?: string | null;
+  elapsed_ms?: number | null;
+  resumed_at?: string | null;
+  break_ends_at?: string | null;
+  checkpoint_at?: string | null;
+};
+
 function safeId() {
   try {
     return randomUUID();
@@ -36,12 +61,51 @@ function nowIso() {
   return new Date().toISOString();
 }
 
+function isoOrNull(ms: number | null | undefined) {
+  return ms == null ? null : new Date(ms).toISOString();
+}
+
+/** Last moment a running app is known to have been tracking the row. */
+function lastSeenMs(row: PomodoroSessionRow) {
+  return Date.parse(row.checkpoint_at ?? row.started_at);
+}
+
+function isPlanPhase(value: unknown): value is PomodoroPhase {
+  if (!value || typeof value !== 'object') return false;
+  const phase = value as Record<string, unknown>;
+  return (
+    typeof phase.kind === 'string' &&
+    Object.prototype.hasOwnProperty.call(POMODORO_PHASE_LABELS, phase.kind) &&
+    Number.isFinite(phase.durationSec) &&
+    Number.isFinite(phase.cycle)
+  );
+}
+
+/** Reads a stored plan; anything that isn't a well-formed plan is dropped rather than trusted. */
+function parsePlan(raw: string | null | undefined): PomodoroPlanProgress | null {
+  if (!raw) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object') return null;
+  const plan = parsed as Record<string, unknown>;
+  if (!Number.isInteger(plan.cycles) || !Number.isInteger(plan.currentIndex)) return null;
+  if (!Array.isArray(plan.phases) || !plan.phases.length || !plan.phases.every(isPlanPhase)) return null;
+  return plan as PomodoroPlanProgress;
+}
+
 export class PomodoroService extends EventEmitter {
   private db = this.database.connection;
   private insertSessionStmt: Statement;
   private updateSessionStmt: Statement;
   private insertBlockStmt: Statement;
+  private updateRuntimeStmt: Statement;
+  private updatePlanStmt: Statement;
   private active: ActivePomodoro | null = null;
+  private lastCheckpointMs = 0;
 
   constructor(private database: Database) {
     super();
@@ -49,9 +113,9 @@ export class PomodoroService extends EventEmitter {
       `
         INSERT INTO pomodoro_sessions(
           id, mode, state, started_at, planned_duration_sec, break_duration_sec,
-          temporary_unlock_sec, allowlist_json, overrides_json, preset_id, completed_reason
+          temporary_unlock_sec, allowlist_json, overrides_json, preset_id, plan_json, completed_reason
         )
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)
       `
     );
     this.updateSessionStmt = this.db.prepare(
@@ -68,15 +132,27 @@ export class PomodoroService extends EventEmitter {
         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
       `
     );
+    this.updateRuntimeStmt = this.db.prepare(
+      `
+        UPDATE pomodoro_sessions
+        SET state = ?, overrides_json = ?, plan_json = ?, elapsed_ms = ?, resumed_at = ?, break_ends_at = ?, checkpoint_at = ?
+        WHERE id = ?
+      `
+    );
+    this.updatePlanStmt = this.db.prepare('UPDATE pomodoro_sessions SET state = ?, plan_json = ? WHERE id = ?');
 
-    // Attempt to resume an in-flight session if the app restarts mid-run.
-    this.resumeActiveSession();
+    // Pick up (or close out) whatever session was running when the app last exited.
+    this.restoreActiveSession();
   }
 
   start(config: PomodoroSessionConfig): PomodoroSession {
     if (config.durationSec < 300) {
       throw new Error('Pomodoro session must be at least 5 minutes');
     }
+    const planProblem = config.plan ? validatePomodoroPlan(config.plan) : null;
+    if (planProblem) {
+      throw new Error(planProblem);
+    }
 
     if (this.active) {
       this.stop('canceled');
@@ -89,6 +165,10 @@ export class PomodoroService extends EventEmitter {
       id: entry.id || safeId()
     }));
     const overrides: PomodoroOverride[] = [];
+    const plan: PomodoroPlanProgress | null = config.plan
+      ? { cycles: config.plan.cycles, currentIndex: 0, phases: buildPomodoroPhases(config.durationSec, allowlist, config.plan) }
+      : null;
+    if (plan) plan.phases[0].startedAt = startedAt;
 
     const record: PomodoroSession = {
       id,
@@ -96,13 +176,14 @@ export class PomodoroService extends EventEmitter {
       startedAt,
       endedAt: null,
       plannedDurationSec: config.durationSec,
-      breakDurationSec: config.breakDurationSec ?? DEFAULT_BREAK_DURATION_SEC,
+      breakDurationSec: config.plan?.shortBreakSec ?? config.breakDurationSec ?? DEFAULT_BREAK_DURATION_SEC,
       mode: config.mode,
       allowlist,
       temporaryUnlockSec: config.temporaryUnlockSec ?? DEFAULT_TEMPORARY_UNLOCK_SEC,
       overrides,
       remainingMs: config.durationSec * 1000,
-      presetId: config.presetId ?? null
+      presetId: config.presetId ?? null,
+      plan
     };
 
     this.insertSessionStmt.run(
@@ -115,16 +196,18 @@ export class PomodoroService extends EventEmitter {
       record.temporaryUnlockSec,
       JSON.stringify(record.allowlist),
       JSON.stringify(record.overrides),
-      record.presetId
+      record.presetId,
+      plan ? JSON.stringify(plan) : null
     );
 
     this.active = { ...record, timer: null, resumeAt: Date.now(), elapsedMs: 0, breakEndsAt: null };
+    this.persistRuntime();
     this.startTicker();
     this.emit('start', this.snapshot());
     return this.snapshot();
   }
 
-  stop(reason: 'completed' | 'canceled' | 'expired' = 'canceled'): PomodoroSession | null {
+  stop(reason: PomodoroCompletedReason = 'canceled'): PomodoroSession | null {
     if (!this.active) return null;
     if (this.active.timer) {
       clearInterval(this.active.timer);
@@ -135,6 +218,7 @@ export class PomodoroService extends EventEmitter {
     this.active.state = 'ended';
     this.active.endedAt = endedAt;
     this.active.completedReason = reason;
+    this.persistRuntime();
     this.persistSessionState(reason);
 
     const snapshot = this.snapshot();
@@ -173,7 +257,7 @@ export class PomodoroService extends EventEmitter {
       .filter((o) => !(o.target === payload.target && o.kind === payload.kind))
       .concat(override);
 
-    this.persistActiveState();
+    this.persistRuntime();
     this.emit('override', { sessionId: this.active.id, override });
     return this.snapshot();
   }
@@ -191,17 +275,17 @@ export class PomodoroService extends EventEmitter {
     }
     this.active.resumeAt = null;
     this.active.state = 'paused';
-    this.persistActiveState();
-    this.persistState('paused');
+    this.persistRuntime();
     this.emit('pause', this.snapshot());
     return this.snapshot();
   }
 
   resume(): PomodoroSession | null {
     if (!this.active) return null;
+    if (this.active.plan && this.active.state !== 'paused') return this.snapshot();
     this.active.state = 'active';
     this.active.resumeAt = Date.now();
-    this.persistState('active');
+    this.persistRuntime();
     this.startTicker();
     this.emit('resume', this.snapshot());
     return this.snapshot();
@@ -209,17 +293,35 @@ export class PomodoroService extends EventEmitter {
 
   startBreak(durationSec?: number): PomodoroSession | null {
     if (!this.active) return null;
+    if (this.active.plan) {
+      // Plans schedule their own breaks; this just starts the next one early.
+      const next = this.active.plan.phases[this.active.plan.currentIndex + 1];
+      if (this.active.state !== 'break' && next && next.kind !== 'focus') {
+        this.advancePhase(Date.now(), true);
+      }
+      return this.snapshot();
+    }
     const breakDuration = durationSec ?? this.active.breakDurationSec ?? DEFAULT_BREAK_DURATION_SEC;
     const endsAt = Date.now() + breakDuration * 1000;
     this.active.state = 'break';
     this.active.breakRemainingMs = breakDuration * 1000;
     this.active.breakEndsAt = endsAt;
-    this.persistState('break');
+    this.persistRuntime();
     this.startTicker();
     this.emit('break', this.snapshot());
     return this.snapshot();
   }
 
+  /** Ends the current phase of a plan early; skipping the last phase finishes the plan. */
+  skipPhase(): PomodoroSession | null {
+    if (!this.active) return null;
+    if (!this.active.plan) return this.snapshot();
+    if (!this.advancePhase(Date.now(), true)) {
+      return this.stop('completed');
+    }
+    return this.snapshot();
+  }
+
   recordBlock(event: Omit<PomodoroBlockEvent, 'occurredAt' | 'sessionId'>): void {
     const activeId = this.active?.id;
     if (!activeId) return;
@@ -249,73 +351,217 @@ export class PomodoroService extends EventEmitter {
     } satisfies PomodoroBlockEvent);
   }
 
-  private resumeActiveSession() {
+  private restoreActiveSession() {
+    let rows: PomodoroSessionRow[];
     try {
-      const row = this.db
-        .prepare(
-          `
-            SELECT * FROM pomodoro_sessions
-            WHERE state != 'ended'
-            ORDER BY started_at DESC
-            LIMIT 1
-          `
-        )
-        .get() as
-        | {
-            id: string;
-            mode: PomodoroMode;
-            state: PomodoroSessionState;
-            started_at: string;
-            planned_duration_sec: number;
-            break_duration_sec: number;
-            temporary_unlock_sec: number;
-            allowlist_json: string;
-            overrides_json: string;
-            preset_id?: string | null;
-          }
-        | undefined;
-
-      if (!row) return;
+      rows = this.db
+        .prepare("SELECT * FROM pomodoro_sessions WHERE state != 'ended' ORDER BY started_at DESC")
+        .all() as PomodoroSessionRow[];
+    } catch (error) {
+      logger.error('Failed to load unfinished pomodoro sessions', error);
+      return;
+    }
 
-      const allowlist = JSON.parse(row.allowlist_json) as PomodoroAllowlistEntry[];
-      const overrides = JSON.parse(row.overrides_json) as PomodoroOverride[];
-      const plannedMs = row.planned_duration_sec * 1000;
-      const startedMs = new Date(row.started_at).getTime();
-      const elapsedMs = Math.max(0, Date.now() - startedMs);
-      const remainingMs = Math.max(0, plannedMs - elapsedMs);
+    const [latest, ...orphaned] = rows;
+    // Only one session runs at a time, so older open rows were left behind by earlier crashes.
+    for (const row of orphaned) {
+      this.closeRow(row, 'interrupted', lastSeenMs(row));
+    }
+    if (!latest) return;
 
-      const record: PomodoroSession = {
-        id: row.id,
-        state: remainingMs <= 0 ? 'ended' : row.state,
-        startedAt: row.started_at,
-        endedAt: null,
-        plannedDurationSec: row.planned_duration_sec,
-        breakDurationSec: row.break_duration_sec,
-        mode: row.mode,
-        allowlist,
-        temporaryUnlockSec: row.temporary_unlock_sec,
-        overrides,
-        remainingMs,
-        presetId: row.preset_id ?? null,
-        completedReason: remainingMs <= 0 ? 'expired' : undefined
-      };
+    try {
+      this.restoreRow(latest);
+    } catch (error) {
+      logger.error('Failed to restore pomodoro session', error);
+      this.active = null;
+      this.closeRow(latest, 'interrupted', lastSeenMs(latest));
+    }
+  }
 
-      if (remainingMs <= 0) {
-        this.updateSessionStmt.run('ended', nowIso(), JSON.stringify(overrides), 'expired', record.id);
+  /**
+   * Rebuilds the in-memory session from its persisted runtime state. Focus and
+   * break time keep running on the wall clock while the app is closed; a
+   * session whose time ran out in the meantime is closed as `expired` at the
+   * moment it would have ended.
+   */
+  private restoreRow(row: PomodoroSessionRow) {
+    const now = Date.now();
+    const lastSeen = lastSeenMs(row);
+    const plan = parsePlan(row.plan_json);
+    const overrides = (JSON.parse(row.overrides_json) as PomodoroOverride[]).filter(
+      (override) => Date.parse(override.expiresAt) > now
+    );
+    const active: ActivePomodoro = {
+      id: row.id,
+      state: row.state,
+      startedAt: row.started_at,
+      endedAt: null,
+      plannedDurationSec: row.planned_duration_sec,
+      breakDurationSec: row.break_duration_sec,
+      mode: row.mode,
+      allowlist: JSON.parse(row.allowlist_json) as PomodoroAllowlistEntry[],
+      temporaryUnlockSec: row.temporary_unlock_sec,
+      overrides,
+      remainingMs: 0,
+      presetId: row.preset_id ?? null,
+      plan,
+      breakRemainingMs: null,
+      timer: null,
+      resumeAt: null,
+      elapsedMs: row.elapsed_ms ?? 0,
+      breakEndsAt: null
+    };
+    if (plan) {
+      plan.currentIndex = Math.max(0, Math.min(plan.currentIndex, plan.phases.length - 1));
+    }
+
+    if (row.state === 'paused') {
+      if (now - lastSeen > PAUSED_RESTORE_LIMIT_MS) {
+        this.closeRow(row, 'interrupted', lastSeen);
+        return;
+      }
+      active.remainingMs = Math.max(0, active.plannedDurationSec * 1000 - active.elapsedMs);
+      this.active = active;
+    } else if (plan) {
+      this.active = active;
+      if (!this.catchUpPlan(row, plan)) return;
+    } else if (row.state === 'break') {
+      const breakEndsMs = row.break_ends_at ? Date.parse(row.break_ends_at) : null;
+      if (breakEndsMs == null) {
+        this.closeRow(row, 'interrupted', lastSeen);
+        return;
+      }
+      if (breakEndsMs <= now) {
+        this.closeRow(row, 'expired', breakEndsMs);
         return;
       }
+      active.breakEndsAt = breakEndsMs;
+      active.breakRemainingMs = breakEndsMs - now;
+      active.resumeAt = row.resumed_at ? Date.parse(row.resumed_at) : null;
+      this.active = active;
+    } else {
+      // Rows written before runtime state was persisted only know when they started.
+      const resumedMs = Date.parse(row.resumed_at ?? row.started_at);
+      const plannedMs = active.plannedDurationSec * 1000;
+      const elapsedMs = active.elapsedMs + Math.max(0, now - resumedMs);
+      if (elapsedMs >= plannedMs) {
+        this.closeRow(row, 'expired', resumedMs + plannedMs - active.elapsedMs);
+        return;
+      }
+      active.state = 'active';
+      active.resumeAt = resumedMs;
+      active.remainingMs = plannedMs - elapsedMs;
+      this.active = active;
+    }
 
-      this.active = {
-        ...record,
-        timer: null,
-        resumeAt: row.state === 'paused' ? null : Date.now(),
-        elapsedMs: plannedMs - remainingMs,
-        breakEndsAt: null
-      };
-      this.startTicker();
-      this.emit('start', this.snapshot());
-    } catch (error) {
-      logger.error('Failed to resume pomodoro session', error);
+    logger.info('Restored pomodoro session after restart', {
+      sessionId: row.id,
+      state: this.active.state,
+      downtimeMs: Math.max(0, now - lastSeen)
+    });
+    this.persistRuntime();
+    this.startTicker();
+  }
+
+  /**
+   * Replays plan phases that ran out while the app was closed, each ending at
+   * its scheduled time. Returns false when the whole plan ran out.
+   */
+  private catchUpPlan(row: PomodoroSessionRow, plan: PomodoroPlanProgress): boolean {
+    const now = Date.now();
+    let index = plan.currentIndex;
+    const current = plan.phases[index];
+    const fallbackStartMs = Date.parse(current.startedAt ?? row.started_at);
+    let phaseStartMs: number;
+    if (current.kind === 'focus') {
+      // Paused time doesn't count, so the phase effectively started `elapsed_ms` before the last resume.
+      phaseStartMs = (row.resumed_at ? Date.parse(row.resumed_at) : fallbackStartMs) - (row.elapsed_ms ?? 0);
+    } else {
+      phaseStartMs = row.break_ends_at ? Date.parse(row.break_ends_at) - current.durationSec * 1000 : fallbackStartMs;
+    }
+
+    while (index < plan.phases.length) {
+      const endMs = phaseStartMs + plan.phases[index].durationSec * 1000;
+      if (endMs > now) break;
+      plan.phases[index].endedAt = new Date(endMs).toISOString();
+      index += 1;
+      if (index < plan.phases.length) {
+        plan.phases[index].startedAt = new Date(endMs).toISOString();
+      }
+      phaseStartMs = endMs;
+    }
+
+    if (index >= plan.phases.length) {
+      plan.currentIndex = plan.phases.length - 1;
+      this.active = null;
+      this.closeRow(row, 'expired', phaseStartMs, plan);
+      return false;
+    }
+
+    plan.currentIndex = index;
+    this.enterPhase(plan.phases[index], phaseStartMs);
+    return true;
+  }
+
+  /** Ends a session row that can't be resumed, without emitting events. */
+  private closeRow(row: PomodoroSessionRow, reason: PomodoroCompletedReason, endedMs: number, plan?: PomodoroPlanProgress) {
+    if (plan) {
+      this.updatePlanStmt.run('ended', JSON.stringify(plan), row.id);
+    }
+    this.updateSessionStmt.run('ended', new Date(endedMs).toISOString(), row.overrides_json, reason, row.id);
+    logger.info('Closed pomodoro session left open by a previous run', { sessionId: row.id, reason });
+  }
+
+  /**
+   * Closes the current phase at `atMs` and starts the next one. Returns false
+   * when the plan has no phases left.
+   */
+  private advancePhase(atMs = Date.now(), skipped = false): boolean {
+    const plan = this.active?.plan;
+    if (!this.active || !plan) return false;
+    const current = plan.phases[plan.currentIndex];
+    const next = plan.phases[plan.currentIndex + 1];
+    if (current) {
+      current.endedAt = new Date(atMs).toISOString();
+      if (skipped) current.skipped = true;
+    }
+    if (!next) return false;
+
+    plan.currentIndex += 1;
+    next.startedAt = new Date(atMs).toISOString();
+    this.enterPhase(next, atMs);
+    this.persistRuntime();
+    logger.info('Pomodoro phase started', { sessionId: this.active.id, phase: next.kind, cycle: next.cycle });
+    this.emit('phase', this.snapshot());
+    return true;
+  }
+
+  private enterPhase(phase: PomodoroPhase, startedMs: number) {
+    if (!this.active) return;
+    const elapsed = Math.max(0, Date.now() - startedMs);
+    if (phase.allowlist) {
+      this.active.allowlist = phase.allowlist;
+    }
+    if (phase.kind === 'focus') {
+      this.active.state = 'active';
+      this.active.plannedDurationSec = phase.durationSec;
+      this.active.elapsedMs = 0;
+      this.active.resumeAt = startedMs;
+      this.active.remainingMs = Math.max(0, phase.durationSec * 1000 - elapsed);
+      this.active.breakEndsAt = null;
+      this.active.breakRemainingMs = null;
+      return;
+    }
+    this.active.state = 'break';
+    this.active.breakDurationSec = phase.durationSec;
+    this.active.breakEndsAt = startedMs + phase.durationSec * 1000;
+    this.active.breakRemainingMs = Math.max(0, this.active.breakEndsAt - Date.now());
+    this.active.remainingMs = 0;
+  }
+
+  private finishPhase() {
+    if (!this.advancePhase()) {
+      this.stop('completed');
     }
   }
 
@@ -341,15 +587,19 @@ export class PomodoroService extends EventEmitter {
         });
         if (filtered.length !== this.active.overrides.length) {
           this.active.overrides = filtered;
-          this.persistActiveState();
+          this.persistRuntime();
         }
       }
+      // Checkpoint regularly so a restart knows how long the app was gone.
+      if (now - this.lastCheckpointMs >= CHECKPOINT_INTERVAL_MS) {
+        this.persistRuntime();
+      }
 
       if (this.active.state === 'break') {
         const remainingBreak = this.active.breakEndsAt ? Math.max(0, this.active.breakEndsAt - now) : 0;
         this.active.breakRemainingMs = remainingBreak;
         if (remainingBreak <= 0) {
-          this.stop('completed');
+          this.finishPhase();
           return;
         }
         this.emit('tick', this.snapshot());
@@ -357,7 +607,7 @@ export class PomodoroService extends EventEmitter {
       }
 
       if (remainingMs <= 0) {
-        this.stop('completed');
+        this.finishPhase();
         return;
       }
 
@@ -376,30 +626,20 @@ export class PomodoroService extends EventEmitter {
     return this.active.elapsedMs;
   }
 
-  private persistActiveState() {
+  /** Writes everything a restart needs to pick the session back up. */
+  private persistRuntime() {
     if (!this.active) return;
-    this.db
-      .prepare(
-        `
-          UPDATE pomodoro_sessions
-          SET overrides_json = ?
-          WHERE id = ?
-        `
-      )
-      .run(JSON.stringify(this.active.overrides), this.active.id);
-  }
-
-  private persistState(state: PomodoroSessionState) {
-    if (!this.active) return;
-    this.db
-      .prepare(
-        `
-          UPDATE pomodoro_sessions
-          SET state = ?, overrides_json = ?
-          WHERE id = ?
-        `
-      )
-      .run(state, JSON.stringify(this.active.overrides), this.active.id);
+    this.lastCheckpointMs = Date.now();
+    this.updateRuntimeStmt.run(
+      this.active.state,
+      JSON.stringify(this.active.overrides),
+      this.active.plan ? JSON.stringify(this.active.plan) : null,
+      Math.round(this.active.elapsedMs),
+      isoOrNull(this.active.resumeAt),
+      isoOrNull(this.active.breakEndsAt),
+      new Date(this.lastCheckpointMs).toISOString(),
+      this.active.id
+    );
   }
 
   private persistSessionState(reason?: string) {
@@ -416,7 +656,8 @@ export class PomodoroService extends EventEmitter {
   private snapshot(): PomodoroSession {
     if (!this.active) throw new Error('No active pomodoro session');
     const { timer, ...rest } = this.active;
-    return { ...rest };
+    const plan = rest.plan ? { ...rest.plan, phases: rest.plan.phases.map((phase) => ({ ...phase })) } : rest.plan;
+    return { ...rest, plan };
   }
 
   dispose() {
@@ -440,7 +681,9 @@ export class PomodoroService extends EventEmitter {
         LIMIT ?
         `
       )
-      .all(limit) as Array<any>;
+      .all(limit) as Array<
+        PomodoroSessionRow & { ended_at: string | null; completed_reason: PomodoroCompletedReason | null; block_count: number | null }
+      >;
 
     return rows.map((row) => {
       const allowlist = JSON.parse(row.allowlist_json) as PomodoroAllowlistEntry[];
@@ -459,7 +702,8 @@ export class PomodoroService extends EventEmitter {
         remainingMs: 0,
         presetId: row.preset_id ?? null,
         completedReason: row.completed_reason ?? undefined,
-        breakRemainingMs: null
+        breakRemainingMs: null,
+        plan: parsePlan(row.plan_json)
       };
       return {
         session,
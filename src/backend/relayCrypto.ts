@@ -0,0 +1,66 @@
+import crypto from 'node:crypto';
+
+/**
+ * Client-side encryption for Friends Feed summaries (relay v2).
+ *
+ * Both the relay read token and the summary key are derived from the shared
+ * read key with HKDF, so the relay only ever sees a token it cannot turn back
+ * into the key. Summaries are sealed with AES-256-GCM; the user id, date and
+ * version are bound as associated data so the relay cannot move ciphertext
+ * between users or days.
+ */
+
+export const RELAY_SUMMARY_VERSION = 2;
+
+export type EncryptedSummary = {
+  version: number;
+  nonce: string;
+  ciphertext: string;
+};
+
+const NONCE_BYTES = 12;
+const TAG_BYTES = 16;
+
+function derive(readKey: string, userId: string, info: string) {
+  return Buffer.from(crypto.hkdfSync('sha256', readKey, `tws-relay:${userId}`, info, 32));
+}
+
+/** Bearer token registered with the relay in place of the read key. */
+export function deriveRelayReadToken(readKey: string, userId: string) {
+  return derive(readKey, userId, 'read-token-v2').toString('base64url');
+}
+
+function summaryAad(userId: string, date: string, version: number) {
+  return Buffer.from(`${userId}|${date}|v${version}`, 'utf8');
+}
+
+export function encryptSummary(readKey: string, userId: string, date: string, payload: unknown): EncryptedSummary {
+  const key = derive(readKey, userId, 'summary-key-v2');
+  const nonce = crypto.randomBytes(NONCE_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, nonce);
+  cipher.setAAD(summaryAad(userId, date, RELAY_SUMMARY_VERSION));
+  const sealed = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final(), cipher.getAuthTag()]);
+  return {
+    version: RELAY_SUMMARY_VERSION,
+    nonce: nonce.toString('base64url'),
+    ciphertext: sealed.toString('base64url')
+  };
+}
+
+export function decryptSummary<T = unknown>(readKey: string, userId: string, date: string, summary: EncryptedSummary): T {
+  if (summary.version !== RELAY_SUMMARY_VERSION) {
+    throw new Error(`Unsupported summary version ${summary.version}`);
+  }
+  const sealed = Buffer.from(summary.ciphertext, 'base64url');
+  if (sealed.length <= TAG_BYTES) throw new Error('Summary ciphertext is truncated');
+  const key = derive(readKey, userId, 'summary-key-v2');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(summary.nonce, 'base64url'));
+  decipher.setAAD(summaryAad(userId, date, summary.version));
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_BYTES));
+  try {
+    const plain = Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - TAG_BYTES)), decipher.final()]);
+    return JSON.parse(plain.toString('utf8')) as T;
+  } catch {
+    throw new Error('Summary could not be decrypted; check the read key');
+  }
+}
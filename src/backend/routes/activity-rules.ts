@@ -0,0 +1,87 @@
+import { Router } from 'express';
+import type { ActivityRuleService } from '../activityRules';
+import { formatRouteError, parsePositiveInt, z } from './validation';
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+const matchSchema = z.object({
+    domain: z.string().trim().min(1).nullable().optional(),
+    app: z.string().trim().min(1).nullable().optional(),
+    titlePattern: z.string().trim().min(1).nullable().optional(),
+    weekdays: z.array(z.number().int().min(0).max(6)).nullable().optional(),
+    startTime: timeSchema.nullable().optional(),
+    endTime: timeSchema.nullable().optional(),
+    pomodoroActive: z.boolean().nullable().optional(),
+    writingActive: z.boolean().nullable().optional(),
+    writingProjectId: z.number().int().positive().nullable().optional()
+}).strict();
+
+const actionSchema = z.object({
+    category: z.enum(['productive', 'neutral', 'frivolity', 'draining']).nullable().optional(),
+    suppressContext: z.boolean().optional(),
+    idle: z.enum(['idle', 'active']).nullable().optional()
+}).strict();
+
+const ruleSchema = z.object({
+    name: z.string().trim().min(1),
+    enabled: z.boolean().optional(),
+    priority: z.number().int().optional(),
+    match: matchSchema,
+    action: actionSchema
+}).strict();
+
+const testSchema = z.object({
+    domain: z.string().trim().nullable().optional(),
+    appName: z.string().nullable().optional(),
+    windowTitle: z.string().nullable().optional(),
+    at: z.string().datetime({ offset: true }).optional(),
+    pomodoroActive: z.boolean().optional(),
+    writingProjectId: z.number().int().positive().nullable().optional()
+}).strict();
+
+export function createActivityRulesRoutes(rules: ActivityRuleService): Router {
+    const router = Router();
+
+    router.get('/', (_req, res) => {
+        res.json(rules.list());
+    });
+
+    router.post('/', (req, res) => {
+        try {
+            const parsed = ruleSchema.parse(req.body ?? {});
+            res.json(rules.create(parsed));
+        } catch (error) {
+            res.status(400).json({ error: formatRouteError(error) });
+        }
+    });
+
+    router.post('/test', (req, res) => {
+        try {
+            const parsed = testSchema.parse(req.body ?? {});
+            res.json(rules.test(parsed));
+        } catch (error) {
+            res.status(400).json({ error: formatRouteError(error) });
+        }
+    });
+
+    router.patch('/:id', (req, res) => {
+        try {
+            const id = parsePositiveInt(req.params.id);
+            const parsed = ruleSchema.partial().parse(req.body ?? {});
+            res.json(rules.update(id, parsed));
+        } catch (error) {
+            res.status(400).json({ error: formatRouteError(error) });
+        }
+    });
+
+    router.delete('/:id', (req, res) => {
+        try {
+            rules.remove(parsePositiveInt(req.params.id));
+            res.json({ ok: true });
+        } catch (error) {
+            res.status(400).json({ error: formatRouteError(error) });
+        }
+    });
+
+    return router;
+}
@@ -26,6 +26,11 @@ export function createAnalyticsRoutes(analytics: AnalyticsService): Router {
         res.json(analytics.getEngagementMetrics(domain, days));
     });
 
+    router.get('/challenges', (req, res) => {
+        const days = Number(req.query.days ?? 30);
+        res.json(analytics.getChallengeStats(days));
+    });
+
     router.get('/trends', (req, res) => {
         const granularity = (req.query.granularity as 'hour' | 'day' | 'week') || 'day';
         res.json(analytics.getTrends(granularity));
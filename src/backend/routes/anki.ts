@@ -1,5 +1,7 @@
-import { Router } from 'express';
-import type { AnkiService, AnkiReviewRating } from '../anki';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { Router, type Request, type RequestHandler, type Response } from 'express';
+import type { AnkiService, AnkiImportMode, AnkiReviewRating, AnkiScheduler } from '../anki';
 import type { EconomyEngine } from '../economy';
 import type { SettingsService } from '../settings';
 import type { GuardrailColorFilter } from '@shared/types';
@@ -11,6 +13,14 @@ export type AnkiRoutesContext = {
   pickDeckFile?: () => Promise<string | null> | string | null;
 };
 
+// Express 4 drops the promise an async handler returns; hand a rejection that
+// slips past the handler's own try/catch to `next` instead.
+function handleAsync(handler: (req: Request, res: Response) => Promise<void>): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res).catch(next);
+  };
+}
+
 function asPositiveInt(value: unknown, fallback: number, limits?: { min?: number; max?: number }) {
   const parsed = Number(value);
   if (!Number.isFinite(parsed)) return fallback;
@@ -32,6 +42,25 @@ function parseRating(value: unknown): AnkiReviewRating {
   throw new Error('Invalid rating');
 }
 
+function parseScheduler(value: unknown): AnkiScheduler | undefined {
+  if (value == null) return undefined;
+  if (value === 'sm2' || value === 'fsrs') return value;
+  throw new Error('Invalid scheduler');
+}
+
+function parseDesiredRetention(value: unknown) {
+  if (value == null) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new Error('Invalid desiredRetention');
+  return parsed;
+}
+
+function parseImportMode(value: unknown): AnkiImportMode | undefined {
+  if (value == null || value === '') return undefined;
+  if (value === 'replace' || value === 'merge') return value;
+  throw new Error('Invalid mode');
+}
+
 function resolveColorFilter(settings: SettingsService, candidate?: string): GuardrailColorFilter {
   const fallback = settings.getGuardrailColorFilter();
   const preferred = candidate === 'full-color' || candidate === 'greyscale' || candidate === 'redscale'
@@ -60,6 +89,30 @@ export function createAnkiRoutes(ctx: AnkiRoutesContext): Router {
     res.json({ items: anki.listDecks() });
   });
 
+  router.patch('/decks/:id', (req, res) => {
+    try {
+      const deckId = parseDeckId(req.params.id);
+      if (deckId == null) throw new Error('Invalid deckId');
+      const payload = req.body as { scheduler?: string; desiredRetention?: number };
+      const deck = anki.setDeckScheduler(deckId, {
+        scheduler: parseScheduler(payload?.scheduler),
+        desiredRetention: parseDesiredRetention(payload?.desiredRetention)
+      });
+      res.json({ ok: true, deck });
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+    }
+  });
+
+  router.post('/fsrs/optimize', (req, res) => {
+    try {
+      const deckId = parseDeckId((req.body as { deckId?: number })?.deckId);
+      res.json({ ok: true, result: anki.optimizeFsrs({ deckId }) });
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+    }
+  });
+
   router.get('/due', (req, res) => {
     try {
       const deckId = parseDeckId(req.query.deckId);
@@ -79,18 +132,19 @@ export function createAnkiRoutes(ctx: AnkiRoutesContext): Router {
     }
   });
 
-  router.post('/import-file', async (req, res) => {
+  router.post('/import-file', handleAsync(async (req, res) => {
     try {
-      const filePath = String((req.body as { path?: string })?.path ?? '').trim();
+      const payload = req.body as { path?: string; mode?: string };
+      const filePath = String(payload?.path ?? '').trim();
       if (!filePath) throw new Error('path is required');
-      const result = await anki.importDeckPackage(filePath);
+      const result = await anki.importDeckPackage(filePath, { mode: parseImportMode(payload?.mode) });
       res.json({ ok: true, result, status: anki.getStatus({ limit: 24 }) });
     } catch (error) {
       res.status(400).json({ error: (error as Error).message });
     }
-  });
+  }));
 
-  router.post('/pick-file', async (_req, res) => {
+  router.post('/pick-file', handleAsync(async (_req, res) => {
     try {
       if (!pickDeckFile) throw new Error('Native deck picker is unavailable.');
       const selectedPath = await pickDeckFile();
@@ -107,7 +161,7 @@ export function createAnkiRoutes(ctx: AnkiRoutesContext): Router {
     } catch (error) {
       res.status(400).json({ error: (error as Error).message });
     }
-  });
+  }));
 
   router.post('/review', (req, res) => {
     try {
@@ -153,3 +207,52 @@ export function createAnkiRoutes(ctx: AnkiRoutesContext): Router {
 
   return router;
 }
+
+export type AnkiPackageRoutesContext = {
+  anki: AnkiService;
+};
+
+/** Package import/export, mounted at `/integrations/anki`. */
+export function createAnkiPackageRoutes(ctx: AnkiPackageRoutesContext): Router {
+  const router = Router();
+  const { anki } = ctx;
+
+  router.post('/import', handleAsync(async (req, res) => {
+    try {
+      const payload = req.body as { path?: string; mode?: string };
+      const filePath = String(payload?.path ?? '').trim();
+      if (!filePath) throw new Error('path is required');
+      const result = await anki.importDeckPackage(filePath, { mode: parseImportMode(payload?.mode) ?? 'merge' });
+      res.json({ ok: true, result });
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+    }
+  }));
+
+  router.post('/decks/:id/export', handleAsync(async (req, res) => {
+    try {
+      const deckId = parseDeckId(req.params.id);
+      if (deckId == null) throw new Error('Invalid deckId');
+      const outputPath = (req.body as { path?: string })?.path;
+      const result = await anki.exportDeckPackage(deckId, typeof outputPath === 'string' ? outputPath : null);
+      res.json({ ok: true, result });
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+    }
+  }));
+
+  router.get('/decks/:id/export', handleAsync(async (req, res) => {
+    try {
+      const deckId = parseDeckId(req.params.id);
+      if (deckId == null) throw new Error('Invalid deckId');
+      const result = await anki.exportDeckPackage(deckId);
+      res.download(result.packagePath, path.basename(result.packagePath), () => {
+        void fs.rm(result.packagePath, { force: true }).catch(() => { });
+      });
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+    }
+  }));
+
+  return router;
+}
@@ -3,15 +3,17 @@ export { createWalletRoutes } from './wallet';
 export { createMarketRoutes, type MarketRoutesContext } from './market';
 export { createPaywallRoutes, type PaywallRoutesContext } from './paywall';
 export { createActivitiesRoutes } from './activities';
+export { createActivityRulesRoutes } from './activity-rules';
 export { createIntentionsRoutes, createBudgetsRoutes } from './intentions-budgets';
 export { createLibraryRoutes } from './library';
 export { createAnalyticsRoutes } from './analytics';
 export { createLiteraryAnalyticsRoutes } from './literary-analytics';
 export { createWritingAnalyticsRoutes } from './writing-analytics';
 export { createWritingRoutes } from './writing';
-export { createAnkiRoutes, type AnkiRoutesContext } from './anki';
+export { createAnkiPackageRoutes, createAnkiRoutes, type AnkiPackageRoutesContext, type AnkiRoutesContext } from './anki';
 export { createSettingsRoutes, createExtensionSyncRoutes, type SettingsRoutesContext, type ExtensionSyncContext } from './settings';
 export { createActionsRoutes, createUiRoutes, createIntegrationsRoutes, type ActionsRoutesContext } from './actions';
 export { createFriendsRoutes } from './friends';
 export { createTrophyRoutes } from './trophies';
 export { createCameraRoutes } from './camera';
+export { createPairingRoutes, createPairingAuthMiddleware } from './pairing';
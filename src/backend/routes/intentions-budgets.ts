@@ -1,12 +1,23 @@
 import { Router } from 'express';
 import type { IntentionService } from '../intentions';
 import type { BudgetService } from '../budgets';
+import type { BudgetInput } from '@shared/types';
+import { formatRouteError, z } from './validation';
 
 export type IntentionsBudgetsRoutesContext = {
     intentions: IntentionService;
     budgets: BudgetService;
 };
 
+const budgetCreateSchema = z.object({
+    period: z.enum(['day', 'week']),
+    targetKind: z.enum(['category', 'domain', 'group']).optional(),
+    category: z.string().trim().min(1),
+    secondsBudgeted: z.number().int().positive(),
+    escalation: z.enum(['warn', 'surcharge', 'block']).optional(),
+    surchargeMultiplier: z.number().min(1).max(10).optional()
+}) satisfies z.ZodType<BudgetInput>;
+
 export function createIntentionsRoutes(intentions: IntentionService): Router {
     const router = Router();
 
@@ -46,12 +57,16 @@ export function createBudgetsRoutes(budgets: BudgetService): Router {
         res.json(budgets.list());
     });
 
+    router.get('/status', (_req, res) => {
+        res.json(budgets.status());
+    });
+
     router.post('/', (req, res) => {
         try {
-            const record = budgets.add(req.body as { period: 'day' | 'week'; category: string; secondsBudgeted: number });
+            const record = budgets.add(budgetCreateSchema.parse(req.body));
             res.json(record);
         } catch (error) {
-            res.status(400).json({ error: (error as Error).message });
+            res.status(400).json({ error: formatRouteError(error) });
         }
     });
 
@@ -1,7 +1,19 @@
 import { Router } from 'express';
 import type { MarketService } from '../market';
 import type { PaywallManager } from '../paywall';
-import type { MarketRate } from '@shared/types';
+import type { MarketCalendarOverrideInput, MarketRate } from '@shared/types';
+import { formatRouteError, parsePositiveInt, z } from './validation';
+
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+const calendarOverrideSchema = z
+    .object({
+        label: z.string().trim().min(1),
+        startDate: dateKeySchema,
+        endDate: dateKeySchema,
+        domain: z.string().trim().min(1).nullable().optional(),
+        hourlyModifiers: z.array(z.number().min(0).max(10)).length(24)
+    })
+    .refine((value) => value.startDate <= value.endDate, { message: 'endDate must not be before startDate', path: ['endDate'] });
 
 export type MarketRoutesContext = {
     market: MarketService;
@@ -17,6 +29,40 @@ export function createMarketRoutes(ctx: MarketRoutesContext): Router {
         res.json(market.listRates());
     });
 
+    router.get('/pricing/:domain', (req, res) => {
+        const pricing = market.getPricing(req.params.domain);
+        if (!pricing) return res.status(404).json({ error: `No market rate for ${req.params.domain}` });
+        return res.json(pricing);
+    });
+
+    router.get('/calendar', (_req, res) => {
+        res.json(market.listCalendarOverrides());
+    });
+
+    router.post('/calendar', (req, res) => {
+        try {
+            const parsed = calendarOverrideSchema.parse(req.body ?? {});
+            const input: MarketCalendarOverrideInput = { ...parsed, domain: parsed.domain ?? null };
+            const override = market.addCalendarOverride(input);
+            broadcastMarketRates();
+            res.json(override);
+        } catch (error) {
+            res.status(400).json({ error: formatRouteError(error) });
+        }
+    });
+
+    router.delete('/calendar/:id', (req, res) => {
+        let id: number;
+        try {
+            id = parsePositiveInt(req.params.id);
+        } catch {
+            return res.status(400).json({ error: 'Invalid calendar override id' });
+        }
+        market.removeCalendarOverride(id);
+        broadcastMarketRates();
+        return res.json({ ok: true });
+    });
+
     router.post('/', (req, res) => {
         try {
             const rate = req.body as MarketRate;
@@ -0,0 +1,81 @@
+import { Router, type RequestHandler, type Response } from 'express';
+import { DESKTOP_CLIENT_ID, type PairingService } from '../pairing';
+import type { PairedClient, PairingScope } from '@shared/types';
+import { formatRouteError, parsePositiveInt, z } from './validation';
+
+const exchangeSchema = z.object({
+    code: z.string().trim().min(1),
+    name: z.string().trim().max(80).optional()
+}).strict();
+
+// Reachable without a token: liveness, the pairing exchange itself, and the
+// OAuth redirect that lands from the system browser.
+const PUBLIC_PATHS = new Set(['/health', '/pairing/exchange', '/auth/callback']);
+
+export function readBearer(header: string | undefined) {
+    const match = /^Bearer\s+(.+)$/i.exec(header ?? '');
+    return match ? match[1].trim() : null;
+}
+
+/**
+ * Rejects requests that do not carry a paired client's token. HTTP clients
+ * send `Authorization: Bearer <token>`; browsers cannot set headers on a
+ * websocket upgrade, so `/events` also accepts `?token=`.
+ */
+export function createPairingAuthMiddleware(pairing: PairingService): RequestHandler {
+    return (req, res, next) => {
+        if (req.method === 'OPTIONS' || PUBLIC_PATHS.has(req.path)) return next();
+        const isWebSocket = req.path.endsWith('/.websocket');
+        const queryToken = isWebSocket && typeof req.query.token === 'string' ? req.query.token : null;
+        const client = pairing.authenticate(readBearer(req.headers.authorization) ?? queryToken);
+        if (!client) {
+            res.status(401).json({ error: 'Pairing required: pair this client from the desktop app Settings' });
+            return;
+        }
+        const scope: PairingScope = isWebSocket ? 'events' : req.method === 'GET' || req.method === 'HEAD' ? 'read' : 'write';
+        if (!client.scopes.includes(scope)) {
+            res.status(403).json({ error: `Client "${client.name}" is not paired with the ${scope} scope` });
+            return;
+        }
+        res.locals.pairedClient = client;
+        next();
+    };
+}
+
+// Listing and revoking clients is the desktop's job; a paired client could
+// otherwise read every other client and lock them out.
+function requireDesktopClient(res: Response) {
+    const client = res.locals.pairedClient as PairedClient | undefined;
+    if (client?.id === DESKTOP_CLIENT_ID) return true;
+    res.status(403).json({ error: 'Only the desktop app can manage paired clients' });
+    return false;
+}
+
+export function createPairingRoutes(pairing: PairingService): Router {
+    const router = Router();
+
+    router.post('/exchange', (req, res) => {
+        try {
+            const parsed = exchangeSchema.parse(req.body ?? {});
+            res.json(pairing.exchange(parsed.code, parsed.name ?? ''));
+        } catch (error) {
+            res.status(400).json({ error: formatRouteError(error) });
+        }
+    });
+
+    router.get('/clients', (_req, res) => {
+        if (!requireDesktopClient(res)) return;
+        res.json(pairing.listClients());
+    });
+
+    router.delete('/clients/:id', (req, res) => {
+        if (!requireDesktopClient(res)) return;
+        try {
+            res.json(pairing.revoke(parsePositiveInt(req.params.id)));
+        } catch (error) {
+            res.status(400).json({ error: formatRouteError(error) });
+        }
+    });
+
+    return router;
+}
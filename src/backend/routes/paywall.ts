@@ -1,34 +1,76 @@
 import { Router } from 'express';
 import type { PaywallCommandService } from '../paywallCommands';
+import type { PaywallDiagnosticsLog } from '../paywallDiagnostics';
+import { QuoteMismatchError } from '../economy';
+import { formatRouteError, z } from './validation';
+
+const challengeIssueSchema = z.object({
+  domain: z.string().trim().min(1)
+});
+
+const challengePassSchema = z.object({
+  domain: z.string().trim().min(1),
+  challengeId: z.string().min(1),
+  entries: z.array(z.array(z.number().int().min(0).max(9).nullable()).length(9)).length(9)
+});
+
+const quoteSchema = z.object({
+  domain: z.string().trim().min(1),
+  minutes: z.array(z.number().positive().max(24 * 60)).max(12).optional(),
+  colorFilter: z.string().optional()
+});
+
+const diagnosticsQuerySchema = z.object({
+  domain: z.string().trim().min(1).optional(),
+  since: z.coerce.number().int().nonnegative().optional(),
+  until: z.coerce.number().int().nonnegative().optional(),
+  limit: z.coerce.number().int().min(1).max(5000).optional()
+});
 
 export type PaywallRoutesContext = {
   commands: PaywallCommandService;
+  diagnostics: PaywallDiagnosticsLog;
 };
 
 export function createPaywallRoutes(ctx: PaywallRoutesContext): Router {
   const router = Router();
-  const { commands } = ctx;
+  const { commands, diagnostics } = ctx;
 
   router.post('/metered', (req, res) => {
     try {
-      const { domain, colorFilter } = req.body as { domain: string; colorFilter?: string };
-      const session = commands.startMetered(domain, colorFilter);
+      const { domain, colorFilter, quoteId } = req.body as { domain: string; colorFilter?: string; quoteId?: string };
+      const session = commands.startMetered(domain, colorFilter, quoteId);
       res.json(session);
     } catch (error) {
+      if (error instanceof QuoteMismatchError) {
+        return res.status(409).json({ error: error.message, quote: error.quote });
+      }
       res.status(400).json({ error: (error as Error).message });
     }
   });
 
   router.post('/packs', (req, res) => {
     try {
-      const { domain, minutes, colorFilter } = req.body as { domain: string; minutes: number; colorFilter?: string };
-      const session = commands.buyPack(domain, minutes, colorFilter);
+      const { domain, minutes, colorFilter, quoteId } = req.body as { domain: string; minutes: number; colorFilter?: string; quoteId?: string };
+      const session = commands.buyPack(domain, minutes, colorFilter, quoteId);
       res.json(session);
     } catch (error) {
+      if (error instanceof QuoteMismatchError) {
+        return res.status(409).json({ error: error.message, quote: error.quote });
+      }
       res.status(400).json({ error: (error as Error).message });
     }
   });
 
+  router.post('/quote', (req, res) => {
+    try {
+      const { domain, minutes, colorFilter } = quoteSchema.parse(req.body ?? {});
+      res.json(commands.quote(domain, { minutes, colorFilter }));
+    } catch (error) {
+      res.status(400).json({ error: formatRouteError(error) });
+    }
+  });
+
   router.post('/emergency', (req, res) => {
     try {
       const { domain, justification, url } = req.body as { domain: string; justification: string; url?: string };
@@ -52,17 +94,22 @@ export function createPaywallRoutes(ctx: PaywallRoutesContext): Router {
     }
   });
 
+  router.post('/challenge', (req, res) => {
+    try {
+      const { domain } = challengeIssueSchema.parse(req.body ?? {});
+      res.json(commands.issueChallenge(domain));
+    } catch (error) {
+      res.status(400).json({ error: formatRouteError(error) });
+    }
+  });
+
   router.post('/challenge-pass', (req, res) => {
     try {
-      const { domain, durationSeconds, solvedSquares } = req.body as {
-        domain: string;
-        durationSeconds?: number;
-        solvedSquares?: number;
-      };
-      const session = commands.startChallengePass(domain, { durationSeconds, solvedSquares });
+      const { domain, challengeId, entries } = challengePassSchema.parse(req.body ?? {});
+      const session = commands.startChallengePass(domain, { challengeId, entries });
       res.json(session);
     } catch (error) {
-      res.status(400).json({ error: (error as Error).message });
+      res.status(400).json({ error: formatRouteError(error) });
     }
   });
 
@@ -91,6 +138,15 @@ export function createPaywallRoutes(ctx: PaywallRoutesContext): Router {
     res.json(commands.status(domain));
   });
 
+  router.get('/diagnostics', (req, res) => {
+    try {
+      const query = diagnosticsQuerySchema.parse(req.query ?? {});
+      res.json({ events: diagnostics.query(query) });
+    } catch (error) {
+      res.status(400).json({ error: formatRouteError(error) });
+    }
+  });
+
   router.post('/emergency-review', (req, res) => {
     try {
       const { outcome } = req.body as { outcome: 'kept' | 'not-kept' };
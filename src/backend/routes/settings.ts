@@ -5,8 +5,11 @@ import type { WalletManager } from '../wallet';
 import type { PaywallManager } from '../paywall';
 import type { LibraryService } from '../library';
 import type { ConsumptionLogService } from '../consumption';
-import type { ConsumptionLogKind, MarketRate } from '@shared/types';
+import type { PairingService } from '../pairing';
+import type { ConsumptionLogKind, EmergencyPolicyId, MarketRate, PairedClient } from '@shared/types';
 import { createExtensionSyncEnvelope } from '@shared/extensionSyncContract';
+import type { OfflineWalletEntry } from '@shared/offlineWalletJournal';
+import { formatRouteError } from './validation';
 
 export type SettingsRoutesContext = {
     settings: SettingsService;
@@ -80,10 +83,40 @@ export function createSettingsRoutes(ctx: SettingsRoutesContext): Router {
     router.post('/emergency-policy', (req, res) => {
         try {
             const { policy } = req.body as { policy: string };
-            if (policy !== 'off' && policy !== 'gentle' && policy !== 'balanced' && policy !== 'strict') {
+            if (typeof policy !== 'string') {
                 throw new Error('Invalid emergency policy');
             }
-            settings.setEmergencyPolicy(policy);
+            settings.setEmergencyPolicy(policy as EmergencyPolicyId);
+            res.json({ ok: true });
+        } catch (error) {
+            res.status(400).json({ error: (error as Error).message });
+        }
+    });
+
+    router.get('/emergency-policies', (_req, res) => {
+        res.json({ policies: settings.getCustomEmergencyPolicies() });
+    });
+
+    router.post('/emergency-policies', (req, res) => {
+        try {
+            const { policies } = (req.body ?? {}) as { policies?: unknown };
+            res.json({ policies: settings.setCustomEmergencyPolicies(policies) });
+        } catch (error) {
+            res.status(400).json({ error: formatRouteError(error) });
+        }
+    });
+
+    router.get('/paywall-downtime-policy', (_req, res) => {
+        res.json({ policy: settings.getPaywallDowntimePolicy() });
+    });
+
+    router.post('/paywall-downtime-policy', (req, res) => {
+        try {
+            const { policy } = req.body as { policy: string };
+            if (policy !== 'freeze' && policy !== 'count-down' && policy !== 'refund') {
+                throw new Error('Invalid paywall downtime policy');
+            }
+            settings.setPaywallDowntimePolicy(policy);
             res.json({ ok: true });
         } catch (error) {
             res.status(400).json({ error: (error as Error).message });
@@ -242,12 +275,13 @@ export type ExtensionSyncContext = {
     paywall: PaywallManager;
     library: LibraryService;
     consumption: ConsumptionLogService;
+    pairing: PairingService;
     pomodoro?: import('../pomodoro').PomodoroService;
 };
 
 export function createExtensionSyncRoutes(ctx: ExtensionSyncContext): Router {
     const router = Router();
-    const { settings, market, wallet, paywall, library, consumption, pomodoro } = ctx;
+    const { settings, market, wallet, paywall, library, consumption, pairing, pomodoro } = ctx;
 
     router.get('/state', (_req, res) => {
         try {
@@ -323,6 +357,7 @@ export function createExtensionSyncRoutes(ctx: ExtensionSyncContext): Router {
                     drainingDomains: categorisation.draining,
                     idleThreshold: settings.getIdleThreshold(),
                     emergencyPolicy: settings.getEmergencyPolicy(),
+                    customEmergencyPolicies: settings.getCustomEmergencyPolicies(),
                     economyExchangeRate: settings.getEconomyExchangeRate(),
                     journal: settings.getJournalConfig(),
                     peekEnabled: peekConfig.enabled,
@@ -348,26 +383,32 @@ export function createExtensionSyncRoutes(ctx: ExtensionSyncContext): Router {
     router.post('/ingest', (req, res) => {
         try {
             const payload = req.body as {
-                transactions?: Array<{ ts?: string; type?: 'earn' | 'spend' | 'adjust'; amount?: number; meta?: Record<string, unknown>; syncId?: string }>;
+                transactions?: Array<{ ts?: string; type?: 'earn' | 'spend' | 'adjust'; amount?: number; meta?: Record<string, unknown>; syncId?: string; signature?: string }>;
                 consumption?: Array<{ syncId?: string; occurredAt?: string; kind?: ConsumptionLogKind; title?: string | null; url?: string | null; domain?: string | null; meta?: Record<string, unknown> }>;
             };
             const transactions = Array.isArray(payload?.transactions) ? payload.transactions : [];
             const consumptionEvents = Array.isArray(payload?.consumption) ? payload.consumption : [];
 
-            let appliedTransactions = 0;
+            const journal: OfflineWalletEntry[] = [];
             for (const entry of transactions) {
                 if (!entry || typeof entry.syncId !== 'string' || typeof entry.ts !== 'string') continue;
                 if (entry.type !== 'earn' && entry.type !== 'spend' && entry.type !== 'adjust') continue;
                 if (typeof entry.amount !== 'number' || !Number.isFinite(entry.amount)) continue;
-                wallet.applyRemoteTransaction({
+                journal.push({
                     syncId: entry.syncId,
                     ts: entry.ts,
                     type: entry.type,
                     amount: entry.amount,
-                    meta: entry.meta
+                    meta: entry.meta,
+                    signature: entry.signature
                 });
-                appliedTransactions += 1;
             }
+            // Offline entries are signed with the journal key handed to this client at
+            // pairing, which never travels with a request the way the bearer token does.
+            const client = res.locals.pairedClient as PairedClient | undefined;
+            const signingKey = client ? pairing.getJournalKey(client.id) : null;
+            const reconciliation = wallet.replayOfflineJournal(journal, { signingKey });
+            const appliedTransactions = reconciliation.applied + reconciliation.capped;
 
             let appliedConsumption = 0;
             for (const entry of consumptionEvents) {
@@ -386,7 +427,7 @@ export function createExtensionSyncRoutes(ctx: ExtensionSyncContext): Router {
                 appliedConsumption += 1;
             }
 
-            res.json({ ok: true, applied: { transactions: appliedTransactions, consumption: appliedConsumption } });
+            res.json({ ok: true, applied: { transactions: appliedTransactions, consumption: appliedConsumption }, reconciliation });
         } catch (error) {
             res.status(400).json({ error: (error as Error).message });
         }
@@ -1,6 +1,27 @@
 import { Router } from 'express';
 import type { TrophyService } from '../trophies';
-import type { FriendProfile } from '@shared/types';
+import type { FriendProfile, TrophyMetric } from '@shared/types';
+import { TROPHY_METRICS } from '@shared/trophyRules';
+import { formatRouteError, z } from './validation';
+
+const conditionSchema = z.object({
+  metric: z.enum(Object.keys(TROPHY_METRICS) as [TrophyMetric, ...TrophyMetric[]]),
+  window: z.enum(['now', 'all_time', 'last_24h', 'today', 'yesterday', 'last_7d', 'last_weekend', 'best_day']),
+  comparator: z.enum(['gte', 'gt', 'lte', 'lt', 'eq']),
+  threshold: z.number().finite(),
+  streakDays: z.number().int().min(1).max(365).optional()
+}).strict();
+
+const ruleSchema = z.object({
+  conditions: z.array(conditionSchema).min(1).max(5)
+}).strict();
+
+const customTrophySchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  description: z.string().trim().max(200).optional(),
+  emoji: z.string().trim().max(8).optional(),
+  rule: ruleSchema
+}).strict();
 
 export type TrophyRoutesContext = {
   trophies: TrophyService;
@@ -39,5 +60,43 @@ export function createTrophyRoutes(ctx: TrophyRoutesContext): Router {
     }
   });
 
+  router.get('/custom', (_req, res) => {
+    res.json(ctx.trophies.listCustom());
+  });
+
+  router.post('/custom', (req, res) => {
+    try {
+      res.json(ctx.trophies.createCustom(customTrophySchema.parse(req.body ?? {})));
+    } catch (error) {
+      res.status(400).json({ error: formatRouteError(error) });
+    }
+  });
+
+  router.post('/custom/preview', (req, res) => {
+    try {
+      const { rule } = z.object({ rule: ruleSchema }).parse(req.body ?? {});
+      res.json(ctx.trophies.previewRule(rule));
+    } catch (error) {
+      res.status(400).json({ error: formatRouteError(error) });
+    }
+  });
+
+  router.patch('/custom/:id', (req, res) => {
+    try {
+      res.json(ctx.trophies.updateCustom(req.params.id, customTrophySchema.partial().parse(req.body ?? {})));
+    } catch (error) {
+      res.status(400).json({ error: formatRouteError(error) });
+    }
+  });
+
+  router.delete('/custom/:id', (req, res) => {
+    try {
+      ctx.trophies.removeCustom(req.params.id);
+      res.json({ ok: true });
+    } catch (error) {
+      res.status(400).json({ error: formatRouteError(error) });
+    }
+  });
+
   return router;
 }
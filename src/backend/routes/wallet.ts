@@ -1,7 +1,23 @@
 import { Router } from 'express';
 import type { WalletManager } from '../wallet';
+import type { SavingsGoalService } from '../savingsGoals';
+import { coerceClampedInt, formatRouteError, parsePositiveInt, z } from './validation';
 
-export function createWalletRoutes(wallet: WalletManager): Router {
+const reverseSchema = z.object({
+    reason: z.string().trim().min(1)
+}).strict();
+
+const goalCreateSchema = z.object({
+    name: z.string().trim().min(1),
+    targetCoins: z.number().int().positive(),
+    releaseAt: z.string().datetime({ offset: true }).nullable().optional()
+}).strict();
+
+const escrowSchema = z.object({
+    amount: z.number().int().positive()
+}).strict();
+
+export function createWalletRoutes(wallet: WalletManager, goals: SavingsGoalService): Router {
     const router = Router();
 
     router.get('/', (_req, res) => {
@@ -28,5 +44,69 @@ export function createWalletRoutes(wallet: WalletManager): Router {
         }
     });
 
+    router.get('/transactions', (req, res) => {
+        const limit = coerceClampedInt(req.query.limit, 100, { min: 1, max: 1000 });
+        res.json({ items: wallet.listTransactions(limit) });
+    });
+
+    router.post('/transactions/:id/reverse', (req, res) => {
+        try {
+            const id = parsePositiveInt(req.params.id);
+            const { reason } = reverseSchema.parse(req.body ?? {});
+            res.json(wallet.reverse(id, reason));
+        } catch (error) {
+            res.status(400).json({ error: formatRouteError(error) });
+        }
+    });
+
+    // Verify the ledger without touching it.
+    router.get('/ledger/verify', (_req, res) => {
+        try {
+            res.json(wallet.reconcile());
+        } catch (error) {
+            res.status(500).json({ error: formatRouteError(error) });
+        }
+    });
+
+    router.post('/ledger/reconcile', (_req, res) => {
+        try {
+            res.json(wallet.reconcile({ repair: true }));
+        } catch (error) {
+            res.status(500).json({ error: formatRouteError(error) });
+        }
+    });
+
+    router.get('/goals', (_req, res) => {
+        res.json({ items: goals.list(), wallet: wallet.getSnapshot() });
+    });
+
+    router.post('/goals', (req, res) => {
+        try {
+            const input = goalCreateSchema.parse(req.body ?? {});
+            res.json(goals.create(input));
+        } catch (error) {
+            res.status(400).json({ error: formatRouteError(error) });
+        }
+    });
+
+    router.post('/goals/:id/escrow', (req, res) => {
+        try {
+            const id = parsePositiveInt(req.params.id);
+            const { amount } = escrowSchema.parse(req.body ?? {});
+            res.json(goals.escrow(id, amount));
+        } catch (error) {
+            res.status(400).json({ error: formatRouteError(error) });
+        }
+    });
+
+    router.post('/goals/:id/release', (req, res) => {
+        try {
+            const id = parsePositiveInt(req.params.id);
+            res.json(goals.release(id, 'manual'));
+        } catch (error) {
+            res.status(400).json({ error: formatRouteError(error) });
+        }
+    });
+
     return router;
 }
@@ -0,0 +1,155 @@
+import { EventEmitter } from 'node:events';
+import type { Statement } from 'better-sqlite3';
+import type { Database } from './storage';
+import type { WalletManager } from './wallet';
+import type { SavingsGoal, SavingsGoalInput, SavingsGoalReleaseReason, SavingsGoalStatus } from '@shared/types';
+import { logger } from '@shared/logger';
+
+type SavingsGoalRow = {
+  id: number;
+  name: string;
+  target_coins: number;
+  escrowed_coins: number;
+  release_at: string | null;
+  status: SavingsGoalStatus;
+  release_reason: SavingsGoalReleaseReason | null;
+  created_at: string;
+  released_at: string | null;
+};
+
+const GOAL_COLUMNS = 'id, name, target_coins, escrowed_coins, release_at, status, release_reason, created_at, released_at';
+
+function rowToGoal(row: SavingsGoalRow): SavingsGoal {
+  return {
+    id: row.id,
+    name: row.name,
+    targetCoins: row.target_coins,
+    escrowedCoins: row.escrowed_coins,
+    releaseAt: row.release_at,
+    status: row.status,
+    releaseReason: row.release_reason,
+    createdAt: row.created_at,
+    releasedAt: row.released_at
+  };
+}
+
+/**
+ * Named savings goals. Escrowed coins stay in the wallet balance (nothing is
+ * written to the transaction ledger) but `WalletManager` excludes them from
+ * the spendable balance until the goal is released, either because it reached
+ * its target, its release date passed, or the user released it early.
+ */
+export class SavingsGoalService extends EventEmitter {
+  private db = this.database.connection;
+  private listStmt: Statement;
+  private getStmt: Statement;
+  private insertStmt: Statement;
+  private escrowStmt: Statement;
+  private releaseStmt: Statement;
+  private insertEntryStmt: Statement;
+  private dueStmt: Statement;
+
+  constructor(private database: Database, private wallet: WalletManager, private now: () => number = Date.now) {
+    super();
+    this.listStmt = this.db.prepare(`SELECT ${GOAL_COLUMNS} FROM savings_goals ORDER BY status ASC, created_at DESC`);
+    this.getStmt = this.db.prepare(`SELECT ${GOAL_COLUMNS} FROM savings_goals WHERE id = ?`);
+    this.insertStmt = this.db.prepare(
+      'INSERT INTO savings_goals(name, target_coins, escrowed_coins, release_at, status, created_at) VALUES (?, ?, 0, ?, \'active\', ?)'
+    );
+    this.escrowStmt = this.db.prepare('UPDATE savings_goals SET escrowed_coins = escrowed_coins + ? WHERE id = ?');
+    this.releaseStmt = this.db.prepare(
+      "UPDATE savings_goals SET status = 'released', release_reason = ?, released_at = ? WHERE id = ? AND status = 'active'"
+    );
+    this.insertEntryStmt = this.db.prepare('INSERT INTO savings_goal_entries(goal_id, ts, kind, amount) VALUES (?, ?, ?, ?)');
+    this.dueStmt = this.db.prepare(
+      "SELECT id FROM savings_goals WHERE status = 'active' AND release_at IS NOT NULL AND release_at <= ?"
+    );
+  }
+
+  list(): SavingsGoal[] {
+    this.releaseDue();
+    const rows = this.listStmt.all() as SavingsGoalRow[];
+    return rows.map(rowToGoal);
+  }
+
+  get(id: number): SavingsGoal | null {
+    const row = this.getStmt.get(id) as SavingsGoalRow | undefined;
+    return row ? rowToGoal(row) : null;
+  }
+
+  create(input: SavingsGoalInput): SavingsGoal {
+    const name = input.name?.trim();
+    if (!name) throw new Error('Savings goal needs a name');
+    const targetCoins = Math.round(input.targetCoins);
+    if (!Number.isFinite(targetCoins) || targetCoins <= 0) {
+      throw new Error('Savings goal target must be positive');
+    }
+    let releaseAt: string | null = null;
+    if (input.releaseAt) {
+      const parsed = Date.parse(input.releaseAt);
+      if (!Number.isFinite(parsed)) throw new Error('Invalid release date');
+      releaseAt = new Date(parsed).toISOString();
+    }
+    const result = this.insertStmt.run(name, targetCoins, releaseAt, new Date(this.now()).toISOString());
+    const goal = this.get(Number(result.lastInsertRowid)) as SavingsGoal;
+    this.emit('update', goal);
+    return goal;
+  }
+
+  /**
+   * Moves spendable coins into a goal, capped at what the goal still needs.
+   * Reaching the target releases the goal immediately.
+   */
+  escrow(id: number, amount: number): SavingsGoal {
+    const goal = this.requireActive(id);
+    const requested = Math.round(amount);
+    if (!Number.isFinite(requested) || requested <= 0) {
+      throw new Error('Escrow amount must be positive');
+    }
+    const deposit = Math.min(requested, goal.targetCoins - goal.escrowedCoins);
+    const spendable = this.wallet.getSpendableBalance();
+    if (deposit > spendable) {
+      throw new Error(`Insufficient funds: only ${spendable} coins are spendable`);
+    }
+    const ts = new Date(this.now()).toISOString();
+    this.db.transaction(() => {
+      this.escrowStmt.run(deposit, id);
+      this.insertEntryStmt.run(id, ts, 'escrow', deposit);
+      if (goal.escrowedCoins + deposit >= goal.targetCoins) {
+        this.markReleased(id, 'reached', ts, goal.escrowedCoins + deposit);
+      }
+    })();
+    const updated = this.get(id) as SavingsGoal;
+    logger.info(`Escrowed ${deposit} coins into savings goal "${updated.name}" (${updated.escrowedCoins}/${updated.targetCoins})`);
+    this.emit('update', updated);
+    return updated;
+  }
+
+  release(id: number, reason: SavingsGoalReleaseReason = 'manual'): SavingsGoal {
+    const goal = this.requireActive(id);
+    const ts = new Date(this.now()).toISOString();
+    this.db.transaction(() => this.markReleased(id, reason, ts, goal.escrowedCoins))();
+    const updated = this.get(id) as SavingsGoal;
+    logger.info(`Released savings goal "${updated.name}" (${reason}, ${updated.escrowedCoins} coins)`);
+    this.emit('update', updated);
+    return updated;
+  }
+
+  /** Releases goals whose scheduled date has passed. */
+  releaseDue(): SavingsGoal[] {
+    const rows = this.dueStmt.all(new Date(this.now()).toISOString()) as Array<{ id: number }>;
+    return rows.map((row) => this.release(row.id, 'scheduled'));
+  }
+
+  private requireActive(id: number): SavingsGoal {
+    const goal = this.get(id);
+    if (!goal) throw new Error(`Savings goal ${id} not found`);
+    if (goal.status !== 'active') throw new Error(`Savings goal "${goal.name}" is already released`);
+    return goal;
+  }
+
+  private markReleased(id: number, reason: SavingsGoalReleaseReason, ts: string, amount: number) {
+    this.releaseStmt.run(reason, ts, id);
+    this.insertEntryStmt.run(id, ts, 'release', amount);
+  }
+}
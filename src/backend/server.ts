@@ -4,25 +4,31 @@ import type { Server } from 'node:http';
 import type WebSocket from 'ws';
 import { EventEmitter } from 'node:events';
 import { WalletManager } from './wallet';
+import { SavingsGoalService } from './savingsGoals';
 import { MarketService } from './market';
 import { SettingsService } from './settings';
 import { ActivityTracker, type ActivityEvent } from './activity-tracker';
 import { ActivityRollupService } from './activityRollups';
 import { PaywallManager } from './paywall';
+import { PaywallSessionStore } from './paywallSessions';
+import { PaywallDiagnosticsLog } from './paywallDiagnostics';
 import { EconomyEngine } from './economy';
 import { FocusService } from './focus';
 import { PomodoroService } from './pomodoro';
 import { IntentionService } from './intentions';
 import { BudgetService } from './budgets';
 import { ActivityClassifier } from './activityClassifier';
+import { ActivityRuleService } from './activityRules';
 import { ActivityPipeline, type ActivityOrigin } from './activityPipeline';
+import { PushActivitySource } from './activitySources';
 import type { Database } from './storage';
-import type { FriendConnection, FriendProfile, FriendSummary, FriendTimeline, MarketRate, PomodoroAllowlistEntry, PomodoroOverride } from '@shared/types';
+import type { FriendConnection, FriendProfile, FriendSummary, FriendTimeline, MarketRate, PairedClient, PaywallDiagnosticEvent, PomodoroAllowlistEntry, PomodoroOverride } from '@shared/types';
 import { logger } from '@shared/logger';
 import {
   isPomodoroSiteAllowed,
   normalizePomodoroDomain
 } from '@shared/pomodoroMatcher';
+import { isPomodoroEnforced } from '@shared/pomodoroPlan';
 import { normalizeOriginPathUrl } from '@shared/domainCanonicalization';
 import { DAY_START_HOUR, getLocalDayStartMs } from '@shared/time';
 import { AnalyticsService } from './analytics';
@@ -37,6 +43,8 @@ import { ReadingService } from './reading';
 import { TrophyService } from './trophies';
 import { CameraService } from './camera';
 import { PaywallCommandService } from './paywallCommands';
+import { ChallengeService } from './challenges';
+import { PairingService } from './pairing';
 
 // Route modules
 import {
@@ -51,6 +59,7 @@ import {
   createLiteraryAnalyticsRoutes,
   createWritingAnalyticsRoutes,
   createWritingRoutes,
+  createAnkiPackageRoutes,
   createAnkiRoutes,
   createSettingsRoutes,
   createExtensionSyncRoutes,
@@ -59,18 +68,24 @@ import {
   createCameraRoutes,
   createActionsRoutes,
   createUiRoutes,
-  createIntegrationsRoutes
+  createIntegrationsRoutes,
+  createActivityRulesRoutes,
+  createPairingRoutes,
+  createPairingAuthMiddleware
 } from './routes';
 
 import { WebSocketBroadcaster } from './websocket';
 
 export type BackendServices = {
   wallet: WalletManager;
+  savingsGoals: SavingsGoalService;
   market: MarketService;
   settings: SettingsService;
   activityTracker: ActivityTracker;
   activityRollups: ActivityRollupService;
+  activityRules: ActivityRuleService;
   paywall: PaywallManager;
+  paywallDiagnostics: PaywallDiagnosticsLog;
   economy: EconomyEngine;
   focus: FocusService;
   pomodoro: PomodoroService;
@@ -87,9 +102,11 @@ export type BackendServices = {
   friends: FriendsService;
   camera: CameraService;
   paywallCommands: PaywallCommandService;
+  pairing: PairingService;
   ui: {
     onNavigate: (cb: (payload: { view: string }) => void) => void;
   };
+  activityPipeline: ActivityPipeline;
   handleActivity: (event: ActivityEvent & { idleSeconds?: number }, origin?: ActivityOrigin) => void;
   extension: {
     status: () => { connected: boolean; lastSeen: number | null };
@@ -129,9 +146,20 @@ export async function createBackend(
 
   // Initialize all services
   const wallet = new WalletManager(database);
+  const savingsGoals = new SavingsGoalService(database, wallet);
+  const pairing = new PairingService(database);
   const market = new MarketService(database);
   const settings = new SettingsService(database);
-  const paywall = new PaywallManager(wallet, market);
+  // Budgets match against the raw categorisation lists, without live overrides.
+  const budgetMatcher = new ActivityClassifier(() => settings.getCategorisation(), () => 1, () => 1);
+  const budgets = new BudgetService(
+    database,
+    (domain, appName, group) => budgetMatcher.matchesCategory(domain, appName, settings.getCategorisation(), group),
+    (domain) => classifier.classify({ timestamp: new Date(), source: 'url', appName: '', domain }).category
+  );
+  const paywall = new PaywallManager(wallet, market, (domain) => budgets.getEscalation(domain), new PaywallSessionStore(database));
+  const paywallDiagnostics = new PaywallDiagnosticsLog(database);
+  paywall.on('diagnostic', (event: PaywallDiagnosticEvent) => paywallDiagnostics.record(event));
   const economy = new EconomyEngine(wallet, market, paywall, () => settings.getEmergencyReminderInterval(), {
     getProductiveRatePerMin: () => settings.getProductiveRatePerMin(),
     getNeutralRatePerMin: () => settings.getNeutralRatePerMin(),
@@ -146,6 +174,13 @@ export async function createBackend(
   const emergency = new EmergencyService(settings, wallet, paywall, consumption);
   const literaryAnalytics = new LiteraryAnalyticsService(database);
   const writingAnalytics = new WritingAnalyticsService(database);
+  const activityRules = new ActivityRuleService(database, {
+    pomodoroActive: () => {
+      const session = pomodoro.status();
+      return Boolean(session && session.state !== 'ended');
+    },
+    writingProjectId: (atMs) => writingAnalytics.getActiveSession(atMs)?.projectId ?? null
+  });
   const anki = new AnkiService(database, wallet);
   const productiveOverrides = { urls: new Set<string>(), apps: new Set<string>() };
 
@@ -185,9 +220,11 @@ export async function createBackend(
     const today = dayKey(new Date());
     const last = settings.getLastDailyWalletResetDay();
     if (last === today) return;
-    const balance = wallet.getSnapshot().balance;
-    if (balance !== 0) {
-      wallet.adjust(-balance, { type: 'daily-reset', day: today, previousBalance: balance });
+    // Coins escrowed in savings goals survive the reset.
+    const { balance, escrowed = 0 } = wallet.getSnapshot();
+    const resettable = balance - escrowed;
+    if (resettable !== 0) {
+      wallet.adjust(-resettable, { type: 'daily-reset', day: today, previousBalance: balance, escrowed });
       logger.info(`Applied daily wallet reset for ${today} (previous balance ${balance})`);
     } else {
       logger.info(`Daily wallet reset skipped for ${today} (already zero)`);
@@ -206,16 +243,34 @@ export async function createBackend(
     }
   };
 
+  let lastLedgerCheckDay: string | null = null;
+  const verifyWalletLedger = () => {
+    const today = dayKey(new Date());
+    if (lastLedgerCheckDay === today) return;
+    lastLedgerCheckDay = today;
+    const report = wallet.reconcile({ repair: true });
+    if (!report.ok) {
+      logger.warn('Wallet ledger discrepancies repaired', report.discrepancies);
+    }
+  };
+
   const applyDailyHousekeeping = () => {
+    verifyWalletLedger();
     applyDailySessionReset();
     applyDailyWalletReset();
   };
 
+  // Restore before housekeeping so sessions left over from yesterday still roll over.
+  paywall.restoreSessions(settings.getPaywallDowntimePolicy());
   applyDailyHousekeeping();
   const dailyHousekeepingTimer = setInterval(applyDailyHousekeeping, 60_000);
+  const budgetTimer = setInterval(() => {
+    budgets.evaluate();
+    savingsGoals.releaseDue();
+  }, 60_000);
 
   const isAllowedByPomodoro = (session: ReturnType<PomodoroService['status']> | null, event: ActivityEvent & { idleSeconds?: number }) => {
-    if (!session || session.state !== 'active') return true;
+    if (!session || !isPomodoroEnforced(session)) return true;
     const now = Date.now();
     const parsedUrl = (() => {
       try {
@@ -273,6 +328,17 @@ export async function createBackend(
           return 'emergency';
         }
       }
+      if (activityRules.list().length) {
+        const { rule } = activityRules.evaluate(
+          activityRules.resolveContext({
+            at: event.timestamp.toISOString(),
+            domain,
+            appName: event.appName,
+            windowTitle: event.windowTitle ?? null
+          })
+        );
+        if (rule) return { ...rule.action, ruleId: rule.id };
+      }
       if (classifier.matchesCategory(domain, appName, config, 'draining') || classifier.matchesCategory(domain, appName, config, 'frivolity')) {
         return null;
       }
@@ -335,11 +401,11 @@ export async function createBackend(
   const focus = new FocusService(database, wallet);
   const pomodoro = new PomodoroService(database);
   const intentions = new IntentionService(database);
-  const budgets = new BudgetService(database);
   const analytics = new AnalyticsService(database, () => settings.getExcludedKeywords());
   const reading = new ReadingService(settings, database);
-  const friends = new FriendsService(settings, analytics);
+  const friends = new FriendsService(settings, analytics, database);
   const trophies = new TrophyService(database, analytics, consumption, library, wallet, settings);
+  const challenges = new ChallengeService(database, { secret: settings.getChallengeSecret() });
   const paywallCommands = new PaywallCommandService({
     economy,
     paywall,
@@ -347,7 +413,8 @@ export async function createBackend(
     market,
     emergency,
     settings,
-    consumption
+    consumption,
+    challenges
   });
 
   // Consumption logging
@@ -409,7 +476,7 @@ export async function createBackend(
     if (allowLoopback || allowNoOrigin) {
       res.setHeader('Access-Control-Allow-Origin', allowLoopback ? origin : '*');
       res.setHeader('Access-Control-Allow-Methods', 'GET,POST,PATCH,DELETE,OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
       if (allowLoopback) {
         res.setHeader('Vary', 'Origin');
       }
@@ -431,6 +498,7 @@ export async function createBackend(
   });
 
   app.use(express.json());
+  app.use(createPairingAuthMiddleware(pairing));
 
   if (options?.onAuthCallback) {
     app.get('/auth/callback', (req, res) => {
@@ -458,6 +526,12 @@ export async function createBackend(
     activityPipeline.handle(event, origin);
   };
 
+  // Extension activity arrives over the websocket; the OS watcher is
+  // registered by the main process once the app is ready.
+  const extensionActivity = new PushActivitySource('extension', 'extension');
+  await activityPipeline.registerSource(extensionActivity);
+  await activityPipeline.startSources();
+
   // WebSocket broadcaster
   broadcaster = new WebSocketBroadcaster({
     economy,
@@ -466,15 +540,18 @@ export async function createBackend(
     pomodoro,
     library,
     paywallCommands,
-    handleActivity
+    budgets,
+    handleActivity: (event) => extensionActivity.push(event)
   });
 
   // Mount routes
   app.get('/health', (_req, res) => res.json({ status: 'ok' }));
-  app.use('/wallet', createWalletRoutes(wallet));
+  app.use('/pairing', createPairingRoutes(pairing));
+  app.use('/wallet', createWalletRoutes(wallet, savingsGoals));
   app.use('/market', createMarketRoutes({ market, paywall, broadcastMarketRates }));
-  app.use('/paywall', createPaywallRoutes({ commands: paywallCommands }));
+  app.use('/paywall', createPaywallRoutes({ commands: paywallCommands, diagnostics: paywallDiagnostics }));
   app.use('/activities', createActivitiesRoutes(activityTracker));
+  app.use('/activity-rules', createActivityRulesRoutes(activityRules));
   app.use('/intentions', createIntentionsRoutes(intentions));
   app.use('/budgets', createBudgetsRoutes(budgets));
   app.use('/library', createLibraryRoutes(library));
@@ -484,7 +561,7 @@ export async function createBackend(
   app.use('/writing', createWritingRoutes(writingAnalytics));
   app.use('/anki', createAnkiRoutes({ anki, economy, settings, pickDeckFile: options?.pickAnkiDeckFile }));
   app.use('/settings', createSettingsRoutes({ settings }));
-  app.use('/extension', createExtensionSyncRoutes({ settings, market, wallet, paywall, library, consumption, pomodoro }));
+  app.use('/extension', createExtensionSyncRoutes({ settings, market, wallet, paywall, library, consumption, pairing, pomodoro }));
   app.use('/trophies', createTrophyRoutes({ trophies, profile: options?.friendsProvider?.profile }));
   app.use('/camera', createCameraRoutes(camera));
   if (options?.friendsProvider) {
@@ -498,12 +575,15 @@ export async function createBackend(
   }
   app.use('/actions', createActionsRoutes({ settings, reading, uiEvents }));
   app.use('/ui', createUiRoutes(uiEvents));
+  app.use('/integrations/anki', createAnkiPackageRoutes({ anki }));
   app.use('/integrations', createIntegrationsRoutes(reading));
 
   // WebSocket endpoint
-  ws.app.ws('/events', (socket: WebSocket) => {
-    broadcaster.handleConnection(socket);
+  ws.app.ws('/events', (socket: WebSocket, req) => {
+    const client = req?.res?.locals.pairedClient as PairedClient | undefined;
+    broadcaster.handleConnection(socket, client?.id);
   });
+  pairing.on('revoke', (clientId: number) => broadcaster?.disconnectClient(clientId));
 
   // Start server
   const server: Server = await new Promise((resolve) => {
@@ -515,6 +595,8 @@ export async function createBackend(
 
   const stop = async () => {
     clearInterval(dailyHousekeepingTimer);
+    clearInterval(budgetTimer);
+    await activityPipeline.stopSources();
     economy.destroy();
     focus.dispose();
     pomodoro.dispose();
@@ -538,11 +620,14 @@ export async function createBackend(
 
   return {
     wallet,
+    savingsGoals,
     market,
     settings,
     activityTracker,
     activityRollups,
+    activityRules,
     paywall,
+    paywallDiagnostics,
     economy,
     focus,
     pomodoro,
@@ -559,6 +644,8 @@ export async function createBackend(
     friends,
     camera,
     paywallCommands,
+    pairing,
+    activityPipeline,
     ui: {
       onNavigate: (cb) => {
         uiEvents.on('navigate', cb);
@@ -1,13 +1,15 @@
+import crypto from 'node:crypto';
 import type { Statement } from 'better-sqlite3';
 import type { Database } from './storage';
 import type { AppTheme, CategorisationConfig } from '@shared/types';
-import type { DailyOnboardingState, DailyOnboardingNote, EmergencyPolicyId, PeekConfig } from '@shared/types';
+import type { CustomEmergencyPolicy, DailyOnboardingState, DailyOnboardingNote, EmergencyPolicyId, PaywallDowntimePolicy, PeekConfig } from '@shared/types';
 import type { GuardrailColorFilter } from '@shared/types';
 import { DEFAULT_CATEGORISATION, DEFAULT_FRIVOLOUS_IDLE_THRESHOLD_SECONDS, DEFAULT_IDLE_THRESHOLD_SECONDS } from './defaults';
 import type { FriendEntry, FriendIdentity, FriendFeedSummary } from '@shared/types';
 import type { ZoteroIntegrationConfig } from '@shared/types';
 import type { JournalConfig } from '@shared/types';
 import { DAY_START_HOUR, getLocalDayStartMs } from '@shared/time';
+import { isEmergencyPresetId, parseCustomEmergencyPolicies } from '@shared/emergencyPolicy';
 
 type EmergencyUsageState = {
   day: string; // YYYY-MM-DD
@@ -184,14 +186,47 @@ export class SettingsService {
 
   getEmergencyPolicy(): EmergencyPolicyId {
     const val = this.getJson<EmergencyPolicyId>('emergencyPolicy');
-    if (val === 'off' || val === 'gentle' || val === 'balanced' || val === 'strict') return val;
+    if (isEmergencyPresetId(val)) return val;
+    if (val && this.getCustomEmergencyPolicies().some((policy) => policy.id === val)) return val;
     return 'balanced';
   }
 
   setEmergencyPolicy(value: EmergencyPolicyId) {
+    if (!isEmergencyPresetId(value) && !this.getCustomEmergencyPolicies().some((policy) => policy.id === value)) {
+      throw new Error('Unknown emergency policy');
+    }
     this.setJson('emergencyPolicy', value);
   }
 
+  getCustomEmergencyPolicies(): CustomEmergencyPolicy[] {
+    try {
+      return parseCustomEmergencyPolicies(this.getJson<unknown>('customEmergencyPolicies') ?? []);
+    } catch {
+      return [];
+    }
+  }
+
+  /** Validates and replaces the whole list; selecting a policy that was removed falls back to Balanced. */
+  setCustomEmergencyPolicies(value: unknown): CustomEmergencyPolicy[] {
+    const policies = parseCustomEmergencyPolicies(value);
+    const selected = this.getJson<EmergencyPolicyId>('emergencyPolicy');
+    this.setJson('customEmergencyPolicies', policies);
+    if (selected && !isEmergencyPresetId(selected) && !policies.some((policy) => policy.id === selected)) {
+      this.setJson('emergencyPolicy', 'balanced');
+    }
+    return policies;
+  }
+
+  getPaywallDowntimePolicy(): PaywallDowntimePolicy {
+    const val = this.getJson<PaywallDowntimePolicy>('paywallDowntimePolicy');
+    if (val === 'freeze' || val === 'count-down' || val === 'refund') return val;
+    return 'freeze';
+  }
+
+  setPaywallDowntimePolicy(value: PaywallDowntimePolicy) {
+    this.setJson('paywallDowntimePolicy', value);
+  }
+
   getEconomyExchangeRate(): number {
     const raw = this.getJson<number>('economyExchangeRate');
     if (typeof raw === 'number' && Number.isFinite(raw) && raw > 0.05 && raw < 20) return raw;
@@ -524,6 +559,15 @@ export class SettingsService {
     this.setJson('friendsIdentity', value);
   }
 
+  /** Key that signs challenge ids. Created once and kept, so ids issued before a restart still verify. */
+  getChallengeSecret(): string {
+    const existing = this.getJson<unknown>('challengeSecret');
+    if (typeof existing === 'string' && existing.length >= 32) return existing;
+    const secret = crypto.randomBytes(32).toString('hex');
+    this.setJson('challengeSecret', secret);
+    return secret;
+  }
+
   listFriends(): FriendEntry[] {
     const raw = this.getJson<FriendEntry[]>('friendsList');
     if (!Array.isArray(raw)) return [];
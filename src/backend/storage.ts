@@ -3,14 +3,18 @@ import os from 'node:os';
 import DatabaseDriver, { type Database as BetterSqlite3Database } from 'better-sqlite3';
 import { logger } from '@shared/logger';
 import { getAppDataPath } from '@shared/platform';
+import { SchemaMigrator } from './migrations';
 
 export type DatabaseOptions = {
   filePath?: string;
+  /** Set to false to open without applying pending migrations (used by the migration CLI). */
+  migrate?: boolean;
 };
 
 export class Database {
   private driver: BetterSqlite3Database;
   private options: DatabaseOptions;
+  private migrator: SchemaMigrator;
 
   constructor(options: DatabaseOptions = {}) {
     this.options = options;
@@ -18,7 +22,10 @@ export class Database {
     logger.info('Opening database at', dbPath);
     this.driver = new DatabaseDriver(dbPath);
     this.driver.pragma('journal_mode = WAL');
-    this.initialise();
+    this.migrator = new SchemaMigrator(this.driver, dbPath === ':memory:' ? null : dbPath);
+    if (options.migrate !== false) {
+      this.migrator.migrate();
+    }
   }
 
   /**
@@ -31,714 +38,8 @@ export class Database {
     return txn();
   }
 
-  private initialise() {
-    const ddl = `
-      CREATE TABLE IF NOT EXISTS activities (
-        id INTEGER PRIMARY KEY,
-        started_at TEXT NOT NULL,
-        ended_at TEXT,
-        source TEXT CHECK(source IN ('app','url')) NOT NULL,
-        app_name TEXT,
-        bundle_id TEXT,
-        window_title TEXT,
-        url TEXT,
-        domain TEXT,
-        category TEXT,
-        seconds_active INTEGER DEFAULT 0,
-        idle_seconds INTEGER DEFAULT 0
-      );
-
-      CREATE TABLE IF NOT EXISTS focus_sessions (
-        id INTEGER PRIMARY KEY,
-        started_at TEXT NOT NULL,
-        ended_at TEXT,
-        duration_sec INTEGER NOT NULL,
-        completed INTEGER DEFAULT 0,
-        multiplier REAL DEFAULT 1.0
-      );
-
-      CREATE TABLE IF NOT EXISTS pomodoro_sessions (
-        id TEXT PRIMARY KEY,
-        mode TEXT CHECK(mode IN ('strict','soft')) NOT NULL,
-        state TEXT CHECK(state IN ('active','paused','break','ended')) NOT NULL,
-        started_at TEXT NOT NULL,
-        ended_at TEXT,
-        planned_duration_sec INTEGER NOT NULL,
-        break_duration_sec INTEGER NOT NULL DEFAULT 0,
-        temporary_unlock_sec INTEGER NOT NULL DEFAULT 300,
-        allowlist_json TEXT NOT NULL,
-        overrides_json TEXT NOT NULL DEFAULT '[]',
-        preset_id TEXT,
-        completed_reason TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS pomodoro_block_events (
-        id INTEGER PRIMARY KEY,
-        session_id TEXT NOT NULL,
-        occurred_at TEXT NOT NULL,
-        target TEXT NOT NULL,
-        target_type TEXT CHECK(target_type IN ('app','site')) NOT NULL,
-        reason TEXT NOT NULL,
-        remaining_ms INTEGER,
-        mode TEXT CHECK(mode IN ('strict','soft')) NOT NULL,
-        meta TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS intentions (
-        id INTEGER PRIMARY KEY,
-        date TEXT NOT NULL,
-        text TEXT NOT NULL,
-        completed INTEGER DEFAULT 0
-      );
-
-      CREATE TABLE IF NOT EXISTS budgets (
-        id INTEGER PRIMARY KEY,
-        period TEXT CHECK(period IN ('day','week')) NOT NULL,
-        category TEXT NOT NULL,
-        seconds_budgeted INTEGER NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS wallet (
-        id INTEGER PRIMARY KEY CHECK(id = 1),
-        balance INTEGER NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS transactions (
-        id INTEGER PRIMARY KEY,
-        ts TEXT NOT NULL,
-        type TEXT CHECK(type IN ('earn','spend','adjust')) NOT NULL,
-        amount INTEGER NOT NULL,
-        meta TEXT,
-        sync_id TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS market_rates (
-        domain TEXT PRIMARY KEY,
-        rate_per_min REAL NOT NULL,
-        packs_json TEXT NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS settings (
-        key TEXT PRIMARY KEY,
-        value TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS library_items (
-        id INTEGER PRIMARY KEY,
-        kind TEXT CHECK(kind IN ('url','app')) NOT NULL,
-        url TEXT UNIQUE,
-        app TEXT,
-        domain TEXT NOT NULL,
-        title TEXT,
-        note TEXT,
-        bucket TEXT CHECK(bucket IN ('attractor','productive','frivolous')) NOT NULL,
-        purpose TEXT NOT NULL DEFAULT 'allow',
-        price INTEGER,
-        is_public INTEGER NOT NULL DEFAULT 0,
-        created_at TEXT NOT NULL,
-        updated_at TEXT,
-        last_used_at TEXT,
-        consumed_at TEXT,
-        deleted_at TEXT,
-        sync_id TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS camera_photos (
-        id TEXT PRIMARY KEY,
-        captured_at TEXT NOT NULL,
-        file_path TEXT NOT NULL,
-        file_url TEXT NOT NULL,
-        subject TEXT,
-        session_id INTEGER,
-        domain TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS consumption_log (
-        id INTEGER PRIMARY KEY,
-        occurred_at TEXT NOT NULL,
-        day TEXT NOT NULL,
-        kind TEXT NOT NULL,
-        title TEXT,
-        url TEXT,
-        domain TEXT,
-        meta TEXT,
-        sync_id TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS activity_rollups (
-        id INTEGER PRIMARY KEY,
-        device_id TEXT NOT NULL,
-        hour_start TEXT NOT NULL,
-        productive INTEGER NOT NULL,
-        neutral INTEGER NOT NULL,
-        frivolity INTEGER NOT NULL,
-        draining INTEGER NOT NULL DEFAULT 0,
-        emergency INTEGER NOT NULL DEFAULT 0,
-        idle INTEGER NOT NULL,
-        updated_at TEXT NOT NULL,
-        UNIQUE(device_id, hour_start)
-      );
-
-      CREATE TABLE IF NOT EXISTS trophies (
-        id TEXT PRIMARY KEY,
-        earned_at TEXT NOT NULL,
-        meta TEXT
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_activities_started_at ON activities(started_at);
-      CREATE INDEX IF NOT EXISTS idx_activities_domain ON activities(domain);
-      CREATE INDEX IF NOT EXISTS idx_transactions_ts ON transactions(ts);
-      CREATE INDEX IF NOT EXISTS idx_library_items_bucket ON library_items(bucket);
-      CREATE INDEX IF NOT EXISTS idx_library_items_domain ON library_items(domain);
-      CREATE INDEX IF NOT EXISTS idx_camera_photos_captured_at ON camera_photos(captured_at);
-      CREATE INDEX IF NOT EXISTS idx_camera_photos_session ON camera_photos(session_id);
-      CREATE INDEX IF NOT EXISTS idx_camera_photos_domain ON camera_photos(domain);
-      CREATE INDEX IF NOT EXISTS idx_consumption_log_day ON consumption_log(day);
-      CREATE INDEX IF NOT EXISTS idx_activity_rollups_device ON activity_rollups(device_id);
-      CREATE INDEX IF NOT EXISTS idx_activity_rollups_hour ON activity_rollups(hour_start);
-      CREATE INDEX IF NOT EXISTS idx_trophies_earned_at ON trophies(earned_at);
-      CREATE INDEX IF NOT EXISTS idx_pomodoro_block_session ON pomodoro_block_events(session_id);
-      CREATE INDEX IF NOT EXISTS idx_pomodoro_sessions_state ON pomodoro_sessions(state);
-
-      -- Granular behavioral events captured by extension
-      CREATE TABLE IF NOT EXISTS behavior_events (
-        id INTEGER PRIMARY KEY,
-        timestamp TEXT NOT NULL,
-        session_id INTEGER,
-        domain TEXT NOT NULL,
-        event_type TEXT CHECK(event_type IN 
-          ('scroll', 'click', 'keystroke', 'focus', 'blur', 'idle_start', 'idle_end', 'visibility')) NOT NULL,
-        value_int INTEGER,
-        value_float REAL,
-        metadata TEXT
-      );
-
-      -- Aggregated session analytics (computed periodically)
-      CREATE TABLE IF NOT EXISTS session_analytics (
-        id INTEGER PRIMARY KEY,
-        activity_id INTEGER UNIQUE,
-        domain TEXT NOT NULL,
-        date TEXT NOT NULL,
-        hour_of_day INTEGER DEFAULT 0,
-        total_scroll_depth INTEGER DEFAULT 0,
-        avg_scroll_velocity REAL DEFAULT 0,
-        total_clicks INTEGER DEFAULT 0,
-        total_keystrokes INTEGER DEFAULT 0,
-        fixation_seconds INTEGER DEFAULT 0,
-        quality_score REAL DEFAULT 0,
-        engagement_level TEXT CHECK(engagement_level IN 
-          ('low', 'passive', 'moderate', 'high', 'intense'))
-      );
-
-      -- Behavioral patterns (what leads to what)
-      CREATE TABLE IF NOT EXISTS behavioral_patterns (
-        id INTEGER PRIMARY KEY,
-        computed_at TEXT NOT NULL,
-        from_category TEXT,
-        from_domain TEXT,
-        to_category TEXT,
-        to_domain TEXT,
-        transition_count INTEGER DEFAULT 0,
-        avg_duration_before REAL,
-        correlation_strength REAL,
-        time_of_day_bucket INTEGER
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_behavior_events_ts ON behavior_events(timestamp);
-      CREATE INDEX IF NOT EXISTS idx_behavior_events_domain ON behavior_events(domain);
-      CREATE INDEX IF NOT EXISTS idx_behavior_events_session ON behavior_events(session_id);
-      CREATE INDEX IF NOT EXISTS idx_session_analytics_date ON session_analytics(date);
-      CREATE INDEX IF NOT EXISTS idx_session_analytics_domain ON session_analytics(domain);
-      CREATE INDEX IF NOT EXISTS idx_behavioral_patterns_computed ON behavioral_patterns(computed_at);
-
-      -- Literary analytics (reading sessions / progress / rollups)
-      CREATE TABLE IF NOT EXISTS reading_sessions (
-        session_id TEXT PRIMARY KEY,
-        doc_key TEXT NOT NULL,
-        title TEXT NOT NULL,
-        file_name TEXT,
-        format TEXT NOT NULL,
-        source_surface TEXT NOT NULL,
-        started_at TEXT NOT NULL,
-        ended_at TEXT,
-        last_event_at TEXT,
-        current_page INTEGER,
-        total_pages INTEGER,
-        progress REAL,
-        active_seconds_total INTEGER NOT NULL DEFAULT 0,
-        focused_seconds_total INTEGER NOT NULL DEFAULT 0,
-        pages_read_total INTEGER NOT NULL DEFAULT 0,
-        words_read_total INTEGER NOT NULL DEFAULT 0,
-        estimated_total_words INTEGER,
-        location_label TEXT,
-        meta TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS reading_progress_events (
-        id INTEGER PRIMARY KEY,
-        session_id TEXT NOT NULL,
-        doc_key TEXT NOT NULL,
-        title TEXT NOT NULL,
-        format TEXT NOT NULL,
-        source_surface TEXT NOT NULL,
-        occurred_at TEXT NOT NULL,
-        current_page INTEGER,
-        total_pages INTEGER,
-        progress REAL,
-        active_seconds_total INTEGER NOT NULL DEFAULT 0,
-        focused_seconds_total INTEGER NOT NULL DEFAULT 0,
-        pages_read_total INTEGER NOT NULL DEFAULT 0,
-        words_read_total INTEGER NOT NULL DEFAULT 0,
-        estimated_total_words INTEGER,
-        location_label TEXT,
-        meta TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS reading_daily_rollups (
-        day TEXT PRIMARY KEY,
-        active_seconds INTEGER NOT NULL DEFAULT 0,
-        focused_seconds INTEGER NOT NULL DEFAULT 0,
-        pages_read INTEGER NOT NULL DEFAULT 0,
-        words_read INTEGER NOT NULL DEFAULT 0,
-        sessions INTEGER NOT NULL DEFAULT 0,
-        updated_at TEXT NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS reading_hourly_rollups (
-        hour_start TEXT PRIMARY KEY,
-        active_seconds INTEGER NOT NULL DEFAULT 0,
-        focused_seconds INTEGER NOT NULL DEFAULT 0,
-        pages_read INTEGER NOT NULL DEFAULT 0,
-        words_read INTEGER NOT NULL DEFAULT 0,
-        updated_at TEXT NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS reading_daily_doc_touches (
-        day TEXT NOT NULL,
-        doc_key TEXT NOT NULL,
-        first_seen_at TEXT NOT NULL,
-        PRIMARY KEY (day, doc_key)
-      );
-
-      CREATE TABLE IF NOT EXISTS reading_annotations (
-        id INTEGER PRIMARY KEY,
-        doc_key TEXT NOT NULL,
-        title TEXT NOT NULL,
-        kind TEXT CHECK(kind IN ('highlight','note')) NOT NULL,
-        session_id TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        current_page INTEGER,
-        total_pages INTEGER,
-        progress REAL,
-        location_label TEXT,
-        selected_text TEXT,
-        note_text TEXT,
-        meta TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS zotero_progress_state (
-        item_key TEXT PRIMARY KEY,
-        attachment_key TEXT,
-        doc_key TEXT NOT NULL,
-        title TEXT NOT NULL,
-        subtitle TEXT,
-        collection_path TEXT,
-        source_path TEXT,
-        total_pages INTEGER,
-        current_page INTEGER,
-        progress REAL,
-        last_seen_at TEXT NOT NULL,
-        last_progress_change_at TEXT,
-        pages_advanced_total INTEGER NOT NULL DEFAULT 0,
-        checkpoints_count INTEGER NOT NULL DEFAULT 0
-      );
-
-      CREATE TABLE IF NOT EXISTS zotero_progress_events (
-        id INTEGER PRIMARY KEY,
-        item_key TEXT NOT NULL,
-        attachment_key TEXT,
-        doc_key TEXT NOT NULL,
-        title TEXT NOT NULL,
-        subtitle TEXT,
-        collection_path TEXT,
-        source_path TEXT,
-        observed_at TEXT NOT NULL,
-        day TEXT NOT NULL,
-        total_pages INTEGER,
-        current_page INTEGER,
-        progress REAL,
-        delta_progress REAL NOT NULL DEFAULT 0,
-        delta_pages INTEGER NOT NULL DEFAULT 0,
-        progressed INTEGER NOT NULL DEFAULT 0
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_reading_sessions_started_at ON reading_sessions(started_at);
-      CREATE INDEX IF NOT EXISTS idx_reading_sessions_doc_key ON reading_sessions(doc_key);
-      CREATE INDEX IF NOT EXISTS idx_reading_sessions_last_event_at ON reading_sessions(last_event_at);
-      CREATE INDEX IF NOT EXISTS idx_reading_progress_events_occurred_at ON reading_progress_events(occurred_at);
-      CREATE INDEX IF NOT EXISTS idx_reading_progress_events_session_id ON reading_progress_events(session_id);
-      CREATE INDEX IF NOT EXISTS idx_reading_progress_events_doc_key ON reading_progress_events(doc_key);
-      CREATE INDEX IF NOT EXISTS idx_reading_daily_doc_touches_day ON reading_daily_doc_touches(day);
-      CREATE INDEX IF NOT EXISTS idx_reading_annotations_doc_key ON reading_annotations(doc_key);
-      CREATE INDEX IF NOT EXISTS idx_reading_annotations_created_at ON reading_annotations(created_at);
-      CREATE INDEX IF NOT EXISTS idx_reading_annotations_kind ON reading_annotations(kind);
-      CREATE INDEX IF NOT EXISTS idx_zotero_progress_state_last_seen ON zotero_progress_state(last_seen_at);
-      CREATE INDEX IF NOT EXISTS idx_zotero_progress_state_progress ON zotero_progress_state(progress);
-      CREATE INDEX IF NOT EXISTS idx_zotero_progress_events_observed_at ON zotero_progress_events(observed_at);
-      CREATE INDEX IF NOT EXISTS idx_zotero_progress_events_day ON zotero_progress_events(day);
-      CREATE INDEX IF NOT EXISTS idx_zotero_progress_events_item_key ON zotero_progress_events(item_key);
-      CREATE INDEX IF NOT EXISTS idx_zotero_progress_events_progressed ON zotero_progress_events(progressed);
-
-      -- Writing studio analytics (projects / sessions / rollups)
-      CREATE TABLE IF NOT EXISTS writing_projects (
-        id INTEGER PRIMARY KEY,
-        project_key TEXT NOT NULL UNIQUE,
-        title TEXT NOT NULL,
-        kind TEXT NOT NULL,
-        target_kind TEXT NOT NULL,
-        status TEXT NOT NULL DEFAULT 'active',
-        target_url TEXT,
-        target_id TEXT,
-        word_target INTEGER,
-        current_word_count INTEGER NOT NULL DEFAULT 0,
-        total_keystrokes INTEGER NOT NULL DEFAULT 0,
-        total_words_added INTEGER NOT NULL DEFAULT 0,
-        total_words_deleted INTEGER NOT NULL DEFAULT 0,
-        total_net_words INTEGER NOT NULL DEFAULT 0,
-        session_count INTEGER NOT NULL DEFAULT 0,
-        body_text TEXT,
-        reentry_note TEXT,
-        prompt_text TEXT,
-        last_touched_at TEXT,
-        last_session_started_at TEXT,
-        last_session_ended_at TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        meta TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS writing_sessions (
-        session_id TEXT PRIMARY KEY,
-        project_id INTEGER NOT NULL,
-        project_key TEXT NOT NULL,
-        title TEXT NOT NULL,
-        kind TEXT NOT NULL,
-        target_kind TEXT NOT NULL,
-        source_surface TEXT NOT NULL,
-        sprint_minutes INTEGER,
-        started_at TEXT NOT NULL,
-        ended_at TEXT,
-        last_event_at TEXT,
-        active_seconds_total INTEGER NOT NULL DEFAULT 0,
-        focused_seconds_total INTEGER NOT NULL DEFAULT 0,
-        keystrokes_total INTEGER NOT NULL DEFAULT 0,
-        words_added_total INTEGER NOT NULL DEFAULT 0,
-        words_deleted_total INTEGER NOT NULL DEFAULT 0,
-        net_words_total INTEGER NOT NULL DEFAULT 0,
-        current_word_count INTEGER NOT NULL DEFAULT 0,
-        body_text_length INTEGER,
-        location_label TEXT,
-        meta TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS writing_progress_events (
-        id INTEGER PRIMARY KEY,
-        session_id TEXT NOT NULL,
-        project_id INTEGER NOT NULL,
-        project_key TEXT NOT NULL,
-        title TEXT NOT NULL,
-        kind TEXT NOT NULL,
-        target_kind TEXT NOT NULL,
-        source_surface TEXT NOT NULL,
-        occurred_at TEXT NOT NULL,
-        active_seconds_total INTEGER NOT NULL DEFAULT 0,
-        focused_seconds_total INTEGER NOT NULL DEFAULT 0,
-        keystrokes_total INTEGER NOT NULL DEFAULT 0,
-        words_added_total INTEGER NOT NULL DEFAULT 0,
-        words_deleted_total INTEGER NOT NULL DEFAULT 0,
-        net_words_total INTEGER NOT NULL DEFAULT 0,
-        current_word_count INTEGER NOT NULL DEFAULT 0,
-        body_text_length INTEGER,
-        location_label TEXT,
-        meta TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS writing_daily_rollups (
-        day TEXT PRIMARY KEY,
-        active_seconds INTEGER NOT NULL DEFAULT 0,
-        focused_seconds INTEGER NOT NULL DEFAULT 0,
-        keystrokes INTEGER NOT NULL DEFAULT 0,
-        words_added INTEGER NOT NULL DEFAULT 0,
-        words_deleted INTEGER NOT NULL DEFAULT 0,
-        net_words INTEGER NOT NULL DEFAULT 0,
-        sessions INTEGER NOT NULL DEFAULT 0,
-        updated_at TEXT NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS writing_hourly_rollups (
-        hour_start TEXT PRIMARY KEY,
-        active_seconds INTEGER NOT NULL DEFAULT 0,
-        focused_seconds INTEGER NOT NULL DEFAULT 0,
-        keystrokes INTEGER NOT NULL DEFAULT 0,
-        words_added INTEGER NOT NULL DEFAULT 0,
-        words_deleted INTEGER NOT NULL DEFAULT 0,
-        net_words INTEGER NOT NULL DEFAULT 0,
-        updated_at TEXT NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS writing_daily_project_touches (
-        day TEXT NOT NULL,
-        project_id INTEGER NOT NULL,
-        first_seen_at TEXT NOT NULL,
-        PRIMARY KEY (day, project_id)
-      );
-
-      -- Anki-inspired spaced repetition (local deck imports + review history)
-      CREATE TABLE IF NOT EXISTS anki_decks (
-        id INTEGER PRIMARY KEY,
-        name TEXT NOT NULL UNIQUE,
-        source_path TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        last_imported_at TEXT,
-        last_reviewed_at TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS anki_cards (
-        id INTEGER PRIMARY KEY,
-        deck_id INTEGER NOT NULL,
-        source_card_id TEXT,
-        fingerprint TEXT NOT NULL,
-        front TEXT NOT NULL,
-        back TEXT NOT NULL,
-        tags TEXT,
-        note_type TEXT,
-        due_at TEXT NOT NULL,
-        interval_days INTEGER NOT NULL DEFAULT 0,
-        ease_factor REAL NOT NULL DEFAULT 2.5,
-        repetitions INTEGER NOT NULL DEFAULT 0,
-        lapses INTEGER NOT NULL DEFAULT 0,
-        suspended INTEGER NOT NULL DEFAULT 0,
-        last_reviewed_at TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        UNIQUE(deck_id, fingerprint)
-      );
-
-      CREATE TABLE IF NOT EXISTS anki_reviews (
-        id INTEGER PRIMARY KEY,
-        card_id INTEGER NOT NULL,
-        deck_id INTEGER NOT NULL,
-        reviewed_at TEXT NOT NULL,
-        rating TEXT NOT NULL,
-        response_ms INTEGER,
-        before_due_at TEXT,
-        after_due_at TEXT,
-        before_interval_days INTEGER,
-        after_interval_days INTEGER,
-        before_ease_factor REAL,
-        after_ease_factor REAL,
-        reward_coins INTEGER NOT NULL DEFAULT 0,
-        unlock_consumed INTEGER NOT NULL DEFAULT 0
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_writing_projects_kind ON writing_projects(kind);
-      CREATE INDEX IF NOT EXISTS idx_writing_projects_status ON writing_projects(status);
-      CREATE INDEX IF NOT EXISTS idx_writing_projects_last_touched ON writing_projects(last_touched_at);
-      CREATE INDEX IF NOT EXISTS idx_writing_sessions_started_at ON writing_sessions(started_at);
-      CREATE INDEX IF NOT EXISTS idx_writing_sessions_project_id ON writing_sessions(project_id);
-      CREATE INDEX IF NOT EXISTS idx_writing_sessions_last_event_at ON writing_sessions(last_event_at);
-      CREATE INDEX IF NOT EXISTS idx_writing_progress_events_occurred_at ON writing_progress_events(occurred_at);
-      CREATE INDEX IF NOT EXISTS idx_writing_progress_events_session_id ON writing_progress_events(session_id);
-      CREATE INDEX IF NOT EXISTS idx_writing_daily_project_touches_day ON writing_daily_project_touches(day);
-      CREATE INDEX IF NOT EXISTS idx_anki_decks_name ON anki_decks(name);
-      CREATE INDEX IF NOT EXISTS idx_anki_cards_deck_due ON anki_cards(deck_id, due_at);
-      CREATE INDEX IF NOT EXISTS idx_anki_cards_due ON anki_cards(due_at);
-      CREATE INDEX IF NOT EXISTS idx_anki_reviews_card ON anki_reviews(card_id);
-      CREATE INDEX IF NOT EXISTS idx_anki_reviews_deck ON anki_reviews(deck_id);
-      CREATE INDEX IF NOT EXISTS idx_anki_reviews_reviewed_at ON anki_reviews(reviewed_at);
-      CREATE INDEX IF NOT EXISTS idx_anki_reviews_unlock_consumed ON anki_reviews(unlock_consumed);
-    `;
-
-    this.driver.exec(ddl);
-
-    const wallet = this.driver.prepare('SELECT balance FROM wallet WHERE id = 1').get();
-    if (!wallet) {
-      this.driver.prepare('INSERT INTO wallet(id, balance) VALUES (1, 50)').run();
-    }
-
-    // Migration: Add hourly_modifiers_json to market_rates if missing
-    const tableInfo = this.driver.prepare("PRAGMA table_info(market_rates)").all() as Array<{ name: string }>;
-    const hasHourlyModifiers = tableInfo.some(c => c.name === 'hourly_modifiers_json');
-    if (!hasHourlyModifiers) {
-      logger.info('Migrating database: Adding hourly_modifiers_json to market_rates');
-      this.driver.exec("ALTER TABLE market_rates ADD COLUMN hourly_modifiers_json TEXT DEFAULT '[]'");
-    }
-
-    // Migration: Add purpose/price to library_items if missing
-    const libraryInfo = this.driver.prepare("PRAGMA table_info(library_items)").all() as Array<{ name: string }>;
-    const hasPurpose = libraryInfo.some(c => c.name === 'purpose');
-    const hasPrice = libraryInfo.some(c => c.name === 'price');
-    const hasConsumedAt = libraryInfo.some(c => c.name === 'consumed_at');
-    const hasIsPublic = libraryInfo.some(c => c.name === 'is_public');
-    if (!hasPurpose) {
-      logger.info('Migrating database: Adding purpose to library_items');
-      this.driver.exec("ALTER TABLE library_items ADD COLUMN purpose TEXT DEFAULT 'allow'");
-      // Backfill purpose from legacy bucket values
-      this.driver.exec(`
-        UPDATE library_items
-        SET purpose = CASE bucket
-          WHEN 'attractor' THEN 'replace'
-          WHEN 'productive' THEN 'allow'
-          WHEN 'frivolous' THEN 'temptation'
-          ELSE 'allow'
-        END
-      `);
-    }
-    if (!hasPrice) {
-      logger.info('Migrating database: Adding price to library_items');
-      this.driver.exec("ALTER TABLE library_items ADD COLUMN price INTEGER");
-    }
-    if (!hasIsPublic) {
-      logger.info('Migrating database: Adding is_public to library_items');
-      this.driver.exec("ALTER TABLE library_items ADD COLUMN is_public INTEGER NOT NULL DEFAULT 0");
-    }
-    if (!hasConsumedAt) {
-      logger.info('Migrating database: Adding consumed_at to library_items');
-      this.driver.exec("ALTER TABLE library_items ADD COLUMN consumed_at TEXT");
-    }
-    const hasUpdatedAt = libraryInfo.some(c => c.name === 'updated_at');
-    const hasDeletedAt = libraryInfo.some(c => c.name === 'deleted_at');
-    const hasSyncId = libraryInfo.some(c => c.name === 'sync_id');
-    if (!hasUpdatedAt) {
-      logger.info('Migrating database: Adding updated_at to library_items');
-      this.driver.exec("ALTER TABLE library_items ADD COLUMN updated_at TEXT");
-    }
-    if (!hasDeletedAt) {
-      logger.info('Migrating database: Adding deleted_at to library_items');
-      this.driver.exec("ALTER TABLE library_items ADD COLUMN deleted_at TEXT");
-    }
-    if (!hasSyncId) {
-      logger.info('Migrating database: Adding sync_id to library_items');
-      this.driver.exec("ALTER TABLE library_items ADD COLUMN sync_id TEXT");
-    }
-
-    // Ensure index exists after migrations (older DBs may not have `purpose` yet when DDL runs).
-    this.driver.exec('CREATE INDEX IF NOT EXISTS idx_library_items_purpose ON library_items(purpose)');
-    this.driver.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_library_items_sync_id ON library_items(sync_id)');
-    this.driver.exec('UPDATE library_items SET updated_at = created_at WHERE updated_at IS NULL');
-
-    const txInfo = this.driver.prepare("PRAGMA table_info(transactions)").all() as Array<{ name: string }>;
-    const hasTxSyncId = txInfo.some(c => c.name === 'sync_id');
-    if (!hasTxSyncId) {
-      logger.info('Migrating database: Adding sync_id to transactions');
-      this.driver.exec("ALTER TABLE transactions ADD COLUMN sync_id TEXT");
-    }
-    this.driver.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_sync_id ON transactions(sync_id)');
-
-    const consumptionInfo = this.driver.prepare("PRAGMA table_info(consumption_log)").all() as Array<{ name: string }>;
-    const hasConsumptionSyncId = consumptionInfo.some(c => c.name === 'sync_id');
-    if (!hasConsumptionSyncId) {
-      logger.info('Migrating database: Adding sync_id to consumption_log');
-      this.driver.exec("ALTER TABLE consumption_log ADD COLUMN sync_id TEXT");
-    }
-    this.driver.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_consumption_log_sync_id ON consumption_log(sync_id)');
-
-    // Migration: merge legacy store_items into library_items (priced allow-items)
-    const storeTable = this.driver
-      .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='store_items'")
-      .get() as { name: string } | undefined;
-    if (storeTable) {
-      try {
-        this.driver.exec(`
-          INSERT OR IGNORE INTO library_items(
-            kind, url, app, domain, title, note, bucket, purpose, price, created_at, last_used_at
-          )
-          SELECT
-            'url' as kind,
-            url,
-            NULL as app,
-            domain,
-            title,
-            NULL as note,
-            'productive' as bucket,
-            'allow' as purpose,
-            price,
-            created_at,
-            last_used_at
-          FROM store_items
-        `);
-      } catch (error) {
-        logger.warn('Failed to migrate store_items into library_items', error);
-      }
-    }
-
-    // Migration: add draining column to activity_rollups
-    const rollupInfo = this.driver.prepare("PRAGMA table_info(activity_rollups)").all() as Array<{ name: string }>;
-    const hasDraining = rollupInfo.some(c => c.name === 'draining');
-    if (!hasDraining) {
-      logger.info('Migrating database: Adding draining to activity_rollups');
-      this.driver.exec("ALTER TABLE activity_rollups ADD COLUMN draining INTEGER NOT NULL DEFAULT 0");
-    }
-    const hasEmergency = rollupInfo.some(c => c.name === 'emergency');
-    if (!hasEmergency) {
-      logger.info('Migrating database: Adding emergency to activity_rollups');
-      this.driver.exec("ALTER TABLE activity_rollups ADD COLUMN emergency INTEGER NOT NULL DEFAULT 0");
-    }
-
-    // Migration: Add analytics tables for existing databases
-    this.migrateAnalyticsTables();
-    this.migrateLiteraryAnalyticsTables();
-    this.migrateWritingAnalyticsTables();
-    this.migrateAnkiTables();
-  }
-
-  private migrateAnalyticsTables() {
-    const tables = this.driver.prepare(
-      "SELECT name FROM sqlite_master WHERE type='table' AND name IN ('behavior_events', 'session_analytics', 'behavioral_patterns')"
-    ).all() as Array<{ name: string }>;
-
-    if (tables.length < 3) {
-      logger.info('Analytics tables created/verified');
-    }
-  }
-
-  private migrateLiteraryAnalyticsTables() {
-    const tables = this.driver.prepare(
-      "SELECT name FROM sqlite_master WHERE type='table' AND name IN ('reading_sessions', 'reading_progress_events', 'reading_daily_rollups', 'reading_hourly_rollups', 'reading_daily_doc_touches', 'reading_annotations')"
-    ).all() as Array<{ name: string }>;
-
-    if (tables.length < 6) {
-      logger.info('Literary analytics tables created/verified');
-    }
-  }
-
-  private migrateWritingAnalyticsTables() {
-    const tables = this.driver.prepare(
-      "SELECT name FROM sqlite_master WHERE type='table' AND name IN ('writing_projects', 'writing_sessions', 'writing_progress_events', 'writing_daily_rollups', 'writing_hourly_rollups', 'writing_daily_project_touches')"
-    ).all() as Array<{ name: string }>;
-
-    if (tables.length < 6) {
-      logger.info('Writing analytics tables created/verified');
-    }
-  }
-
-  private migrateAnkiTables() {
-    const tables = this.driver.prepare(
-      "SELECT name FROM sqlite_master WHERE type='table' AND name IN ('anki_decks', 'anki_cards', 'anki_reviews')"
-    ).all() as Array<{ name: string }>;
-
-    if (tables.length < 3) {
-      logger.info('Anki tables created/verified');
-    }
-
-    const ankiReviewInfo = this.driver.prepare("PRAGMA table_info(anki_reviews)").all() as Array<{ name: string }>;
-    const hasUnlockConsumed = ankiReviewInfo.some(c => c.name === 'unlock_consumed');
-    if (!hasUnlockConsumed) {
-      logger.info('Migrating database: Adding unlock_consumed to anki_reviews');
-      this.driver.exec("ALTER TABLE anki_reviews ADD COLUMN unlock_consumed INTEGER NOT NULL DEFAULT 0");
-    }
+  get migrations(): SchemaMigrator {
+    return this.migrator;
   }
 
   get connection(): BetterSqlite3Database {
@@ -10,11 +10,55 @@ import { canonicalizeDomain } from '@shared/domainCanonicalization';
 import type {
   ActivityCategory,
   AnalyticsOverview,
+  CustomTrophy,
+  CustomTrophyInput,
+  TrophyDefinition,
   TrophyProfileSummary,
   TrophyProgress,
+  TrophyRule,
   TrophyStatus
 } from '@shared/types';
 import { TROPHY_DEFINITIONS } from '@shared/trophies';
+import { evaluateTrophyRule, validateTrophyRule, type TrophyMetricSource } from '@shared/trophyRules';
+import {
+  createTrophyMetricSource,
+  type TrophyActivitySample,
+  type TrophyCoinSample,
+  type TrophyEventSample
+} from './trophyMetricSource';
+
+type CustomTrophyRow = {
+  id: number;
+  name: string;
+  description: string;
+  emoji: string;
+  rule_json: string;
+  created_at: string;
+};
+
+const CUSTOM_TROPHY_PREFIX = 'custom:';
+
+function rowToCustomTrophy(row: CustomTrophyRow): CustomTrophy {
+  return {
+    id: `${CUSTOM_TROPHY_PREFIX}${row.id}`,
+    name: row.name,
+    description: row.description,
+    emoji: row.emoji,
+    rule: JSON.parse(row.rule_json) as TrophyRule,
+    createdAt: row.created_at
+  };
+}
+
+function parseCustomTrophyId(id: string) {
+  const numeric = Number(id.startsWith(CUSTOM_TROPHY_PREFIX) ? id.slice(CUSTOM_TROPHY_PREFIX.length) : id);
+  if (!Number.isInteger(numeric) || numeric <= 0) throw new Error(`Unknown custom trophy ${id}`);
+  return numeric;
+}
+
+function assertValidRule(rule: TrophyRule) {
+  const errors = validateTrophyRule(rule);
+  if (errors.length) throw new Error(errors.join('; '));
+}
 
 type ActivityRow = {
   started_at: string;
@@ -91,6 +135,7 @@ type TrophyMetrics = {
   hourProductiveAll: number[];
   hourProductive24h: number[];
   friendsCount: number;
+  source: TrophyMetricSource;
 };
 
 const DAY_MS = 24 * 60 * 60 * 1000;
@@ -132,13 +177,6 @@ function progress(current: number, target: number, label?: string): TrophyProgre
   return { current, target: safeTarget, ratio, label, state };
 }
 
-function progressMax(value: number, max: number, label?: string): TrophyProgress {
-  const safeMax = Math.max(1, max);
-  const ratio = value <= safeMax ? 1 : Math.max(0, Math.min(1, safeMax / value));
-  const state = value <= safeMax ? 'earned' : 'locked';
-  return { current: value, target: safeMax, ratio, label, state };
-}
-
 function untracked(label = 'Not tracked yet'): TrophyProgress {
   return { current: 0, target: 1, ratio: 0, label, state: 'untracked' };
 }
@@ -148,8 +186,12 @@ export class TrophyService extends EventEmitter {
   private listStmt: Statement;
   private insertStmt: Statement;
   private updateStmt: Statement;
-  private hasActivityStmt: Statement;
   private activitiesAllStmt: Statement;
+  private customListStmt: Statement;
+  private customGetStmt: Statement;
+  private customInsertStmt: Statement;
+  private customUpdateStmt: Statement;
+  private customDeleteStmt: Statement;
   private debounce: NodeJS.Timeout | null = null;
 
   constructor(
@@ -169,9 +211,16 @@ export class TrophyService extends EventEmitter {
        FROM activities
        ORDER BY started_at ASC`
     );
-    this.hasActivityStmt = this.db.prepare(
-      `SELECT COUNT(1) as count FROM activities WHERE category = 'productive'`
+    const customColumns = 'id, name, description, emoji, rule_json, created_at';
+    this.customListStmt = this.db.prepare(`SELECT ${customColumns} FROM custom_trophies ORDER BY id`);
+    this.customGetStmt = this.db.prepare(`SELECT ${customColumns} FROM custom_trophies WHERE id = ?`);
+    this.customInsertStmt = this.db.prepare(
+      'INSERT INTO custom_trophies(name, description, emoji, rule_json, created_at) VALUES (?, ?, ?, ?, ?)'
+    );
+    this.customUpdateStmt = this.db.prepare(
+      'UPDATE custom_trophies SET name = ?, description = ?, emoji = ?, rule_json = ? WHERE id = ?'
     );
+    this.customDeleteStmt = this.db.prepare('DELETE FROM custom_trophies WHERE id = ?');
   }
 
   private shouldSuppressContext(domain: string | null, appName: string | null) {
@@ -241,8 +290,78 @@ export class TrophyService extends EventEmitter {
     };
   }
 
+  listCustom(): CustomTrophy[] {
+    return (this.customListStmt.all() as CustomTrophyRow[]).map(rowToCustomTrophy);
+  }
+
+  createCustom(input: CustomTrophyInput): CustomTrophy {
+    const name = input.name?.trim();
+    if (!name) throw new Error('Custom trophy name is required');
+    assertValidRule(input.rule);
+    const result = this.customInsertStmt.run(
+      name,
+      input.description?.trim() ?? '',
+      input.emoji?.trim() || '🏅',
+      JSON.stringify(input.rule),
+      new Date().toISOString()
+    );
+    this.scheduleEvaluation('custom-trophy');
+    return this.getCustom(Number(result.lastInsertRowid));
+  }
+
+  updateCustom(id: string, patch: Partial<CustomTrophyInput>): CustomTrophy {
+    const existing = this.getCustom(parseCustomTrophyId(id));
+    const next = { ...existing, ...patch };
+    const name = next.name?.trim();
+    if (!name) throw new Error('Custom trophy name is required');
+    assertValidRule(next.rule);
+    this.customUpdateStmt.run(
+      name,
+      next.description?.trim() ?? '',
+      next.emoji?.trim() || '🏅',
+      JSON.stringify(next.rule),
+      parseCustomTrophyId(id)
+    );
+    this.scheduleEvaluation('custom-trophy');
+    return this.getCustom(parseCustomTrophyId(id));
+  }
+
+  removeCustom(id: string) {
+    const numeric = parseCustomTrophyId(id);
+    this.customDeleteStmt.run(numeric);
+    this.db.prepare('DELETE FROM trophies WHERE id = ?').run(`${CUSTOM_TROPHY_PREFIX}${numeric}`);
+    this.setPinned(this.getPinned());
+  }
+
+  /** Evaluates a rule against current history without saving it, for the trophy editor. */
+  previewRule(rule: TrophyRule): TrophyProgress {
+    assertValidRule(rule);
+    return evaluateTrophyRule(rule, this.buildMetrics().source);
+  }
+
+  private getCustom(id: number): CustomTrophy {
+    const row = this.customGetStmt.get(id) as CustomTrophyRow | undefined;
+    if (!row) throw new Error(`Unknown custom trophy ${CUSTOM_TROPHY_PREFIX}${id}`);
+    return rowToCustomTrophy(row);
+  }
+
+  private listDefinitions(): Array<TrophyDefinition & { custom?: boolean }> {
+    const custom = this.listCustom().map((trophy) => ({
+      id: trophy.id,
+      name: trophy.name,
+      description: trophy.description,
+      emoji: trophy.emoji,
+      category: 'personal' as const,
+      rarity: 'common' as const,
+      rule: trophy.rule,
+      custom: true
+    }));
+    return [...TROPHY_DEFINITIONS, ...custom];
+  }
+
   setPinned(ids: string[]) {
-    const unique = Array.from(new Set(ids.filter((id) => TROPHY_DEFINITIONS.some((t) => t.id === id))));
+    const known = new Set(this.listDefinitions().map((t) => t.id));
+    const unique = Array.from(new Set(ids.filter((id) => known.has(id))));
     this.settings.setJson('trophiesPinned', unique.slice(0, 6));
     return this.getPinned();
   }
@@ -318,6 +437,9 @@ export class TrophyService extends EventEmitter {
     const hourProductive24h = Array.from({ length: 24 }, () => 0);
     const productiveRuns: ProductiveRun[] = [];
     let currentRun: ProductiveRun | null = null;
+    const activitySamples: TrophyActivitySample[] = [];
+    const eventSamples: TrophyEventSample[] = [];
+    const coinSamples: TrophyCoinSample[] = [];
 
     const ensureDaily = (key: string) => {
       if (!daily.has(key)) {
@@ -371,7 +493,15 @@ export class TrophyService extends EventEmitter {
       const date = new Date(start);
       const key = dayKey(date);
       const entry = ensureDaily(key);
-      const { category } = normalizeRow(row);
+      const { domain, appName, category } = normalizeRow(row);
+      activitySamples.push({
+        start,
+        end,
+        seconds: row.seconds_active,
+        idleSeconds: row.idle_seconds,
+        category: category === 'productive' || category === 'frivolity' ? category : 'neutral',
+        context: domain ?? appName ?? 'unknown'
+      });
       entry.totalActive += row.seconds_active;
       entry.idle += row.idle_seconds;
       entry.lastActivityAt = entry.lastActivityAt ? Math.max(entry.lastActivityAt, end) : end;
@@ -466,6 +596,7 @@ export class TrophyService extends EventEmitter {
             const minutes = delta / 60000;
             recoveryTimesMinutes.push(minutes);
             recoverySamples.push({ ts: start, minutes });
+            eventSamples.push({ ts: start, kind: 'recovery', minutes });
             const key = dayKey(new Date(start));
             recoveriesByDay.set(key, (recoveriesByDay.get(key) ?? 0) + 1);
           } else {
@@ -492,18 +623,22 @@ export class TrophyService extends EventEmitter {
     for (const entry of consumption) {
       const entryTs = Date.parse(entry.occurredAt);
       if (entry.kind === 'frivolous-session') {
+        eventSamples.push({ ts: entryTs, kind: 'frivolity-session' });
         frivolitySessionsByDay.set(entry.day, (frivolitySessionsByDay.get(entry.day) ?? 0) + 1);
       }
       if (entry.kind === 'paywall-decline') {
+        eventSamples.push({ ts: entryTs, kind: 'paywall-decline' });
         paywallDeclinesTotal += 1;
         if (entryTs >= now - DAY_MS) paywallDeclines24h += 1;
       }
       if (entry.kind === 'paywall-exit') {
+        eventSamples.push({ ts: entryTs, kind: 'paywall-exit' });
         paywallQuickExits += 1;
       }
       if (entry.kind === 'library-item') {
         const purpose = (entry.meta?.purpose as string | undefined) ?? null;
         if (purpose === 'replace') {
+          eventSamples.push({ ts: entryTs, kind: 'replace-consumed' });
           replaceConsumedTotal += 1;
           if (entryTs >= weekAgo) replaceConsumedLast7 += 1;
           else if (entryTs >= twoWeeksAgo && entryTs < weekAgo) replaceConsumedPrev7 += 1;
@@ -526,16 +661,20 @@ export class TrophyService extends EventEmitter {
     const transactionsByDay = new Map<string, number>();
     let frivolitySpend24h = 0;
     for (const tx of transactions) {
+      if (tx.type === 'opening') continue;
       const ts = Date.parse(tx.ts);
       const day = dayKey(new Date(ts));
       const delta = tx.type === 'spend' ? -tx.amount : tx.amount;
       transactionsByDay.set(day, (transactionsByDay.get(day) ?? 0) + delta);
+      let frivolitySpend = 0;
       if (tx.type === 'spend') {
         const metaType = String((tx.meta as any)?.type ?? '');
-        if (metaType.startsWith('frivolity') && ts >= now - DAY_MS) {
-          frivolitySpend24h += tx.amount;
+        if (metaType.startsWith('frivolity')) {
+          frivolitySpend = tx.amount;
+          if (ts >= now - DAY_MS) frivolitySpend24h += tx.amount;
         }
       }
+      coinSamples.push({ ts, delta, frivolitySpend });
     }
 
     const balance = this.wallet.getSnapshot().balance;
@@ -548,6 +687,21 @@ export class TrophyService extends EventEmitter {
       idle: row.idle
     }));
     const friendsCount = this.settings.getJson<number>('syncFriendsCount') ?? 0;
+    const source = createTrophyMetricSource({
+      now,
+      activities: activitySamples,
+      events: eventSamples,
+      coins: coinSamples,
+      snapshot: {
+        hours_since_frivolity: hoursSinceFrivolity ?? 0,
+        balance,
+        library_replace_ready: libraryReplaceReady,
+        library_replace_total: libraryReplaceTotal,
+        library_consumed: libraryConsumedCount,
+        library_notes: libraryNotesCount,
+        friends: friendsCount
+      }
+    });
 
     return {
       now,
@@ -581,44 +735,19 @@ export class TrophyService extends EventEmitter {
       timeOfDay7,
       hourProductiveAll,
       hourProductive24h,
-      friendsCount
+      friendsCount,
+      source
     };
   }
 
-  private evaluateTrophy(id: string, metrics: TrophyMetrics, stats: TrophyStatsState): TrophyProgress {
-    switch (id) {
-      case 'first_light': {
-        const has = this.hasActivityStmt.get() as { count: number };
-        return progress(has?.count ?? 0, 1);
-      }
-      case 'kept_the_thread':
-        return progress(Math.round(metrics.maxProductiveRunSec / 60), 30);
-      case 'deep_pocket':
-        return progress(Math.round(metrics.maxProductiveRunSec / 60), 60);
-      case 'monk_hour':
-        return progress(Math.round(metrics.maxProductiveRunSec / 60), 90);
-      case 'cathedral': {
-        const minutes = Math.round(metrics.productivitySeconds24h / 60);
-        return progress(minutes, 180, 'Last 24h');
-      }
-      case 'stonecutter': {
-        const streak = this.countConsecutiveDays(metrics.daily, 5, (d) => d.productive >= 2 * 3600);
-        return progress(streak, 5);
-      }
-      case 'quiet_hands': {
-        if (metrics.idleRatio24h == null) return untracked('Need recent activity to measure idle');
-        const ratio = metrics.idleRatio24h;
-        const target = 0.1;
-        const current = ratio <= target ? 1 : Math.max(0, Math.round((1 - ratio / target) * 10) / 10);
-        return progress(current, 1, `Idle ${Math.round(ratio * 100)}%`);
-      }
-      case 'low_turbulence': {
-        if (metrics.contextSwitchesPerHour24h == null) return untracked('Need recent activity to measure switching');
-        const switches = metrics.contextSwitchesPerHour24h;
-        const target = 3;
-        const current = switches <= target ? 1 : Math.max(0, Math.round((target / Math.max(1, switches)) * 10) / 10);
-        return progress(current, 1, `${switches.toFixed(1)} switches/hr`);
-      }
+  /**
+   * Trophies with a `rule` (built-in or custom) go through the rule engine.
+   * The ones left here compare against personal bests or an earlier period,
+   * which a fixed threshold cannot express.
+   */
+  private evaluateTrophy(trophy: TrophyDefinition, metrics: TrophyMetrics, stats: TrophyStatsState): TrophyProgress {
+    if (trophy.rule) return evaluateTrophyRule(trophy.rule, metrics.source);
+    switch (trophy.id) {
       case 'flow_engineer': {
         const maxRun = metrics.maxProductiveRunSec;
         if (maxRun === 0) return progress(0, 1, 'No runs yet');
@@ -626,14 +755,6 @@ export class TrophyService extends EventEmitter {
         const label = stats.bestProductiveRunSec > 0 ? `PB ${Math.round(stats.bestProductiveRunSec / 60)}m` : undefined;
         return progress(isNewBest ? 1 : 0, 1, label);
       }
-      case 'second_brain':
-        return progress(metrics.replaceConsumedTotal, 10);
-
-      case 'bounce_back': {
-        const best = Math.min(...metrics.recoveryTimesMinutes);
-        if (!Number.isFinite(best)) return progress(0, 1, 'No recoveries yet');
-        return progress(best <= 10 ? 1 : 0, 1, `${Math.round(best)}m best`);
-      }
       case 'elastic_mind': {
         const now = metrics.now;
         const weekAgo = now - 7 * DAY_MS;
@@ -645,13 +766,6 @@ export class TrophyService extends EventEmitter {
         if (recentMedian == null || prevMedian == null) return untracked('Need two weeks of recovery data');
         return progress(recentMedian < prevMedian ? 1 : 0, 1, `Median ${Math.round(recentMedian)}m`);
       }
-      case 'one_slip_no_slide': {
-        const today = dayKey(new Date());
-        const count = metrics.frivolitySessionsByDay.get(today) ?? 0;
-        return progress(count === 1 ? 1 : 0, 1, `${count} sessions`);
-      }
-      case 'damage_control':
-        return progressMax(Math.round(metrics.frivolitySeconds24h / 60), 15, `${Math.round(metrics.frivolitySeconds24h / 60)}m`);
       case 'phoenix': {
         const hasPhoenix = metrics.productiveRuns.some((run) => {
           if (!metrics.lastFrivolityAt) return false;
@@ -659,81 +773,16 @@ export class TrophyService extends EventEmitter {
         });
         return progress(hasPhoenix ? 1 : 0, 1);
       }
-      case 'cold_start': {
-        const today = metrics.daily.get(dayKey(new Date()));
-        if (!today || !today.firstActivityAt || !today.firstProductiveAt) return progress(0, 1);
-        const delta = (today.firstProductiveAt - today.firstActivityAt) / 60000;
-        return progress(delta <= 15 ? 1 : 0, 1, `${Math.round(delta)}m`);
-      }
-      case 'soft_landing':
-        return untracked('Not implemented yet');
-
-      case 'clean_24': {
-        const hours = metrics.hoursSinceFrivolity ?? 0;
-        return progress(hours, 24);
-      }
-      case 'two_day_glass': {
-        const hours = metrics.hoursSinceFrivolity ?? 0;
-        return progress(hours, 48);
-      }
-      case 'three_day_gold': {
-        const hours = metrics.hoursSinceFrivolity ?? 0;
-        return progress(hours, 72);
-      }
-      case 'week_of_steel': {
-        const hours = metrics.hoursSinceFrivolity ?? 0;
-        return progress(hours, 168);
-      }
-      case 'weekend_shield': {
-        const { saturday, sunday } = this.lastWeekend();
-        if (!saturday || !sunday) return untracked();
-        const satCount = metrics.frivolitySessionsByDay.get(saturday) ?? 0;
-        const sunCount = metrics.frivolitySessionsByDay.get(sunday) ?? 0;
-        return progress(satCount + sunCount === 0 ? 1 : 0, 1);
-      }
-      case 'temptation_tamer':
-        return progress(metrics.paywallDeclinesTotal, 1);
-      case 'gate_held':
-        return progress(metrics.paywallDeclinesTotal, 10);
-
-      case 'no_spend_day':
-        return progress(metrics.frivolitySpend24h === 0 ? 1 : 0, 1);
-      case 'under_budget':
-        return untracked('Not implemented yet');
-      case 'high_yield': {
-        const streak = this.countConsecutiveDays(metrics.daily, 3, (_, day) => (metrics.transactionsByDay.get(day) ?? 0) > 0);
-        return progress(streak, 3);
-      }
       case 'investor':
         return progress(metrics.balance, Math.max(1, stats.bestBalance + 1));
-      case 'escrow_master':
-        return untracked('Not implemented yet');
-      case 'iron_contract':
-        return untracked('Not implemented yet');
       case 'debt_free': {
         const hasDebt = Array.from(metrics.transactionsByDay.values()).some((delta) => delta < 0);
         return progress(!hasDebt && metrics.balance >= 0 ? 1 : 0, 1);
       }
-
-      case 'curator':
-        return progress(metrics.libraryReplaceTotal, 25);
-      case 'librarian':
-        return progress(metrics.libraryConsumedCount, 20);
       case 'taste_upgrade': {
         if (metrics.replaceConsumedPrev7 === 0) return progress(metrics.replaceConsumedLast7, 1);
         return progress(metrics.replaceConsumedLast7, metrics.replaceConsumedPrev7 + 1);
       }
-      case 'clean_desk':
-        return progress(metrics.libraryReplaceReady, 10);
-      case 'gentle_redirect':
-        return progress(metrics.replaceConsumedTotal, 10);
-      case 'completionist':
-        return untracked('Not implemented yet');
-
-      case 'morning_anchor': {
-        const bestMorning = Math.max(0, ...Array.from(metrics.daily.values()).map((d) => d.productiveBefore10));
-        return progress(Math.round(bestMorning / 60), 30);
-      }
       case 'noon_navigator': {
         const riskHour = metrics.overview7?.riskHour ?? null;
         if (riskHour == null) return untracked();
@@ -742,17 +791,6 @@ export class TrophyService extends EventEmitter {
         const riskHits = this.countFrivolityInHour(metrics.timeOfDay7, riskHour);
         return progress(riskHits === 0 ? 1 : 0, 1);
       }
-      case 'afternoon_fortress': {
-        const total = Array.from(metrics.daily.values()).reduce((acc, day) => acc + day.afternoonTotal, 0);
-        const productive = Array.from(metrics.daily.values()).reduce((acc, day) => acc + day.productiveAfternoon, 0);
-        if (total === 0) return progress(0, 1);
-        const ratio = productive / total;
-        return progress(ratio >= 0.6 ? 1 : 0, 1, `${Math.round(ratio * 100)}%`);
-      }
-      case 'night_watch': {
-        const clean = this.countConsecutiveDays(metrics.daily, 7, (d) => d.frivolityAfter21 === 0);
-        return progress(clean, 7);
-      }
       case 'prime_time': {
         const totalAll = metrics.hourProductiveAll.reduce((acc, v) => acc + v, 0);
         const totalToday = metrics.hourProductive24h.reduce((acc, v) => acc + v, 0);
@@ -761,7 +799,6 @@ export class TrophyService extends EventEmitter {
         const bestHourToday = metrics.hourProductive24h.indexOf(Math.max(...metrics.hourProductive24h));
         return progress(bestHourAll === bestHourToday && bestHourAll >= 0 ? 1 : 0, 1);
       }
-
       case 'stable_orbit': {
         const varianceCurrent = variance(metrics.hourProductive24h);
         const varianceAll = variance(metrics.hourProductiveAll);
@@ -776,45 +813,6 @@ export class TrophyService extends EventEmitter {
         const previousNeutral = previous.every((d) => d === 'neutral');
         return progress(recentProductive && previousNeutral ? 1 : 0, 1);
       }
-      case 'signal_clarity': {
-        const switches = metrics.contextSwitchesPerHour24h ?? 10;
-        const idle = metrics.idleRatio24h ?? 1;
-        const score = 1 - Math.min(1, switches / 6) * 0.5 - idle * 0.5;
-        return progress(score >= 0.7 ? 1 : 0, 1, `${Math.round(score * 100)}%`);
-      }
-      case 'low_drift': {
-        const totalActive = this.sumLastNDays(metrics.daily, 1, 'totalActive') ?? 0;
-        const neutralTotal = this.sumLastNDays(metrics.daily, 1, 'neutral') ?? 0;
-        const ratio = totalActive > 0 ? neutralTotal / totalActive : 1;
-        return progress(ratio < 0.25 && totalActive >= 2 * 3600 ? 1 : 0, 1, `${Math.round(ratio * 100)}%`);
-      }
-      case 'anti_chaos': {
-        const idle = metrics.idleRatio24h ?? 1;
-        const switches = metrics.contextSwitchesPerHour24h ?? 10;
-        return progress(idle < 0.2 && switches < 3 ? 1 : 0, 1);
-      }
-
-      case 'shield':
-        return progress(metrics.paywallDeclinesTotal, 1);
-      case 'lantern':
-        return untracked('Not implemented yet');
-      case 'compass': {
-        const today = dayKey(new Date());
-        const recoveries = metrics.recoveriesByDay.get(today) ?? 0;
-        return progress(recoveries, 3);
-      }
-      case 'hourglass': {
-        const streak = this.countConsecutiveDays(metrics.daily, 14, (d) => d.totalActive > 0);
-        return progress(streak, 14);
-      }
-      case 'touch_grass': {
-        const yesterday = dayKey(new Date(metrics.now - DAY_MS));
-        const day = metrics.daily.get(yesterday);
-        if (!day || (day.totalActive + day.idle) === 0) return untracked('Need a full day of data');
-        const screenMinutes = Math.round((day.totalActive + day.idle) / 60);
-        // Use a full prior day to avoid awarding mid-day while totals are still rising.
-        return progressMax(screenMinutes, 180, `${(screenMinutes / 60).toFixed(1)}h`);
-      }
       case 'alchemist': {
         const days = Array.from(metrics.daily.entries()).sort((a, b) => a[0].localeCompare(b[0]));
         let achieved = false;
@@ -828,70 +826,13 @@ export class TrophyService extends EventEmitter {
         }
         return progress(achieved ? 1 : 0, 1);
       }
-      case 'archivist':
-        return progress(metrics.libraryNotesCount, 20);
-
-      case 'first_rival':
-        return progress(metrics.friendsCount, 1);
-      case 'good_sport':
-        return untracked('Not implemented yet');
-      case 'comeback_kid':
-        return untracked('Not implemented yet');
-      case 'unbeaten':
-        return untracked('Not implemented yet');
-      case 'patron':
-        return untracked('Not implemented yet');
-      case 'the_standard':
-        return untracked('Not implemented yet');
-
-      case 'narrow_escape':
-        return progress(metrics.paywallQuickExits, 1);
-      case 'librarians_revenge':
-        return untracked('Not implemented yet');
       case 'zero_hour': {
         const ratio = metrics.idleRatio24h ?? 1;
         return progress(ratio < stats.bestIdleRatio ? 1 : 0, 1, `${Math.round(ratio * 100)}%`);
       }
-      case 'glass_cannon': {
-        const switches = metrics.contextSwitchesPerHour24h ?? 0;
-        return progress(metrics.maxProductiveRunSec >= 3600 && switches >= 8 ? 1 : 0, 1);
-      }
-      case 'surgical_strike':
-        return untracked('Not implemented yet');
-
       default:
-        return untracked();
-    }
-  }
-
-  private countConsecutiveDays(daily: Map<string, DailyTotals>, target: number, predicate: (day: DailyTotals, dayKey: string) => boolean) {
-    const days = Array.from(daily.entries()).sort((a, b) => a[0].localeCompare(b[0]));
-    let streak = 0;
-    let best = 0;
-    let prevDate: Date | null = null;
-    for (const [key, totals] of days) {
-      const currentDate = new Date(key);
-      if (prevDate && (currentDate.getTime() - prevDate.getTime()) > DAY_MS * 1.5) {
-        streak = 0;
-      }
-      if (predicate(totals, key)) {
-        streak += 1;
-        best = Math.max(best, streak);
-      } else {
-        streak = 0;
-      }
-      prevDate = currentDate;
+        return untracked('Not implemented yet');
     }
-    return Math.min(best, target);
-  }
-
-  private lastWeekend() {
-    const now = new Date();
-    const day = now.getDay();
-    const saturdayOffset = day === 6 ? 0 : (day + 1);
-    const saturday = new Date(startOfDay(new Date(now.getTime() - saturdayOffset * DAY_MS)));
-    const sunday = new Date(startOfDay(new Date(saturday.getTime() + DAY_MS)));
-    return { saturday: dayKey(saturday), sunday: dayKey(sunday) };
   }
 
   private countFrivolityInHour(timeOfDay: TrophyMetrics['timeOfDay7'], hour: number) {
@@ -943,9 +884,9 @@ export class TrophyService extends EventEmitter {
     const statuses: TrophyStatus[] = [];
     const newlyEarned: TrophyStatus[] = [];
 
-    for (const trophy of TROPHY_DEFINITIONS) {
+    for (const trophy of this.listDefinitions()) {
       const earnedAt = earnedMap.get(trophy.id);
-      let progressState = this.evaluateTrophy(trophy.id, metrics, stats);
+      let progressState = this.evaluateTrophy(trophy, metrics, stats);
       if (earnedAt) {
         progressState = { ...progressState, state: 'earned', ratio: 1, current: progressState.target };
       }
@@ -960,7 +901,8 @@ export class TrophyService extends EventEmitter {
         secret: trophy.secret,
         earnedAt,
         progress: progressState,
-        pinned: pinned.includes(trophy.id)
+        pinned: pinned.includes(trophy.id),
+        custom: trophy.custom
       };
 
       if (!earnedAt && progressState.state === 'earned') {
@@ -0,0 +1,235 @@
+import type { TrophyMetric, TrophyWindow } from '@shared/types';
+import { TROPHY_METRICS, type TrophyMetricSource } from '@shared/trophyRules';
+
+export type TrophyActivitySample = {
+  start: number;
+  end: number;
+  seconds: number;
+  idleSeconds: number;
+  category: 'productive' | 'neutral' | 'frivolity';
+  /** Domain or app, used to count context switches. */
+  context: string;
+};
+
+export type TrophyEventSample =
+  | { ts: number; kind: 'frivolity-session' | 'paywall-decline' | 'paywall-exit' | 'replace-consumed' }
+  | { ts: number; kind: 'recovery'; minutes: number };
+
+export type TrophyCoinSample = {
+  ts: number;
+  delta: number;
+  frivolitySpend: number;
+};
+
+type SnapshotMetric = Extract<
+  TrophyMetric,
+  'hours_since_frivolity' | 'balance' | 'library_replace_ready' | 'library_replace_total' | 'library_consumed' | 'library_notes' | 'friends'
+>;
+
+export type TrophyMetricInput = {
+  now: number;
+  /** Sorted by start time. */
+  activities: TrophyActivitySample[];
+  events: TrophyEventSample[];
+  coins: TrophyCoinSample[];
+  snapshot: Record<SnapshotMetric, number | null>;
+};
+
+type RangeValues = Partial<Record<TrophyMetric, number | null>>;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const RUN_GAP_MS = 2 * 60 * 1000;
+
+function dayKey(ts: number) {
+  const date = new Date(ts);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function startOfDay(ts: number) {
+  const date = new Date(ts);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function groupByDay<T>(items: T[], at: (item: T) => number) {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = dayKey(at(item));
+    const list = groups.get(key);
+    if (list) list.push(item);
+    else groups.set(key, [item]);
+  }
+  return groups;
+}
+
+/**
+ * Reduces the samples that fall in one time range to every range metric.
+ * Activity-derived metrics are null when the range has no activity, so a
+ * "stay under" condition does not pass on an empty day.
+ */
+function aggregate(
+  activities: TrophyActivitySample[],
+  events: TrophyEventSample[],
+  coins: TrophyCoinSample[],
+  spanHours: number
+): RangeValues {
+  const values: RangeValues = {
+    frivolity_sessions: events.filter((event) => event.kind === 'frivolity-session').length,
+    paywall_declines: events.filter((event) => event.kind === 'paywall-decline').length,
+    paywall_quick_exits: events.filter((event) => event.kind === 'paywall-exit').length,
+    replace_items_consumed: events.filter((event) => event.kind === 'replace-consumed').length,
+    recoveries: 0,
+    best_recovery_minutes: null,
+    net_coins: coins.reduce((sum, coin) => sum + coin.delta, 0),
+    frivolity_spend: coins.reduce((sum, coin) => sum + coin.frivolitySpend, 0)
+  };
+  for (const event of events) {
+    if (event.kind !== 'recovery') continue;
+    values.recoveries = (values.recoveries ?? 0) + 1;
+    values.best_recovery_minutes = Math.min(values.best_recovery_minutes ?? Infinity, event.minutes);
+  }
+  if (!activities.length) return values;
+
+  let productive = 0;
+  let neutral = 0;
+  let frivolity = 0;
+  let idle = 0;
+  let before10 = 0;
+  let afternoon = 0;
+  let afternoonProductive = 0;
+  let after21 = 0;
+  let firstActivity = Infinity;
+  let firstProductive = Infinity;
+  let switches = 0;
+  let lastContext: string | null = null;
+  let longestRun = 0;
+  let run: { end: number; seconds: number } | null = null;
+
+  for (const sample of activities) {
+    const hour = new Date(sample.start).getHours();
+    idle += sample.idleSeconds;
+    firstActivity = Math.min(firstActivity, sample.start);
+    if (sample.category === 'productive') {
+      productive += sample.seconds;
+      firstProductive = Math.min(firstProductive, sample.start);
+      if (hour < 10) before10 += sample.seconds;
+      run =
+        run && sample.start - run.end <= RUN_GAP_MS
+          ? { end: sample.end, seconds: run.seconds + sample.seconds }
+          : { end: sample.end, seconds: sample.seconds };
+      longestRun = Math.max(longestRun, run.seconds);
+    } else {
+      if (sample.category === 'frivolity') {
+        frivolity += sample.seconds;
+        if (hour >= 21) after21 += sample.seconds;
+      } else {
+        neutral += sample.seconds;
+      }
+      run = null;
+    }
+    if (hour >= 14 && hour < 17) {
+      afternoon += sample.seconds;
+      if (sample.category === 'productive') afternoonProductive += sample.seconds;
+    }
+    if (lastContext !== null && sample.context !== lastContext) switches += 1;
+    lastContext = sample.context;
+  }
+
+  const active = productive + neutral + frivolity;
+  const idleRatio = idle + active > 0 ? idle / (idle + active) : null;
+  const switchesPerHour = switches / Math.max(1, spanHours);
+  return {
+    ...values,
+    productive_minutes: productive / 60,
+    neutral_minutes: neutral / 60,
+    frivolity_minutes: frivolity / 60,
+    idle_minutes: idle / 60,
+    active_minutes: active / 60,
+    screen_minutes: (active + idle) / 60,
+    idle_ratio: idleRatio,
+    neutral_ratio: active > 0 ? neutral / active : null,
+    afternoon_productive_ratio: afternoon > 0 ? afternoonProductive / afternoon : null,
+    productive_before_10_minutes: before10 / 60,
+    frivolity_after_21_minutes: after21 / 60,
+    minutes_to_first_productive: Number.isFinite(firstProductive) ? (firstProductive - firstActivity) / 60000 : null,
+    context_switches_per_hour: switchesPerHour,
+    longest_productive_run_minutes: longestRun / 60,
+    signal_clarity: idleRatio == null ? null : 1 - Math.min(1, switchesPerHour / 6) * 0.5 - idleRatio * 0.5
+  };
+}
+
+/**
+ * Builds the metric source the trophy rule engine reads. Windows and days are
+ * aggregated lazily and cached, so a full evaluation only scans each day once.
+ */
+export function createTrophyMetricSource(input: TrophyMetricInput): TrophyMetricSource {
+  const { now, activities, events, coins, snapshot } = input;
+  const activitiesByDay = groupByDay(activities, (sample) => sample.start);
+  const eventsByDay = groupByDay(events, (event) => event.ts);
+  const coinsByDay = groupByDay(coins, (coin) => coin.ts);
+  const days = Array.from(activitiesByDay.keys()).sort();
+  const windowCache = new Map<TrophyWindow, RangeValues>();
+  const dayCache = new Map<string, RangeValues>();
+
+  // Open-ended windows run up to now; `to` is exclusive.
+  const windowRange = (window: TrophyWindow): [number, number] => {
+    const today = startOfDay(now);
+    switch (window) {
+      case 'last_24h':
+        return [now - DAY_MS, Infinity];
+      case 'today':
+        return [today, Infinity];
+      case 'yesterday':
+        return [startOfDay(today - HOUR_MS), today];
+      case 'last_7d':
+        return [now - 7 * DAY_MS, Infinity];
+      case 'last_weekend': {
+        const weekday = new Date(now).getDay();
+        const saturday = startOfDay(now - (weekday === 6 ? 0 : weekday + 1) * DAY_MS);
+        return [saturday, startOfDay(saturday + 2 * DAY_MS + HOUR_MS)];
+      }
+      default:
+        return [-Infinity, Infinity];
+    }
+  };
+
+  const forWindow = (window: TrophyWindow) => {
+    let values = windowCache.get(window);
+    if (!values) {
+      const [from, to] = windowRange(window);
+      const inRange = (ts: number) => ts >= from && ts < to;
+      const spanStart = Number.isFinite(from) ? from : (activities[0]?.start ?? now);
+      values = aggregate(
+        activities.filter((sample) => inRange(sample.start)),
+        events.filter((event) => inRange(event.ts)),
+        coins.filter((coin) => inRange(coin.ts)),
+        (Math.min(to, now) - spanStart) / HOUR_MS
+      );
+      windowCache.set(window, values);
+    }
+    return values;
+  };
+
+  const forDay = (day: string) => {
+    let values = dayCache.get(day);
+    if (!values) {
+      values = aggregate(activitiesByDay.get(day) ?? [], eventsByDay.get(day) ?? [], coinsByDay.get(day) ?? [], 24);
+      dayCache.set(day, values);
+    }
+    return values;
+  };
+
+  return {
+    value(metric, window) {
+      if (TROPHY_METRICS[metric].kind === 'snapshot') {
+        return snapshot[metric as SnapshotMetric] ?? null;
+      }
+      return forWindow(window)[metric] ?? null;
+    },
+    daily(metric) {
+      if (TROPHY_METRICS[metric].kind === 'snapshot') return [];
+      return days.map((day) => ({ day, value: forDay(day)[metric] ?? null }));
+    }
+  };
+}
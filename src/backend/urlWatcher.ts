@@ -2,6 +2,7 @@ import { execFile, spawn } from 'node:child_process';
 import { EventEmitter } from 'node:events';
 import { promisify } from 'node:util';
 import type { ActivityEvent } from './activity-tracker';
+import { createLinuxWindowProbe, isLinuxBrowser, type LinuxWindowProbe } from './linuxWindowProbe';
 import { logger } from '@shared/logger';
 
 const execFileAsync = promisify(execFile);
@@ -97,6 +98,11 @@ const CDP_PORTS: Record<string, number> = {
   chrome: 9222,
   msedge: 9223,
   brave: 9222,
+  // Linux app names as reported by linuxWindowProbe
+  'google chrome': 9222,
+  chromium: 9222,
+  'brave browser': 9222,
+  'microsoft edge': 9223,
 };
 
 // Cache CDP connections to avoid reconnecting
@@ -428,9 +434,10 @@ function extractDomainFromTitle(windowTitle: string): string | null {
 }
 
 /**
- * Read browser URL on Windows
+ * Read browser URL on Windows and Linux, where there is no scripting bridge
+ * into the browser: CDP when remote debugging is enabled, else the title.
  */
-async function readWindowsBrowserUrl(appName: string, windowTitle: string): Promise<string | null> {
+async function readBrowserUrlWithoutScripting(appName: string, windowTitle: string): Promise<string | null> {
   // Try CDP first (most reliable for Chromium browsers)
   const cdpUrl = await tryGetBrowserUrlViaCDP(appName);
   if (cdpUrl) {
@@ -447,12 +454,33 @@ async function readWindowsBrowserUrl(appName: string, windowTitle: string): Prom
   return null;
 }
 
+// --- Linux Implementation ---
+
+let defaultLinuxProbe: LinuxWindowProbe | null = null;
+
+function getDefaultLinuxProbe() {
+  if (!defaultLinuxProbe) {
+    defaultLinuxProbe = createLinuxWindowProbe();
+    logger.info(`Linux window probe using ${defaultLinuxProbe.session} session backend`);
+  }
+  return defaultLinuxProbe;
+}
+
+async function readLinuxBrowserUrl(appName: string, windowTitle: string): Promise<string | null> {
+  if (!isLinuxBrowser(appName)) return null;
+  return readBrowserUrlWithoutScripting(appName, windowTitle);
+}
+
 // --- Shared Logic ---
 
 export type UrlWatcherOptions = {
   onActivity: (event: ActivityEvent & { idleSeconds?: number }) => void;
   intervalMs?: number;
   macOverride?: boolean;
+  /** Overrides `process.platform`; mainly for tests. */
+  platformOverride?: NodeJS.Platform;
+  /** Linux window/idle probe; defaults to one built from the session environment. */
+  linuxProbe?: LinuxWindowProbe;
 };
 
 export function createUrlWatcher(options: UrlWatcherOptions) {
@@ -465,7 +493,7 @@ export function createUrlWatcher(options: UrlWatcherOptions) {
     try {
       let win: { appName: string; windowTitle: string; idleSeconds: number; bundleId?: string; url?: string | null } | null = null;
       let url: string | null = null;
-      const platform = options.macOverride ? 'darwin' : process.platform;
+      const platform = options.macOverride ? 'darwin' : options.platformOverride ?? process.platform;
 
       if (platform === 'darwin') {
         win = await getMacActiveWindow();
@@ -475,7 +503,12 @@ export function createUrlWatcher(options: UrlWatcherOptions) {
       } else if (platform === 'win32') {
         win = await getWindowsActiveWindow();
         if (win) {
-          url = win.url ?? await readWindowsBrowserUrl(win.appName, win.windowTitle);
+          url = win.url ?? await readBrowserUrlWithoutScripting(win.appName, win.windowTitle);
+        }
+      } else if (platform === 'linux') {
+        win = await (options.linuxProbe ?? getDefaultLinuxProbe()).getActiveWindow();
+        if (win) {
+          url = await readLinuxBrowserUrl(win.appName, win.windowTitle);
         }
       }
 
@@ -557,6 +590,8 @@ export async function closeActiveBrowserTab(appName: string) {
     await closeMacBrowserTab(appName);
   } else if (process.platform === 'win32') {
     await closeWindowsBrowserTab(appName);
+  } else if (process.platform === 'linux') {
+    await getDefaultLinuxProbe().closeActiveTab(appName);
   }
 }
 
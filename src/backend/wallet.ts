@@ -1,12 +1,45 @@
 import { EventEmitter } from 'node:events';
-import { randomUUID } from 'node:crypto';
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
 import type { Database as BetterSqlite3Database, Statement } from 'better-sqlite3';
 import type { Database } from './storage';
-import type { WalletSnapshot } from '@shared/types';
+import type {
+  OfflineWalletOutcome,
+  OfflineWalletReconciliation,
+  TransactionType,
+  WalletLedgerDiscrepancy,
+  WalletLedgerReport,
+  WalletSnapshot
+} from '@shared/types';
 import { logger } from '@shared/logger';
+import { offlineWalletSigningPayload, type OfflineWalletEntry } from '@shared/offlineWalletJournal';
 
 export type WalletMeta = Record<string, unknown>;
 
+type TransactionRow = {
+  id: number;
+  ts: string;
+  type: TransactionType;
+  amount: number;
+  meta: string;
+  syncId?: string | null;
+};
+
+function verifyOfflineSignature(entry: OfflineWalletEntry, signingKey: string | null) {
+  if (!signingKey || typeof entry.signature !== 'string') return false;
+  const expected = Buffer.from(createHmac('sha256', signingKey).update(offlineWalletSigningPayload(entry)).digest('hex'));
+  const actual = Buffer.from(entry.signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Signed effect of a ledger row on the balance. earn/spend store magnitudes;
+// adjust, reversal and opening rows store signed deltas.
+const SIGNED_AMOUNT_SQL = "CASE type WHEN 'spend' THEN -amount ELSE amount END";
+
+/**
+ * The transaction log is the source of truth for the balance. `wallet.balance`
+ * is a cache rewritten from the ledger on every write and checked by
+ * `reconcile()`, so drift (e.g. from a partial sync) is detectable.
+ */
 export class WalletManager extends EventEmitter {
   private db: BetterSqlite3Database;
   private getStmt: Statement;
@@ -15,6 +48,11 @@ export class WalletManager extends EventEmitter {
   private hasSyncStmt: Statement;
   private listSinceStmt: Statement;
   private updateSyncStmt: Statement;
+  private ledgerBalanceStmt: Statement;
+  private getTxnStmt: Statement;
+  private getTxnBySyncStmt: Statement;
+  private findReversalsStmt: Statement;
+  private escrowedStmt: Statement;
 
   constructor(database: Database) {
     super();
@@ -28,12 +66,54 @@ export class WalletManager extends EventEmitter {
     this.listSinceStmt = this.db.prepare(
       'SELECT id, ts, type, amount, meta, sync_id as syncId FROM transactions WHERE ts >= ? ORDER BY ts ASC'
     );
-    this.updateSyncStmt = this.db.prepare('UPDATE transactions SET sync_id = ? WHERE id = ?');
+    this.updateSyncStmt = this.db.prepare('UPDATE transactions SET sync_id = ? WHERE id = ? AND sync_id IS NULL');
+    this.ledgerBalanceStmt = this.db.prepare(
+      `SELECT COALESCE(SUM(${SIGNED_AMOUNT_SQL}), 0) as balance, COUNT(*) as count FROM transactions`
+    );
+    this.getTxnStmt = this.db.prepare('SELECT id, ts, type, amount, meta, sync_id as syncId FROM transactions WHERE id = ?');
+    this.getTxnBySyncStmt = this.db.prepare('SELECT id, ts, type, amount, meta, sync_id as syncId FROM transactions WHERE sync_id = ?');
+    this.findReversalsStmt = this.db.prepare(
+      "SELECT id FROM transactions WHERE type = 'reversal' AND json_extract(meta, '$.reversesSyncId') = ?"
+    );
+    this.escrowedStmt = this.db.prepare(
+      "SELECT COALESCE(SUM(escrowed_coins), 0) as escrowed FROM savings_goals WHERE status = 'active'"
+    );
   }
 
   getSnapshot(): WalletSnapshot {
     const row = this.getStmt.get() as { balance: number } | undefined;
-    return { balance: row?.balance ?? 0 };
+    const balance = row?.balance ?? 0;
+    const escrowed = this.getEscrowedBalance();
+    return { balance, escrowed, spendable: Math.max(0, balance - escrowed) };
+  }
+
+  /** Coins locked in active savings goals. They stay in the balance but cannot be spent. */
+  getEscrowedBalance() {
+    const row = this.escrowedStmt.get() as { escrowed: number };
+    return row.escrowed;
+  }
+
+  getSpendableBalance() {
+    return this.getSnapshot().spendable ?? 0;
+  }
+
+  /** Balance derived from the transaction log. */
+  getLedgerBalance() {
+    const row = this.ledgerBalanceStmt.get() as { balance: number; count: number };
+    return row.balance;
+  }
+
+  /**
+   * Appends a ledger row and refreshes the cached balance from the ledger in
+   * the same SQLite transaction.
+   */
+  private append(ts: string, type: TransactionType, amount: number, meta: WalletMeta, syncId: string) {
+    return this.db.transaction(() => {
+      this.insertTxnStmt.run(ts, type, amount, JSON.stringify(meta), syncId);
+      const balance = this.getLedgerBalance();
+      this.updateStmt.run(balance);
+      return balance;
+    })();
   }
 
   earn(amount: number, meta: WalletMeta = {}) {
@@ -42,12 +122,7 @@ export class WalletManager extends EventEmitter {
     }
 
     const syncId = typeof meta.syncId === 'string' ? meta.syncId : randomUUID();
-    const snapshot = this.getSnapshot();
-    const next = snapshot.balance + Math.round(amount);
-    this.db.transaction(() => {
-      this.updateStmt.run(next);
-      this.insertTxnStmt.run(new Date().toISOString(), 'earn', Math.round(amount), JSON.stringify(meta), syncId);
-    })();
+    const next = this.append(new Date().toISOString(), 'earn', Math.round(amount), meta, syncId);
     logger.info('Earned', amount, '→ balance', next);
     this.emit('balance-changed', next);
     return { balance: next };
@@ -62,81 +137,252 @@ export class WalletManager extends EventEmitter {
     if (snapshot.balance < debit) {
       throw new Error('Insufficient funds');
     }
-    const next = snapshot.balance - debit;
+    if ((snapshot.spendable ?? snapshot.balance) < debit) {
+      throw new Error(`Insufficient funds: ${snapshot.escrowed} coins are saved in goals`);
+    }
     const syncId = typeof meta.syncId === 'string' ? meta.syncId : randomUUID();
-    this.db.transaction(() => {
-      this.updateStmt.run(next);
-      this.insertTxnStmt.run(new Date().toISOString(), 'spend', debit, JSON.stringify(meta), syncId);
-    })();
+    const next = this.append(new Date().toISOString(), 'spend', debit, meta, syncId);
     logger.info('Spent', amount, '→ balance', next);
     this.emit('balance-changed', next);
     return { balance: next };
   }
 
+  /**
+   * Records a new economic event with a signed amount (refunds, debts, daily
+   * resets). To undo an earlier transaction use `reverse()` instead.
+   */
   adjust(amount: number, meta: WalletMeta = {}) {
-    const snapshot = this.getSnapshot();
     const delta = Math.round(amount);
-    const next = snapshot.balance + delta;
     const syncId = typeof meta.syncId === 'string' ? meta.syncId : randomUUID();
-    this.db.transaction(() => {
-      this.updateStmt.run(next);
-      this.insertTxnStmt.run(new Date().toISOString(), 'adjust', delta, JSON.stringify(meta), syncId);
-    })();
+    const next = this.append(new Date().toISOString(), 'adjust', delta, meta, syncId);
     logger.info('Adjusted balance by', delta, '→ balance', next);
     this.emit('balance-changed', next);
     return { balance: next };
   }
 
+  /**
+   * Cancels a transaction by appending an equal and opposite reversal entry.
+   * Ledger rows are never edited; each transaction can be reversed once.
+   */
+  reverse(transactionId: number, reason: string) {
+    const target = this.getTxnStmt.get(transactionId) as TransactionRow | undefined;
+    if (!target) {
+      throw new Error(`Transaction ${transactionId} not found`);
+    }
+    if (target.type === 'reversal' || target.type === 'opening') {
+      throw new Error(`Cannot reverse a ${target.type} entry`);
+    }
+    const targetSyncId = target.syncId ?? this.ensureSyncId(target.id);
+    if (this.findReversalsStmt.all(targetSyncId).length > 0) {
+      throw new Error(`Transaction ${transactionId} is already reversed`);
+    }
+    const signed = target.type === 'spend' ? -target.amount : target.amount;
+    const next = this.append(
+      new Date().toISOString(),
+      'reversal',
+      -signed,
+      { reversesSyncId: targetSyncId, reversedType: target.type, reason },
+      randomUUID()
+    );
+    logger.info(`Reversed transaction ${transactionId} (${reason}) → balance`, next);
+    this.emit('balance-changed', next);
+    return { balance: next };
+  }
+
   listTransactions(limit = 100) {
     const stmt = this.db.prepare('SELECT id, ts, type, amount, meta, sync_id as syncId FROM transactions ORDER BY ts DESC LIMIT ?');
-    const rows = stmt.all(limit) as Array<{
-      id: number;
-      ts: string;
-      type: 'earn' | 'spend' | 'adjust';
-      amount: number;
-      meta: string;
-      syncId?: string | null;
-    }>;
-    return rows.map((row) => ({ ...row, meta: JSON.parse(row.meta ?? '{}'), syncId: row.syncId ?? undefined }));
+    const rows = stmt.all(limit) as TransactionRow[];
+    return rows.map((row) => ({ ...row, meta: JSON.parse(row.meta ?? '{}') as WalletMeta, syncId: row.syncId ?? undefined }));
   }
 
   listTransactionsSince(iso: string) {
-    const rows = this.listSinceStmt.all(iso) as Array<{
-      id: number;
-      ts: string;
-      type: 'earn' | 'spend' | 'adjust';
-      amount: number;
-      meta: string;
-      syncId?: string | null;
-    }>;
+    const rows = this.listSinceStmt.all(iso) as TransactionRow[];
     return rows.map((row) => ({
       id: row.id,
       ts: row.ts,
       type: row.type,
       amount: row.amount,
-      meta: JSON.parse(row.meta ?? '{}'),
+      meta: JSON.parse(row.meta ?? '{}') as WalletMeta,
       syncId: row.syncId ?? undefined
     }));
   }
 
-  applyRemoteTransaction(payload: { ts: string; type: 'earn' | 'spend' | 'adjust'; amount: number; meta?: WalletMeta; syncId: string }) {
+  applyRemoteTransaction(payload: { ts: string; type: Exclude<TransactionType, 'opening'>; amount: number; meta?: WalletMeta; syncId: string }) {
     if (this.hasSyncStmt.get(payload.syncId)) return this.getSnapshot();
     const meta = payload.meta ?? {};
     const amount = Math.round(payload.amount);
-    const snapshot = this.getSnapshot();
-    const delta = payload.type === 'spend' ? -amount : amount;
-    const next = snapshot.balance + delta;
-    this.db.transaction(() => {
-      this.updateStmt.run(next);
-      this.insertTxnStmt.run(payload.ts, payload.type, amount, JSON.stringify(meta), payload.syncId);
-    })();
+    const next = this.append(payload.ts, payload.type, amount, meta, payload.syncId);
     this.emit('balance-changed', next);
     return { balance: next };
   }
 
+  /**
+   * Replays an extension's offline journal in the order it was recorded. The
+   * extension already granted what it sold offline, so a spend the merged
+   * balance cannot cover is capped at the spendable balance and the rest is
+   * written off rather than failing the batch; a spend with nothing left to
+   * cover it is kept as a zero adjustment so its sync id stays claimed.
+   */
+  replayOfflineJournal(entries: OfflineWalletEntry[], options: { signingKey: string | null }): OfflineWalletReconciliation {
+    const ordered = [...entries].sort((a, b) => a.ts.localeCompare(b.ts));
+    const outcomes = this.db.transaction(() =>
+      ordered.map((entry): OfflineWalletOutcome => {
+        const requestedAmount = Math.round(entry.amount);
+        const outcome = { syncId: entry.syncId, type: entry.type, requestedAmount };
+        if (this.hasSyncStmt.get(entry.syncId)) {
+          return { ...outcome, appliedAmount: 0, status: 'duplicate' };
+        }
+        if (!verifyOfflineSignature(entry, options.signingKey)) {
+          return { ...outcome, appliedAmount: 0, status: 'rejected', reason: entry.signature ? 'bad-signature' : 'unsigned' };
+        }
+        const meta = { ...(entry.meta ?? {}), offline: true };
+        const debit = entry.type === 'spend' ? requestedAmount : entry.type === 'adjust' ? Math.max(0, -requestedAmount) : 0;
+        const spendable = this.getSpendableBalance();
+        if (debit === 0 || debit <= spendable) {
+          this.applyRemoteTransaction({ ...entry, amount: requestedAmount, meta });
+          return { ...outcome, appliedAmount: requestedAmount, status: 'applied' };
+        }
+
+        const covered = Math.max(0, spendable);
+        const cappedMeta = { ...meta, requestedAmount, writtenOff: debit - covered, conflict: 'insufficient-funds' };
+        if (entry.type === 'spend' && covered > 0) {
+          this.applyRemoteTransaction({ ...entry, amount: covered, meta: cappedMeta });
+        } else {
+          this.applyRemoteTransaction({ ...entry, type: 'adjust', amount: -covered, meta: cappedMeta });
+        }
+        return {
+          ...outcome,
+          appliedAmount: entry.type === 'spend' ? covered : -covered,
+          status: 'capped',
+          reason: 'insufficient-funds'
+        };
+      })
+    )();
+
+    const count = (status: OfflineWalletOutcome['status']) => outcomes.filter((outcome) => outcome.status === status).length;
+    const shortfall = outcomes
+      .filter((outcome) => outcome.status === 'capped')
+      .reduce((sum, outcome) => sum + Math.abs(outcome.requestedAmount) - Math.abs(outcome.appliedAmount), 0);
+    const report: OfflineWalletReconciliation = {
+      reconciledAt: new Date().toISOString(),
+      outcomes,
+      applied: count('applied'),
+      duplicates: count('duplicate'),
+      capped: count('capped'),
+      rejected: count('rejected'),
+      shortfall,
+      balance: this.getSnapshot().balance
+    };
+    if (report.capped || report.rejected) {
+      logger.warn(`Offline wallet journal: ${report.capped} capped (${shortfall} coins written off), ${report.rejected} rejected`);
+    }
+    return report;
+  }
+
   ensureSyncId(id: number, syncId?: string): string {
     const next = syncId ?? randomUUID();
-    this.updateSyncStmt.run(next, id);
+    const result = this.updateSyncStmt.run(next, id);
+    if (result.changes === 0) {
+      const existing = this.db.prepare('SELECT sync_id as syncId FROM transactions WHERE id = ?').get(id) as { syncId: string | null } | undefined;
+      if (existing?.syncId) return existing.syncId;
+    }
     return next;
   }
+
+  /**
+   * Verifies the cached balance and reversal chain against the ledger. With
+   * `repair`, the cache is rewritten from the ledger and duplicate reversals
+   * are themselves reversed; other findings are report-only.
+   */
+  reconcile(options: { repair?: boolean } = {}): WalletLedgerReport {
+    const repair = Boolean(options.repair);
+    const discrepancies: WalletLedgerDiscrepancy[] = [];
+    const cachedBalance = this.getSnapshot().balance;
+    const { balance: ledgerBalance, count } = this.ledgerBalanceStmt.get() as { balance: number; count: number };
+
+    if (cachedBalance !== ledgerBalance) {
+      discrepancies.push({
+        kind: 'balance-drift',
+        detail: `Cached balance ${cachedBalance} differs from ledger balance ${ledgerBalance}`,
+        amount: cachedBalance - ledgerBalance
+      });
+    }
+
+    const invalidRows = this.db
+      .prepare("SELECT id, type, amount, sync_id as syncId FROM transactions WHERE type IN ('earn','spend') AND amount <= 0")
+      .all() as Array<{ id: number; type: TransactionType; amount: number; syncId: string | null }>;
+    for (const row of invalidRows) {
+      discrepancies.push({
+        kind: 'invalid-amount',
+        transactionId: row.id,
+        syncId: row.syncId ?? undefined,
+        detail: `${row.type} entry has non-positive amount ${row.amount}`,
+        amount: row.amount
+      });
+    }
+
+    const reversals = this.db
+      .prepare("SELECT id, amount, json_extract(meta, '$.reversesSyncId') as target, sync_id as syncId FROM transactions WHERE type = 'reversal' ORDER BY id ASC")
+      .all() as Array<{ id: number; amount: number; target: string | null; syncId: string | null }>;
+    // A reversal that has itself been reversed (a reconcile repair) no longer counts.
+    const cancelled = new Set(reversals.map((row) => row.target).filter((target): target is string => Boolean(target)));
+    const seenTargets = new Set<string>();
+    const duplicateReversals: number[] = [];
+    for (const row of reversals) {
+      if (row.syncId && cancelled.has(row.syncId)) continue;
+      if (!row.target || !this.getTxnBySyncStmt.get(row.target)) {
+        discrepancies.push({
+          kind: 'orphan-reversal',
+          transactionId: row.id,
+          syncId: row.syncId ?? undefined,
+          detail: `Reversal references unknown transaction ${row.target ?? '(none)'}`,
+          amount: row.amount
+        });
+        continue;
+      }
+      if (seenTargets.has(row.target)) {
+        duplicateReversals.push(row.id);
+        discrepancies.push({
+          kind: 'duplicate-reversal',
+          transactionId: row.id,
+          syncId: row.syncId ?? undefined,
+          detail: `Transaction ${row.target} was reversed more than once`,
+          amount: row.amount
+        });
+        continue;
+      }
+      seenTargets.add(row.target);
+    }
+
+    let repaired = false;
+    if (repair && discrepancies.length) {
+      this.db.transaction(() => {
+        for (const id of duplicateReversals) {
+          const row = this.getTxnStmt.get(id) as TransactionRow;
+          this.insertTxnStmt.run(
+            new Date().toISOString(),
+            'reversal',
+            -row.amount,
+            JSON.stringify({ reversesSyncId: row.syncId ?? this.ensureSyncId(row.id), reversedType: 'reversal', reason: 'reconcile-duplicate-reversal' }),
+            randomUUID()
+          );
+        }
+        this.updateStmt.run(this.getLedgerBalance());
+      })();
+      repaired = true;
+      const next = this.getSnapshot().balance;
+      logger.warn(`Wallet ledger reconciled: ${discrepancies.length} discrepancy(ies), balance ${cachedBalance} → ${next}`);
+      this.emit('balance-changed', next);
+    }
+
+    return {
+      checkedAt: new Date().toISOString(),
+      cachedBalance,
+      ledgerBalance: repaired ? this.getLedgerBalance() : ledgerBalance,
+      transactionCount: count,
+      ok: discrepancies.length === 0,
+      discrepancies,
+      repaired
+    };
+  }
 }
@@ -6,9 +6,24 @@ import type { FocusService } from '../focus';
 import type { PomodoroService } from '../pomodoro';
 import type { LibraryService } from '../library';
 import type { PaywallCommandService } from '../paywallCommands';
+import type { BudgetService } from '../budgets';
 import { logger } from '@shared/logger';
 import type { ActivityEvent } from '../activity-tracker';
 import type { ActivityOrigin } from '../activityPipeline';
+import {
+    WS_LEGACY_PROTOCOL_VERSION,
+    WS_PROTOCOL_VERSION,
+    createWsProtocolStats,
+    negotiateProtocolVersion,
+    parseClientMessage,
+    parseServerMessage,
+    recordWsParseResult,
+    serverMessageSupported,
+    type WsClientMessage,
+    type WsServerMessage,
+    type WsServerMessageOf,
+    type WsServerMessageType
+} from '@shared/wsProtocol';
 
 export type WebSocketBroadcasterContext = {
     economy: EconomyEngine;
@@ -17,12 +32,17 @@ export type WebSocketBroadcasterContext = {
     pomodoro: PomodoroService;
     library: LibraryService;
     paywallCommands: PaywallCommandService;
+    budgets?: BudgetService;
     handleActivity: (event: ActivityEvent & { idleSeconds?: number }, origin?: ActivityOrigin) => void;
 };
 
 export class WebSocketBroadcaster extends EventEmitter {
     private clients = new Set<WebSocket>();
+    private clientIds = new Map<WebSocket, number>();
     private lastExtensionSeen: number | null = null;
+    private protocolVersions = new Map<WebSocket, number>();
+    private inboundStats = createWsProtocolStats();
+    private outboundStats = createWsProtocolStats();
 
     constructor(private ctx: WebSocketBroadcasterContext) {
         super();
@@ -30,37 +50,44 @@ export class WebSocketBroadcaster extends EventEmitter {
         this.setupFocusListeners();
         this.setupPomodoroListeners();
         this.setupLibraryListeners();
+        this.setupBudgetListeners();
+    }
+
+    /** Rebroadcasts an emitter event, typing its payload by the wire schema for `type`. */
+    private relay<K extends WsServerMessageType>(emitter: EventEmitter, event: string, type: K) {
+        emitter.on(event, (payload: WsServerMessageOf<K>['payload']) => this.broadcast({ type, payload } as WsServerMessageOf<K>));
     }
 
     private setupEconomyListeners() {
         const { economy } = this.ctx;
-        economy.on('wallet-updated', (snapshot) => this.broadcast({ type: 'wallet', payload: snapshot }));
-        economy.on('paywall-required', (payload) => this.broadcast({ type: 'paywall-required', payload }));
-        economy.on('paywall-session-started', (payload) => this.broadcast({ type: 'paywall-session-started', payload }));
-        economy.on('paywall-session-paused', (payload) => this.broadcast({ type: 'paywall-session-paused', payload }));
-        economy.on('paywall-session-resumed', (payload) => this.broadcast({ type: 'paywall-session-resumed', payload }));
-        economy.on('paywall-session-ended', (payload) => this.broadcast({ type: 'paywall-session-ended', payload }));
-        economy.on('session-reminder', (payload) => this.broadcast({ type: 'paywall-reminder', payload }));
-        economy.on('activity', (payload) => this.broadcast({ type: 'activity', payload }));
+        this.relay(economy, 'wallet-updated', 'wallet');
+        this.relay(economy, 'paywall-required', 'paywall-required');
+        this.relay(economy, 'paywall-session-started', 'paywall-session-started');
+        this.relay(economy, 'paywall-session-paused', 'paywall-session-paused');
+        this.relay(economy, 'paywall-session-resumed', 'paywall-session-resumed');
+        this.relay(economy, 'paywall-session-ended', 'paywall-session-ended');
+        this.relay(economy, 'session-reminder', 'paywall-reminder');
+        this.relay(economy, 'activity', 'activity');
     }
 
     private setupFocusListeners() {
         const { focus } = this.ctx;
-        focus.on('tick', (payload) => this.broadcast({ type: 'focus-tick', payload }));
-        focus.on('start', (payload) => this.broadcast({ type: 'focus-start', payload }));
-        focus.on('stop', (payload) => this.broadcast({ type: 'focus-stop', payload }));
+        this.relay(focus, 'tick', 'focus-tick');
+        this.relay(focus, 'start', 'focus-start');
+        this.relay(focus, 'stop', 'focus-stop');
     }
 
     private setupPomodoroListeners() {
         const { pomodoro } = this.ctx;
-        pomodoro.on('tick', (payload) => this.broadcast({ type: 'pomodoro-tick', payload }));
-        pomodoro.on('start', (payload) => this.broadcast({ type: 'pomodoro-start', payload }));
-        pomodoro.on('pause', (payload) => this.broadcast({ type: 'pomodoro-pause', payload }));
-        pomodoro.on('resume', (payload) => this.broadcast({ type: 'pomodoro-resume', payload }));
-        pomodoro.on('break', (payload) => this.broadcast({ type: 'pomodoro-break', payload }));
-        pomodoro.on('stop', (payload) => this.broadcast({ type: 'pomodoro-stop', payload }));
-        pomodoro.on('override', (payload) => this.broadcast({ type: 'pomodoro-override', payload }));
-        pomodoro.on('block', (payload) => this.broadcast({ type: 'pomodoro-block', payload }));
+        this.relay(pomodoro, 'tick', 'pomodoro-tick');
+        this.relay(pomodoro, 'start', 'pomodoro-start');
+        this.relay(pomodoro, 'pause', 'pomodoro-pause');
+        this.relay(pomodoro, 'resume', 'pomodoro-resume');
+        this.relay(pomodoro, 'break', 'pomodoro-break');
+        this.relay(pomodoro, 'phase', 'pomodoro-phase');
+        this.relay(pomodoro, 'stop', 'pomodoro-stop');
+        this.relay(pomodoro, 'override', 'pomodoro-override');
+        this.relay(pomodoro, 'block', 'pomodoro-block');
     }
 
     private setupLibraryListeners() {
@@ -71,149 +98,220 @@ export class WebSocketBroadcaster extends EventEmitter {
         library.on('removed', emitLibrarySync);
     }
 
-    broadcast(event: Record<string, unknown>) {
-        const payload = JSON.stringify(event);
+    private setupBudgetListeners() {
+        const { budgets } = this.ctx;
+        if (budgets) this.relay(budgets, 'warning', 'budget-warning');
+    }
+
+    broadcast(message: WsServerMessage) {
+        const check = parseServerMessage(message);
+        const count = recordWsParseResult(this.outboundStats, check);
+        if (!check.ok) {
+            // Still sent: the extension validates too and drops what it can't use.
+            logger.warn('Broadcasting websocket message that fails its schema', { type: check.type, error: check.error, count });
+        }
+        const payload = JSON.stringify(message);
         for (const client of this.clients) {
-            if (client.readyState === client.OPEN) {
+            if (client.readyState === client.OPEN && serverMessageSupported(message.type, this.protocolVersionOf(client))) {
                 client.send(payload);
             }
         }
     }
 
-    handleConnection(socket: WebSocket) {
+    private send(socket: WebSocket, message: WsServerMessage) {
+        socket.send(JSON.stringify(message));
+    }
+
+    private protocolVersionOf(socket: WebSocket) {
+        return this.protocolVersions.get(socket) ?? WS_LEGACY_PROTOCOL_VERSION;
+    }
+
+    handleConnection(socket: WebSocket, pairedClientId?: number) {
         this.clients.add(socket);
+        if (pairedClientId != null) this.clientIds.set(socket, pairedClientId);
         this.touchExtensionPresence();
         logger.info('WS client connected', this.clients.size);
 
-        socket.on('message', (msg: string) => {
+        socket.on('message', (msg: Buffer | string) => {
+            const result = parseClientMessage(msg.toString());
+            const count = recordWsParseResult(this.inboundStats, result);
+            if (!result.ok) {
+                logger.warn('Dropped websocket message from extension', {
+                    reason: result.reason,
+                    type: result.type,
+                    error: result.error,
+                    count
+                });
+                return;
+            }
             try {
-                const data = JSON.parse(msg);
-                this.handleMessage(data, socket);
+                this.handleMessage(result.message, socket);
             } catch (e) {
-                logger.error('Failed to parse WS message', e);
+                logger.error('Failed to handle WS message', result.message.type, e);
             }
         });
 
         socket.on('close', () => {
             this.clients.delete(socket);
+            this.clientIds.delete(socket);
+            this.protocolVersions.delete(socket);
             this.emit('status', { connected: this.clients.size > 0, lastSeen: this.lastExtensionSeen });
         });
     }
 
+    /** Closes every socket opened with a paired client's token, e.g. after it is revoked. */
+    disconnectClient(pairedClientId: number) {
+        for (const [socket, id] of this.clientIds) {
+            if (id === pairedClientId) socket.close(4401, 'Pairing revoked');
+        }
+    }
+
     private touchExtensionPresence() {
         this.lastExtensionSeen = Date.now();
         this.emit('status', { connected: this.clients.size > 0, lastSeen: this.lastExtensionSeen });
     }
 
-    private handleMessage(data: any, socket: WebSocket) {
+    private sendError(socket: WebSocket, error: unknown) {
+        this.send(socket, { type: 'error', payload: { message: error instanceof Error ? error.message : String(error) } });
+    }
+
+    private handleMessage(message: WsClientMessage, socket: WebSocket) {
         const { paywallCommands, handleActivity, pomodoro } = this.ctx;
         this.touchExtensionPresence();
 
-        if (data.type === 'extension:heartbeat') {
-            return;
-        } else if (data.type === 'activity' && data.payload) {
-            logger.info('Received activity from extension:', data.payload.domain);
-            handleActivity({
-                timestamp: new Date(data.payload.timestamp),
-                source: data.payload.source,
-                appName: data.payload.appName,
-                bundleId: data.payload.bundleId,
-                windowTitle: data.payload.windowTitle,
-                url: data.payload.url,
-                domain: data.payload.domain,
-                idleSeconds: data.payload.idleSeconds || 0
-            }, 'extension');
-        } else if (data.type === 'paywall:start-metered' && data.payload?.domain) {
-            try {
-                const session = paywallCommands.startMetered(
-                    String(data.payload.domain),
-                    typeof data.payload.colorFilter === 'string' ? data.payload.colorFilter : undefined
-                );
-                this.broadcast({ type: 'paywall-session-started', payload: session });
-            } catch (error) {
-                logger.error('Failed to start metered from extension', error);
-                socket.send(JSON.stringify({ type: 'error', payload: { message: (error as Error).message } }));
-            }
-        } else if (data.type === 'paywall:buy-pack' && data.payload?.domain && data.payload?.minutes) {
-            try {
-                const session = paywallCommands.buyPack(
-                    String(data.payload.domain),
-                    Number(data.payload.minutes),
-                    typeof data.payload.colorFilter === 'string' ? data.payload.colorFilter : undefined
-                );
-                this.broadcast({ type: 'paywall-session-started', payload: session });
-            } catch (error) {
-                logger.error('Failed to buy pack from extension', error);
-                socket.send(JSON.stringify({ type: 'error', payload: { message: (error as Error).message } }));
-            }
-        } else if (data.type === 'paywall:pause' && data.payload?.domain) {
-            paywallCommands.pause(String(data.payload.domain));
-            this.broadcast({ type: 'paywall-session-paused', payload: { domain: data.payload.domain, reason: 'manual' } });
-        } else if (data.type === 'paywall:resume' && data.payload?.domain) {
-            paywallCommands.resume(String(data.payload.domain));
-            this.broadcast({ type: 'paywall-session-resumed', payload: { domain: data.payload.domain } });
-        } else if (data.type === 'paywall:end' && data.payload?.domain) {
-            const session = paywallCommands.endSession(String(data.payload.domain), { refundUnused: true });
-            if (!session) {
-                socket.send(JSON.stringify({ type: 'error', payload: { message: 'No active session to end' } }));
-            }
-        } else if (data.type === 'paywall:start-emergency' && data.payload?.domain && data.payload?.justification) {
-            try {
-                const session = paywallCommands.startEmergency(String(data.payload.domain), String(data.payload.justification), {
-                    url: data.payload.url ? String(data.payload.url) : undefined
+        switch (message.type) {
+            case 'hello': {
+                const negotiated = negotiateProtocolVersion(message.payload.protocolVersion);
+                this.protocolVersions.set(socket, negotiated);
+                logger.info('Extension websocket protocol negotiated', {
+                    client: message.payload.client ?? 'unknown',
+                    requested: message.payload.protocolVersion,
+                    negotiated
                 });
-                this.broadcast({ type: 'paywall-session-started', payload: session });
-            } catch (error) {
-                logger.error('Failed to start emergency from extension', error);
-                socket.send(JSON.stringify({ type: 'error', payload: { message: (error as Error).message } }));
-            }
-        } else if (data.type === 'paywall:emergency-review' && data.payload?.outcome) {
-            try {
-                const stats = paywallCommands.recordEmergencyReview(String(data.payload.outcome) as 'kept' | 'not-kept');
-                socket.send(JSON.stringify({ type: 'emergency-review-recorded', payload: stats }));
-            } catch (error) {
-                socket.send(JSON.stringify({ type: 'error', payload: { message: (error as Error).message } }));
+                // Sent even at version 0 so the client learns what this desktop speaks.
+                this.send(socket, { type: 'hello', payload: { protocolVersion: negotiated, serverProtocolVersion: WS_PROTOCOL_VERSION } });
+                return;
             }
-        } else if (data.type === 'paywall:start-store' && data.payload?.domain && typeof data.payload?.price === 'number') {
-            try {
-                const session = paywallCommands.startStore(
-                    String(data.payload.domain),
-                    Number(data.payload.price),
-                    data.payload.url ? String(data.payload.url) : undefined
-                );
-                this.broadcast({ type: 'paywall-session-started', payload: session });
-            } catch (error) {
-                logger.error('Failed to start store session from extension', error);
-                socket.send(JSON.stringify({ type: 'error', payload: { message: (error as Error).message } }));
+            case 'extension:heartbeat':
+                return;
+            case 'activity': {
+                const { payload } = message;
+                logger.info('Received activity from extension:', payload.domain);
+                handleActivity({
+                    timestamp: new Date(payload.timestamp),
+                    source: payload.source,
+                    appName: payload.appName,
+                    bundleId: payload.bundleId ?? null,
+                    windowTitle: payload.windowTitle ?? null,
+                    url: payload.url ?? null,
+                    domain: payload.domain ?? null,
+                    idleSeconds: payload.idleSeconds || 0
+                }, 'extension');
+                return;
             }
-        } else if (data.type === 'pomodoro:block' && data.payload?.target && data.payload?.kind) {
-            try {
-                pomodoro.recordBlock({
-                    target: String(data.payload.target),
-                    kind: data.payload.kind === 'app' ? 'app' : 'site',
-                    reason: data.payload.reason === 'override-expired' || data.payload.reason === 'verification-failed' ? data.payload.reason : 'not-allowlisted',
-                    remainingMs: typeof data.payload.remainingMs === 'number' ? data.payload.remainingMs : undefined,
-                    mode: pomodoro.status()?.mode ?? 'strict'
-                });
-            } catch (error) {
-                logger.error('Failed to record pomodoro block', error);
+            case 'paywall:start-metered':
+                try {
+                    const session = paywallCommands.startMetered(message.payload.domain, message.payload.colorFilter, message.payload.quoteId);
+                    this.broadcast({ type: 'paywall-session-started', payload: session });
+                } catch (error) {
+                    logger.error('Failed to start metered from extension', error);
+                    this.sendError(socket, error);
+                }
+                return;
+            case 'paywall:buy-pack':
+                try {
+                    const session = paywallCommands.buyPack(message.payload.domain, message.payload.minutes, message.payload.colorFilter, message.payload.quoteId);
+                    this.broadcast({ type: 'paywall-session-started', payload: session });
+                } catch (error) {
+                    logger.error('Failed to buy pack from extension', error);
+                    this.sendError(socket, error);
+                }
+                return;
+            case 'paywall:pause':
+                paywallCommands.pause(message.payload.domain);
+                this.broadcast({ type: 'paywall-session-paused', payload: { domain: message.payload.domain, reason: 'manual' } });
+                return;
+            case 'paywall:resume':
+                paywallCommands.resume(message.payload.domain);
+                this.broadcast({ type: 'paywall-session-resumed', payload: { domain: message.payload.domain } });
+                return;
+            case 'paywall:end': {
+                const session = paywallCommands.endSession(message.payload.domain, { refundUnused: true });
+                if (!session) {
+                    this.sendError(socket, 'No active session to end');
+                }
+                return;
             }
-        } else if (data.type === 'pomodoro:grant-override' && data.payload?.target && data.payload?.kind) {
-            try {
-                const session = pomodoro.grantOverride({
-                    target: String(data.payload.target),
-                    kind: data.payload.kind === 'app' ? 'app' : 'site',
-                    durationSec: typeof data.payload.durationSec === 'number' ? data.payload.durationSec : undefined
-                });
-                if (session) {
-                    this.broadcast({ type: 'pomodoro-override', payload: { sessionId: session.id, overrides: session.overrides } });
+            case 'paywall:start-emergency':
+                try {
+                    const session = paywallCommands.startEmergency(message.payload.domain, message.payload.justification, {
+                        url: message.payload.url
+                    });
+                    this.broadcast({ type: 'paywall-session-started', payload: session });
+                } catch (error) {
+                    logger.error('Failed to start emergency from extension', error);
+                    this.sendError(socket, error);
+                }
+                return;
+            case 'paywall:emergency-review':
+                try {
+                    const stats = paywallCommands.recordEmergencyReview(message.payload.outcome);
+                    this.send(socket, { type: 'emergency-review-recorded', payload: stats });
+                } catch (error) {
+                    this.sendError(socket, error);
+                }
+                return;
+            case 'paywall:start-store':
+                try {
+                    const session = paywallCommands.startStore(message.payload.domain, message.payload.price, message.payload.url);
+                    this.broadcast({ type: 'paywall-session-started', payload: session });
+                } catch (error) {
+                    logger.error('Failed to start store session from extension', error);
+                    this.sendError(socket, error);
                 }
-            } catch (error) {
-                socket.send(JSON.stringify({ type: 'error', payload: { message: (error as Error).message } }));
+                return;
+            case 'pomodoro:block': {
+                const { payload } = message;
+                try {
+                    pomodoro.recordBlock({
+                        target: payload.target,
+                        kind: payload.kind,
+                        reason: payload.reason === 'override-expired' || payload.reason === 'verification-failed' ? payload.reason : 'not-allowlisted',
+                        remainingMs: payload.remainingMs,
+                        mode: pomodoro.status()?.mode ?? 'strict'
+                    });
+                } catch (error) {
+                    logger.error('Failed to record pomodoro block', error);
+                }
+                return;
             }
+            case 'pomodoro:grant-override':
+                try {
+                    const session = pomodoro.grantOverride({
+                        target: message.payload.target,
+                        kind: message.payload.kind,
+                        durationSec: message.payload.durationSec
+                    });
+                    if (session) {
+                        this.broadcast({ type: 'pomodoro-override', payload: { sessionId: session.id, overrides: session.overrides } });
+                    }
+                } catch (error) {
+                    this.sendError(socket, error);
+                }
+                return;
         }
     }
 
+    /** Parse counters for both directions plus the version each connected client speaks. */
+    getProtocolStats() {
+        return {
+            protocolVersion: WS_PROTOCOL_VERSION,
+            inbound: { ...this.inboundStats, rejections: { ...this.inboundStats.rejections } },
+            outbound: { ...this.outboundStats, rejections: { ...this.outboundStats.rejections } },
+            clients: [...this.clients].map((client) => this.protocolVersionOf(client))
+        };
+    }
+
     getStatus() {
         return { connected: this.clients.size > 0, lastSeen: this.lastExtensionSeen };
     }
@@ -573,6 +573,23 @@ export class WritingAnalyticsService {
     return row ? mapSession(row) : null;
   }
 
+  /**
+   * The open session with the most recent progress, if any. Sessions that have
+   * not reported progress within `staleAfterMs` are treated as abandoned.
+   */
+  getActiveSession(nowMs = Date.now(), staleAfterMs = 15 * 60_000): WritingSessionRecord | null {
+    const row = this.db
+      .prepare(
+        `SELECT session_id FROM writing_sessions
+         WHERE ended_at IS NULL AND last_event_at >= ?
+         ORDER BY last_event_at DESC LIMIT 1`
+      )
+      .get(new Date(nowMs - staleAfterMs).toISOString()) as { session_id: string } | undefined;
+    if (!row) return null;
+    const session = this.getSessionRow(row.session_id);
+    return session ? mapSession(session) : null;
+  }
+
   getOverview(days = 7): WritingAnalyticsOverview {
     const clampedDays = Math.max(1, Math.min(90, Math.round(days || 7)));
     const nowMs = Date.now();
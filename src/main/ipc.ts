@@ -2,14 +2,29 @@ import { BrowserWindow, ipcMain, shell } from 'electron';
 import type { BackendServices } from '@backend/server';
 import type { Database } from '@backend/storage';
 import type { SyncService } from './sync';
+import { logger } from '@shared/logger';
 import type {
+  ActivityRuleContext,
+  ActivityRuleInput,
+  AnkiImportMode,
+  AnkiScheduler,
+  BudgetInput,
+  ChallengeSubmission,
+  CustomEmergencyPolicy,
+  CustomTrophyInput,
   DailyOnboardingState,
   EmergencyPolicyId,
   GuardrailColorFilter,
   JournalConfig,
   LibraryPurpose,
+  MarketCalendarOverrideInput,
+  PairingScope,
+  PaywallDiagnosticsQuery,
+  PaywallDowntimePolicy,
   PeekConfig,
   PomodoroSessionConfig,
+  SavingsGoalInput,
+  TrophyRule,
   ZoteroIntegrationConfig
 } from '@shared/types';
 
@@ -18,10 +33,11 @@ export type IpcContext = {
   db: Database;
   sync?: SyncService | null;
   pickAnkiDeckFile?: () => Promise<string | null> | string | null;
+  pickAnkiExportPath?: (suggestedName: string) => Promise<string | null> | string | null;
 };
 
 export function createIpc(context: IpcContext) {
-  const { backend, sync, db, pickAnkiDeckFile } = context;
+  const { backend, sync, db, pickAnkiDeckFile, pickAnkiExportPath } = context;
 
   ipcMain.handle('wallet:get', async () => {
     return backend.wallet.getSnapshot();
@@ -35,6 +51,13 @@ export function createIpc(context: IpcContext) {
     return backend.wallet.earn(payload.amount, payload.meta ?? {});
   });
 
+  ipcMain.handle('wallet:goals', () => backend.savingsGoals.list());
+  ipcMain.handle('wallet:goal-create', (_event, payload: SavingsGoalInput) => backend.savingsGoals.create(payload));
+  ipcMain.handle('wallet:goal-escrow', (_event, payload: { id: number; amount: number }) =>
+    backend.savingsGoals.escrow(payload.id, payload.amount)
+  );
+  ipcMain.handle('wallet:goal-release', (_event, payload: { id: number }) => backend.savingsGoals.release(payload.id, 'manual'));
+
   ipcMain.handle('activities:recent', async (_event, payload: { limit?: number }) => {
     return backend.activityTracker.getRecent(payload.limit ?? 50);
   });
@@ -61,6 +84,14 @@ export function createIpc(context: IpcContext) {
     return backend.activityTracker.getJourney(windowHours);
   });
 
+  ipcMain.handle('activity-rules:list', () => backend.activityRules.list());
+  ipcMain.handle('activity-rules:create', (_event, payload: ActivityRuleInput) => backend.activityRules.create(payload));
+  ipcMain.handle('activity-rules:update', (_event, payload: { id: number; patch: Partial<ActivityRuleInput> }) =>
+    backend.activityRules.update(payload.id, payload.patch)
+  );
+  ipcMain.handle('activity-rules:remove', (_event, payload: { id: number }) => backend.activityRules.remove(payload.id));
+  ipcMain.handle('activity-rules:test', (_event, payload: Partial<ActivityRuleContext>) => backend.activityRules.test(payload));
+
   ipcMain.handle('focus:start', async (_event, payload: { duration: number }) => {
     return backend.focus.startSession(payload.duration);
   });
@@ -88,6 +119,7 @@ export function createIpc(context: IpcContext) {
   ipcMain.handle('pomodoro:pause', async () => backend.pomodoro.pause());
   ipcMain.handle('pomodoro:resume', async () => backend.pomodoro.resume());
   ipcMain.handle('pomodoro:break', async (_event, payload: { durationSec?: number } = {}) => backend.pomodoro.startBreak(payload.durationSec));
+  ipcMain.handle('pomodoro:skip-phase', async () => backend.pomodoro.skipPhase());
   ipcMain.handle('pomodoro:summaries', async (_event, payload: { limit?: number } = {}) => backend.pomodoro.getSummaries(payload.limit ?? 20));
 
   ipcMain.handle('market:list', async () => backend.market.listRates());
@@ -115,6 +147,11 @@ export function createIpc(context: IpcContext) {
     BrowserWindow.getAllWindows().forEach((win) => win.webContents.send('market:update', {}));
   });
 
+  ipcMain.handle('market:pricing', (_event, payload: { domain: string }) => backend.market.getPricing(payload.domain));
+  ipcMain.handle('market:calendar-list', () => backend.market.listCalendarOverrides());
+  ipcMain.handle('market:calendar-add', (_event, payload: MarketCalendarOverrideInput) => backend.market.addCalendarOverride(payload));
+  ipcMain.handle('market:calendar-remove', (_event, payload: { id: number }) => backend.market.removeCalendarOverride(payload.id));
+
   ipcMain.handle('intentions:list', async (_event, payload: { date: string }) => backend.intentions.list(payload.date));
   ipcMain.handle('intentions:add', async (_event, payload: { date: string; text: string }) => backend.intentions.add(payload));
   ipcMain.handle('intentions:toggle', async (_event, payload: { id: number; completed: boolean }) => {
@@ -123,29 +160,37 @@ export function createIpc(context: IpcContext) {
   ipcMain.handle('intentions:remove', async (_event, payload: { id: number }) => backend.intentions.remove(payload.id));
 
   ipcMain.handle('budgets:list', async () => backend.budgets.list());
-  ipcMain.handle('budgets:add', async (_event, payload: { period: 'day' | 'week'; category: string; secondsBudgeted: number }) =>
+  ipcMain.handle('budgets:add', async (_event, payload: BudgetInput) =>
     backend.budgets.add(payload)
   );
   ipcMain.handle('budgets:remove', async (_event, payload: { id: number }) => backend.budgets.remove(payload.id));
+  ipcMain.handle('budgets:status', () => backend.budgets.status());
 
   ipcMain.handle('economy:state', () => backend.economy.getState());
   ipcMain.handle('economy:neutral-clock', (_event, payload: { enabled: boolean }) => {
     backend.economy.setNeutralClockedIn(payload.enabled);
   });
 
-  ipcMain.handle('paywall:start-metered', (_event, payload: { domain: string }) => {
-    return backend.paywallCommands.startMetered(payload.domain);
+  ipcMain.handle('paywall:quote', (_event, payload: { domain: string; minutes?: number[] }) => {
+    return backend.paywallCommands.quote(payload.domain, { minutes: payload.minutes });
   });
 
-  ipcMain.handle('paywall:buy-pack', (_event, payload: { domain: string; minutes: number }) => {
-    return backend.paywallCommands.buyPack(payload.domain, payload.minutes);
+  ipcMain.handle('paywall:start-metered', (_event, payload: { domain: string; quoteId: string }) => {
+    return backend.paywallCommands.startMetered(payload.domain, undefined, payload.quoteId);
+  });
+
+  ipcMain.handle('paywall:buy-pack', (_event, payload: { domain: string; minutes: number; quoteId: string }) => {
+    return backend.paywallCommands.buyPack(payload.domain, payload.minutes, undefined, payload.quoteId);
+  });
+  ipcMain.handle('paywall:issue-challenge', (_event, payload: { domain: string }) => {
+    return backend.paywallCommands.issueChallenge(payload.domain);
   });
   ipcMain.handle(
     'paywall:start-challenge-pass',
-    (_event, payload: { domain: string; durationSeconds?: number; solvedSquares?: number }) => {
+    (_event, payload: { domain: string } & ChallengeSubmission) => {
       return backend.paywallCommands.startChallengePass(payload.domain, {
-        durationSeconds: payload.durationSeconds,
-        solvedSquares: payload.solvedSquares
+        challengeId: payload.challengeId,
+        entries: payload.entries
       });
     }
   );
@@ -166,6 +211,7 @@ export function createIpc(context: IpcContext) {
   ipcMain.handle('paywall:sessions', () => backend.paywall.listSessions());
   ipcMain.handle('paywall:pause', (_event, payload: { domain: string }) => backend.paywallCommands.pause(payload.domain));
   ipcMain.handle('paywall:resume', (_event, payload: { domain: string }) => backend.paywallCommands.resume(payload.domain));
+  ipcMain.handle('paywall:diagnostics', (_event, payload?: PaywallDiagnosticsQuery) => backend.paywallDiagnostics.query(payload ?? {}));
 
   ipcMain.handle('settings:categorisation', () => backend.settings.getCategorisation());
   ipcMain.handle('settings:update-categorisation', (_event, payload) => backend.settings.setCategorisation(payload));
@@ -177,8 +223,14 @@ export function createIpc(context: IpcContext) {
   ipcMain.handle('settings:update-excluded-keywords', (_event, value: string[]) => backend.settings.setExcludedKeywords(value));
   ipcMain.handle('settings:emergency-policy', () => backend.settings.getEmergencyPolicy());
   ipcMain.handle('settings:update-emergency-policy', (_event, value: EmergencyPolicyId) => backend.settings.setEmergencyPolicy(value));
+  ipcMain.handle('settings:custom-emergency-policies', () => backend.settings.getCustomEmergencyPolicies());
+  ipcMain.handle('settings:update-custom-emergency-policies', (_event, value: CustomEmergencyPolicy[]) =>
+    backend.settings.setCustomEmergencyPolicies(value)
+  );
   ipcMain.handle('settings:emergency-reminder-interval', () => backend.settings.getEmergencyReminderInterval());
   ipcMain.handle('settings:update-emergency-reminder-interval', (_event, value: number) => backend.settings.setEmergencyReminderInterval(value));
+  ipcMain.handle('settings:paywall-downtime-policy', () => backend.settings.getPaywallDowntimePolicy());
+  ipcMain.handle('settings:update-paywall-downtime-policy', (_event, value: PaywallDowntimePolicy) => backend.settings.setPaywallDowntimePolicy(value));
   ipcMain.handle('settings:economy-exchange-rate', () => backend.settings.getEconomyExchangeRate());
   ipcMain.handle('settings:update-economy-exchange-rate', (_event, value: number) => backend.settings.setEconomyExchangeRate(value));
   ipcMain.handle('settings:daily-wallet-reset-enabled', () => backend.settings.getDailyWalletResetEnabled());
@@ -273,6 +325,8 @@ export function createIpc(context: IpcContext) {
       const conn = db.connection;
       conn.transaction(() => {
         conn.prepare('DELETE FROM transactions').run();
+        conn.prepare('DELETE FROM savings_goal_entries').run();
+        conn.prepare('DELETE FROM savings_goals').run();
         conn.prepare('INSERT INTO wallet(id, balance) VALUES (1, 0) ON CONFLICT(id) DO UPDATE SET balance = excluded.balance').run();
       })();
 
@@ -315,6 +369,8 @@ export function createIpc(context: IpcContext) {
       conn.prepare('DELETE FROM intentions').run();
       conn.prepare('DELETE FROM budgets').run();
       conn.prepare('DELETE FROM transactions').run();
+      conn.prepare('DELETE FROM savings_goal_entries').run();
+      conn.prepare('DELETE FROM savings_goals').run();
       conn.prepare('DELETE FROM library_items').run();
       conn.prepare('DELETE FROM trophies').run();
       conn.prepare('DELETE FROM behavior_events').run();
@@ -419,6 +475,17 @@ export function createIpc(context: IpcContext) {
     if (!sync) return [];
     return sync.getFriendPublicLibraryItems(payload.windowHours ?? 168, payload.userId);
   });
+  ipcMain.handle('friends:history', async (_event, payload: { userId: string; days?: number }) => {
+    const friends = backend.friends;
+    if (!friends.listFriends().some((friend) => friend.userId === payload.userId)) return [];
+    try {
+      return await friends.syncHistory(payload.userId, payload.days);
+    } catch (error) {
+      // Offline or relay hiccup: show whatever is cached.
+      logger.warn('Friend history sync failed', error);
+      return friends.getHistory(payload.userId, payload.days);
+    }
+  });
 
   ipcMain.handle('trophies:list', async () => {
     return backend.trophies.listStatuses();
@@ -442,6 +509,14 @@ export function createIpc(context: IpcContext) {
     return pinned;
   });
 
+  ipcMain.handle('trophies:custom-list', () => backend.trophies.listCustom());
+  ipcMain.handle('trophies:custom-create', (_event, payload: CustomTrophyInput) => backend.trophies.createCustom(payload));
+  ipcMain.handle('trophies:custom-update', (_event, payload: { id: string; patch: Partial<CustomTrophyInput> }) =>
+    backend.trophies.updateCustom(payload.id, payload.patch)
+  );
+  ipcMain.handle('trophies:custom-remove', (_event, payload: { id: string }) => backend.trophies.removeCustom(payload.id));
+  ipcMain.handle('trophies:custom-preview', (_event, payload: { rule: TrophyRule }) => backend.trophies.previewRule(payload.rule));
+
   // Analytics handlers
   ipcMain.handle('analytics:overview', (_event, payload: { days?: number }) => {
     return backend.analytics.getOverview(payload.days ?? 7);
@@ -458,6 +533,9 @@ export function createIpc(context: IpcContext) {
   ipcMain.handle('analytics:trends', (_event, payload: { granularity?: 'hour' | 'day' | 'week' }) => {
     return backend.analytics.getTrends(payload.granularity ?? 'day');
   });
+  ipcMain.handle('analytics:challenges', (_event, payload: { days?: number } = {}) => {
+    return backend.analytics.getChallengeStats(payload.days ?? 30);
+  });
   ipcMain.handle('analytics:episodes', (_event, payload: {
     start?: string;
     end?: string;
@@ -487,16 +565,31 @@ export function createIpc(context: IpcContext) {
     if (!pickAnkiDeckFile) return null;
     return pickAnkiDeckFile();
   });
-  ipcMain.handle('anki:import-file', async (_event, payload: { path?: string } = {}) => {
+  ipcMain.handle('anki:import-file', async (_event, payload: { path?: string; mode?: AnkiImportMode } = {}) => {
     const filePath = String(payload?.path ?? '').trim();
     if (!filePath) throw new Error('Deck path is required.');
-    const result = await backend.anki.importDeckPackage(filePath);
+    const result = await backend.anki.importDeckPackage(filePath, { mode: payload?.mode });
     return {
       ok: true as const,
       result,
       status: backend.anki.getStatus({ limit: 24 })
     };
   });
+  ipcMain.handle('anki:export-deck', async (_event, payload: { deckId: number }) => {
+    const deck = backend.anki.listDecks().find((entry) => entry.id === payload?.deckId);
+    if (!deck) throw new Error('Deck not found.');
+    if (!pickAnkiExportPath) throw new Error('Native save dialog is unavailable.');
+    const outputPath = await pickAnkiExportPath(`${deck.name}.apkg`);
+    if (!outputPath) return { ok: true as const, cancelled: true as const, result: null };
+    const result = await backend.anki.exportDeckPackage(deck.id, outputPath);
+    return { ok: true as const, cancelled: false as const, result };
+  });
+  ipcMain.handle('anki:set-scheduler', (_event, payload: { deckId: number; scheduler?: AnkiScheduler; desiredRetention?: number }) =>
+    backend.anki.setDeckScheduler(payload.deckId, { scheduler: payload.scheduler, desiredRetention: payload.desiredRetention })
+  );
+  ipcMain.handle('anki:optimize-fsrs', (_event, payload: { deckId?: number | null } = {}) =>
+    backend.anki.optimizeFsrs({ deckId: payload?.deckId ?? null })
+  );
 
   ipcMain.handle('sync:status', async () => {
     if (!sync) return { configured: false, authenticated: false };
@@ -522,4 +615,11 @@ export function createIpc(context: IpcContext) {
     if (!sync) return [];
     return sync.listDevices();
   });
+
+  ipcMain.handle('pairing:create-code', (_event, payload: { scopes?: PairingScope[] }) => backend.pairing.createCode(payload?.scopes));
+  ipcMain.handle('pairing:clients', () => backend.pairing.listClients());
+  ipcMain.handle('pairing:revoke', (_event, payload: { id: number }) => {
+    backend.pairing.revoke(payload.id);
+  });
+  ipcMain.handle('pairing:desktop-token', () => backend.pairing.getDesktopToken());
 }
@@ -3,14 +3,15 @@ import { existsSync } from 'node:fs';
 import path from 'node:path';
 import { promisify } from 'node:util';
 import { execFile } from 'node:child_process';
-import { app, BrowserWindow, ipcMain, Tray, Menu, nativeImage, shell, Notification, nativeTheme, dialog, session, screen, type OpenDialogOptions } from 'electron';
+import { app, BrowserWindow, ipcMain, Tray, Menu, nativeImage, shell, Notification, nativeTheme, dialog, session, screen, type OpenDialogOptions, type SaveDialogOptions } from 'electron';
 import { createBackend } from '@backend/server';
 import { Database } from '@backend/storage';
-import { createUrlWatcher } from '@backend/urlWatcher';
+import { JsonlReplaySource, createUrlWatcherSource } from '@backend/activitySources';
 import { createIpc } from './ipc';
 import { SyncService } from './sync';
 import { logger } from '@shared/logger';
-import type { WritingHudSnapshot } from '@shared/types';
+import { POMODORO_PHASE_LABELS, completedPomodoroFocusSec, currentPomodoroPhase } from '@shared/pomodoroPlan';
+import type { PomodoroSession, WritingHudSnapshot } from '@shared/types';
 
 declare const MAIN_WINDOW_VITE_DEV_SERVER_URL: string;
 declare const MAIN_WINDOW_VITE_NAME: string;
@@ -22,7 +23,6 @@ let latestWritingHudSnapshot: WritingHudSnapshot | null = null;
 let tray: Tray | null = null;
 let db: Database | null = null;
 let stopBackend: (() => Promise<void>) | null = null;
-let stopWatcher: (() => void) | null = null;
 let lastTrayLabel = 'TimeWellSpent';
 let syncService: SyncService | null = null;
 let pendingAuthUrl: string | null = null;
@@ -540,6 +540,21 @@ async function bootstrap() {
     return typeof selected === 'string' && selected.trim() ? selected : null;
   };
 
+  const pickAnkiExportPath = async (suggestedName: string) => {
+    const saveOptions: SaveDialogOptions = {
+      title: 'Export Anki Deck',
+      buttonLabel: 'Export',
+      defaultPath: path.join(app.getPath('documents'), suggestedName.replace(/[\\/:*?"<>|]+/g, '-')),
+      filters: [{ name: 'Anki Deck Packages', extensions: ['apkg'] }]
+    };
+    const parent = BrowserWindow.getFocusedWindow() ?? mainWindow;
+    const result = parent
+      ? await dialog.showSaveDialog(parent, saveOptions)
+      : await dialog.showSaveDialog(saveOptions);
+    if (result.canceled || !result.filePath) return null;
+    return result.filePath.toLowerCase().endsWith('.apkg') ? result.filePath : `${result.filePath}.apkg`;
+  };
+
   const backend = await createBackend(db, {
     onAuthCallback: (url) => {
       if (syncService) {
@@ -682,8 +697,7 @@ async function bootstrap() {
       if (identifier) {
         const marketRate = backend.market.getRate(identifier);
         if (marketRate) {
-          const hour = new Date().getHours();
-          ratePerMin = marketRate.ratePerMin * (marketRate.hourlyModifiers[hour] ?? 1);
+          ratePerMin = marketRate.ratePerMin * backend.market.getModifier(marketRate);
         }
       }
       return ratePerMin / 60;
@@ -823,16 +837,17 @@ async function bootstrap() {
     updateTray(`🎯 ${minutes}m`);
     buildTrayMenu();
   });
-  backend.pomodoro.on('tick', (payload) => {
+  backend.pomodoro.on('tick', (payload: PomodoroSession) => {
     emitToRenderers('pomodoro:tick', payload);
-    const minutes = Math.max(0, Math.ceil(payload.remainingMs / 1000 / 60));
-    updateTray(`🎯 ${minutes}m`);
+    const onBreak = payload.state === 'break';
+    const minutes = Math.max(0, Math.ceil((onBreak ? payload.breakRemainingMs ?? 0 : payload.remainingMs) / 1000 / 60));
+    updateTray(`${onBreak ? '☕' : '🎯'} ${minutes}m`);
     buildTrayMenu();
   });
-  backend.pomodoro.on('stop', (payload) => {
+  backend.pomodoro.on('stop', (payload: PomodoroSession) => {
     emitToRenderers('pomodoro:stop', payload);
     const balance = backend.wallet.getSnapshot().balance;
-    const durationMin = Math.max(1, Math.round((payload.plannedDurationSec ?? 0) / 60));
+    const durationMin = Math.max(1, Math.round(completedPomodoroFocusSec(payload) / 60));
     const baseline = pomodoroSessionState;
     pomodoroSessionState = null;
 
@@ -868,7 +883,33 @@ async function bootstrap() {
   backend.pomodoro.on('pause', (payload) => emitToRenderers('pomodoro:pause', payload));
   backend.pomodoro.on('resume', (payload) => emitToRenderers('pomodoro:resume', payload));
   backend.pomodoro.on('break', (payload) => emitToRenderers('pomodoro:break', payload));
+  backend.pomodoro.on('phase', (payload: PomodoroSession) => {
+    emitToRenderers('pomodoro:phase', payload);
+    const phase = currentPomodoroPhase(payload.plan);
+    if (phase) {
+      new Notification({
+        title: phase.kind === 'focus' ? `Focus ${phase.cycle}/${payload.plan?.cycles ?? phase.cycle}` : `${POMODORO_PHASE_LABELS[phase.kind]} time`,
+        body: `${POMODORO_PHASE_LABELS[phase.kind]} for ${Math.round(phase.durationSec / 60)} minutes.`
+      }).show();
+    }
+    updateTray();
+    buildTrayMenu();
+  });
 
+  // A session restored from the last run started before these listeners existed.
+  const restoredPomodoro = backend.pomodoro.status();
+  if (restoredPomodoro) {
+    // Only coins earned from here on can be forfeited; earlier earnings weren't tracked.
+    pomodoroSessionState = {
+      sessionId: restoredPomodoro.id,
+      startBalance: backend.wallet.getSnapshot().balance,
+      plannedMinutes: Math.max(1, Math.round(restoredPomodoro.plannedDurationSec / 60))
+    };
+    updateTray(restoredPomodoro.state === 'paused' ? '⏸ Paused' : undefined);
+    buildTrayMenu();
+  }
+
+  backend.savingsGoals.on('update', () => emitToRenderers('wallet:update', backend.wallet.getSnapshot()));
   backend.economy.on('wallet-updated', (payload) => {
     emitToRenderers('wallet:update', payload);
     updateTray();
@@ -914,11 +955,22 @@ async function bootstrap() {
     lastCameraCaptureAt = now;
   });
 
-  const watcher = createUrlWatcher({
-    onActivity: (event) => backend.handleActivity(event, 'system')
-  });
-  stopWatcher = watcher.stop;
-  console.log('Watcher started');
+  // TWS_ACTIVITY_REPLAY=<file.jsonl> swaps the OS watcher for a recorded day,
+  // optionally sped up with TWS_ACTIVITY_REPLAY_SPEED, to reproduce economy bugs.
+  const replayPath = process.env.TWS_ACTIVITY_REPLAY;
+  if (replayPath) {
+    const speed = Number(process.env.TWS_ACTIVITY_REPLAY_SPEED ?? 1);
+    const replay = new JsonlReplaySource({
+      path: replayPath,
+      speed: Number.isFinite(speed) && speed > 0 ? speed : 1
+    });
+    backend.economy.useClock(replay.clock);
+    await backend.activityPipeline.registerSource(replay);
+    console.log(`Replaying activity from ${replayPath}`);
+  } else {
+    await backend.activityPipeline.registerSource(createUrlWatcherSource());
+    console.log('Watcher started');
+  }
 
   // Extension status events to renderer
   backend.extension.onStatus((status) => emitToRenderers('extension:status', status));
@@ -939,7 +991,7 @@ async function bootstrap() {
   backend.friends.on('published', () => emitToRenderers('friends:published', {}));
   backend.friends.on('updated', (payload) => emitToRenderers('friends:updated', payload));
 
-  createIpc({ backend, db, sync: syncService, pickAnkiDeckFile });
+  createIpc({ backend, db, sync: syncService, pickAnkiDeckFile, pickAnkiExportPath });
 
   ipcMain.handle('writing-hud:show', async (_event, payload: WritingHudSnapshot) => {
     latestWritingHudSnapshot = payload;
@@ -1022,7 +1074,6 @@ app.on('before-quit', async () => {
     monitorHealthInterval = null;
   }
   clearMissingExtensionBeepTimeouts();
-  stopWatcher?.();
   if (stopBackend) {
     await stopBackend();
   }
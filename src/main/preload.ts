@@ -6,7 +6,11 @@ const api: RendererApi = {
   wallet: {
     get: () => ipcRenderer.invoke('wallet:get'),
     earn: (amount, meta) => ipcRenderer.invoke('wallet:earn', { amount, meta }),
-    spend: (amount, meta) => ipcRenderer.invoke('wallet:spend', { amount, meta })
+    spend: (amount, meta) => ipcRenderer.invoke('wallet:spend', { amount, meta }),
+    goals: () => ipcRenderer.invoke('wallet:goals'),
+    createGoal: (payload) => ipcRenderer.invoke('wallet:goal-create', payload),
+    escrow: (goalId, amount) => ipcRenderer.invoke('wallet:goal-escrow', { id: goalId, amount }),
+    releaseGoal: (goalId) => ipcRenderer.invoke('wallet:goal-release', { id: goalId })
   },
   focus: {
     start: (duration) => ipcRenderer.invoke('focus:start', { duration }),
@@ -29,6 +33,7 @@ const api: RendererApi = {
     pause: () => ipcRenderer.invoke('pomodoro:pause'),
     resume: () => ipcRenderer.invoke('pomodoro:resume'),
     startBreak: (durationSec?: number) => ipcRenderer.invoke('pomodoro:break', { durationSec }),
+    skipPhase: () => ipcRenderer.invoke('pomodoro:skip-phase'),
     summaries: (limit?: number) => ipcRenderer.invoke('pomodoro:summaries', { limit })
   },
   activities: {
@@ -36,10 +41,21 @@ const api: RendererApi = {
     summary: (windowHours, deviceId) => ipcRenderer.invoke('activities:summary', { windowHours, deviceId }),
     journey: (windowHours, deviceId) => ipcRenderer.invoke('activities:journey', { windowHours, deviceId })
   },
+  activityRules: {
+    list: () => ipcRenderer.invoke('activity-rules:list'),
+    create: (payload) => ipcRenderer.invoke('activity-rules:create', payload),
+    update: (id, patch) => ipcRenderer.invoke('activity-rules:update', { id, patch }),
+    remove: (id) => ipcRenderer.invoke('activity-rules:remove', { id }),
+    test: (payload) => ipcRenderer.invoke('activity-rules:test', payload)
+  },
   market: {
     list: () => ipcRenderer.invoke('market:list'),
     upsert: (rate) => ipcRenderer.invoke('market:update', rate),
-    delete: (domain) => ipcRenderer.invoke('market:delete', { domain })
+    delete: (domain) => ipcRenderer.invoke('market:delete', { domain }),
+    pricing: (domain) => ipcRenderer.invoke('market:pricing', { domain }),
+    listCalendar: () => ipcRenderer.invoke('market:calendar-list'),
+    addCalendarOverride: (payload) => ipcRenderer.invoke('market:calendar-add', payload),
+    removeCalendarOverride: (id) => ipcRenderer.invoke('market:calendar-remove', { id })
   },
   intentions: {
     list: (date) => ipcRenderer.invoke('intentions:list', { date }),
@@ -50,22 +66,26 @@ const api: RendererApi = {
   budgets: {
     list: () => ipcRenderer.invoke('budgets:list'),
     add: (payload) => ipcRenderer.invoke('budgets:add', payload),
-    remove: (id) => ipcRenderer.invoke('budgets:remove', { id })
+    remove: (id) => ipcRenderer.invoke('budgets:remove', { id }),
+    status: () => ipcRenderer.invoke('budgets:status')
   },
   economy: {
     state: () => ipcRenderer.invoke('economy:state'),
     setNeutralClock: (enabled) => ipcRenderer.invoke('economy:neutral-clock', { enabled })
   },
   paywall: {
-    startMetered: (domain) => ipcRenderer.invoke('paywall:start-metered', { domain }),
-    buyPack: (domain, minutes) => ipcRenderer.invoke('paywall:buy-pack', { domain, minutes }),
-    startChallengePass: (domain, options) => ipcRenderer.invoke('paywall:start-challenge-pass', { domain, ...options }),
+    quote: (domain, minutes) => ipcRenderer.invoke('paywall:quote', { domain, minutes }),
+    startMetered: (domain, quoteId) => ipcRenderer.invoke('paywall:start-metered', { domain, quoteId }),
+    buyPack: (domain, minutes, quoteId) => ipcRenderer.invoke('paywall:buy-pack', { domain, minutes, quoteId }),
+    issueChallenge: (domain) => ipcRenderer.invoke('paywall:issue-challenge', { domain }),
+    startChallengePass: (domain, submission) => ipcRenderer.invoke('paywall:start-challenge-pass', { domain, ...submission }),
     decline: (domain) => ipcRenderer.invoke('paywall:decline', { domain }),
     cancelPack: (domain) => ipcRenderer.invoke('paywall:cancel-pack', { domain }),
     end: (domain, options) => ipcRenderer.invoke('paywall:end', { domain, refundUnused: options?.refundUnused }),
     sessions: () => ipcRenderer.invoke('paywall:sessions'),
     pause: (domain) => ipcRenderer.invoke('paywall:pause', { domain }),
-    resume: (domain) => ipcRenderer.invoke('paywall:resume', { domain })
+    resume: (domain) => ipcRenderer.invoke('paywall:resume', { domain }),
+    diagnostics: (query) => ipcRenderer.invoke('paywall:diagnostics', query)
   },
   settings: {
     theme: () => ipcRenderer.invoke('settings:theme'),
@@ -80,8 +100,12 @@ const api: RendererApi = {
     updateExcludedKeywords: (value) => ipcRenderer.invoke('settings:update-excluded-keywords', value),
     emergencyPolicy: () => ipcRenderer.invoke('settings:emergency-policy'),
     updateEmergencyPolicy: (value) => ipcRenderer.invoke('settings:update-emergency-policy', value),
+    customEmergencyPolicies: () => ipcRenderer.invoke('settings:custom-emergency-policies'),
+    updateCustomEmergencyPolicies: (value) => ipcRenderer.invoke('settings:update-custom-emergency-policies', value),
     emergencyReminderInterval: () => ipcRenderer.invoke('settings:emergency-reminder-interval'),
     updateEmergencyReminderInterval: (value) => ipcRenderer.invoke('settings:update-emergency-reminder-interval', value),
+    paywallDowntimePolicy: () => ipcRenderer.invoke('settings:paywall-downtime-policy'),
+    updatePaywallDowntimePolicy: (value) => ipcRenderer.invoke('settings:update-paywall-downtime-policy', value),
     economyExchangeRate: () => ipcRenderer.invoke('settings:economy-exchange-rate'),
     updateEconomyExchangeRate: (value) => ipcRenderer.invoke('settings:update-economy-exchange-rate', value),
     dailyWalletResetEnabled: () => ipcRenderer.invoke('settings:daily-wallet-reset-enabled'),
@@ -140,13 +164,17 @@ const api: RendererApi = {
     patterns: (days) => ipcRenderer.invoke('analytics:patterns', { days }),
     engagement: (domain, days) => ipcRenderer.invoke('analytics:engagement', { domain, days }),
     trends: (granularity) => ipcRenderer.invoke('analytics:trends', { granularity }),
-    episodes: (query) => ipcRenderer.invoke('analytics:episodes', query ?? {})
+    episodes: (query) => ipcRenderer.invoke('analytics:episodes', query ?? {}),
+    challenges: (days) => ipcRenderer.invoke('analytics:challenges', { days })
   },
   anki: {
     status: (payload) => ipcRenderer.invoke('anki:status', payload ?? {}),
     analytics: (days) => ipcRenderer.invoke('anki:analytics', { days }),
     pickDeckFile: () => ipcRenderer.invoke('anki:pick-file'),
-    importDeck: (path) => ipcRenderer.invoke('anki:import-file', { path })
+    importDeck: (path, mode) => ipcRenderer.invoke('anki:import-file', { path, mode }),
+    exportDeck: (deckId) => ipcRenderer.invoke('anki:export-deck', { deckId }),
+    setDeckScheduler: (deckId, payload) => ipcRenderer.invoke('anki:set-scheduler', { deckId, ...payload }),
+    optimizeFsrs: (deckId) => ipcRenderer.invoke('anki:optimize-fsrs', { deckId: deckId ?? null })
   },
   friends: {
     profile: () => ipcRenderer.invoke('friends:profile'),
@@ -162,12 +190,20 @@ const api: RendererApi = {
     summaries: (windowHours) => ipcRenderer.invoke('friends:summaries', { windowHours }),
     meSummary: (windowHours) => ipcRenderer.invoke('friends:me-summary', { windowHours }),
     timeline: (userId, windowHours) => ipcRenderer.invoke('friends:timeline', { userId, windowHours }),
-    publicLibrary: (userId, windowHours) => ipcRenderer.invoke('friends:public-library', { userId, windowHours })
+    publicLibrary: (userId, windowHours) => ipcRenderer.invoke('friends:public-library', { userId, windowHours }),
+    history: (userId, days) => ipcRenderer.invoke('friends:history', { userId, days })
   },
   trophies: {
     list: () => ipcRenderer.invoke('trophies:list'),
     profile: () => ipcRenderer.invoke('trophies:profile'),
-    pin: (ids) => ipcRenderer.invoke('trophies:pin', { ids })
+    pin: (ids) => ipcRenderer.invoke('trophies:pin', { ids }),
+    custom: {
+      list: () => ipcRenderer.invoke('trophies:custom-list'),
+      create: (payload) => ipcRenderer.invoke('trophies:custom-create', payload),
+      update: (id, patch) => ipcRenderer.invoke('trophies:custom-update', { id, patch }),
+      remove: (id) => ipcRenderer.invoke('trophies:custom-remove', { id }),
+      preview: (rule) => ipcRenderer.invoke('trophies:custom-preview', { rule })
+    }
   },
   sync: {
     status: () => ipcRenderer.invoke('sync:status'),
@@ -177,6 +213,12 @@ const api: RendererApi = {
     setDeviceName: (name) => ipcRenderer.invoke('sync:set-device-name', { name }),
     listDevices: () => ipcRenderer.invoke('sync:devices')
   },
+  pairing: {
+    createCode: (scopes) => ipcRenderer.invoke('pairing:create-code', { scopes }),
+    clients: () => ipcRenderer.invoke('pairing:clients'),
+    revoke: (id) => ipcRenderer.invoke('pairing:revoke', { id }),
+    desktopToken: () => ipcRenderer.invoke('pairing:desktop-token')
+  },
   system: {
     reset: (scope) => ipcRenderer.invoke('system:reset', { scope })
   },
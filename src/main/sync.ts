@@ -901,7 +901,8 @@ export class SyncService {
     if (!this.supabase) return;
     const state = this.getSyncState();
     const since = state.lastWalletSyncAt ?? new Date(0).toISOString();
-    const localTx = this.backend.wallet.listTransactionsSince(since).map((tx) => {
+    // Opening entries carry this device's pre-ledger balance and stay local.
+    const localTx = this.backend.wallet.listTransactionsSince(since).filter((tx) => tx.type !== 'opening').map((tx) => {
       const syncId = tx.syncId ?? this.backend.wallet.ensureSyncId(tx.id);
       return {
         id: syncId,
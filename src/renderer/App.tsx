@@ -19,10 +19,10 @@ const api: RendererApi = window.twsp;
 const DESKTOP_API_BASE = 'http://127.0.0.1:17600';
 
 type View = 'today' | 'shelf' | 'focus' | 'more';
-type MoreView = 'analytics' | 'settings' | 'friends' | 'profile' | 'games';
+type MoreView = 'analytics' | 'wallet' | 'settings' | 'friends' | 'profile' | 'games';
 
 const VIEW_LIST: View[] = ['today', 'shelf', 'focus', 'more'];
-const MORE_VIEW_LIST: MoreView[] = ['analytics', 'settings', 'friends', 'profile', 'games'];
+const MORE_VIEW_LIST: MoreView[] = ['analytics', 'wallet', 'settings', 'friends', 'profile', 'games'];
 const isView = (value: string): value is View => VIEW_LIST.includes(value as View);
 const isMoreView = (value: string): value is MoreView => MORE_VIEW_LIST.includes(value as MoreView);
 
@@ -109,6 +109,7 @@ export default function App() {
   const [dailyNote, setDailyNote] = useState('');
   const [dailyNoteOpen, setDailyNoteOpen] = useState(false);
   const [now, setNow] = useState(Date.now());
+  const [apiToken, setApiToken] = useState<string | null>(null);
   const currentDayKey = dayKeyFor(new Date(now));
   const activeCategory = economyState?.activeCategory ?? 'idle';
   const activeSource = economyState?.activeDomain ?? economyState?.activeApp ?? 'No active source';
@@ -118,6 +119,7 @@ export default function App() {
   useEffect(() => {
     api.wallet.get().then(setWallet);
     api.economy.state().then(setEconomyState);
+    api.pairing.desktopToken().then(setApiToken).catch(() => { });
     api.settings.theme().then((storedTheme) => {
       let nextTheme = storedTheme;
       try {
@@ -387,8 +389,8 @@ export default function App() {
           {view === 'shelf' && (
             <Library api={api} />
           )}
-          {view === 'focus' && (
-            <WritingStudioPanel apiBase={DESKTOP_API_BASE} surface="desktop-renderer" variant="desktop" />
+          {view === 'focus' && apiToken && (
+            <WritingStudioPanel apiBase={DESKTOP_API_BASE} apiToken={apiToken} surface="desktop-renderer" variant="desktop" />
           )}
           {view === 'more' && (
             <MorePanel
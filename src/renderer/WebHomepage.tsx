@@ -8,6 +8,7 @@ import type {
   LibraryPurpose,
   LiteraryAnnotationRecord,
   LiteraryAnalyticsOverview,
+  PairingExchangeResult,
   TimeOfDayStats,
   WalletSnapshot
 } from '@shared/types';
@@ -107,6 +108,14 @@ function loadStoredApiBase() {
   }
 }
 
+function loadStoredApiToken() {
+  try {
+    return window.localStorage.getItem('tws-web-api-token');
+  } catch {
+    return null;
+  }
+}
+
 function formatHours(seconds: number) {
   const hours = seconds / 3600;
   if (hours >= 10) return `${Math.round(hours)}h`;
@@ -158,12 +167,18 @@ function safeDate(value: string | undefined) {
   return Number.isFinite(parsed) ? parsed : 0;
 }
 
-async function fetchJson<T>(apiBase: string, path: string, init?: RequestInit): Promise<T> {
-  const response = await fetch(`${apiBase}${path}`, {
+type ApiEndpoint = {
+  base: string;
+  token: string | null;
+};
+
+async function fetchJson<T>(endpoint: ApiEndpoint, path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${endpoint.base}${path}`, {
     ...init,
     cache: 'no-store',
     headers: {
       'Content-Type': 'application/json',
+      ...(endpoint.token ? { Authorization: `Bearer ${endpoint.token}` } : {}),
       ...(init?.headers ?? {})
     }
   });
@@ -233,6 +248,9 @@ export default function WebHomepage() {
   const [theme, setTheme] = useState<AppTheme>(DEFAULT_APP_THEME);
   const [apiBaseInput, setApiBaseInput] = useState(loadStoredApiBase);
   const [apiBase, setApiBase] = useState(loadStoredApiBase);
+  const [apiToken, setApiToken] = useState<string | null>(loadStoredApiToken);
+  const [pairingCode, setPairingCode] = useState('');
+  const endpoint = useMemo<ApiEndpoint>(() => ({ base: apiBase, token: apiToken }), [apiBase, apiToken]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [connected, setConnected] = useState(false);
@@ -288,15 +306,15 @@ export default function WebHomepage() {
       setRefreshing(true);
       setError(null);
       try {
-        await fetchJson<{ status: string }>(apiBase, '/health');
+        await fetchJson<{ status: string }>(endpoint, '/health');
         const [themeData, walletData, summaryData, overviewData, libraryData, onboardingData, ankiData] = await Promise.all([
-          fetchJson<{ theme?: string }>(apiBase, '/settings/theme'),
-          fetchJson<WalletSnapshot>(apiBase, '/wallet'),
-          fetchJson<ActivitySummary>(apiBase, '/activities/summary?window=today'),
-          fetchJson<AnalyticsOverview>(apiBase, '/analytics/overview?days=7'),
-          fetchJson<LibraryItem[]>(apiBase, '/library'),
-          fetchJson<DailyOnboardingState>(apiBase, '/settings/daily-onboarding'),
-          fetchJson<AnkiStatusPayload>(apiBase, '/anki/status?limit=1')
+          fetchJson<{ theme?: string }>(endpoint, '/settings/theme'),
+          fetchJson<WalletSnapshot>(endpoint, '/wallet'),
+          fetchJson<ActivitySummary>(endpoint, '/activities/summary?window=today'),
+          fetchJson<AnalyticsOverview>(endpoint, '/analytics/overview?days=7'),
+          fetchJson<LibraryItem[]>(endpoint, '/library'),
+          fetchJson<DailyOnboardingState>(endpoint, '/settings/daily-onboarding'),
+          fetchJson<AnkiStatusPayload>(endpoint, '/anki/status?limit=1')
         ]);
         setTheme(normalizeAppTheme(themeData?.theme));
         setWallet(walletData);
@@ -311,9 +329,9 @@ export default function WebHomepage() {
         if (!silent) setLoading(false);
 
         const secondaryResults = await Promise.allSettled([
-          fetchJson<LiteraryAnalyticsOverview>(apiBase, '/analytics/literary/overview?days=14'),
-          fetchJson<TimeOfDayStats[]>(apiBase, '/analytics/time-of-day?days=7'),
-          fetchJson<{ items: ReadingAttractor[] }>(apiBase, '/integrations/reading?limit=8')
+          fetchJson<LiteraryAnalyticsOverview>(endpoint, '/analytics/literary/overview?days=14'),
+          fetchJson<TimeOfDayStats[]>(endpoint, '/analytics/time-of-day?days=7'),
+          fetchJson<{ items: ReadingAttractor[] }>(endpoint, '/integrations/reading?limit=8')
         ]);
         if (secondaryResults[0].status === 'fulfilled') {
           setLiteraryOverview(secondaryResults[0].value);
@@ -332,7 +350,7 @@ export default function WebHomepage() {
         setRefreshing(false);
       }
     },
-    [apiBase]
+    [endpoint]
   );
 
   const refreshReaderStorageEstimate = useCallback(async () => {
@@ -465,7 +483,7 @@ export default function WebHomepage() {
       const snapshot = readerMetricsRef.current;
       if (!snapshot) return;
       try {
-        await fetchJson(apiBase, `/analytics/literary/sessions/${readerTrackingRef.current.sessionId}/${kind}`, {
+        await fetchJson(endpoint, `/analytics/literary/sessions/${readerTrackingRef.current.sessionId}/${kind}`, {
           method: 'POST',
           body: JSON.stringify({
             occurredAt: new Date().toISOString(),
@@ -484,7 +502,7 @@ export default function WebHomepage() {
         // Literary analytics tracking should not block reading.
       }
     },
-    [apiBase, readerSession]
+    [endpoint, readerSession]
   );
 
   const handleEmbeddedReaderSnapshot = useCallback((snapshot: EmbeddedReaderSnapshot) => {
@@ -496,7 +514,7 @@ export default function WebHomepage() {
       setLoadingReaderAnnotations(true);
       try {
         const payload = await fetchJson<{ items: LiteraryAnnotationRecord[] }>(
-          apiBase,
+          endpoint,
           `/analytics/literary/annotations?docKey=${encodeURIComponent(docKey)}&limit=200`
         );
         setReaderAnnotations(Array.isArray(payload.items) ? payload.items : []);
@@ -506,7 +524,7 @@ export default function WebHomepage() {
         setLoadingReaderAnnotations(false);
       }
     },
-    [apiBase]
+    [endpoint]
   );
 
   const createReaderAnnotation = useCallback(
@@ -525,7 +543,7 @@ export default function WebHomepage() {
       }
       setAnnotationBusy(true);
       try {
-        await fetchJson(apiBase, '/analytics/literary/annotations', {
+        await fetchJson(endpoint, '/analytics/literary/annotations', {
           method: 'POST',
           body: JSON.stringify({
             docKey,
@@ -549,7 +567,7 @@ export default function WebHomepage() {
         setAnnotationBusy(false);
       }
     },
-    [annotationDraft, apiBase, loadHomepage, loadReaderAnnotations, readerSession]
+    [annotationDraft, endpoint, loadHomepage, loadReaderAnnotations, readerSession]
   );
 
   const deleteReaderAnnotation = useCallback(
@@ -557,7 +575,7 @@ export default function WebHomepage() {
       if (!readerSession) return;
       setAnnotationBusy(true);
       try {
-        await fetchJson(apiBase, `/analytics/literary/annotations/${id}`, { method: 'DELETE' });
+        await fetchJson(endpoint, `/analytics/literary/annotations/${id}`, { method: 'DELETE' });
         await Promise.all([loadReaderAnnotations(localBookDocKey(readerSession.book)), loadHomepage(true)]);
         setReaderNotice('Annotation removed.');
       } catch (annotationError) {
@@ -566,7 +584,7 @@ export default function WebHomepage() {
         setAnnotationBusy(false);
       }
     },
-    [apiBase, loadHomepage, loadReaderAnnotations, readerSession]
+    [endpoint, loadHomepage, loadReaderAnnotations, readerSession]
   );
 
   useEffect(() => {
@@ -605,10 +623,15 @@ export default function WebHomepage() {
   useEffect(() => {
     try {
       window.localStorage.setItem('tws-web-api-base', apiBase);
+      if (apiToken) {
+        window.localStorage.setItem('tws-web-api-token', apiToken);
+      } else {
+        window.localStorage.removeItem('tws-web-api-token');
+      }
     } catch {
       // ignore persistence failures in strict browser contexts.
     }
-  }, [apiBase]);
+  }, [apiBase, apiToken]);
 
   useEffect(() => {
     if (!readerSession) return undefined;
@@ -646,7 +669,7 @@ export default function WebHomepage() {
     let cancelled = false;
     (async () => {
       try {
-        await fetchJson(apiBase, '/analytics/literary/sessions/start', {
+        await fetchJson(endpoint, '/analytics/literary/sessions/start', {
           method: 'POST',
           body: JSON.stringify({
             sessionId: trackingSessionId,
@@ -675,7 +698,7 @@ export default function WebHomepage() {
       void loadHomepage(true);
       readerTrackingRef.current = null;
     };
-  }, [apiBase, loadHomepage, loadReaderAnnotations, postLiterarySessionProgress, readerSession]);
+  }, [endpoint, loadHomepage, loadReaderAnnotations, postLiterarySessionProgress, readerSession]);
 
   const topContexts = useMemo(() => summary?.topContexts?.slice(0, 6) ?? [], [summary]);
   const activeSeconds = useMemo(() => {
@@ -728,17 +751,17 @@ export default function WebHomepage() {
   const currentDueCard = ankiStatus?.dueCards?.[0] ?? null;
 
   const refreshAnkiStatus = useCallback(async () => {
-    const next = await fetchJson<AnkiStatusPayload>(apiBase, '/anki/status?limit=1');
+    const next = await fetchJson<AnkiStatusPayload>(endpoint, '/anki/status?limit=1');
     setAnkiStatus(next);
     setAnkiRevealAnswer(false);
-  }, [apiBase]);
+  }, [endpoint]);
 
   const handleReviewAnki = useCallback(async (rating: AnkiReviewRating) => {
     const card = ankiStatus?.dueCards?.[0];
     if (!card || ankiBusy) return;
     setAnkiBusy(true);
     try {
-      await fetchJson(apiBase, '/anki/review', {
+      await fetchJson(endpoint, '/anki/review', {
         method: 'POST',
         body: JSON.stringify({ cardId: card.id, rating })
       });
@@ -749,19 +772,19 @@ export default function WebHomepage() {
     } finally {
       setAnkiBusy(false);
     }
-  }, [ankiBusy, ankiStatus?.dueCards, apiBase, refreshAnkiStatus]);
+  }, [ankiBusy, ankiStatus?.dueCards, endpoint, refreshAnkiStatus]);
 
   const handleImportAnkiDeck = useCallback(async () => {
     if (ankiImportBusy) return;
     setAnkiImportBusy(true);
     try {
-      const picked = await fetchJson<{ ok?: boolean; cancelled?: boolean; path?: string | null }>(apiBase, '/anki/pick-file', {
+      const picked = await fetchJson<{ ok?: boolean; cancelled?: boolean; path?: string | null }>(endpoint, '/anki/pick-file', {
         method: 'POST',
         body: JSON.stringify({})
       });
       const path = typeof picked.path === 'string' ? picked.path.trim() : '';
       if (picked.cancelled || !path) return;
-      await fetchJson(apiBase, '/anki/import-file', {
+      await fetchJson(endpoint, '/anki/import-file', {
         method: 'POST',
         body: JSON.stringify({ path })
       });
@@ -772,7 +795,7 @@ export default function WebHomepage() {
     } finally {
       setAnkiImportBusy(false);
     }
-  }, [ankiImportBusy, apiBase, refreshAnkiStatus]);
+  }, [ankiImportBusy, endpoint, refreshAnkiStatus]);
   const readerAnnotationCounts = useMemo(
     () =>
       readerAnnotations.reduce(
@@ -806,6 +829,21 @@ export default function WebHomepage() {
     setApiBase(normalizeApiBase(apiBaseInput));
   };
 
+  const handlePair = async () => {
+    const base = normalizeApiBase(apiBaseInput);
+    try {
+      const result = await fetchJson<PairingExchangeResult>({ base, token: null }, '/pairing/exchange', {
+        method: 'POST',
+        body: JSON.stringify({ code: pairingCode, name: 'Web homepage' })
+      });
+      setPairingCode('');
+      setApiBase(base);
+      setApiToken(result.token);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
   const handleCaptureSubmit = async (event: FormEvent) => {
     event.preventDefault();
     setCaptureError(null);
@@ -816,7 +854,7 @@ export default function WebHomepage() {
     }
     setSavingCapture(true);
     try {
-      await fetchJson<LibraryItem>(apiBase, '/library', {
+      await fetchJson<LibraryItem>(endpoint, '/library', {
         method: 'POST',
         body: JSON.stringify({
           kind: 'url',
@@ -842,7 +880,7 @@ export default function WebHomepage() {
   const handleMarkDone = async (item: LibraryItem) => {
     if (!item.id || item.consumedAt) return;
     try {
-      const updated = await fetchJson<LibraryItem>(apiBase, `/library/${item.id}`, {
+      const updated = await fetchJson<LibraryItem>(endpoint, `/library/${item.id}`, {
         method: 'PATCH',
         body: JSON.stringify({
           consumedAt: new Date().toISOString()
@@ -860,7 +898,7 @@ export default function WebHomepage() {
     try {
       const day = dayKeyFor(new Date());
       const message = dailyNote.trim();
-      const nextState = await fetchJson<DailyOnboardingState>(apiBase, '/settings/daily-onboarding', {
+      const nextState = await fetchJson<DailyOnboardingState>(endpoint, '/settings/daily-onboarding', {
         method: 'POST',
         body: JSON.stringify({
           lastPromptedDay: day,
@@ -936,6 +974,16 @@ export default function WebHomepage() {
           <button className="primary" type="button" onClick={handleApplyApiBase}>
             Connect
           </button>
+          <label htmlFor="api-pairing-code">{apiToken ? 'Paired · re-pair with a new code' : 'Pairing code'}</label>
+          <input
+            id="api-pairing-code"
+            value={pairingCode}
+            onChange={(event) => setPairingCode(event.target.value)}
+            placeholder="From desktop Settings"
+          />
+          <button type="button" disabled={!pairingCode.trim()} onClick={() => void handlePair()}>
+            Pair
+          </button>
         </div>
       </aside>
 
@@ -1174,7 +1222,7 @@ export default function WebHomepage() {
               </article>
 
               <Suspense fallback={<article className="card">Loading writing studio…</article>}>
-                <WritingStudioPanel apiBase={apiBase} surface="web-homepage" variant="web" />
+                <WritingStudioPanel apiBase={apiBase} apiToken={apiToken} surface="web-homepage" variant="web" />
               </Suspense>
 
               <article className="card">
@@ -0,0 +1,260 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import type {
+  ActivityCategory,
+  ActivityRule,
+  ActivityRuleIdleMode,
+  ActivityRuleMatch,
+  ActivityRuleTestResult,
+  RendererApi
+} from '@shared/types';
+import { describeActivityRuleAction } from '@shared/activityRules';
+import { WEEKDAY_LABELS } from '@shared/marketSchedule';
+
+interface ActivityRulesProps {
+  api: RendererApi;
+}
+
+type TriState = 'any' | 'yes' | 'no';
+
+function toTriState(value: TriState): boolean | null {
+  return value === 'any' ? null : value === 'yes';
+}
+
+function describeMatch(match: ActivityRuleMatch) {
+  const parts: string[] = [];
+  if (match.domain) parts.push(match.domain);
+  if (match.app) parts.push(`app "${match.app}"`);
+  if (match.titlePattern) parts.push(`title /${match.titlePattern}/`);
+  if (match.weekdays?.length) parts.push(match.weekdays.map((day) => WEEKDAY_LABELS[day]).join(' '));
+  if (match.startTime || match.endTime) parts.push(`${match.startTime ?? '00:00'}–${match.endTime ?? '24:00'}`);
+  if (match.pomodoroActive != null) parts.push(match.pomodoroActive ? 'during pomodoro' : 'outside pomodoro');
+  if (match.writingActive != null) parts.push(match.writingActive ? 'while writing' : 'not writing');
+  if (match.writingProjectId != null) parts.push(`writing project #${match.writingProjectId}`);
+  return parts.length ? parts.join(' · ') : 'always';
+}
+
+export default function ActivityRules({ api }: ActivityRulesProps) {
+  const [rules, setRules] = useState<ActivityRule[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [domain, setDomain] = useState('');
+  const [app, setApp] = useState('');
+  const [titlePattern, setTitlePattern] = useState('');
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [pomodoro, setPomodoro] = useState<TriState>('any');
+  const [writing, setWriting] = useState<TriState>('any');
+  const [category, setCategory] = useState<ActivityCategory | ''>('productive');
+  const [suppressContext, setSuppressContext] = useState(false);
+  const [idle, setIdle] = useState<ActivityRuleIdleMode | ''>('');
+  const [priority, setPriority] = useState(0);
+  const [testDomain, setTestDomain] = useState('');
+  const [testApp, setTestApp] = useState('');
+  const [testTitle, setTestTitle] = useState('');
+  const [testAt, setTestAt] = useState('');
+  const [testResult, setTestResult] = useState<ActivityRuleTestResult | null>(null);
+
+  const refresh = async () => {
+    setRules(await api.activityRules.list());
+  };
+
+  useEffect(() => {
+    void refresh();
+  }, [api]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+    await refresh();
+  };
+
+  function toggleWeekday(day: number) {
+    setWeekdays((current) => (current.includes(day) ? current.filter((value) => value !== day) : [...current, day]));
+  }
+
+  function createRule(event: FormEvent) {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    void run(async () => {
+      await api.activityRules.create({
+        name: trimmed,
+        priority,
+        match: {
+          domain: domain.trim() || null,
+          app: app.trim() || null,
+          titlePattern: titlePattern.trim() || null,
+          weekdays: weekdays.length ? weekdays : null,
+          startTime: startTime || null,
+          endTime: endTime || null,
+          pomodoroActive: toTriState(pomodoro),
+          writingActive: toTriState(writing)
+        },
+        action: {
+          category: category || null,
+          suppressContext,
+          idle: idle || null
+        }
+      });
+      setName('');
+      setDomain('');
+      setApp('');
+      setTitlePattern('');
+      setWeekdays([]);
+      setStartTime('');
+      setEndTime('');
+    });
+  }
+
+  function testRules(event: FormEvent) {
+    event.preventDefault();
+    void run(async () => {
+      const result = await api.activityRules.test({
+        domain: testDomain.trim() || null,
+        appName: testApp.trim() || null,
+        windowTitle: testTitle.trim() || null,
+        at: testAt ? new Date(testAt).toISOString() : undefined
+      });
+      setTestResult(result);
+    });
+  }
+
+  return (
+    <div className="card settings-section activity-rules">
+      <div className="settings-section-header">
+        <h3>Classification rules</h3>
+        <p className="subtle">
+          Override categories by time and context, e.g. youtube.com is productive 09:00–11:00 on weekdays when the title matches “lecture”.
+          Higher priority wins; the first matching rule applies.
+        </p>
+      </div>
+
+      <ul className="activity-rule-list">
+        {rules.map((rule) => (
+          <li key={rule.id} className={rule.enabled ? '' : 'subtle'}>
+            <label>
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(event) => void run(() => api.activityRules.update(rule.id, { enabled: event.target.checked }))}
+              />
+              <strong>{rule.name}</strong>
+            </label>
+            <span className="subtle">
+              {describeMatch(rule.match)} → {describeActivityRuleAction(rule.action)} · priority {rule.priority}
+            </span>
+            <button type="button" onClick={() => void run(() => api.activityRules.remove(rule.id))}>
+              Remove
+            </button>
+          </li>
+        ))}
+        {rules.length === 0 && <li className="subtle">No rules yet.</li>}
+      </ul>
+
+      <form className="budget-form" onSubmit={createRule}>
+        <input placeholder="Rule name" value={name} onChange={(event) => setName(event.target.value)} />
+        <input placeholder="Domain (youtube.com)" value={domain} onChange={(event) => setDomain(event.target.value)} />
+        <input placeholder="App name contains" value={app} onChange={(event) => setApp(event.target.value)} />
+        <input placeholder="Title regex (lecture|course)" value={titlePattern} onChange={(event) => setTitlePattern(event.target.value)} />
+        <div className="settings-row">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <label key={label}>
+              <input type="checkbox" checked={weekdays.includes(day)} onChange={() => toggleWeekday(day)} />
+              {label}
+            </label>
+          ))}
+        </div>
+        <div className="settings-row">
+          <label>
+            From
+            <input type="time" value={startTime} onChange={(event) => setStartTime(event.target.value)} />
+          </label>
+          <label>
+            Until
+            <input type="time" value={endTime} onChange={(event) => setEndTime(event.target.value)} />
+          </label>
+          <label>
+            Pomodoro
+            <select value={pomodoro} onChange={(event) => setPomodoro(event.target.value as TriState)}>
+              <option value="any">Any</option>
+              <option value="yes">Running</option>
+              <option value="no">Not running</option>
+            </select>
+          </label>
+          <label>
+            Writing
+            <select value={writing} onChange={(event) => setWriting(event.target.value as TriState)}>
+              <option value="any">Any</option>
+              <option value="yes">Session open</option>
+              <option value="no">No session</option>
+            </select>
+          </label>
+        </div>
+        <div className="settings-row">
+          <label>
+            Category
+            <select value={category} onChange={(event) => setCategory(event.target.value as ActivityCategory | '')}>
+              <option value="">Keep</option>
+              <option value="productive">Productive</option>
+              <option value="neutral">Neutral</option>
+              <option value="draining">Draining</option>
+              <option value="frivolity">Frivolity</option>
+            </select>
+          </label>
+          <label>
+            Idle
+            <select value={idle} onChange={(event) => setIdle(event.target.value as ActivityRuleIdleMode | '')}>
+              <option value="">Default</option>
+              <option value="idle">Always idle</option>
+              <option value="active">Never idle</option>
+            </select>
+          </label>
+          <label>
+            <input type="checkbox" checked={suppressContext} onChange={(event) => setSuppressContext(event.target.checked)} />
+            Suppress context
+          </label>
+          <label>
+            Priority
+            <input type="number" value={priority} onChange={(event) => setPriority(Number(event.target.value))} />
+          </label>
+        </div>
+        <button className="primary" type="submit">
+          Add rule
+        </button>
+      </form>
+
+      <form className="budget-form" onSubmit={testRules}>
+        <input placeholder="Domain" value={testDomain} onChange={(event) => setTestDomain(event.target.value)} />
+        <input placeholder="App name" value={testApp} onChange={(event) => setTestApp(event.target.value)} />
+        <input placeholder="Window title" value={testTitle} onChange={(event) => setTestTitle(event.target.value)} />
+        <input type="datetime-local" value={testAt} onChange={(event) => setTestAt(event.target.value)} />
+        <button type="submit">Test rules</button>
+      </form>
+      {error && <p className="error">{error}</p>}
+      {testResult && (
+        <div className="activity-rule-test">
+          <p>{testResult.explanation}</p>
+          {testResult.trace.map((entry) => (
+            <details key={entry.ruleId} open={entry.matched}>
+              <summary>
+                {entry.matched ? '✓' : '✗'} {entry.name}
+              </summary>
+              <ul>
+                {entry.reasons.map((reason) => (
+                  <li key={reason} className="subtle">
+                    {reason}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
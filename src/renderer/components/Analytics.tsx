@@ -128,6 +128,10 @@ export default function Analytics({ api }: AnalyticsProps) {
         if (!ankiAnalytics?.hourly?.length) return 1;
         return Math.max(...ankiAnalytics.hourly.map((point) => point.reviews), 1);
     }, [ankiAnalytics?.hourly]);
+    const ankiForecastMax = useMemo(() => {
+        if (!ankiAnalytics?.forecast?.length) return 1;
+        return Math.max(...ankiAnalytics.forecast.map((point) => point.due), 1);
+    }, [ankiAnalytics?.forecast]);
     const zoteroDailyMax = useMemo(() => {
         if (!zoteroAnalytics?.daily?.length) return 1;
         return Math.max(...zoteroAnalytics.daily.map((point) => point.pagesAdvanced), 1);
@@ -254,6 +258,11 @@ export default function Analytics({ api }: AnalyticsProps) {
                                         <strong>{Math.round(ankiSnapshot.reviewMinutes)}m</strong>
                                         <small>last {ankiAnalytics.windowDays} days</small>
                                     </div>
+                                    <div className="anki-analytics-metric">
+                                        <span>Predicted recall</span>
+                                        <strong>{formatPercent(ankiSnapshot.predictedRetention)}</strong>
+                                        <small>FSRS memory model, right now</small>
+                                    </div>
                                     <div className="anki-analytics-metric">
                                         <span>Peak review hour</span>
                                         <strong>{ankiPeakHour ? formatHour(ankiPeakHour.hour) : '—'}</strong>
@@ -294,6 +303,39 @@ export default function Analytics({ api }: AnalyticsProps) {
                                     </section>
                                 </div>
 
+                                <div className="anki-analytics-grid">
+                                    <section className="anki-analytics-block">
+                                        <div className="anki-analytics-block-header">
+                                            <h3>Workload forecast</h3>
+                                            <span className="subtle">
+                                                {ankiAnalytics.forecast.slice(0, 7).reduce((sum, point) => sum + point.estimatedMinutes, 0).toFixed(0)}m over the next 7 days
+                                            </span>
+                                        </div>
+                                        <div className="anki-analytics-hourly">
+                                            {ankiAnalytics.forecast.map((point, index) => (
+                                                <div key={point.day} className="anki-hour-col" title={`${point.day} · ${point.due} due · ~${point.estimatedMinutes}m`}>
+                                                    <span className="anki-hour-fill" style={{ height: `${Math.max(6, Math.round((point.due / ankiForecastMax) * 100))}%` }} />
+                                                    <small>{index % 7 === 0 ? point.day.slice(5) : ''}</small>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </section>
+
+                                    <section className="anki-analytics-block">
+                                        <div className="anki-analytics-block-header">
+                                            <h3>Decks</h3>
+                                            <span className="subtle">scheduler and predicted recall</span>
+                                        </div>
+                                        <ul className="anki-cheer-list">
+                                            {ankiAnalytics.decks.map((deck) => (
+                                                <li key={deck.id}>
+                                                    {deck.name} · {deck.scheduler === 'fsrs' ? 'FSRS' : 'SM-2'} · {formatPercent(deck.predictedRetention)} recall · {deck.dueNow} due
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </section>
+                                </div>
+
                                 <div className="anki-analytics-grid">
                                     <section className="anki-analytics-block">
                                         <div className="anki-analytics-block-header">
@@ -1,5 +1,5 @@
 import { useEffect, useState, type FormEvent } from 'react';
-import type { Budget, RendererApi } from '@shared/types';
+import type { Budget, BudgetEscalation, BudgetStatus, BudgetTargetKind, RendererApi } from '@shared/types';
 
 interface BudgetsProps {
   api: RendererApi;
@@ -7,19 +7,30 @@ interface BudgetsProps {
 
 export default function Budgets({ api }: BudgetsProps) {
   const [list, setList] = useState<Budget[]>([]);
+  const [statuses, setStatuses] = useState<Record<number, BudgetStatus>>({});
   const [period, setPeriod] = useState<'day' | 'week'>('day');
-  const [category, setCategory] = useState('Social');
+  const [targetKind, setTargetKind] = useState<BudgetTargetKind>('category');
+  const [category, setCategory] = useState('frivolity');
   const [minutes, setMinutes] = useState(60);
+  const [escalation, setEscalation] = useState<BudgetEscalation>('warn');
+
+  const refreshStatus = () => {
+    void api.budgets.status().then((entries) => {
+      setStatuses(Object.fromEntries(entries.map((entry) => [entry.budget.id, entry])));
+    });
+  };
 
   useEffect(() => {
     api.budgets.list().then(setList);
+    refreshStatus();
   }, [api]);
 
   async function addBudget(event: FormEvent) {
     event.preventDefault();
     const seconds = minutes * 60;
-    const record = await api.budgets.add({ period, category, secondsBudgeted: seconds });
+    const record = await api.budgets.add({ period, targetKind, category, secondsBudgeted: seconds, escalation });
     setList((prev) => [...prev, record]);
+    refreshStatus();
   }
 
   async function remove(id: number) {
@@ -27,12 +38,17 @@ export default function Budgets({ api }: BudgetsProps) {
     setList((prev) => prev.filter((item) => item.id !== id));
   }
 
+  function changeTargetKind(next: BudgetTargetKind) {
+    setTargetKind(next);
+    setCategory(next === 'domain' ? '' : 'frivolity');
+  }
+
   return (
     <section className="panel">
       <header className="panel-header">
         <div>
           <h1>Budgets</h1>
-          <p className="subtle">Allocate intentional time for categories.</p>
+          <p className="subtle">Allocate intentional time for categories, groups, or single sites.</p>
         </div>
       </header>
 
@@ -45,8 +61,25 @@ export default function Budgets({ api }: BudgetsProps) {
           </select>
         </label>
         <label>
-          Category
-          <input value={category} onChange={(event) => setCategory(event.target.value)} />
+          Applies to
+          <select value={targetKind} onChange={(event) => changeTargetKind(event.target.value as BudgetTargetKind)}>
+            <option value="category">Category</option>
+            <option value="group">Categorisation group</option>
+            <option value="domain">Domain</option>
+          </select>
+        </label>
+        <label>
+          {targetKind === 'domain' ? 'Domain' : 'Category'}
+          {targetKind === 'domain' ? (
+            <input value={category} placeholder="youtube.com" onChange={(event) => setCategory(event.target.value)} />
+          ) : (
+            <select value={category} onChange={(event) => setCategory(event.target.value)}>
+              {targetKind === 'group' && <option value="productive">Productive</option>}
+              {targetKind === 'group' && <option value="neutral">Neutral</option>}
+              <option value="frivolity">Frivolity</option>
+              <option value="draining">Draining</option>
+            </select>
+          )}
         </label>
         <label>
           Minutes
@@ -57,6 +90,14 @@ export default function Budgets({ api }: BudgetsProps) {
             onChange={(event) => setMinutes(Number(event.target.value))}
           />
         </label>
+        <label>
+          When exhausted
+          <select value={escalation} onChange={(event) => setEscalation(event.target.value as BudgetEscalation)}>
+            <option value="warn">Warn only</option>
+            <option value="surcharge">Raise prices</option>
+            <option value="block">Block</option>
+          </select>
+        </label>
         <button className="primary" type="submit">
           Add budget
         </button>
@@ -67,7 +108,11 @@ export default function Budgets({ api }: BudgetsProps) {
           <li key={item.id}>
             <div>
               <strong>{item.category}</strong>
-              <span className="subtle">{item.period} • {Math.round(item.secondsBudgeted / 60)} min</span>
+              <span className="subtle">
+                {item.period} • {statuses[item.id] ? `${Math.round(statuses[item.id].usedSeconds / 60)} / ` : ''}
+                {Math.round(item.secondsBudgeted / 60)} min
+                {item.escalation !== 'warn' && ` • ${item.escalation === 'block' ? 'blocks' : `×${item.surchargeMultiplier}`} when spent`}
+              </span>
             </div>
             <button className="ghost" onClick={() => remove(item.id)}>
               ✕
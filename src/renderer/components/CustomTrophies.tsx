@@ -0,0 +1,249 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import type {
+  CustomTrophy,
+  RendererApi,
+  TrophyComparator,
+  TrophyCondition,
+  TrophyMetric,
+  TrophyProgress,
+  TrophyWindow
+} from '@shared/types';
+import {
+  TROPHY_COMPARATOR_LABELS,
+  TROPHY_METRICS,
+  TROPHY_WINDOW_LABELS,
+  describeTrophyCondition,
+  validateTrophyRule
+} from '@shared/trophyRules';
+
+interface CustomTrophiesProps {
+  api: RendererApi;
+  /** Called after a trophy is added or removed so the case can re-evaluate. */
+  onChange?: () => void;
+}
+
+const MAX_CONDITIONS = 5;
+const METRIC_OPTIONS = Object.entries(TROPHY_METRICS) as Array<[TrophyMetric, (typeof TROPHY_METRICS)[TrophyMetric]]>;
+const WINDOW_OPTIONS = Object.keys(TROPHY_WINDOW_LABELS) as TrophyWindow[];
+const COMPARATOR_OPTIONS = Object.keys(TROPHY_COMPARATOR_LABELS) as TrophyComparator[];
+
+function blankCondition(): TrophyCondition {
+  return { metric: 'productive_minutes', window: 'today', comparator: 'gte', threshold: 60 };
+}
+
+function windowsFor(metric: TrophyMetric) {
+  return TROPHY_METRICS[metric].kind === 'snapshot' ? (['now'] as TrophyWindow[]) : WINDOW_OPTIONS.filter((window) => window !== 'now');
+}
+
+export default function CustomTrophies({ api, onChange }: CustomTrophiesProps) {
+  const [trophies, setTrophies] = useState<CustomTrophy[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [emoji, setEmoji] = useState('');
+  const [description, setDescription] = useState('');
+  const [conditions, setConditions] = useState<TrophyCondition[]>([blankCondition()]);
+  const [preview, setPreview] = useState<TrophyProgress | null>(null);
+
+  const problems = validateTrophyRule({ conditions });
+
+  const refresh = async () => {
+    setTrophies(await api.trophies.custom.list());
+  };
+
+  useEffect(() => {
+    void refresh();
+  }, [api]);
+
+  // Preview against local history as the rule is edited; invalid drafts show their problems instead.
+  useEffect(() => {
+    if (problems.length) {
+      setPreview(null);
+      return undefined;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      api.trophies.custom
+        .preview({ conditions })
+        .then((progress) => {
+          if (!cancelled) setPreview(progress);
+        })
+        .catch(() => {
+          if (!cancelled) setPreview(null);
+        });
+    }, 300);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [api, JSON.stringify(conditions)]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      setError(null);
+      onChange?.();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+    await refresh();
+  };
+
+  function updateCondition(index: number, patch: Partial<TrophyCondition>) {
+    setConditions((current) =>
+      current.map((condition, position) => {
+        if (position !== index) return condition;
+        const next = { ...condition, ...patch };
+        const allowed = windowsFor(next.metric);
+        if (!allowed.includes(next.window)) next.window = allowed[0];
+        if (TROPHY_METRICS[next.metric].kind === 'snapshot') delete next.streakDays;
+        return next;
+      })
+    );
+  }
+
+  function createTrophy(event: FormEvent) {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed || problems.length) return;
+    void run(async () => {
+      await api.trophies.custom.create({
+        name: trimmed,
+        description: description.trim(),
+        emoji: emoji.trim() || undefined,
+        rule: { conditions }
+      });
+      setName('');
+      setEmoji('');
+      setDescription('');
+      setConditions([blankCondition()]);
+    });
+  }
+
+  return (
+    <div className="card custom-trophies">
+      <div className="card-header-row">
+        <div>
+          <p className="eyebrow">Personal trophies</p>
+          <h2>Make your own</h2>
+        </div>
+        <span className="subtle">Every condition must hold at the same time.</span>
+      </div>
+
+      <ul className="activity-rule-list">
+        {trophies.map((trophy) => (
+          <li key={trophy.id}>
+            <strong>
+              {trophy.emoji} {trophy.name}
+            </strong>
+            <span className="subtle">{trophy.rule.conditions.map(describeTrophyCondition).join(' · ')}</span>
+            <button type="button" onClick={() => void run(() => api.trophies.custom.remove(trophy.id))}>
+              Remove
+            </button>
+          </li>
+        ))}
+        {trophies.length === 0 && <li className="subtle">No personal trophies yet.</li>}
+      </ul>
+
+      <form className="budget-form" onSubmit={createTrophy}>
+        <div className="settings-row">
+          <input placeholder="🏅" value={emoji} maxLength={4} onChange={(event) => setEmoji(event.target.value)} style={{ width: 56 }} />
+          <input placeholder="Trophy name" value={name} onChange={(event) => setName(event.target.value)} />
+          <input placeholder="Description (optional)" value={description} onChange={(event) => setDescription(event.target.value)} />
+        </div>
+        {conditions.map((condition, index) => (
+          <div key={index} className="settings-row">
+            <select value={condition.metric} onChange={(event) => updateCondition(index, { metric: event.target.value as TrophyMetric })}>
+              {METRIC_OPTIONS.map(([metric, info]) => (
+                <option key={metric} value={metric}>
+                  {info.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={condition.comparator}
+              onChange={(event) => updateCondition(index, { comparator: event.target.value as TrophyComparator })}
+            >
+              {COMPARATOR_OPTIONS.map((comparator) => (
+                <option key={comparator} value={comparator}>
+                  {TROPHY_COMPARATOR_LABELS[comparator]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              step="any"
+              value={condition.threshold}
+              onChange={(event) => updateCondition(index, { threshold: Number(event.target.value) })}
+              style={{ width: 96 }}
+            />
+            <select
+              value={condition.streakDays ? 'streak' : condition.window}
+              onChange={(event) =>
+                event.target.value === 'streak'
+                  ? updateCondition(index, { streakDays: condition.streakDays ?? 3 })
+                  : updateCondition(index, { window: event.target.value as TrophyWindow, streakDays: undefined })
+              }
+            >
+              {windowsFor(condition.metric).map((window) => (
+                <option key={window} value={window}>
+                  {TROPHY_WINDOW_LABELS[window]}
+                </option>
+              ))}
+              {TROPHY_METRICS[condition.metric].kind === 'range' && <option value="streak">every day in a row</option>}
+            </select>
+            {condition.streakDays != null && (
+              <label>
+                for
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={condition.streakDays}
+                  onChange={(event) => updateCondition(index, { streakDays: Number(event.target.value) })}
+                  style={{ width: 64 }}
+                />
+                days
+              </label>
+            )}
+            {conditions.length > 1 && (
+              <button type="button" onClick={() => setConditions((current) => current.filter((_, position) => position !== index))}>
+                Remove
+              </button>
+            )}
+          </div>
+        ))}
+        <div className="settings-row">
+          <button
+            type="button"
+            disabled={conditions.length >= MAX_CONDITIONS}
+            onClick={() => setConditions((current) => [...current, blankCondition()])}
+          >
+            Add condition
+          </button>
+          <button className="primary" type="submit" disabled={!name.trim() || problems.length > 0}>
+            Create trophy
+          </button>
+        </div>
+      </form>
+
+      {problems.map((problem) => (
+        <p key={problem} className="subtle">
+          {problem}
+        </p>
+      ))}
+      {preview && (
+        <div>
+          <span className="subtle">
+            {preview.state === 'earned' ? 'You would earn this now' : 'Current progress'}: {preview.label}
+          </span>
+          {preview.state !== 'untracked' && (
+            <div className="progress-bar">
+              <span style={{ width: `${Math.round(preview.ratio * 100)}%` }} />
+            </div>
+          )}
+        </div>
+      )}
+      {error && <p className="error">{error}</p>}
+    </div>
+  );
+}
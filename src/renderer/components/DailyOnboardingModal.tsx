@@ -131,6 +131,7 @@ export function DailyOnboardingModal({ open, dayKey, initial, saving, error, onS
                   <option value="gentle">Gentle</option>
                   <option value="balanced">Balanced</option>
                   <option value="strict">Strict</option>
+                  {initial.emergencyPolicy.startsWith('custom:') && <option value={initial.emergencyPolicy}>Custom (current)</option>}
                 </select>
               </label>
             </div>
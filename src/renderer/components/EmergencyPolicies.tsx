@@ -0,0 +1,283 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import type { CustomEmergencyPolicy, EmergencyPolicyRuleOverride, RendererApi } from '@shared/types';
+import { describeEmergencyPolicyRules } from '@shared/emergencyPolicy';
+import { WEEKDAY_LABELS } from '@shared/marketSchedule';
+
+interface EmergencyPoliciesProps {
+  api: RendererApi;
+  onChange?: (policies: CustomEmergencyPolicy[]) => void;
+}
+
+type TriState = 'keep' | 'yes' | 'no';
+
+/** Blank fields inherit from the policy; minutes are converted to seconds on the way out. */
+type OverrideDraft = {
+  tokensPerDay: string;
+  cooldownMinutes: string;
+  debtCoins: string;
+  durationMinutes: string;
+  autoExpire: TriState;
+  urlLocked: TriState;
+};
+
+const EMPTY_OVERRIDE: OverrideDraft = {
+  tokensPerDay: '',
+  cooldownMinutes: '',
+  debtCoins: '',
+  durationMinutes: '',
+  autoExpire: 'keep',
+  urlLocked: 'keep'
+};
+
+function toOverride(draft: OverrideDraft): EmergencyPolicyRuleOverride {
+  const rules: EmergencyPolicyRuleOverride = {};
+  if (draft.tokensPerDay.trim()) rules.tokensPerDay = draft.tokensPerDay.trim() === '*' ? null : Number(draft.tokensPerDay);
+  if (draft.cooldownMinutes.trim()) rules.cooldownSeconds = Math.round(Number(draft.cooldownMinutes) * 60);
+  if (draft.debtCoins.trim()) rules.debtCoins = Number(draft.debtCoins);
+  if (draft.durationMinutes.trim()) rules.durationSeconds = Math.round(Number(draft.durationMinutes) * 60);
+  if (draft.autoExpire !== 'keep') rules.autoExpire = draft.autoExpire === 'yes';
+  if (draft.urlLocked !== 'keep') rules.urlLocked = draft.urlLocked === 'yes';
+  return rules;
+}
+
+function describeOverride(rules: EmergencyPolicyRuleOverride) {
+  const parts: string[] = [];
+  if (rules.tokensPerDay !== undefined) parts.push(rules.tokensPerDay === null ? 'unlimited/day' : `${rules.tokensPerDay}/day`);
+  if (rules.cooldownSeconds !== undefined) parts.push(`${Math.round(rules.cooldownSeconds / 60)}m cooldown`);
+  if (rules.debtCoins !== undefined) parts.push(`${rules.debtCoins} coin debt`);
+  if (rules.autoExpire !== undefined) parts.push(rules.autoExpire ? 'auto-expires' : 'no auto-expiry');
+  if (rules.durationSeconds !== undefined) parts.push(`${Math.round(rules.durationSeconds / 60)}m duration`);
+  if (rules.urlLocked !== undefined) parts.push(rules.urlLocked ? 'URL-locked' : 'any URL');
+  return parts.length ? parts.join(', ') : 'no changes';
+}
+
+function slugify(label: string) {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 32) || 'policy';
+}
+
+function OverrideFields({ value, onChange }: { value: OverrideDraft; onChange: (next: OverrideDraft) => void }) {
+  const set = (patch: Partial<OverrideDraft>) => onChange({ ...value, ...patch });
+  return (
+    <div className="settings-row">
+      <input placeholder="Uses/day (* = unlimited)" value={value.tokensPerDay} onChange={(event) => set({ tokensPerDay: event.target.value })} />
+      <input placeholder="Cooldown (min)" value={value.cooldownMinutes} onChange={(event) => set({ cooldownMinutes: event.target.value })} />
+      <input placeholder="Debt coins" value={value.debtCoins} onChange={(event) => set({ debtCoins: event.target.value })} />
+      <input placeholder="Duration (min)" value={value.durationMinutes} onChange={(event) => set({ durationMinutes: event.target.value })} />
+      <label>
+        Auto-expire
+        <select value={value.autoExpire} onChange={(event) => set({ autoExpire: event.target.value as TriState })}>
+          <option value="keep">Inherit</option>
+          <option value="yes">Yes</option>
+          <option value="no">No</option>
+        </select>
+      </label>
+      <label>
+        URL lock
+        <select value={value.urlLocked} onChange={(event) => set({ urlLocked: event.target.value as TriState })}>
+          <option value="keep">Inherit</option>
+          <option value="yes">Yes</option>
+          <option value="no">No</option>
+        </select>
+      </label>
+    </div>
+  );
+}
+
+export default function EmergencyPolicies({ api, onChange }: EmergencyPoliciesProps) {
+  const [policies, setPolicies] = useState<CustomEmergencyPolicy[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(10);
+  const [autoExpire, setAutoExpire] = useState(true);
+  const [tokensPerDay, setTokensPerDay] = useState('2');
+  const [cooldownMinutes, setCooldownMinutes] = useState(30);
+  const [urlLocked, setUrlLocked] = useState(false);
+  const [debtCoins, setDebtCoins] = useState(5);
+  const [domainOverrides, setDomainOverrides] = useState<CustomEmergencyPolicy['domainOverrides']>([]);
+  const [overrideDomain, setOverrideDomain] = useState('');
+  const [overrideDraft, setOverrideDraft] = useState<OverrideDraft>(EMPTY_OVERRIDE);
+  const [schedule, setSchedule] = useState<CustomEmergencyPolicy['schedule']>([]);
+  const [scheduleDays, setScheduleDays] = useState<number[]>([]);
+  const [scheduleDraft, setScheduleDraft] = useState<OverrideDraft>(EMPTY_OVERRIDE);
+
+  const apply = (next: CustomEmergencyPolicy[]) => {
+    setPolicies(next);
+    onChange?.(next);
+  };
+
+  useEffect(() => {
+    api.settings.customEmergencyPolicies().then(apply).catch(() => { });
+  }, [api]);
+
+  const save = async (next: CustomEmergencyPolicy[]) => {
+    try {
+      apply(await api.settings.updateCustomEmergencyPolicies(next));
+      setError(null);
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    }
+  };
+
+  function toggleScheduleDay(day: number) {
+    setScheduleDays((current) => (current.includes(day) ? current.filter((value) => value !== day) : [...current, day]));
+  }
+
+  function addOverride() {
+    if (!overrideDomain.trim()) return;
+    setDomainOverrides((current) => [...current, { domain: overrideDomain.trim(), rules: toOverride(overrideDraft) }]);
+    setOverrideDomain('');
+    setOverrideDraft(EMPTY_OVERRIDE);
+  }
+
+  function addScheduleEntry() {
+    if (!scheduleDays.length) return;
+    setSchedule((current) => [...current, { weekdays: [...scheduleDays].sort((a, b) => a - b), rules: toOverride(scheduleDraft) }]);
+    setScheduleDays([]);
+    setScheduleDraft(EMPTY_OVERRIDE);
+  }
+
+  async function createPolicy(event: FormEvent) {
+    event.preventDefault();
+    const trimmed = label.trim();
+    if (!trimmed) return;
+    const slug = slugify(trimmed);
+    let id: CustomEmergencyPolicy['id'] = `custom:${slug}`;
+    for (let n = 2; policies.some((policy) => policy.id === id); n += 1) id = `custom:${slug}-${n}`;
+    const policy: CustomEmergencyPolicy = {
+      id,
+      label: trimmed,
+      durationSeconds: Math.round(durationMinutes * 60),
+      autoExpire,
+      tokensPerDay: tokensPerDay.trim() === '' ? null : Number(tokensPerDay),
+      cooldownSeconds: Math.round(cooldownMinutes * 60),
+      urlLocked,
+      debtCoins,
+      domainOverrides,
+      schedule
+    };
+    if (await save([...policies, policy])) {
+      setLabel('');
+      setDomainOverrides([]);
+      setSchedule([]);
+    }
+  }
+
+  return (
+    <div className="card settings-section emergency-policies">
+      <div className="settings-section-header">
+        <h3>Custom emergency policies</h3>
+        <p className="subtle">
+          Your own limits for emergency access, with stricter or looser rules on particular sites and weekdays. A domain override wins over the
+          weekday schedule. Pick a custom policy from the Emergency policy menu above.
+        </p>
+      </div>
+
+      <ul className="activity-rule-list">
+        {policies.map((policy) => (
+          <li key={policy.id}>
+            <strong>{policy.label}</strong>
+            <span className="subtle">
+              {describeEmergencyPolicyRules(policy)}
+              {policy.schedule.map((entry) => (
+                <span key={entry.weekdays.join('-')}>
+                  {' '}
+                  · {entry.weekdays.map((day) => WEEKDAY_LABELS[day]).join(' ')}: {describeOverride(entry.rules)}
+                </span>
+              ))}
+              {policy.domainOverrides.map((entry) => (
+                <span key={entry.domain}>
+                  {' '}
+                  · {entry.domain}: {describeOverride(entry.rules)}
+                </span>
+              ))}
+            </span>
+            <button type="button" onClick={() => void save(policies.filter((candidate) => candidate.id !== policy.id))}>
+              Remove
+            </button>
+          </li>
+        ))}
+        {policies.length === 0 && <li className="subtle">No custom policies yet.</li>}
+      </ul>
+
+      <form className="budget-form" onSubmit={(event) => void createPolicy(event)}>
+        <input placeholder="Policy name" value={label} onChange={(event) => setLabel(event.target.value)} />
+        <div className="settings-row">
+          <label>
+            Uses per day (blank = unlimited)
+            <input type="number" min="0" max="100" value={tokensPerDay} onChange={(event) => setTokensPerDay(event.target.value)} />
+          </label>
+          <label>
+            Cooldown (minutes)
+            <input type="number" min="0" value={cooldownMinutes} onChange={(event) => setCooldownMinutes(Number(event.target.value))} />
+          </label>
+          <label>
+            Debt (coins)
+            <input type="number" min="0" value={debtCoins} onChange={(event) => setDebtCoins(Number(event.target.value))} />
+          </label>
+        </div>
+        <div className="settings-row">
+          <label>
+            <input type="checkbox" checked={autoExpire} onChange={(event) => setAutoExpire(event.target.checked)} />
+            Expire after
+          </label>
+          <label>
+            Duration (minutes)
+            <input
+              type="number"
+              min="1"
+              value={durationMinutes}
+              disabled={!autoExpire}
+              onChange={(event) => setDurationMinutes(Number(event.target.value))}
+            />
+          </label>
+          <label>
+            <input type="checkbox" checked={urlLocked} onChange={(event) => setUrlLocked(event.target.checked)} />
+            Lock to the exact URL
+          </label>
+        </div>
+
+        <details className="settings-details">
+          <summary>Weekday schedule ({schedule.length})</summary>
+          {schedule.map((entry, index) => (
+            <p key={index} className="subtle">
+              {entry.weekdays.map((day) => WEEKDAY_LABELS[day]).join(' ')}: {describeOverride(entry.rules)}
+            </p>
+          ))}
+          <div className="settings-row">
+            {WEEKDAY_LABELS.map((dayLabel, day) => (
+              <label key={dayLabel}>
+                <input type="checkbox" checked={scheduleDays.includes(day)} onChange={() => toggleScheduleDay(day)} />
+                {dayLabel}
+              </label>
+            ))}
+          </div>
+          <OverrideFields value={scheduleDraft} onChange={setScheduleDraft} />
+          <button type="button" onClick={addScheduleEntry} disabled={!scheduleDays.length}>
+            Add schedule entry
+          </button>
+        </details>
+
+        <details className="settings-details">
+          <summary>Domain overrides ({domainOverrides.length})</summary>
+          {domainOverrides.map((entry) => (
+            <p key={entry.domain} className="subtle">
+              {entry.domain}: {describeOverride(entry.rules)}
+            </p>
+          ))}
+          <input placeholder="Domain (youtube.com)" value={overrideDomain} onChange={(event) => setOverrideDomain(event.target.value)} />
+          <OverrideFields value={overrideDraft} onChange={setOverrideDraft} />
+          <button type="button" onClick={addOverride} disabled={!overrideDomain.trim()}>
+            Add override
+          </button>
+        </details>
+
+        <button className="primary" type="submit">
+          Add policy
+        </button>
+      </form>
+      {error && <p className="error">{error}</p>}
+    </div>
+  );
+}
@@ -11,12 +11,18 @@ interface FocusPanelProps {
 
 const PRESETS = [25, 50, 90];
 
+function formatMinutes(seconds: number) {
+  const minutes = Math.round(seconds / 60);
+  return minutes < 1 && seconds > 0 ? '<1m' : `${minutes}m`;
+}
+
 export default function FocusPanel({ api, wallet, onWallet, economy, onEconomy }: FocusPanelProps) {
   const [selectedMinutes, setSelectedMinutes] = useState(25);
   const [session, setSession] = useState<FocusSession | null>(null);
   const [remaining, setRemaining] = useState(0);
   const [progress, setProgress] = useState(0);
   const [loading, setLoading] = useState(false);
+  const [lastResult, setLastResult] = useState<FocusSession | null>(null);
   const neutralClockedIn = economy?.neutralClockedIn ?? false;
 
   useEffect(() => {
@@ -27,7 +33,8 @@ export default function FocusPanel({ api, wallet, onWallet, economy, onEconomy }
     const unsubStart = api.events.on('focus:start', (payload: FocusSession) => {
       setSession(payload);
     });
-    const unsubStop = api.events.on('focus:stop', () => {
+    const unsubStop = api.events.on('focus:stop', (payload: FocusSession) => {
+      setLastResult(payload);
       setSession(null);
       setRemaining(0);
       setProgress(1);
@@ -66,6 +73,7 @@ export default function FocusPanel({ api, wallet, onWallet, economy, onEconomy }
       setLoading(true);
       const result = await api.focus.stop(completed);
       if (result) {
+        setLastResult(result);
         setSession(null);
         setRemaining(0);
         setProgress(1);
@@ -90,7 +98,9 @@ export default function FocusPanel({ api, wallet, onWallet, economy, onEconomy }
       <header className="panel-header">
         <div>
           <h1>Focus session</h1>
-          <p className="subtle">Earn an elevated payout when you complete the timer interruption-free.</p>
+          <p className="subtle">
+            Payouts follow what you actually worked on: productive time pays in full, neutral time half, and frivolity costs coins.
+          </p>
         </div>
         <div className="wallet-tile">
           <span>Wallet</span>
@@ -165,6 +175,39 @@ export default function FocusPanel({ api, wallet, onWallet, economy, onEconomy }
               </li>
             </ul>
           </div>
+          {lastResult?.verification && (
+            <div className="card">
+              <h2>Last session</h2>
+              <p className="subtle">
+                {lastResult.completed ? 'Completed' : 'Ended early'} · {lastResult.multiplier.toFixed(2)}× multiplier
+              </p>
+              <ul className="detail-list">
+                <li>
+                  <span>Productive</span>
+                  <span>{formatMinutes(lastResult.verification.productiveSeconds)}</span>
+                </li>
+                <li>
+                  <span>Neutral</span>
+                  <span>{formatMinutes(lastResult.verification.neutralSeconds)}</span>
+                </li>
+                <li>
+                  <span>Frivolity</span>
+                  <span>{formatMinutes(lastResult.verification.frivolitySeconds)}</span>
+                </li>
+                <li>
+                  <span>Idle / untracked</span>
+                  <span>{formatMinutes(lastResult.verification.idleSeconds + lastResult.verification.untrackedSeconds)}</span>
+                </li>
+                <li>
+                  <span>Payout</span>
+                  <span>
+                    {lastResult.verification.payout > 0 ? '+' : ''}
+                    {lastResult.verification.payout} f-coins
+                  </span>
+                </li>
+              </ul>
+            </div>
+          )}
         </div>
       </div>
     </section>
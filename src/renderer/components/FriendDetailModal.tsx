@@ -1,4 +1,4 @@
-import type { FriendConnection, FriendLibraryItem, FriendSummary, FriendTimeline, TrophyStatus } from '@shared/types';
+import type { FriendConnection, FriendHistoryPoint, FriendLibraryItem, FriendSummary, FriendTimeline, TrendPoint, TrophyStatus } from '@shared/types';
 
 type Props = {
   open: boolean;
@@ -6,11 +6,15 @@ type Props = {
   summary: FriendSummary | null;
   timeline: FriendTimeline | null;
   publicLibraryItems?: FriendLibraryItem[];
+  /** Daily relay-feed history for this friend, oldest first. */
+  history?: FriendHistoryPoint[];
+  /** Our own daily analytics trend, drawn alongside the friend's history. */
+  ownTrend?: TrendPoint[];
   trophies?: TrophyStatus[];
   onClose: () => void;
 };
 
-export default function FriendDetailModal({ open, friend, summary, timeline, publicLibraryItems = [], trophies = [], onClose }: Props) {
+export default function FriendDetailModal({ open, friend, summary, timeline, publicLibraryItems = [], history = [], ownTrend = [], trophies = [], onClose }: Props) {
   if (!open || !friend) return null;
 
   const totals = timeline?.totalsByCategory ?? summary?.categoryBreakdown ?? null;
@@ -95,6 +99,28 @@ export default function FriendDetailModal({ open, friend, summary, timeline, pub
           </div>
         )}
 
+        {history.length > 0 && (
+          <div className="friend-modal-trends">
+            <div className="friend-modal-timeline-header">
+              <span className="label">Last 30 days</span>
+              <span className="subtle">Them (solid) vs you (dashed)</span>
+            </div>
+            <TrendChart
+              title="Deep work"
+              format={(value) => formatHoursFromSeconds(value)}
+              friend={history.map((point) => ({ date: point.date, value: point.deepWorkSeconds }))}
+              own={ownTrend.map((point) => ({ date: localDateKey(point.timestamp), value: point.deepWork }))}
+            />
+            <TrendChart
+              title="Productivity"
+              format={(value) => `${Math.round(value)}%`}
+              max={100}
+              friend={history.map((point) => ({ date: point.date, value: point.productivityScore }))}
+              own={ownTrend.map((point) => ({ date: localDateKey(point.timestamp), value: point.qualityScore }))}
+            />
+          </div>
+        )}
+
         {publicLibraryItems.length > 0 && (
           <div className="friend-modal-library">
             <div className="friend-modal-timeline-header" style={{ marginBottom: 12 }}>
@@ -145,6 +171,53 @@ export default function FriendDetailModal({ open, friend, summary, timeline, pub
   );
 }
 
+type DatedValue = { date: string; value: number };
+
+/** Two daily series on a shared date axis spanning both. */
+function TrendChart({
+  title,
+  friend,
+  own,
+  format,
+  max
+}: {
+  title: string;
+  friend: DatedValue[];
+  own: DatedValue[];
+  format: (value: number) => string;
+  max?: number;
+}) {
+  const dates = Array.from(new Set([...friend, ...own].map((point) => point.date))).sort();
+  if (dates.length < 2) return null;
+  const width = 300;
+  const height = 64;
+  const top = max ?? Math.max(1, ...friend.map((point) => point.value), ...own.map((point) => point.value));
+  const x = (date: string) => (dates.indexOf(date) / (dates.length - 1)) * width;
+  const y = (value: number) => height - (Math.min(value, top) / top) * height;
+  const line = (points: DatedValue[]) => points.map((point) => `${x(point.date).toFixed(1)},${y(point.value).toFixed(1)}`).join(' ');
+  const latest = friend[friend.length - 1];
+
+  return (
+    <figure className="friend-modal-trend">
+      <figcaption>
+        <span>{title}</span>
+        {latest && <strong>{format(latest.value)}</strong>}
+      </figcaption>
+      <svg viewBox={`0 0 ${width} ${height}`} width="100%" height={height} preserveAspectRatio="none">
+        {own.length > 1 && (
+          <polyline points={line(own)} fill="none" stroke="currentColor" strokeOpacity={0.4} strokeDasharray="4 3" strokeWidth={1.5} />
+        )}
+        <polyline points={line(friend)} fill="none" stroke="var(--accent, currentColor)" strokeWidth={2} />
+      </svg>
+    </figure>
+  );
+}
+
+function localDateKey(iso: string) {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
 function percentOfTotal(
   totals: NonNullable<FriendTimeline['totalsByCategory']>,
   key: 'productive' | 'neutral' | 'frivolity' | 'draining' | 'emergency' | 'idle'
@@ -1,5 +1,5 @@
 import { useEffect, useMemo, useState } from 'react';
-import type { FriendConnection, FriendLibraryItem, FriendProfile, FriendRequest, FriendSummary, FriendTimeline, RendererApi, TrophyStatus } from '@shared/types';
+import type { FriendConnection, FriendHistoryPoint, FriendLibraryItem, FriendProfile, FriendRequest, FriendSummary, FriendTimeline, RendererApi, TrendPoint, TrophyStatus } from '@shared/types';
 import FriendDetailModal from './FriendDetailModal';
 
 type Props = {
@@ -47,6 +47,8 @@ export default function Friends({ api }: Props) {
   const [selectedFriend, setSelectedFriend] = useState<FriendConnection | null>(null);
   const [selectedTimeline, setSelectedTimeline] = useState<FriendTimeline | null>(null);
   const [selectedPublicLibrary, setSelectedPublicLibrary] = useState<FriendLibraryItem[]>([]);
+  const [selectedHistory, setSelectedHistory] = useState<FriendHistoryPoint[]>([]);
+  const [ownTrend, setOwnTrend] = useState<TrendPoint[]>([]);
   const [detailOpen, setDetailOpen] = useState(false);
   const [trophies, setTrophies] = useState<TrophyStatus[]>([]);
   const [handleInput, setHandleInput] = useState('');
@@ -210,7 +212,14 @@ export default function Friends({ api }: Props) {
     setSelectedFriend(friend);
     setSelectedTimeline(null);
     setSelectedPublicLibrary([]);
+    setSelectedHistory([]);
     setDetailOpen(true);
+    void Promise.all([api.friends.history(friend.userId, 30), api.analytics.trends('day')])
+      .then(([history, trend]) => {
+        setSelectedHistory(history);
+        setOwnTrend(trend);
+      })
+      .catch((err) => console.error('Failed to load friend history', err));
     try {
       const [timeline, publicLibrary] = await Promise.all([
         api.friends.timeline(friend.userId, 24),
@@ -480,6 +489,8 @@ export default function Friends({ api }: Props) {
         summary={selectedFriend ? summaries[selectedFriend.userId] ?? null : null}
         timeline={selectedTimeline}
         publicLibraryItems={selectedPublicLibrary}
+        history={selectedHistory}
+        ownTrend={ownTrend}
         trophies={trophies}
         onClose={() => setDetailOpen(false)}
       />
@@ -1,5 +1,8 @@
-import { useState, type FormEvent } from 'react';
-import type { MarketRate, RendererApi, WalletSnapshot } from '@shared/types';
+import { useEffect, useState, type FormEvent } from 'react';
+import type { MarketCalendarOverride, MarketCalendarOverrideInput, MarketPricing, MarketRate, RendererApi, WalletSnapshot } from '@shared/types';
+import { DEFAULT_DYNAMIC_PRICING } from '@shared/dynamicPricing';
+import { WEEKDAY_LABELS, toLocalDateKey } from '@shared/marketSchedule';
+import CurveEditor from './CurveEditor';
 
 interface MarketProps {
   api: RendererApi;
@@ -13,6 +16,25 @@ export default function Market({ api, rates, onChange, wallet }: MarketProps) {
   const [ratePerMin, setRatePerMin] = useState(3);
   const [packMinutes, setPackMinutes] = useState(10);
   const [packPrice, setPackPrice] = useState(30);
+  const [dynamic, setDynamic] = useState(false);
+  const [pricing, setPricing] = useState<Record<string, MarketPricing>>({});
+  const [calendar, setCalendar] = useState<MarketCalendarOverride[]>([]);
+
+  useEffect(() => {
+    void api.market.listCalendar().then(setCalendar);
+  }, [api]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const dynamicDomains = rates.filter((rate) => rate.dynamicPricing?.enabled).map((rate) => rate.domain);
+    void Promise.all(dynamicDomains.map((item) => api.market.pricing(item))).then((results) => {
+      if (cancelled) return;
+      setPricing(Object.fromEntries(results.filter((entry): entry is MarketPricing => Boolean(entry)).map((entry) => [entry.domain, entry])));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [api, rates]);
 
   async function addRate(event: FormEvent) {
     event.preventDefault();
@@ -20,9 +42,10 @@ export default function Market({ api, rates, onChange, wallet }: MarketProps) {
     if (!trimmed) return;
     const existing = rates.find((rate) => rate.domain === trimmed);
     const hourlyModifiers = existing?.hourlyModifiers ?? Array(24).fill(1);
+    const dynamicPricing = { ...(existing?.dynamicPricing ?? DEFAULT_DYNAMIC_PRICING), enabled: dynamic };
     const record: MarketRate = existing
-      ? { ...existing, ratePerMin, hourlyModifiers }
-      : { domain: trimmed, ratePerMin, packs: [], hourlyModifiers };
+      ? { ...existing, ratePerMin, hourlyModifiers, dynamicPricing }
+      : { domain: trimmed, ratePerMin, packs: [], hourlyModifiers, dynamicPricing };
     if (packMinutes > 0 && packPrice > 0) {
       record.packs = [...record.packs.filter((pack) => pack.minutes !== packMinutes), { minutes: packMinutes, price: packPrice }];
     }
@@ -34,6 +57,22 @@ export default function Market({ api, rates, onChange, wallet }: MarketProps) {
     setDomain('');
   }
 
+  async function saveSchedule(rate: MarketRate, schedule: Pick<MarketRate, 'hourlyModifiers' | 'weekdayModifiers'>) {
+    const record: MarketRate = { ...rate, ...schedule };
+    await api.market.upsert(record);
+    onChange(rates.map((item) => (item.domain === record.domain ? record : item)));
+  }
+
+  async function addOverride(override: MarketCalendarOverrideInput) {
+    const created = await api.market.addCalendarOverride(override);
+    setCalendar((current) => [...current, created].sort((a, b) => a.startDate.localeCompare(b.startDate)));
+  }
+
+  async function removeOverride(id: number) {
+    await api.market.removeCalendarOverride(id);
+    setCalendar((current) => current.filter((item) => item.id !== id));
+  }
+
   return (
     <section className="panel">
       <header className="panel-header">
@@ -74,6 +113,10 @@ export default function Market({ api, rates, onChange, wallet }: MarketProps) {
             onChange={(event) => setPackPrice(Number(event.target.value))}
           />
         </label>
+        <label>
+          <input type="checkbox" checked={dynamic} onChange={(event) => setDynamic(event.target.checked)} />
+          Demand pricing
+        </label>
         <button className="primary" type="submit">
           Save rate
         </button>
@@ -86,8 +129,14 @@ export default function Market({ api, rates, onChange, wallet }: MarketProps) {
             <article key={rate.domain} className="card">
               <header>
                 <h2>{rate.domain}</h2>
-                <span className="subtle">{rate.ratePerMin} coins/min</span>
+                <span className="subtle">
+                  {pricing[rate.domain] && pricing[rate.domain].quote.multiplier > 1
+                    ? `${pricing[rate.domain].quote.ratePerMin.toFixed(1)} coins/min now (base ${rate.ratePerMin})`
+                    : `${rate.ratePerMin} coins/min`}
+                </span>
               </header>
+              {pricing[rate.domain] && <PriceCurve pricing={pricing[rate.domain]} />}
+              <ScheduleEditor rate={rate} onSave={(schedule) => saveSchedule(rate, schedule)} />
               <ul className="packs">
                 {rate.packs.map((pack) => (
                   <li key={pack.minutes}>
@@ -105,6 +154,196 @@ export default function Market({ api, rates, onChange, wallet }: MarketProps) {
             </article>
           ))}
       </div>
+
+      <CalendarOverrides
+        overrides={calendar}
+        domains={rates.map((rate) => rate.domain)}
+        onAdd={addOverride}
+        onRemove={removeOverride}
+      />
     </section>
   );
 }
+
+/** Hourly curve editor with optional per-weekday curves. */
+function ScheduleEditor({
+  rate,
+  onSave
+}: {
+  rate: MarketRate;
+  onSave: (schedule: Pick<MarketRate, 'hourlyModifiers' | 'weekdayModifiers'>) => Promise<void>;
+}) {
+  const [open, setOpen] = useState(false);
+  const [hourly, setHourly] = useState(rate.hourlyModifiers);
+  const [weekdays, setWeekdays] = useState<number[][] | null>(rate.weekdayModifiers ?? null);
+  const [day, setDay] = useState(new Date().getDay());
+
+  useEffect(() => {
+    setHourly(rate.hourlyModifiers);
+    setWeekdays(rate.weekdayModifiers ?? null);
+  }, [rate]);
+
+  if (!open) {
+    return (
+      <button type="button" onClick={() => setOpen(true)}>
+        {rate.weekdayModifiers ? 'Edit weekday schedule' : 'Edit schedule'}
+      </button>
+    );
+  }
+
+  const values = weekdays ? weekdays[day] : hourly;
+  const update = (next: number[]) => {
+    if (!weekdays) {
+      setHourly(next);
+      return;
+    }
+    setWeekdays(weekdays.map((row, idx) => (idx === day ? next : row)));
+  };
+
+  return (
+    <div className="market-schedule">
+      <label>
+        <input
+          type="checkbox"
+          checked={Boolean(weekdays)}
+          onChange={(event) => setWeekdays(event.target.checked ? WEEKDAY_LABELS.map(() => [...hourly]) : null)}
+        />
+        Separate curve per weekday
+      </label>
+      {weekdays && (
+        <div className="market-schedule-days">
+          {WEEKDAY_LABELS.map((label, idx) => (
+            <button key={label} type="button" className={idx === day ? 'active' : ''} onClick={() => setDay(idx)}>
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      <CurveEditor values={values} onChange={update} color="var(--accent, #d97706)" />
+      <div className="market-schedule-actions">
+        <button type="button" onClick={() => setOpen(false)}>
+          Close
+        </button>
+        <button
+          type="button"
+          className="primary"
+          onClick={() => void onSave({ hourlyModifiers: hourly, weekdayModifiers: weekdays }).then(() => setOpen(false))}
+        >
+          Save schedule
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Date-range overrides (holidays, vacations, deadline weeks) that replace the usual curve. */
+function CalendarOverrides({
+  overrides,
+  domains,
+  onAdd,
+  onRemove
+}: {
+  overrides: MarketCalendarOverride[];
+  domains: string[];
+  onAdd: (override: MarketCalendarOverrideInput) => Promise<void>;
+  onRemove: (id: number) => Promise<void>;
+}) {
+  const today = toLocalDateKey(new Date());
+  const [label, setLabel] = useState('');
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [domain, setDomain] = useState('');
+  const [modifiers, setModifiers] = useState<number[]>(Array(24).fill(1));
+  const [error, setError] = useState<string | null>(null);
+
+  async function submit(event: FormEvent) {
+    event.preventDefault();
+    if (!label.trim()) return;
+    try {
+      await onAdd({ label: label.trim(), startDate, endDate, domain: domain || null, hourlyModifiers: modifiers });
+      setLabel('');
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  return (
+    <section className="market-calendar">
+      <h2>Calendar overrides</h2>
+      <p className="subtle">On these dates the curve below replaces the hourly and weekday schedule.</p>
+      <ul className="packs">
+        {overrides.map((override) => (
+          <li key={override.id}>
+            <span>
+              {override.label} · {override.startDate}
+              {override.endDate !== override.startDate ? ` → ${override.endDate}` : ''}
+            </span>
+            <span className="subtle">{override.domain ?? 'all domains'}</span>
+            <button type="button" onClick={() => void onRemove(override.id)}>
+              Remove
+            </button>
+          </li>
+        ))}
+        {overrides.length === 0 && <li className="subtle">No calendar overrides.</li>}
+      </ul>
+      <form className="market-form" onSubmit={(event) => void submit(event)}>
+        <input placeholder="label (e.g. Exam week)" value={label} onChange={(event) => setLabel(event.target.value)} />
+        <label>
+          From
+          <input type="date" value={startDate} onChange={(event) => setStartDate(event.target.value)} />
+        </label>
+        <label>
+          To
+          <input type="date" value={endDate} onChange={(event) => setEndDate(event.target.value)} />
+        </label>
+        <label>
+          Domain
+          <select value={domain} onChange={(event) => setDomain(event.target.value)}>
+            <option value="">All domains</option>
+            {domains.map((item) => (
+              <option key={item} value={item}>
+                {item}
+              </option>
+            ))}
+          </select>
+        </label>
+        <CurveEditor values={modifiers} onChange={setModifiers} color="var(--accent, #d97706)" />
+        <button className="primary" type="submit">
+          Add override
+        </button>
+        {error && <p className="error">{error}</p>}
+      </form>
+    </section>
+  );
+}
+
+/** Projected rate over the next 48h if nothing more is bought. */
+function PriceCurve({ pricing }: { pricing: MarketPricing }) {
+  const { curve, quote } = pricing;
+  if (curve.length < 2) return null;
+  const width = 240;
+  const height = 60;
+  const max = Math.max(quote.baseRatePerMin * 1.1, ...curve.map((point) => point.ratePerMin));
+  const lastHour = curve[curve.length - 1].offsetHours;
+  const points = curve
+    .map((point) => {
+      const x = (point.offsetHours / lastHour) * width;
+      const y = height - (point.ratePerMin / max) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+  const baseY = height - (quote.baseRatePerMin / max) * height;
+
+  return (
+    <figure className="price-curve">
+      <svg viewBox={`0 0 ${width} ${height}`} width="100%" height={height} preserveAspectRatio="none">
+        <line x1={0} x2={width} y1={baseY} y2={baseY} stroke="currentColor" strokeOpacity={0.25} strokeDasharray="4 4" />
+        <polyline points={points} fill="none" stroke="var(--accent, currentColor)" strokeWidth={2} />
+      </svg>
+      <figcaption className="subtle">
+        {Math.round(quote.dayMinutes)} min bought today, {Math.round(quote.weekMinutes)} this week · back to base as you abstain
+      </figcaption>
+    </figure>
+  );
+}
@@ -2,10 +2,11 @@ import Analytics from './Analytics';
 import Friends from './Friends';
 import Games from './Games';
 import Profile from './Profile';
+import SavingsGoals from './SavingsGoals';
 import Settings from './Settings';
 import type { RendererApi, WalletSnapshot } from '@shared/types';
 
-type MoreView = 'analytics' | 'settings' | 'friends' | 'profile' | 'games';
+type MoreView = 'analytics' | 'wallet' | 'settings' | 'friends' | 'profile' | 'games';
 
 type Props = {
   section: MoreView;
@@ -23,6 +24,12 @@ const MORE_ITEMS: Array<{ id: MoreView; label: string; title: string; summary: s
     title: 'Analytics',
     summary: 'Review trends, risk windows, and supporting signals without crowding the main workspace.'
   },
+  {
+    id: 'wallet',
+    label: 'Wallet',
+    title: 'Wallet',
+    summary: 'Set coins aside for things worth saving up for, out of reach of the paywall.'
+  },
   {
     id: 'settings',
     label: 'Settings',
@@ -65,6 +72,7 @@ export default function MorePanel({ section, onSectionChange, api, wallet, theme
         <div className="more-panel-meta">
           <span className="pill ghost">Section {activeIndex} of {MORE_ITEMS.length}</span>
           <span className="pill ghost">{wallet.balance} f-coins</span>
+          {(wallet.escrowed ?? 0) > 0 && <span className="pill ghost">{wallet.escrowed} saved</span>}
           <span className="pill ghost">Theme {theme}</span>
         </div>
       </header>
@@ -92,6 +100,7 @@ export default function MorePanel({ section, onSectionChange, api, wallet, theme
       </div>
 
       {section === 'analytics' && <Analytics api={api} />}
+      {section === 'wallet' && <SavingsGoals api={api} wallet={wallet} />}
       {section === 'settings' && (
         <Settings
           api={api}
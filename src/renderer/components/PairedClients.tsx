@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import type { PairedClient, PairingCode, PairingScope, RendererApi } from '@shared/types';
+
+interface PairedClientsProps {
+  api: RendererApi;
+}
+
+const SCOPE_LABELS: Record<PairingScope, string> = {
+  read: 'Read',
+  write: 'Write',
+  events: 'Live events'
+};
+
+export default function PairedClients({ api }: PairedClientsProps) {
+  const [clients, setClients] = useState<PairedClient[]>([]);
+  const [code, setCode] = useState<PairingCode | null>(null);
+  const [readOnly, setReadOnly] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setClients(await api.pairing.clients());
+  };
+
+  useEffect(() => {
+    void refresh();
+  }, [api]);
+
+  // The code is single-use, so refresh the list while it is on screen to pick up the new client.
+  useEffect(() => {
+    if (!code) return undefined;
+    const timer = window.setInterval(() => {
+      if (Date.parse(code.expiresAt) <= Date.now()) setCode(null);
+      void refresh();
+    }, 3000);
+    return () => window.clearInterval(timer);
+  }, [code]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+    await refresh();
+  };
+
+  const active = clients.filter((client) => !client.revokedAt);
+  const revoked = clients.filter((client) => client.revokedAt);
+
+  return (
+    <div className="card settings-section">
+      <div className="card-header-row">
+        <div>
+          <h2>Paired clients</h2>
+          <p className="subtle" style={{ margin: 0 }}>
+            The browser extension and web homepage need a pairing code before they can reach the local API.
+          </p>
+        </div>
+        <div className="settings-row">
+          <label>
+            <input type="checkbox" checked={readOnly} onChange={(event) => setReadOnly(event.target.checked)} />
+            Read-only
+          </label>
+          <button
+            type="button"
+            className="primary"
+            onClick={() =>
+              void run(async () => setCode(await api.pairing.createCode(readOnly ? ['read'] : undefined)))
+            }
+          >
+            New pairing code
+          </button>
+        </div>
+      </div>
+
+      {code && (
+        <p>
+          Enter <strong className="pairing-code">{code.code}</strong> in the client before{' '}
+          {new Date(code.expiresAt).toLocaleTimeString()} ({code.scopes.map((scope) => SCOPE_LABELS[scope]).join(', ')}).
+        </p>
+      )}
+      {error && <p className="error">{error}</p>}
+
+      <ul className="paired-client-list">
+        {active.map((client) => (
+          <li key={client.id}>
+            <strong>{client.name}</strong>
+            <span className="subtle">
+              {client.scopes.map((scope) => SCOPE_LABELS[scope]).join(', ')} · paired {new Date(client.createdAt).toLocaleDateString()}
+              {client.lastSeenAt ? ` · seen ${new Date(client.lastSeenAt).toLocaleString()}` : ''}
+            </span>
+            <button type="button" className="ghost" onClick={() => void run(() => api.pairing.revoke(client.id))}>
+              Revoke
+            </button>
+          </li>
+        ))}
+        {active.length === 0 && <li className="subtle">No paired clients.</li>}
+      </ul>
+
+      {revoked.length > 0 && (
+        <details>
+          <summary>Revoked ({revoked.length})</summary>
+          <ul className="paired-client-list">
+            {revoked.map((client) => (
+              <li key={client.id} className="subtle">
+                {client.name} · revoked {new Date(client.revokedAt ?? '').toLocaleString()}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
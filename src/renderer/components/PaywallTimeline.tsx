@@ -0,0 +1,140 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { PaywallDiagnosticEvent, RendererApi } from '@shared/types';
+import { buildPaywallTimeline, type PaywallTimelineEntry } from '@shared/paywallDiagnostics';
+
+interface PaywallTimelineProps {
+  api: RendererApi;
+}
+
+const RANGES = [
+  { id: '1h', label: 'Last hour', ms: 60 * 60 * 1000 },
+  { id: '24h', label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  { id: '7d', label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { id: '14d', label: 'Last 14 days', ms: 14 * 24 * 60 * 60 * 1000 }
+] as const;
+
+type RangeId = typeof RANGES[number]['id'];
+
+const EVENT_LABELS: Record<PaywallDiagnosticEvent['event'], string> = {
+  'session-started': 'Started',
+  'session-ended': 'Ended',
+  'session-paused': 'Paused',
+  'session-resumed': 'Resumed',
+  'session-tick': 'Ticked',
+  'session-ignored-inactive': 'Held'
+};
+
+function formatRemaining(seconds: number | null) {
+  if (seconds === null) return '∞';
+  const whole = Math.max(0, Math.round(seconds));
+  return whole >= 60 ? `${Math.floor(whole / 60)}m ${whole % 60}s` : `${whole}s`;
+}
+
+function describeEntry(entry: PaywallTimelineEntry) {
+  const parts = [entry.count > 1 ? `${EVENT_LABELS[entry.event]} ×${entry.count}` : EVENT_LABELS[entry.event]];
+  if (entry.mode) parts.push(entry.mode);
+  if (entry.reason) parts.push(entry.reason);
+  if (entry.remainingFrom !== null || entry.remainingTo !== null) {
+    parts.push(
+      entry.remainingFrom === entry.remainingTo
+        ? `${formatRemaining(entry.remainingTo)} left`
+        : `${formatRemaining(entry.remainingFrom)} → ${formatRemaining(entry.remainingTo)} left`
+    );
+  }
+  return parts.join(' · ');
+}
+
+function formatSpan(entry: PaywallTimelineEntry) {
+  const first = new Date(entry.firstTs).toLocaleString();
+  return entry.lastTs === entry.firstTs ? first : `${first} – ${new Date(entry.lastTs).toLocaleTimeString()}`;
+}
+
+export default function PaywallTimeline({ api }: PaywallTimelineProps) {
+  const [events, setEvents] = useState<PaywallDiagnosticEvent[]>([]);
+  const [domain, setDomain] = useState('');
+  const [range, setRange] = useState<RangeId>('24h');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = () => {
+    const span = RANGES.find((option) => option.id === range)?.ms ?? RANGES[1].ms;
+    return { domain: domain.trim() || undefined, since: Date.now() - span, limit: 5000 };
+  };
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      setEvents(await api.paywall.diagnostics(query()));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void refresh();
+  }, [api, range]);
+
+  const lanes = useMemo(() => buildPaywallTimeline(events), [events]);
+
+  function exportJson() {
+    const payload = { exportedAt: new Date().toISOString(), query: query(), events };
+    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `paywall-diagnostics-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <div className="card settings-section paywall-timeline">
+      <div className="settings-section-header">
+        <h3>Session timeline</h3>
+        <p className="subtle">Every paywall session start, pause, resume and end, with the reason the desktop recorded.</p>
+      </div>
+      <form
+        className="settings-row"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void refresh();
+        }}
+      >
+        <input placeholder="All domains" value={domain} onChange={(event) => setDomain(event.target.value)} />
+        <select value={range} onChange={(event) => setRange(event.target.value as RangeId)}>
+          {RANGES.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button type="submit" className="ghost" disabled={loading}>
+          {loading ? 'Loading…' : 'Refresh'}
+        </button>
+        <button type="button" className="ghost" onClick={exportJson} disabled={events.length === 0}>
+          Export JSON
+        </button>
+      </form>
+      {error && <p className="error">{error}</p>}
+      {lanes.length === 0 && !loading && <p className="subtle">No paywall activity in this range.</p>}
+      {lanes.map((lane) => (
+        <details key={lane.domain} className="settings-details" open={lanes.length === 1}>
+          <summary>
+            {lane.domain} <span className="subtle">· last event {new Date(lane.lastTs).toLocaleString()}</span>
+          </summary>
+          <ol className="paywall-timeline-list">
+            {[...lane.entries].reverse().map((entry) => (
+              <li key={`${entry.event}-${entry.firstTs}`} className={`paywall-timeline-entry ${entry.event}`}>
+                <span className="subtle">{formatSpan(entry)}</span>
+                <span>{describeEntry(entry)}</span>
+              </li>
+            ))}
+          </ol>
+        </details>
+      ))}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useEffect, useMemo, useState } from 'react';
 import type { PomodoroMode, PomodoroSession, RendererApi } from '@shared/types';
+import { POMODORO_PHASE_LABELS, describePomodoroPhase, pomodoroPhaseRemainingMs } from '@shared/pomodoroPlan';
 
 type Props = {
   api: RendererApi;
@@ -47,6 +48,9 @@ export default function PomodoroPanel({ api }: Props) {
   const [mode, setMode] = useState<PomodoroMode>('strict');
   const [duration, setDuration] = useState(25);
   const [breakDuration, setBreakDuration] = useState(5);
+  const [cycles, setCycles] = useState(1);
+  const [longBreakDuration, setLongBreakDuration] = useState(20);
+  const [breaksUseAllowlist, setBreaksUseAllowlist] = useState(false);
   const [temporaryUnlock, setTemporaryUnlock] = useState(5);
   const [allowlist, setAllowlist] = useState<AllowlistEntry[]>([]);
   const [suggested, setSuggested] = useState<AllowlistEntry[]>([]);
@@ -77,6 +81,10 @@ export default function PomodoroPanel({ api }: Props) {
     });
     const unsubPause = api.events.on<PomodoroSession>('pomodoro:pause', (payload) => setSession(payload));
     const unsubResume = api.events.on<PomodoroSession>('pomodoro:resume', (payload) => setSession(payload));
+    const unsubPhase = api.events.on<PomodoroSession>('pomodoro:phase', (payload) => {
+      setSession(payload);
+      setRemainingMs(payload.remainingMs);
+    });
 
     return () => {
       unsubTick();
@@ -84,6 +92,7 @@ export default function PomodoroPanel({ api }: Props) {
       unsubStop();
       unsubPause();
       unsubResume();
+      unsubPhase();
     };
   }, [api]);
 
@@ -128,12 +137,13 @@ export default function PomodoroPanel({ api }: Props) {
   }, [api.settings]);
 
   const formattedTime = useMemo(() => {
-    const ms = session ? remainingMs : duration * 60 * 1000;
+    const ms = session ? (session.state === 'break' ? pomodoroPhaseRemainingMs(session) : remainingMs) : duration * 60 * 1000;
     const totalSec = Math.max(0, Math.round(ms / 1000));
     const minutes = Math.floor(totalSec / 60);
     const seconds = totalSec % 60;
     return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
   }, [remainingMs, duration, session]);
+  const phaseLabel = describePomodoroPhase(session?.plan);
 
   async function start() {
     try {
@@ -143,12 +153,22 @@ export default function PomodoroPanel({ api }: Props) {
         kind: entry.kind,
         value: entry.value
       }));
+      const breakAllowlist = breaksUseAllowlist ? allowlistPayload : null;
       const config = {
         durationSec: duration * 60,
         breakDurationSec: breakDuration * 60,
         mode,
         allowlist: allowlistPayload,
-        temporaryUnlockSec: temporaryUnlock * 60
+        temporaryUnlockSec: temporaryUnlock * 60,
+        plan: cycles > 1
+          ? {
+            cycles,
+            shortBreakSec: breakDuration * 60,
+            longBreakSec: longBreakDuration * 60,
+            shortBreakAllowlist: breakAllowlist,
+            longBreakAllowlist: breakAllowlist
+          }
+          : null
       };
       const next = await api.pomodoro.start(config);
       setSession(next);
@@ -209,6 +229,17 @@ export default function PomodoroPanel({ api }: Props) {
     }
   }
 
+  async function skipPhase() {
+    setLoading(true);
+    try {
+      setSession(await api.pomodoro.skipPhase());
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
   async function triggerBreak() {
     setLoading(true);
     try {
@@ -235,8 +266,20 @@ export default function PomodoroPanel({ api }: Props) {
         <div className="pomodoro-timer">
           <div className="pomodoro-face">
             <span className="pomodoro-time">{formattedTime}</span>
-            <span className="pomodoro-label">{session ? session.state : 'idle'}</span>
+            <span className="pomodoro-label">{session ? phaseLabel ?? session.state : 'idle'}</span>
           </div>
+          {session?.plan && (
+            <div className="pomodoro-phases">
+              {session.plan.phases.map((phase) => (
+                <span
+                  key={phase.index}
+                  className={`${phase.kind} ${phase.index < session.plan!.currentIndex ? 'done' : phase.index === session.plan!.currentIndex ? 'current' : ''}`}
+                  style={{ flexGrow: phase.durationSec }}
+                  title={`${POMODORO_PHASE_LABELS[phase.kind]} · ${Math.round(phase.durationSec / 60)}m`}
+                />
+              ))}
+            </div>
+          )}
           <div className="pomodoro-controls">
             {session ? (
               <>
@@ -246,7 +289,13 @@ export default function PomodoroPanel({ api }: Props) {
                 ) : (
                   <button onClick={pause} disabled={loading} className="ghost">Pause</button>
                 )}
-                <button onClick={triggerBreak} disabled={loading} className="ghost">Start break</button>
+                {session.plan ? (
+                  <button onClick={() => void skipPhase()} disabled={loading} className="ghost">
+                    {session.state === 'break' ? 'Skip break' : 'Skip to next phase'}
+                  </button>
+                ) : (
+                  <button onClick={triggerBreak} disabled={loading} className="ghost">Start break</button>
+                )}
               </>
             ) : (
               <button onClick={start} disabled={loading} className="primary">Start focus</button>
@@ -263,6 +312,25 @@ export default function PomodoroPanel({ api }: Props) {
             <span>Break length (minutes)</span>
             <input type="number" min={1} max={60} value={breakDuration} onChange={(e) => setBreakDuration(Number(e.target.value) || 0)} />
           </label>
+          <label className="field">
+            <span>Focus cycles</span>
+            <input type="number" min={1} max={12} value={cycles} onChange={(e) => setCycles(Math.max(1, Math.min(12, Number(e.target.value) || 1)))} />
+          </label>
+          {cycles > 1 && (
+            <>
+              <label className="field">
+                <span>Long break (minutes, 0 to skip)</span>
+                <input type="number" min={0} max={90} value={longBreakDuration} onChange={(e) => setLongBreakDuration(Number(e.target.value) || 0)} />
+              </label>
+              <label className="field">
+                <span>During breaks</span>
+                <div className="segmented">
+                  <button className={!breaksUseAllowlist ? 'active' : ''} onClick={() => setBreaksUseAllowlist(false)}>Anything goes</button>
+                  <button className={breaksUseAllowlist ? 'active' : ''} onClick={() => setBreaksUseAllowlist(true)}>Keep allowlist</button>
+                </div>
+              </label>
+            </>
+          )}
           <label className="field">
             <span>Mode</span>
             <div className="segmented">
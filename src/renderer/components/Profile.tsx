@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useState } from 'react';
 import type { RendererApi, TrophyProfileSummary, TrophyStatus } from '@shared/types';
 import { TROPHY_CATEGORY_LABELS } from '@shared/trophies';
+import CustomTrophies from './CustomTrophies';
 
 type Props = {
   api: RendererApi;
@@ -281,6 +282,8 @@ export default function Profile({ api }: Props) {
           </div>
         ))}
       </div>
+
+      <CustomTrophies api={api} onChange={() => void refresh()} />
     </section>
   );
 }
@@ -0,0 +1,141 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import type { RendererApi, SavingsGoal, WalletSnapshot } from '@shared/types';
+
+interface SavingsGoalsProps {
+  api: RendererApi;
+  wallet: WalletSnapshot;
+}
+
+export default function SavingsGoals({ api, wallet }: SavingsGoalsProps) {
+  const [goals, setGoals] = useState<SavingsGoal[]>([]);
+  const [snapshot, setSnapshot] = useState<WalletSnapshot>(wallet);
+  const [name, setName] = useState('');
+  const [target, setTarget] = useState(600);
+  const [releaseDate, setReleaseDate] = useState('');
+  const [deposits, setDeposits] = useState<Record<number, number>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    const [items, next] = await Promise.all([api.wallet.goals(), api.wallet.get()]);
+    setGoals(items);
+    setSnapshot(next);
+  };
+
+  useEffect(() => {
+    void refresh();
+  }, [api, wallet.balance]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+    await refresh();
+  };
+
+  function createGoal(event: FormEvent) {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed || target <= 0) return;
+    const releaseAt = releaseDate ? new Date(`${releaseDate}T00:00:00`).toISOString() : null;
+    void run(async () => {
+      await api.wallet.createGoal({ name: trimmed, targetCoins: target, releaseAt });
+      setName('');
+      setReleaseDate('');
+    });
+  }
+
+  const escrowed = snapshot.escrowed ?? 0;
+  const spendable = snapshot.spendable ?? snapshot.balance;
+  const active = goals.filter((goal) => goal.status === 'active');
+  const released = goals.filter((goal) => goal.status === 'released');
+
+  return (
+    <section className="panel savings-goals">
+      <header className="panel-header">
+        <div>
+          <h2>Savings goals</h2>
+          <p className="subtle">Escrowed coins stay yours but cannot be spent on paywalls until the goal is released.</p>
+        </div>
+        <div className="wallet-tile">
+          <span>Spendable</span>
+          <strong>{spendable}</strong>
+          {escrowed > 0 && <span className="subtle">{escrowed} saved</span>}
+        </div>
+      </header>
+
+      <form className="budget-form" onSubmit={createGoal}>
+        <input placeholder="Weekend movie night" value={name} onChange={(event) => setName(event.target.value)} />
+        <label>
+          Target
+          <input type="number" min={1} value={target} onChange={(event) => setTarget(Number(event.target.value))} />
+        </label>
+        <label>
+          Release on
+          <input type="date" value={releaseDate} onChange={(event) => setReleaseDate(event.target.value)} />
+        </label>
+        <button className="primary" type="submit">
+          Add goal
+        </button>
+      </form>
+      {error && <p className="error">{error}</p>}
+
+      <ul className="savings-goal-list">
+        {active.map((goal) => {
+          const amount = deposits[goal.id] ?? Math.min(50, goal.targetCoins - goal.escrowedCoins);
+          const percent = Math.round((goal.escrowedCoins / goal.targetCoins) * 100);
+          return (
+            <li key={goal.id} className="card">
+              <header>
+                <strong>{goal.name}</strong>
+                <span className="subtle">
+                  {goal.escrowedCoins}/{goal.targetCoins} coins
+                  {goal.releaseAt ? ` · releases ${new Date(goal.releaseAt).toLocaleDateString()}` : ''}
+                </span>
+              </header>
+              <progress max={100} value={percent} />
+              <div className="savings-goal-actions">
+                <input
+                  type="number"
+                  min={1}
+                  value={amount}
+                  onChange={(event) => setDeposits((current) => ({ ...current, [goal.id]: Number(event.target.value) }))}
+                />
+                <button
+                  type="button"
+                  disabled={amount <= 0 || amount > spendable}
+                  onClick={() => void run(() => api.wallet.escrow(goal.id, amount))}
+                >
+                  Escrow
+                </button>
+                <button type="button" onClick={() => void run(() => api.wallet.releaseGoal(goal.id))}>
+                  Release now
+                </button>
+              </div>
+            </li>
+          );
+        })}
+        {active.length === 0 && <li className="subtle">No active goals.</li>}
+      </ul>
+
+      {released.length > 0 && (
+        <details>
+          <summary>Released goals ({released.length})</summary>
+          <ul className="savings-goal-list">
+            {released.map((goal) => (
+              <li key={goal.id}>
+                <span>{goal.name}</span>
+                <span className="subtle">
+                  {goal.escrowedCoins} coins · {goal.releaseReason}
+                  {goal.releasedAt ? ` · ${new Date(goal.releasedAt).toLocaleDateString()}` : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </section>
+  );
+}
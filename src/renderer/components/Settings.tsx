@@ -1,11 +1,14 @@
 import { useEffect, useMemo, useState, type FormEvent } from 'react';
 import type {
   AppTheme,
+  AnkiScheduler,
   AnkiStatusSnapshot,
   CameraPhoto,
+  CustomEmergencyPolicy,
   EmergencyPolicyId,
   GuardrailColorFilter,
   JournalConfig,
+  PaywallDowntimePolicy,
   PeekConfig,
   RendererApi,
   SyncDevice,
@@ -14,7 +17,11 @@ import type {
   ZoteroIntegrationConfig,
   ZoteroIntegrationMode
 } from '@shared/types';
+import ActivityRules from './ActivityRules';
 import Domains from './Domains';
+import EmergencyPolicies from './EmergencyPolicies';
+import PairedClients from './PairedClients';
+import PaywallTimeline from './PaywallTimeline';
 import EconomyTuner from './EconomyTuner';
 
 interface SettingsProps {
@@ -27,12 +34,12 @@ const SETTINGS_PANES = [
   {
     id: 'sync',
     label: 'Sync & Profile',
-    description: 'Devices, cloud sync, and identity.'
+    description: 'Devices, cloud sync, paired clients, and identity.'
   },
   {
     id: 'activity',
     label: 'Activity',
-    description: 'Idle thresholds and continuity rules.'
+    description: 'Idle thresholds, continuity, and classification rules.'
   },
   {
     id: 'paywall',
@@ -72,7 +79,9 @@ export default function Settings({ api, theme, onThemeChange }: SettingsProps) {
   const [idleThreshold, setIdleThreshold] = useState(15);
   const [frivolousIdleThreshold, setFrivolousIdleThreshold] = useState(15);
   const [emergencyPolicy, setEmergencyPolicy] = useState<EmergencyPolicyId>('balanced');
+  const [customEmergencyPolicies, setCustomEmergencyPolicies] = useState<CustomEmergencyPolicy[]>([]);
   const [emergencyReminderInterval, setEmergencyReminderInterval] = useState(300);
+  const [paywallDowntimePolicy, setPaywallDowntimePolicy] = useState<PaywallDowntimePolicy>('freeze');
   const [journalUrl, setJournalUrl] = useState('');
   const [journalMinutes, setJournalMinutes] = useState(10);
   const [peekEnabled, setPeekEnabled] = useState(true);
@@ -96,6 +105,7 @@ export default function Settings({ api, theme, onThemeChange }: SettingsProps) {
   const [ankiLoading, setAnkiLoading] = useState(false);
   const [ankiBusy, setAnkiBusy] = useState(false);
   const [ankiImportPath, setAnkiImportPath] = useState('');
+  const [ankiMergeImport, setAnkiMergeImport] = useState(true);
   const [ankiMessage, setAnkiMessage] = useState<string | null>(null);
   const [ankiError, setAnkiError] = useState<string | null>(null);
   const [zoteroCollections, setZoteroCollections] = useState<ZoteroCollection[]>([]);
@@ -121,6 +131,7 @@ export default function Settings({ api, theme, onThemeChange }: SettingsProps) {
     api.settings.frivolousIdleThreshold().then(setFrivolousIdleThreshold);
     api.settings.emergencyPolicy().then(setEmergencyPolicy);
     api.settings.emergencyReminderInterval().then(setEmergencyReminderInterval);
+    api.settings.paywallDowntimePolicy().then(setPaywallDowntimePolicy).catch(() => { });
     api.settings.journalConfig().then((cfg: JournalConfig) => {
       setJournalUrl(cfg.url ?? '');
       setJournalMinutes(cfg.minutes ?? 10);
@@ -269,11 +280,14 @@ export default function Settings({ api, theme, onThemeChange }: SettingsProps) {
     setAnkiError(null);
     setAnkiMessage(null);
     try {
-      const response = await api.anki.importDeck(path);
+      const response = await api.anki.importDeck(path, ankiMergeImport ? 'merge' : 'replace');
       setAnkiStatus(response.status);
       setAnkiImportPath('');
+      const reviews = response.result.reviewsImported
+        ? ` and ${response.result.reviewsImported} review${response.result.reviewsImported === 1 ? '' : 's'}`
+        : '';
       setAnkiMessage(
-        `Imported ${response.result.cardsImported + response.result.cardsUpdated} cards across ${response.result.decksImported} deck${response.result.decksImported === 1 ? '' : 's'}.`
+        `Imported ${response.result.cardsImported + response.result.cardsUpdated} cards${reviews} across ${response.result.decksImported} deck${response.result.decksImported === 1 ? '' : 's'}.`
       );
     } catch (err) {
       setAnkiError((err as Error).message || 'Deck import failed.');
@@ -282,6 +296,54 @@ export default function Settings({ api, theme, onThemeChange }: SettingsProps) {
     }
   }
 
+  async function handleExportAnkiDeck(deckId: number) {
+    if (ankiBusy) return;
+    setAnkiBusy(true);
+    setAnkiError(null);
+    setAnkiMessage(null);
+    try {
+      const response = await api.anki.exportDeck(deckId);
+      if (response.result) {
+        setAnkiMessage(
+          `Exported ${response.result.cardsExported} cards and ${response.result.reviewsExported} reviews to ${response.result.packagePath}.`
+        );
+      }
+    } catch (err) {
+      setAnkiError((err as Error).message || 'Deck export failed.');
+    } finally {
+      setAnkiBusy(false);
+    }
+  }
+
+  async function handleAnkiDeckScheduler(deckId: number, payload: { scheduler?: AnkiScheduler; desiredRetention?: number }) {
+    setAnkiError(null);
+    setAnkiMessage(null);
+    try {
+      await api.anki.setDeckScheduler(deckId, payload);
+      await refreshAnkiStatus(false);
+    } catch (err) {
+      setAnkiError((err as Error).message || 'Failed to update deck scheduler.');
+    }
+  }
+
+  async function handleOptimizeFsrs(deckId: number) {
+    if (ankiBusy) return;
+    setAnkiBusy(true);
+    setAnkiError(null);
+    setAnkiMessage(null);
+    try {
+      const result = await api.anki.optimizeFsrs(deckId);
+      await refreshAnkiStatus(false);
+      setAnkiMessage(
+        `Fitted FSRS to ${result.reviewsUsed} reviews (log loss ${result.logLossBefore.toFixed(3)} → ${result.logLossAfter.toFixed(3)}).`
+      );
+    } catch (err) {
+      setAnkiError((err as Error).message || 'FSRS optimization failed.');
+    } finally {
+      setAnkiBusy(false);
+    }
+  }
+
   async function save(event?: FormEvent) {
     event?.preventDefault();
     setSaving(true);
@@ -298,6 +360,7 @@ export default function Settings({ api, theme, onThemeChange }: SettingsProps) {
       setExcludedKeywordsText(keywords.join('\n'));
       await api.settings.updateEmergencyPolicy(emergencyPolicy);
       await api.settings.updateEmergencyReminderInterval(emergencyReminderInterval);
+      await api.settings.updatePaywallDowntimePolicy(paywallDowntimePolicy);
       await api.settings.updateJournalConfig({ url: journalUrl.trim() ? journalUrl.trim() : null, minutes: journalMinutes });
       await api.settings.updatePeekConfig({ enabled: peekEnabled, allowOnNewPages: peekAllowNewPages });
       await api.settings.updateContinuityWindowSeconds(continuityWindowSeconds);
@@ -545,258 +608,290 @@ export default function Settings({ api, theme, onThemeChange }: SettingsProps) {
                   </div>
                 )}
               </div>
+              <PairedClients api={api} />
             </div>
           )}
 
           {activePane === 'activity' && (
-            <form className="settings-pane-form" onSubmit={save}>
-              <div className="card settings-section">
-                <div className="settings-section-header">
-                  <h3>Activity detection</h3>
-                  <p className="subtle">Tune idle detection.</p>
-                </div>
-                <div className="settings-row">
-                  <label>
-                    Idle threshold (seconds)
-                    <input
-                      type="number"
-                      min="5"
-                      max="300"
-                      value={idleThreshold}
-                      onChange={(e) => setIdleThreshold(Number(e.target.value))}
-                    />
-                  </label>
-                  <label>
-                    Frivolous idle (seconds)
-                    <input
-                      type="number"
-                      min="5"
-                      max="300"
-                      value={frivolousIdleThreshold}
-                      onChange={(e) => setFrivolousIdleThreshold(Number(e.target.value))}
-                    />
-                  </label>
+            <>
+              <form className="settings-pane-form" onSubmit={save}>
+                <div className="card settings-section">
+                  <div className="settings-section-header">
+                    <h3>Activity detection</h3>
+                    <p className="subtle">Tune idle detection.</p>
+                  </div>
+                  <div className="settings-row">
+                    <label>
+                      Idle threshold (seconds)
+                      <input
+                        type="number"
+                        min="5"
+                        max="300"
+                        value={idleThreshold}
+                        onChange={(e) => setIdleThreshold(Number(e.target.value))}
+                      />
+                    </label>
+                    <label>
+                      Frivolous idle (seconds)
+                      <input
+                        type="number"
+                        min="5"
+                        max="300"
+                        value={frivolousIdleThreshold}
+                        onChange={(e) => setFrivolousIdleThreshold(Number(e.target.value))}
+                      />
+                    </label>
+                    <label>
+                      Continuity window (seconds)
+                      <input
+                        type="number"
+                        min="0"
+                        max="900"
+                        value={continuityWindowSeconds}
+                        onChange={(e) => setContinuityWindowSeconds(Number(e.target.value))}
+                      />
+                    </label>
+                  </div>
+                  <div className="settings-row">
+                    <label>
+                      Daily productivity goal (hours)
+                      <input
+                        type="number"
+                        min="0.5"
+                        max="12"
+                        step="0.1"
+                        value={productivityGoalHours}
+                        onChange={(e) => setProductivityGoalHours(Number(e.target.value))}
+                      />
+                    </label>
+                  </div>
                   <label>
-                    Continuity window (seconds)
-                    <input
-                      type="number"
-                      min="0"
-                      max="900"
-                      value={continuityWindowSeconds}
-                      onChange={(e) => setContinuityWindowSeconds(Number(e.target.value))}
+                    Keywords to exclude
+                    <textarea
+                      rows={3}
+                      value={excludedKeywordsText}
+                      onChange={(e) => setExcludedKeywordsText(e.target.value)}
+                      placeholder="One keyword per line"
                     />
                   </label>
+                  <p className="subtle" style={{ margin: 0 }}>Lower values mark passive browsing as idle sooner.</p>
+                  <p className="subtle" style={{ margin: 0 }}>Excluded keywords stay neutral and are hidden from stream trackers.</p>
+                  <p className="subtle" style={{ margin: 0 }}>Continuity keeps short research hops in the same productive run.</p>
+                  <p className="subtle" style={{ margin: 0 }}>Daily productivity goal powers the dashboard ring.</p>
                 </div>
-                <div className="settings-row">
-                  <label>
-                    Daily productivity goal (hours)
-                    <input
-                      type="number"
-                      min="0.5"
-                      max="12"
-                      step="0.1"
-                      value={productivityGoalHours}
-                      onChange={(e) => setProductivityGoalHours(Number(e.target.value))}
-                    />
-                  </label>
+                <div className="settings-actions">
+                  <button className="primary" type="submit" disabled={saving}>
+                    {saving ? 'Saving…' : saved ? 'Saved!' : 'Save changes'}
+                  </button>
                 </div>
-                <label>
-                  Keywords to exclude
-                  <textarea
-                    rows={3}
-                    value={excludedKeywordsText}
-                    onChange={(e) => setExcludedKeywordsText(e.target.value)}
-                    placeholder="One keyword per line"
-                  />
-                </label>
-                <p className="subtle" style={{ margin: 0 }}>Lower values mark passive browsing as idle sooner.</p>
-                <p className="subtle" style={{ margin: 0 }}>Excluded keywords stay neutral and are hidden from stream trackers.</p>
-                <p className="subtle" style={{ margin: 0 }}>Continuity keeps short research hops in the same productive run.</p>
-                <p className="subtle" style={{ margin: 0 }}>Daily productivity goal powers the dashboard ring.</p>
-              </div>
-              <div className="settings-actions">
-                <button className="primary" type="submit" disabled={saving}>
-                  {saving ? 'Saving…' : saved ? 'Saved!' : 'Save changes'}
-                </button>
-              </div>
-            </form>
+              </form>
+              <ActivityRules api={api} />
+            </>
           )}
 
           {activePane === 'paywall' && (
-            <form className="settings-pane-form" onSubmit={save}>
-              <div className="card settings-section">
-                <div className="settings-section-header">
-                  <h3>Paywall controls</h3>
-                  <p className="subtle">Emergency + peek behavior.</p>
-                </div>
-                <div className="settings-row">
-                  <label>
-                    Emergency policy
-                    <select value={emergencyPolicy} onChange={(e) => setEmergencyPolicy(e.target.value as EmergencyPolicyId)}>
-                      <option value="off">Off</option>
-                      <option value="gentle">Gentle</option>
-                      <option value="balanced">Balanced</option>
-                      <option value="strict">Strict</option>
-                    </select>
-                  </label>
-                  <label>
-                    Reminder interval (seconds)
-                    <input
-                      type="number"
-                      min="30"
-                      max="3600"
-                      value={emergencyReminderInterval}
-                      onChange={(e) => setEmergencyReminderInterval(Number(e.target.value))}
-                    />
-                  </label>
-                </div>
-                <details className="settings-details">
-                  <summary>Policy details</summary>
-                  <div className="subtle">
-                    <div><strong>Off</strong>: no emergency access.</div>
-                    <div><strong>Gentle</strong>: 5m, URL-locked, unlimited/day.</div>
-                    <div><strong>Balanced</strong>: 3m, 2/day, 30m cooldown.</div>
-                    <div><strong>Strict</strong>: 2m, 1/day, 60m cooldown.</div>
+            <>
+              <form className="settings-pane-form" onSubmit={save}>
+                <div className="card settings-section">
+                  <div className="settings-section-header">
+                    <h3>Paywall controls</h3>
+                    <p className="subtle">Emergency + peek behavior.</p>
+                  </div>
+                  <div className="settings-row">
+                    <label>
+                      Emergency policy
+                      <select value={emergencyPolicy} onChange={(e) => setEmergencyPolicy(e.target.value as EmergencyPolicyId)}>
+                        <option value="off">Off</option>
+                        <option value="gentle">Gentle</option>
+                        <option value="balanced">Balanced</option>
+                        <option value="strict">Strict</option>
+                        {customEmergencyPolicies.map((policy) => (
+                          <option key={policy.id} value={policy.id}>
+                            {policy.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label>
+                      Reminder interval (seconds)
+                      <input
+                        type="number"
+                        min="30"
+                        max="3600"
+                        value={emergencyReminderInterval}
+                        onChange={(e) => setEmergencyReminderInterval(Number(e.target.value))}
+                      />
+                    </label>
+                  </div>
+                  <details className="settings-details">
+                    <summary>Policy details</summary>
+                    <div className="subtle">
+                      <div><strong>Off</strong>: no emergency access.</div>
+                      <div><strong>Gentle</strong>: 5m, URL-locked, unlimited/day.</div>
+                      <div><strong>Balanced</strong>: 3m, 2/day, 30m cooldown.</div>
+                      <div><strong>Strict</strong>: 2m, 1/day, 60m cooldown.</div>
+                    </div>
+                  </details>
+                  <div className="settings-row">
+                    <label>
+                      While the app is closed
+                      <select value={paywallDowntimePolicy} onChange={(e) => setPaywallDowntimePolicy(e.target.value as PaywallDowntimePolicy)}>
+                        <option value="freeze">Freeze remaining time</option>
+                        <option value="count-down">Keep counting down</option>
+                        <option value="refund">Refund unused packs</option>
+                      </select>
+                    </label>
+                  </div>
+                  <div className="settings-inline">
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={peekEnabled}
+                        onChange={(e) => setPeekEnabled(e.target.checked)}
+                      />
+                      <span className="subtle">Enable peek</span>
+                    </label>
+                    <label style={{ opacity: peekEnabled ? 1 : 0.6 }}>
+                      <input
+                        type="checkbox"
+                        checked={peekAllowNewPages}
+                        onChange={(e) => setPeekAllowNewPages(e.target.checked)}
+                        disabled={!peekEnabled}
+                      />
+                      <span className="subtle">Allow peek on new pages</span>
+                    </label>
                   </div>
-                </details>
-                <div className="settings-inline">
-                  <label>
-                    <input
-                      type="checkbox"
-                      checked={peekEnabled}
-                      onChange={(e) => setPeekEnabled(e.target.checked)}
-                    />
-                    <span className="subtle">Enable peek</span>
-                  </label>
-                  <label style={{ opacity: peekEnabled ? 1 : 0.6 }}>
-                    <input
-                      type="checkbox"
-                      checked={peekAllowNewPages}
-                      onChange={(e) => setPeekAllowNewPages(e.target.checked)}
-                      disabled={!peekEnabled}
-                    />
-                    <span className="subtle">Allow peek on new pages</span>
-                  </label>
                 </div>
-              </div>
 
-              <div className="card settings-section">
-                <div className="settings-section-header">
-                  <h3>Guardrails: color filters</h3>
-                  <p className="subtle">Make frivolity visually and economically cheaper when filtered.</p>
+                <div className="card settings-section">
+                  <div className="settings-section-header">
+                    <h3>Guardrails: color filters</h3>
+                    <p className="subtle">Make frivolity visually and economically cheaper when filtered.</p>
+                  </div>
+                  <div className="settings-row">
+                    <label>
+                      Frivolity color filter
+                      <select
+                        value={guardrailColorFilter}
+                        onChange={(e) => setGuardrailColorFilter(e.target.value as GuardrailColorFilter)}
+                      >
+                        <option value="full-color">Full color (standard cost)</option>
+                        <option value="greyscale">Greyscale (cheaper)</option>
+                        <option value="redscale">Redscale (cheaper)</option>
+                      </select>
+                    </label>
+                  </div>
+                  <div className="settings-inline">
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={alwaysGreyscale}
+                        onChange={(e) => setAlwaysGreyscale(e.target.checked)}
+                      />
+                      <span className="subtle">Always greyscale (global override)</span>
+                    </label>
+                  </div>
+                  <p className="subtle" style={{ margin: 0 }}>
+                    Pricing applies when starting new frivolity sessions.
+                  </p>
                 </div>
-                <div className="settings-row">
-                  <label>
-                    Frivolity color filter
-                    <select
-                      value={guardrailColorFilter}
-                      onChange={(e) => setGuardrailColorFilter(e.target.value as GuardrailColorFilter)}
+
+                <div className="card settings-section">
+                  <div className="settings-section-header">
+                    <h3>Camera mode</h3>
+                    <p className="subtle">Captures a still every minute during frivolity. Stored locally on this Mac. macOS will prompt for camera access when enabling.</p>
+                  </div>
+                  <div className="settings-inline">
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={cameraModeEnabled}
+                        onChange={(e) => {
+                          void handleCameraModeToggle(e.target.checked);
+                        }}
+                      />
+                      <span className="subtle">Enable camera mode</span>
+                    </label>
+                    <button
+                      type="button"
+                      className="ghost"
+                      onClick={refreshCameraPhotos}
+                      disabled={cameraLoading}
                     >
-                      <option value="full-color">Full color (standard cost)</option>
-                      <option value="greyscale">Greyscale (cheaper)</option>
-                      <option value="redscale">Redscale (cheaper)</option>
-                    </select>
-                  </label>
+                      {cameraLoading ? 'Refreshing…' : 'Refresh gallery'}
+                    </button>
+                    <span className="subtle">{cameraPhotos.length} photos</span>
+                  </div>
+                  {cameraError && <p className="error-text">{cameraError}</p>}
+                  {cameraPhotos.length === 0 ? (
+                    <p className="subtle" style={{ marginTop: 12 }}>No photos yet.</p>
+                  ) : (
+                    <div className="camera-gallery-grid">
+                      {cameraPhotos.map((photo) => (
+                        <div key={photo.id} className="camera-card">
+                          <img className="camera-photo" src={photo.fileUrl} alt="Camera capture" loading="lazy" />
+                          <div className="camera-meta">
+                            <strong>{photo.subject ?? 'Frivolity'}</strong>
+                            <span className="subtle">{new Date(photo.capturedAt).toLocaleString()}</span>
+                          </div>
+                          <div className="camera-actions">
+                            <button type="button" className="ghost" onClick={() => handleCameraReveal(photo.id)}>
+                              Reveal
+                            </button>
+                            <button type="button" className="danger" onClick={() => handleCameraDelete(photo.id)}>
+                              Delete
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
-                <div className="settings-inline">
+
+                <div className="card settings-section">
+                  <div className="settings-section-header">
+                    <h3>Journaling</h3>
+                    <p className="subtle">Quick launch for reset prompts.</p>
+                  </div>
                   <label>
+                    Journal URL
                     <input
-                      type="checkbox"
-                      checked={alwaysGreyscale}
-                      onChange={(e) => setAlwaysGreyscale(e.target.checked)}
+                      type="text"
+                      placeholder="https://app.tana.inc/…"
+                      value={journalUrl}
+                      onChange={(e) => setJournalUrl(e.target.value)}
                     />
-                    <span className="subtle">Always greyscale (global override)</span>
                   </label>
-                </div>
-                <p className="subtle" style={{ margin: 0 }}>
-                  Pricing applies when starting new frivolity sessions.
-                </p>
-              </div>
-
-              <div className="card settings-section">
-                <div className="settings-section-header">
-                  <h3>Camera mode</h3>
-                  <p className="subtle">Captures a still every minute during frivolity. Stored locally on this Mac. macOS will prompt for camera access when enabling.</p>
-                </div>
-                <div className="settings-inline">
-                  <label>
+                  <label style={{ maxWidth: 260 }}>
+                    Duration (minutes)
                     <input
-                      type="checkbox"
-                      checked={cameraModeEnabled}
-                      onChange={(e) => {
-                        void handleCameraModeToggle(e.target.checked);
-                      }}
+                      type="number"
+                      min="1"
+                      max="180"
+                      value={journalMinutes}
+                      onChange={(e) => setJournalMinutes(Number(e.target.value))}
                     />
-                    <span className="subtle">Enable camera mode</span>
                   </label>
-                  <button
-                    type="button"
-                    className="ghost"
-                    onClick={refreshCameraPhotos}
-                    disabled={cameraLoading}
-                  >
-                    {cameraLoading ? 'Refreshing…' : 'Refresh gallery'}
-                  </button>
-                  <span className="subtle">{cameraPhotos.length} photos</span>
                 </div>
-                {cameraError && <p className="error-text">{cameraError}</p>}
-                {cameraPhotos.length === 0 ? (
-                  <p className="subtle" style={{ marginTop: 12 }}>No photos yet.</p>
-                ) : (
-                  <div className="camera-gallery-grid">
-                    {cameraPhotos.map((photo) => (
-                      <div key={photo.id} className="camera-card">
-                        <img className="camera-photo" src={photo.fileUrl} alt="Camera capture" loading="lazy" />
-                        <div className="camera-meta">
-                          <strong>{photo.subject ?? 'Frivolity'}</strong>
-                          <span className="subtle">{new Date(photo.capturedAt).toLocaleString()}</span>
-                        </div>
-                        <div className="camera-actions">
-                          <button type="button" className="ghost" onClick={() => handleCameraReveal(photo.id)}>
-                            Reveal
-                          </button>
-                          <button type="button" className="danger" onClick={() => handleCameraDelete(photo.id)}>
-                            Delete
-                          </button>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </div>
 
-              <div className="card settings-section">
-                <div className="settings-section-header">
-                  <h3>Journaling</h3>
-                  <p className="subtle">Quick launch for reset prompts.</p>
+                <div className="settings-actions">
+                  <button className="primary" type="submit" disabled={saving}>
+                    {saving ? 'Saving…' : saved ? 'Saved!' : 'Save changes'}
+                  </button>
                 </div>
-                <label>
-                  Journal URL
-                  <input
-                    type="text"
-                    placeholder="https://app.tana.inc/…"
-                    value={journalUrl}
-                    onChange={(e) => setJournalUrl(e.target.value)}
-                  />
-                </label>
-                <label style={{ maxWidth: 260 }}>
-                  Duration (minutes)
-                  <input
-                    type="number"
-                    min="1"
-                    max="180"
-                    value={journalMinutes}
-                    onChange={(e) => setJournalMinutes(Number(e.target.value))}
-                  />
-                </label>
-              </div>
-
-              <div className="settings-actions">
-                <button className="primary" type="submit" disabled={saving}>
-                  {saving ? 'Saving…' : saved ? 'Saved!' : 'Save changes'}
-                </button>
-              </div>
-            </form>
+              </form>
+              <EmergencyPolicies
+                api={api}
+                onChange={(policies) => {
+                  setCustomEmergencyPolicies(policies);
+                  // Removing the selected policy makes the desktop fall back to Balanced.
+                  setEmergencyPolicy((current) =>
+                    current.startsWith('custom:') && !policies.some((policy) => policy.id === current) ? 'balanced' : current
+                  );
+                }}
+              />
+              <PaywallTimeline api={api} />
+            </>
           )}
 
           {activePane === 'integrations' && (
@@ -881,6 +976,17 @@ export default function Settings({ api, theme, onThemeChange }: SettingsProps) {
                     />
                   </label>
                 </div>
+                <div className="settings-inline">
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={ankiMergeImport}
+                      onChange={(e) => setAnkiMergeImport(e.target.checked)}
+                      disabled={ankiBusy}
+                    />
+                    Keep my scheduling when re-importing (bring in new cards, edits and review history only)
+                  </label>
+                </div>
                 <div className="settings-actions">
                   <button type="button" className="secondary" onClick={handlePickAnkiDeck} disabled={ankiBusy}>
                     {ankiBusy ? 'Working…' : 'Choose deck…'}
@@ -916,6 +1022,39 @@ export default function Settings({ api, theme, onThemeChange }: SettingsProps) {
                         <span className="subtle">
                           {deck.lastImportedAt ? `Imported ${new Date(deck.lastImportedAt).toLocaleString()}` : 'Not imported yet'}
                         </span>
+                        <div className="settings-row">
+                          <label>
+                            Scheduler
+                            <select
+                              value={deck.scheduler}
+                              onChange={(e) => { void handleAnkiDeckScheduler(deck.id, { scheduler: e.target.value as AnkiScheduler }); }}
+                            >
+                              <option value="sm2">SM-2 (classic)</option>
+                              <option value="fsrs">FSRS</option>
+                            </select>
+                          </label>
+                          {deck.scheduler === 'fsrs' && (
+                            <label>
+                              Target recall
+                              <select
+                                value={deck.desiredRetention.toFixed(2)}
+                                onChange={(e) => { void handleAnkiDeckScheduler(deck.id, { desiredRetention: Number(e.target.value) }); }}
+                              >
+                                {[0.8, 0.85, 0.9, 0.95].map((value) => (
+                                  <option key={value} value={value.toFixed(2)}>{Math.round(value * 100)}%</option>
+                                ))}
+                              </select>
+                            </label>
+                          )}
+                          {deck.scheduler === 'fsrs' && (
+                            <button type="button" className="ghost" onClick={() => { void handleOptimizeFsrs(deck.id); }} disabled={ankiBusy}>
+                              {deck.fsrsOptimizedAt ? `Re-optimize (last ${new Date(deck.fsrsOptimizedAt).toLocaleDateString()})` : 'Optimize from history'}
+                            </button>
+                          )}
+                          <button type="button" className="ghost" onClick={() => { void handleExportAnkiDeck(deck.id); }} disabled={ankiBusy}>
+                            Export .apkg
+                          </button>
+                        </div>
                       </div>
                     ))}
                   </div>
@@ -17,6 +17,8 @@ type Variant = 'web' | 'extension' | 'desktop';
 
 type Props = {
   apiBase: string;
+  /** Pairing token sent as a bearer token to the local API. */
+  apiToken?: string | null;
   surface: WritingSurface;
   variant?: Variant;
 };
@@ -127,12 +129,18 @@ function externalLocationLabel(project: WritingProjectRecord, row: ActivityRecor
   return 'External Target';
 }
 
-async function fetchJson<T>(apiBase: string, path: string, init?: RequestInit): Promise<T> {
-  const response = await fetch(`${normalizeApiBase(apiBase)}${path}`, {
+type ApiEndpoint = {
+  base: string;
+  token: string | null;
+};
+
+async function fetchJson<T>(endpoint: ApiEndpoint, path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${normalizeApiBase(endpoint.base)}${path}`, {
     ...init,
     cache: 'no-store',
     headers: {
       'Content-Type': 'application/json',
+      ...(endpoint.token ? { Authorization: `Bearer ${endpoint.token}` } : {}),
       ...(init?.headers ?? {})
     }
   });
@@ -307,7 +315,8 @@ function canCountKeystroke(event: ReactKeyboardEvent<HTMLTextAreaElement>) {
   return event.key === 'Backspace' || event.key === 'Delete' || event.key === 'Enter' || event.key === 'Tab';
 }
 
-export function WritingStudioPanel({ apiBase, surface, variant = 'web' }: Props) {
+export function WritingStudioPanel({ apiBase, apiToken = null, surface, variant = 'web' }: Props) {
+  const endpoint = useMemo<ApiEndpoint>(() => ({ base: apiBase, token: apiToken }), [apiBase, apiToken]);
   const desktopBridge = variant === 'desktop' ? getDesktopBridge() : null;
   const [dashboard, setDashboard] = useState<WritingDashboard | null>(null);
   const [loading, setLoading] = useState(true);
@@ -379,14 +388,14 @@ export function WritingStudioPanel({ apiBase, surface, variant = 'web' }: Props)
     if (!silent) setLoading(true);
     setError(null);
     try {
-      const data = await fetchJson<WritingDashboard>(apiBase, '/writing/dashboard?days=14&limit=12');
+      const data = await fetchJson<WritingDashboard>(endpoint, '/writing/dashboard?days=14&limit=12');
       setDashboard(data);
     } catch (loadError) {
       setError((loadError as Error).message ?? 'Unable to load Writing Studio.');
     } finally {
       if (!silent) setLoading(false);
     }
-  }, [apiBase]);
+  }, [endpoint]);
 
   useEffect(() => {
     void loadDashboard();
@@ -422,7 +431,7 @@ export function WritingStudioPanel({ apiBase, surface, variant = 'web' }: Props)
     async (payload: WritingProjectCreateRequest) => {
       setSavingProject(true);
       try {
-        const created = await fetchJson<WritingProjectRecord>(apiBase, '/writing/projects', {
+        const created = await fetchJson<WritingProjectRecord>(endpoint, '/writing/projects', {
           method: 'POST',
           body: JSON.stringify(payload)
         });
@@ -438,28 +447,28 @@ export function WritingStudioPanel({ apiBase, surface, variant = 'web' }: Props)
         setSavingProject(false);
       }
     },
-    [apiBase, loadDashboard]
+    [endpoint, loadDashboard]
   );
 
   const patchProject = useCallback(
     async (projectId: number, payload: WritingProjectUpdateRequest) => {
-      return fetchJson<WritingProjectRecord>(apiBase, `/writing/projects/${projectId}`, {
+      return fetchJson<WritingProjectRecord>(endpoint, `/writing/projects/${projectId}`, {
         method: 'PATCH',
         body: JSON.stringify(payload)
       });
     },
-    [apiBase]
+    [endpoint]
   );
 
   const touchProject = useCallback(
     async (projectId: number) => {
       try {
-        await fetchJson<WritingProjectRecord>(apiBase, `/writing/projects/${projectId}/touch`, { method: 'POST' });
+        await fetchJson<WritingProjectRecord>(endpoint, `/writing/projects/${projectId}/touch`, { method: 'POST' });
       } catch {
         // best effort
       }
     },
-    [apiBase]
+    [endpoint]
   );
 
   const openProjectTarget = useCallback(
@@ -523,7 +532,7 @@ export function WritingStudioPanel({ apiBase, surface, variant = 'web' }: Props)
       setSessionBusy(true);
       try {
         const sessionId = createSessionId();
-        await fetchJson(apiBase, '/analytics/writing/sessions/start', {
+        await fetchJson(endpoint, '/analytics/writing/sessions/start', {
           method: 'POST',
           body: JSON.stringify({
             sessionId,
@@ -562,7 +571,7 @@ export function WritingStudioPanel({ apiBase, surface, variant = 'web' }: Props)
         setSessionBusy(false);
       }
     },
-    [apiBase, sessionBusy, showDesktopHud, surface]
+    [endpoint, sessionBusy, showDesktopHud, surface]
   );
 
   const startDesktopExternalSession = useCallback(
@@ -575,7 +584,7 @@ export function WritingStudioPanel({ apiBase, surface, variant = 'web' }: Props)
       setSessionBusy(true);
       try {
         const sessionId = createSessionId();
-        await fetchJson(apiBase, '/analytics/writing/sessions/start', {
+        await fetchJson(endpoint, '/analytics/writing/sessions/start', {
           method: 'POST',
           body: JSON.stringify({
             sessionId,
@@ -618,7 +627,7 @@ export function WritingStudioPanel({ apiBase, surface, variant = 'web' }: Props)
         setSessionBusy(false);
       }
     },
-    [apiBase, loadDashboard, sessionBusy, showDesktopHud, surface, touchProject]
+    [endpoint, loadDashboard, sessionBusy, showDesktopHud, surface, touchProject]
   );
 
   const launchProjectSession = useCallback(
@@ -649,7 +658,7 @@ export function WritingStudioPanel({ apiBase, surface, variant = 'web' }: Props)
       const session = sessionRef.current;
       if (!session) return;
       try {
-        await fetchJson(apiBase, `/analytics/writing/sessions/${session.sessionId}/${kind}`, {
+        await fetchJson(endpoint, `/analytics/writing/sessions/${session.sessionId}/${kind}`, {
           method: 'POST',
           body: JSON.stringify({
             occurredAt: new Date().toISOString(),
@@ -668,7 +677,7 @@ export function WritingStudioPanel({ apiBase, surface, variant = 'web' }: Props)
         // non-blocking
       }
     },
-    [apiBase]
+    [endpoint]
   );
 
   const endTrackedSession = useCallback(
@@ -952,7 +961,7 @@ export function WritingStudioPanel({ apiBase, surface, variant = 'web' }: Props)
           let project = dashboard.projects.find((item) => item.id === launchIntent.projectId) ?? null;
           if (!project) {
             const data = await fetchJson<{ items: WritingProjectRecord[] }>(
-              apiBase,
+              endpoint,
               '/writing/projects?limit=50&includeArchived=false'
             );
             project = data.items.find((item) => item.id === launchIntent.projectId) ?? null;
@@ -1011,7 +1020,7 @@ export function WritingStudioPanel({ apiBase, surface, variant = 'web' }: Props)
     };
   }, [
     activeSession,
-    apiBase,
+    endpoint,
     createProject,
     dashboard,
     loading,
@@ -0,0 +1,146 @@
+import { canonicalizeDomain } from './domainCanonicalization';
+import { WEEKDAY_LABELS } from './marketSchedule';
+import type { ActivityRule, ActivityRuleAction, ActivityRuleContext, ActivityRuleTrace } from './types';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export type ActivityRuleEvaluation = {
+  rule: ActivityRule | null;
+  trace: ActivityRuleTrace[];
+};
+
+/** Minutes since local midnight for an `HH:MM` string, or null when malformed. */
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  const match = TIME_PATTERN.exec(value ?? '');
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+const patternCache = new Map<string, RegExp | null>();
+
+/** Compiles a case-insensitive title pattern, or returns null when it is not a valid regex. */
+export function compileTitlePattern(pattern: string): RegExp | null {
+  if (!patternCache.has(pattern)) {
+    let compiled: RegExp | null = null;
+    try {
+      compiled = new RegExp(pattern, 'i');
+    } catch {
+      compiled = null;
+    }
+    patternCache.set(pattern, compiled);
+  }
+  return patternCache.get(pattern) ?? null;
+}
+
+function formatMinutes(minutes: number) {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function withinWindow(minutes: number, start: number, end: number) {
+  if (start === end) return true;
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * Checks every condition a rule sets against the context and records why each
+ * one passed or failed, so the rule tester can explain the outcome.
+ */
+export function matchActivityRule(rule: ActivityRule, context: ActivityRuleContext): ActivityRuleTrace {
+  const reasons: string[] = [];
+  let matched = true;
+  const check = (ok: boolean, reason: string) => {
+    reasons.push(`${ok ? '✓' : '✗'} ${reason}`);
+    if (!ok) matched = false;
+  };
+  const { match } = rule;
+  const at = new Date(context.at);
+
+  if (!rule.enabled) {
+    return { ruleId: rule.id, name: rule.name, matched: false, reasons: ['✗ rule is disabled'] };
+  }
+
+  if (match.domain) {
+    const needle = canonicalizeDomain(match.domain) ?? match.domain.toLowerCase();
+    const domain = canonicalizeDomain(context.domain ?? '') ?? '';
+    const ok = Boolean(domain) && (domain === needle || domain.endsWith(`.${needle}`));
+    check(ok, `domain ${domain || '(none)'} ${ok ? 'matches' : 'does not match'} ${needle}`);
+  }
+  if (match.app) {
+    const needle = match.app.toLowerCase();
+    const appName = (context.appName ?? '').toLowerCase();
+    const ok = appName.includes(needle);
+    check(ok, `app "${context.appName ?? ''}" ${ok ? 'contains' : 'does not contain'} "${match.app}"`);
+  }
+  if (match.titlePattern) {
+    const regex = compileTitlePattern(match.titlePattern);
+    const ok = Boolean(regex?.test(context.windowTitle ?? ''));
+    check(
+      ok,
+      regex
+        ? `title "${context.windowTitle ?? ''}" ${ok ? 'matches' : 'does not match'} /${match.titlePattern}/i`
+        : `title pattern /${match.titlePattern}/ is not a valid regex`
+    );
+  }
+  if (match.weekdays?.length) {
+    const day = at.getDay();
+    const ok = match.weekdays.includes(day);
+    const allowed = match.weekdays.map((value) => WEEKDAY_LABELS[value] ?? String(value)).join(', ');
+    check(ok, `${WEEKDAY_LABELS[day]} ${ok ? 'is' : 'is not'} one of ${allowed}`);
+  }
+  const start = parseTimeOfDay(match.startTime);
+  const end = parseTimeOfDay(match.endTime);
+  if (start != null || end != null) {
+    const minutes = at.getHours() * 60 + at.getMinutes();
+    const from = start ?? 0;
+    const to = end ?? 24 * 60;
+    const ok = withinWindow(minutes, from, to);
+    check(ok, `${formatMinutes(minutes)} ${ok ? 'is' : 'is not'} within ${formatMinutes(from)}–${formatMinutes(to)}`);
+  }
+  if (match.pomodoroActive != null) {
+    const ok = context.pomodoroActive === match.pomodoroActive;
+    check(ok, `pomodoro is ${context.pomodoroActive ? 'running' : 'not running'}`);
+  }
+  if (match.writingActive != null) {
+    const active = context.writingProjectId != null;
+    const ok = active === match.writingActive;
+    check(ok, `writing session is ${active ? 'open' : 'not open'}`);
+  }
+  if (match.writingProjectId != null) {
+    const ok = context.writingProjectId === match.writingProjectId;
+    check(
+      ok,
+      `writing project ${context.writingProjectId ?? '(none)'} ${ok ? 'is' : 'is not'} project ${match.writingProjectId}`
+    );
+  }
+
+  if (!reasons.length) reasons.push('✓ rule has no conditions and always matches');
+  return { ruleId: rule.id, name: rule.name, matched, reasons };
+}
+
+/** Higher priority first; ties go to the older rule. */
+export function sortActivityRules(rules: ActivityRule[]) {
+  return [...rules].sort((a, b) => b.priority - a.priority || a.id - b.id);
+}
+
+/**
+ * Evaluates rules in priority order and stops at the first match. Rules after
+ * the winner are not traced.
+ */
+export function evaluateActivityRules(rules: ActivityRule[], context: ActivityRuleContext): ActivityRuleEvaluation {
+  const trace: ActivityRuleTrace[] = [];
+  for (const rule of sortActivityRules(rules)) {
+    const result = matchActivityRule(rule, context);
+    trace.push(result);
+    if (result.matched) return { rule, trace };
+  }
+  return { rule: null, trace };
+}
+
+export function describeActivityRuleAction(action: ActivityRuleAction) {
+  const parts: string[] = [];
+  if (action.category) parts.push(`classify as ${action.category}`);
+  if (action.suppressContext) parts.push('suppress context');
+  if (action.idle === 'idle') parts.push('treat as idle');
+  if (action.idle === 'active') parts.push('never treat as idle');
+  return parts.length ? parts.join(', ') : 'no effect';
+}
@@ -0,0 +1,98 @@
+import type { DynamicPricePoint, DynamicPricingConfig, DynamicPricingQuote } from './types';
+
+export type DemandPurchase = {
+  /** Epoch ms of the purchase (or metered tick). */
+  at: number;
+  minutes: number;
+};
+
+export const DEFAULT_DYNAMIC_PRICING: DynamicPricingConfig = {
+  enabled: false,
+  dayWeight: 0.01,
+  weekWeight: 0.002,
+  decayHalfLifeHours: 6,
+  maxMultiplier: 3
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+function finiteOr(value: unknown, fallback: number, min: number, max: number) {
+  const n = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, n));
+}
+
+export function normalizeDynamicPricing(raw: unknown): DynamicPricingConfig {
+  if (!raw || typeof raw !== 'object') return { ...DEFAULT_DYNAMIC_PRICING };
+  const config = raw as Partial<Record<keyof DynamicPricingConfig, unknown>>;
+  return {
+    enabled: Boolean(config.enabled),
+    dayWeight: finiteOr(config.dayWeight, DEFAULT_DYNAMIC_PRICING.dayWeight, 0, 1),
+    weekWeight: finiteOr(config.weekWeight, DEFAULT_DYNAMIC_PRICING.weekWeight, 0, 1),
+    decayHalfLifeHours: finiteOr(config.decayHalfLifeHours, DEFAULT_DYNAMIC_PRICING.decayHalfLifeHours, 0.25, 24 * 7),
+    maxMultiplier: finiteOr(config.maxMultiplier, DEFAULT_DYNAMIC_PRICING.maxMultiplier, 1, 10)
+  };
+}
+
+/**
+ * Prices a domain from its recent demand. Minutes bought in the trailing day
+ * and week add a premium on top of the base rate; the premium halves every
+ * `decayHalfLifeHours` since the last purchase, so abstinence drifts the price
+ * back to base. Purchases after `now` are ignored.
+ */
+export function evaluateDynamicPricing(
+  baseRatePerMin: number,
+  purchases: DemandPurchase[],
+  now: number,
+  config: DynamicPricingConfig | null | undefined
+): DynamicPricingQuote {
+  const base = Math.max(0, baseRatePerMin);
+  let dayMinutes = 0;
+  let weekMinutes = 0;
+  let lastPurchaseAt: number | null = null;
+  for (const purchase of purchases) {
+    if (!Number.isFinite(purchase.at) || purchase.at > now || purchase.minutes <= 0) continue;
+    const age = now - purchase.at;
+    if (age > WEEK_MS) continue;
+    weekMinutes += purchase.minutes;
+    if (age <= DAY_MS) dayMinutes += purchase.minutes;
+    if (lastPurchaseAt == null || purchase.at > lastPurchaseAt) lastPurchaseAt = purchase.at;
+  }
+
+  if (!config?.enabled || lastPurchaseAt == null) {
+    return { baseRatePerMin: base, ratePerMin: base, multiplier: 1, dayMinutes, weekMinutes, lastPurchaseAt };
+  }
+
+  const premium = config.dayWeight * dayMinutes + config.weekWeight * weekMinutes;
+  const hoursSince = (now - lastPurchaseAt) / HOUR_MS;
+  const decayed = premium * Math.pow(0.5, hoursSince / Math.max(0.01, config.decayHalfLifeHours));
+  const multiplier = Math.min(Math.max(1, config.maxMultiplier), 1 + decayed);
+  return {
+    baseRatePerMin: base,
+    ratePerMin: base * multiplier,
+    multiplier,
+    dayMinutes,
+    weekMinutes,
+    lastPurchaseAt
+  };
+}
+
+/** The rate over the next `hours` if nothing more is bought. */
+export function projectDynamicPriceCurve(
+  baseRatePerMin: number,
+  purchases: DemandPurchase[],
+  now: number,
+  config: DynamicPricingConfig | null | undefined,
+  options: { hours?: number; stepHours?: number } = {}
+): DynamicPricePoint[] {
+  const hours = Math.max(1, options.hours ?? 48);
+  const step = Math.max(0.25, options.stepHours ?? 2);
+  const points: DynamicPricePoint[] = [];
+  for (let offset = 0; offset <= hours + 1e-9; offset += step) {
+    const quote = evaluateDynamicPricing(baseRatePerMin, purchases, now + offset * HOUR_MS, config);
+    points.push({ offsetHours: offset, ratePerMin: quote.ratePerMin, multiplier: quote.multiplier });
+  }
+  return points;
+}
@@ -1,22 +1,27 @@
-import type { EmergencyPolicyId } from './types';
+import { z } from 'zod';
+import type {
+  CustomEmergencyPolicy,
+  EmergencyPolicyId,
+  EmergencyPolicyRuleOverride,
+  EmergencyPolicyRules,
+  EmergencyPresetId
+} from './types';
+import { canonicalizeDomain, isSameDomainOrSubdomain } from './domainCanonicalization';
+import { DAY_START_HOUR, getLocalDayStartMs } from './time';
 
-export type EmergencyPolicyConfig = {
+export type EmergencyPolicyConfig = EmergencyPolicyRules & {
   id: EmergencyPolicyId;
   label: string;
   summary: string;
-  durationSeconds: number;
-  tokensPerDay: number | null;
-  cooldownSeconds: number;
-  urlLocked: boolean;
-  debtCoins: number;
 };
 
-const POLICY_BY_ID: Record<EmergencyPolicyId, EmergencyPolicyConfig> = {
+const POLICY_BY_ID: Record<EmergencyPresetId, EmergencyPolicyConfig> = {
   off: {
     id: 'off',
     label: 'Off',
     summary: 'Emergency access disabled.',
     durationSeconds: 0,
+    autoExpire: false,
     tokensPerDay: 0,
     cooldownSeconds: 0,
     urlLocked: true,
@@ -27,6 +32,7 @@ const POLICY_BY_ID: Record<EmergencyPolicyId, EmergencyPolicyConfig> = {
     label: 'Gentle',
     summary: 'No auto-expiry, unlimited uses.',
     durationSeconds: 5 * 60,
+    autoExpire: false,
     tokensPerDay: null,
     cooldownSeconds: 0,
     urlLocked: false,
@@ -37,6 +43,7 @@ const POLICY_BY_ID: Record<EmergencyPolicyId, EmergencyPolicyConfig> = {
     label: 'Strict',
     summary: 'No auto-expiry, 1/day, 60m cooldown, and a debt cost.',
     durationSeconds: 2 * 60,
+    autoExpire: false,
     tokensPerDay: 1,
     cooldownSeconds: 60 * 60,
     urlLocked: false,
@@ -47,6 +54,7 @@ const POLICY_BY_ID: Record<EmergencyPolicyId, EmergencyPolicyConfig> = {
     label: 'Balanced',
     summary: 'No auto-expiry, 2/day, 30m cooldown, and a small debt cost.',
     durationSeconds: 3 * 60,
+    autoExpire: false,
     tokensPerDay: 2,
     cooldownSeconds: 30 * 60,
     urlLocked: false,
@@ -54,7 +62,131 @@ const POLICY_BY_ID: Record<EmergencyPolicyId, EmergencyPolicyConfig> = {
   }
 };
 
-export function getEmergencyPolicyConfig(id: EmergencyPolicyId): EmergencyPolicyConfig {
-  const policy = POLICY_BY_ID[id] ?? POLICY_BY_ID.balanced;
-  return { ...policy };
+export const EMERGENCY_PRESET_IDS = Object.keys(POLICY_BY_ID) as EmergencyPresetId[];
+export const MAX_CUSTOM_EMERGENCY_POLICIES = 12;
+
+export function isEmergencyPresetId(value: unknown): value is EmergencyPresetId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(POLICY_BY_ID, value);
+}
+
+export function isCustomEmergencyPolicyId(value: unknown): value is CustomEmergencyPolicy['id'] {
+  return typeof value === 'string' && /^custom:[a-z0-9-]{1,40}$/.test(value);
+}
+
+const ruleShape = {
+  durationSeconds: z.number().int().min(0).max(24 * 60 * 60),
+  autoExpire: z.boolean(),
+  tokensPerDay: z.number().int().min(0).max(100).nullable(),
+  cooldownSeconds: z.number().int().min(0).max(24 * 60 * 60),
+  urlLocked: z.boolean(),
+  debtCoins: z.number().int().min(0).max(1000)
+};
+
+const ruleOverrideSchema = z.object(ruleShape).partial().strict();
+
+export const customEmergencyPolicySchema = z.object({
+  ...ruleShape,
+  id: z.string().refine(isCustomEmergencyPolicyId, 'must look like custom:<lowercase-slug>'),
+  label: z.string().trim().min(1).max(60),
+  domainOverrides: z
+    .array(
+      z.object({
+        domain: z
+          .string()
+          .transform((value) => canonicalizeDomain(value, { applyAliases: false }) ?? '')
+          .refine(Boolean, 'must be a domain'),
+        rules: ruleOverrideSchema
+      })
+    )
+    .max(50)
+    .default([]),
+  schedule: z
+    .array(
+      z.object({
+        weekdays: z.array(z.number().int().min(0).max(6)).min(1).max(7),
+        rules: ruleOverrideSchema
+      })
+    )
+    .max(14)
+    .default([])
+});
+
+const customEmergencyPolicyListSchema = z
+  .array(customEmergencyPolicySchema)
+  .max(MAX_CUSTOM_EMERGENCY_POLICIES)
+  .superRefine((policies, ctx) => {
+    const seen = new Set<string>();
+    policies.forEach((policy, index) => {
+      if (seen.has(policy.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'id'], message: 'must be unique' });
+      }
+      seen.add(policy.id);
+    });
+  });
+
+/** Validates a user-supplied policy list; throws a `ZodError` describing the first problem. */
+export function parseCustomEmergencyPolicies(value: unknown): CustomEmergencyPolicy[] {
+  return customEmergencyPolicyListSchema.parse(value) as CustomEmergencyPolicy[];
+}
+
+function formatMinutes(seconds: number) {
+  return `${Math.max(1, Math.round(seconds / 60))}m`;
+}
+
+/** One-line description of a policy's rules, in the same shape as the preset summaries. */
+export function describeEmergencyPolicyRules(rules: EmergencyPolicyRules) {
+  if (rules.tokensPerDay === 0) return 'Emergency access disabled.';
+  const parts = [rules.autoExpire ? `Expires after ${formatMinutes(rules.durationSeconds)}` : 'No auto-expiry'];
+  parts.push(rules.tokensPerDay === null ? 'unlimited uses' : `${rules.tokensPerDay}/day`);
+  if (rules.cooldownSeconds > 0) parts.push(`${formatMinutes(rules.cooldownSeconds)} cooldown`);
+  if (rules.urlLocked) parts.push('URL-locked');
+  if (rules.debtCoins > 0) parts.push(`${rules.debtCoins} coin debt`);
+  return `${parts.join(', ')}.`;
+}
+
+function applyOverride(rules: EmergencyPolicyRules, override: EmergencyPolicyRuleOverride): EmergencyPolicyRules {
+  const next = { ...rules };
+  for (const key of Object.keys(override) as Array<keyof EmergencyPolicyRules>) {
+    if (override[key] !== undefined) (next as Record<string, unknown>)[key] = override[key];
+  }
+  return next;
+}
+
+export type EmergencyPolicyContext = {
+  /** Domain the emergency is for; picks up that domain's override. */
+  domain?: string | null;
+  /** When the emergency starts; picks the weekday schedule. Defaults to now. */
+  at?: number;
+};
+
+/**
+ * The rules in force for `id`. Presets are fixed; a custom policy starts from
+ * its own rules, then the first schedule entry for the current weekday, then
+ * the most specific matching domain override. An unknown custom id falls back
+ * to Balanced, just like an unknown preset.
+ */
+export function getEmergencyPolicyConfig(
+  id: EmergencyPolicyId,
+  customPolicies: CustomEmergencyPolicy[] = [],
+  context: EmergencyPolicyContext = {}
+): EmergencyPolicyConfig {
+  if (isEmergencyPresetId(id)) return { ...POLICY_BY_ID[id] };
+  const custom = customPolicies.find((policy) => policy.id === id);
+  if (!custom) return { ...POLICY_BY_ID.balanced };
+
+  const { id: policyId, label, domainOverrides, schedule, ...base } = custom;
+  let rules: EmergencyPolicyRules = base;
+  const weekday = new Date(getLocalDayStartMs(context.at ?? Date.now(), DAY_START_HOUR)).getDay();
+  const scheduled = schedule.find((entry) => entry.weekdays.includes(weekday));
+  if (scheduled) rules = applyOverride(rules, scheduled.rules);
+
+  const domain = context.domain ?? null;
+  const override = domain
+    ? domainOverrides
+        .filter((entry) => isSameDomainOrSubdomain(domain, entry.domain, { applyAliases: false }))
+        .sort((a, b) => b.domain.length - a.domain.length)[0]
+    : undefined;
+  if (override) rules = applyOverride(rules, override.rules);
+
+  return { ...rules, id: policyId, label, summary: describeEmergencyPolicyRules(rules) };
 }
@@ -32,6 +32,14 @@ export function evaluateEmergencyStart(
     };
   }
 
+  if (policy.tokensPerDay === 0) {
+    return {
+      allowed: false,
+      usage,
+      error: 'Emergency access is not allowed under the current policy.'
+    };
+  }
+
   if (typeof policy.tokensPerDay === 'number' && usage.tokensUsed >= policy.tokensPerDay) {
     return {
       allowed: false,
@@ -1,5 +1,5 @@
 declare module 'express-ws' {
-    import type { Application } from 'express';
+    import type { Application, Request } from 'express';
     import type { Server as HttpServer } from 'http';
     import type WebSocket from 'ws';
 
@@ -0,0 +1,78 @@
+import type { MarketCalendarOverride, MarketRate } from './types';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type MarketModifierSource = 'calendar' | 'weekday' | 'hourly';
+
+export type ResolvedMarketCurve = {
+  modifiers: number[];
+  source: MarketModifierSource;
+  override: MarketCalendarOverride | null;
+};
+
+/** Local calendar date as `YYYY-MM-DD`. */
+export function toLocalDateKey(date: Date) {
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+export function isDateKey(value: unknown): value is string {
+  return typeof value === 'string' && DATE_KEY_PATTERN.test(value) && Number.isFinite(Date.parse(`${value}T00:00:00`));
+}
+
+/** Coerces a 24-slot curve, filling gaps with 1 and clamping to [0, 10]. */
+export function normalizeHourlyModifiers(raw: unknown): number[] {
+  const values = Array.isArray(raw) ? raw : [];
+  return Array.from({ length: 24 }, (_, hour) => {
+    const n = Number(values[hour]);
+    return Number.isFinite(n) ? Math.min(10, Math.max(0, n)) : 1;
+  });
+}
+
+export function normalizeWeekdayModifiers(raw: unknown): number[][] | null {
+  if (!Array.isArray(raw) || raw.length !== 7) return null;
+  return raw.map((day) => normalizeHourlyModifiers(day));
+}
+
+function appliesTo(override: MarketCalendarOverride, domain: string, dateKey: string) {
+  if (override.startDate > dateKey || override.endDate < dateKey) return false;
+  return override.domain == null || override.domain === domain;
+}
+
+function spanDays(override: MarketCalendarOverride) {
+  return Date.parse(`${override.endDate}T00:00:00`) - Date.parse(`${override.startDate}T00:00:00`);
+}
+
+/**
+ * Picks the hourly curve in force for a rate at `at`. A calendar override wins
+ * over the weekday matrix, which wins over the flat hourly curve. Among
+ * overlapping overrides, a domain-specific one beats a global one, then the
+ * narrower date range, then the most recently created.
+ */
+export function resolveMarketCurve(rate: MarketRate, overrides: MarketCalendarOverride[], at: Date): ResolvedMarketCurve {
+  const dateKey = toLocalDateKey(at);
+  const candidates = overrides
+    .filter((override) => appliesTo(override, rate.domain, dateKey))
+    .sort((a, b) => {
+      if ((a.domain == null) !== (b.domain == null)) return a.domain == null ? 1 : -1;
+      const span = spanDays(a) - spanDays(b);
+      if (span !== 0) return span;
+      return b.id - a.id;
+    });
+  if (candidates.length) {
+    return { modifiers: candidates[0].hourlyModifiers, source: 'calendar', override: candidates[0] };
+  }
+  const weekday = rate.weekdayModifiers?.[at.getDay()];
+  if (weekday?.length) {
+    return { modifiers: weekday, source: 'weekday', override: null };
+  }
+  return { modifiers: rate.hourlyModifiers, source: 'hourly', override: null };
+}
+
+export function resolveMarketModifier(rate: MarketRate, overrides: MarketCalendarOverride[], at: Date) {
+  return resolveMarketCurve(rate, overrides, at).modifiers[at.getHours()] ?? 1;
+}
@@ -0,0 +1,62 @@
+import type { OfflineWalletReconciliation } from './types';
+
+/**
+ * An earn, spend or pack purchase the extension made while the desktop was
+ * unreachable. Entries are signed with HMAC-SHA256 keyed by the journal key
+ * the desktop handed the extension at pairing. The bearer token that uploads
+ * them is sent on every request; the journal key is not, so seeing one upload
+ * is not enough to forge entries. The sync id makes each replay idempotent.
+ */
+export type OfflineWalletEntry = {
+  syncId: string;
+  ts: string;
+  type: 'earn' | 'spend' | 'adjust';
+  amount: number;
+  meta?: Record<string, unknown>;
+  /** Hex HMAC-SHA256 of `offlineWalletSigningPayload(entry)`. */
+  signature?: string;
+};
+
+/** The exact bytes both ends sign; `meta` keeps its insertion order through JSON round trips. */
+export function offlineWalletSigningPayload(entry: Pick<OfflineWalletEntry, 'syncId' | 'ts' | 'type' | 'amount' | 'meta'>) {
+  return JSON.stringify([entry.syncId, entry.ts, entry.type, entry.amount, entry.meta ?? {}]);
+}
+
+/** Combines the reports of several ingest batches from one flush. */
+export function mergeOfflineWalletReconciliations(
+  previous: OfflineWalletReconciliation | null,
+  next: OfflineWalletReconciliation
+): OfflineWalletReconciliation {
+  if (!previous) return next;
+  return {
+    reconciledAt: next.reconciledAt,
+    outcomes: [...previous.outcomes, ...next.outcomes],
+    applied: previous.applied + next.applied,
+    duplicates: previous.duplicates + next.duplicates,
+    capped: previous.capped + next.capped,
+    rejected: previous.rejected + next.rejected,
+    shortfall: previous.shortfall + next.shortfall,
+    balance: next.balance
+  };
+}
+
+/** Whether the user should be told about a reconciliation: anything beyond clean replays. */
+export function offlineWalletNeedsAttention(
+  report: OfflineWalletReconciliation | null | undefined
+): report is OfflineWalletReconciliation {
+  return Boolean(report && (report.capped > 0 || report.rejected > 0));
+}
+
+/** One-line summary such as "Synced 4 offline transactions · 1 spend exceeded your balance (6 coins written off)". */
+export function describeOfflineWalletReconciliation(report: OfflineWalletReconciliation) {
+  const parts = [`Synced ${report.applied + report.capped} offline transaction${report.applied + report.capped === 1 ? '' : 's'}`];
+  if (report.capped > 0) {
+    parts.push(
+      `${report.capped} spend${report.capped === 1 ? '' : 's'} exceeded your balance (${report.shortfall} coin${report.shortfall === 1 ? '' : 's'} written off)`
+    );
+  }
+  if (report.rejected > 0) {
+    parts.push(`${report.rejected} rejected (signature did not verify)`);
+  }
+  return parts.join(' · ');
+}
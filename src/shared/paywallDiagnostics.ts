@@ -0,0 +1,58 @@
+import type { PaywallDiagnosticEvent } from './types';
+
+/** One row of a domain's timeline; repeated ticks and idle samples are folded into a single row. */
+export type PaywallTimelineEntry = {
+  event: PaywallDiagnosticEvent['event'];
+  firstTs: number;
+  lastTs: number;
+  count: number;
+  mode?: PaywallDiagnosticEvent['mode'];
+  reason?: string;
+  remainingFrom: number | null;
+  remainingTo: number | null;
+};
+
+export type PaywallTimelineLane = {
+  domain: string;
+  lastTs: number;
+  entries: PaywallTimelineEntry[];
+};
+
+const FOLDED_EVENTS = new Set<PaywallDiagnosticEvent['event']>(['session-tick', 'session-ignored-inactive']);
+
+/**
+ * Groups diagnostic events into per-domain lanes, most recently active domain
+ * first. A pack ticks every few seconds, so runs of ticks (or of "ignored
+ * while inactive" samples) with the same reason collapse into one entry that
+ * records how the remaining time moved across the run.
+ */
+export function buildPaywallTimeline(events: PaywallDiagnosticEvent[]): PaywallTimelineLane[] {
+  const lanes = new Map<string, PaywallTimelineLane>();
+  for (const event of [...events].sort((a, b) => a.ts - b.ts)) {
+    let lane = lanes.get(event.domain);
+    if (!lane) {
+      lane = { domain: event.domain, lastTs: event.ts, entries: [] };
+      lanes.set(event.domain, lane);
+    }
+    lane.lastTs = event.ts;
+    const remaining = event.remainingSeconds ?? null;
+    const previous = lane.entries.at(-1);
+    if (previous && FOLDED_EVENTS.has(event.event) && previous.event === event.event && previous.reason === event.reason) {
+      previous.lastTs = event.ts;
+      previous.count += 1;
+      previous.remainingTo = remaining;
+      continue;
+    }
+    lane.entries.push({
+      event: event.event,
+      firstTs: event.ts,
+      lastTs: event.ts,
+      count: 1,
+      ...(event.mode ? { mode: event.mode } : {}),
+      ...(event.reason ? { reason: event.reason } : {}),
+      remainingFrom: remaining,
+      remainingTo: remaining
+    });
+  }
+  return [...lanes.values()].sort((a, b) => b.lastTs - a.lastTs);
+}
@@ -0,0 +1,186 @@
+import type { GuardrailColorFilter } from './types';
+
+/** Pay-as-you-go costs this much more per minute than the domain's base rate. */
+export const METERED_PREMIUM_MULTIPLIER = 3.5;
+
+/** Filtered browsing is less fun, so it is cheaper. */
+export const COLOR_FILTER_PRICE_MULTIPLIER: Record<GuardrailColorFilter, number> = {
+  'full-color': 1,
+  greyscale: 0.55,
+  redscale: 0.7
+};
+
+export function colorFilterPriceMultiplier(filter: GuardrailColorFilter | null | undefined) {
+  return (filter && COLOR_FILTER_PRICE_MULTIPLIER[filter]) ?? 1;
+}
+
+/** Each pack bought on top of a running pack costs more than the last. `chainCount` is the packs already chained. */
+export function packChainMultiplier(chainCount: number) {
+  if (!Number.isFinite(chainCount) || chainCount <= 0) return 1;
+  if (chainCount === 1) return 1.35;
+  if (chainCount === 2) return 1.75;
+  return 2.35;
+}
+
+export type PaywallQuoteLineKind =
+  | 'base-price'
+  | 'base-rate'
+  | 'hourly-modifier'
+  | 'demand'
+  | 'chain'
+  | 'color-filter'
+  | 'metered-premium'
+  | 'budget';
+
+/** `value` is coins for the base line and a multiplier for every other line. */
+export type PaywallQuoteLine = {
+  kind: PaywallQuoteLineKind;
+  label: string;
+  value: number;
+};
+
+export type PaywallPackQuote = {
+  quoteId: string;
+  kind: 'pack';
+  domain: string;
+  minutes: number;
+  colorFilter: GuardrailColorFilter;
+  chainCount: number;
+  lines: PaywallQuoteLine[];
+  /** Coins charged for the pack. */
+  price: number;
+  /** Rate recorded on the session, used when refunding unused time. */
+  effectiveRatePerMin: number;
+};
+
+export type PaywallMeteredQuote = {
+  quoteId: string;
+  kind: 'metered';
+  domain: string;
+  colorFilter: GuardrailColorFilter;
+  lines: PaywallQuoteLine[];
+  /** Coins per minute at the moment of the quote. */
+  ratePerMin: number;
+  /** Premium and filter discount the session keeps applying as the hourly and demand rates move. */
+  meteredMultiplier: number;
+};
+
+export type PaywallQuote = PaywallPackQuote | PaywallMeteredQuote;
+
+type QuoteRate = {
+  ratePerMin: number;
+  packs?: Array<{ minutes: number; price: number }>;
+};
+
+export type PackQuoteInput = {
+  domain: string;
+  minutes: number;
+  rate: QuoteRate;
+  /** Packs already chained in the running session (0 when there is none). */
+  chainCount: number;
+  colorFilter?: GuardrailColorFilter;
+  demandMultiplier?: number;
+  /** Surcharge from an exhausted budget; only the desktop knows it. */
+  budgetMultiplier?: number;
+};
+
+export type MeteredQuoteInput = {
+  domain: string;
+  rate: QuoteRate;
+  colorFilter?: GuardrailColorFilter;
+  hourlyModifier?: number;
+  demandMultiplier?: number;
+  budgetMultiplier?: number;
+};
+
+const COLOR_FILTER_LABELS: Record<GuardrailColorFilter, string> = {
+  'full-color': 'Full color',
+  greyscale: 'Greyscale discount',
+  redscale: 'Redscale discount'
+};
+
+// Demand decays continuously; quoting it to two places keeps a quote valid
+// for more than a few milliseconds and keeps both ends computing the same id.
+function roundMultiplier(value: number | undefined) {
+  if (!Number.isFinite(value)) return 1;
+  return Math.round(Math.max(0, value as number) * 100) / 100;
+}
+
+function multiplierLines(entries: Array<[PaywallQuoteLineKind, string, number]>): PaywallQuoteLine[] {
+  return entries.filter(([, , value]) => value !== 1).map(([kind, label, value]) => ({ kind, label, value }));
+}
+
+function product(lines: PaywallQuoteLine[]) {
+  return lines.reduce((total, line) => total * line.value, 1);
+}
+
+/** FNV-1a; the id only has to change whenever anything that affects the price does. */
+function hashQuote(parts: unknown[]) {
+  const text = JSON.stringify(parts);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i += 1) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `q1-${(hash >>> 0).toString(36)}`;
+}
+
+export function quotePack(input: PackQuoteInput): PaywallPackQuote {
+  const minutes = Math.max(1, Math.round(input.minutes));
+  const colorFilter = input.colorFilter ?? 'full-color';
+  const chainCount = Math.max(0, Math.round(input.chainCount));
+  const pack = input.rate.packs?.find((candidate) => candidate.minutes === minutes);
+  const basePrice = pack ? pack.price : Math.max(1, Math.round(minutes * input.rate.ratePerMin));
+  const colorMultiplier = colorFilterPriceMultiplier(colorFilter);
+  const modifiers = multiplierLines([
+    ['chain', `Chained pack #${chainCount + 1}`, packChainMultiplier(chainCount)],
+    ['demand', 'Recent demand', roundMultiplier(input.demandMultiplier)],
+    ['color-filter', COLOR_FILTER_LABELS[colorFilter], colorMultiplier],
+    ['budget', 'Budget surcharge', roundMultiplier(input.budgetMultiplier)]
+  ]);
+  const lines: PaywallQuoteLine[] = [
+    { kind: 'base-price', label: pack ? `${minutes} min pack` : `${minutes} min at ${input.rate.ratePerMin}/min`, value: basePrice },
+    ...modifiers
+  ];
+  const price = Math.max(1, Math.round(basePrice * product(modifiers)));
+  return {
+    quoteId: hashQuote(['pack', input.domain, minutes, colorFilter, chainCount, lines.map((line) => [line.kind, line.value]), price]),
+    kind: 'pack',
+    domain: input.domain,
+    minutes,
+    colorFilter,
+    chainCount,
+    lines,
+    price,
+    effectiveRatePerMin: input.rate.ratePerMin * colorMultiplier
+  };
+}
+
+export function quoteMetered(input: MeteredQuoteInput): PaywallMeteredQuote {
+  const colorFilter = input.colorFilter ?? 'full-color';
+  const colorMultiplier = colorFilterPriceMultiplier(colorFilter);
+  const modifiers = multiplierLines([
+    ['hourly-modifier', 'Time of day', roundMultiplier(input.hourlyModifier)],
+    ['demand', 'Recent demand', roundMultiplier(input.demandMultiplier)],
+    ['color-filter', COLOR_FILTER_LABELS[colorFilter], colorMultiplier],
+    ['metered-premium', 'Pay-as-you-go premium', METERED_PREMIUM_MULTIPLIER],
+    ['budget', 'Budget surcharge', roundMultiplier(input.budgetMultiplier)]
+  ]);
+  const lines: PaywallQuoteLine[] = [{ kind: 'base-rate', label: 'Base rate per minute', value: input.rate.ratePerMin }, ...modifiers];
+  const ratePerMin = input.rate.ratePerMin * product(modifiers);
+  return {
+    quoteId: hashQuote(['metered', input.domain, colorFilter, lines.map((line) => [line.kind, line.value])]),
+    kind: 'metered',
+    domain: input.domain,
+    colorFilter,
+    lines,
+    ratePerMin,
+    meteredMultiplier: METERED_PREMIUM_MULTIPLIER * colorMultiplier
+  };
+}
+
+/** "×1.35" for multiplier lines, the coin amount for the base line. */
+export function formatQuoteLineValue(line: PaywallQuoteLine) {
+  if (line.kind === 'base-price' || line.kind === 'base-rate') return `${Math.round(line.value * 100) / 100}`;
+  return `×${line.value.toFixed(2)}`;
+}
@@ -0,0 +1,108 @@
+import type {
+  PomodoroAllowlistEntry,
+  PomodoroPhase,
+  PomodoroPhaseKind,
+  PomodoroPlanConfig,
+  PomodoroPlanProgress,
+  PomodoroSession
+} from './types';
+
+export const MAX_POMODORO_CYCLES = 12;
+export const MIN_POMODORO_BREAK_SEC = 60;
+
+export const POMODORO_PHASE_LABELS: Record<PomodoroPhaseKind, string> = {
+  focus: 'Focus',
+  'short-break': 'Break',
+  'long-break': 'Long break'
+};
+
+/** Returns the first problem with a plan, or null when it can be started. */
+export function validatePomodoroPlan(plan: PomodoroPlanConfig): string | null {
+  if (!Number.isInteger(plan.cycles) || plan.cycles < 1 || plan.cycles > MAX_POMODORO_CYCLES) {
+    return `A plan needs between 1 and ${MAX_POMODORO_CYCLES} focus cycles`;
+  }
+  if (plan.cycles > 1 && !(plan.shortBreakSec >= MIN_POMODORO_BREAK_SEC)) {
+    return 'Short breaks must be at least 1 minute';
+  }
+  if (plan.longBreakSec !== 0 && !(plan.longBreakSec >= MIN_POMODORO_BREAK_SEC)) {
+    return 'Long breaks must be at least 1 minute (or 0 to skip them)';
+  }
+  const every = plan.longBreakEvery ?? plan.cycles;
+  if (!Number.isInteger(every) || every < 1) {
+    return 'Long break interval must be a whole number of cycles';
+  }
+  return null;
+}
+
+/**
+ * Expands a plan into its phases: each focus block is followed by a break,
+ * long after every `longBreakEvery` blocks and short otherwise. The plan ends
+ * after the last focus block unless that block earns a long break.
+ */
+export function buildPomodoroPhases(
+  focusSec: number,
+  allowlist: PomodoroAllowlistEntry[],
+  plan: PomodoroPlanConfig
+): PomodoroPhase[] {
+  const every = plan.longBreakEvery ?? plan.cycles;
+  const phases: PomodoroPhase[] = [];
+  const push = (kind: PomodoroPhaseKind, cycle: number, durationSec: number, phaseAllowlist: PomodoroAllowlistEntry[] | null) => {
+    phases.push({ index: phases.length, kind, cycle, durationSec, allowlist: phaseAllowlist, startedAt: null, endedAt: null });
+  };
+  for (let cycle = 1; cycle <= plan.cycles; cycle += 1) {
+    push('focus', cycle, focusSec, allowlist);
+    const longBreak = cycle % every === 0 && plan.longBreakSec > 0;
+    if (longBreak) {
+      push('long-break', cycle, plan.longBreakSec, plan.longBreakAllowlist ?? null);
+    } else if (cycle < plan.cycles) {
+      push('short-break', cycle, plan.shortBreakSec, plan.shortBreakAllowlist ?? null);
+    }
+  }
+  return phases;
+}
+
+export function currentPomodoroPhase(plan: PomodoroPlanProgress | null | undefined): PomodoroPhase | null {
+  if (!plan) return null;
+  return plan.phases[plan.currentIndex] ?? null;
+}
+
+/**
+ * Whether the session's allowlist is being enforced right now. Focus time is
+ * always enforced; a plan's break is enforced only when it has its own allowlist.
+ */
+export function isPomodoroEnforced(session: Pick<PomodoroSession, 'state' | 'plan'> | null | undefined) {
+  if (!session) return false;
+  if (session.state === 'active') return true;
+  if (session.state !== 'break') return false;
+  return currentPomodoroPhase(session.plan)?.allowlist != null;
+}
+
+/** Time left in whatever the session is doing now: focus, or the current break. */
+export function pomodoroPhaseRemainingMs(session: Pick<PomodoroSession, 'state' | 'remainingMs' | 'breakRemainingMs'>) {
+  return session.state === 'break' ? session.breakRemainingMs ?? 0 : session.remainingMs;
+}
+
+/** How far through the current plan phase the session is, 0–1. */
+export function pomodoroPhaseProgress(session: Pick<PomodoroSession, 'state' | 'remainingMs' | 'breakRemainingMs' | 'plan'>) {
+  const phase = currentPomodoroPhase(session.plan);
+  if (!phase || phase.durationSec <= 0) return 0;
+  return Math.min(1, Math.max(0, 1 - pomodoroPhaseRemainingMs(session) / (phase.durationSec * 1000)));
+}
+
+/** Focus seconds finished so far, or the whole session's focus time for single sessions. */
+export function completedPomodoroFocusSec(session: Pick<PomodoroSession, 'plannedDurationSec' | 'plan'>) {
+  if (!session.plan) return session.plannedDurationSec;
+  return session.plan.phases
+    .filter((phase) => phase.kind === 'focus' && phase.endedAt && !phase.skipped)
+    .reduce((sum, phase) => sum + phase.durationSec, 0);
+}
+
+/** Short label such as "Focus 2/4 · next: Break 5m". */
+export function describePomodoroPhase(plan: PomodoroPlanProgress | null | undefined) {
+  const phase = currentPomodoroPhase(plan);
+  if (!plan || !phase) return null;
+  const label = phase.kind === 'focus' ? `${POMODORO_PHASE_LABELS.focus} ${phase.cycle}/${plan.cycles}` : POMODORO_PHASE_LABELS[phase.kind];
+  const next = plan.phases[plan.currentIndex + 1];
+  if (!next) return `${label} · last phase`;
+  return `${label} · next: ${POMODORO_PHASE_LABELS[next.kind]} ${Math.round(next.durationSec / 60)}m`;
+}
@@ -10,7 +10,8 @@ export const TROPHY_CATEGORY_LABELS: Record<TrophyDefinition['category'], string
   stability: 'Stability & Dynamics',
   fun: 'Fun Flavor',
   social: 'Social & Friends',
-  secret: 'Secret'
+  secret: 'Secret',
+  personal: 'Personal'
 };
 
 export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
@@ -21,7 +22,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Log your very first productive minute.',
     emoji: '🌅',
     category: 'attention',
-    rarity: 'common'
+    rarity: 'common',
+    rule: { conditions: [{ metric: 'productive_minutes', window: 'all_time', comparator: 'gte', threshold: 1 }] }
   },
   {
     id: 'kept_the_thread',
@@ -29,7 +31,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Stay productive for 30 minutes without switching context.',
     emoji: '🧵',
     category: 'attention',
-    rarity: 'common'
+    rarity: 'common',
+    rule: { conditions: [{ metric: 'longest_productive_run_minutes', window: 'all_time', comparator: 'gte', threshold: 30 }] }
   },
   {
     id: 'deep_pocket',
@@ -37,7 +40,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Hit 60 minutes in a single productive run.',
     emoji: '🪙',
     category: 'attention',
-    rarity: 'uncommon'
+    rarity: 'uncommon',
+    rule: { conditions: [{ metric: 'longest_productive_run_minutes', window: 'all_time', comparator: 'gte', threshold: 60 }] }
   },
   {
     id: 'monk_hour',
@@ -45,7 +49,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Hit 90 minutes in a single productive run.',
     emoji: '🧘',
     category: 'attention',
-    rarity: 'rare'
+    rarity: 'rare',
+    rule: { conditions: [{ metric: 'longest_productive_run_minutes', window: 'all_time', comparator: 'gte', threshold: 90 }] }
   },
   {
     id: 'cathedral',
@@ -53,7 +58,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Log 3 hours of productive time in a 24h window.',
     emoji: '🏛️',
     category: 'attention',
-    rarity: 'rare'
+    rarity: 'rare',
+    rule: { conditions: [{ metric: 'productive_minutes', window: 'last_24h', comparator: 'gte', threshold: 180 }] }
   },
   {
     id: 'stonecutter',
@@ -61,7 +67,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: '5 consecutive days with 2 hours of productive time.',
     emoji: '⛏️',
     category: 'attention',
-    rarity: 'epic'
+    rarity: 'epic',
+    rule: { conditions: [{ metric: 'productive_minutes', window: 'all_time', comparator: 'gte', threshold: 120, streakDays: 5 }] }
   },
   {
     id: 'quiet_hands',
@@ -69,7 +76,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Keep idle time under 10% in a 24h window.',
     emoji: '🤲',
     category: 'attention',
-    rarity: 'uncommon'
+    rarity: 'uncommon',
+    rule: { conditions: [{ metric: 'idle_ratio', window: 'last_24h', comparator: 'lte', threshold: 0.1 }] }
   },
   {
     id: 'low_turbulence',
@@ -77,7 +85,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Keep context switches under 3/hour for a full day.',
     emoji: '🛫',
     category: 'attention',
-    rarity: 'uncommon'
+    rarity: 'uncommon',
+    rule: { conditions: [{ metric: 'context_switches_per_hour', window: 'last_24h', comparator: 'lte', threshold: 3 }] }
   },
   {
     id: 'flow_engineer',
@@ -93,7 +102,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Complete 10 replace items instead of frivolity.',
     emoji: '🧠',
     category: 'attention',
-    rarity: 'rare'
+    rarity: 'rare',
+    rule: { conditions: [{ metric: 'replace_items_consumed', window: 'all_time', comparator: 'gte', threshold: 10 }] }
   },
 
   // Recovery & Resilience
@@ -103,7 +113,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Return to productive within 10 minutes after frivolity.',
     emoji: '🏀',
     category: 'recovery',
-    rarity: 'common'
+    rarity: 'common',
+    rule: { conditions: [{ metric: 'best_recovery_minutes', window: 'all_time', comparator: 'lte', threshold: 10 }] }
   },
   {
     id: 'elastic_mind',
@@ -119,7 +130,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Only one frivolity session in a 24h window.',
     emoji: '🧊',
     category: 'recovery',
-    rarity: 'uncommon'
+    rarity: 'uncommon',
+    rule: { conditions: [{ metric: 'frivolity_sessions', window: 'today', comparator: 'eq', threshold: 1 }] }
   },
   {
     id: 'damage_control',
@@ -127,7 +139,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Keep frivolity under 15 minutes in 24h.',
     emoji: '🧯',
     category: 'recovery',
-    rarity: 'uncommon'
+    rarity: 'uncommon',
+    rule: { conditions: [{ metric: 'frivolity_minutes', window: 'last_24h', comparator: 'lte', threshold: 15 }] }
   },
   {
     id: 'phoenix',
@@ -143,7 +156,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Start your day productive within 15 minutes.',
     emoji: '🧊',
     category: 'recovery',
-    rarity: 'common'
+    rarity: 'common',
+    rule: { conditions: [{ metric: 'minutes_to_first_productive', window: 'today', comparator: 'lte', threshold: 15 }] }
   },
   {
     id: 'soft_landing',
@@ -161,7 +175,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: '24 hours without frivolity.',
     emoji: '🧼',
     category: 'streaks',
-    rarity: 'common'
+    rarity: 'common',
+    rule: { conditions: [{ metric: 'hours_since_frivolity', window: 'now', comparator: 'gte', threshold: 24 }] }
   },
   {
     id: 'two_day_glass',
@@ -169,7 +184,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: '48 hours without frivolity.',
     emoji: '🪟',
     category: 'streaks',
-    rarity: 'uncommon'
+    rarity: 'uncommon',
+    rule: { conditions: [{ metric: 'hours_since_frivolity', window: 'now', comparator: 'gte', threshold: 48 }] }
   },
   {
     id: 'three_day_gold',
@@ -177,7 +193,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: '72 hours without frivolity.',
     emoji: '🥇',
     category: 'streaks',
-    rarity: 'rare'
+    rarity: 'rare',
+    rule: { conditions: [{ metric: 'hours_since_frivolity', window: 'now', comparator: 'gte', threshold: 72 }] }
   },
   {
     id: 'week_of_steel',
@@ -185,7 +202,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: '7 days without frivolity.',
     emoji: '🛡️',
     category: 'streaks',
-    rarity: 'epic'
+    rarity: 'epic',
+    rule: { conditions: [{ metric: 'hours_since_frivolity', window: 'now', comparator: 'gte', threshold: 168 }] }
   },
   {
     id: 'weekend_shield',
@@ -193,7 +211,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'No frivolity on Saturday and Sunday.',
     emoji: '🗓️',
     category: 'streaks',
-    rarity: 'rare'
+    rarity: 'rare',
+    rule: { conditions: [{ metric: 'frivolity_sessions', window: 'last_weekend', comparator: 'eq', threshold: 0 }] }
   },
   {
     id: 'temptation_tamer',
@@ -201,7 +220,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Decline frivolity when it shows up.',
     emoji: '🐍',
     category: 'streaks',
-    rarity: 'uncommon'
+    rarity: 'uncommon',
+    rule: { conditions: [{ metric: 'paywall_declines', window: 'all_time', comparator: 'gte', threshold: 1 }] }
   },
   {
     id: 'gate_held',
@@ -209,7 +229,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Reject 10 paywall prompts.',
     emoji: '🚪',
     category: 'streaks',
-    rarity: 'rare'
+    rarity: 'rare',
+    rule: { conditions: [{ metric: 'paywall_declines', window: 'all_time', comparator: 'gte', threshold: 10 }] }
   },
 
   // Economy & Discipline
@@ -219,7 +240,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Go 24 hours with zero frivolity spending.',
     emoji: '💸',
     category: 'economy',
-    rarity: 'common'
+    rarity: 'common',
+    rule: { conditions: [{ metric: 'frivolity_spend', window: 'last_24h', comparator: 'lte', threshold: 0 }] }
   },
   {
     id: 'under_budget',
@@ -235,7 +257,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Grow your balance 3 days in a row.',
     emoji: '📈',
     category: 'economy',
-    rarity: 'uncommon'
+    rarity: 'uncommon',
+    rule: { conditions: [{ metric: 'net_coins', window: 'all_time', comparator: 'gt', threshold: 0, streakDays: 3 }] }
   },
   {
     id: 'investor',
@@ -277,7 +300,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Add 25 replace items to your library.',
     emoji: '🗂️',
     category: 'library',
-    rarity: 'common'
+    rarity: 'common',
+    rule: { conditions: [{ metric: 'library_replace_total', window: 'now', comparator: 'gte', threshold: 25 }] }
   },
   {
     id: 'librarian',
@@ -285,7 +309,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Mark 20 library items as done.',
     emoji: '📚',
     category: 'library',
-    rarity: 'uncommon'
+    rarity: 'uncommon',
+    rule: { conditions: [{ metric: 'library_consumed', window: 'now', comparator: 'gte', threshold: 20 }] }
   },
   {
     id: 'taste_upgrade',
@@ -301,7 +326,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Keep 10+ replace items ready.',
     emoji: '🧹',
     category: 'library',
-    rarity: 'common'
+    rarity: 'common',
+    rule: { conditions: [{ metric: 'library_replace_ready', window: 'now', comparator: 'gte', threshold: 10 }] }
   },
   {
     id: 'gentle_redirect',
@@ -309,7 +335,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Choose replace items 10 times.',
     emoji: '🧭',
     category: 'library',
-    rarity: 'uncommon'
+    rarity: 'uncommon',
+    rule: { conditions: [{ metric: 'replace_items_consumed', window: 'all_time', comparator: 'gte', threshold: 10 }] }
   },
   {
     id: 'completionist',
@@ -327,7 +354,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: '30 productive minutes before 10am.',
     emoji: '🌄',
     category: 'time',
-    rarity: 'common'
+    rarity: 'common',
+    rule: { conditions: [{ metric: 'productive_before_10_minutes', window: 'best_day', comparator: 'gte', threshold: 30 }] }
   },
   {
     id: 'noon_navigator',
@@ -343,7 +371,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: '2–5pm is 60% productive or more.',
     emoji: '🏰',
     category: 'time',
-    rarity: 'uncommon'
+    rarity: 'uncommon',
+    rule: { conditions: [{ metric: 'afternoon_productive_ratio', window: 'all_time', comparator: 'gte', threshold: 0.6 }] }
   },
   {
     id: 'night_watch',
@@ -351,7 +380,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'No frivolity after 9pm for 7 days.',
     emoji: '🕯️',
     category: 'time',
-    rarity: 'rare'
+    rarity: 'rare',
+    rule: { conditions: [{ metric: 'frivolity_after_21_minutes', window: 'all_time', comparator: 'lte', threshold: 0, streakDays: 7 }] }
   },
   {
     id: 'prime_time',
@@ -385,7 +415,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Flow stability stays high for 24h.',
     emoji: '📡',
     category: 'stability',
-    rarity: 'uncommon'
+    rarity: 'uncommon',
+    rule: { conditions: [{ metric: 'signal_clarity', window: 'last_24h', comparator: 'gte', threshold: 0.7 }] }
   },
   {
     id: 'low_drift',
@@ -393,7 +424,13 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Neutral time under 25% with solid activity.',
     emoji: '🛰️',
     category: 'stability',
-    rarity: 'uncommon'
+    rarity: 'uncommon',
+    rule: {
+      conditions: [
+        { metric: 'neutral_ratio', window: 'today', comparator: 'lt', threshold: 0.25 },
+        { metric: 'active_minutes', window: 'today', comparator: 'gte', threshold: 120 }
+      ]
+    }
   },
   {
     id: 'anti_chaos',
@@ -401,7 +438,13 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Low idle + low context switches in 24h.',
     emoji: '🧯',
     category: 'stability',
-    rarity: 'rare'
+    rarity: 'rare',
+    rule: {
+      conditions: [
+        { metric: 'idle_ratio', window: 'last_24h', comparator: 'lt', threshold: 0.2 },
+        { metric: 'context_switches_per_hour', window: 'last_24h', comparator: 'lt', threshold: 3 }
+      ]
+    }
   },
 
   // Fun Flavor
@@ -411,7 +454,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Hold the line after a paywall prompt.',
     emoji: '🛡️',
     category: 'fun',
-    rarity: 'common'
+    rarity: 'common',
+    rule: { conditions: [{ metric: 'paywall_declines', window: 'all_time', comparator: 'gte', threshold: 1 }] }
   },
   {
     id: 'lantern',
@@ -427,7 +471,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Correct course 3 times in a day.',
     emoji: '🧭',
     category: 'fun',
-    rarity: 'uncommon'
+    rarity: 'uncommon',
+    rule: { conditions: [{ metric: 'recoveries', window: 'today', comparator: 'gte', threshold: 3 }] }
   },
   {
     id: 'hourglass',
@@ -435,7 +480,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Log activity every day for 14 days.',
     emoji: '⏳',
     category: 'fun',
-    rarity: 'rare'
+    rarity: 'rare',
+    rule: { conditions: [{ metric: 'active_minutes', window: 'all_time', comparator: 'gt', threshold: 0, streakDays: 14 }] }
   },
   {
     id: 'touch_grass',
@@ -443,7 +489,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Keep total screen time under 3 hours in a day.',
     emoji: '🌿',
     category: 'fun',
-    rarity: 'uncommon'
+    rarity: 'uncommon',
+    rule: { conditions: [{ metric: 'screen_minutes', window: 'yesterday', comparator: 'lte', threshold: 180 }] }
   },
   {
     id: 'alchemist',
@@ -459,7 +506,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Add notes or purpose to 20 saved items.',
     emoji: '🗄️',
     category: 'fun',
-    rarity: 'uncommon'
+    rarity: 'uncommon',
+    rule: { conditions: [{ metric: 'library_notes', window: 'now', comparator: 'gte', threshold: 20 }] }
   },
 
   // Social & Friends
@@ -469,7 +517,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     description: 'Add your first friend.',
     emoji: '🤝',
     category: 'social',
-    rarity: 'common'
+    rarity: 'common',
+    rule: { conditions: [{ metric: 'friends', window: 'now', comparator: 'gte', threshold: 1 }] }
   },
   {
     id: 'good_sport',
@@ -520,7 +569,8 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     emoji: '🏃',
     category: 'secret',
     rarity: 'secret',
-    secret: true
+    secret: true,
+    rule: { conditions: [{ metric: 'paywall_quick_exits', window: 'all_time', comparator: 'gte', threshold: 1 }] }
   },
   {
     id: 'librarians_revenge',
@@ -547,7 +597,13 @@ export const TROPHY_DEFINITIONS: TrophyDefinition[] = [
     emoji: '🧨',
     category: 'secret',
     rarity: 'secret',
-    secret: true
+    secret: true,
+    rule: {
+      conditions: [
+        { metric: 'longest_productive_run_minutes', window: 'all_time', comparator: 'gte', threshold: 60 },
+        { metric: 'context_switches_per_hour', window: 'last_24h', comparator: 'gte', threshold: 8 }
+      ]
+    }
   },
   {
     id: 'surgical_strike',
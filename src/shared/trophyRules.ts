@@ -0,0 +1,247 @@
+import type { TrophyComparator, TrophyCondition, TrophyMetric, TrophyProgress, TrophyRule, TrophyWindow } from './types';
+
+export type TrophyMetricUnit = 'minutes' | 'hours' | 'ratio' | 'count' | 'coins' | 'per_hour' | 'score';
+
+export type TrophyMetricInfo = {
+  label: string;
+  unit: TrophyMetricUnit;
+  /** `range` metrics are summed over a window; `snapshot` metrics only have a current value. */
+  kind: 'range' | 'snapshot';
+};
+
+export const TROPHY_METRICS: Record<TrophyMetric, TrophyMetricInfo> = {
+  productive_minutes: { label: 'Productive time', unit: 'minutes', kind: 'range' },
+  neutral_minutes: { label: 'Neutral time', unit: 'minutes', kind: 'range' },
+  frivolity_minutes: { label: 'Frivolity time', unit: 'minutes', kind: 'range' },
+  idle_minutes: { label: 'Idle time', unit: 'minutes', kind: 'range' },
+  active_minutes: { label: 'Active time', unit: 'minutes', kind: 'range' },
+  screen_minutes: { label: 'Screen time (active + idle)', unit: 'minutes', kind: 'range' },
+  idle_ratio: { label: 'Idle share', unit: 'ratio', kind: 'range' },
+  neutral_ratio: { label: 'Neutral share of active time', unit: 'ratio', kind: 'range' },
+  afternoon_productive_ratio: { label: 'Productive share of 2–5pm', unit: 'ratio', kind: 'range' },
+  productive_before_10_minutes: { label: 'Productive time before 10am', unit: 'minutes', kind: 'range' },
+  frivolity_after_21_minutes: { label: 'Frivolity after 9pm', unit: 'minutes', kind: 'range' },
+  minutes_to_first_productive: { label: 'Minutes from first activity to first productive', unit: 'minutes', kind: 'range' },
+  context_switches_per_hour: { label: 'Context switches per hour', unit: 'per_hour', kind: 'range' },
+  longest_productive_run_minutes: { label: 'Longest productive run', unit: 'minutes', kind: 'range' },
+  signal_clarity: { label: 'Flow stability score', unit: 'score', kind: 'range' },
+  frivolity_sessions: { label: 'Frivolity sessions', unit: 'count', kind: 'range' },
+  recoveries: { label: 'Recoveries after frivolity', unit: 'count', kind: 'range' },
+  best_recovery_minutes: { label: 'Fastest recovery after frivolity', unit: 'minutes', kind: 'range' },
+  paywall_declines: { label: 'Paywall prompts declined', unit: 'count', kind: 'range' },
+  paywall_quick_exits: { label: 'Quick exits after paying', unit: 'count', kind: 'range' },
+  replace_items_consumed: { label: 'Replace items used', unit: 'count', kind: 'range' },
+  net_coins: { label: 'Net coins earned', unit: 'coins', kind: 'range' },
+  frivolity_spend: { label: 'Coins spent on frivolity', unit: 'coins', kind: 'range' },
+  hours_since_frivolity: { label: 'Hours since frivolity', unit: 'hours', kind: 'snapshot' },
+  balance: { label: 'Wallet balance', unit: 'coins', kind: 'snapshot' },
+  library_replace_ready: { label: 'Replace items ready', unit: 'count', kind: 'snapshot' },
+  library_replace_total: { label: 'Replace items saved', unit: 'count', kind: 'snapshot' },
+  library_consumed: { label: 'Library items done', unit: 'count', kind: 'snapshot' },
+  library_notes: { label: 'Library items with notes', unit: 'count', kind: 'snapshot' },
+  friends: { label: 'Friends', unit: 'count', kind: 'snapshot' }
+};
+
+export const TROPHY_WINDOW_LABELS: Record<TrophyWindow, string> = {
+  now: 'right now',
+  all_time: 'all time',
+  last_24h: 'in the last 24h',
+  today: 'today',
+  yesterday: 'yesterday',
+  last_7d: 'in the last 7 days',
+  last_weekend: 'last weekend',
+  best_day: 'on any single day'
+};
+
+export const TROPHY_COMPARATOR_LABELS: Record<TrophyComparator, string> = {
+  gte: 'at least',
+  gt: 'more than',
+  lte: 'at most',
+  lt: 'less than',
+  eq: 'exactly'
+};
+
+const MAX_STREAK_DAYS = 365;
+const STREAK_GAP_MS = 1.5 * 24 * 60 * 60 * 1000;
+
+/** What the engine reads; the backend builds one per evaluation from local history. */
+export interface TrophyMetricSource {
+  value(metric: TrophyMetric, window: TrophyWindow): number | null;
+  /** One value per recorded day (`YYYY-MM-DD`, oldest first). */
+  daily(metric: TrophyMetric): Array<{ day: string; value: number | null }>;
+}
+
+/** Problems with a rule, worded for the trophy editor; empty when the rule is usable. */
+export function validateTrophyRule(rule: TrophyRule | null | undefined): string[] {
+  if (!rule || !Array.isArray(rule.conditions) || rule.conditions.length === 0) {
+    return ['A trophy needs at least one condition'];
+  }
+  const errors: string[] = [];
+  rule.conditions.forEach((condition, index) => {
+    const prefix = `Condition ${index + 1}`;
+    const info = TROPHY_METRICS[condition.metric] as TrophyMetricInfo | undefined;
+    if (!info) {
+      errors.push(`${prefix}: unknown metric "${String(condition.metric)}"`);
+      return;
+    }
+    if (!(condition.comparator in TROPHY_COMPARATOR_LABELS)) {
+      errors.push(`${prefix}: unknown comparator "${String(condition.comparator)}"`);
+    }
+    if (typeof condition.threshold !== 'number' || !Number.isFinite(condition.threshold)) {
+      errors.push(`${prefix}: threshold must be a number`);
+    }
+    if (condition.streakDays != null) {
+      if (!Number.isInteger(condition.streakDays) || condition.streakDays < 1 || condition.streakDays > MAX_STREAK_DAYS) {
+        errors.push(`${prefix}: streak must be 1–${MAX_STREAK_DAYS} days`);
+      } else if (info.kind === 'snapshot') {
+        errors.push(`${prefix}: ${info.label} has no daily history for a streak`);
+      }
+      return;
+    }
+    if (!(condition.window in TROPHY_WINDOW_LABELS)) {
+      errors.push(`${prefix}: unknown window "${String(condition.window)}"`);
+    } else if (info.kind === 'snapshot' && condition.window !== 'now') {
+      errors.push(`${prefix}: ${info.label} is only available right now`);
+    } else if (info.kind === 'range' && condition.window === 'now') {
+      errors.push(`${prefix}: ${info.label} needs a time window`);
+    }
+  });
+  return errors;
+}
+
+export function compareTrophyValue(value: number, comparator: TrophyComparator, threshold: number) {
+  switch (comparator) {
+    case 'gte':
+      return value >= threshold;
+    case 'gt':
+      return value > threshold;
+    case 'lte':
+      return value <= threshold;
+    case 'lt':
+      return value < threshold;
+    case 'eq':
+      return value === threshold;
+  }
+}
+
+export function formatTrophyMetricValue(metric: TrophyMetric, value: number) {
+  switch (TROPHY_METRICS[metric].unit) {
+    case 'minutes':
+      return value >= 120 ? `${(value / 60).toFixed(1)}h` : `${Math.round(value)}m`;
+    case 'hours':
+      return `${Math.round(value)}h`;
+    case 'ratio':
+    case 'score':
+      return `${Math.round(value * 100)}%`;
+    case 'per_hour':
+      return `${value.toFixed(1)}/hr`;
+    case 'coins':
+      return `${Math.round(value)} coins`;
+    case 'count':
+      return String(Math.round(value));
+  }
+}
+
+export function describeTrophyCondition(condition: TrophyCondition) {
+  const info = TROPHY_METRICS[condition.metric];
+  const amount = `${TROPHY_COMPARATOR_LABELS[condition.comparator]} ${formatTrophyMetricValue(condition.metric, condition.threshold)}`;
+  if (condition.streakDays) {
+    return `${info.label} ${amount} on ${condition.streakDays} consecutive days`;
+  }
+  return `${info.label} ${amount} ${TROPHY_WINDOW_LABELS[condition.window]}`;
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function pickBestDay(values: number[], comparator: TrophyComparator, threshold: number) {
+  if (!values.length) return null;
+  if (comparator === 'gte' || comparator === 'gt') return Math.max(...values);
+  if (comparator === 'lte' || comparator === 'lt') return Math.min(...values);
+  return values.reduce((best, value) => (Math.abs(value - threshold) < Math.abs(best - threshold) ? value : best));
+}
+
+function longestStreak(days: Array<{ day: string; value: number | null }>, condition: TrophyCondition) {
+  let streak = 0;
+  let best = 0;
+  let previous: number | null = null;
+  for (const { day, value } of days) {
+    const at = new Date(`${day}T00:00:00`).getTime();
+    if (previous != null && at - previous > STREAK_GAP_MS) streak = 0;
+    if (value != null && compareTrophyValue(value, condition.comparator, condition.threshold)) {
+      streak += 1;
+      best = Math.max(best, streak);
+    } else {
+      streak = 0;
+    }
+    previous = at;
+  }
+  return best;
+}
+
+/**
+ * Progress toward one condition. "At least" conditions fill as the value
+ * approaches the threshold; "at most" conditions are full while under the
+ * limit and shrink as the value overshoots; exact matches are all or nothing.
+ */
+export function evaluateTrophyCondition(condition: TrophyCondition, source: TrophyMetricSource): TrophyProgress {
+  const info = TROPHY_METRICS[condition.metric];
+
+  if (condition.streakDays) {
+    const target = condition.streakDays;
+    const streak = Math.min(target, longestStreak(source.daily(condition.metric), condition));
+    return {
+      current: streak,
+      target,
+      ratio: streak / target,
+      label: `${streak}/${target} days`,
+      state: streak >= target ? 'earned' : 'locked'
+    };
+  }
+
+  const value =
+    condition.window === 'best_day'
+      ? pickBestDay(
+          source
+            .daily(condition.metric)
+            .map((entry) => entry.value)
+            .filter((entry): entry is number => entry != null),
+          condition.comparator,
+          condition.threshold
+        )
+      : source.value(condition.metric, condition.window);
+  if (value == null) {
+    return { current: 0, target: condition.threshold, ratio: 0, label: `Need data for ${info.label.toLowerCase()}`, state: 'untracked' };
+  }
+
+  const { comparator, threshold } = condition;
+  const met = compareTrophyValue(value, comparator, threshold);
+  let ratio: number;
+  if (met) {
+    ratio = 1;
+  } else if (comparator === 'gte' || comparator === 'gt') {
+    ratio = threshold > 0 ? Math.max(0, Math.min(0.99, value / threshold)) : 0;
+  } else if (comparator === 'lte' || comparator === 'lt') {
+    ratio = value > 0 ? Math.max(0, Math.min(0.99, threshold / value)) : 0;
+  } else {
+    ratio = 0;
+  }
+
+  const shown = formatTrophyMetricValue(condition.metric, value);
+  const limit = formatTrophyMetricValue(condition.metric, threshold);
+  const label =
+    comparator === 'gte' || comparator === 'gt' ? `${shown} / ${limit}` : comparator === 'eq' ? `${shown} (need ${limit})` : `${shown} (limit ${limit})`;
+  return { current: round(value), target: threshold, ratio, label, state: met ? 'earned' : 'locked' };
+}
+
+/** All conditions must hold; the bar shows whichever condition is furthest from done. */
+export function evaluateTrophyRule(rule: TrophyRule, source: TrophyMetricSource): TrophyProgress {
+  const results = rule.conditions.map((condition) => evaluateTrophyCondition(condition, source));
+  if (!results.length) return { current: 0, target: 1, ratio: 0, label: 'No conditions', state: 'untracked' };
+  const untracked = results.find((result) => result.state === 'untracked');
+  if (untracked) return untracked;
+  const weakest = results.reduce((lowest, result) => (result.ratio < lowest.ratio ? result : lowest));
+  const earned = results.every((result) => result.state === 'earned');
+  return { ...weakest, state: earned ? 'earned' : 'locked' };
+}
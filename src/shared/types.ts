@@ -1,3 +1,5 @@
+import type { PaywallMeteredQuote, PaywallPackQuote } from './paywallPricing';
+
 export type ActivitySource = 'app' | 'url';
 export type ActivityCategory = 'productive' | 'neutral' | 'frivolity' | 'draining' | 'emergency';
 
@@ -53,6 +55,74 @@ export type ActivitySummary = {
   }>;
 };
 
+/**
+ * User-defined classification rule. Every condition in `match` that is set
+ * must hold for the rule to fire; unset conditions are ignored. Times are
+ * local `HH:MM` and a window whose end is before its start wraps midnight.
+ */
+export type ActivityRuleMatch = {
+  domain?: string | null;
+  app?: string | null;
+  titlePattern?: string | null;
+  weekdays?: number[] | null;
+  startTime?: string | null;
+  endTime?: string | null;
+  pomodoroActive?: boolean | null;
+  writingActive?: boolean | null;
+  writingProjectId?: number | null;
+};
+
+export type ActivityRuleIdleMode = 'idle' | 'active';
+
+export type ActivityRuleAction = {
+  category?: ActivityCategory | null;
+  suppressContext?: boolean;
+  idle?: ActivityRuleIdleMode | null;
+};
+
+export type ActivityRule = {
+  id: number;
+  name: string;
+  enabled: boolean;
+  priority: number;
+  match: ActivityRuleMatch;
+  action: ActivityRuleAction;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ActivityRuleInput = {
+  name: string;
+  enabled?: boolean;
+  priority?: number;
+  match: ActivityRuleMatch;
+  action: ActivityRuleAction;
+};
+
+export type ActivityRuleContext = {
+  at: string;
+  domain: string | null;
+  appName: string | null;
+  windowTitle: string | null;
+  pomodoroActive: boolean;
+  writingProjectId: number | null;
+};
+
+export type ActivityRuleTrace = {
+  ruleId: number;
+  name: string;
+  matched: boolean;
+  reasons: string[];
+};
+
+export type ActivityRuleTestResult = {
+  context: ActivityRuleContext;
+  rule: ActivityRule | null;
+  action: ActivityRuleAction | null;
+  explanation: string;
+  trace: ActivityRuleTrace[];
+};
+
 export type ActivityJourneySegment = {
   start: string;
   end: string;
@@ -72,22 +142,157 @@ export type ActivityJourney = {
 
 export type WalletSnapshot = {
   balance: number;
+  /** Coins held in active savings goals; included in `balance` but not spendable. */
+  escrowed?: number;
+  spendable?: number;
 };
 
+export type SavingsGoalStatus = 'active' | 'released';
+export type SavingsGoalReleaseReason = 'reached' | 'scheduled' | 'manual';
+
+export type SavingsGoal = {
+  id: number;
+  name: string;
+  targetCoins: number;
+  escrowedCoins: number;
+  /** ISO timestamp at which escrow is released even if the target is not reached. */
+  releaseAt: string | null;
+  status: SavingsGoalStatus;
+  releaseReason: SavingsGoalReleaseReason | null;
+  createdAt: string;
+  releasedAt: string | null;
+};
+
+export type SavingsGoalInput = {
+  name: string;
+  targetCoins: number;
+  releaseAt?: string | null;
+};
+
+/**
+ * `reversal` cancels an earlier entry (meta.reversesSyncId); `opening` carries
+ * the balance a device had when its ledger was first adopted and never syncs.
+ */
+export type TransactionType = 'earn' | 'spend' | 'adjust' | 'reversal' | 'opening';
+
 export type TransactionRecord = {
   id: number;
   ts: string;
-  type: 'earn' | 'spend' | 'adjust';
+  type: TransactionType;
   amount: number;
   meta: Record<string, unknown>;
   syncId?: string;
 };
 
+export type WalletLedgerDiscrepancy = {
+  kind: 'balance-drift' | 'invalid-amount' | 'orphan-reversal' | 'duplicate-reversal';
+  detail: string;
+  transactionId?: number;
+  syncId?: string;
+  amount?: number;
+};
+
+export type WalletLedgerReport = {
+  checkedAt: string;
+  cachedBalance: number;
+  ledgerBalance: number;
+  transactionCount: number;
+  ok: boolean;
+  discrepancies: WalletLedgerDiscrepancy[];
+  repaired: boolean;
+};
+
+/**
+ * How the desktop settled one entry of an extension's offline wallet journal.
+ * `capped` spends were only partly covered by the merged balance; `rejected`
+ * entries failed signature checks and were not applied.
+ */
+export type OfflineWalletOutcomeStatus = 'applied' | 'duplicate' | 'capped' | 'rejected';
+
+export type OfflineWalletOutcome = {
+  syncId: string;
+  type: 'earn' | 'spend' | 'adjust';
+  requestedAmount: number;
+  appliedAmount: number;
+  status: OfflineWalletOutcomeStatus;
+  reason?: string;
+};
+
+export type OfflineWalletReconciliation = {
+  reconciledAt: string;
+  outcomes: OfflineWalletOutcome[];
+  applied: number;
+  duplicates: number;
+  capped: number;
+  rejected: number;
+  /** Coins spent offline that the merged balance could not cover and were written off. */
+  shortfall: number;
+  balance: number;
+};
+
+/** Opt-in demand pricing for a market rate; see `evaluateDynamicPricing`. */
+export type DynamicPricingConfig = {
+  enabled: boolean;
+  /** Fractional rate increase per minute bought in the trailing 24 hours. */
+  dayWeight: number;
+  /** Fractional rate increase per minute bought in the trailing 7 days. */
+  weekWeight: number;
+  /** Hours without a purchase for the demand premium to halve. */
+  decayHalfLifeHours: number;
+  /** Upper bound on the demand multiplier. */
+  maxMultiplier: number;
+};
+
 export type MarketRate = {
   domain: string;
   ratePerMin: number;
   packs: Array<{ minutes: number; price: number }>;
   hourlyModifiers: number[];
+  /**
+   * Optional 7×24 matrix indexed by `Date.getDay()` (0 = Sunday) then hour.
+   * When present it replaces `hourlyModifiers`, which then only seeds the editor.
+   */
+  weekdayModifiers?: number[][] | null;
+  dynamicPricing?: DynamicPricingConfig | null;
+};
+
+/**
+ * A dated replacement for a rate's hourly curve (holidays, vacation, deadline
+ * weeks). Dates are local `YYYY-MM-DD`, inclusive; `domain: null` applies to
+ * every market rate.
+ */
+export type MarketCalendarOverride = {
+  id: number;
+  label: string;
+  startDate: string;
+  endDate: string;
+  domain: string | null;
+  hourlyModifiers: number[];
+  createdAt: string;
+};
+
+export type MarketCalendarOverrideInput = Omit<MarketCalendarOverride, 'id' | 'createdAt'>;
+
+export type DynamicPricingQuote = {
+  baseRatePerMin: number;
+  ratePerMin: number;
+  multiplier: number;
+  dayMinutes: number;
+  weekMinutes: number;
+  lastPurchaseAt: number | null;
+};
+
+export type DynamicPricePoint = {
+  offsetHours: number;
+  ratePerMin: number;
+  multiplier: number;
+};
+
+export type MarketPricing = {
+  domain: string;
+  quote: DynamicPricingQuote;
+  /** Projected rate over the next 48h without further purchases. */
+  curve: DynamicPricePoint[];
 };
 
 export type CategorisationConfig = {
@@ -105,13 +310,30 @@ export type EconomyState = {
   neutralClockedIn: boolean;
 };
 
+/** What was actually tracked during a focus session, and what it paid. */
+export type FocusVerification = {
+  productiveSeconds: number;
+  neutralSeconds: number;
+  /** Frivolity and draining time. */
+  frivolitySeconds: number;
+  idleSeconds: number;
+  /** Session time with no recorded activity at all. */
+  untrackedSeconds: number;
+  /** Productive-equivalent seconds after category weights. */
+  creditedSeconds: number;
+  completionBonus: number;
+  payout: number;
+};
+
 export type FocusSession = {
   id: number;
   startedAt: string;
   endedAt: string | null;
   durationSec: number;
   completed: boolean;
+  /** Realized payout multiplier: 1 means every planned minute was productive. */
   multiplier: number;
+  verification?: FocusVerification | null;
 };
 
 // ----------------------------------------------------------------------------
@@ -138,6 +360,41 @@ export type PomodoroOverride = {
   durationSec: number;
 };
 
+export type PomodoroPhaseKind = 'focus' | 'short-break' | 'long-break';
+
+/** Multi-cycle plan, e.g. 4 × 25m focus with 5m breaks and a 20m long break. */
+export type PomodoroPlanConfig = {
+  cycles: number;
+  shortBreakSec: number;
+  /** 0 skips long breaks. */
+  longBreakSec: number;
+  /** Take the long break after every N focus blocks; defaults to `cycles`. */
+  longBreakEvery?: number;
+  /** Breaks are unrestricted unless given their own allowlist. */
+  shortBreakAllowlist?: PomodoroAllowlistEntry[] | null;
+  longBreakAllowlist?: PomodoroAllowlistEntry[] | null;
+};
+
+export type PomodoroPhase = {
+  index: number;
+  kind: PomodoroPhaseKind;
+  /** Focus block this phase belongs to (1-based); breaks share the block they follow. */
+  cycle: number;
+  durationSec: number;
+  /** Null leaves the phase unrestricted. */
+  allowlist: PomodoroAllowlistEntry[] | null;
+  startedAt: string | null;
+  endedAt: string | null;
+  /** Ended early with `skipPhase`; skipped focus earns no completion bonus. */
+  skipped?: boolean;
+};
+
+export type PomodoroPlanProgress = {
+  cycles: number;
+  currentIndex: number;
+  phases: PomodoroPhase[];
+};
+
 export type PomodoroSessionConfig = {
   durationSec: number;
   breakDurationSec?: number;
@@ -145,8 +402,16 @@ export type PomodoroSessionConfig = {
   allowlist: PomodoroAllowlistEntry[];
   temporaryUnlockSec?: number;
   presetId?: string | null;
+  plan?: PomodoroPlanConfig | null;
 };
 
+/**
+ * Why a session ended. `expired` means its time ran out while the app was
+ * closed; `interrupted` means the app stopped and the session couldn't be
+ * picked back up on restart.
+ */
+export type PomodoroCompletedReason = 'completed' | 'canceled' | 'expired' | 'interrupted';
+
 export type PomodoroSession = {
   id: string;
   state: PomodoroSessionState;
@@ -160,8 +425,9 @@ export type PomodoroSession = {
   overrides: PomodoroOverride[];
   remainingMs: number;
   presetId?: string | null;
-  completedReason?: 'completed' | 'canceled' | 'expired';
+  completedReason?: PomodoroCompletedReason;
   breakRemainingMs?: number | null;
+  plan?: PomodoroPlanProgress | null;
 };
 
 export type PomodoroBlockEventReason = 'not-allowlisted' | 'override-expired' | 'unknown-session' | 'verification-failed';
@@ -238,6 +504,34 @@ export type SyncDevice = {
   isCurrent?: boolean;
 };
 
+/**
+ * Local API pairing. `read` covers GET requests, `write` every other method,
+ * and `events` the `/events` websocket.
+ */
+export type PairingScope = 'read' | 'write' | 'events';
+
+export type PairedClient = {
+  id: number;
+  name: string;
+  scopes: PairingScope[];
+  createdAt: string;
+  lastSeenAt: string | null;
+  revokedAt: string | null;
+};
+
+export type PairingCode = {
+  code: string;
+  scopes: PairingScope[];
+  expiresAt: string;
+};
+
+export type PairingExchangeResult = {
+  token: string;
+  /** Signs the client's offline wallet journal. Sent once, here, and never on a request. */
+  journalKey: string;
+  client: PairedClient;
+};
+
 export type SyncStatus = {
   configured: boolean;
   authenticated: boolean;
@@ -252,11 +546,54 @@ export type ConsumptionDaySummary = {
   count: number;
 };
 
+export type BudgetTargetKind = 'category' | 'domain' | 'group';
+
+/**
+ * What happens to paywall purchases once a budget is exhausted: `warn` only
+ * notifies, `surcharge` multiplies pack prices and metered rates, `block`
+ * refuses new sessions and ends running ones (emergency access is exempt).
+ */
+export type BudgetEscalation = 'warn' | 'surcharge' | 'block';
+
 export type Budget = {
   id: number;
   period: 'day' | 'week';
+  targetKind: BudgetTargetKind;
+  /** Activity category, domain, or CategorisationConfig group key, depending on `targetKind`. */
   category: string;
   secondsBudgeted: number;
+  escalation: BudgetEscalation;
+  surchargeMultiplier: number;
+};
+
+export type BudgetInput = {
+  period: 'day' | 'week';
+  targetKind?: BudgetTargetKind;
+  category: string;
+  secondsBudgeted: number;
+  escalation?: BudgetEscalation;
+  surchargeMultiplier?: number;
+};
+
+export type BudgetStatus = {
+  budget: Budget;
+  periodStart: string;
+  usedSeconds: number;
+  remainingSeconds: number;
+  ratio: number;
+  state: 'ok' | 'warning' | 'exhausted';
+};
+
+export type BudgetWarning = {
+  budgetId: number;
+  period: Budget['period'];
+  targetKind: BudgetTargetKind;
+  target: string;
+  threshold: number;
+  usedSeconds: number;
+  secondsBudgeted: number;
+  escalation: BudgetEscalation;
+  exhausted: boolean;
 };
 
 export type PaywallSession = {
@@ -279,7 +616,123 @@ export type PaywallSession = {
   allowedUrl?: string;
 };
 
-export type EmergencyPolicyId = 'off' | 'gentle' | 'balanced' | 'strict';
+export type PaywallDiagnosticEvent = {
+  ts: number;
+  event:
+    | 'session-started'
+    | 'session-ended'
+    | 'session-paused'
+    | 'session-resumed'
+    | 'session-tick'
+    | 'session-ignored-inactive';
+  domain: string;
+  mode?: PaywallSession['mode'];
+  reason?: string;
+  remainingSeconds?: number | null;
+  paused?: boolean;
+  intervalSeconds?: number;
+  activeDomain?: string | null;
+  activeUrl?: string | null;
+};
+
+/** Filters for the persisted diagnostics log; `since`/`until` are epoch ms. */
+export type PaywallDiagnosticsQuery = {
+  domain?: string;
+  since?: number;
+  until?: number;
+  limit?: number;
+};
+
+/** Puzzle types the desktop can issue as paywall challenges. */
+export type ChallengeKind = 'sudoku';
+export type ChallengeOutcome = 'issued' | 'passed' | 'failed' | 'expired';
+
+/**
+ * A puzzle generated and remembered by the desktop. Only the puzzle travels to
+ * the client; the solution stays server-side and `challengeId` is signed so it
+ * cannot be forged.
+ */
+export type IssuedChallenge = {
+  challengeId: string;
+  kind: ChallengeKind;
+  domain: string;
+  /** 0-based; rises with every pass earned today. */
+  difficulty: number;
+  /** 9×9 grid with 0 for blank squares. */
+  puzzle: number[][];
+  requiredCorrect: number;
+  /** Length of the pass a correct solution unlocks. */
+  passSeconds: number;
+  issuedAt: string;
+  expiresAt: string;
+  /** Passes still available today, including this one. */
+  remainingToday: number;
+};
+
+export type ChallengeSubmission = {
+  challengeId: string;
+  /** The client's grid; blanks may be 0 or null. */
+  entries: Array<Array<number | null>>;
+};
+
+export type ChallengeResult = {
+  challengeId: string;
+  passed: boolean;
+  correctSquares: number;
+  requiredCorrect: number;
+  elapsedSeconds: number;
+  passSeconds: number;
+  reason?: 'too-few-correct' | 'too-fast';
+};
+
+export type ChallengeStats = {
+  periodDays: number;
+  issued: number;
+  passed: number;
+  failed: number;
+  expired: number;
+  /** Share of finished challenges that were passed, 0–1. */
+  passRate: number;
+  avgSolveSeconds: number | null;
+  byDifficulty: Array<{ difficulty: number; issued: number; passed: number }>;
+  topDomains: Array<{ domain: string; passed: number }>;
+};
+
+export type EmergencyPresetId = 'off' | 'gentle' | 'balanced' | 'strict';
+export type CustomEmergencyPolicyId = `custom:${string}`;
+export type EmergencyPolicyId = EmergencyPresetId | CustomEmergencyPolicyId;
+
+/** The knobs every emergency policy sets; `tokensPerDay: null` means unlimited. */
+export type EmergencyPolicyRules = {
+  /** Only enforced when `autoExpire` is set; the presets never expire on their own. */
+  durationSeconds: number;
+  autoExpire: boolean;
+  tokensPerDay: number | null;
+  cooldownSeconds: number;
+  urlLocked: boolean;
+  debtCoins: number;
+};
+
+export type EmergencyPolicyRuleOverride = Partial<EmergencyPolicyRules>;
+
+/**
+ * A user-defined policy. Schedule entries apply on the listed weekdays
+ * (0 = Sunday, by the app's day boundary); a domain override applies to the
+ * domain and its subdomains and wins over the schedule.
+ */
+export type CustomEmergencyPolicy = EmergencyPolicyRules & {
+  id: CustomEmergencyPolicyId;
+  label: string;
+  domainOverrides: Array<{ domain: string; rules: EmergencyPolicyRuleOverride }>;
+  schedule: Array<{ weekdays: number[]; rules: EmergencyPolicyRuleOverride }>;
+};
+
+/**
+ * What happens to paywall time left on the clock while the app was closed:
+ * `freeze` picks up where it stopped, `count-down` charges the downtime
+ * against timed passes, `refund` ends packs and returns their unused coins.
+ */
+export type PaywallDowntimePolicy = 'freeze' | 'count-down' | 'refund';
 export type GuardrailColorFilter = 'full-color' | 'greyscale' | 'redscale';
 export type AppTheme = 'lavender' | 'olive';
 
@@ -335,12 +788,68 @@ export type TrophyCategory =
   | 'stability'
   | 'fun'
   | 'social'
-  | 'secret';
+  | 'secret'
+  | 'personal';
 
 export type TrophyRarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary' | 'secret';
 
 export type TrophyProgressState = 'locked' | 'earned' | 'untracked';
 
+export type TrophyMetric =
+  | 'productive_minutes'
+  | 'neutral_minutes'
+  | 'frivolity_minutes'
+  | 'idle_minutes'
+  | 'active_minutes'
+  | 'screen_minutes'
+  | 'idle_ratio'
+  | 'neutral_ratio'
+  | 'afternoon_productive_ratio'
+  | 'productive_before_10_minutes'
+  | 'frivolity_after_21_minutes'
+  | 'minutes_to_first_productive'
+  | 'context_switches_per_hour'
+  | 'longest_productive_run_minutes'
+  | 'signal_clarity'
+  | 'frivolity_sessions'
+  | 'recoveries'
+  | 'best_recovery_minutes'
+  | 'paywall_declines'
+  | 'paywall_quick_exits'
+  | 'replace_items_consumed'
+  | 'net_coins'
+  | 'frivolity_spend'
+  | 'hours_since_frivolity'
+  | 'balance'
+  | 'library_replace_ready'
+  | 'library_replace_total'
+  | 'library_consumed'
+  | 'library_notes'
+  | 'friends';
+
+/**
+ * Time range a condition reads. `now` is for point-in-time metrics (balance,
+ * library counts); `best_day` takes the single recorded day that comes
+ * closest to meeting the condition.
+ */
+export type TrophyWindow = 'now' | 'all_time' | 'last_24h' | 'today' | 'yesterday' | 'last_7d' | 'last_weekend' | 'best_day';
+
+export type TrophyComparator = 'gte' | 'gt' | 'lte' | 'lt' | 'eq';
+
+export type TrophyCondition = {
+  metric: TrophyMetric;
+  window: TrophyWindow;
+  comparator: TrophyComparator;
+  threshold: number;
+  /** Require the comparison to hold on this many consecutive recorded days (window is ignored). */
+  streakDays?: number;
+};
+
+/** Every condition must hold for the trophy to unlock. */
+export type TrophyRule = {
+  conditions: TrophyCondition[];
+};
+
 export type TrophyDefinition = {
   id: string;
   name: string;
@@ -349,6 +858,23 @@ export type TrophyDefinition = {
   category: TrophyCategory;
   rarity: TrophyRarity;
   secret?: boolean;
+  rule?: TrophyRule;
+};
+
+export type CustomTrophy = {
+  id: string;
+  name: string;
+  description: string;
+  emoji: string;
+  rule: TrophyRule;
+  createdAt: string;
+};
+
+export type CustomTrophyInput = {
+  name: string;
+  description?: string;
+  emoji?: string;
+  rule: TrophyRule;
 };
 
 export type TrophyProgress = {
@@ -370,6 +896,7 @@ export type TrophyStatus = {
   earnedAt?: string;
   progress: TrophyProgress;
   pinned: boolean;
+  custom?: boolean;
 };
 
 export type TrophyProfileSummary = {
@@ -425,6 +952,8 @@ export type FriendIdentity = {
   relayUrl: string;
   createdAt: string;
   lastPublishedAt?: string;
+  /** Relay protocol the identity is registered for; 2 = encrypted summaries. */
+  relayVersion?: number;
 };
 
 export type FriendEntry = {
@@ -444,6 +973,7 @@ export type FriendFeedSummary = {
     periodDays: number;
     totalActiveHours: number;
     productivityScore: number;
+    deepWorkSeconds?: number;
     categoryBreakdown: Record<ActivityCategory | 'idle', number>;
     focusTrend?: string;
     peakProductiveHour?: number;
@@ -451,11 +981,24 @@ export type FriendFeedSummary = {
   };
 };
 
+/** One day of a relay friend's decrypted history, from the local cache. */
+export type FriendHistoryPoint = {
+  date: string;
+  updatedAt: string;
+  deepWorkSeconds: number;
+  productivityScore: number;
+  totalActiveHours: number;
+};
+
 export type RendererApi = {
   wallet: {
     get(): Promise<WalletSnapshot>;
     earn(amount: number, meta?: Record<string, unknown>): Promise<WalletSnapshot>;
     spend(amount: number, meta?: Record<string, unknown>): Promise<WalletSnapshot>;
+    goals(): Promise<SavingsGoal[]>;
+    createGoal(payload: SavingsGoalInput): Promise<SavingsGoal>;
+    escrow(goalId: number, amount: number): Promise<SavingsGoal>;
+    releaseGoal(goalId: number): Promise<SavingsGoal>;
   };
   focus: {
     start(duration: number): Promise<FocusSession>;
@@ -470,6 +1013,7 @@ export type RendererApi = {
     pause(): Promise<PomodoroSession | null>;
     resume(): Promise<PomodoroSession | null>;
     startBreak(durationSec?: number): Promise<PomodoroSession | null>;
+    skipPhase(): Promise<PomodoroSession | null>;
     summaries(limit?: number): Promise<PomodoroSessionSummary[]>;
   };
   activities: {
@@ -477,10 +1021,21 @@ export type RendererApi = {
     summary(windowHours?: number, deviceId?: string | null): Promise<ActivitySummary>;
     journey(windowHours?: number, deviceId?: string | null): Promise<ActivityJourney | null>;
   };
+  activityRules: {
+    list(): Promise<ActivityRule[]>;
+    create(payload: ActivityRuleInput): Promise<ActivityRule>;
+    update(id: number, patch: Partial<ActivityRuleInput>): Promise<ActivityRule>;
+    remove(id: number): Promise<void>;
+    test(payload: Partial<ActivityRuleContext>): Promise<ActivityRuleTestResult>;
+  };
   market: {
     list(): Promise<MarketRate[]>;
     upsert(rate: MarketRate): Promise<void>;
     delete(domain: string): Promise<void>;
+    pricing(domain: string): Promise<MarketPricing | null>;
+    listCalendar(): Promise<MarketCalendarOverride[]>;
+    addCalendarOverride(payload: MarketCalendarOverrideInput): Promise<MarketCalendarOverride>;
+    removeCalendarOverride(id: number): Promise<void>;
   };
   intentions: {
     list(date: string): Promise<Intention[]>;
@@ -490,23 +1045,27 @@ export type RendererApi = {
   };
   budgets: {
     list(): Promise<Budget[]>;
-    add(payload: { period: 'day' | 'week'; category: string; secondsBudgeted: number }): Promise<Budget>;
+    add(payload: BudgetInput): Promise<Budget>;
     remove(id: number): Promise<void>;
+    status(): Promise<BudgetStatus[]>;
   };
   economy: {
     state(): Promise<EconomyState>;
     setNeutralClock(enabled: boolean): Promise<void>;
   };
   paywall: {
-    startMetered(domain: string): Promise<unknown>;
-    buyPack(domain: string, minutes: number): Promise<unknown>;
-    startChallengePass(domain: string, options?: { durationSeconds?: number; solvedSquares?: number }): Promise<unknown>;
+    quote(domain: string, minutes?: number[]): Promise<{ metered: PaywallMeteredQuote; packs: PaywallPackQuote[] }>;
+    startMetered(domain: string, quoteId: string): Promise<unknown>;
+    buyPack(domain: string, minutes: number, quoteId: string): Promise<unknown>;
+    issueChallenge(domain: string): Promise<IssuedChallenge>;
+    startChallengePass(domain: string, submission: ChallengeSubmission): Promise<unknown>;
     decline(domain: string): Promise<void>;
     cancelPack(domain: string): Promise<void>;
     end(domain: string, options?: { refundUnused?: boolean }): Promise<void>;
     sessions(): Promise<PaywallSession[]>;
     pause(domain: string): Promise<void>;
     resume(domain: string): Promise<void>;
+    diagnostics(query?: PaywallDiagnosticsQuery): Promise<PaywallDiagnosticEvent[]>;
   };
   settings: {
     theme(): Promise<AppTheme>;
@@ -521,8 +1080,12 @@ export type RendererApi = {
     updateExcludedKeywords(value: string[]): Promise<void>;
     emergencyPolicy(): Promise<EmergencyPolicyId>;
     updateEmergencyPolicy(value: EmergencyPolicyId): Promise<void>;
+    customEmergencyPolicies(): Promise<CustomEmergencyPolicy[]>;
+    updateCustomEmergencyPolicies(value: CustomEmergencyPolicy[]): Promise<CustomEmergencyPolicy[]>;
     emergencyReminderInterval(): Promise<number>;
     updateEmergencyReminderInterval(value: number): Promise<void>;
+    paywallDowntimePolicy(): Promise<PaywallDowntimePolicy>;
+    updatePaywallDowntimePolicy(value: PaywallDowntimePolicy): Promise<void>;
     economyExchangeRate(): Promise<number>;
     updateEconomyExchangeRate(value: number): Promise<void>;
     dailyWalletResetEnabled(): Promise<boolean>;
@@ -584,12 +1147,19 @@ export type RendererApi = {
     engagement(domain: string, days?: number): Promise<EngagementMetrics>;
     trends(granularity?: 'hour' | 'day' | 'week'): Promise<TrendPoint[]>;
     episodes(query?: BehaviorEpisodeQuery): Promise<BehaviorEpisodeMap>;
+    challenges(days?: number): Promise<ChallengeStats>;
   };
   anki: {
     status(payload?: { deckId?: number | null; limit?: number }): Promise<AnkiStatusSnapshot>;
     analytics(days?: number): Promise<AnkiAnalyticsSnapshot>;
     pickDeckFile(): Promise<string | null>;
-    importDeck(path: string): Promise<{ ok: true; result: AnkiImportSnapshot; status: AnkiStatusSnapshot }>;
+    importDeck(path: string, mode?: AnkiImportMode): Promise<{ ok: true; result: AnkiImportSnapshot; status: AnkiStatusSnapshot }>;
+    exportDeck(deckId: number): Promise<{ ok: true; cancelled: boolean; result: AnkiExportSnapshot | null }>;
+    setDeckScheduler(
+      deckId: number,
+      payload: { scheduler?: AnkiScheduler; desiredRetention?: number }
+    ): Promise<AnkiStatusSnapshot['decks'][number]>;
+    optimizeFsrs(deckId?: number | null): Promise<AnkiFsrsOptimizeSnapshot>;
   };
   friends: {
     profile(): Promise<FriendProfile | null>;
@@ -606,11 +1176,20 @@ export type RendererApi = {
     meSummary(windowHours?: number): Promise<FriendSummary | null>;
     timeline(userId: string, windowHours?: number): Promise<FriendTimeline | null>;
     publicLibrary(userId?: string, windowHours?: number): Promise<FriendLibraryItem[]>;
+    /** Relay feed history for a friend (30 days by default), refreshed from the relay when reachable. */
+    history(userId: string, days?: number): Promise<FriendHistoryPoint[]>;
   };
   trophies: {
     list(): Promise<TrophyStatus[]>;
     profile(): Promise<TrophyProfileSummary>;
     pin(ids: string[]): Promise<string[]>;
+    custom: {
+      list(): Promise<CustomTrophy[]>;
+      create(payload: CustomTrophyInput): Promise<CustomTrophy>;
+      update(id: string, patch: Partial<CustomTrophyInput>): Promise<CustomTrophy>;
+      remove(id: string): Promise<void>;
+      preview(rule: TrophyRule): Promise<TrophyProgress>;
+    };
   };
   sync: {
     status(): Promise<SyncStatus>;
@@ -620,6 +1199,12 @@ export type RendererApi = {
     setDeviceName(name: string): Promise<{ ok: true } | { ok: false; error: string }>;
     listDevices(): Promise<SyncDevice[]>;
   };
+  pairing: {
+    createCode(scopes?: PairingScope[]): Promise<PairingCode>;
+    clients(): Promise<PairedClient[]>;
+    revoke(id: number): Promise<void>;
+    desktopToken(): Promise<string>;
+  };
   system: {
     reset(scope: 'trophies' | 'wallet' | 'all'): Promise<{ cleared: 'trophies' | 'wallet' | 'all' }>;
   };
@@ -633,6 +1218,10 @@ export type RendererApi = {
   };
 };
 
+export type AnkiScheduler = 'sm2' | 'fsrs';
+
+export type AnkiImportMode = 'replace' | 'merge';
+
 export type AnkiStatusSnapshot = {
   decks: Array<{
     id: number;
@@ -643,6 +1232,9 @@ export type AnkiStatusSnapshot = {
     reviewedToday: number;
     lastImportedAt: string | null;
     lastReviewedAt: string | null;
+    scheduler: AnkiScheduler;
+    desiredRetention: number;
+    fsrsOptimizedAt: string | null;
   }>;
   dueCards: Array<{
     id: number;
@@ -659,6 +1251,8 @@ export type AnkiStatusSnapshot = {
     lapses: number;
     suspended: boolean;
     lastReviewedAt: string | null;
+    stability: number | null;
+    difficulty: number | null;
   }>;
   totalDue: number;
   reviewedToday: number;
@@ -675,6 +1269,26 @@ export type AnkiImportSnapshot = {
   cardsImported: number;
   cardsUpdated: number;
   cardsSkipped: number;
+  mode: AnkiImportMode;
+  reviewsImported: number;
+};
+
+export type AnkiExportSnapshot = {
+  deckId: number;
+  deckName: string;
+  packagePath: string;
+  exportedAt: string;
+  cardsExported: number;
+  reviewsExported: number;
+};
+
+export type AnkiFsrsOptimizeSnapshot = {
+  deckIds: number[];
+  optimizedAt: string;
+  reviewsUsed: number;
+  logLossBefore: number;
+  logLossAfter: number;
+  parameters: number[];
 };
 
 export type AnkiAnalyticsSnapshot = {
@@ -700,6 +1314,7 @@ export type AnkiAnalyticsSnapshot = {
     reviewMinutes: number;
     currentStreakDays: number;
     availableUnlockReviews: number;
+    predictedRetention: number | null;
   };
   ratings: {
     again: number;
@@ -737,7 +1352,10 @@ export type AnkiAnalyticsSnapshot = {
     dueNow: number;
     reviews: number;
     retention: number | null;
+    scheduler: AnkiScheduler;
+    predictedRetention: number | null;
   }>;
+  forecast: Array<{ day: string; due: number; estimatedMinutes: number }>;
   risks: Array<{
     id: string;
     level: 'info' | 'warning';
@@ -0,0 +1,215 @@
+import { z } from 'zod';
+
+/**
+ * Messages exchanged over the desktop ↔ extension websocket. Both ends parse
+ * what they receive with these schemas; anything unknown or invalid is logged,
+ * counted and dropped instead of reaching the handlers.
+ *
+ * Clients announce their protocol version with `hello` right after the socket
+ * opens and the desktop answers with the version both sides will speak.
+ * Clients that never say hello are treated as version 0 and only receive the
+ * message types that existed before versioning, so older extensions keep working.
+ */
+export const WS_PROTOCOL_VERSION = 1;
+/** The version spoken with clients that never send `hello`. */
+export const WS_LEGACY_PROTOCOL_VERSION = 0;
+
+const domain = z.string().min(1);
+const colorFilter = z.enum(['full-color', 'greyscale', 'redscale']);
+const pomodoroTargetKind = z.enum(['app', 'site']);
+
+/** Payloads are open objects: new fields from a newer peer must not fail validation. */
+function open<T extends z.ZodRawShape>(shape: T) {
+  return z.object(shape).passthrough();
+}
+
+const pomodoroSession = open({
+  id: z.string(),
+  state: z.enum(['active', 'paused', 'break', 'ended']),
+  remainingMs: z.number().optional(),
+  breakRemainingMs: z.number().nullable().optional(),
+  overrides: z.array(open({ target: z.string(), kind: pomodoroTargetKind, expiresAt: z.string() })).optional()
+});
+
+const helloRequest = open({
+  protocolVersion: z.number().int().nonnegative(),
+  client: z.string().optional()
+});
+
+const helloAck = open({
+  /** The version both sides will speak: the lower of the two. */
+  protocolVersion: z.number().int().nonnegative(),
+  serverProtocolVersion: z.number().int().nonnegative()
+});
+
+const serverPayloads = {
+  hello: helloAck,
+  error: open({ message: z.string() }),
+  wallet: open({ balance: z.number() }),
+  /** Every market rate, keyed by domain. */
+  'market-update': z.record(open({ domain })),
+  'library-sync': open({ items: z.array(z.record(z.unknown())) }),
+  activity: open({}),
+  'paywall-required': open({ domain: z.string() }),
+  'paywall-session-started': open({ domain }),
+  'paywall-session-paused': open({ domain, reason: z.string().optional() }),
+  'paywall-session-resumed': open({ domain }),
+  'paywall-session-ended': open({ domain, reason: z.string().optional(), startedAt: z.number().nullable().optional() }),
+  'paywall-reminder': open({ domain }),
+  'emergency-review-recorded': open({}),
+  'budget-warning': open({
+    budgetId: z.number(),
+    period: z.enum(['day', 'week']),
+    target: z.string(),
+    threshold: z.number(),
+    exhausted: z.boolean(),
+    escalation: z.enum(['warn', 'surcharge', 'block'])
+  }),
+  'focus-start': open({ id: z.number(), durationSec: z.number() }),
+  'focus-tick': open({ remaining: z.number(), progress: z.number() }),
+  'focus-stop': open({ id: z.number(), completed: z.boolean() }),
+  'pomodoro-start': pomodoroSession,
+  'pomodoro-tick': pomodoroSession,
+  'pomodoro-pause': pomodoroSession,
+  'pomodoro-resume': pomodoroSession,
+  'pomodoro-break': pomodoroSession,
+  'pomodoro-phase': pomodoroSession,
+  'pomodoro-stop': pomodoroSession.partial(),
+  'pomodoro-override': open({
+    sessionId: z.string(),
+    override: open({ target: z.string(), kind: pomodoroTargetKind }).optional(),
+    overrides: pomodoroSession.shape.overrides
+  }),
+  'pomodoro-block': open({ target: z.string(), kind: pomodoroTargetKind, reason: z.string() })
+};
+
+const clientPayloads = {
+  hello: helloRequest,
+  'extension:heartbeat': open({ timestamp: z.number().optional() }),
+  activity: open({
+    timestamp: z.union([z.number(), z.string()]),
+    source: z.enum(['app', 'url']),
+    appName: z.string(),
+    bundleId: z.string().nullable().optional(),
+    windowTitle: z.string().nullable().optional(),
+    url: z.string().nullable().optional(),
+    domain: z.string().nullable().optional(),
+    idleSeconds: z.number().optional()
+  }),
+  'paywall:start-metered': open({ domain, colorFilter: colorFilter.optional(), quoteId: z.string().optional() }),
+  'paywall:buy-pack': open({ domain, minutes: z.number().positive(), colorFilter: colorFilter.optional(), quoteId: z.string().optional() }),
+  'paywall:pause': open({ domain }),
+  'paywall:resume': open({ domain }),
+  'paywall:end': open({ domain }),
+  'paywall:start-emergency': open({ domain, justification: z.string().min(1), url: z.string().optional() }),
+  'paywall:emergency-review': open({ outcome: z.enum(['kept', 'not-kept']), domain: z.string().optional() }),
+  'paywall:start-store': open({ domain, price: z.number(), url: z.string().optional() }),
+  'pomodoro:block': open({
+    target: z.string().min(1),
+    kind: pomodoroTargetKind,
+    reason: z.string().optional(),
+    remainingMs: z.number().optional()
+  }),
+  'pomodoro:grant-override': open({ target: z.string().min(1), kind: pomodoroTargetKind, durationSec: z.number().positive().optional() })
+};
+
+type MessageOf<TPayloads extends Record<string, z.ZodTypeAny>> = {
+  [K in keyof TPayloads & string]: { type: K; payload: z.infer<TPayloads[K]> };
+}[keyof TPayloads & string];
+
+export type WsServerMessageType = keyof typeof serverPayloads;
+export type WsClientMessageType = keyof typeof clientPayloads;
+export type WsServerMessage = MessageOf<typeof serverPayloads>;
+export type WsClientMessage = MessageOf<typeof clientPayloads>;
+export type WsServerMessageOf<K extends WsServerMessageType> = Extract<WsServerMessage, { type: K }>;
+export type WsClientMessageOf<K extends WsClientMessageType> = Extract<WsClientMessage, { type: K }>;
+
+/**
+ * The protocol version each message type first appeared in. Types missing
+ * here predate versioning and are understood by every peer.
+ */
+const SERVER_MESSAGE_SINCE: Partial<Record<WsServerMessageType, number>> = { hello: 1 };
+const CLIENT_MESSAGE_SINCE: Partial<Record<WsClientMessageType, number>> = { hello: 1 };
+
+export function serverMessageSupported(type: WsServerMessageType, protocolVersion: number) {
+  return (SERVER_MESSAGE_SINCE[type] ?? 0) <= protocolVersion;
+}
+
+export function clientMessageSupported(type: WsClientMessageType, protocolVersion: number) {
+  return (CLIENT_MESSAGE_SINCE[type] ?? 0) <= protocolVersion;
+}
+
+/** Both sides speak the lower of the two versions. */
+export function negotiateProtocolVersion(peerVersion: number) {
+  return Math.max(WS_LEGACY_PROTOCOL_VERSION, Math.min(WS_PROTOCOL_VERSION, Math.trunc(peerVersion)));
+}
+
+export type WsParseFailure = {
+  ok: false;
+  reason: 'malformed' | 'unknown-type' | 'invalid-payload';
+  type: string | null;
+  error: string;
+};
+
+export type WsParseResult<T> = { ok: true; message: T } | WsParseFailure;
+
+function parseMessage<T>(payloads: Record<string, z.ZodTypeAny>, raw: unknown): WsParseResult<T> {
+  let data = raw;
+  if (typeof raw === 'string') {
+    try {
+      data = JSON.parse(raw);
+    } catch (error) {
+      return { ok: false, reason: 'malformed', type: null, error: (error as Error).message };
+    }
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { ok: false, reason: 'malformed', type: null, error: 'Expected a JSON object' };
+  }
+  const { type, payload } = data as { type?: unknown; payload?: unknown };
+  if (typeof type !== 'string') {
+    return { ok: false, reason: 'malformed', type: null, error: 'Missing message type' };
+  }
+  const schema = Object.prototype.hasOwnProperty.call(payloads, type) ? payloads[type] : undefined;
+  if (!schema) {
+    return { ok: false, reason: 'unknown-type', type, error: `Unknown message type ${type}` };
+  }
+  // Heartbeats and stops from older peers may omit the payload entirely.
+  const parsed = schema.safeParse(payload ?? {});
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path = issue?.path.length ? issue.path.join('.') : 'payload';
+    return { ok: false, reason: 'invalid-payload', type, error: `${path}: ${issue?.message ?? 'invalid'}` };
+  }
+  return { ok: true, message: { type, payload: parsed.data as unknown } as T };
+}
+
+/** Parses a message received by the extension. Accepts raw JSON text or a decoded object. */
+export function parseServerMessage(raw: unknown): WsParseResult<WsServerMessage> {
+  return parseMessage<WsServerMessage>(serverPayloads, raw);
+}
+
+/** Parses a message received by the desktop. Accepts raw JSON text or a decoded object. */
+export function parseClientMessage(raw: unknown): WsParseResult<WsClientMessage> {
+  return parseMessage<WsClientMessage>(clientPayloads, raw);
+}
+
+export type WsProtocolStats = {
+  received: number;
+  rejected: number;
+  /** Rejections keyed by `reason:type`, e.g. `invalid-payload:wallet`. */
+  rejections: Record<string, number>;
+};
+
+export function createWsProtocolStats(): WsProtocolStats {
+  return { received: 0, rejected: 0, rejections: {} };
+}
+
+/** Counts a parse result and returns the running count for its rejection key, or 0 when it parsed. */
+export function recordWsParseResult(stats: WsProtocolStats, result: WsParseResult<unknown>) {
+  stats.received += 1;
+  if (result.ok) return 0;
+  stats.rejected += 1;
+  const key = `${result.reason}:${result.type ?? 'none'}`;
+  stats.rejections[key] = (stats.rejections[key] ?? 0) + 1;
+  return stats.rejections[key];
+}
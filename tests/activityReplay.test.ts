@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActivityPipeline } from '../src/backend/activityPipeline';
+import { ActivityClassifier } from '../src/backend/activityClassifier';
+import { EconomyEngine } from '../src/backend/economy';
+import { PaywallManager } from '../src/backend/paywall';
+import { JsonlReplaySource, PushActivitySource, parseActivityJsonl } from '../src/backend/activitySources';
+import type { MarketRate } from '@shared/types';
+import { resolveMarketModifier } from '../src/shared/marketSchedule';
+
+class FakeWallet {
+  balance = 0;
+  transactions: Array<{ type: 'earn' | 'spend'; amount: number; meta?: Record<string, unknown> }> = [];
+  earn(amount: number, meta?: Record<string, unknown>) {
+    this.balance += Math.round(amount);
+    this.transactions.push({ type: 'earn', amount: Math.round(amount), meta });
+    return { balance: this.balance };
+  }
+  spend(amount: number, meta?: Record<string, unknown>) {
+    if (this.balance < amount) {
+      throw new Error('Insufficient funds');
+    }
+    this.balance -= Math.round(amount);
+    this.transactions.push({ type: 'spend', amount: Math.round(amount), meta });
+    return { balance: this.balance };
+  }
+  adjust() { }
+  getSnapshot() {
+    return { balance: this.balance };
+  }
+  getSpendableBalance() {
+    return this.balance;
+  }
+  listTransactions() {
+    return [];
+  }
+}
+
+class FakeMarket {
+  constructor(private rates: Record<string, MarketRate>) { }
+  getRate(domain: string) {
+    return this.rates[domain] ?? null;
+  }
+  listRates() {
+    return Object.values(this.rates);
+  }
+  upsertRate(rate: MarketRate) {
+    this.rates[rate.domain] = rate;
+  }
+  getModifier(rate: MarketRate, at = new Date()) {
+    return resolveMarketModifier(rate, [], at);
+  }
+}
+
+class FakeTracker {
+  records: any[] = [];
+  recordActivity(event: any) {
+    this.records.push(event);
+  }
+}
+
+const T0 = Date.parse('2026-03-02T09:00:00.000Z');
+const at = (minutes: number) => new Date(T0 + minutes * 60_000).toISOString();
+
+// 30 minutes of editor work, a 5 minute reddit detour, then 20 more minutes of work.
+const RECORDED_DAY = [
+  ...Array.from({ length: 30 }, (_, i) =>
+    JSON.stringify({ timestamp: at(i), source: 'app', appName: 'Code', windowTitle: 'economy.ts', idleSeconds: 0 })
+  ),
+  ...Array.from({ length: 5 }, (_, i) =>
+    JSON.stringify({ timestamp: at(30 + i), source: 'url', appName: 'Google Chrome', url: 'https://reddit.com/r/all', domain: 'reddit.com', idleSeconds: 0 })
+  ),
+  'not json',
+  ...Array.from({ length: 20 }, (_, i) =>
+    JSON.stringify({ timestamp: at(35 + i), source: 'app', appName: 'Code', windowTitle: 'paywall.ts', idleSeconds: 0 })
+  )
+].join('\n');
+
+describe('activity sources', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(T0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('parses recordings and skips malformed lines', () => {
+    const events = parseActivityJsonl(RECORDED_DAY);
+    expect(events).toHaveLength(55);
+    expect(events[0].timestamp.toISOString()).toBe(at(0));
+    expect(events[30]).toMatchObject({ domain: 'reddit.com', source: 'url' });
+  });
+
+  it('starts, stops and replaces registered sources', async () => {
+    const tracker = new FakeTracker();
+    const classifier = new ActivityClassifier(() => ({ productive: [], neutral: [], frivolity: [], draining: [] }), () => 10, () => 10);
+    const pipeline = new ActivityPipeline(tracker as any, { handleActivity: () => undefined } as any, classifier, () => 0);
+
+    const push = new PushActivitySource('extension', 'extension');
+    await pipeline.registerSource(push);
+    push.push({ timestamp: new Date(), source: 'app', appName: 'Code' });
+    expect(tracker.records).toHaveLength(0);
+
+    await pipeline.startSources();
+    push.push({ timestamp: new Date(), source: 'url', appName: 'Chrome', domain: 'docs.example.com' });
+    expect(tracker.records).toHaveLength(1);
+
+    await pipeline.registerSource(new PushActivitySource('extension', 'extension'));
+    push.push({ timestamp: new Date(), source: 'url', appName: 'Chrome', domain: 'docs.example.com' });
+    expect(tracker.records).toHaveLength(1);
+    expect(pipeline.listSources()).toEqual([{ id: 'extension', origin: 'extension' }]);
+
+    await pipeline.stopSources();
+  });
+
+  it.each([1, 60])('replays a recorded day through classifier, economy and paywall at %ix', async (speed) => {
+    const wallet = new FakeWallet();
+    const market = new FakeMarket({
+      'reddit.com': {
+        domain: 'reddit.com',
+        ratePerMin: 2,
+        packs: [{ minutes: 10, price: 25 }],
+        hourlyModifiers: Array(24).fill(1)
+      }
+    });
+    const paywall = new PaywallManager(wallet as any, market as any);
+    const economy = new EconomyEngine(wallet as any, market as any, paywall);
+    const classifier = new ActivityClassifier(
+      () => ({ productive: ['Code'], neutral: [], frivolity: ['reddit.com'], draining: [] }),
+      () => 120,
+      () => 120
+    );
+    const tracker = new FakeTracker();
+    const pipeline = new ActivityPipeline(tracker as any, economy, classifier, () => 0);
+
+    const paywallPrompts: string[] = [];
+    economy.on('paywall-required', (payload: { domain: string }) => {
+      paywallPrompts.push(payload.domain);
+      if (!paywall.getSession(payload.domain)) {
+        economy.startPayAsYouGo(payload.domain, { quoteId: economy.quoteMetered(payload.domain).quoteId });
+      }
+    });
+
+    const finished = vi.fn();
+    const replay = new JsonlReplaySource({ events: parseActivityJsonl(RECORDED_DAY), speed, onEnd: finished });
+    economy.useClock(replay.clock);
+    await pipeline.registerSource(replay);
+    await pipeline.startSources();
+
+    await vi.advanceTimersByTimeAsync((56 * 60_000) / speed);
+
+    expect(finished).toHaveBeenCalledOnce();
+    expect(tracker.records).toHaveLength(55);
+    expect(paywallPrompts).toEqual(['reddit.com']);
+
+    const earned = wallet.transactions.filter((tx) => tx.type === 'earn').reduce((sum, tx) => sum + tx.amount, 0);
+    const spent = wallet.transactions.filter((tx) => tx.type === 'spend').reduce((sum, tx) => sum + tx.amount, 0);
+    // ~50 productive minutes at 5/min; ~5 metered minutes at 2/min × 3.5 premium.
+    expect(earned).toBeGreaterThanOrEqual(45 * 5);
+    expect(earned).toBeLessThanOrEqual(51 * 5);
+    expect(spent).toBeGreaterThan(0);
+    expect(spent).toBeLessThanOrEqual(6 * 7);
+
+    await pipeline.stopSources();
+    economy.destroy();
+  });
+
+  it('compresses gaps by the playback speed', async () => {
+    const emitted: number[] = [];
+    const replay = new JsonlReplaySource({ events: parseActivityJsonl(RECORDED_DAY).slice(0, 3), speed: 60 });
+    await replay.start(() => emitted.push(Date.now()));
+
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(emitted).toEqual([T0, T0 + 1_000, T0 + 2_000]);
+    expect(replay.progress).toEqual({ emitted: 3, running: false });
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Database } from '../src/backend/storage';
+import { ActivityRuleService } from '../src/backend/activityRules';
+import { ActivityClassifier } from '../src/backend/activityClassifier';
+import { DEFAULT_CATEGORISATION } from '../src/backend/defaults';
+
+// Local wall-clock times; 2026-03-02 is a Monday.
+const mondayAt = (hour: number, minute = 0) => new Date(2026, 2, 2, hour, minute).toISOString();
+const saturdayAt = (hour: number) => new Date(2026, 2, 7, hour).toISOString();
+
+describe('activity rules', () => {
+  let db: Database;
+  let pomodoroActive: boolean;
+  let rules: ActivityRuleService;
+
+  beforeEach(() => {
+    db = new Database({ filePath: ':memory:' });
+    pomodoroActive = false;
+    rules = new ActivityRuleService(db, { pomodoroActive: () => pomodoroActive, writingProjectId: () => null });
+    rules.create({
+      name: 'Weekday lectures',
+      match: { domain: 'youtube.com', titlePattern: 'lecture', weekdays: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '11:00' },
+      action: { category: 'productive' }
+    });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('fires only when domain, title, weekday and time window all match', () => {
+    const base = { domain: 'www.youtube.com', windowTitle: 'MIT 6.006 Lecture 4' };
+
+    const hit = rules.test({ ...base, at: mondayAt(9, 30) });
+    expect(hit.rule?.name).toBe('Weekday lectures');
+    expect(hit.explanation).toBe('Rule "Weekday lectures" fired: classify as productive.');
+
+    expect(rules.test({ ...base, at: mondayAt(11, 0) }).rule).toBeNull();
+    expect(rules.test({ ...base, at: saturdayAt(10) }).rule).toBeNull();
+    const wrongTitle = rules.test({ ...base, windowTitle: 'Cat videos', at: mondayAt(10) });
+    expect(wrongTitle.rule).toBeNull();
+    expect(wrongTitle.trace[0].reasons.some((reason) => reason.startsWith('✗ title'))).toBe(true);
+  });
+
+  it('orders by priority and reads live pomodoro state when the caller omits it', () => {
+    rules.create({
+      name: 'No idle during pomodoro',
+      priority: 5,
+      match: { pomodoroActive: true },
+      action: { idle: 'active' }
+    });
+
+    expect(rules.test({ domain: 'youtube.com', windowTitle: 'lecture', at: mondayAt(10) }).rule?.name).toBe('Weekday lectures');
+    pomodoroActive = true;
+    const result = rules.test({ domain: 'youtube.com', windowTitle: 'lecture', at: mondayAt(10) });
+    expect(result.rule?.name).toBe('No idle during pomodoro');
+    expect(result.context.pomodoroActive).toBe(true);
+    expect(result.trace).toHaveLength(1);
+  });
+
+  it('rejects invalid patterns and rules without an effect', () => {
+    expect(() => rules.create({ name: 'Broken', match: { titlePattern: '(' }, action: { category: 'neutral' } })).toThrow(
+      /Invalid title pattern/
+    );
+    expect(() => rules.create({ name: 'Empty', match: { app: 'Slack' }, action: {} })).toThrow(/must assign/);
+    expect(() => rules.create({ name: 'Late', match: { startTime: '25:00' }, action: { category: 'neutral' } })).toThrow(
+      /Invalid startTime/
+    );
+  });
+
+  it('lets the classifier apply rule categories, context suppression and idle overrides', () => {
+    rules.create({
+      name: 'Slack is always idle',
+      match: { app: 'Slack' },
+      action: { suppressContext: true, idle: 'idle' }
+    });
+    const classifier = new ActivityClassifier(
+      () => DEFAULT_CATEGORISATION,
+      () => 15,
+      () => 15,
+      (event) => {
+        const { rule } = rules.evaluate(
+          rules.resolveContext({
+            at: event.timestamp.toISOString(),
+            domain: event.domain ?? null,
+            appName: event.appName,
+            windowTitle: event.windowTitle ?? null
+          })
+        );
+        return rule ? { ...rule.action, ruleId: rule.id } : null;
+      }
+    );
+
+    const lecture = classifier.classify({
+      timestamp: new Date(mondayAt(10)),
+      source: 'url',
+      appName: 'Chrome',
+      domain: 'youtube.com',
+      windowTitle: 'Lecture 1',
+      idleSeconds: 0
+    });
+    expect(lecture.category).toBe('productive');
+    expect(lecture.ruleId).toBe(1);
+
+    const slack = classifier.classify({ timestamp: new Date(mondayAt(10)), source: 'app', appName: 'Slack', idleSeconds: 0 });
+    expect(slack.suppressContext).toBe(true);
+    expect(slack.category).toBe('neutral');
+    expect(slack.isIdle).toBe(true);
+  });
+});
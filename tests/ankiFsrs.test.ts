@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Database } from '../src/backend/storage';
+import { AnkiService } from '../src/backend/anki';
+import {
+  DEFAULT_FSRS_PARAMETERS,
+  fsrsInitialState,
+  fsrsInterval,
+  fsrsNextState,
+  fsrsRetrievability,
+  optimizeFsrsParameters,
+  type FsrsRating,
+  type FsrsReviewHistory
+} from '../src/backend/fsrs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const w = DEFAULT_FSRS_PARAMETERS;
+
+// Small deterministic PRNG so the synthetic history is the same on every run.
+function seededRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function simulateHistories(cards: number, reviewsPerCard: number): FsrsReviewHistory[] {
+  const random = seededRandom(42);
+  // A learner who forgets faster than the defaults assume.
+  const truth = w.map((value, index) => (index < 4 ? value * 0.4 : value));
+  const histories: FsrsReviewHistory[] = [];
+  for (let card = 0; card < cards; card += 1) {
+    let at = Date.UTC(2024, 0, 1) + card * 1000;
+    let state = fsrsInitialState(truth, 3);
+    const history: FsrsReviewHistory = [{ reviewedAtMs: at, rating: 3 }];
+    for (let review = 1; review < reviewsPerCard; review += 1) {
+      const elapsed = fsrsInterval(fsrsInitialState(w, 3).stability * review, 0.9);
+      at += elapsed * DAY_MS;
+      const recalled = random() < fsrsRetrievability(elapsed, state.stability);
+      const rating: FsrsRating = recalled ? 3 : 1;
+      history.push({ reviewedAtMs: at, rating });
+      state = fsrsNextState(truth, state, elapsed, rating);
+    }
+    histories.push(history);
+  }
+  return histories;
+}
+
+describe('fsrs scheduler', () => {
+  it('grows stability on recall, shrinks it on a lapse and schedules at the desired retention', () => {
+    const first = fsrsInitialState(w, 3);
+    expect(first.stability).toBeCloseTo(w[2]);
+    expect(fsrsInitialState(w, 1).difficulty).toBeGreaterThan(fsrsInitialState(w, 4).difficulty);
+
+    expect(fsrsRetrievability(first.stability, first.stability)).toBeCloseTo(0.9, 5);
+    expect(fsrsInterval(10, 0.9)).toBe(10);
+    expect(fsrsInterval(10, 0.8)).toBeGreaterThan(fsrsInterval(10, 0.95));
+
+    const recalled = fsrsNextState(w, first, 3, 3);
+    const lapsed = fsrsNextState(w, first, 3, 1);
+    const hard = fsrsNextState(w, first, 3, 2);
+    expect(recalled.stability).toBeGreaterThan(first.stability);
+    expect(hard.stability).toBeLessThan(recalled.stability);
+    expect(lapsed.stability).toBeLessThan(first.stability);
+    expect(lapsed.difficulty).toBeGreaterThan(first.difficulty);
+  });
+
+  it('fits parameters that predict the learner history better than the defaults', () => {
+    const histories = simulateHistories(60, 6);
+    const result = optimizeFsrsParameters(histories);
+    expect(result.reviewsUsed).toBe(300);
+    expect(result.logLossAfter).toBeLessThan(result.logLossBefore);
+    expect(result.parameters).toHaveLength(w.length);
+
+    expect(() => optimizeFsrsParameters(simulateHistories(5, 3))).toThrow(/at least 50 spaced reviews/);
+  });
+});
+
+describe('AnkiService with FSRS', () => {
+  let db: Database;
+  let anki: AnkiService;
+  let deckId: number;
+
+  function addCard(front: string, dueAt: string, intervalDays = 0, repetitions = 0) {
+    const now = new Date().toISOString();
+    const result = db.connection
+      .prepare(
+        `INSERT INTO anki_cards(deck_id, fingerprint, front, back, due_at, interval_days, ease_factor, repetitions, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, 2.5, ?, ?, ?)`
+      )
+      .run(deckId, front, front, `${front} back`, dueAt, intervalDays, repetitions, now, now);
+    return Number(result.lastInsertRowid);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-06-01T12:00:00.000Z'));
+    db = new Database({ filePath: ':memory:' });
+    anki = new AnkiService(db);
+    const now = new Date().toISOString();
+    deckId = Number(
+      db.connection.prepare('INSERT INTO anki_decks(name, created_at, updated_at) VALUES (?, ?, ?)').run('German', now, now).lastInsertRowid
+    );
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await db.close();
+  });
+
+  it('tracks memory state on SM-2 decks and schedules from it once the deck switches to FSRS', () => {
+    const cardId = addCard('Hund', '2024-06-01T00:00:00.000Z');
+    const sm2 = anki.reviewCard({ cardId, rating: 'good' });
+    expect(sm2).toMatchObject({ scheduler: 'sm2', intervalDays: 1 });
+    expect(sm2.stability).toBeCloseTo(w[2], 2);
+
+    const deck = anki.setDeckScheduler(deckId, { scheduler: 'fsrs', desiredRetention: 0.85 });
+    expect(deck).toMatchObject({ scheduler: 'fsrs', desiredRetention: 0.85 });
+    expect(() => anki.setDeckScheduler(deckId, { desiredRetention: 0.5 })).toThrow(/between 0.70 and 0.99/);
+
+    vi.setSystemTime(new Date('2024-06-04T12:00:00.000Z'));
+    const fsrs = anki.reviewCard({ cardId, rating: 'good' });
+    expect(fsrs.scheduler).toBe('fsrs');
+    expect(fsrs.stability).toBeGreaterThan(sm2.stability);
+    expect(fsrs.intervalDays).toBe(fsrsInterval(fsrs.stability, 0.85));
+    expect(Date.parse(fsrs.nextDueAt) - Date.now()).toBe(fsrs.intervalDays * DAY_MS);
+
+    const lapse = anki.reviewCard({ cardId, rating: 'again' });
+    expect(lapse).toMatchObject({ intervalDays: 0, repetitions: 0, lapses: 1 });
+    expect(lapse.stability).toBeLessThan(fsrs.stability);
+
+    expect(anki.getDueCards({ limit: 5 })).toEqual([]);
+    vi.setSystemTime(new Date('2024-06-04T12:11:00.000Z'));
+    expect(anki.getDueCards({ limit: 5 })[0]).toMatchObject({ id: cardId, stability: lapse.stability });
+  });
+
+  it('reports predicted retention and a workload forecast', () => {
+    addCard('overdue', '2024-05-20T12:00:00.000Z', 10, 3);
+    addCard('tomorrow', '2024-06-02T12:00:00.000Z', 5, 2);
+    addCard('next month', '2024-08-01T12:00:00.000Z', 60, 4);
+    addCard('new', '2024-06-01T11:00:00.000Z');
+
+    const analytics = anki.getAnalytics({ windowDays: 7 });
+    expect(analytics.forecast).toHaveLength(30);
+    expect(analytics.forecast[0]).toMatchObject({ due: 2 });
+    expect(analytics.forecast.reduce((sum, point) => sum + point.due, 0)).toBe(3);
+    expect(analytics.forecast[0].estimatedMinutes).toBeGreaterThan(0);
+
+    // Learned cards only: the overdue card has faded below 90%, the others are on schedule.
+    expect(analytics.snapshot.predictedRetention).not.toBeNull();
+    expect(analytics.snapshot.predictedRetention!).toBeLessThan(0.95);
+    expect(analytics.decks[0]).toMatchObject({ scheduler: 'sm2' });
+    expect(analytics.decks[0].predictedRetention).toBe(analytics.snapshot.predictedRetention);
+
+    expect(() => anki.optimizeFsrs({ deckId })).toThrow(/spaced reviews/);
+  });
+});
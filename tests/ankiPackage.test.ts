@@ -0,0 +1,102 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Database } from '../src/backend/storage';
+import { AnkiService } from '../src/backend/anki';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Anki package export and merge import', () => {
+  let db: Database;
+  let anki: AnkiService;
+  let deckId: number;
+  let tempDir: string;
+
+  function addCard(front: string, dueAt: string, intervalDays = 0, repetitions = 0) {
+    const now = new Date().toISOString();
+    const result = db.connection
+      .prepare(
+        `INSERT INTO anki_cards(deck_id, fingerprint, front, back, due_at, interval_days, ease_factor, repetitions, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, 2.5, ?, ?, ?)`
+      )
+      .run(deckId, front, front, `${front} back`, dueAt, intervalDays, repetitions, now, now);
+    return Number(result.lastInsertRowid);
+  }
+
+  function cardRow(id: number) {
+    return db.connection.prepare('SELECT due_at, interval_days, repetitions, source_card_id FROM anki_cards WHERE id = ?').get(id) as {
+      due_at: string;
+      interval_days: number;
+      repetitions: number;
+      source_card_id: string | null;
+    };
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-06-01T12:00:00.000Z'));
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tws-anki-test-'));
+    db = new Database({ filePath: ':memory:' });
+    anki = new AnkiService(db);
+    const now = new Date().toISOString();
+    deckId = Number(
+      db.connection.prepare('INSERT INTO anki_decks(name, created_at, updated_at) VALUES (?, ?, ?)').run('Spanish', now, now).lastInsertRowid
+    );
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await db.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('exports cards with review history that a fresh collection imports', async () => {
+    const reviewed = addCard('perro', '2024-06-01T00:00:00.000Z');
+    addCard('gato', '2024-06-01T11:00:00.000Z');
+    anki.reviewCard({ cardId: reviewed, rating: 'good' });
+
+    const exported = await anki.exportDeckPackage(deckId, path.join(tempDir, 'spanish.apkg'));
+    expect(exported).toMatchObject({ deckName: 'Spanish', cardsExported: 2, reviewsExported: 1 });
+    expect(cardRow(reviewed).source_card_id).toMatch(/^\d+$/);
+    await expect(anki.exportDeckPackage(deckId, path.join(tempDir, 'spanish.zip'))).rejects.toThrow(/\.apkg/);
+
+    const other = new Database({ filePath: ':memory:' });
+    try {
+      const imported = await new AnkiService(other).importDeckPackage(exported.packagePath, { mode: 'merge' });
+      expect(imported).toMatchObject({ mode: 'merge', decksImported: 1, cardsImported: 2, reviewsImported: 1 });
+      const card = other.connection.prepare("SELECT id, interval_days, due_at, stability FROM anki_cards WHERE front = 'perro'").get() as {
+        id: number;
+        interval_days: number;
+        due_at: string;
+        stability: number | null;
+      };
+      expect(card.interval_days).toBe(1);
+      expect(Date.parse(card.due_at)).toBeGreaterThan(Date.now());
+      expect(card.stability).toBeGreaterThan(0);
+      const review = other.connection.prepare('SELECT rating, reward_coins, unlock_consumed FROM anki_reviews WHERE card_id = ?').get(card.id);
+      // Imported history never earns coins or paywall unlocks.
+      expect(review).toEqual({ rating: 'good', reward_coins: 0, unlock_consumed: 1 });
+    } finally {
+      await other.close();
+    }
+  });
+
+  it('keeps local scheduling in merge mode and overwrites it in replace mode', async () => {
+    const cardId = addCard('casa', '2024-06-01T00:00:00.000Z', 4, 2);
+    const exported = await anki.exportDeckPackage(deckId, path.join(tempDir, 'spanish.apkg'));
+
+    vi.setSystemTime(new Date(Date.now() + DAY_MS));
+    anki.reviewCard({ cardId, rating: 'easy' });
+    const local = cardRow(cardId);
+    expect(local.interval_days).toBeGreaterThan(4);
+
+    const merged = await anki.importDeckPackage(exported.packagePath, { mode: 'merge' });
+    expect(merged).toMatchObject({ cardsImported: 0, cardsUpdated: 1, reviewsImported: 0 });
+    expect(cardRow(cardId)).toEqual(local);
+
+    const replaced = await anki.importDeckPackage(exported.packagePath);
+    expect(replaced).toMatchObject({ mode: 'replace', cardsUpdated: 1 });
+    expect(cardRow(cardId)).toMatchObject({ interval_days: 4, repetitions: 2 });
+  });
+});
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Database } from '../src/backend/storage';
+import { BudgetService } from '../src/backend/budgets';
+import { PaywallManager } from '../src/backend/paywall';
+import { ActivityClassifier } from '../src/backend/activityClassifier';
+import type { ActivityCategory, BudgetWarning, CategorisationConfig, MarketRate } from '@shared/types';
+import { resolveMarketModifier } from '../src/shared/marketSchedule';
+
+class FakeWallet {
+  balance = 500;
+  spent: number[] = [];
+  spend(amount: number) {
+    if (this.balance < amount) throw new Error('Insufficient funds');
+    this.balance -= amount;
+    this.spent.push(amount);
+    return { balance: this.balance };
+  }
+  adjust(amount: number) {
+    this.balance += amount;
+    return { balance: this.balance };
+  }
+  getSnapshot() {
+    return { balance: this.balance };
+  }
+  getSpendableBalance() {
+    return this.balance;
+  }
+}
+
+class FakeMarket {
+  constructor(private rates: Record<string, MarketRate>) { }
+  getRate(domain: string) {
+    return this.rates[domain] ?? null;
+  }
+  upsertRate(rate: MarketRate) {
+    this.rates[rate.domain] = rate;
+  }
+  getModifier(rate: MarketRate, at = new Date()) {
+    return resolveMarketModifier(rate, [], at);
+  }
+}
+
+const config: CategorisationConfig = {
+  productive: ['Code'],
+  neutral: [],
+  frivolity: ['youtube.com', 'reddit.com'],
+  draining: ['news.ycombinator.com']
+};
+
+// Midday local time, well past the day-start hour.
+const NOW = new Date(2026, 2, 4, 13, 0, 0).getTime();
+
+describe('budget enforcement', () => {
+  let db: Database;
+  let budgets: BudgetService;
+  // Stands in for activity rules and productive overrides.
+  let overrides: Record<string, ActivityCategory>;
+
+  const recordActivity = (domain: string, category: string, minutes: number, minutesAgo = 30) => {
+    db.connection
+      .prepare(
+        'INSERT INTO activities(started_at, source, app_name, domain, category, seconds_active) VALUES (?, ?, ?, ?, ?, ?)'
+      )
+      .run(new Date(NOW - minutesAgo * 60_000).toISOString(), 'url', 'Google Chrome', domain, category, minutes * 60);
+  };
+
+  beforeEach(() => {
+    db = new Database({ filePath: ':memory:' });
+    overrides = {};
+    const classifier = new ActivityClassifier(() => config, () => 1, () => 1, (event) => overrides[event.domain ?? ''] ?? null);
+    budgets = new BudgetService(
+      db,
+      (domain, appName, group) => classifier.matchesCategory(domain, appName, config, group),
+      (domain) => classifier.classify({ timestamp: new Date(NOW), source: 'url', appName: '', domain }).category,
+      () => NOW
+    );
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('tracks frivolity and draining seconds per category, group and domain', () => {
+    budgets.add({ period: 'day', category: 'frivolity', secondsBudgeted: 3600 });
+    budgets.add({ period: 'day', targetKind: 'group', category: 'draining', secondsBudgeted: 1800 });
+    budgets.add({ period: 'week', targetKind: 'domain', category: 'https://www.youtube.com/', secondsBudgeted: 7200 });
+
+    recordActivity('m.youtube.com', 'frivolity', 20);
+    recordActivity('reddit.com', 'frivolity', 10);
+    recordActivity('news.ycombinator.com', 'draining', 15);
+    recordActivity('docs.example.com', 'productive', 60);
+    // Two days ago: outside today's budget but inside this week's.
+    recordActivity('youtube.com', 'frivolity', 40, 48 * 60);
+
+    const [category, group, domain] = budgets.status();
+    expect(category).toMatchObject({ usedSeconds: 30 * 60, state: 'warning' });
+    expect(group).toMatchObject({ usedSeconds: 15 * 60, state: 'warning' });
+    expect(domain.budget.category).toBe('youtube.com');
+    expect(domain).toMatchObject({ usedSeconds: 60 * 60, remainingSeconds: 60 * 60 });
+  });
+
+  it('escalates category budgets on the category the classifier assigns', () => {
+    budgets.add({ period: 'day', category: 'frivolity', secondsBudgeted: 600, escalation: 'surcharge', surchargeMultiplier: 2 });
+    // A rule makes twitch.tv frivolity although the categorisation lists never mention it...
+    overrides['twitch.tv'] = 'frivolity';
+    // ...and an override makes youtube.com productive although the lists call it frivolity.
+    overrides['youtube.com'] = 'productive';
+    recordActivity('twitch.tv', 'frivolity', 12);
+    budgets.evaluate();
+
+    expect(budgets.status()[0]).toMatchObject({ usedSeconds: 12 * 60, state: 'exhausted' });
+    expect(budgets.getEscalation('twitch.tv')).toMatchObject({ action: 'surcharge', multiplier: 2 });
+    expect(budgets.getEscalation('youtube.com')).toEqual({ action: 'none' });
+  });
+
+  it('emits each threshold warning once per period', () => {
+    const budget = budgets.add({ period: 'day', targetKind: 'domain', category: 'reddit.com', secondsBudgeted: 600 });
+    const warnings: BudgetWarning[] = [];
+    budgets.on('warning', (warning: BudgetWarning) => warnings.push(warning));
+
+    recordActivity('reddit.com', 'frivolity', 6);
+    budgets.evaluate();
+    budgets.evaluate();
+    recordActivity('reddit.com', 'frivolity', 5);
+    budgets.evaluate();
+
+    expect(warnings).toEqual([
+      expect.objectContaining({ budgetId: budget.id, threshold: 0.5, exhausted: false }),
+      expect.objectContaining({ budgetId: budget.id, threshold: 1, exhausted: true })
+    ]);
+  });
+
+  it('surcharges and blocks paywall purchases once a budget is exhausted', () => {
+    const wallet = new FakeWallet();
+    const market = new FakeMarket({
+      'youtube.com': { domain: 'youtube.com', ratePerMin: 1, packs: [{ minutes: 10, price: 20 }], hourlyModifiers: Array(24).fill(1) }
+    });
+    const paywall = new PaywallManager(wallet as any, market as any, (domain) => budgets.getEscalation(domain));
+
+    budgets.add({ period: 'day', category: 'frivolity', secondsBudgeted: 600, escalation: 'surcharge', surchargeMultiplier: 2 });
+    paywall.buyPack('youtube.com', 10, 20);
+    expect(wallet.spent).toEqual([20]);
+
+    recordActivity('youtube.com', 'frivolity', 12);
+    budgets.evaluate();
+    // The surcharge is itemized in the quote; the paywall charges the quoted price as given.
+    expect(paywall.getBudgetSurcharge('www.youtube.com')).toBe(2);
+    paywall.buyPack('youtube.com', 10, 40);
+    expect(wallet.spent).toEqual([20, 40]);
+
+    const blocking = budgets.add({ period: 'day', targetKind: 'domain', category: 'youtube.com', secondsBudgeted: 300, escalation: 'block' });
+    budgets.evaluate();
+    expect(budgets.getEscalation('www.youtube.com')).toMatchObject({ action: 'block', budgetIds: [blocking.id] });
+    expect(() => paywall.startMetered('youtube.com')).toThrow(/budget for youtube.com is used up/);
+
+    const ended: string[] = [];
+    paywall.on('session-ended', (payload: { reason: string }) => ended.push(payload.reason));
+    paywall.tick(15, 'youtube.com');
+    expect(ended).toEqual(['budget-exhausted']);
+    expect(paywall.getSession('youtube.com')).toBeNull();
+
+    // Emergency access is never blocked by budgets.
+    paywall.startEmergency('youtube.com', 'Lecture recording');
+    paywall.tick(15, 'youtube.com');
+    expect(paywall.getSession('youtube.com')?.mode).toBe('emergency');
+  });
+});
@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Database } from '../src/backend/storage';
+import { AnalyticsService } from '../src/backend/analytics';
+import { CHALLENGE_LEVELS, ChallengeService, DAILY_CHALLENGE_QUOTA, generateSudoku, scoreSudoku } from '../src/backend/challenges';
+import { SettingsService } from '../src/backend/settings';
+import type { IssuedChallenge } from '../src/shared/types';
+
+const SECRET = 'test-secret';
+
+function solve(challenge: IssuedChallenge) {
+  const seed = challengeSeed(challenge);
+  return generateSudoku(seed, CHALLENGE_LEVELS[challenge.difficulty].blanks).solution;
+}
+
+let db: Database;
+
+function challengeSeed(challenge: IssuedChallenge) {
+  const [id] = challenge.challengeId.split('.');
+  return (db.connection.prepare('SELECT seed FROM challenge_attempts WHERE id = ?').get(id) as { seed: number }).seed;
+}
+
+describe('server-issued challenge passes', () => {
+  let challenges: ChallengeService;
+
+  function advance(ms: number) {
+    vi.setSystemTime(new Date(Date.now() + ms));
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-05-01T12:00:00.000Z'));
+    db = new Database({ filePath: ':memory:' });
+    challenges = new ChallengeService(db, { secret: SECRET });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await db.close();
+  });
+
+  it('generates valid puzzles whose givens match the solution', () => {
+    const { puzzle, solution } = generateSudoku(1234, 46);
+    const groups: number[][] = [];
+    for (let i = 0; i < 9; i += 1) {
+      groups.push(solution[i]);
+      groups.push(solution.map((row) => row[i]));
+      const r = Math.floor(i / 3) * 3;
+      const c = (i % 3) * 3;
+      groups.push(solution.slice(r, r + 3).flatMap((row) => row.slice(c, c + 3)));
+    }
+    for (const group of groups) expect([...group].sort()).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(puzzle.flat().filter((value) => value === 0)).toHaveLength(46);
+    puzzle.forEach((row, r) => row.forEach((value, c) => value && expect(value).toBe(solution[r][c])));
+    expect(generateSudoku(1234, 46)).toEqual({ puzzle, solution });
+  });
+
+  it('scores entries against a full completion of the puzzle', () => {
+    const { puzzle, solution } = generateSudoku(1234, 46);
+    // With no givens any valid grid is a solution, not just the generated one.
+    const empty = puzzle.map((row) => row.map(() => 0));
+    const relabelled = solution.map((row) => row.map((value) => (value % 9) + 1));
+    expect(scoreSudoku(empty, solution, relabelled)).toBe(81);
+
+    expect(scoreSudoku(puzzle, solution, solution)).toBe(46);
+    const row = puzzle.findIndex((line) => line.includes(0));
+    const blank = puzzle[row].indexOf(0);
+    const clash = solution.map((line) => [...line]);
+    clash[row][blank] = solution[row][(blank + 1) % 9];
+    expect(scoreSudoku(puzzle, solution, clash)).toBe(45);
+
+    const givenRow = puzzle.findIndex((line) => line.some((value) => value !== 0));
+    const given = puzzle[givenRow].findIndex((value) => value !== 0);
+    const changedGiven = solution.map((line) => [...line]);
+    changedGiven[givenRow][given] = (solution[givenRow][given] % 9) + 1;
+    expect(scoreSudoku(puzzle, solution, changedGiven)).toBe(0);
+  });
+
+  it('fails a fill that follows the rules without solving the puzzle', () => {
+    const level = CHALLENGE_LEVELS[CHALLENGE_LEVELS.length - 1];
+    const { puzzle, solution } = generateSudoku(1234, level.blanks);
+    // Greedily place the largest digit that fits, never backtracking.
+    const greedy = puzzle.map((line) => [...line]);
+    const fits = (r: number, c: number, digit: number) => {
+      const boxRow = Math.floor(r / 3) * 3;
+      const boxCol = Math.floor(c / 3) * 3;
+      for (let i = 0; i < 9; i += 1) {
+        if (greedy[r][i] === digit || greedy[i][c] === digit) return false;
+        if (greedy[boxRow + Math.floor(i / 3)][boxCol + (i % 3)] === digit) return false;
+      }
+      return true;
+    };
+    puzzle.forEach((line, r) =>
+      line.forEach((given, c) => {
+        if (given) return;
+        for (let digit = 9; digit >= 1; digit -= 1) {
+          if (fits(r, c, digit)) {
+            greedy[r][c] = digit;
+            return;
+          }
+        }
+      })
+    );
+
+    expect(greedy.flat().filter((value) => value !== 0).length - (81 - level.blanks)).toBeGreaterThanOrEqual(level.requiredCorrect);
+    expect(scoreSudoku(puzzle, solution, greedy)).toBeLessThan(level.requiredCorrect);
+  });
+
+  it('keeps the signing key across restarts', () => {
+    const issued = new ChallengeService(db, { secret: new SettingsService(db).getChallengeSecret() }).issue('reddit.com');
+    const restarted = new ChallengeService(db, { secret: new SettingsService(db).getChallengeSecret() });
+    advance(60_000);
+    expect(restarted.submit('reddit.com', { challengeId: issued.challengeId, entries: [] })).toMatchObject({ passed: false });
+  });
+
+  it('grants passes only for verified solutions and scales difficulty with each pass', () => {
+    const first = challenges.issue('reddit.com');
+    expect(first).toMatchObject({ difficulty: 0, requiredCorrect: 12, passSeconds: 720, remainingToday: DAILY_CHALLENGE_QUOTA });
+    expect(JSON.stringify(first)).not.toContain(String(challengeSeed(first)));
+
+    // Too quick to be a person.
+    advance(5_000);
+    expect(challenges.submit('reddit.com', { challengeId: first.challengeId, entries: solve(first) })).toMatchObject({
+      passed: false,
+      reason: 'too-fast'
+    });
+    expect(() => challenges.submit('reddit.com', { challengeId: first.challengeId, entries: solve(first) })).toThrow(/already used/);
+
+    const second = challenges.issue('reddit.com');
+    advance(90_000);
+    const wrong = second.puzzle.map((row) => row.map(() => 0));
+    expect(challenges.submit('reddit.com', { challengeId: second.challengeId, entries: wrong })).toMatchObject({
+      passed: false,
+      correctSquares: 0,
+      reason: 'too-few-correct'
+    });
+
+    const levels: number[] = [];
+    for (let i = 0; i < DAILY_CHALLENGE_QUOTA; i += 1) {
+      const challenge = challenges.issue('reddit.com');
+      levels.push(challenge.difficulty);
+      advance(120_000);
+      const result = challenges.submit('reddit.com', { challengeId: challenge.challengeId, entries: solve(challenge) });
+      expect(result).toMatchObject({ passed: true, passSeconds: challenge.passSeconds });
+    }
+    expect(levels).toEqual([0, 1, 2]);
+    expect(() => challenges.issue('reddit.com')).toThrow(/Daily challenge limit/);
+
+    // The quota resets with the day.
+    advance(24 * 60 * 60 * 1000);
+    expect(challenges.issue('reddit.com')).toMatchObject({ difficulty: 0, remainingToday: DAILY_CHALLENGE_QUOTA });
+  });
+
+  it('rejects forged, mismatched and expired challenges', () => {
+    const issued = challenges.issue('reddit.com');
+    const [id] = issued.challengeId.split('.');
+    expect(() => challenges.submit('reddit.com', { challengeId: `${id}.forged`, entries: [] })).toThrow('Invalid challenge');
+    const otherKey = new ChallengeService(db, { secret: 'other' });
+    expect(() => otherKey.submit('reddit.com', { challengeId: issued.challengeId, entries: [] })).toThrow('Invalid challenge');
+    expect(() => challenges.submit('youtube.com', { challengeId: issued.challengeId, entries: [] })).toThrow('Invalid challenge');
+
+    advance(16 * 60_000);
+    expect(() => challenges.submit('reddit.com', { challengeId: issued.challengeId, entries: solve(issued) })).toThrow(/expired/);
+
+    const stats = new AnalyticsService(db).getChallengeStats(30);
+    expect(stats).toMatchObject({ issued: 1, passed: 0, expired: 1, passRate: 0, avgSolveSeconds: null });
+  });
+
+  it('summarises challenge history for analytics', () => {
+    const passed = challenges.issue('reddit.com');
+    advance(60_000);
+    challenges.submit('reddit.com', { challengeId: passed.challengeId, entries: solve(passed) });
+    const failed = challenges.issue('youtube.com');
+    advance(60_000);
+    challenges.submit('youtube.com', { challengeId: failed.challengeId, entries: [] });
+    challenges.issue('youtube.com');
+
+    expect(new AnalyticsService(db).getChallengeStats(7)).toEqual({
+      periodDays: 7,
+      issued: 3,
+      passed: 1,
+      failed: 1,
+      expired: 0,
+      passRate: 0.5,
+      avgSolveSeconds: 60,
+      byDifficulty: [
+        { difficulty: 0, issued: 1, passed: 1 },
+        { difficulty: 1, issued: 2, passed: 0 }
+      ],
+      topDomains: [{ domain: 'reddit.com', passed: 1 }]
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  DEFAULT_DYNAMIC_PRICING,
+  evaluateDynamicPricing,
+  normalizeDynamicPricing,
+  projectDynamicPriceCurve
+} from '../src/shared/dynamicPricing';
+import { Database } from '../src/backend/storage';
+import { MarketService } from '../src/backend/market';
+import { WalletManager } from '../src/backend/wallet';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2026-03-04T12:00:00.000Z');
+const config = { ...DEFAULT_DYNAMIC_PRICING, enabled: true };
+
+describe('evaluateDynamicPricing', () => {
+  it('keeps the base rate when disabled or without demand', () => {
+    const purchases = [{ at: NOW - HOUR, minutes: 30 }];
+    expect(evaluateDynamicPricing(2, purchases, NOW, DEFAULT_DYNAMIC_PRICING)).toMatchObject({ ratePerMin: 2, multiplier: 1, dayMinutes: 30 });
+    expect(evaluateDynamicPricing(2, [], NOW, config)).toMatchObject({ ratePerMin: 2, multiplier: 1, lastPurchaseAt: null });
+  });
+
+  it('rises with minutes bought in the trailing day and week', () => {
+    const light = evaluateDynamicPricing(2, [{ at: NOW, minutes: 10 }], NOW, config);
+    const heavy = evaluateDynamicPricing(2, [{ at: NOW - 3 * 24 * HOUR, minutes: 100 }, { at: NOW, minutes: 60 }], NOW, config);
+
+    // 10 min × (0.01 + 0.002) premium.
+    expect(light.multiplier).toBeCloseTo(1.12, 5);
+    expect(heavy).toMatchObject({ dayMinutes: 60, weekMinutes: 160 });
+    expect(heavy.multiplier).toBeCloseTo(1 + 0.6 + 0.32, 5);
+    expect(heavy.ratePerMin).toBeCloseTo(2 * heavy.multiplier, 5);
+  });
+
+  it('decays toward base during abstinence and respects the cap', () => {
+    const purchases = [{ at: NOW, minutes: 50 }];
+    const fresh = evaluateDynamicPricing(1, purchases, NOW, config);
+    const halfLife = evaluateDynamicPricing(1, purchases, NOW + 6 * HOUR, config);
+    expect(halfLife.multiplier - 1).toBeCloseTo((fresh.multiplier - 1) / 2, 5);
+
+    const capped = evaluateDynamicPricing(1, [{ at: NOW, minutes: 1000 }], NOW, config);
+    expect(capped.multiplier).toBe(3);
+
+    const curve = projectDynamicPriceCurve(1, purchases, NOW, config, { hours: 48, stepHours: 12 });
+    expect(curve.map((point) => point.offsetHours)).toEqual([0, 12, 24, 36, 48]);
+    for (let i = 1; i < curve.length; i += 1) {
+      expect(curve[i].ratePerMin).toBeLessThanOrEqual(curve[i - 1].ratePerMin);
+    }
+  });
+
+  it('normalizes stored configs', () => {
+    expect(normalizeDynamicPricing({ enabled: true, dayWeight: 5, maxMultiplier: 0.5 })).toEqual({
+      ...DEFAULT_DYNAMIC_PRICING,
+      enabled: true,
+      dayWeight: 1,
+      maxMultiplier: 1
+    });
+  });
+});
+
+describe('MarketService dynamic pricing', () => {
+  let db: Database | null = null;
+
+  afterEach(async () => {
+    await db?.close();
+    db = null;
+  });
+
+  it('derives demand from pack and metered spending on the domain', () => {
+    db = new Database({ filePath: ':memory:' });
+    const market = new MarketService(db);
+    const wallet = new WalletManager(db);
+    market.upsertRate({
+      domain: 'www.youtube.com',
+      ratePerMin: 2,
+      packs: [{ minutes: 10, price: 20 }],
+      hourlyModifiers: Array(24).fill(1),
+      dynamicPricing: { ...config, weekWeight: 0 }
+    });
+
+    wallet.spend(20, { type: 'frivolity-pack', domain: 'youtube.com', minutes: 10 });
+    wallet.spend(1, { type: 'frivolity-metered', domain: 'youtube.com', intervalSeconds: 120 });
+    wallet.spend(1, { type: 'frivolity-metered', domain: 'reddit.com', intervalSeconds: 600 });
+
+    const pricing = market.getPricing('youtube.com');
+    expect(pricing?.quote.dayMinutes).toBeCloseTo(12, 5);
+    expect(pricing?.quote.multiplier).toBeCloseTo(1.12, 2);
+    expect(pricing?.curve[0].ratePerMin).toBeCloseTo(pricing?.quote.ratePerMin ?? 0, 5);
+    expect(market.getRate('youtube.com')?.dynamicPricing?.enabled).toBe(true);
+  });
+});
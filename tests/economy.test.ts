@@ -1,8 +1,9 @@
 import { describe, expect, it, vi } from 'vitest';
-import { EconomyEngine } from '../src/backend/economy';
+import { EconomyEngine, QuoteMismatchError } from '../src/backend/economy';
 import { PaywallManager } from '../src/backend/paywall';
 import type { MarketRate } from '@shared/types';
 import { ActivityClassifier } from '../src/backend/activityClassifier';
+import { resolveMarketModifier } from '../src/shared/marketSchedule';
 
 class FakeWallet {
   balance = 100;
@@ -21,6 +22,9 @@ class FakeWallet {
   getSnapshot() {
     return { balance: this.balance };
   }
+  getSpendableBalance() {
+    return this.balance;
+  }
   listTransactions() {
     return [];
   }
@@ -37,6 +41,9 @@ class FakeMarket {
   upsertRate(rate: MarketRate) {
     this.rates[rate.domain] = rate;
   }
+  getModifier(rate: MarketRate, at = new Date()) {
+    return resolveMarketModifier(rate, [], at);
+  }
 }
 
 describe('EconomyEngine', () => {
@@ -125,7 +132,7 @@ describe('EconomyEngine', () => {
     economy.handleActivity(activity);
     expect(requiredSpy).toHaveBeenCalledOnce();
 
-    economy.startPayAsYouGo('twitter.com');
+    economy.startPayAsYouGo('twitter.com', { quoteId: economy.quoteMetered('twitter.com').quoteId });
     (economy as any).tickSpend();
     expect(wallet.getSnapshot().balance).toBeLessThan(100);
     economy.destroy();
@@ -177,7 +184,7 @@ describe('EconomyEngine', () => {
     const paused = vi.fn();
     paywall.on('session-paused', paused);
 
-    economy.startPayAsYouGo('twitter.com');
+    economy.startPayAsYouGo('twitter.com', { quoteId: economy.quoteMetered('twitter.com').quoteId });
     economy.handleActivity(classifier.classify({
       timestamp: new Date(),
       source: 'url',
@@ -206,9 +213,10 @@ describe('EconomyEngine', () => {
     const paywall = new PaywallManager(wallet as any, market as any);
     const economy = new EconomyEngine(wallet as any, market as any, paywall);
 
-    economy.buyPack('reddit.com', 5); // x1.00
-    economy.buyPack('reddit.com', 5); // x1.35
-    economy.buyPack('reddit.com', 5); // x1.75
+    const buyQuoted = () => economy.buyPack('reddit.com', 5, { quoteId: economy.quotePack('reddit.com', 5).quoteId });
+    buyQuoted(); // x1.00
+    buyQuoted(); // x1.35
+    buyQuoted(); // x1.75
 
     expect(wallet.getSnapshot().balance).toBe(158);
     const session = paywall.getSession('reddit.com');
@@ -217,4 +225,69 @@ describe('EconomyEngine', () => {
     expect(session?.remainingSeconds).toBe(15 * 60);
     economy.destroy();
   });
+
+  it('charges exactly the itemized quote and refuses a stale quote id', () => {
+    const wallet = new FakeWallet();
+    const market = new FakeMarket({
+      'reddit.com': {
+        domain: 'reddit.com',
+        ratePerMin: 2,
+        packs: [{ minutes: 10, price: 20 }],
+        hourlyModifiers: Array(24).fill(1)
+      }
+    });
+    const paywall = new PaywallManager(wallet as any, market as any);
+    const economy = new EconomyEngine(wallet as any, market as any, paywall);
+
+    const first = economy.quotePack('reddit.com', 10, { colorFilter: 'greyscale' });
+    expect(first.lines.map((line) => [line.kind, line.value])).toEqual([['base-price', 20], ['color-filter', 0.55]]);
+    expect(first.price).toBe(11);
+    economy.buyPack('reddit.com', 10, { colorFilter: 'greyscale', quoteId: first.quoteId });
+    expect(wallet.getSnapshot().balance).toBe(89);
+
+    // The chain multiplier now applies, so the first quote no longer describes the price.
+    expect(() => economy.buyPack('reddit.com', 10, { colorFilter: 'greyscale', quoteId: first.quoteId })).toThrow(QuoteMismatchError);
+    expect(wallet.getSnapshot().balance).toBe(89);
+    const second = economy.quotePack('reddit.com', 10, { colorFilter: 'greyscale' });
+    expect(second.lines.find((line) => line.kind === 'chain')?.value).toBe(1.35);
+    economy.buyPack('reddit.com', 10, { colorFilter: 'greyscale', quoteId: second.quoteId });
+    expect(wallet.getSnapshot().balance).toBe(89 - second.price);
+
+    const metered = economy.quoteMetered('twitter.com', { colorFilter: 'redscale' });
+    expect(metered.lines.map((line) => line.kind)).toEqual(['base-rate', 'color-filter', 'metered-premium']);
+    const session = economy.startPayAsYouGo('twitter.com', { colorFilter: 'redscale', quoteId: metered.quoteId });
+    expect(session.ratePerMin).toBeCloseTo(metered.ratePerMin);
+    economy.destroy();
+  });
+
+  it('itemizes a budget surcharge and requires a quote id', () => {
+    const wallet = new FakeWallet();
+    const market = new FakeMarket({
+      'reddit.com': {
+        domain: 'reddit.com',
+        ratePerMin: 2,
+        packs: [{ minutes: 10, price: 20 }],
+        hourlyModifiers: Array(24).fill(1)
+      }
+    });
+    const paywall = new PaywallManager(wallet as any, market as any, () => ({ action: 'surcharge', multiplier: 1.5, budgetIds: [1] }));
+    const economy = new EconomyEngine(wallet as any, market as any, paywall);
+
+    expect(() => economy.buyPack('reddit.com', 10)).toThrow(/quote id is required/);
+    expect(() => economy.startPayAsYouGo('reddit.com')).toThrow(QuoteMismatchError);
+    expect(wallet.getSnapshot().balance).toBe(100);
+
+    const pack = economy.quotePack('reddit.com', 10);
+    expect(pack.lines.map((line) => [line.kind, line.value])).toEqual([['base-price', 20], ['budget', 1.5]]);
+    expect(pack.price).toBe(30);
+    economy.buyPack('reddit.com', 10, { quoteId: pack.quoteId });
+    expect(wallet.getSnapshot().balance).toBe(70);
+    expect(paywall.getSession('reddit.com')?.purchasePrice).toBe(30);
+
+    const metered = economy.quoteMetered('twitter.com');
+    expect(metered.lines.map((line) => line.kind)).toEqual(['base-rate', 'metered-premium', 'budget']);
+    const session = economy.startPayAsYouGo('twitter.com', { quoteId: metered.quoteId });
+    expect(session.ratePerMin).toBeCloseTo(metered.ratePerMin);
+    economy.destroy();
+  });
 });
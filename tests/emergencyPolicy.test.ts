@@ -1,5 +1,26 @@
-import { describe, expect, it } from 'vitest';
-import { getEmergencyPolicyConfig } from '../src/shared/emergencyPolicy';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getEmergencyPolicyConfig, parseCustomEmergencyPolicies } from '../src/shared/emergencyPolicy';
+import type { CustomEmergencyPolicy } from '../src/shared/types';
+import { Database } from '../src/backend/storage';
+import { SettingsService } from '../src/backend/settings';
+import { WalletManager } from '../src/backend/wallet';
+import { MarketService } from '../src/backend/market';
+import { PaywallManager } from '../src/backend/paywall';
+import { ConsumptionLogService } from '../src/backend/consumption';
+import { EmergencyService } from '../src/backend/emergency';
+
+const workdays: CustomEmergencyPolicy = {
+  id: 'custom:workdays',
+  label: 'Workdays',
+  durationSeconds: 10 * 60,
+  autoExpire: true,
+  tokensPerDay: 3,
+  cooldownSeconds: 15 * 60,
+  urlLocked: false,
+  debtCoins: 4,
+  schedule: [{ weekdays: [0, 6], rules: { tokensPerDay: null, debtCoins: 0 } }],
+  domainOverrides: [{ domain: 'youtube.com', rules: { tokensPerDay: 1, urlLocked: true } }]
+};
 
 describe('shared emergency policy config', () => {
   it('returns balanced defaults', () => {
@@ -26,4 +47,66 @@ describe('shared emergency policy config', () => {
       })
     );
   });
+
+  it('layers the weekday schedule and then the domain override over a custom policy', () => {
+    // 2026-10-17 is a Saturday; 2026-10-19 a Monday.
+    const saturday = new Date(2026, 9, 17, 12).getTime();
+    const monday = new Date(2026, 9, 19, 12).getTime();
+
+    expect(getEmergencyPolicyConfig('custom:workdays', [workdays], { domain: 'reddit.com', at: monday })).toEqual(
+      expect.objectContaining({ id: 'custom:workdays', label: 'Workdays', tokensPerDay: 3, debtCoins: 4, urlLocked: false })
+    );
+    expect(getEmergencyPolicyConfig('custom:workdays', [workdays], { domain: 'reddit.com', at: saturday })).toEqual(
+      expect.objectContaining({ tokensPerDay: null, debtCoins: 0 })
+    );
+    // The override wins over the weekend schedule but keeps the schedule's other changes.
+    expect(getEmergencyPolicyConfig('custom:workdays', [workdays], { domain: 'm.youtube.com', at: saturday })).toEqual(
+      expect.objectContaining({ tokensPerDay: 1, debtCoins: 0, urlLocked: true })
+    );
+    expect(getEmergencyPolicyConfig('custom:gone', [workdays]).id).toBe('balanced');
+  });
+
+  it('rejects malformed and duplicate custom policies', () => {
+    expect(() => parseCustomEmergencyPolicies([{ ...workdays, id: 'workdays' }])).toThrow();
+    expect(() => parseCustomEmergencyPolicies([{ ...workdays, cooldownSeconds: -1 }])).toThrow();
+    expect(() => parseCustomEmergencyPolicies([workdays, workdays])).toThrow(/unique/);
+    expect(parseCustomEmergencyPolicies([{ ...workdays, domainOverrides: [{ domain: 'https://www.YouTube.com/', rules: {} }] }])[0].domainOverrides[0].domain).toBe(
+      'youtube.com'
+    );
+  });
+});
+
+describe('custom emergency policies on the desktop', () => {
+  let db: Database | null = null;
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await db?.close();
+    db = null;
+  });
+
+  it('stores the selection and enforces its duration, quota and debt', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 19, 12));
+    db = new Database({ filePath: ':memory:' });
+    const settings = new SettingsService(db);
+    const wallet = new WalletManager(db);
+    const paywall = new PaywallManager(wallet, new MarketService(db));
+    const emergency = new EmergencyService(settings, wallet, paywall, new ConsumptionLogService(db));
+
+    expect(() => settings.setEmergencyPolicy('custom:workdays')).toThrow('Unknown emergency policy');
+    settings.setCustomEmergencyPolicies([{ ...workdays, cooldownSeconds: 0 }]);
+    settings.setEmergencyPolicy('custom:workdays');
+    expect(settings.getEmergencyPolicy()).toBe('custom:workdays');
+
+    const session = emergency.start('reddit.com', 'Checking a message');
+    expect(session.remainingSeconds).toBe(10 * 60);
+    expect(wallet.getSnapshot().balance).toBe(46);
+
+    // youtube.com is URL-locked and limited to one use, but the daily counter is shared.
+    expect(() => emergency.start('youtube.com', 'Lecture')).toThrow('No emergency uses left today (1/day).');
+
+    settings.setCustomEmergencyPolicies([]);
+    expect(settings.getEmergencyPolicy()).toBe('balanced');
+  });
 });
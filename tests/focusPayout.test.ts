@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Database } from '../src/backend/storage';
+import { WalletManager } from '../src/backend/wallet';
+import { FocusService } from '../src/backend/focus';
+import type { ActivityCategory, FocusSession } from '../src/shared/types';
+
+const START_MS = Date.parse('2024-05-01T09:00:00.000Z');
+
+describe('FocusService verified payouts', () => {
+  let db: Database;
+  let wallet: WalletManager;
+  let focus: FocusService;
+
+  function addActivity(category: ActivityCategory | null, offsetSec: number, secondsActive: number, idleSeconds = 0) {
+    const startedAt = new Date(START_MS + offsetSec * 1000).toISOString();
+    const endedAt = new Date(START_MS + (offsetSec + secondsActive + idleSeconds) * 1000).toISOString();
+    db.connection
+      .prepare(
+        `INSERT INTO activities(started_at, ended_at, source, app_name, category, seconds_active, idle_seconds)
+         VALUES (?, ?, 'app', 'Editor', ?, ?, ?)`
+      )
+      .run(startedAt, endedAt, category, secondsActive, idleSeconds);
+  }
+
+  function storedMultiplier(id: number) {
+    return (db.connection.prepare('SELECT multiplier FROM focus_sessions WHERE id = ?').get(id) as { multiplier: number }).multiplier;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(START_MS));
+    db = new Database({ filePath: ':memory:' });
+    wallet = new WalletManager(db);
+    focus = new FocusService(db, wallet);
+  });
+
+  afterEach(async () => {
+    focus.dispose();
+    vi.useRealTimers();
+    await db.close();
+  });
+
+  it('pays completed sessions from the activity recorded during them', () => {
+    // Started before the session; only the last 60s count.
+    addActivity('productive', -60, 120);
+    addActivity('productive', 60, 420);
+    addActivity('neutral', 480, 240);
+    addActivity('frivolity', 720, 120, 60);
+    // After the session ended.
+    addActivity('productive', 1000, 600);
+
+    const stops: FocusSession[] = [];
+    focus.on('stop', (session: FocusSession) => stops.push(session));
+    const { id } = focus.startSession(900);
+    vi.advanceTimersByTime(900_000);
+
+    expect(stops).toHaveLength(1);
+    const [session] = stops;
+    expect(session.verification).toEqual({
+      productiveSeconds: 480,
+      neutralSeconds: 240,
+      frivolitySeconds: 120,
+      idleSeconds: 60,
+      untrackedSeconds: 0,
+      creditedSeconds: 570,
+      completionBonus: 1.2,
+      payout: 46
+    });
+    expect(session.multiplier).toBe(0.76);
+    expect(storedMultiplier(id)).toBe(0.76);
+    expect(wallet.getSnapshot().balance).toBe(96);
+  });
+
+  it('charges frivolous sessions without going below zero and skips the bonus', () => {
+    const { id } = focus.startSession(600);
+    addActivity('frivolity', 0, 300);
+    vi.advanceTimersByTime(300_000);
+
+    const ended = focus.stopSession(true);
+    expect(ended?.verification).toMatchObject({ frivolitySeconds: 300, completionBonus: 1, payout: -5 });
+    expect(ended?.multiplier).toBe(-0.125);
+    expect(storedMultiplier(id)).toBe(-0.125);
+    expect(wallet.getSnapshot().balance).toBe(45);
+
+    wallet.adjust(-44);
+    focus.startSession(600);
+    addActivity('draining', 300, 600);
+    vi.advanceTimersByTime(600_000);
+    expect(wallet.getSnapshot().balance).toBe(0);
+  });
+
+  it('pays nothing for time without tracked activity', () => {
+    focus.startSession(300);
+    vi.advanceTimersByTime(300_000);
+    expect(wallet.getSnapshot().balance).toBe(50);
+    const [row] = db.connection.prepare('SELECT completed, multiplier FROM focus_sessions').all();
+    expect(row).toEqual({ completed: 1, multiplier: 0 });
+  });
+});
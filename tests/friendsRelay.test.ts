@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Database } from '../src/backend/storage';
+import { SettingsService } from '../src/backend/settings';
+import { FriendsService } from '../src/backend/friends';
+import { decryptSummary, deriveRelayReadToken, encryptSummary } from '../src/backend/relayCrypto';
+import { startLocalRelay, type LocalRelay } from '../relay/src/local';
+
+const overview = {
+  periodDays: 1,
+  totalActiveHours: 6.5,
+  productivityScore: 81,
+  deepWorkSeconds: 7200,
+  categoryBreakdown: { productive: 18000, neutral: 3000, frivolity: 1200, draining: 0, idle: 600 },
+  focusTrend: 'improving',
+  peakProductiveHour: 10,
+  riskHour: 16
+};
+
+function daysAgo(days: number) {
+  const date = new Date(Date.now() - days * 86_400_000);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+async function publishFor(relayUrl: string, identity: { userId: string; publishKey: string; readKey: string }, date: string, deepWorkSeconds: number) {
+  const res = await fetch(`${relayUrl}/v1/u/${identity.userId}/summary`, {
+    method: 'PUT',
+    headers: { 'content-type': 'application/json', authorization: `Bearer ${identity.publishKey}` },
+    body: JSON.stringify({ date, ...encryptSummary(identity.readKey, identity.userId, date, { ...overview, deepWorkSeconds }) })
+  });
+  expect(res.ok).toBe(true);
+}
+
+function createPeer() {
+  const db = new Database({ filePath: ':memory:' });
+  const settings = new SettingsService(db);
+  const friends = new FriendsService(settings, { getOverview: () => overview } as any, db);
+  return { db, settings, friends };
+}
+
+describe('relay v2 encryption', () => {
+  it('round-trips summaries and binds them to user and date', () => {
+    const sealed = encryptSummary('read-key-abcdefghijklmnop', 'user-1', '2026-03-04', overview);
+    expect(sealed.version).toBe(2);
+    expect(decryptSummary('read-key-abcdefghijklmnop', 'user-1', '2026-03-04', sealed)).toEqual(overview);
+    expect(() => decryptSummary('read-key-abcdefghijklmnop', 'user-1', '2026-03-05', sealed)).toThrow(/could not be decrypted/);
+    expect(() => decryptSummary('another-key-abcdefghijklm', 'user-1', '2026-03-04', sealed)).toThrow(/could not be decrypted/);
+    expect(deriveRelayReadToken('read-key-abcdefghijklmnop', 'user-1')).not.toContain('read-key');
+  });
+});
+
+describe('FriendsService against the local relay', () => {
+  let relay: LocalRelay;
+  const peers: Array<ReturnType<typeof createPeer>> = [];
+
+  beforeEach(async () => {
+    relay = await startLocalRelay();
+  });
+
+  afterEach(async () => {
+    for (const peer of peers.splice(0)) {
+      peer.friends.disable();
+      await peer.db.close();
+    }
+    await relay.close();
+  });
+
+  it('publishes ciphertext the relay cannot read and friends can decrypt', async () => {
+    const alice = createPeer();
+    const bob = createPeer();
+    peers.push(alice, bob);
+
+    const identity = await alice.friends.enable({ relayUrl: relay.url });
+    await alice.friends.publishNow();
+
+    const stored = await relay.db
+      .prepare('SELECT version, nonce, ciphertext FROM summaries WHERE user_id = ?')
+      .bind(identity.userId)
+      .first<{ version: number; nonce: string; ciphertext: string }>();
+    expect(stored?.version).toBe(2);
+    expect(JSON.stringify(stored)).not.toContain('productivityScore');
+    const user = await relay.db.prepare('SELECT read_hash FROM users WHERE user_id = ?').bind(identity.userId).first<{ read_hash: string }>();
+    expect(user?.read_hash).toBeTruthy();
+
+    await bob.friends.enable({ relayUrl: relay.url });
+    bob.friends.addFriend({ name: 'Alice', userId: identity.userId, readKey: identity.readKey });
+    const cache = await bob.friends.fetchAll();
+    expect(cache[identity.userId]?.payload).toMatchObject({ productivityScore: 81, deepWorkSeconds: 7200 });
+
+    // The raw read key is not a valid relay credential.
+    const raw = await fetch(`${relay.url}/v1/u/${identity.userId}/latest`, { headers: { authorization: `Bearer ${identity.readKey}` } });
+    expect(raw.status).toBe(401);
+  });
+
+  it('rejects plaintext publishes', async () => {
+    const alice = createPeer();
+    peers.push(alice);
+    const identity = await alice.friends.enable({ relayUrl: relay.url });
+    const res = await fetch(`${relay.url}/v1/u/${identity.userId}/summary`, {
+      method: 'PUT',
+      headers: { 'content-type': 'application/json', authorization: `Bearer ${identity.publishKey}` },
+      body: JSON.stringify({ date: '2026-03-04', payload: overview })
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('pages through history and caches 30 days locally', async () => {
+    const alice = createPeer();
+    const bob = createPeer();
+    peers.push(alice, bob);
+    const identity = await alice.friends.enable({ relayUrl: relay.url });
+    for (let day = 0; day < 35; day += 1) {
+      await publishFor(relay.url, identity, daysAgo(day), day * 60);
+    }
+    // Outside the retention window: never served even when asked for.
+    await relay.db
+      .prepare('INSERT INTO summaries(user_id, date, version, nonce, ciphertext, updated_at) VALUES (?, ?, 2, ?, ?, ?)')
+      .bind(identity.userId, daysAgo(120), 'AAAA', 'AAAA', new Date().toISOString())
+      .run();
+
+    const token = deriveRelayReadToken(identity.readKey, identity.userId);
+    const firstPage = await fetch(`${relay.url}/v1/u/${identity.userId}/summaries?from=${daysAgo(200)}&to=${daysAgo(0)}&limit=20`, {
+      headers: { authorization: `Bearer ${token}` }
+    }).then((res) => res.json() as Promise<{ summaries: Array<{ date: string }>; nextCursor: string | null }>);
+    expect(firstPage.summaries).toHaveLength(20);
+    expect(firstPage.summaries[0].date > daysAgo(120)).toBe(true);
+    const secondPage = await fetch(
+      `${relay.url}/v1/u/${identity.userId}/summaries?from=${daysAgo(200)}&to=${daysAgo(0)}&limit=20&cursor=${firstPage.nextCursor}`,
+      { headers: { authorization: `Bearer ${token}` } }
+    ).then((res) => res.json() as Promise<{ summaries: Array<{ date: string }>; nextCursor: string | null }>);
+    expect(secondPage.summaries.length).toBeGreaterThan(0);
+    expect(secondPage.nextCursor).toBeNull();
+    expect(secondPage.summaries[0].date > firstPage.nextCursor!).toBe(true);
+
+    await bob.friends.enable({ relayUrl: relay.url });
+    bob.friends.addFriend({ name: 'Alice', userId: identity.userId, readKey: identity.readKey });
+    const history = await bob.friends.syncHistory(identity.userId);
+    expect(history).toHaveLength(30);
+    expect(history[history.length - 1]).toMatchObject({ date: daysAgo(0), deepWorkSeconds: 0, productivityScore: 81 });
+    expect(history[0]).toMatchObject({ date: daysAgo(29), deepWorkSeconds: 29 * 60 });
+
+    // The cache survives the relay going away.
+    await relay.close();
+    relay = await startLocalRelay();
+    expect(bob.friends.getHistory(identity.userId)).toHaveLength(30);
+  });
+
+  it('stops serving summaries past retention even when the user stopped publishing', async () => {
+    const alice = createPeer();
+    peers.push(alice);
+    const identity = await alice.friends.enable({ relayUrl: relay.url });
+    await relay.db
+      .prepare('INSERT INTO summaries(user_id, date, version, nonce, ciphertext, updated_at) VALUES (?, ?, 2, ?, ?, ?)')
+      .bind(identity.userId, daysAgo(120), 'AAAA', 'AAAA', new Date().toISOString())
+      .run();
+
+    const headers = { authorization: `Bearer ${deriveRelayReadToken(identity.readKey, identity.userId)}` };
+    const latest = await fetch(`${relay.url}/v1/u/${identity.userId}/latest`, { headers }).then((res) => res.json() as Promise<{ summary: unknown }>);
+    expect(latest.summary).toBeNull();
+    const byDate = await fetch(`${relay.url}/v1/u/${identity.userId}/summary?date=${daysAgo(120)}`, { headers }).then(
+      (res) => res.json() as Promise<{ summary: unknown }>
+    );
+    expect(byDate.summary).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createLinuxWindowProbe,
+  detectLinuxSession,
+  parseGdbusReply,
+  parseSwayTree,
+  parseXpropActiveWindowId,
+  parseXpropWindowProperties,
+  type LinuxCommandRunner
+} from '../src/backend/linuxWindowProbe';
+import { createUrlWatcher } from '../src/backend/urlWatcher';
+
+// Output recorded from real sessions (trimmed).
+const XPROP_ROOT = '_NET_ACTIVE_WINDOW(WINDOW): window id # 0x3a00007\n';
+const XPROP_WINDOW = [
+  'WM_CLASS(STRING) = "Navigator", "firefox"',
+  '_NET_WM_NAME(UTF8_STRING) = "Home / X — Mozilla Firefox"',
+  'WM_NAME(STRING) = "Home / X - Mozilla Firefox"',
+  '_NET_WM_PID(CARDINAL) = 4242',
+  ''
+].join('\n');
+
+const SWAY_TREE = JSON.stringify({
+  id: 1,
+  type: 'root',
+  nodes: [
+    {
+      id: 3,
+      type: 'output',
+      nodes: [
+        {
+          id: 4,
+          type: 'workspace',
+          nodes: [
+            { id: 10, type: 'con', focused: false, app_id: 'foot', name: 'nvim' },
+            { id: 11, type: 'con', focused: true, app_id: 'org.gnome.Terminal', name: 'pnpm test' }
+          ],
+          floating_nodes: []
+        }
+      ]
+    }
+  ]
+});
+
+type Fixture = Record<string, string | Error>;
+
+function recordedRunner(fixtures: Fixture, calls: string[] = []): LinuxCommandRunner {
+  return async (command, args) => {
+    const key = [command, ...args].join(' ');
+    calls.push(key);
+    const match = fixtures[key];
+    if (match === undefined) {
+      throw Object.assign(new Error(`unexpected command: ${key}`), { code: 1 });
+    }
+    if (match instanceof Error) throw match;
+    return match;
+  };
+}
+
+const GDBUS = 'gdbus call --session --dest';
+
+describe('linux window probe parsers', () => {
+  it('parses xprop output', () => {
+    expect(parseXpropActiveWindowId(XPROP_ROOT)).toBe('0x3a00007');
+    expect(parseXpropActiveWindowId('_NET_ACTIVE_WINDOW(WINDOW): window id # 0x0')).toBeNull();
+    expect(parseXpropWindowProperties(XPROP_WINDOW)).toEqual({
+      wmClass: 'firefox',
+      title: 'Home / X — Mozilla Firefox',
+      pid: 4242
+    });
+  });
+
+  it('finds the focused sway node', () => {
+    expect(parseSwayTree(SWAY_TREE)).toEqual({ appName: 'Terminal', windowTitle: 'pnpm test' });
+    expect(parseSwayTree('not json')).toBeNull();
+  });
+
+  it('reads gdbus GVariant replies', () => {
+    expect(parseGdbusReply('(uint64 5321,)\n')).toBe('5321');
+    expect(parseGdbusReply("('[{\"focus\":true}]',)")).toBe('[{"focus":true}]');
+    expect(parseGdbusReply('(false,)')).toBe('false');
+  });
+
+  it('detects the session backend from the environment', () => {
+    expect(detectLinuxSession({ DISPLAY: ':0', XDG_SESSION_TYPE: 'x11' })).toBe('x11');
+    expect(detectLinuxSession({ SWAYSOCK: '/run/user/1000/sway.sock', WAYLAND_DISPLAY: 'wayland-1' })).toBe('sway');
+    expect(detectLinuxSession({ XDG_SESSION_TYPE: 'wayland', XDG_CURRENT_DESKTOP: 'ubuntu:GNOME' })).toBe('gnome');
+    expect(detectLinuxSession({ WAYLAND_DISPLAY: 'wayland-0', XDG_CURRENT_DESKTOP: 'KDE' })).toBe('kde');
+    expect(detectLinuxSession({})).toBe('unknown');
+  });
+});
+
+describe('linux window probe', () => {
+  it('reads the X11 active window with xprintidle idle time', async () => {
+    const probe = createLinuxWindowProbe({
+      env: { DISPLAY: ':0', XDG_SESSION_TYPE: 'x11' },
+      run: recordedRunner({
+        'xprop -root _NET_ACTIVE_WINDOW': XPROP_ROOT,
+        'xprop -id 0x3a00007 WM_CLASS _NET_WM_NAME WM_NAME _NET_WM_PID': XPROP_WINDOW,
+        [`${GDBUS} org.freedesktop.ScreenSaver --object-path /org/freedesktop/ScreenSaver --method org.freedesktop.ScreenSaver.GetSessionIdleTime`]:
+          Object.assign(new Error('ServiceUnknown'), { code: 1 }),
+        xprintidle: '93500\n'
+      })
+    });
+
+    await expect(probe.getActiveWindow()).resolves.toEqual({
+      appName: 'Firefox',
+      windowTitle: 'Home / X — Mozilla Firefox',
+      idleSeconds: 93
+    });
+  });
+
+  it('uses the Mutter idle monitor and Window Calls extension on GNOME Wayland', async () => {
+    const calls: string[] = [];
+    const probe = createLinuxWindowProbe({
+      env: { XDG_SESSION_TYPE: 'wayland', XDG_CURRENT_DESKTOP: 'GNOME' },
+      run: recordedRunner(
+        {
+          [`${GDBUS} org.gnome.Shell --object-path /org/gnome/Shell/Extensions/Windows --method org.gnome.Shell.Extensions.Windows.List`]:
+            `('[{"wm_class":"Google-chrome","title":"Inbox - Gmail","focus":false},{"wm_class":"code","title":"economy.ts","focus":true}]',)\n`,
+          [`${GDBUS} org.gnome.Mutter.IdleMonitor --object-path /org/gnome/Mutter/IdleMonitor/Core --method org.gnome.Mutter.IdleMonitor.GetIdletime`]:
+            '(uint64 2400,)\n'
+        },
+        calls
+      )
+    });
+
+    await expect(probe.getActiveWindow()).resolves.toEqual({
+      appName: 'Visual Studio Code',
+      windowTitle: 'economy.ts',
+      idleSeconds: 2
+    });
+    await probe.getActiveWindow();
+    expect(calls.filter((call) => call.includes('IdleMonitor'))).toHaveLength(2);
+  });
+
+  it('reads the focused window from the sway tree', async () => {
+    const probe = createLinuxWindowProbe({
+      env: { SWAYSOCK: '/run/user/1000/sway.sock', WAYLAND_DISPLAY: 'wayland-1' },
+      run: recordedRunner({
+        'swaymsg -t get_tree -r': SWAY_TREE,
+        [`${GDBUS} org.freedesktop.ScreenSaver --object-path /org/freedesktop/ScreenSaver --method org.freedesktop.ScreenSaver.GetSessionIdleTime`]:
+          '(uint32 12,)\n'
+      })
+    });
+
+    const win = await probe.getActiveWindow();
+    expect(win).toEqual({ appName: 'Terminal', windowTitle: 'pnpm test', idleSeconds: 12 });
+  });
+
+  it('reads the Plasma screensaver idle time as milliseconds', async () => {
+    const idleReply = {
+      [`${GDBUS} org.freedesktop.ScreenSaver --object-path /org/freedesktop/ScreenSaver --method org.freedesktop.ScreenSaver.GetSessionIdleTime`]:
+        '(uint32 93500,)\n'
+    };
+    const wayland = createLinuxWindowProbe({
+      env: { WAYLAND_DISPLAY: 'wayland-0', XDG_CURRENT_DESKTOP: 'KDE' },
+      run: recordedRunner(idleReply)
+    });
+    const x11 = createLinuxWindowProbe({
+      env: { DISPLAY: ':0', XDG_SESSION_TYPE: 'x11', XDG_CURRENT_DESKTOP: 'KDE' },
+      run: recordedRunner(idleReply)
+    });
+
+    await expect(wayland.getIdleSeconds()).resolves.toBe(93);
+    await expect(x11.getIdleSeconds()).resolves.toBe(93);
+  });
+
+  it('closes browser tabs with a key chord and other windows via the window manager', async () => {
+    const calls: string[] = [];
+    const probe = createLinuxWindowProbe({
+      env: { DISPLAY: ':0' },
+      run: recordedRunner({ 'xdotool key --clearmodifiers ctrl+w': '', 'wmctrl -c :ACTIVE:': '' }, calls)
+    });
+
+    await probe.closeActiveTab('Google Chrome');
+    await probe.closeActiveTab('Slack');
+    expect(calls).toEqual(['xdotool key --clearmodifiers ctrl+w', 'wmctrl -c :ACTIVE:']);
+  });
+});
+
+describe('urlWatcher on linux', () => {
+  it('emits browser domain events from the linux probe', async () => {
+    const events: any[] = [];
+    const watcher = createUrlWatcher({
+      onActivity: (event) => events.push(event),
+      intervalMs: 5,
+      platformOverride: 'linux',
+      linuxProbe: {
+        session: 'x11',
+        getActiveWindow: async () => ({ appName: 'Firefox', windowTitle: 'Home / reddit.com', idleSeconds: 4 }),
+        getIdleSeconds: async () => 4,
+        closeActiveTab: async () => undefined
+      }
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 15));
+    watcher.stop();
+
+    expect(events.length).toBeGreaterThan(0);
+    expect(events[0]).toMatchObject({ appName: 'Firefox', domain: 'reddit.com', source: 'url', idleSeconds: 4 });
+  });
+});
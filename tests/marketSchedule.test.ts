@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { resolveMarketCurve, resolveMarketModifier, toLocalDateKey } from '../src/shared/marketSchedule';
+import { Database } from '../src/backend/storage';
+import { MarketService } from '../src/backend/market';
+import type { MarketCalendarOverride, MarketRate } from '@shared/types';
+
+const flat = (value: number) => Array(24).fill(value) as number[];
+
+// Wednesday 4 March 2026 and Saturday 7 March 2026, local time.
+const WEDNESDAY = new Date(2026, 2, 4, 10, 0, 0);
+const SATURDAY = new Date(2026, 2, 7, 10, 0, 0);
+
+const rate: MarketRate = {
+  domain: 'youtube.com',
+  ratePerMin: 2,
+  packs: [],
+  hourlyModifiers: flat(1),
+  weekdayModifiers: [flat(0.5), flat(1.5), flat(1.5), flat(1.5), flat(1.5), flat(1.5), flat(0.5)]
+};
+
+const override = (patch: Partial<MarketCalendarOverride>): MarketCalendarOverride => ({
+  id: 1,
+  label: 'Holiday',
+  startDate: '2026-03-01',
+  endDate: '2026-03-31',
+  domain: null,
+  hourlyModifiers: flat(0.25),
+  createdAt: '2026-02-01T00:00:00.000Z',
+  ...patch
+});
+
+describe('resolveMarketCurve', () => {
+  it('uses the weekday row, falling back to the flat hourly curve', () => {
+    expect(resolveMarketModifier(rate, [], WEDNESDAY)).toBe(1.5);
+    expect(resolveMarketModifier(rate, [], SATURDAY)).toBe(0.5);
+    expect(resolveMarketCurve({ ...rate, weekdayModifiers: null }, [], SATURDAY).source).toBe('hourly');
+  });
+
+  it('prefers domain-specific, then narrower, then newer calendar overrides', () => {
+    const month = override({ id: 1 });
+    const week = override({ id: 2, startDate: '2026-03-02', endDate: '2026-03-08', hourlyModifiers: flat(2) });
+    const newerWeek = override({ id: 3, startDate: '2026-03-02', endDate: '2026-03-08', hourlyModifiers: flat(3) });
+    const domainMonth = override({ id: 4, domain: 'youtube.com', hourlyModifiers: flat(4) });
+    const otherDomain = override({ id: 5, domain: 'reddit.com', startDate: '2026-03-04', endDate: '2026-03-04', hourlyModifiers: flat(9) });
+
+    expect(resolveMarketModifier(rate, [month, week], WEDNESDAY)).toBe(2);
+    expect(resolveMarketModifier(rate, [month, week, newerWeek], WEDNESDAY)).toBe(3);
+    expect(resolveMarketModifier(rate, [month, week, newerWeek, domainMonth, otherDomain], WEDNESDAY)).toBe(4);
+    expect(resolveMarketCurve(rate, [override({ startDate: '2026-04-01', endDate: '2026-04-02' })], WEDNESDAY).source).toBe('weekday');
+  });
+});
+
+describe('MarketService calendar overrides', () => {
+  let db: Database | null = null;
+
+  afterEach(async () => {
+    await db?.close();
+    db = null;
+  });
+
+  it('persists weekday matrices and applies stored overrides', () => {
+    db = new Database({ filePath: ':memory:' });
+    const market = new MarketService(db);
+    market.upsertRate(rate);
+    const stored = market.getRate('youtube.com')!;
+    expect(stored.weekdayModifiers?.[6][10]).toBe(0.5);
+    expect(market.getModifier(stored, WEDNESDAY)).toBe(1.5);
+
+    const day = toLocalDateKey(WEDNESDAY);
+    const created = market.addCalendarOverride({
+      label: 'Deadline',
+      startDate: day,
+      endDate: day,
+      domain: 'https://www.youtube.com/',
+      hourlyModifiers: flat(3)
+    });
+    expect(created.domain).toBe('youtube.com');
+    expect(market.listCalendarOverrides()).toHaveLength(1);
+    expect(market.getModifier(stored, WEDNESDAY)).toBe(3);
+    expect(market.getModifier(stored, SATURDAY)).toBe(0.5);
+
+    expect(() =>
+      market.addCalendarOverride({ label: 'Backwards', startDate: '2026-03-05', endDate: '2026-03-04', domain: null, hourlyModifiers: flat(1) })
+    ).toThrow(/ends before it starts/);
+
+    market.removeCalendarOverride(created.id);
+    expect(market.getModifier(stored, WEDNESDAY)).toBe(1.5);
+  });
+});
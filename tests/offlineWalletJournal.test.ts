@@ -0,0 +1,88 @@
+import { createHmac } from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Database } from '../src/backend/storage';
+import { WalletManager } from '../src/backend/wallet';
+import {
+  describeOfflineWalletReconciliation,
+  mergeOfflineWalletReconciliations,
+  offlineWalletSigningPayload,
+  type OfflineWalletEntry
+} from '../src/shared/offlineWalletJournal';
+
+const JOURNAL_KEY = 'journal-key';
+
+function signed(entry: Omit<OfflineWalletEntry, 'signature'>, key = JOURNAL_KEY): OfflineWalletEntry {
+  return { ...entry, signature: createHmac('sha256', key).update(offlineWalletSigningPayload(entry)).digest('hex') };
+}
+
+describe('offline wallet journal replay', () => {
+  let db: Database;
+  let wallet: WalletManager;
+
+  beforeEach(() => {
+    db = new Database({ filePath: ':memory:' });
+    wallet = new WalletManager(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('replays signed entries in order and ignores sync ids it has already seen', () => {
+    const journal = [
+      signed({ syncId: 'b', ts: '2024-05-01T10:05:00.000Z', type: 'spend', amount: 60, meta: { reason: 'pack-purchase', domain: 'reddit.com' } }),
+      signed({ syncId: 'a', ts: '2024-05-01T10:00:00.000Z', type: 'earn', amount: 20, meta: { reason: 'pack-refund' } })
+    ];
+
+    const first = wallet.replayOfflineJournal(journal, { signingKey: JOURNAL_KEY });
+    expect(first).toMatchObject({ applied: 2, duplicates: 0, capped: 0, rejected: 0, shortfall: 0, balance: 10 });
+    // The earn was recorded first, so it funds the purchase.
+    expect(first.outcomes.map((outcome) => outcome.syncId)).toEqual(['a', 'b']);
+
+    const retry = wallet.replayOfflineJournal(journal, { signingKey: JOURNAL_KEY });
+    expect(retry).toMatchObject({ applied: 0, duplicates: 2, balance: 10 });
+    expect(wallet.reconcile().ok).toBe(true);
+  });
+
+  it('caps spends the merged balance cannot cover and writes off the rest', () => {
+    // The desktop spent coins of its own while the extension was offline.
+    wallet.spend(40);
+    const report = wallet.replayOfflineJournal(
+      [
+        signed({ syncId: 'pack', ts: '2024-05-01T10:00:00.000Z', type: 'spend', amount: 25, meta: { reason: 'pack-purchase' } }),
+        signed({ syncId: 'tick', ts: '2024-05-01T10:01:00.000Z', type: 'spend', amount: 3, meta: { reason: 'metered-tick' } })
+      ],
+      { signingKey: JOURNAL_KEY }
+    );
+
+    expect(report).toMatchObject({ applied: 0, capped: 2, shortfall: 18, balance: 0 });
+    expect(report.outcomes).toEqual([
+      expect.objectContaining({ syncId: 'pack', status: 'capped', requestedAmount: 25, appliedAmount: 10 }),
+      expect.objectContaining({ syncId: 'tick', status: 'capped', requestedAmount: 3, appliedAmount: 0 })
+    ]);
+    const rows = wallet.listTransactions(10).filter((row) => row.syncId === 'pack' || row.syncId === 'tick');
+    expect(rows).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ syncId: 'pack', type: 'spend', amount: 10, meta: expect.objectContaining({ writtenOff: 15, offline: true }) }),
+        expect.objectContaining({ syncId: 'tick', type: 'adjust', amount: 0, meta: expect.objectContaining({ writtenOff: 3 }) })
+      ])
+    );
+    expect(wallet.reconcile().ok).toBe(true);
+    expect(describeOfflineWalletReconciliation(report)).toBe('Synced 2 offline transactions · 2 spends exceeded your balance (18 coins written off)');
+  });
+
+  it('rejects entries that are unsigned or signed with another pairing', () => {
+    const entry = { syncId: 'x', ts: '2024-05-01T10:00:00.000Z', type: 'earn' as const, amount: 500 };
+    const report = wallet.replayOfflineJournal(
+      [entry, signed({ ...entry, syncId: 'y' }, 'old-journal-key'), { ...signed({ ...entry, syncId: 'z' }), amount: 5000 }],
+      { signingKey: JOURNAL_KEY }
+    );
+    expect(report).toMatchObject({ applied: 0, rejected: 3, balance: 50 });
+    expect(report.outcomes.map((outcome) => outcome.reason)).toEqual(['unsigned', 'bad-signature', 'bad-signature']);
+    expect(wallet.replayOfflineJournal([signed(entry)], { signingKey: null }).rejected).toBe(1);
+
+    const merged = mergeOfflineWalletReconciliations(report, wallet.replayOfflineJournal([signed(entry)], { signingKey: JOURNAL_KEY }));
+    expect(merged).toMatchObject({ applied: 1, rejected: 3, balance: 550 });
+    expect(merged.outcomes).toHaveLength(4);
+  });
+});
@@ -0,0 +1,99 @@
+import { createHmac } from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Database } from '../src/backend/storage';
+import { PairingService } from '../src/backend/pairing';
+import { WalletManager } from '../src/backend/wallet';
+import { createOfflineWalletQueue } from '../extension/src/background/offlineWalletQueue';
+import type { PendingWalletTransaction } from '../extension/src/storage';
+
+function createInMemoryQueue(initial: PendingWalletTransaction[]) {
+  let entries = [...initial];
+  return {
+    get entries() {
+      return entries;
+    },
+    async replacePendingWalletTransactions(next: PendingWalletTransaction[]) {
+      const bySyncId = new Map(next.map((entry) => [entry.syncId, entry]));
+      entries = entries.map((entry) => bySyncId.get(entry.syncId) ?? entry);
+    },
+    async clearPendingWalletTransactions(syncIds: string[]) {
+      entries = entries.filter((entry) => !syncIds.includes(entry.syncId));
+    }
+  };
+}
+
+describe('offline wallet queue', () => {
+  let db: Database;
+  let pairing: PairingService;
+  let wallet: WalletManager;
+
+  beforeEach(() => {
+    db = new Database({ filePath: ':memory:' });
+    pairing = new PairingService(db);
+    wallet = new WalletManager(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  function signer(current: { clientId: number; journalKey: string }) {
+    return {
+      currentSignerId: async () => current.clientId,
+      sign: async (payload: string) => ({
+        signature: createHmac('sha256', current.journalKey).update(payload).digest('hex'),
+        signedBy: current.clientId
+      })
+    };
+  }
+
+  it('re-signs entries from an earlier pairing so a re-pair does not lose them', async () => {
+    const first = pairing.exchange(pairing.createCode().code, 'Extension');
+    const current = { clientId: first.client.id, journalKey: first.journalKey };
+    const storage = createInMemoryQueue([
+      { syncId: 'earn', ts: '2024-05-01T10:00:00.000Z', type: 'earn', amount: 20 },
+      { syncId: 'spend', ts: '2024-05-01T10:05:00.000Z', type: 'spend', amount: 5 }
+    ]);
+    const queue = createOfflineWalletQueue({ storage, ...signer(current) });
+    await queue.signPending(storage.entries);
+    expect(storage.entries.every((entry) => entry.signedBy === first.client.id)).toBe(true);
+
+    // The user re-pairs before the desktop ever sees the journal.
+    const second = pairing.exchange(pairing.createCode().code, 'Extension');
+    Object.assign(current, { clientId: second.client.id, journalKey: second.journalKey });
+    expect(wallet.replayOfflineJournal(storage.entries, { signingKey: second.journalKey }).rejected).toBe(2);
+
+    const resigned = await queue.signPending(storage.entries);
+    expect(resigned.every((entry) => entry.signedBy === second.client.id)).toBe(true);
+    const report = wallet.replayOfflineJournal(resigned, { signingKey: pairing.getJournalKey(second.client.id) });
+    expect(report).toMatchObject({ applied: 2, rejected: 0, balance: 65 });
+    await queue.settle(resigned, report);
+    expect(storage.entries).toEqual([]);
+  });
+
+  it('keeps rejected entries queued for a fresh signature instead of dropping them', async () => {
+    const paired = pairing.exchange(pairing.createCode().code, 'Extension');
+    const storage = createInMemoryQueue([
+      { syncId: 'good', ts: '2024-05-01T10:00:00.000Z', type: 'earn', amount: 10 },
+      { syncId: 'stale', ts: '2024-05-01T10:01:00.000Z', type: 'earn', amount: 7 }
+    ]);
+    const queue = createOfflineWalletQueue({ storage, ...signer({ clientId: paired.client.id, journalKey: paired.journalKey }) });
+    const sent = await queue.signPending(storage.entries);
+    sent[1] = { ...sent[1], signature: 'tampered' };
+
+    const settled = await queue.settle(sent, wallet.replayOfflineJournal(sent, { signingKey: paired.journalKey }));
+    expect(settled).toMatchObject({ retrying: 1, report: { applied: 1, rejected: 0 } });
+    expect(storage.entries).toEqual([expect.objectContaining({ syncId: 'stale', signature: undefined })]);
+
+    const retried = await queue.signPending(storage.entries);
+    expect(wallet.replayOfflineJournal(retried, { signingKey: paired.journalKey })).toMatchObject({ applied: 1, balance: 67 });
+  });
+
+  it('signs with a journal key that is not the bearer token', () => {
+    const paired = pairing.exchange(pairing.createCode().code, 'Extension');
+    expect(paired.journalKey).not.toBe(paired.token);
+    expect(pairing.getJournalKey(paired.client.id)).toBe(paired.journalKey);
+    pairing.revoke(paired.client.id);
+    expect(pairing.getJournalKey(paired.client.id)).toBeNull();
+  });
+});
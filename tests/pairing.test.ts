@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { Request, Response } from 'express';
+import { Database } from '../src/backend/storage';
+import { PairingService } from '../src/backend/pairing';
+import { createPairingAuthMiddleware, createPairingRoutes } from '../src/backend/routes/pairing';
+
+function runMiddleware(pairing: PairingService, req: { method: string; path: string; authorization?: string; query?: Record<string, string> }) {
+  const result = { status: 200, nextCalled: false, locals: {} as Record<string, unknown> };
+  const res = {
+    locals: result.locals,
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json() {
+      return this;
+    }
+  };
+  createPairingAuthMiddleware(pairing)(
+    { method: req.method, path: req.path, headers: { authorization: req.authorization }, query: req.query ?? {} } as unknown as Request,
+    res as unknown as Response,
+    () => {
+      result.nextCalled = true;
+    }
+  );
+  return result;
+}
+
+// Authenticates like the server does, then dispatches to the /pairing router.
+function runPairingRoute(pairing: PairingService, req: { method: string; url: string; authorization: string }) {
+  const auth = runMiddleware(pairing, { method: req.method, path: `/pairing${req.url}`, authorization: req.authorization });
+  const result = { status: 200, body: undefined as unknown };
+  const res = {
+    locals: auth.locals,
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json(value: unknown) {
+      result.body = value;
+      return this;
+    }
+  };
+  const router = createPairingRoutes(pairing) as unknown as (req: unknown, res: unknown, next: () => void) => void;
+  router({ method: req.method, url: req.url, headers: {}, query: {}, body: {} }, res, () => undefined);
+  return result;
+}
+
+describe('pairing', () => {
+  let db: Database;
+  let now: number;
+  let pairing: PairingService;
+
+  beforeEach(() => {
+    db = new Database({ filePath: ':memory:' });
+    now = Date.parse('2026-03-02T10:00:00Z');
+    pairing = new PairingService(db, () => now);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('exchanges a code once and rejects it after expiry', () => {
+    const { code } = pairing.createCode();
+    const { token, client } = pairing.exchange(code.toLowerCase(), 'Extension');
+    expect(client.scopes).toEqual(['read', 'write', 'events']);
+    expect(pairing.authenticate(token)?.name).toBe('Extension');
+    expect(() => pairing.exchange(code, 'Again')).toThrow(/Invalid or expired/);
+
+    const late = pairing.createCode();
+    now += 5 * 60_000 + 1;
+    expect(() => pairing.exchange(late.code, 'Late')).toThrow(/Invalid or expired/);
+  });
+
+  it('burns the outstanding code after repeated wrong guesses', () => {
+    const { code } = pairing.createCode();
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      expect(() => pairing.exchange('WRONGONE', 'Guess')).toThrow();
+    }
+    expect(() => pairing.exchange(code, 'Owner')).toThrow(/Invalid or expired/);
+  });
+
+  it('stops authenticating a client once it is revoked', () => {
+    const revoked: number[] = [];
+    pairing.on('revoke', (id: number) => revoked.push(id));
+    const { token, client } = pairing.exchange(pairing.createCode().code, 'Web homepage');
+
+    pairing.revoke(client.id);
+    expect(pairing.authenticate(token)).toBeNull();
+    expect(revoked).toEqual([client.id]);
+    expect(pairing.listClients()[0].revokedAt).not.toBeNull();
+  });
+
+  it('enforces tokens and scopes on every non-public route', () => {
+    const { token } = pairing.exchange(pairing.createCode(['read']).code, 'Reader');
+    const bearer = `Bearer ${token}`;
+
+    expect(runMiddleware(pairing, { method: 'GET', path: '/health' }).nextCalled).toBe(true);
+    expect(runMiddleware(pairing, { method: 'GET', path: '/wallet' }).status).toBe(401);
+    expect(runMiddleware(pairing, { method: 'GET', path: '/wallet', authorization: bearer }).nextCalled).toBe(true);
+    expect(runMiddleware(pairing, { method: 'POST', path: '/paywall/start', authorization: bearer }).status).toBe(403);
+    expect(runMiddleware(pairing, { method: 'GET', path: '/events/.websocket', query: { token } }).status).toBe(403);
+
+    const desktop = runMiddleware(pairing, { method: 'GET', path: '/events/.websocket', query: { token: pairing.getDesktopToken() } });
+    expect(desktop.nextCalled).toBe(true);
+    expect(desktop.locals.pairedClient).toMatchObject({ id: 0 });
+  });
+
+  it('lets only the desktop list and revoke paired clients', () => {
+    const extension = pairing.exchange(pairing.createCode().code, 'Extension');
+    const other = pairing.exchange(pairing.createCode().code, 'Web homepage');
+    const asExtension = `Bearer ${extension.token}`;
+    const asDesktop = `Bearer ${pairing.getDesktopToken()}`;
+
+    expect(runPairingRoute(pairing, { method: 'GET', url: '/clients', authorization: asExtension }).status).toBe(403);
+    expect(runPairingRoute(pairing, { method: 'DELETE', url: `/clients/${other.client.id}`, authorization: asExtension }).status).toBe(403);
+    expect(pairing.authenticate(other.token)).not.toBeNull();
+
+    const listed = runPairingRoute(pairing, { method: 'GET', url: '/clients', authorization: asDesktop });
+    expect(listed.status).toBe(200);
+    expect(listed.body).toHaveLength(2);
+    expect(runPairingRoute(pairing, { method: 'DELETE', url: `/clients/${other.client.id}`, authorization: asDesktop }).status).toBe(200);
+    expect(pairing.authenticate(other.token)).toBeNull();
+  });
+});
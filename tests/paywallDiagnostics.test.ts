@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Database } from '../src/backend/storage';
+import { WalletManager } from '../src/backend/wallet';
+import { MarketService } from '../src/backend/market';
+import { PaywallManager } from '../src/backend/paywall';
+import { DIAGNOSTICS_RETENTION_DAYS, PaywallDiagnosticsLog } from '../src/backend/paywallDiagnostics';
+import { buildPaywallTimeline } from '../src/shared/paywallDiagnostics';
+
+describe('persistent paywall diagnostics', () => {
+  let db: Database;
+  let wallet: WalletManager;
+  let market: MarketService;
+
+  function advance(ms: number) {
+    vi.setSystemTime(new Date(Date.now() + ms));
+  }
+
+  function connect() {
+    const paywall = new PaywallManager(wallet, market);
+    const log = new PaywallDiagnosticsLog(db);
+    paywall.on('diagnostic', (event) => log.record(event));
+    return { paywall, log };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-05-01T12:00:00.000Z'));
+    db = new Database({ filePath: ':memory:' });
+    wallet = new WalletManager(db);
+    market = new MarketService(db);
+    market.upsertRate({ domain: 'youtube.com', ratePerMin: 1, packs: [{ minutes: 1, price: 5 }], hourlyModifiers: Array(24).fill(1) });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await db.close();
+  });
+
+  it('keeps the session history across restarts and filters it by domain and time', () => {
+    const { paywall } = connect();
+    const startedAt = Date.now();
+    paywall.buyPack('youtube.com', 1, 5);
+    paywall.startEmergency('reddit.com', 'Looking up a recipe', { durationSeconds: 30 });
+    for (let i = 0; i < 4; i += 1) {
+      advance(15_000);
+      paywall.tick(15, 'youtube.com', 'https://youtube.com/watch');
+    }
+
+    // A new log over the same database sees everything the previous run wrote.
+    const { log } = connect();
+    const youtube = log.query({ domain: 'www.youtube.com' });
+    expect(youtube.map((event) => event.event)).toEqual(['session-started', 'session-tick', 'session-tick', 'session-tick', 'session-tick', 'session-ended']);
+    expect(youtube.at(-1)).toMatchObject({ mode: 'pack', reason: 'completed', remainingSeconds: 0, paused: false });
+    expect(log.query({ domain: 'reddit.com' }).at(-1)).toMatchObject({ event: 'session-ended', reason: 'emergency-expired' });
+
+    const late = log.query({ since: startedAt + 40_000 });
+    expect(late.every((event) => event.ts >= startedAt + 40_000)).toBe(true);
+    expect(late.map((event) => event.event)).toEqual(['session-tick', 'session-tick', 'session-ended']);
+    expect(log.query({ domain: 'youtube.com', limit: 2 }).map((event) => event.event)).toEqual(['session-tick', 'session-ended']);
+  });
+
+  it('drops events past the retention window', () => {
+    const { paywall, log } = connect();
+    paywall.startEmergency('reddit.com', 'Old', { durationSeconds: 30 });
+    advance((DIAGNOSTICS_RETENTION_DAYS + 1) * 24 * 60 * 60 * 1000);
+    paywall.endSession('reddit.com');
+
+    expect(log.prune()).toBe(1);
+    expect(log.query().map((event) => event.event)).toEqual(['session-ended']);
+  });
+
+  it('folds runs of ticks into single timeline entries per domain', () => {
+    const lanes = buildPaywallTimeline([
+      { ts: 1, event: 'session-started', domain: 'youtube.com', mode: 'pack', remainingSeconds: 60 },
+      { ts: 2, event: 'session-started', domain: 'reddit.com', mode: 'emergency', remainingSeconds: null },
+      { ts: 3, event: 'session-tick', domain: 'youtube.com', mode: 'pack', remainingSeconds: 45 },
+      { ts: 4, event: 'session-tick', domain: 'youtube.com', mode: 'pack', remainingSeconds: 30 },
+      { ts: 5, event: 'session-paused', domain: 'youtube.com', mode: 'pack', remainingSeconds: 30, reason: 'inactive' },
+      { ts: 6, event: 'session-tick', domain: 'youtube.com', mode: 'pack', remainingSeconds: 15 }
+    ]);
+
+    expect(lanes.map((lane) => lane.domain)).toEqual(['youtube.com', 'reddit.com']);
+    expect(lanes[0].entries).toEqual([
+      { event: 'session-started', firstTs: 1, lastTs: 1, count: 1, mode: 'pack', remainingFrom: 60, remainingTo: 60 },
+      { event: 'session-tick', firstTs: 3, lastTs: 4, count: 2, mode: 'pack', remainingFrom: 45, remainingTo: 30 },
+      { event: 'session-paused', firstTs: 5, lastTs: 5, count: 1, mode: 'pack', reason: 'inactive', remainingFrom: 30, remainingTo: 30 },
+      { event: 'session-tick', firstTs: 6, lastTs: 6, count: 1, mode: 'pack', remainingFrom: 15, remainingTo: 15 }
+    ]);
+  });
+});
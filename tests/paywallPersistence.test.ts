@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Database } from '../src/backend/storage';
+import { WalletManager } from '../src/backend/wallet';
+import { MarketService } from '../src/backend/market';
+import { PaywallManager } from '../src/backend/paywall';
+import { PaywallSessionStore } from '../src/backend/paywallSessions';
+
+describe('paywall session persistence', () => {
+  let db: Database;
+  let wallet: WalletManager;
+  let market: MarketService;
+
+  function advance(ms: number) {
+    vi.setSystemTime(new Date(Date.now() + ms));
+  }
+
+  /** A fresh manager over the same database, as after an app restart. */
+  function restart() {
+    return new PaywallManager(wallet, market, undefined, new PaywallSessionStore(db));
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-05-01T12:00:00.000Z'));
+    db = new Database({ filePath: ':memory:' });
+    wallet = new WalletManager(db);
+    wallet.adjust(200 - wallet.getSnapshot().balance);
+    market = new MarketService(db);
+    market.upsertRate({ domain: 'youtube.com', ratePerMin: 1, packs: [{ minutes: 10, price: 40 }], hourlyModifiers: Array(24).fill(1) });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await db.close();
+  });
+
+  it('restores packs, chains and URL-locked passes exactly as they were when frozen', () => {
+    const paywall = restart();
+    paywall.buyPack('youtube.com', 10, 40);
+    paywall.buyPack('youtube.com', 10, 40);
+    paywall.startEmergency('reddit.com', 'Checking a thread', { durationSeconds: 120, allowedUrl: 'https://reddit.com/r/test?x=1' });
+    paywall.startMetered('twitch.tv');
+    advance(15_000);
+    paywall.tick(15, 'youtube.com', 'https://youtube.com/watch');
+    paywall.pause('youtube.com');
+
+    advance(60 * 60_000);
+    const restored = restart();
+    expect(restored.restoreSessions('freeze').map((session) => session.domain).sort()).toEqual(['reddit.com', 'twitch.tv', 'youtube.com']);
+    expect(restored.getSession('youtube.com')).toMatchObject({
+      mode: 'pack',
+      remainingSeconds: 1185,
+      purchasePrice: 80,
+      purchasedSeconds: 1200,
+      packChainCount: 2,
+      paused: true,
+      manualPaused: true,
+      lastTick: Date.now()
+    });
+    expect(restored.getSession('reddit.com')).toMatchObject({
+      mode: 'emergency',
+      remainingSeconds: 120,
+      justification: 'Checking a thread',
+      allowedUrl: 'https://reddit.com/r/test'
+    });
+    expect(restored.getSession('twitch.tv')).toMatchObject({ mode: 'metered', remainingSeconds: Infinity });
+    expect(restored.hasValidPass('reddit.com', 'https://reddit.com/r/test')).toBe(true);
+    expect(restored.hasValidPass('reddit.com', 'https://reddit.com/r/other')).toBe(false);
+
+    // Ended sessions are gone for good.
+    restored.endSession('twitch.tv');
+    expect(restart().restoreSessions('freeze').map((session) => session.domain).sort()).toEqual(['reddit.com', 'youtube.com']);
+  });
+
+  it('counts downtime against timed passes and ends the ones that ran out', () => {
+    const paywall = restart();
+    paywall.buyPack('youtube.com', 10, 40);
+    paywall.startEmergency('reddit.com', 'Quick look', { durationSeconds: 120 });
+    paywall.startStore('news.com', 10);
+    const ended: Array<{ domain: string; reason: string }> = [];
+
+    advance(5 * 60_000);
+    const restored = restart();
+    restored.on('session-ended', (payload) => ended.push(payload));
+    restored.restoreSessions('count-down');
+
+    expect(restored.getSession('youtube.com')?.remainingSeconds).toBe(300);
+    expect(restored.getSession('news.com')?.remainingSeconds).toBe(Infinity);
+    expect(restored.getSession('reddit.com')).toBeNull();
+    expect(ended).toEqual([expect.objectContaining({ domain: 'reddit.com', reason: 'expired-offline' })]);
+    expect(restart().restoreSessions('freeze').map((session) => session.domain).sort()).toEqual(['news.com', 'youtube.com']);
+  });
+
+  it('refunds the unused part of packs and keeps other sessions', () => {
+    const paywall = restart();
+    paywall.buyPack('youtube.com', 10, 40);
+    advance(150_000);
+    paywall.tick(150, 'youtube.com', 'https://youtube.com/watch');
+    paywall.startEmergency('reddit.com', 'Quick look', { durationSeconds: 120 });
+    expect(wallet.getSnapshot().balance).toBe(160);
+
+    advance(60 * 60_000);
+    const restored = restart();
+    expect(restored.restoreSessions('refund').map((session) => session.domain)).toEqual(['reddit.com']);
+    expect(restored.getSession('youtube.com')).toBeNull();
+    expect(wallet.getSnapshot().balance).toBe(190);
+    expect(wallet.listTransactions(1)[0]).toMatchObject({ type: 'adjust', amount: 30, meta: expect.objectContaining({ type: 'pack-refund' }) });
+    expect(wallet.reconcile().ok).toBe(true);
+  });
+});
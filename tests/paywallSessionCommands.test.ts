@@ -1,5 +1,6 @@
 import { describe, expect, it, vi } from 'vitest';
-import { createPaywallSessionCommandHandlers } from '../extension/src/background/paywallSessionCommands';
+import { createPaywallSessionCommandHandlers, type PaywallQuotes } from '../extension/src/background/paywallSessionCommands';
+import type { PaywallQuote } from '../src/shared/paywallPricing';
 import type { GuardrailColorFilter } from '../src/shared/types';
 import type { MarketRate, PaywallSession } from '../extension/src/storage';
 
@@ -60,7 +61,8 @@ function createCommands(storage: ReturnType<typeof createStorage>, overrides?: P
   preferDesktopPurchase: (
     path: '/paywall/packs' | '/paywall/metered',
     payload: Record<string, unknown>
-  ) => Promise<{ ok: true; session: unknown } | { ok: false; error: string }>;
+  ) => Promise<{ ok: true; session: unknown } | { ok: false; error: string; quote?: PaywallQuote }>;
+  fetchDesktopQuotes: (payload: { domain: string }) => Promise<PaywallQuotes | null>;
   preferDesktopEnd: (domain: string) => Promise<{ ok: boolean; error?: string }>;
   postStartStoreFallback: (payload: { domain: string; price: number; url?: string }) => Promise<boolean>;
   syncFromDesktop: () => Promise<void>;
@@ -76,6 +78,7 @@ function createCommands(storage: ReturnType<typeof createStorage>, overrides?: P
     storage: storage as any,
     preferDesktopPurchase: overrides?.preferDesktopPurchase ?? (async () => ({ ok: false as const, error: 'offline' })),
     preferDesktopEnd: overrides?.preferDesktopEnd ?? (async () => ({ ok: false })),
+    fetchDesktopQuotes: overrides?.fetchDesktopQuotes ?? (async () => null),
     sendWsEvent: overrides?.sendWsEvent ?? (() => false),
     postStartStoreFallback: overrides?.postStartStoreFallback ?? (async () => false),
     syncFromDesktop,
@@ -91,8 +94,6 @@ function createCommands(storage: ReturnType<typeof createStorage>, overrides?: P
     }),
     normalizeGuardrailColorFilter: (value) =>
       value === 'greyscale' || value === 'redscale' || value === 'full-color' ? value : 'full-color',
-    getColorFilterPriceMultiplier: (mode) => (mode === 'greyscale' ? 0.55 : mode === 'redscale' ? 0.7 : 1),
-    meteredPremiumMultiplier: 3.5,
     getActiveHttpTab: overrides?.getActiveHttpTab ?? (async () => null),
     matchesSessionDomain: (actual, expected) => actual === expected,
     transitionTabToHomebase
@@ -145,6 +146,47 @@ describe('paywall session commands', () => {
     expect(queueWalletTransaction).toHaveBeenCalledOnce();
   });
 
+  it('quotes offline from the cached rate and refuses a purchase against a stale quote', async () => {
+    const storage = createStorage({
+      rates: {
+        'reddit.com': { domain: 'reddit.com', ratePerMin: 2, packs: [{ minutes: 10, price: 10 }] }
+      },
+      alwaysGreyscale: true
+    });
+    const { commands } = createCommands(storage);
+
+    const quotes = await commands.quote({ domain: 'reddit.com' });
+    expect(quotes).toMatchObject({ success: true, source: 'offline' });
+    const pack = quotes.packs![0];
+    expect(pack).toMatchObject({ minutes: 10, colorFilter: 'greyscale', price: 6 });
+    expect(quotes.metered!.ratePerMin).toBeCloseTo(2 * 0.55 * 3.5);
+
+    const stale = await commands.buyPack({ domain: 'reddit.com', minutes: 10, quoteId: 'q1-stale' });
+    expect(stale).toMatchObject({ success: false, quote: { quoteId: pack.quoteId } });
+    expect(storage.calls.spendCoins).toEqual([]);
+
+    const bought = await commands.buyPack({ domain: 'reddit.com', minutes: 10, quoteId: pack.quoteId });
+    expect(bought.success).toBe(true);
+    expect(storage.calls.spendCoins).toEqual([6]);
+  });
+
+  it('does not fall back to an offline purchase when the desktop refuses the quote', async () => {
+    const storage = createStorage({
+      rates: {
+        'reddit.com': { domain: 'reddit.com', ratePerMin: 2, packs: [{ minutes: 10, price: 10 }] }
+      }
+    });
+    const fresh = { quoteId: 'q1-fresh' } as PaywallQuote;
+    const { commands } = createCommands(storage, {
+      preferDesktopPurchase: async () => ({ ok: false as const, error: 'Price changed', quote: fresh })
+    });
+
+    const result = await commands.startMetered({ domain: 'reddit.com', quoteId: 'q1-old' });
+
+    expect(result).toEqual({ success: false, error: 'Price changed', quote: fresh });
+    expect(storage.sessions['reddit.com']).toBeUndefined();
+  });
+
   it('refunds unused pack time when desktop end is unavailable', async () => {
     const storage = createStorage({
       sessions: {
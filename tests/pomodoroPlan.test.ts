@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Database } from '../src/backend/storage';
+import { PomodoroService } from '../src/backend/pomodoro';
+import {
+  buildPomodoroPhases,
+  completedPomodoroFocusSec,
+  describePomodoroPhase,
+  isPomodoroEnforced,
+  validatePomodoroPlan
+} from '../src/shared/pomodoroPlan';
+import type { PomodoroAllowlistEntry, PomodoroSession, PomodoroSessionConfig } from '../src/shared/types';
+
+const allowlist: PomodoroAllowlistEntry[] = [{ id: 'docs', kind: 'site', value: 'docs.google.com' }];
+
+describe('pomodoro plans', () => {
+  it('expands cycles into focus, short and long break phases', () => {
+    const phases = buildPomodoroPhases(25 * 60, allowlist, { cycles: 4, shortBreakSec: 300, longBreakSec: 1200 });
+    expect(phases.map((phase) => phase.kind)).toEqual([
+      'focus',
+      'short-break',
+      'focus',
+      'short-break',
+      'focus',
+      'short-break',
+      'focus',
+      'long-break'
+    ]);
+    expect(phases[1]).toMatchObject({ cycle: 1, durationSec: 300, allowlist: null });
+    expect(phases[7]).toMatchObject({ cycle: 4, durationSec: 1200 });
+
+    const everyTwo = buildPomodoroPhases(1500, allowlist, { cycles: 3, shortBreakSec: 300, longBreakSec: 900, longBreakEvery: 2 });
+    expect(everyTwo.map((phase) => phase.kind)).toEqual(['focus', 'short-break', 'focus', 'long-break', 'focus']);
+
+    expect(validatePomodoroPlan({ cycles: 0, shortBreakSec: 300, longBreakSec: 0 })).toMatch(/between 1 and 12/);
+    expect(validatePomodoroPlan({ cycles: 4, shortBreakSec: 10, longBreakSec: 0 })).toMatch(/Short breaks/);
+    expect(validatePomodoroPlan({ cycles: 4, shortBreakSec: 300, longBreakSec: 0 })).toBeNull();
+  });
+});
+
+describe('PomodoroService plans', () => {
+  let db: Database;
+  let service: PomodoroService;
+
+  const config = (plan: PomodoroSessionConfig['plan']): PomodoroSessionConfig => ({
+    durationSec: 300,
+    mode: 'strict',
+    allowlist,
+    plan
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-05-01T09:00:00.000Z'));
+    db = new Database({ filePath: ':memory:' });
+    service = new PomodoroService(db);
+  });
+
+  afterEach(async () => {
+    service.dispose();
+    vi.useRealTimers();
+    await db.close();
+  });
+
+  it('auto-advances through focus and break phases and completes the plan', () => {
+    const phases: PomodoroSession[] = [];
+    const stops: PomodoroSession[] = [];
+    service.on('phase', (session: PomodoroSession) => phases.push(session));
+    service.on('stop', (session: PomodoroSession) => stops.push(session));
+
+    const started = service.start(config({ cycles: 2, shortBreakSec: 60, longBreakSec: 120, shortBreakAllowlist: allowlist }));
+    expect(started.plan?.phases).toHaveLength(4);
+    expect(describePomodoroPhase(started.plan)).toBe('Focus 1/2 · next: Break 1m');
+
+    vi.advanceTimersByTime(301_000);
+    expect(phases).toHaveLength(1);
+    expect(phases[0]).toMatchObject({ state: 'break', plan: { currentIndex: 1 } });
+    // This break keeps the focus allowlist, so it stays enforced.
+    expect(isPomodoroEnforced(phases[0])).toBe(true);
+    expect(phases[0].breakRemainingMs).toBeLessThanOrEqual(60_000);
+
+    vi.advanceTimersByTime(60_000);
+    expect(service.status()).toMatchObject({ state: 'active', plannedDurationSec: 300, plan: { currentIndex: 2 } });
+
+    vi.advanceTimersByTime(300_000);
+    const longBreak = service.status();
+    expect(longBreak).toMatchObject({ state: 'break', plan: { currentIndex: 3 } });
+    expect(isPomodoroEnforced(longBreak)).toBe(false);
+
+    expect(service.skipPhase()).toMatchObject({ state: 'ended', completedReason: 'completed' });
+    expect(service.status()).toBeNull();
+    expect(completedPomodoroFocusSec(stops[0])).toBe(600);
+    expect(stops[0].plan?.phases[3].skipped).toBe(true);
+  });
+
+  it('catches up on phases that ended while the app was closed', () => {
+    const started = service.start(config({ cycles: 3, shortBreakSec: 120, longBreakSec: 0 }));
+    service.dispose();
+
+    // Closed through the first focus block and into the first break.
+    vi.setSystemTime(new Date(Date.parse(started.startedAt) + 360_000));
+    service = new PomodoroService(db);
+    const restored = service.status();
+    expect(restored).toMatchObject({ id: started.id, state: 'break', plan: { currentIndex: 1 } });
+    expect(restored?.plan?.phases[0].endedAt).toBe(new Date(Date.parse(started.startedAt) + 300_000).toISOString());
+    expect(restored?.breakRemainingMs).toBe(60_000);
+
+    service.dispose();
+    vi.setSystemTime(new Date(Date.parse(started.startedAt) + 24 * 60 * 60 * 1000));
+    service = new PomodoroService(db);
+    expect(service.status()).toBeNull();
+    const [summary] = service.getSummaries(1);
+    expect(summary.session).toMatchObject({ state: 'ended', completedReason: 'expired' });
+    expect(summary.session.plan?.phases.every((phase) => phase.endedAt)).toBe(true);
+  });
+
+  it('drops a stored plan that is not well formed', () => {
+    const started = service.start(config({ cycles: 2, shortBreakSec: 60, longBreakSec: 0 }));
+    service.stop('canceled');
+    const update = db.connection.prepare('UPDATE pomodoro_sessions SET plan_json = ? WHERE id = ?');
+
+    update.run(JSON.stringify({ cycles: 2, currentIndex: 0, phases: [{ kind: 'nap', cycle: 1, durationSec: 60 }] }), started.id);
+    expect(service.getSummaries(1)[0].session.plan).toBeNull();
+    update.run('{not json', started.id);
+    expect(service.getSummaries(1)[0].session.plan).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Database } from '../src/backend/storage';
+import { PomodoroService } from '../src/backend/pomodoro';
+import type { PomodoroSessionConfig } from '../src/shared/types';
+
+const config: PomodoroSessionConfig = {
+  durationSec: 300,
+  mode: 'soft',
+  allowlist: [{ id: 'docs', kind: 'site', value: 'docs.google.com' }]
+};
+
+describe('PomodoroService restart recovery', () => {
+  let db: Database;
+  let service: PomodoroService;
+
+  function restart(atMs: number) {
+    service.dispose();
+    vi.setSystemTime(new Date(atMs));
+    service = new PomodoroService(db);
+  }
+
+  function row(id: string) {
+    return db.connection.prepare('SELECT state, ended_at, completed_reason FROM pomodoro_sessions WHERE id = ?').get(id) as {
+      state: string;
+      ended_at: string | null;
+      completed_reason: string | null;
+    };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-05-01T09:00:00.000Z'));
+    db = new Database({ filePath: ':memory:' });
+    service = new PomodoroService(db);
+  });
+
+  afterEach(async () => {
+    service.dispose();
+    vi.useRealTimers();
+    await db.close();
+  });
+
+  it('restores focus time without counting pauses, then expires once it runs out', () => {
+    const started = service.start(config);
+    const startMs = Date.parse(started.startedAt);
+    vi.advanceTimersByTime(100_000);
+    service.pause();
+    vi.advanceTimersByTime(60_000);
+    service.resume();
+    service.grantOverride({ kind: 'site', target: 'youtube.com', durationSec: 600 });
+    vi.advanceTimersByTime(50_000);
+
+    // The app is killed here and comes back 100s later.
+    restart(startMs + 310_000);
+    expect(service.status()).toMatchObject({ id: started.id, state: 'active', remainingMs: 50_000 });
+    expect(service.status()?.overrides).toHaveLength(1);
+    vi.advanceTimersByTime(50_000);
+    expect(service.status()).toBeNull();
+    expect(row(started.id)).toMatchObject({ state: 'ended', completed_reason: 'completed' });
+
+    const second = service.start(config);
+    vi.advanceTimersByTime(20_000);
+    restart(Date.now() + 60 * 60 * 1000);
+    expect(service.status()).toBeNull();
+    // Ends when the focus time would have run out, not when the app came back.
+    expect(row(second.id)).toEqual({
+      state: 'ended',
+      ended_at: new Date(Date.parse(second.startedAt) + 300_000).toISOString(),
+      completed_reason: 'expired'
+    });
+  });
+
+  it('restores paused sessions and breaks', () => {
+    const started = service.start(config);
+    vi.advanceTimersByTime(120_000);
+    service.pause();
+
+    restart(Date.now() + 2 * 60 * 60 * 1000);
+    expect(service.status()).toMatchObject({ id: started.id, state: 'paused', remainingMs: 180_000 });
+
+    service.resume();
+    service.startBreak(120);
+    restart(Date.now() + 30_000);
+    expect(service.status()).toMatchObject({ id: started.id, state: 'break', breakRemainingMs: 90_000 });
+
+    restart(Date.now() + 120_000);
+    expect(service.status()).toBeNull();
+    expect(row(started.id).completed_reason).toBe('expired');
+
+    const paused = service.start(config);
+    service.pause();
+    restart(Date.now() + 13 * 60 * 60 * 1000);
+    expect(service.status()).toBeNull();
+    expect(row(paused.id)).toMatchObject({ state: 'ended', completed_reason: 'interrupted' });
+  });
+
+  it('closes older sessions left open by earlier crashes as interrupted', () => {
+    const orphan = service.start(config);
+    vi.advanceTimersByTime(1000);
+    const latest = service.start(config);
+    // Simulate an earlier crash that never closed the first row.
+    db.connection
+      .prepare("UPDATE pomodoro_sessions SET state = 'active', ended_at = NULL, completed_reason = NULL WHERE id = ?")
+      .run(orphan.id);
+
+    restart(Date.now() + 1000);
+    expect(service.status()?.id).toBe(latest.id);
+    expect(row(orphan.id)).toMatchObject({ state: 'ended', completed_reason: 'interrupted' });
+  });
+});
@@ -212,6 +212,7 @@ describe('route validation housekeeping', () => {
       paywall: { listSessions: () => [] } as any,
       library: { list: () => [] } as any,
       consumption: { latestByKind: () => null } as any,
+      pairing: {} as any,
       pomodoro: { status: () => null } as any
     });
 
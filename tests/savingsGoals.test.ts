@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Database } from '../src/backend/storage';
+import { WalletManager } from '../src/backend/wallet';
+import { MarketService } from '../src/backend/market';
+import { PaywallManager } from '../src/backend/paywall';
+import { SavingsGoalService } from '../src/backend/savingsGoals';
+
+describe('savings goals', () => {
+  let db: Database;
+  let wallet: WalletManager;
+  let now: number;
+  let goals: SavingsGoalService;
+
+  beforeEach(() => {
+    db = new Database({ filePath: ':memory:' });
+    wallet = new WalletManager(db);
+    now = Date.parse('2026-03-04T12:00:00.000Z');
+    goals = new SavingsGoalService(db, wallet, () => now);
+    wallet.adjust(300 - wallet.getSnapshot().balance);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('escrows coins out of the spendable balance without touching the ledger', () => {
+    const goal = goals.create({ name: 'Movie night', targetCoins: 600 });
+    goals.escrow(goal.id, 200);
+
+    expect(wallet.getSnapshot()).toEqual({ balance: 300, escrowed: 200, spendable: 100 });
+    expect(wallet.reconcile().ok).toBe(true);
+    expect(() => wallet.spend(150)).toThrow(/200 coins are saved in goals/);
+    expect(() => goals.escrow(goal.id, 150)).toThrow(/only 100 coins are spendable/);
+  });
+
+  it('releases when the target is reached or the release date passes', () => {
+    const small = goals.create({ name: 'Snack', targetCoins: 50 });
+    const reached = goals.escrow(small.id, 80);
+    expect(reached).toMatchObject({ status: 'released', releaseReason: 'reached', escrowedCoins: 50 });
+    expect(wallet.getSpendableBalance()).toBe(300);
+
+    const trip = goals.create({ name: 'Trip', targetCoins: 1000, releaseAt: '2026-03-05T00:00:00.000Z' });
+    goals.escrow(trip.id, 250);
+    expect(goals.releaseDue()).toHaveLength(0);
+    expect(wallet.getSpendableBalance()).toBe(50);
+
+    now = Date.parse('2026-03-05T00:00:01.000Z');
+    expect(goals.list().find((goal) => goal.id === trip.id)).toMatchObject({ status: 'released', releaseReason: 'scheduled' });
+    expect(wallet.getSpendableBalance()).toBe(300);
+    expect(() => goals.escrow(trip.id, 10)).toThrow(/already released/);
+  });
+
+  it('keeps escrowed coins away from paywall packs and metered sessions', () => {
+    const market = new MarketService(db);
+    market.upsertRate({ domain: 'youtube.com', ratePerMin: 1, packs: [{ minutes: 10, price: 120 }], hourlyModifiers: Array(24).fill(1) });
+    const paywall = new PaywallManager(wallet, market);
+    const goal = goals.create({ name: 'Concert', targetCoins: 400 });
+    goals.escrow(goal.id, 250);
+
+    expect(() => paywall.buyPack('youtube.com', 10, 120)).toThrow(/Insufficient funds/);
+    expect(wallet.getSnapshot().balance).toBe(300);
+
+    goals.escrow(goal.id, 50);
+    expect(() => paywall.startMetered('youtube.com')).toThrow(/no spendable coins/);
+
+    goals.release(goal.id);
+    expect(paywall.buyPack('youtube.com', 10, 120).mode).toBe('pack');
+    expect(wallet.getSnapshot()).toMatchObject({ balance: 180, escrowed: 0 });
+  });
+});
@@ -0,0 +1,198 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import DatabaseDriver from 'better-sqlite3';
+import { Database } from '../src/backend/storage';
+import { MIGRATIONS, SchemaMigrator, type Migration } from '../src/backend/migrations';
+
+// Schema shipped before sync ids, library purposes, the wallet ledger and
+// budget targets existed, with a little data in each table.
+const EARLY_RELEASE_FIXTURE = `
+  CREATE TABLE wallet (id INTEGER PRIMARY KEY CHECK(id = 1), balance INTEGER NOT NULL);
+  CREATE TABLE transactions (
+    id INTEGER PRIMARY KEY,
+    ts TEXT NOT NULL,
+    type TEXT CHECK(type IN ('earn','spend','adjust')) NOT NULL,
+    amount INTEGER NOT NULL,
+    meta TEXT
+  );
+  CREATE TABLE library_items (
+    id INTEGER PRIMARY KEY,
+    kind TEXT CHECK(kind IN ('url','app')) NOT NULL,
+    url TEXT UNIQUE,
+    app TEXT,
+    domain TEXT NOT NULL,
+    title TEXT,
+    note TEXT,
+    bucket TEXT CHECK(bucket IN ('attractor','productive','frivolous')) NOT NULL,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT
+  );
+  CREATE TABLE store_items (
+    id INTEGER PRIMARY KEY,
+    url TEXT UNIQUE,
+    domain TEXT,
+    title TEXT,
+    price INTEGER,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT
+  );
+  CREATE TABLE market_rates (domain TEXT PRIMARY KEY, rate_per_min REAL NOT NULL, packs_json TEXT NOT NULL);
+  CREATE TABLE budgets (
+    id INTEGER PRIMARY KEY,
+    period TEXT CHECK(period IN ('day','week')) NOT NULL,
+    category TEXT NOT NULL,
+    seconds_budgeted INTEGER NOT NULL
+  );
+  CREATE TABLE activity_rollups (
+    id INTEGER PRIMARY KEY,
+    device_id TEXT NOT NULL,
+    hour_start TEXT NOT NULL,
+    productive INTEGER NOT NULL,
+    neutral INTEGER NOT NULL,
+    frivolity INTEGER NOT NULL,
+    idle INTEGER NOT NULL,
+    updated_at TEXT NOT NULL,
+    UNIQUE(device_id, hour_start)
+  );
+  CREATE TABLE anki_reviews (
+    id INTEGER PRIMARY KEY,
+    card_id INTEGER NOT NULL,
+    deck_id INTEGER NOT NULL,
+    reviewed_at TEXT NOT NULL,
+    rating TEXT NOT NULL,
+    response_ms INTEGER,
+    before_due_at TEXT,
+    after_due_at TEXT,
+    before_interval_days INTEGER,
+    after_interval_days INTEGER,
+    before_ease_factor REAL,
+    after_ease_factor REAL,
+    reward_coins INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE consumption_log (
+    id INTEGER PRIMARY KEY,
+    occurred_at TEXT NOT NULL,
+    day TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    title TEXT,
+    url TEXT,
+    domain TEXT,
+    meta TEXT
+  );
+
+  INSERT INTO wallet(id, balance) VALUES (1, 120);
+  INSERT INTO transactions(ts, type, amount, meta) VALUES ('2024-01-01T10:00:00.000Z', 'earn', 30, '{}');
+  INSERT INTO library_items(kind, url, domain, title, bucket, created_at)
+    VALUES ('url', 'https://youtube.com/watch?v=1', 'youtube.com', 'Talk', 'frivolous', '2024-01-01T09:00:00.000Z');
+  INSERT INTO store_items(url, domain, title, price, created_at)
+    VALUES ('https://reddit.com/r/rust', 'reddit.com', 'r/rust', 12, '2024-01-02T09:00:00.000Z');
+  INSERT INTO budgets(period, category, seconds_budgeted) VALUES ('day', 'frivolity', 3600);
+  INSERT INTO anki_reviews(card_id, deck_id, reviewed_at, rating) VALUES (1, 1, '2024-01-03T09:00:00.000Z', 'good');
+`;
+
+describe('schema migrations', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tws-migrations-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeFixture(sql: string) {
+    const filePath = path.join(dir, 'timewellspent.db');
+    const raw = new DatabaseDriver(filePath);
+    raw.exec(sql);
+    raw.close();
+    return filePath;
+  }
+
+  it('upgrades an early-release database to the latest schema after taking a backup', async () => {
+    const filePath = writeFixture(EARLY_RELEASE_FIXTURE);
+    const db = new Database({ filePath });
+    const conn = db.connection;
+
+    expect(db.migrations.currentVersion()).toBe(MIGRATIONS.at(-1)?.version);
+    expect(db.migrations.verify()).toMatchObject({ ok: true, schemaDrift: [], integrity: [] });
+
+    const backups = fs.readdirSync(dir).filter((name) => name.endsWith('.bak'));
+    expect(backups).toHaveLength(1);
+    const backup = new DatabaseDriver(path.join(dir, backups[0]), { readonly: true });
+    const backupColumns = (backup.prepare('PRAGMA table_info(library_items)').all() as Array<{ name: string }>).map((c) => c.name);
+    expect(backupColumns).not.toContain('purpose');
+    backup.close();
+
+    expect(conn.prepare('SELECT purpose, updated_at FROM library_items WHERE domain = ?').get('youtube.com')).toEqual({
+      purpose: 'temptation',
+      updated_at: '2024-01-01T09:00:00.000Z'
+    });
+    expect(conn.prepare('SELECT price, purpose FROM library_items WHERE domain = ?').get('reddit.com')).toEqual({ price: 12, purpose: 'allow' });
+    expect(conn.prepare('SELECT target_kind, escalation FROM budgets').get()).toEqual({ target_kind: 'category', escalation: 'warn' });
+    expect(conn.prepare("SELECT amount FROM transactions WHERE type = 'opening'").get()).toEqual({ amount: 90 });
+    expect(() => conn.prepare("INSERT INTO transactions(ts, type, amount) VALUES ('x', 'reversal', -1)").run()).not.toThrow();
+    await db.close();
+  });
+
+  it('adopts a pre-versioning database at the current schema without re-running data fixes', async () => {
+    const filePath = path.join(dir, 'timewellspent.db');
+    const first = new Database({ filePath });
+    first.connection.exec('DROP TABLE schema_migrations');
+    await first.close();
+
+    const reopened = new Database({ filePath });
+    expect(reopened.migrations.pending()).toEqual([]);
+    expect(reopened.connection.prepare("SELECT COUNT(*) as count FROM transactions WHERE type = 'opening'").get()).toEqual({ count: 1 });
+    expect(reopened.migrations.verify().ok).toBe(true);
+    await reopened.close();
+  });
+
+  it('refuses to open a database written by a newer build', async () => {
+    const filePath = path.join(dir, 'timewellspent.db');
+    const first = new Database({ filePath });
+    first.connection.prepare("INSERT INTO schema_migrations(version, name, applied_at) VALUES (999, 'future', 'now')").run();
+    await first.close();
+
+    expect(() => new Database({ filePath })).toThrow(/newer than this app supports/);
+  });
+
+  it('rolls back a failing migration, dry-runs without writing and reverts reversible steps', () => {
+    const raw = new DatabaseDriver(':memory:');
+    const migrations: Migration[] = [
+      { version: 1, name: 'notes', up: (db) => db.exec('CREATE TABLE notes (id INTEGER PRIMARY KEY)') },
+      {
+        version: 2,
+        name: 'note-body',
+        up: (db) => db.exec('ALTER TABLE notes ADD COLUMN body TEXT'),
+        down: (db) => db.exec('ALTER TABLE notes DROP COLUMN body')
+      },
+      {
+        version: 3,
+        name: 'broken',
+        up: (db) => {
+          db.exec('ALTER TABLE notes ADD COLUMN pinned INTEGER');
+          db.exec('INSERT INTO missing_table VALUES (1)');
+        }
+      }
+    ];
+    const migrator = new SchemaMigrator(raw, null, migrations);
+
+    const dryRun = migrator.dryRun();
+    expect(dryRun.applied.map((entry) => entry.version)).toEqual([1, 2]);
+    expect(dryRun.error).toMatch(/missing_table/);
+    expect(migrator.currentVersion()).toBe(0);
+    expect(raw.prepare("SELECT name FROM sqlite_master WHERE name = 'notes'").get()).toBeUndefined();
+
+    expect(() => migrator.migrate()).toThrow(/missing_table/);
+    expect(migrator.currentVersion()).toBe(2);
+    const columns = (raw.prepare('PRAGMA table_info(notes)').all() as Array<{ name: string }>).map((c) => c.name);
+    expect(columns).toEqual(['id', 'body']);
+
+    expect(migrator.rollback(1).toVersion).toBe(1);
+    expect(() => migrator.rollback(0)).toThrow(/cannot be reverted/);
+    raw.close();
+  });
+});
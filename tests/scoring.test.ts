@@ -8,7 +8,7 @@ const sampleIntentions = [
 ];
 
 const sampleBudgets: Budget[] = [
-  { id: 1, period: 'day', category: 'Social', secondsBudgeted: 3600 }
+  { id: 1, period: 'day', targetKind: 'category', category: 'Social', secondsBudgeted: 3600, escalation: 'warn', surchargeMultiplier: 1.5 }
 ];
 
 describe('calculateScore', () => {
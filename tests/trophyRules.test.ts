@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Database } from '../src/backend/storage';
+import { AnalyticsService } from '../src/backend/analytics';
+import { ConsumptionLogService } from '../src/backend/consumption';
+import { LibraryService } from '../src/backend/library';
+import { WalletManager } from '../src/backend/wallet';
+import { SettingsService } from '../src/backend/settings';
+import { TrophyService } from '../src/backend/trophies';
+import { createTrophyMetricSource, type TrophyActivitySample } from '../src/backend/trophyMetricSource';
+import { TROPHY_DEFINITIONS } from '../src/shared/trophies';
+import { evaluateTrophyCondition, evaluateTrophyRule, validateTrophyRule, type TrophyMetricSource } from '../src/shared/trophyRules';
+import type { TrophyCondition, TrophyMetric } from '../src/shared/types';
+
+const NOON = new Date(2024, 4, 15, 12, 0, 0).getTime(); // Wednesday
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function productiveHour(dayOffset: number, hour: number, minutes = 60, context = 'docs'): TrophyActivitySample {
+  const start = new Date(2024, 4, 15 + dayOffset, hour, 0, 0).getTime();
+  return { start, end: start + minutes * 60_000, seconds: minutes * 60, idleSeconds: 0, category: 'productive', context };
+}
+
+function fixedSource(values: Partial<Record<TrophyMetric, number | null>>, daily: Array<number | null> = []): TrophyMetricSource {
+  return {
+    value: (metric) => values[metric] ?? null,
+    daily: () => daily.map((value, index) => ({ day: `2024-05-${String(10 + index).padStart(2, '0')}`, value }))
+  };
+}
+
+describe('trophy rule engine', () => {
+  it('accepts every built-in rule and rejects mismatched windows and streaks', () => {
+    for (const trophy of TROPHY_DEFINITIONS) {
+      if (trophy.rule) expect(validateTrophyRule(trophy.rule), trophy.id).toEqual([]);
+    }
+    expect(validateTrophyRule({ conditions: [] })).toHaveLength(1);
+    expect(validateTrophyRule({ conditions: [{ metric: 'balance', window: 'today', comparator: 'gte', threshold: 1 }] })[0]).toMatch(
+      /only available right now/
+    );
+    expect(
+      validateTrophyRule({ conditions: [{ metric: 'productive_minutes', window: 'now', comparator: 'gte', threshold: 1 }] })[0]
+    ).toMatch(/needs a time window/);
+    expect(
+      validateTrophyRule({ conditions: [{ metric: 'friends', window: 'now', comparator: 'gte', threshold: 1, streakDays: 3 }] })[0]
+    ).toMatch(/no daily history/);
+  });
+
+  it('reports progress for at-least, at-most and best-day conditions', () => {
+    const source = fixedSource({ productive_minutes: 30, frivolity_minutes: 40 }, [10, 95, 20]);
+    const atLeast = evaluateTrophyCondition({ metric: 'productive_minutes', window: 'today', comparator: 'gte', threshold: 60 }, source);
+    expect(atLeast).toMatchObject({ state: 'locked', ratio: 0.5, label: '30m / 60m' });
+
+    const atMost = evaluateTrophyCondition({ metric: 'frivolity_minutes', window: 'today', comparator: 'lte', threshold: 20 }, source);
+    expect(atMost).toMatchObject({ state: 'locked', ratio: 0.5, label: '40m (limit 20m)' });
+
+    const bestDay = evaluateTrophyCondition({ metric: 'productive_minutes', window: 'best_day', comparator: 'gte', threshold: 90 }, source);
+    expect(bestDay).toMatchObject({ state: 'earned', current: 95 });
+
+    const missing = evaluateTrophyCondition({ metric: 'idle_ratio', window: 'today', comparator: 'lte', threshold: 0.2 }, source);
+    expect(missing.state).toBe('untracked');
+  });
+
+  it('counts streaks over consecutive recorded days and shows the weakest condition', () => {
+    const streak: TrophyCondition = { metric: 'productive_minutes', window: 'all_time', comparator: 'gte', threshold: 60, streakDays: 3 };
+    expect(evaluateTrophyCondition(streak, fixedSource({}, [90, 30, 70, 80]))).toMatchObject({ state: 'locked', label: '2/3 days' });
+    expect(evaluateTrophyCondition(streak, fixedSource({}, [90, 70, 80]))).toMatchObject({ state: 'earned', label: '3/3 days' });
+
+    const rule = {
+      conditions: [
+        { metric: 'productive_minutes', window: 'today', comparator: 'gte', threshold: 60 },
+        { metric: 'frivolity_minutes', window: 'today', comparator: 'lte', threshold: 20 }
+      ] satisfies TrophyCondition[]
+    };
+    expect(evaluateTrophyRule(rule, fixedSource({ productive_minutes: 90, frivolity_minutes: 80 }))).toMatchObject({
+      state: 'locked',
+      ratio: 0.25
+    });
+    expect(evaluateTrophyRule(rule, fixedSource({ productive_minutes: 90, frivolity_minutes: 10 })).state).toBe('earned');
+  });
+});
+
+describe('trophy metric source', () => {
+  it('splits activity into calendar windows and daily buckets', () => {
+    const source = createTrophyMetricSource({
+      now: NOON,
+      activities: [productiveHour(-1, 9), productiveHour(-1, 10, 30, 'editor'), productiveHour(0, 8, 45)],
+      events: [{ ts: NOON - 60_000, kind: 'paywall-decline' }],
+      coins: [{ ts: NOON - DAY_MS, delta: 12, frivolitySpend: 0 }],
+      snapshot: {
+        hours_since_frivolity: 5,
+        balance: 50,
+        library_replace_ready: 0,
+        library_replace_total: 0,
+        library_consumed: 0,
+        library_notes: 0,
+        friends: 2
+      }
+    });
+
+    expect(source.value('productive_minutes', 'today')).toBe(45);
+    expect(source.value('productive_minutes', 'yesterday')).toBe(90);
+    expect(source.value('productive_minutes', 'all_time')).toBe(135);
+    expect(source.value('longest_productive_run_minutes', 'yesterday')).toBe(90);
+    expect(source.value('productive_before_10_minutes', 'yesterday')).toBe(60);
+    expect(source.value('paywall_declines', 'today')).toBe(1);
+    expect(source.value('net_coins', 'last_24h')).toBe(12);
+    expect(source.value('frivolity_minutes', 'last_weekend')).toBeNull();
+    expect(source.value('friends', 'now')).toBe(2);
+    expect(source.daily('productive_minutes')).toEqual([
+      { day: '2024-05-14', value: 90 },
+      { day: '2024-05-15', value: 45 }
+    ]);
+  });
+});
+
+describe('custom trophies', () => {
+  let db: Database;
+  let service: TrophyService;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    db = new Database({ filePath: ':memory:' });
+    const settings = new SettingsService(db);
+    service = new TrophyService(
+      db,
+      new AnalyticsService(db, () => settings.getExcludedKeywords()),
+      new ConsumptionLogService(db),
+      new LibraryService(db),
+      new WalletManager(db),
+      settings
+    );
+  });
+
+  afterEach(async () => {
+    vi.clearAllTimers();
+    vi.useRealTimers();
+    await db.close();
+  });
+
+  it('previews, awards and removes a personal trophy', async () => {
+    const rule = { conditions: [{ metric: 'balance', window: 'now', comparator: 'gte', threshold: 40 }] satisfies TrophyCondition[] };
+    expect(service.previewRule(rule)).toMatchObject({ state: 'earned', current: 50 });
+    expect(() => service.createCustom({ name: 'Broke', rule: { conditions: [] } })).toThrow(/at least one condition/);
+
+    const trophy = service.createCustom({ name: 'Saver', rule });
+    expect(trophy).toMatchObject({ id: expect.stringMatching(/^custom:\d+$/), emoji: '🏅', description: '' });
+
+    const statuses = await service.listStatuses();
+    const status = statuses.find((entry) => entry.id === trophy.id);
+    expect(status).toMatchObject({ category: 'personal', custom: true, progress: { state: 'earned' } });
+    expect(status?.earnedAt).toBeTruthy();
+
+    service.setPinned([trophy.id]);
+    service.removeCustom(trophy.id);
+    expect(service.listCustom()).toEqual([]);
+    expect(service.listEarned().map((entry) => entry.id)).not.toContain(trophy.id);
+    expect(service.getProfileSummary(null).pinnedTrophies).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Database } from '../src/backend/storage';
+import { WalletManager } from '../src/backend/wallet';
+
+describe('WalletManager ledger', () => {
+  let db: Database;
+  let wallet: WalletManager;
+
+  beforeEach(() => {
+    db = new Database({ filePath: ':memory:' });
+    wallet = new WalletManager(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('opens the ledger with the starting balance and derives the balance from it', () => {
+    expect(wallet.getSnapshot().balance).toBe(50);
+    expect(wallet.getLedgerBalance()).toBe(50);
+
+    wallet.earn(20, { type: 'earn-tick' });
+    wallet.spend(5, { type: 'frivolity-tick' });
+    wallet.adjust(-10, { type: 'emergency-debt' });
+
+    expect(wallet.getSnapshot().balance).toBe(55);
+    expect(wallet.reconcile()).toMatchObject({ ok: true, cachedBalance: 55, ledgerBalance: 55, repaired: false });
+  });
+
+  it('corrects mistakes with reversal entries instead of editing rows', () => {
+    wallet.earn(30, { type: 'earn-tick' });
+    const [earnTx] = wallet.listTransactions(1);
+
+    expect(wallet.reverse(earnTx.id, 'double-counted tick').balance).toBe(50);
+    expect(() => wallet.reverse(earnTx.id, 'again')).toThrow(/already reversed/);
+
+    const [reversal] = wallet.listTransactions(1);
+    expect(reversal).toMatchObject({ type: 'reversal', amount: -30, meta: { reversesSyncId: earnTx.syncId } });
+    expect(() =>
+      db.connection.prepare('UPDATE transactions SET amount = 1 WHERE id = ?').run(earnTx.id)
+    ).toThrow(/immutable/);
+  });
+
+  it('detects balance drift from remote transactions and repairs the cache', () => {
+    wallet.applyRemoteTransaction({ ts: new Date().toISOString(), type: 'spend', amount: 15, syncId: 'remote-1' });
+    wallet.applyRemoteTransaction({ ts: new Date().toISOString(), type: 'spend', amount: 15, syncId: 'remote-1' });
+    expect(wallet.getSnapshot().balance).toBe(35);
+
+    // Simulate a cache write that bypassed the ledger.
+    db.connection.prepare('UPDATE wallet SET balance = 90 WHERE id = 1').run();
+
+    const report = wallet.reconcile();
+    expect(report.ok).toBe(false);
+    expect(report.discrepancies).toEqual([
+      expect.objectContaining({ kind: 'balance-drift', amount: 55 })
+    ]);
+    expect(wallet.getSnapshot().balance).toBe(90);
+
+    const repaired = wallet.reconcile({ repair: true });
+    expect(repaired).toMatchObject({ repaired: true, ledgerBalance: 35 });
+    expect(wallet.getSnapshot().balance).toBe(35);
+    expect(wallet.reconcile().ok).toBe(true);
+  });
+
+  it('reverses duplicate reversals that arrived from another device', () => {
+    wallet.earn(40, { type: 'earn-tick' });
+    const [earnTx] = wallet.listTransactions(1);
+    wallet.reverse(earnTx.id, 'mistake');
+    wallet.applyRemoteTransaction({
+      ts: new Date().toISOString(),
+      type: 'reversal',
+      amount: -40,
+      meta: { reversesSyncId: earnTx.syncId, reason: 'mistake' },
+      syncId: 'remote-reversal'
+    });
+    expect(wallet.getSnapshot().balance).toBe(10);
+
+    const report = wallet.reconcile({ repair: true });
+    expect(report.discrepancies.map((entry) => entry.kind)).toEqual(['duplicate-reversal']);
+    expect(wallet.getSnapshot().balance).toBe(50);
+    expect(wallet.reconcile().ok).toBe(true);
+  });
+});
@@ -13,7 +13,7 @@ class FakeSocket extends EventEmitter {
 }
 
 describe('WebSocket pomodoro contract', () => {
-  it('broadcasts pause/resume/break lifecycle events', () => {
+  it('broadcasts pause/resume/break/phase lifecycle events', () => {
     const economy = new EventEmitter();
     const focus = new EventEmitter();
     const pomodoro = new EventEmitter();
@@ -44,10 +44,12 @@ describe('WebSocket pomodoro contract', () => {
     pomodoro.emit('pause', { id: 'p1' });
     pomodoro.emit('resume', { id: 'p1' });
     pomodoro.emit('break', { id: 'p1' });
+    pomodoro.emit('phase', { id: 'p1' });
 
     const types = socket.sent.map((raw) => JSON.parse(raw).type);
     expect(types).toContain('pomodoro-pause');
     expect(types).toContain('pomodoro-resume');
     expect(types).toContain('pomodoro-break');
+    expect(types).toContain('pomodoro-phase');
   });
 });
@@ -0,0 +1,109 @@
+import { EventEmitter } from 'node:events';
+import { describe, expect, it, vi } from 'vitest';
+import { WebSocketBroadcaster } from '../src/backend/websocket/broadcaster';
+import {
+  WS_PROTOCOL_VERSION,
+  negotiateProtocolVersion,
+  parseClientMessage,
+  parseServerMessage,
+  serverMessageSupported
+} from '../src/shared/wsProtocol';
+
+class FakeSocket extends EventEmitter {
+  OPEN = 1;
+  readyState = 1;
+  sent: string[] = [];
+
+  send(payload: string) {
+    this.sent.push(payload);
+  }
+
+  received() {
+    return this.sent.map((raw) => JSON.parse(raw) as { type: string; payload: any });
+  }
+}
+
+function createBroadcaster(overrides: { handleActivity?: (...args: any[]) => void; pause?: (domain: string) => void } = {}) {
+  const economy = new EventEmitter();
+  const broadcaster = new WebSocketBroadcaster({
+    economy: economy as any,
+    wallet: {} as any,
+    focus: new EventEmitter() as any,
+    pomodoro: Object.assign(new EventEmitter(), { status: () => null }) as any,
+    library: Object.assign(new EventEmitter(), { list: () => [] as unknown[] }) as any,
+    paywallCommands: { pause: overrides.pause ?? (() => undefined) } as any,
+    handleActivity: overrides.handleActivity ?? (() => undefined)
+  });
+  return { broadcaster, economy };
+}
+
+describe('websocket protocol schemas', () => {
+  it('parses known messages and classifies everything else', () => {
+    expect(parseServerMessage('{"type":"wallet","payload":{"balance":12,"extra":true}}')).toEqual({
+      ok: true,
+      message: { type: 'wallet', payload: { balance: 12, extra: true } }
+    });
+    expect(parseClientMessage({ type: 'extension:heartbeat' })).toMatchObject({ ok: true });
+    expect(parseServerMessage('not json')).toMatchObject({ ok: false, reason: 'malformed', type: null });
+    expect(parseServerMessage({ type: 'wallet-v2', payload: {} })).toMatchObject({ ok: false, reason: 'unknown-type', type: 'wallet-v2' });
+    expect(parseClientMessage({ type: 'paywall:buy-pack', payload: { domain: 'x.com', minutes: 'ten' } })).toMatchObject({
+      ok: false,
+      reason: 'invalid-payload',
+      error: expect.stringMatching(/^minutes:/)
+    });
+  });
+
+  it('negotiates down to the lower version and hides newer message types from legacy clients', () => {
+    expect(negotiateProtocolVersion(WS_PROTOCOL_VERSION + 3)).toBe(WS_PROTOCOL_VERSION);
+    expect(negotiateProtocolVersion(0)).toBe(0);
+    expect(serverMessageSupported('wallet', 0)).toBe(true);
+    expect(serverMessageSupported('hello', 0)).toBe(false);
+  });
+});
+
+describe('WebSocketBroadcaster protocol handling', () => {
+  it('answers hello with the negotiated version and keeps serving legacy clients', () => {
+    const { broadcaster, economy } = createBroadcaster();
+    const modern = new FakeSocket();
+    const legacy = new FakeSocket();
+    broadcaster.handleConnection(modern as any);
+    broadcaster.handleConnection(legacy as any);
+
+    modern.emit('message', JSON.stringify({ type: 'hello', payload: { protocolVersion: WS_PROTOCOL_VERSION + 1, client: 'extension' } }));
+    expect(modern.received()).toEqual([
+      { type: 'hello', payload: { protocolVersion: WS_PROTOCOL_VERSION, serverProtocolVersion: WS_PROTOCOL_VERSION } }
+    ]);
+
+    economy.emit('wallet-updated', { balance: 40 });
+    expect(modern.received().map((message) => message.type)).toEqual(['hello', 'wallet']);
+    expect(legacy.received()).toEqual([{ type: 'wallet', payload: { balance: 40 } }]);
+    expect(broadcaster.getProtocolStats().clients).toEqual([WS_PROTOCOL_VERSION, 0]);
+  });
+
+  it('drops and counts invalid or unknown client messages', () => {
+    const handleActivity = vi.fn();
+    const pause = vi.fn();
+    const { broadcaster } = createBroadcaster({ handleActivity, pause });
+    const socket = new FakeSocket();
+    broadcaster.handleConnection(socket as any);
+
+    socket.emit('message', JSON.stringify({ type: 'activity', payload: { source: 'url' } }));
+    socket.emit('message', JSON.stringify({ type: 'activity', payload: { source: 'url' } }));
+    socket.emit('message', JSON.stringify({ type: 'paywall:teleport', payload: {} }));
+    socket.emit('message', '{');
+    socket.emit('message', JSON.stringify({ type: 'paywall:pause', payload: { domain: 'youtube.com' } }));
+    socket.emit(
+      'message',
+      JSON.stringify({ type: 'activity', payload: { timestamp: 1714554000000, source: 'url', appName: 'Chrome', domain: 'docs.google.com' } })
+    );
+
+    expect(handleActivity).toHaveBeenCalledTimes(1);
+    expect(handleActivity.mock.calls[0][0]).toMatchObject({ appName: 'Chrome', domain: 'docs.google.com', idleSeconds: 0 });
+    expect(pause).toHaveBeenCalledWith('youtube.com');
+    expect(broadcaster.getProtocolStats().inbound).toEqual({
+      received: 6,
+      rejected: 4,
+      rejections: { 'invalid-payload:activity': 2, 'unknown-type:paywall:teleport': 1, 'malformed:none': 1 }
+    });
+  });
+});